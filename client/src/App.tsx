@@ -7,8 +7,12 @@ import { useAuth } from "@/hooks/useAuth";
 import Landing from "@/pages/landing";
 import Home from "@/pages/home";
 import Assessment from "@/pages/assessment";
+import Systems from "@/pages/systems";
+import GpaiModels from "@/pages/gpai-models";
 import Maturity from "@/pages/maturity";
 import FrameworkAssessment from "@/pages/framework";
+import FrameworkQuestions from "@/pages/framework-questions";
+import UseCaseRiskMappings from "@/pages/use-case-risk-mappings";
 import Database from "@/pages/database";
 import RegulatoryDatabase from "@/pages/regulatory-database";
 import Compliance from "@/pages/compliance";
@@ -16,6 +20,7 @@ import Documents from "@/pages/documents";
 import Certificates from "@/pages/certificates";
 import Monitoring from "@/pages/monitoring";
 import Settings from "@/pages/settings";
+import Organization from "@/pages/organization";
 import MFASetup from "@/pages/mfa-setup";
 import Sessions from "@/pages/sessions";
 import SecurityAdmin from "@/pages/security-admin";
@@ -39,14 +44,19 @@ function Router() {
         <MainLayout>
           <Route path="/" component={Home} />
           <Route path="/assessment" component={Assessment} />
+          <Route path="/systems" component={Systems} />
+          <Route path="/gpai-models" component={GpaiModels} />
           <Route path="/maturity" component={Maturity} />
           <Route path="/framework" component={FrameworkAssessment} />
+          <Route path="/framework/questions" component={FrameworkQuestions} />
+          <Route path="/framework/use-cases" component={UseCaseRiskMappings} />
           <Route path="/database" component={Database} />
           <Route path="/regulatory-database" component={RegulatoryDatabase} />
           <Route path="/compliance" component={Compliance} />
           <Route path="/documents" component={Documents} />
           <Route path="/certificates" component={Certificates} />
           <Route path="/monitoring" component={Monitoring} />
+          <Route path="/organization" component={Organization} />
           <Route path="/settings" component={Settings} />
           <Route path="/security/mfa" component={MFASetup} />
           <Route path="/security/sessions" component={Sessions} />
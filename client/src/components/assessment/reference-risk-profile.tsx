@@ -0,0 +1,116 @@
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { ASSESSMENT_DIMENSION_QUESTIONS, type FrameworkDimensionId, type FrameworkRiskLevel, type UseCaseRiskMapping } from "@shared/schema";
+import { AlertTriangle } from "lucide-react";
+
+interface ReferenceRiskProfileProps {
+  profile: UseCaseRiskMapping;
+  dimensions: { id: string; name: string }[];
+  responses: Record<string, number>;
+}
+
+export interface ProfileDivergence {
+  observed: FrameworkRiskLevel;
+  expected: FrameworkRiskLevel[];
+  direction: 'higher' | 'lower';
+}
+
+const RISK_LEVELS: FrameworkRiskLevel[] = ['none', 'minimal', 'moderate', 'high', 'critical'];
+
+export const RISK_LEVEL_LABELS: Record<FrameworkRiskLevel, { label: string; className: string }> = {
+  none: { label: "Aucun", className: "bg-gray-100 text-gray-800" },
+  minimal: { label: "Minimal", className: "bg-green-100 text-green-800" },
+  moderate: { label: "Modéré", className: "bg-yellow-100 text-yellow-800" },
+  high: { label: "Élevé", className: "bg-orange-100 text-orange-800" },
+  critical: { label: "Critique", className: "bg-red-100 text-red-800" },
+};
+
+// Écart minimal, en niveaux, à partir duquel les réponses sont jugées en net décalage avec la référence
+const SHARP_DIVERGENCE_LEVELS = 2;
+
+// Réponses du formulaire guidé, indépendant de la banque de questions du référentiel :
+// elles vont de 0 (aucun risque) à 100 (risque critique), soit un niveau tous les 25 points
+const observedLevel = (dimensionId: FrameworkDimensionId, responses: Record<string, number>): number | null => {
+  const values = ASSESSMENT_DIMENSION_QUESTIONS[dimensionId]
+    .map(questionId => responses[questionId])
+    .filter((value): value is number => value !== undefined);
+  if (values.length === 0) return null;
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length / 25);
+};
+
+/**
+ * Compare les réponses d'une dimension aux niveaux attendus pour les clients et les collaborateurs ;
+ * renvoie l'écart lorsque le niveau observé s'éloigne d'au moins deux niveaux de cette fourchette
+ */
+export function getProfileDivergence(
+  profile: UseCaseRiskMapping,
+  dimensionId: string,
+  responses: Record<string, number>
+): ProfileDivergence | null {
+  const dimension = dimensionId as FrameworkDimensionId;
+  const observed = observedLevel(dimension, responses);
+  if (observed === null) return null;
+
+  const expected = [profile.customerRiskLevels[dimension], profile.employeeRiskLevels[dimension]];
+  const bounds = expected.map(level => RISK_LEVELS.indexOf(level));
+  const lowest = Math.min(...bounds);
+  const highest = Math.max(...bounds);
+
+  if (observed - highest >= SHARP_DIVERGENCE_LEVELS) {
+    return { observed: RISK_LEVELS[observed], expected, direction: 'higher' };
+  }
+  if (lowest - observed >= SHARP_DIVERGENCE_LEVELS) {
+    return { observed: RISK_LEVELS[observed], expected, direction: 'lower' };
+  }
+  return null;
+}
+
+export function DivergenceAlert({ dimensionName, divergence }: { dimensionName: string; divergence: ProfileDivergence }) {
+  return (
+    <Alert className="border-amber-200 bg-amber-50" data-testid="alert-profile-divergence">
+      <AlertTriangle className="h-4 w-4 text-amber-600" />
+      <AlertDescription className="text-amber-800">
+        {dimensionName} : vos réponses indiquent un risque {RISK_LEVEL_LABELS[divergence.observed].label.toLowerCase()},
+        nettement {divergence.direction === 'higher' ? "supérieur" : "inférieur"} au profil de référence de ce cas d'usage
+        ({divergence.expected.map(level => RISK_LEVEL_LABELS[level].label.toLowerCase()).join(" / ")}). Vérifiez vos réponses.
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+export default function ReferenceRiskProfile({ profile, dimensions, responses }: ReferenceRiskProfileProps) {
+  const divergences = dimensions
+    .map(dimension => ({ dimension, divergence: getProfileDivergence(profile, dimension.id, responses) }))
+    .filter(entry => entry.divergence !== null);
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3" data-testid="reference-risk-profile">
+      <div>
+        <p className="font-medium text-foreground">Profil de risque de référence</p>
+        <p className="text-xs text-muted-foreground">
+          Niveaux de risque attendus pour ce cas d'usage{profile.industrySector ? " dans ce secteur" : ""}
+          {profile.description && ` — ${profile.description}`}
+        </p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+        {dimensions.map(dimension => {
+          const dimensionId = dimension.id as FrameworkDimensionId;
+          const customer = profile.customerRiskLevels[dimensionId];
+          const employee = profile.employeeRiskLevels[dimensionId];
+          return (
+            <div key={dimension.id} className="flex items-center justify-between gap-2">
+              <span>{dimension.name}</span>
+              <div className="flex gap-1 shrink-0">
+                <Badge variant="outline" className={RISK_LEVEL_LABELS[customer].className}>Clients : {RISK_LEVEL_LABELS[customer].label}</Badge>
+                <Badge variant="outline" className={RISK_LEVEL_LABELS[employee].className}>Collaborateurs : {RISK_LEVEL_LABELS[employee].label}</Badge>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {divergences.map(({ dimension, divergence }) => (
+        <DivergenceAlert key={dimension.id} dimensionName={dimension.name} divergence={divergence!} />
+      ))}
+    </div>
+  );
+}
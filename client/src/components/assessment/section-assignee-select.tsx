@@ -0,0 +1,42 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export interface OrganizationMember {
+  userId: string;
+  user: { id: string; email: string; firstName: string | null; lastName: string | null };
+}
+
+interface SectionAssigneeSelectProps {
+  section: string;
+  assigneeId: string | null;
+  members: OrganizationMember[];
+  disabled: boolean;
+  onChange: (assigneeId: string | null) => void;
+}
+
+const UNASSIGNED = 'none';
+
+export const memberName = (member: OrganizationMember) =>
+  [member.user.firstName, member.user.lastName].filter(Boolean).join(' ') || member.user.email;
+
+export default function SectionAssigneeSelect({ section, assigneeId, members, disabled, onChange }: SectionAssigneeSelectProps) {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="text-muted-foreground whitespace-nowrap">Assigné à</span>
+      <Select
+        value={assigneeId || UNASSIGNED}
+        onValueChange={value => onChange(value === UNASSIGNED ? null : value)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-48 h-8" data-testid={`select-assignee-${section}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNASSIGNED}>Non assigné</SelectItem>
+          {members.map(member => (
+            <SelectItem key={member.userId} value={member.userId}>{memberName(member)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -1,13 +1,148 @@
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, XCircle, Clock, Minus } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CheckCircle, XCircle, Clock, Minus, Paperclip } from "lucide-react";
+import { getActiveOrganizationId } from "@/lib/queryClient";
+import { OPERATOR_ROLE_LABELS } from "@/components/systems/system-fields";
+import type { OperatorRole } from "@shared/schema";
+
+type ObligationKey = 'documentation' | 'testing' | 'surveillance' | 'transparency' | 'certification';
+
+interface EvidenceSummary {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  sha256: string;
+  articleNumber: string | null;
+  complianceRecordId: string | null;
+  uploadedAt: string | null;
+}
+
+interface ObligationArticleStatus {
+  articleNumber: string;
+  title: string;
+  rationale: string;
+  satisfied: boolean;
+  complianceRecordId: string | null;
+  completedAt: string | null;
+}
+
+interface ObligationExplanation {
+  status: string;
+  articles: ObligationArticleStatus[];
+  satisfiedArticles: string[];
+  missingArticles: string[];
+}
 
 interface ComplianceMatrixItem {
+  systemId: string;
   systemName: string;
   riskLevel: string;
+  operatorRoles: OperatorRole[];
+  obligations: Record<ObligationKey, string>;
+  explanations: Record<ObligationKey, ObligationExplanation>;
   overallStatus: string;
-  requirements: any[];
+  lastUpdated: string;
+  evidence: Record<ObligationKey, EvidenceSummary[]>;
+  otherEvidence: EvidenceSummary[];
+}
+
+const OBLIGATION_COLUMNS: Array<{ key: ObligationKey; label: string }> = [
+  { key: 'documentation', label: 'Documentation' },
+  { key: 'testing', label: 'Tests' },
+  { key: 'surveillance', label: 'Surveillance' },
+  { key: 'transparency', label: 'Transparence' },
+  { key: 'certification', label: 'Certification' },
+];
+
+// Les liens directs ne portent pas l'en-tête X-Organization-Id
+function evidenceDownloadUrl(evidenceId: string): string {
+  const organizationId = getActiveOrganizationId();
+  const query = organizationId ? `?organizationId=${encodeURIComponent(organizationId)}` : '';
+  return `/api/evidence/${evidenceId}/download${query}`;
+}
+
+function EvidenceList({ evidence, label }: { evidence: EvidenceSummary[]; label: string }) {
+  if (evidence.length === 0) {
+    return null;
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          data-testid={`evidence-trigger-${label}`}
+        >
+          <Paperclip className="h-3 w-3" />
+          {evidence.length}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80">
+        <h4 className="text-sm font-medium mb-2">Pièces justificatives — {label}</h4>
+        <ul className="space-y-2">
+          {evidence.map((item) => (
+            <li key={item.id} className="text-xs">
+              <a
+                href={evidenceDownloadUrl(item.id)}
+                className="font-medium text-primary hover:underline break-all"
+              >
+                {item.fileName}
+              </a>
+              <div className="text-muted-foreground">
+                {item.articleNumber || 'Sans article'}
+                {item.uploadedAt && ` · ${new Date(item.uploadedAt).toLocaleDateString('fr-FR')}`}
+              </div>
+              <div className="font-mono text-muted-foreground truncate" title={item.sha256}>
+                SHA-256 {item.sha256.slice(0, 16)}…
+              </div>
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function ObligationExplanationPanel({ explanation, label }: { explanation?: ObligationExplanation; label: string }) {
+  if (!explanation || explanation.articles.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Aucun article de cette catégorie ne s'applique au niveau de risque du système.
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium mb-2">{label} — articles déterminants</h4>
+      <ul className="space-y-2">
+        {explanation.articles.map((article) => (
+          <li key={article.articleNumber} className="flex items-start gap-2 text-xs">
+            {article.satisfied
+              ? <CheckCircle className="h-3 w-3 mt-0.5 shrink-0 text-green-500" />
+              : <XCircle className="h-3 w-3 mt-0.5 shrink-0 text-red-500" />}
+            <div>
+              <div className="font-medium">{article.articleNumber} — {article.title}</div>
+              <div className="text-muted-foreground">{article.rationale}</div>
+              <div className="text-muted-foreground">
+                {article.satisfied && article.completedAt
+                  ? `Conforme depuis le ${new Date(article.completedAt).toLocaleDateString('fr-FR')}`
+                  : article.complianceRecordId ? 'Enregistrement non finalisé' : 'Aucun enregistrement de conformité'}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {explanation.missingArticles.length > 0 && (
+        <p className="mt-3 text-xs text-muted-foreground">
+          Manquants : {explanation.missingArticles.join(', ')}
+        </p>
+      )}
+    </div>
+  );
 }
 
 export default function ComplianceMatrix() {
@@ -107,30 +242,26 @@ export default function ComplianceMatrix() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
                   Catégorie
                 </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                  Documentation
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                  Tests
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                  Surveillance
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                  Transparence
-                </th>
+                {OBLIGATION_COLUMNS.map(({ key, label }) => (
+                  <th key={key} className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    {label}
+                  </th>
+                ))}
                 <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
                   Statut
                 </th>
               </tr>
             </thead>
             <tbody className="divide-y divide-border">
-              {matrix.map((item: any, index: number) => (
+              {matrix.map((item, index) => (
                 <tr key={item.systemId} data-testid={`matrix-row-${index}`}>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm font-medium text-foreground">
                       {item.systemName}
                     </div>
+                    <div className="text-xs text-muted-foreground">
+                      {item.operatorRoles.map(role => OPERATOR_ROLE_LABELS[role]).join(', ')}
+                    </div>
                     <div className="text-sm text-muted-foreground">
                       Mis à jour: {new Date(item.lastUpdated).toLocaleDateString('fr-FR')}
                     </div>
@@ -143,18 +274,27 @@ export default function ComplianceMatrix() {
                       {item.riskLevel === 'minimal' && 'Risque minimal'}
                     </Badge>
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-center">
-                    {getStatusIcon(item.obligations.documentation)}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-center">
-                    {getStatusIcon(item.obligations.testing)}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-center">
-                    {getStatusIcon(item.obligations.surveillance)}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-center">
-                    {getStatusIcon(item.obligations.transparency)}
-                  </td>
+                  {OBLIGATION_COLUMNS.map(({ key, label }) => (
+                    <td key={key} className="px-6 py-4 whitespace-nowrap text-center">
+                      <div className="flex items-center justify-center gap-2">
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <button
+                              type="button"
+                              aria-label={`Détail ${label}`}
+                              data-testid={`obligation-trigger-${index}-${key}`}
+                            >
+                              {getStatusIcon(item.obligations[key])}
+                            </button>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-96">
+                            <ObligationExplanationPanel explanation={item.explanations?.[key]} label={label} />
+                          </PopoverContent>
+                        </Popover>
+                        <EvidenceList evidence={item.evidence?.[key] || []} label={label} />
+                      </div>
+                    </td>
+                  ))}
                   <td className="px-6 py-4 whitespace-nowrap">
                     <Badge className={getOverallStatusColor(item.overallStatus)}>
                       {item.overallStatus === 'compliant' && 'Conforme'}
@@ -188,6 +328,10 @@ export default function ComplianceMatrix() {
               <Minus className="h-3 w-3 text-gray-400" />
               <span>Non applicable</span>
             </div>
+            <div className="flex items-center gap-2">
+              <Paperclip className="h-3 w-3 text-muted-foreground" />
+              <span>Pièces justificatives</span>
+            </div>
           </div>
         </div>
       </CardContent>
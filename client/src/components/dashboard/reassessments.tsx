@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { RefreshCcw } from "lucide-react";
+
+interface SystemReassessment {
+  id: string;
+  aiSystemId: string;
+  systemName: string | null;
+  reason: string;
+  impactLevel: string;
+  status: 'pending' | 'overdue' | 'completed';
+  dueDate: string;
+}
+
+export default function Reassessments() {
+  const { data: reassessments = [] } = useQuery<SystemReassessment[]>({
+    queryKey: ['/api/reassessments'],
+    select: (data) => data.filter(reassessment => reassessment.status !== 'completed'),
+  });
+
+  if (reassessments.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-8 border-orange-200" data-testid="reassessments">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RefreshCcw className="h-5 w-5 text-orange-600" />
+          Réévaluations requises
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {reassessments.map(reassessment => (
+            <div
+              key={reassessment.id}
+              className="flex items-center justify-between gap-4 p-3 bg-orange-50 rounded-lg"
+              data-testid={`reassessment-${reassessment.id}`}
+            >
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium text-foreground">{reassessment.systemName || 'Système IA'}</p>
+                  {reassessment.status === 'overdue' ? (
+                    <Badge className="bg-red-100 text-red-800">Échéance dépassée — non conforme</Badge>
+                  ) : (
+                    <Badge className="bg-orange-100 text-orange-800">
+                      Avant le {new Date(reassessment.dueDate).toLocaleDateString('fr-FR')}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Impact {reassessment.impactLevel === 'critical' ? 'critique' : 'élevé'} : {reassessment.reason}
+                </p>
+              </div>
+              <Button size="sm" asChild>
+                <Link href={`/assessment?reassessment=${reassessment.id}`}>Réévaluer</Link>
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
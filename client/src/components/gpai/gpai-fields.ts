@@ -0,0 +1,39 @@
+import type { AiSystem, GpaiModality, GpaiModel, GpaiSystemicRiskBasis } from "@shared/schema";
+
+// Registre des modèles d'IA à usage général : types renvoyés par /api/gpai-models et libellés
+
+export interface GpaiObligationStatus {
+  id: string;
+  articleNumber: string;
+  title: string;
+  description: string;
+  applicable: boolean;
+  exemptionReason: string | null;
+  completed: boolean;
+}
+
+export interface GpaiModelDetails extends GpaiModel {
+  aiSystems: Pick<AiSystem, "id" | "name" | "riskLevel">[];
+  obligations: GpaiObligationStatus[];
+}
+
+export const GPAI_MODALITY_LABELS: Record<GpaiModality, string> = {
+  text: "Texte",
+  image: "Image",
+  audio: "Audio",
+  video: "Vidéo",
+  code: "Code",
+};
+
+export const SYSTEMIC_RISK_BASIS_LABELS: Record<GpaiSystemicRiskBasis, string> = {
+  compute_threshold: "Présomption : calcul d'entraînement supérieur à 10^25 FLOPs (Art. 51(2))",
+  commission_designation: "Désignation par la Commission (Art. 52(4))",
+};
+
+export function formatFlops(flops: number | null): string {
+  if (flops === null) {
+    return "Non renseigné";
+  }
+  const [mantissa, exponent] = flops.toExponential(2).split("e");
+  return `${mantissa} × 10^${Number(exponent)} FLOPs`;
+}
@@ -0,0 +1,241 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { GPAI_MODALITIES, type AiSystem, type GpaiModality } from "@shared/schema";
+import { GPAI_MODALITY_LABELS, type GpaiModelDetails } from "./gpai-fields";
+
+interface GpaiModelDialogProps {
+  open: boolean;
+  model: GpaiModelDetails | null; // null pour un nouveau modèle
+  onClose: () => void;
+}
+
+interface GpaiModelForm {
+  name: string;
+  version: string;
+  description: string;
+  trainingComputeFlops: string; // Notation scientifique acceptée (ex. 3.8e25)
+  modalities: GpaiModality[];
+  isOpenWeight: boolean;
+  commissionDesignated: boolean;
+  designationReference: string;
+  externalDownstreamSystems: string; // Un système par ligne
+  aiSystemIds: string[];
+}
+
+function toForm(model: GpaiModelDetails | null): GpaiModelForm {
+  return {
+    name: model?.name || "",
+    version: model?.version || "",
+    description: model?.description || "",
+    trainingComputeFlops: model?.trainingComputeFlops != null ? model.trainingComputeFlops.toExponential() : "",
+    modalities: model?.modalities || [],
+    isOpenWeight: model?.isOpenWeight || false,
+    commissionDesignated: model?.commissionDesignated || false,
+    designationReference: model?.designationReference || "",
+    externalDownstreamSystems: (model?.externalDownstreamSystems || []).join("\n"),
+    aiSystemIds: model?.aiSystems.map(system => system.id) || [],
+  };
+}
+
+export default function GpaiModelDialog({ open, model, onClose }: GpaiModelDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<GpaiModelForm>(toForm(null));
+
+  const { data: systems = [] } = useQuery<AiSystem[]>({
+    queryKey: ['/api/ai-systems'],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setForm(toForm(model));
+    }
+  }, [open, model]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (payload: Record<string, unknown>) => {
+      const response = model
+        ? await apiRequest("PATCH", `/api/gpai-models/${model.id}`, payload)
+        : await apiRequest("POST", "/api/gpai-models", payload);
+      return response.json() as Promise<GpaiModelDetails>;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gpai-models"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ai-systems"] });
+      toast({
+        title: model ? "Modèle mis à jour" : "Modèle enregistré",
+        description: saved.systemicRisk
+          ? "Modèle classé à risque systémique : les obligations de l'article 55 s'appliquent."
+          : "Modèle sans risque systémique : les obligations de l'article 53 s'appliquent.",
+      });
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Erreur",
+        description: "Impossible d'enregistrer le modèle.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const flops = form.trainingComputeFlops.trim() ? Number(form.trainingComputeFlops.trim()) : null;
+  const invalidFlops = flops !== null && (!Number.isFinite(flops) || flops < 0);
+
+  const toggle = <T,>(values: T[], value: T, checked: boolean) =>
+    checked ? [...values, value] : values.filter(current => current !== value);
+
+  const handleSubmit = () => {
+    saveMutation.mutate({
+      name: form.name.trim(),
+      version: form.version.trim() || null,
+      description: form.description.trim() || null,
+      trainingComputeFlops: flops,
+      modalities: form.modalities,
+      isOpenWeight: form.isOpenWeight,
+      commissionDesignated: form.commissionDesignated,
+      designationReference: form.commissionDesignated ? form.designationReference.trim() || null : null,
+      externalDownstreamSystems: form.externalDownstreamSystems.split("\n").map(line => line.trim()).filter(Boolean),
+      aiSystemIds: form.aiSystemIds,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{model ? `Modifier ${model.name}` : "Nouveau modèle d'IA à usage général"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="gpai-name">Nom</Label>
+              <Input id="gpai-name" value={form.name} onChange={event => setForm({ ...form, name: event.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gpai-version">Version</Label>
+              <Input id="gpai-version" value={form.version} onChange={event => setForm({ ...form, version: event.target.value })} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="gpai-description">Description</Label>
+            <Textarea
+              id="gpai-description"
+              rows={3}
+              value={form.description}
+              onChange={event => setForm({ ...form, description: event.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="gpai-flops">Calcul d'entraînement cumulé (FLOPs)</Label>
+            <Input
+              id="gpai-flops"
+              placeholder="ex. 3.8e25"
+              value={form.trainingComputeFlops}
+              onChange={event => setForm({ ...form, trainingComputeFlops: event.target.value })}
+            />
+            {invalidFlops ? (
+              <p className="text-xs text-red-600">Valeur numérique positive attendue.</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Au-delà de 10^25 FLOPs, le modèle est présumé présenter un risque systémique (Art. 51(2)).
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Modalités</Label>
+            <div className="flex flex-wrap gap-4">
+              {GPAI_MODALITIES.map(modality => (
+                <div key={modality} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`gpai-modality-${modality}`}
+                    checked={form.modalities.includes(modality)}
+                    onCheckedChange={checked => setForm({ ...form, modalities: toggle(form.modalities, modality, checked === true) })}
+                  />
+                  <Label htmlFor={`gpai-modality-${modality}`}>{GPAI_MODALITY_LABELS[modality]}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="gpai-open-weight"
+              checked={form.isOpenWeight}
+              onCheckedChange={checked => setForm({ ...form, isOpenWeight: checked === true })}
+            />
+            <Label htmlFor="gpai-open-weight">Poids publiés sous licence libre et ouverte (Art. 53(2))</Label>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="gpai-designated"
+                checked={form.commissionDesignated}
+                onCheckedChange={checked => setForm({ ...form, commissionDesignated: checked === true })}
+              />
+              <Label htmlFor="gpai-designated">Désigné par la Commission comme présentant un risque systémique (Art. 52(4))</Label>
+            </div>
+            {form.commissionDesignated && (
+              <Input
+                placeholder="Référence de la décision"
+                value={form.designationReference}
+                onChange={event => setForm({ ...form, designationReference: event.target.value })}
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Systèmes IA de l'organisation construits sur ce modèle</Label>
+            {systems.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Aucun système IA.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {systems.map(system => (
+                  <div key={system.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`gpai-system-${system.id}`}
+                      checked={form.aiSystemIds.includes(system.id)}
+                      onCheckedChange={checked => setForm({ ...form, aiSystemIds: toggle(form.aiSystemIds, system.id, checked === true) })}
+                    />
+                    <Label htmlFor={`gpai-system-${system.id}`}>{system.name}</Label>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="gpai-downstream">Systèmes en aval de fournisseurs tiers (un par ligne)</Label>
+            <Textarea
+              id="gpai-downstream"
+              rows={3}
+              value={form.externalDownstreamSystems}
+              onChange={event => setForm({ ...form, externalDownstreamSystems: event.target.value })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Annuler</Button>
+          <Button onClick={handleSubmit} disabled={saveMutation.isPending || !form.name.trim() || invalidFlops}>
+            Enregistrer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,15 +1,29 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useAuth, useLogout } from "@/hooks/useAuth";
+import { queryClient, apiRequest } from "@/lib/queryClient";
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
   DropdownMenuItem, 
+  DropdownMenuLabel,
   DropdownMenuSeparator, 
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu";
 import { Menu, Search, Bell, ChevronDown, Bot, User, LogOut } from "lucide-react";
 
+interface AppNotification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  link?: string | null;
+  readAt?: string | null;
+  createdAt: string;
+}
+
 interface NavbarProps {
   onToggleSidebar: () => void;
 }
@@ -17,6 +31,31 @@ interface NavbarProps {
 export default function Navbar({ onToggleSidebar }: NavbarProps) {
   const { user } = useAuth();
   const logout = useLogout();
+  const [, setLocation] = useLocation();
+
+  const { data: notifications = [] } = useQuery<AppNotification[]>({
+    queryKey: ['/api/notifications'],
+    refetchInterval: 5 * 60 * 1000,
+  });
+  const unreadCount = notifications.filter(notification => !notification.readAt).length;
+
+  const markReadMutation = useMutation({
+    mutationFn: async (notificationId: string) => {
+      return await apiRequest('POST', `/api/notifications/${notificationId}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    },
+  });
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      setLocation(notification.link);
+    }
+  };
 
   return (
     <nav className="fixed top-0 left-0 right-0 bg-card border-b border-border z-40">
@@ -55,10 +94,47 @@ export default function Navbar({ onToggleSidebar }: NavbarProps) {
           </div>
           
           {/* Notifications */}
-          <Button variant="ghost" size="icon" data-testid="button-notifications">
-            <Bell className="h-4 w-4" />
-            <span className="absolute -top-1 -right-1 w-3 h-3 bg-destructive rounded-full text-xs"></span>
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+                <Bell className="h-4 w-4" />
+                {unreadCount > 0 && (
+                  <span
+                    className="absolute -top-1 -right-1 min-w-4 h-4 px-1 bg-destructive text-destructive-foreground rounded-full text-[10px] leading-4"
+                    data-testid="badge-unread-notifications"
+                  >
+                    {unreadCount}
+                  </span>
+                )}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-80 max-h-96 overflow-y-auto">
+              <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {notifications.length === 0 ? (
+                <div className="px-2 py-4 text-sm text-muted-foreground text-center">
+                  Aucune notification
+                </div>
+              ) : (
+                notifications.map(notification => (
+                  <DropdownMenuItem
+                    key={notification.id}
+                    onSelect={() => openNotification(notification)}
+                    className="flex flex-col items-start gap-1 cursor-pointer"
+                    data-testid={`notification-${notification.id}`}
+                  >
+                    <span className={`text-sm ${notification.readAt ? 'text-muted-foreground' : 'font-medium'}`}>
+                      {notification.title}
+                    </span>
+                    <span className="text-xs text-muted-foreground">{notification.message}</span>
+                    <span className="text-[10px] text-muted-foreground">
+                      {new Date(notification.createdAt).toLocaleDateString('fr-FR')}
+                    </span>
+                  </DropdownMenuItem>
+                ))
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
           
           {/* User Profile */}
           <DropdownMenu>
@@ -16,7 +16,10 @@ import {
   LogOut,
   Lock,
   Monitor,
-  UserCheck
+  UserCheck,
+  Building2,
+  Cpu,
+  BrainCircuit
 } from "lucide-react";
 
 interface SidebarProps {
@@ -34,6 +37,16 @@ const navigationItems = [
     href: "/assessment",
     icon: ClipboardCheck,
   },
+  {
+    name: "Systèmes IA",
+    href: "/systems",
+    icon: Cpu,
+  },
+  {
+    name: "Modèles GPAI",
+    href: "/gpai-models",
+    icon: BrainCircuit,
+  },
   {
     name: "Maturité organisationnelle",
     href: "/maturity",
@@ -64,6 +77,11 @@ const navigationItems = [
     href: "/monitoring",
     icon: Rss,
   },
+  {
+    name: "Organisation",
+    href: "/organization",
+    icon: Building2,
+  },
 ];
 
 const securityItems = [
@@ -0,0 +1,599 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  KanbanSquare,
+  Plus,
+  Trash2,
+  Calendar,
+  User,
+  Link2,
+  MessageSquare,
+  X
+} from "lucide-react";
+
+export type ActionItemStatus = 'todo' | 'in_progress' | 'blocked' | 'done';
+export type ActionItemPriority = 'urgent' | 'high' | 'medium' | 'low';
+export type ActionItemCategory = 'compliance' | 'documentation' | 'technical' | 'governance' | 'training';
+
+export interface ActionItem {
+  id: string;
+  insightId: string | null;
+  aiSystemId: string | null;
+  title: string;
+  description: string | null;
+  category: ActionItemCategory;
+  priority: ActionItemPriority;
+  status: ActionItemStatus;
+  assigneeId: string | null;
+  suggestedOwner: string | null;
+  dueDate: string | null;
+  estimatedHours: number | null;
+  prerequisites: string[] | null;
+  dependsOn: string[];
+  completedAt: string | null;
+  createdAt: string;
+}
+
+interface ActionItemComment {
+  id: string;
+  authorId: string | null;
+  kind: 'comment' | 'status_change' | 'assignment' | 'due_date_change';
+  body: string;
+  metadata: { from?: string | null; to?: string | null } | null;
+  createdAt: string;
+}
+
+interface OrganizationMember {
+  userId: string;
+  user: { id: string; email: string; firstName: string | null; lastName: string | null };
+}
+
+interface CurrentOrganization {
+  id: string;
+  permissions: string[];
+}
+
+export interface ActionKanbanProps {
+  insightId?: string | null; // Restreint le tableau aux tâches d'un insight
+  insightTitle?: string;
+  onClearInsight?: () => void;
+}
+
+const COLUMNS: Array<{ status: ActionItemStatus; label: string; className: string }> = [
+  { status: 'todo', label: 'À faire', className: 'border-t-gray-400' },
+  { status: 'in_progress', label: 'En cours', className: 'border-t-blue-500' },
+  { status: 'blocked', label: 'Bloqué', className: 'border-t-red-500' },
+  { status: 'done', label: 'Terminé', className: 'border-t-green-500' },
+];
+
+const STATUS_LABELS: Record<ActionItemStatus, string> = {
+  todo: 'À faire',
+  in_progress: 'En cours',
+  blocked: 'Bloqué',
+  done: 'Terminé',
+};
+
+const PRIORITY_LABELS: Record<ActionItemPriority, { label: string; className: string }> = {
+  urgent: { label: 'Urgent', className: 'bg-red-100 text-red-800' },
+  high: { label: 'Haute', className: 'bg-orange-100 text-orange-800' },
+  medium: { label: 'Moyenne', className: 'bg-yellow-100 text-yellow-800' },
+  low: { label: 'Basse', className: 'bg-green-100 text-green-800' },
+};
+
+const CATEGORY_LABELS: Record<ActionItemCategory, string> = {
+  compliance: 'Conformité',
+  documentation: 'Documentation',
+  technical: 'Technique',
+  governance: 'Gouvernance',
+  training: 'Formation',
+};
+
+const UNASSIGNED = 'none';
+
+interface ItemForm {
+  title: string;
+  description: string;
+  category: ActionItemCategory;
+  priority: ActionItemPriority;
+  status: ActionItemStatus;
+  assigneeId: string;
+  dueDate: string;
+  dependsOn: string[];
+}
+
+const emptyForm = (status: ActionItemStatus = 'todo'): ItemForm => ({
+  title: '',
+  description: '',
+  category: 'compliance',
+  priority: 'medium',
+  status,
+  assigneeId: UNASSIGNED,
+  dueDate: '',
+  dependsOn: [],
+});
+
+const toForm = (item: ActionItem): ItemForm => ({
+  title: item.title,
+  description: item.description || '',
+  category: item.category,
+  priority: item.priority,
+  status: item.status,
+  assigneeId: item.assigneeId || UNASSIGNED,
+  dueDate: item.dueDate ? item.dueDate.substring(0, 10) : '',
+  dependsOn: item.dependsOn,
+});
+
+const memberName = (member: OrganizationMember) =>
+  [member.user.firstName, member.user.lastName].filter(Boolean).join(' ') || member.user.email;
+
+export function ActionKanban({ insightId, insightTitle, onClearInsight }: ActionKanbanProps) {
+  const { toast } = useToast();
+  const [editingItem, setEditingItem] = useState<ActionItem | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<ItemForm>(emptyForm());
+  const [comment, setComment] = useState('');
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const { data: organization } = useQuery<CurrentOrganization>({
+    queryKey: ['/api/organizations/current'],
+  });
+  const canEdit = !!organization?.permissions.includes('compliance:write');
+
+  const { data: members = [] } = useQuery<OrganizationMember[]>({
+    queryKey: ['/api/organizations', organization?.id, 'members'],
+    enabled: !!organization?.id,
+  });
+
+  const { data: allItems = [], isLoading } = useQuery<ActionItem[]>({
+    queryKey: ['/api/action-items'],
+  });
+
+  const { data: comments = [] } = useQuery<ActionItemComment[]>({
+    queryKey: ['/api/action-items', editingItem?.id, 'comments'],
+    enabled: !!editingItem,
+  });
+
+  const items = insightId ? allItems.filter(item => item.insightId === insightId) : allItems;
+  const itemsById = new Map(allItems.map(item => [item.id, item]));
+  const membersById = new Map(members.map(member => [member.userId, member]));
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/action-items'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/regulatory/personalized-updates'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ItemForm) => {
+      const payload: Record<string, unknown> = {
+        title: data.title,
+        description: data.description || null,
+        category: data.category,
+        priority: data.priority,
+        status: data.status,
+        assigneeId: data.assigneeId === UNASSIGNED ? null : data.assigneeId,
+        dueDate: data.dueDate || null,
+        dependsOn: data.dependsOn,
+      };
+      if (!editingItem) {
+        const response = await apiRequest('POST', '/api/action-items', payload);
+        return response.json();
+      }
+
+      // N'envoyer que les champs modifiés pour ne pas tracer de faux changements dans l'historique
+      const original = toForm(editingItem);
+      const changed = (Object.keys(data) as Array<keyof ItemForm>).filter(key =>
+        key === 'dependsOn'
+          ? [...data.dependsOn].sort().join() !== [...original.dependsOn].sort().join()
+          : data[key] !== original[key]
+      );
+      const response = await apiRequest('PATCH', `/api/action-items/${editingItem.id}`,
+        Object.fromEntries(changed.map(key => [key, payload[key]])));
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setIsDialogOpen(false);
+      toast({ title: editingItem ? "Tâche mise à jour" : "Tâche créée" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Enregistrement impossible", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: ActionItemStatus }) => {
+      await apiRequest('PATCH', `/api/action-items/${id}`, { status });
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Déplacement impossible", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/action-items/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      setIsDialogOpen(false);
+      toast({ title: "Tâche supprimée" });
+    },
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/action-items/${editingItem!.id}/comments`, { body: comment });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/action-items', editingItem?.id, 'comments'] });
+      setComment('');
+    },
+    onError: (error: Error) => {
+      toast({ title: "Commentaire non enregistré", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openCreate = (status: ActionItemStatus) => {
+    setEditingItem(null);
+    setForm(emptyForm(status));
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (item: ActionItem) => {
+    setEditingItem(item);
+    setForm(toForm(item));
+    setComment('');
+    setIsDialogOpen(true);
+  };
+
+  const handleDrop = (status: ActionItemStatus) => {
+    const item = draggedId ? itemsById.get(draggedId) : undefined;
+    setDraggedId(null);
+    if (item && item.status !== status) {
+      moveMutation.mutate({ id: item.id, status });
+    }
+  };
+
+  const openDependencies = (item: ActionItem) =>
+    item.dependsOn.filter(id => itemsById.get(id)?.status !== 'done').length;
+
+  const isOverdue = (item: ActionItem) =>
+    !!item.dueDate && item.status !== 'done' && new Date(item.dueDate) < new Date();
+
+  const describeChange = (entry: ActionItemComment) => {
+    const from = entry.metadata?.from ?? null;
+    const to = entry.metadata?.to ?? null;
+    switch (entry.kind) {
+      case 'status_change':
+        return `Statut : ${STATUS_LABELS[from as ActionItemStatus] || from || '—'} → ${STATUS_LABELS[to as ActionItemStatus] || to || '—'}`;
+      case 'assignment': {
+        const name = (id: string | null) => {
+          const member = id ? membersById.get(id) : undefined;
+          return member ? memberName(member) : id ? 'Ancien membre' : 'Personne';
+        };
+        return `Assignation : ${name(from)} → ${name(to)}`;
+      }
+      case 'due_date_change': {
+        const date = (value: string | null) => value ? new Date(value).toLocaleDateString('fr-FR') : 'aucune';
+        return `Échéance : ${date(from)} → ${date(to)}`;
+      }
+      default:
+        return entry.body;
+    }
+  };
+
+  const dependencyCandidates = allItems.filter(item => item.id !== editingItem?.id);
+
+  return (
+    <Card data-testid="card-action-kanban">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <KanbanSquare className="h-5 w-5" />
+            Suivi des actions
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {insightId && (
+              <Badge variant="outline" className="flex items-center gap-1">
+                {insightTitle ? `Plan : ${insightTitle.substring(0, 50)}` : 'Plan filtré'}
+                {onClearInsight && (
+                  <button onClick={onClearInsight} aria-label="Retirer le filtre">
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </Badge>
+            )}
+            {canEdit && (
+              <Button size="sm" onClick={() => openCreate('todo')} data-testid="button-add-action-item">
+                <Plus className="h-4 w-4 mr-1" />
+                Nouvelle tâche
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Chargement des tâches...</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+            {COLUMNS.map(column => {
+              const columnItems = items.filter(item => item.status === column.status);
+              return (
+                <div
+                  key={column.status}
+                  className={`bg-muted/40 rounded-lg border-t-4 ${column.className} p-3 min-h-[200px]`}
+                  onDragOver={event => canEdit && event.preventDefault()}
+                  onDrop={() => handleDrop(column.status)}
+                  data-testid={`column-${column.status}`}
+                >
+                  <div className="flex items-center justify-between mb-3">
+                    <h4 className="font-medium text-sm">{column.label}</h4>
+                    <Badge variant="secondary">{columnItems.length}</Badge>
+                  </div>
+                  <div className="space-y-2">
+                    {columnItems.map(item => {
+                      const assignee = item.assigneeId ? membersById.get(item.assigneeId) : undefined;
+                      const waitingOn = openDependencies(item);
+                      return (
+                        <div
+                          key={item.id}
+                          draggable={canEdit}
+                          onDragStart={() => setDraggedId(item.id)}
+                          onClick={() => openEdit(item)}
+                          className="bg-background border border-border rounded-md p-3 cursor-pointer hover:shadow-sm space-y-2"
+                          data-testid={`action-item-${item.id}`}
+                        >
+                          <p className="text-sm font-medium text-foreground line-clamp-3">{item.title}</p>
+                          <div className="flex flex-wrap gap-1">
+                            <Badge className={PRIORITY_LABELS[item.priority]?.className}>
+                              {PRIORITY_LABELS[item.priority]?.label || item.priority}
+                            </Badge>
+                            <Badge variant="outline">{CATEGORY_LABELS[item.category] || item.category}</Badge>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                            <span className="flex items-center gap-1">
+                              <User className="h-3 w-3" />
+                              {assignee ? memberName(assignee) : item.suggestedOwner ? `Suggéré : ${item.suggestedOwner}` : 'Non assigné'}
+                            </span>
+                            {item.dueDate && (
+                              <span className={`flex items-center gap-1 ${isOverdue(item) ? 'text-red-600 font-medium' : ''}`}>
+                                <Calendar className="h-3 w-3" />
+                                {new Date(item.dueDate).toLocaleDateString('fr-FR')}
+                              </span>
+                            )}
+                            {waitingOn > 0 && (
+                              <span className="flex items-center gap-1 text-orange-600">
+                                <Link2 className="h-3 w-3" />
+                                En attente de {waitingOn}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingItem ? 'Tâche' : 'Nouvelle tâche'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="action-title">Intitulé</Label>
+              <Textarea
+                id="action-title"
+                value={form.title}
+                onChange={e => setForm({ ...form, title: e.target.value })}
+                disabled={!canEdit}
+                rows={2}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Statut</Label>
+                <Select value={form.status} onValueChange={value => setForm({ ...form, status: value as ActionItemStatus })} disabled={!canEdit}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {COLUMNS.map(column => (
+                      <SelectItem key={column.status} value={column.status}>{column.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Priorité</Label>
+                <Select value={form.priority} onValueChange={value => setForm({ ...form, priority: value as ActionItemPriority })} disabled={!canEdit}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PRIORITY_LABELS) as ActionItemPriority[]).map(priority => (
+                      <SelectItem key={priority} value={priority}>{PRIORITY_LABELS[priority].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Assigné à</Label>
+                <Select value={form.assigneeId} onValueChange={value => setForm({ ...form, assigneeId: value })} disabled={!canEdit}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Non assigné</SelectItem>
+                    {members.map(member => (
+                      <SelectItem key={member.userId} value={member.userId}>{memberName(member)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {editingItem?.suggestedOwner && (
+                  <p className="text-xs text-muted-foreground">Responsable suggéré : {editingItem.suggestedOwner}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="action-due-date">Échéance</Label>
+                <Input
+                  id="action-due-date"
+                  type="date"
+                  value={form.dueDate}
+                  onChange={e => setForm({ ...form, dueDate: e.target.value })}
+                  disabled={!canEdit}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Catégorie</Label>
+                <Select value={form.category} onValueChange={value => setForm({ ...form, category: value as ActionItemCategory })} disabled={!canEdit}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CATEGORY_LABELS) as ActionItemCategory[]).map(category => (
+                      <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {editingItem?.estimatedHours != null && (
+                <div className="space-y-2">
+                  <Label>Charge estimée</Label>
+                  <p className="text-sm pt-2">{editingItem.estimatedHours} h</p>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="action-description">Notes</Label>
+              <Textarea
+                id="action-description"
+                value={form.description}
+                onChange={e => setForm({ ...form, description: e.target.value })}
+                disabled={!canEdit}
+                rows={3}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Link2 className="h-4 w-4" />
+                Dépend de
+              </Label>
+              {dependencyCandidates.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Aucune autre tâche.</p>
+              ) : (
+                <div className="max-h-40 overflow-y-auto space-y-1 border border-border rounded-md p-2">
+                  {dependencyCandidates.map(candidate => (
+                    <div key={candidate.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`dependency-${candidate.id}`}
+                        checked={form.dependsOn.includes(candidate.id)}
+                        disabled={!canEdit}
+                        onCheckedChange={checked => setForm({
+                          ...form,
+                          dependsOn: checked === true
+                            ? [...form.dependsOn, candidate.id]
+                            : form.dependsOn.filter(id => id !== candidate.id),
+                        })}
+                      />
+                      <Label htmlFor={`dependency-${candidate.id}`} className="font-normal text-xs">
+                        {candidate.title}
+                        <span className="text-muted-foreground ml-1">({STATUS_LABELS[candidate.status]})</span>
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {editingItem?.prerequisites && editingItem.prerequisites.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Prérequis identifiés : {editingItem.prerequisites.join(', ')}
+                </p>
+              )}
+            </div>
+
+            {editingItem && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <MessageSquare className="h-4 w-4" />
+                  Historique
+                </Label>
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  {comments.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">Aucun commentaire.</p>
+                  ) : (
+                    comments.map(entry => {
+                      const author = entry.authorId ? membersById.get(entry.authorId) : undefined;
+                      return (
+                        <div key={entry.id} className={`text-sm p-2 rounded ${entry.kind === 'comment' ? 'bg-muted' : 'text-muted-foreground italic'}`}>
+                          <p className="text-xs text-muted-foreground not-italic">
+                            {author ? memberName(author) : 'Système'} • {new Date(entry.createdAt).toLocaleString('fr-FR')}
+                          </p>
+                          <p className="whitespace-pre-wrap">{describeChange(entry)}</p>
+                        </div>
+                      );
+                    })
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <Textarea
+                      value={comment}
+                      onChange={e => setComment(e.target.value)}
+                      placeholder="Ajouter un commentaire..."
+                      rows={2}
+                      data-testid="input-action-item-comment"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => commentMutation.mutate()}
+                      disabled={!comment.trim() || commentMutation.isPending}
+                    >
+                      Envoyer
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {canEdit && (
+            <DialogFooter className="flex justify-between sm:justify-between">
+              {editingItem ? (
+                <Button
+                  variant="ghost"
+                  onClick={() => deleteMutation.mutate(editingItem.id)}
+                  disabled={deleteMutation.isPending}
+                  data-testid="button-delete-action-item"
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Supprimer
+                </Button>
+              ) : <span />}
+              <Button
+                onClick={() => saveMutation.mutate(form)}
+                disabled={!form.title.trim() || saveMutation.isPending}
+                data-testid="button-save-action-item"
+              >
+                Enregistrer
+              </Button>
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
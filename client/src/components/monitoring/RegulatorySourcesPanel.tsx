@@ -0,0 +1,472 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  Rss,
+  Globe,
+  Plus,
+  Pencil,
+  Trash2,
+  Eye,
+  CheckCircle,
+  XCircle,
+  Clock,
+  ExternalLink
+} from "lucide-react";
+
+export type RegulatoryConnectorType = 'eurlex' | 'cnil' | 'ec_ai_office' | 'rss' | 'html';
+
+export interface RegulatorySource {
+  id: string;
+  key: string;
+  name: string;
+  connectorType: RegulatoryConnectorType;
+  url: string;
+  feedUrl?: string | null;
+  selectors?: { item: string; title: string; link?: string; summary?: string; date?: string } | null;
+  keywords?: string[] | null;
+  sourceType: string;
+  language: string;
+  documentType: string;
+  pollingIntervalMinutes: number;
+  enabled: boolean;
+  lastPolledAt?: string | null;
+  lastStatus?: 'success' | 'error' | null;
+  lastError?: string | null;
+  lastItemCount?: number | null;
+}
+
+interface PreviewItem {
+  title: string;
+  url: string;
+  publishedDate: string;
+}
+
+export interface RegulatorySourcesPanelProps {
+  canManage: boolean;
+}
+
+const CONNECTOR_LABELS: Record<RegulatoryConnectorType, string> = {
+  eurlex: 'EUR-Lex (intégré)',
+  cnil: 'CNIL (intégré)',
+  ec_ai_office: 'AI Office (intégré)',
+  rss: 'Flux RSS / Atom',
+  html: 'Page HTML (sélecteurs CSS)',
+};
+
+const SOURCE_TYPE_LABELS: Record<string, string> = {
+  official_eu: 'Officielle UE',
+  national_fr: 'Nationale (FR)',
+  national_other: 'Nationale (autre)',
+  standards: 'Normalisation',
+};
+
+const BUILT_IN_TYPES: RegulatoryConnectorType[] = ['eurlex', 'cnil', 'ec_ai_office'];
+
+interface SourceForm {
+  key: string;
+  name: string;
+  connectorType: 'rss' | 'html';
+  url: string;
+  feedUrl: string;
+  selectorItem: string;
+  selectorTitle: string;
+  selectorLink: string;
+  selectorSummary: string;
+  selectorDate: string;
+  keywords: string;
+  sourceType: string;
+  language: string;
+  documentType: string;
+  pollingIntervalMinutes: number;
+}
+
+const EMPTY_FORM: SourceForm = {
+  key: '',
+  name: '',
+  connectorType: 'rss',
+  url: '',
+  feedUrl: '',
+  selectorItem: '',
+  selectorTitle: '',
+  selectorLink: '',
+  selectorSummary: '',
+  selectorDate: '',
+  keywords: '',
+  sourceType: 'national_other',
+  language: 'EN',
+  documentType: 'guidance',
+  pollingIntervalMinutes: 1440,
+};
+
+function toForm(source: RegulatorySource): SourceForm {
+  return {
+    key: source.key,
+    name: source.name,
+    connectorType: source.connectorType === 'html' ? 'html' : 'rss',
+    url: source.url,
+    feedUrl: source.feedUrl || '',
+    selectorItem: source.selectors?.item || '',
+    selectorTitle: source.selectors?.title || '',
+    selectorLink: source.selectors?.link || '',
+    selectorSummary: source.selectors?.summary || '',
+    selectorDate: source.selectors?.date || '',
+    keywords: (source.keywords || []).join(', '),
+    sourceType: source.sourceType,
+    language: source.language,
+    documentType: source.documentType,
+    pollingIntervalMinutes: source.pollingIntervalMinutes,
+  };
+}
+
+function toPayload(form: SourceForm) {
+  const keywords = form.keywords.split(',').map(keyword => keyword.trim()).filter(Boolean);
+  return {
+    key: form.key,
+    name: form.name,
+    connectorType: form.connectorType,
+    url: form.url,
+    feedUrl: form.connectorType === 'rss' ? form.feedUrl || null : null,
+    selectors: form.connectorType === 'html'
+      ? {
+          item: form.selectorItem,
+          title: form.selectorTitle,
+          link: form.selectorLink || undefined,
+          summary: form.selectorSummary || undefined,
+          date: form.selectorDate || undefined,
+        }
+      : null,
+    keywords: keywords.length > 0 ? keywords : null,
+    sourceType: form.sourceType,
+    language: form.language,
+    documentType: form.documentType,
+    pollingIntervalMinutes: form.pollingIntervalMinutes,
+  };
+}
+
+export function RegulatorySourcesPanel({ canManage }: RegulatorySourcesPanelProps) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSource, setEditingSource] = useState<RegulatorySource | null>(null);
+  const [form, setForm] = useState<SourceForm>(EMPTY_FORM);
+  const [previewItems, setPreviewItems] = useState<PreviewItem[] | null>(null);
+
+  const { data: sources = [], isLoading } = useQuery<RegulatorySource[]>({
+    queryKey: ['/api/regulatory/sources'],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Erreur', description: error.message, variant: 'destructive' });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = toPayload(form);
+      if (editingSource) {
+        const { key, connectorType, ...updates } = payload;
+        return await apiRequest('PATCH', `/api/admin/regulatory/sources/${editingSource.id}`, updates);
+      }
+      return await apiRequest('POST', '/api/admin/regulatory/sources', payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/regulatory/sources'] });
+      setDialogOpen(false);
+      toast({ title: 'Source enregistrée', description: `${form.name} sera interrogée lors de la prochaine synchronisation.` });
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (source: RegulatorySource) => {
+      return await apiRequest('PATCH', `/api/admin/regulatory/sources/${source.id}`, { enabled: !source.enabled });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/regulatory/sources'] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (source: RegulatorySource) => {
+      return await apiRequest('DELETE', `/api/admin/regulatory/sources/${source.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/regulatory/sources'] });
+      toast({ title: 'Source supprimée' });
+    },
+    onError,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/regulatory/sources/preview', toPayload(form));
+      return (await response.json()) as { items: PreviewItem[] };
+    },
+    onSuccess: (data) => setPreviewItems(data.items),
+    onError: (error: Error) => {
+      setPreviewItems(null);
+      onError(error);
+    },
+  });
+
+  const openDialog = (source: RegulatorySource | null) => {
+    setEditingSource(source);
+    setForm(source ? toForm(source) : EMPTY_FORM);
+    setPreviewItems(null);
+    setDialogOpen(true);
+  };
+
+  const updateForm = <K extends keyof SourceForm>(field: K, value: SourceForm[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const getStatusBadge = (source: RegulatorySource) => {
+    if (!source.lastStatus) {
+      return (
+        <Badge variant="secondary" className="flex items-center gap-1">
+          <Clock className="h-3 w-3" /> Jamais interrogée
+        </Badge>
+      );
+    }
+    return source.lastStatus === 'success' ? (
+      <Badge className="bg-green-100 text-green-800 flex items-center gap-1">
+        <CheckCircle className="h-3 w-3" /> {source.lastItemCount ?? 0} éléments
+      </Badge>
+    ) : (
+      <Badge className="bg-red-100 text-red-800 flex items-center gap-1" title={source.lastError || undefined}>
+        <XCircle className="h-3 w-3" /> Erreur
+      </Badge>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Rss className="h-5 w-5" />
+            Sources de veille
+          </span>
+          {canManage && (
+            <Button size="sm" onClick={() => openDialog(null)} data-testid="button-add-source">
+              <Plus className="h-4 w-4 mr-1" />
+              Ajouter une source
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Chargement des sources...</p>
+        ) : (
+          <div className="space-y-3">
+            {sources.map(source => (
+              <div
+                key={source.id}
+                className="flex items-start justify-between gap-4 p-4 border rounded-lg"
+                data-testid={`source-${source.key}`}
+              >
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    {source.connectorType === 'html' ? <Globe className="h-4 w-4" /> : <Rss className="h-4 w-4" />}
+                    <span className="font-medium">{source.name}</span>
+                    <Badge variant="outline">{CONNECTOR_LABELS[source.connectorType]}</Badge>
+                    <Badge variant="outline">{SOURCE_TYPE_LABELS[source.sourceType] || source.sourceType}</Badge>
+                    {getStatusBadge(source)}
+                  </div>
+                  <a
+                    href={source.feedUrl || source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-blue-600 hover:underline flex items-center gap-1 truncate"
+                  >
+                    {source.feedUrl || source.url}
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                  <p className="text-xs text-muted-foreground">
+                    Intervalle : {source.pollingIntervalMinutes} min • Langue : {source.language}
+                    {source.lastPolledAt && ` • Dernier passage : ${new Date(source.lastPolledAt).toLocaleString('fr-FR')}`}
+                    {source.keywords && source.keywords.length > 0 && ` • Mots-clés : ${source.keywords.join(', ')}`}
+                  </p>
+                  {source.lastStatus === 'error' && source.lastError && (
+                    <p className="text-xs text-red-600">{source.lastError}</p>
+                  )}
+                </div>
+                {canManage && (
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch
+                      checked={source.enabled}
+                      onCheckedChange={() => toggleMutation.mutate(source)}
+                      disabled={toggleMutation.isPending}
+                      data-testid={`switch-source-${source.key}`}
+                    />
+                    {!BUILT_IN_TYPES.includes(source.connectorType) && (
+                      <>
+                        <Button variant="ghost" size="icon" onClick={() => openDialog(source)} data-testid={`button-edit-source-${source.key}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => {
+                            if (confirm(`Supprimer la source ${source.name} ?`)) {
+                              deleteMutation.mutate(source);
+                            }
+                          }}
+                          data-testid={`button-delete-source-${source.key}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSource ? `Modifier ${editingSource.name}` : 'Nouvelle source de veille'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="source-name">Nom</Label>
+              <Input id="source-name" value={form.name} onChange={e => updateForm('name', e.target.value)} placeholder="AESIA" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="source-key">Identifiant</Label>
+              <Input
+                id="source-key"
+                value={form.key}
+                onChange={e => updateForm('key', e.target.value.toLowerCase())}
+                placeholder="aesia"
+                disabled={!!editingSource}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Connecteur</Label>
+              <Select
+                value={form.connectorType}
+                onValueChange={value => updateForm('connectorType', value as SourceForm['connectorType'])}
+                disabled={!!editingSource}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="rss">{CONNECTOR_LABELS.rss}</SelectItem>
+                  <SelectItem value="html">{CONNECTOR_LABELS.html}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Type de source</Label>
+              <Select value={form.sourceType} onValueChange={value => updateForm('sourceType', value)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SOURCE_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="source-url">{form.connectorType === 'html' ? 'Page des publications' : 'Site web'}</Label>
+              <Input id="source-url" value={form.url} onChange={e => updateForm('url', e.target.value)} placeholder="https://" />
+            </div>
+            {form.connectorType === 'rss' ? (
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="source-feed">URL du flux RSS / Atom</Label>
+                <Input id="source-feed" value={form.feedUrl} onChange={e => updateForm('feedUrl', e.target.value)} placeholder="https://.../feed.xml" />
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="selector-item">Sélecteur d'élément</Label>
+                  <Input id="selector-item" value={form.selectorItem} onChange={e => updateForm('selectorItem', e.target.value)} placeholder=".news-list article" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="selector-title">Sélecteur du titre</Label>
+                  <Input id="selector-title" value={form.selectorTitle} onChange={e => updateForm('selectorTitle', e.target.value)} placeholder="h3" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="selector-link">Sélecteur du lien (optionnel)</Label>
+                  <Input id="selector-link" value={form.selectorLink} onChange={e => updateForm('selectorLink', e.target.value)} placeholder="a.more" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="selector-summary">Sélecteur du résumé (optionnel)</Label>
+                  <Input id="selector-summary" value={form.selectorSummary} onChange={e => updateForm('selectorSummary', e.target.value)} placeholder="p" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="selector-date">Sélecteur de date (optionnel)</Label>
+                  <Input id="selector-date" value={form.selectorDate} onChange={e => updateForm('selectorDate', e.target.value)} placeholder="time" />
+                </div>
+              </>
+            )}
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="source-keywords">Mots-clés (séparés par des virgules, optionnel)</Label>
+              <Input
+                id="source-keywords"
+                value={form.keywords}
+                onChange={e => updateForm('keywords', e.target.value)}
+                placeholder="inteligencia artificial, KI, intelligenza artificiale"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="source-language">Langue</Label>
+              <Input id="source-language" value={form.language} onChange={e => updateForm('language', e.target.value.toUpperCase())} maxLength={5} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="source-interval">Intervalle d'interrogation (minutes)</Label>
+              <Input
+                id="source-interval"
+                type="number"
+                min={15}
+                value={form.pollingIntervalMinutes}
+                onChange={e => updateForm('pollingIntervalMinutes', parseInt(e.target.value) || 0)}
+              />
+            </div>
+          </div>
+
+          {previewItems && (
+            <div className="border rounded-lg p-3 space-y-2">
+              <p className="text-sm font-medium">Aperçu : {previewItems.length} élément(s) sur 30 jours</p>
+              {previewItems.slice(0, 5).map(item => (
+                <div key={item.url} className="text-sm">
+                  <a href={item.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                    {item.title}
+                  </a>
+                  <span className="text-xs text-muted-foreground ml-2">
+                    {new Date(item.publishedDate).toLocaleDateString('fr-FR')}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => previewMutation.mutate()} disabled={previewMutation.isPending}>
+              <Eye className="h-4 w-4 mr-1" />
+              {previewMutation.isPending ? 'Interrogation...' : 'Tester'}
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-source">
+              {saveMutation.isPending ? 'Enregistrement...' : 'Enregistrer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { History, Timer, AlertTriangle, Target, CheckCircle, XCircle, Loader2 } from "lucide-react";
+
+export interface SourceCollectionStatus {
+  success: boolean;
+  count: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface RegulatorySyncRun {
+  id: string;
+  trigger: 'scheduled' | 'manual' | 'personalized';
+  status: 'running' | 'completed' | 'failed';
+  sourceStatus: Record<string, SourceCollectionStatus> | null;
+  totalCollected: number;
+  totalAnalyzed: number;
+  totalInsights: number;
+  averageRelevanceScore: number | null;
+  durationMs: number | null;
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+interface MonitoringMetrics {
+  totalSources: number;
+  activeSources: number;
+  lastSync: string;
+  averageRelevanceScore: number;
+  processingLatency: number;
+  errorRate: number;
+}
+
+export interface SyncRunHistoryProps {
+  limit?: number;
+}
+
+const TRIGGER_LABELS: Record<RegulatorySyncRun['trigger'], string> = {
+  scheduled: 'Planifié',
+  manual: 'Manuel',
+  personalized: 'Personnalisé',
+};
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+export function SyncRunHistory({ limit = 20 }: SyncRunHistoryProps) {
+  const { data: metrics } = useQuery<MonitoringMetrics>({
+    queryKey: ['/api/regulatory/metrics'],
+  });
+
+  const { data: runs = [], isLoading } = useQuery<RegulatorySyncRun[]>({
+    queryKey: [`/api/regulatory/sync-runs?limit=${limit}`],
+  });
+
+  const getStatusBadge = (run: RegulatorySyncRun) => {
+    switch (run.status) {
+      case 'completed':
+        return (
+          <Badge className="bg-green-100 text-green-800 flex items-center gap-1 w-fit">
+            <CheckCircle className="h-3 w-3" /> Terminé
+          </Badge>
+        );
+      case 'failed':
+        return (
+          <Badge className="bg-red-100 text-red-800 flex items-center gap-1 w-fit" title={run.error || undefined}>
+            <XCircle className="h-3 w-3" /> Échec
+          </Badge>
+        );
+      default:
+        return (
+          <Badge variant="secondary" className="flex items-center gap-1 w-fit">
+            <Loader2 className="h-3 w-3 animate-spin" /> En cours
+          </Badge>
+        );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Historique des synchronisations
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {metrics && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-3 bg-muted/30 rounded">
+              <p className="text-xs text-muted-foreground">Sources actives</p>
+              <p className="text-xl font-semibold">{metrics.activeSources} / {metrics.totalSources}</p>
+            </div>
+            <div className="p-3 bg-muted/30 rounded">
+              <p className="text-xs text-muted-foreground flex items-center gap-1"><Timer className="h-3 w-3" /> Durée moyenne</p>
+              <p className="text-xl font-semibold">{formatDuration(metrics.processingLatency)}</p>
+            </div>
+            <div className="p-3 bg-muted/30 rounded">
+              <p className="text-xs text-muted-foreground flex items-center gap-1"><AlertTriangle className="h-3 w-3" /> Taux d'erreur</p>
+              <p className="text-xl font-semibold">{metrics.errorRate} %</p>
+            </div>
+            <div className="p-3 bg-muted/30 rounded">
+              <p className="text-xs text-muted-foreground flex items-center gap-1"><Target className="h-3 w-3" /> Pertinence moyenne</p>
+              <p className="text-xl font-semibold">{metrics.averageRelevanceScore} %</p>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Chargement de l'historique...</p>
+        ) : runs.length === 0 ? (
+          <p className="text-muted-foreground">Aucune synchronisation enregistrée pour le moment.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Début</TableHead>
+                <TableHead>Déclenchement</TableHead>
+                <TableHead>Statut</TableHead>
+                <TableHead>Sources</TableHead>
+                <TableHead className="text-right">Collectés</TableHead>
+                <TableHead className="text-right">Insights</TableHead>
+                <TableHead className="text-right">Durée</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map(run => (
+                <TableRow key={run.id} data-testid={`sync-run-${run.id}`}>
+                  <TableCell className="whitespace-nowrap">{new Date(run.startedAt).toLocaleString('fr-FR')}</TableCell>
+                  <TableCell>{TRIGGER_LABELS[run.trigger]}</TableCell>
+                  <TableCell>{getStatusBadge(run)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {Object.entries(run.sourceStatus || {}).map(([key, status]) => (
+                        <Badge
+                          key={key}
+                          variant="outline"
+                          className={status.success ? '' : 'border-red-300 text-red-700'}
+                          title={status.error || `${status.count} éléments en ${formatDuration(status.durationMs)}`}
+                        >
+                          {key} · {status.success ? status.count : 'erreur'}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{run.totalCollected}</TableCell>
+                  <TableCell className="text-right">{run.totalInsights}</TableCell>
+                  <TableCell className="text-right">{formatDuration(run.durationMs)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,9 @@
 export { ImpactDashboard } from './ImpactDashboard';
 export { PriorityActionsPanel } from './PriorityActionsPanel';
 export { ActionTimeline } from './ActionTimeline';
+export { RegulatorySourcesPanel } from './RegulatorySourcesPanel';
+export { SyncRunHistory } from './SyncRunHistory';
+export { ActionKanban } from './ActionKanban';
 
 // Types partagés
 export type { 
@@ -15,3 +18,15 @@ export type {
 export type { 
   ActionTimelineProps 
 } from './ActionTimeline';
+
+export type { 
+  RegulatorySourcesPanelProps 
+} from './RegulatorySourcesPanel';
+
+export type { 
+  SyncRunHistoryProps 
+} from './SyncRunHistory';
+
+export type { 
+  ActionKanbanProps 
+} from './ActionKanban';
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { KeyRound, Plus, Copy, Trash2, Terminal } from "lucide-react";
+
+type TokenScope = 'assessments:read' | 'regulatory:read' | 'compliance:read';
+
+interface PersonalAccessToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  organizationId: string;
+  scopes: TokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+const SCOPE_LABELS: Record<TokenScope, { label: string; tools: string }> = {
+  'assessments:read': { label: 'Classification', tools: 'classify_ai_system' },
+  'regulatory:read': { label: 'Règlement IA', tools: 'search_ai_act, get_article' },
+  'compliance:read': { label: 'Matrice de conformité', tools: 'get_compliance_matrix' },
+};
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 jours' },
+  { value: '90', label: '90 jours' },
+  { value: '365', label: '1 an' },
+  { value: 'never', label: 'Sans expiration' },
+];
+
+export default function PersonalAccessTokens() {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<TokenScope[]>(['assessments:read', 'regulatory:read']);
+  const [expiry, setExpiry] = useState('90');
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<PersonalAccessToken[]>({
+    queryKey: ['/api/personal-access-tokens'],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/personal-access-tokens', {
+        name,
+        scopes,
+        expiresInDays: expiry === 'never' ? null : parseInt(expiry),
+      });
+      return response.json() as Promise<{ token: string; record: PersonalAccessToken }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/personal-access-tokens'] });
+      setCreatedToken(data.token);
+      setName('');
+    },
+    onError: (error: Error) => {
+      toast({ title: "Création impossible", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/personal-access-tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/personal-access-tokens'] });
+      toast({ title: "Jeton révoqué" });
+    },
+  });
+
+  const toggleScope = (scope: TokenScope, checked: boolean) => {
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(s => s !== scope));
+  };
+
+  const copyToClipboard = async (value: string) => {
+    await navigator.clipboard.writeText(value);
+    toast({ title: "Copié dans le presse-papiers" });
+  };
+
+  const endpoint = `${window.location.origin}/mcp/assistant`;
+  const clientConfig = JSON.stringify({
+    mcpServers: {
+      'ai-act-navigator': {
+        type: 'http',
+        url: endpoint,
+        headers: { Authorization: `Bearer ${createdToken || '<jeton>'}` },
+      },
+    },
+  }, null, 2);
+
+  const getTokenStatus = (token: PersonalAccessToken) => {
+    if (token.revokedAt) return <Badge variant="secondary">Révoqué</Badge>;
+    if (token.expiresAt && new Date(token.expiresAt) <= new Date()) return <Badge variant="secondary">Expiré</Badge>;
+    return <Badge className="bg-green-100 text-green-800">Actif</Badge>;
+  };
+
+  return (
+    <Card data-testid="card-personal-access-tokens">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-primary" />
+          Jetons d'accès personnels (MCP)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Interrogez l'assistant depuis vos agents de code et IDE compatibles MCP. Le jeton agit en votre nom
+          sur l'organisation active, dans la limite des périmètres choisis ; chaque appel est journalisé.
+        </p>
+
+        <div className="space-y-4 p-4 border border-border rounded-lg">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="token-name">Nom</Label>
+              <Input
+                id="token-name"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="Cursor - poste de travail"
+                data-testid="input-token-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Expiration</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Périmètres</Label>
+            {(Object.keys(SCOPE_LABELS) as TokenScope[]).map(scope => (
+              <div key={scope} className="flex items-center gap-2">
+                <Checkbox
+                  id={`scope-${scope}`}
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={checked => toggleScope(scope, checked === true)}
+                />
+                <Label htmlFor={`scope-${scope}`} className="font-normal">
+                  {SCOPE_LABELS[scope].label}
+                  <span className="text-xs text-muted-foreground ml-2">{SCOPE_LABELS[scope].tools}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+            data-testid="button-create-token"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Générer un jeton
+          </Button>
+        </div>
+
+        {createdToken && (
+          <Alert>
+            <AlertDescription className="space-y-3">
+              <p className="font-medium">Copiez ce jeton maintenant : il ne sera plus affiché.</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 p-2 bg-muted rounded text-xs break-all" data-testid="text-created-token">{createdToken}</code>
+                <Button variant="outline" size="icon" onClick={() => copyToClipboard(createdToken)}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label className="flex items-center gap-2">
+            <Terminal className="h-4 w-4" />
+            Configuration du client MCP (streamable HTTP)
+          </Label>
+          <pre className="p-3 bg-muted rounded text-xs overflow-x-auto">{clientConfig}</pre>
+        </div>
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Chargement des jetons...</p>
+          ) : tokens.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aucun jeton créé.</p>
+          ) : (
+            tokens.map(token => (
+              <div key={token.id} className="flex items-center justify-between p-3 border border-border rounded-lg" data-testid={`token-${token.id}`}>
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-foreground">{token.name}</span>
+                    {getTokenStatus(token)}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    <code>{token.tokenPrefix}…</code>
+                    {' • '}{token.scopes.map(scope => SCOPE_LABELS[scope]?.label || scope).join(', ')}
+                    {' • '}Créé le {new Date(token.createdAt).toLocaleDateString('fr-FR')}
+                    {token.expiresAt && ` • Expire le ${new Date(token.expiresAt).toLocaleDateString('fr-FR')}`}
+                    {token.lastUsedAt && ` • Utilisé le ${new Date(token.lastUsedAt).toLocaleString('fr-FR')}`}
+                  </p>
+                </div>
+                {!token.revokedAt && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => revokeMutation.mutate(token.id)}
+                    disabled={revokeMutation.isPending}
+                    data-testid={`button-revoke-token-${token.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
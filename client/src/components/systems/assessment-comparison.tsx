@@ -0,0 +1,233 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import type {
+  AiSystem,
+  ComplianceGap,
+  FrameworkQuestion,
+  RiskAssessment,
+  RiskAssessmentAnswerChange,
+  RiskAssessmentComparison,
+  RiskAssessmentMetricDelta,
+} from "@shared/schema";
+import { SYSTEM_FIELD_LABELS, formatFieldValue } from "./system-fields";
+
+interface AssessmentComparisonProps {
+  system: AiSystem | null;
+  onClose: () => void;
+}
+
+export interface FrameworkQuestionnaire {
+  version: string;
+  dimensions: { id: string; strategies: { questions: FrameworkQuestion[] }[] }[];
+}
+
+export const RISK_LEVEL_LABELS: Record<string, string> = {
+  unacceptable: "Inacceptable",
+  high: "Haut risque",
+  limited: "Risque limité",
+  minimal: "Risque minimal",
+};
+
+export const TREND_LABELS: Record<RiskAssessmentComparison['riskLevel']['trend'], { label: string; className: string }> = {
+  improved: { label: "En amélioration", className: "bg-green-100 text-green-800" },
+  worsened: { label: "En dégradation", className: "bg-red-100 text-red-800" },
+  unchanged: { label: "Inchangé", className: "bg-gray-100 text-gray-800" },
+};
+
+export const DIMENSION_LABELS: Record<string, string> = {
+  justice_fairness: "Justice et équité",
+  transparency_explainability: "Transparence et explicabilité",
+  human_ai_interaction: "Interaction humaine-IA",
+  social_environmental_impact: "Impact social et environnemental",
+  responsibility: "Responsabilité",
+  data_privacy: "Données et vie privée",
+  technical_robustness_security: "Robustesse technique et sécurité",
+};
+
+const formatDate = (assessment: RiskAssessment) =>
+  assessment.createdAt ? new Date(assessment.createdAt).toLocaleString('fr-FR') : assessment.id;
+
+// Un score de risque qui baisse est une amélioration ; pour les autres scores, c'est l'inverse
+export function DeltaBadge({ delta, lowerIsBetter = false }: { delta: number | null; lowerIsBetter?: boolean }) {
+  if (delta === null || delta === 0) {
+    return <Badge variant="outline">{delta === null ? "—" : "="}</Badge>;
+  }
+  const improved = lowerIsBetter ? delta < 0 : delta > 0;
+  return (
+    <Badge className={improved ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}>
+      {delta > 0 ? `+${delta}` : delta}
+    </Badge>
+  );
+}
+
+export function MetricRow({ label, metric, lowerIsBetter }: { label: string; metric: RiskAssessmentMetricDelta; lowerIsBetter?: boolean }) {
+  return (
+    <div className="grid grid-cols-[1fr_5rem_5rem_4rem] gap-2 items-center text-sm">
+      <span className="text-foreground">{label}</span>
+      <span className="text-muted-foreground">{formatFieldValue(metric.from)}</span>
+      <span className="text-foreground">{formatFieldValue(metric.to)}</span>
+      <DeltaBadge delta={metric.delta} lowerIsBetter={lowerIsBetter} />
+    </div>
+  );
+}
+
+function AnswerChanges({ changes, questionLabels }: { changes: RiskAssessmentAnswerChange[]; questionLabels: Record<string, string> }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">Aucune réponse modifiée.</p>;
+  }
+
+  const label = (change: RiskAssessmentAnswerChange) => change.source === 'frameworkResponses'
+    ? questionLabels[change.field] || change.field
+    : SYSTEM_FIELD_LABELS[`riskAnswers.${change.field}`] || SYSTEM_FIELD_LABELS[change.field] || change.field;
+
+  return (
+    <div className="space-y-2">
+      {changes.map(change => (
+        <div key={`${change.source}-${change.field}`} className="grid grid-cols-[1fr_8rem_8rem] gap-2 text-sm">
+          <span className="font-medium text-foreground break-words">{label(change)}</span>
+          <span className="bg-red-50 text-red-800 rounded px-2 py-1 line-through break-words">{formatFieldValue(change.from)}</span>
+          <span className="bg-green-50 text-green-800 rounded px-2 py-1 break-words">{formatFieldValue(change.to)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function AddedClosed<T>({ title, added, closed, render }: { title: string; added: T[]; closed: T[]; render: (item: T) => string }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="font-semibold text-foreground">{title}</h4>
+      {added.length === 0 && closed.length === 0 && (
+        <p className="text-sm text-muted-foreground">Aucune évolution.</p>
+      )}
+      <ul className="space-y-1 text-sm">
+        {closed.map(item => (
+          <li key={`closed-${render(item)}`} className="bg-green-50 text-green-800 rounded px-2 py-1">Résolu : {render(item)}</li>
+        ))}
+        {added.map(item => (
+          <li key={`added-${render(item)}`} className="bg-red-50 text-red-800 rounded px-2 py-1">Nouveau : {render(item)}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function AssessmentComparison({ system, onClose }: AssessmentComparisonProps) {
+  const [from, setFrom] = useState<string | null>(null);
+  const [to, setTo] = useState<string | null>(null);
+
+  const { data: assessments = [] } = useQuery<RiskAssessment[]>({
+    queryKey: ['/api/assessments', system?.id],
+    enabled: !!system,
+  });
+
+  // Par défaut, compare la plus ancienne et la plus récente évaluation
+  useEffect(() => {
+    if (assessments.length > 0) {
+      setFrom(assessments[assessments.length - 1].id);
+      setTo(assessments[0].id);
+    }
+  }, [assessments]);
+
+  const { data: comparison } = useQuery<RiskAssessmentComparison>({
+    queryKey: ['/api/ai-systems', system?.id, 'assessments', `compare?from=${from}&to=${to}`],
+    enabled: !!system && !!from && !!to && from !== to,
+  });
+
+  // Libellés des questions du référentiel dans la version de l'évaluation la plus récente
+  const questionnaireVersion = comparison?.to.assessmentVersion;
+  const { data: questionnaire } = useQuery<FrameworkQuestionnaire>({
+    queryKey: [`/api/framework/questions?version=${encodeURIComponent(questionnaireVersion || '')}`],
+    enabled: !!questionnaireVersion,
+  });
+  const questionLabels: Record<string, string> = Object.fromEntries(
+    (questionnaire?.dimensions || []).flatMap(dimension =>
+      dimension.strategies.flatMap(strategy => strategy.questions.map(question => [question.questionId, question.question]))
+    )
+  );
+
+  if (!system) {
+    return null;
+  }
+
+  return (
+    <Dialog open={!!system} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Comparaison des évaluations — {system.name}</DialogTitle>
+        </DialogHeader>
+
+        {assessments.length < 2 ? (
+          <p className="text-sm text-muted-foreground">Au moins deux évaluations des risques sont nécessaires pour les comparer.</p>
+        ) : (
+          <div className="space-y-6" data-testid="assessment-compare">
+            <div className="flex items-end gap-4">
+              {[
+                { label: "De l'évaluation", value: from, onChange: setFrom },
+                { label: "À l'évaluation", value: to, onChange: setTo },
+              ].map(selector => (
+                <div key={selector.label} className="space-y-2">
+                  <Label>{selector.label}</Label>
+                  <Select value={selector.value ?? undefined} onValueChange={selector.onChange}>
+                    <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {assessments.map(assessment => (
+                        <SelectItem key={assessment.id} value={assessment.id}>
+                          {formatDate(assessment)} — {RISK_LEVEL_LABELS[assessment.riskLevel ?? ''] || '—'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {comparison && from !== to && (
+              <>
+                <div className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-semibold text-foreground">Niveau de risque :</span>
+                    <span>{RISK_LEVEL_LABELS[comparison.riskLevel.from ?? ''] || '—'}</span>
+                    <span>→</span>
+                    <span>{RISK_LEVEL_LABELS[comparison.riskLevel.to ?? ''] || '—'}</span>
+                    <Badge className={TREND_LABELS[comparison.riskLevel.trend].className}>
+                      {TREND_LABELS[comparison.riskLevel.trend].label}
+                    </Badge>
+                  </div>
+                  <MetricRow label="Score de risque" metric={comparison.riskScore} lowerIsBetter />
+                  <MetricRow label="Score de conformité" metric={comparison.complianceScore} />
+                  <MetricRow label="Score du référentiel" metric={comparison.overallFrameworkScore} />
+                  {comparison.dimensionDeltas.map(dimension => (
+                    <MetricRow key={dimension.dimension} label={DIMENSION_LABELS[dimension.dimension] || dimension.dimension} metric={dimension} />
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <h4 className="font-semibold text-foreground">Réponses modifiées ({comparison.answerChanges.length})</h4>
+                  <AnswerChanges changes={comparison.answerChanges} questionLabels={questionLabels} />
+                </div>
+
+                <AddedClosed<ComplianceGap>
+                  title="Écarts de conformité"
+                  added={comparison.complianceGaps.added}
+                  closed={comparison.complianceGaps.closed}
+                  render={gap => gap.gap}
+                />
+                <AddedClosed<string>
+                  title="Actions prioritaires"
+                  added={comparison.priorityActions.added}
+                  closed={comparison.priorityActions.closed}
+                  render={action => action}
+                />
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  ASSESSMENT_SIMULATION_MAX_CHANGES,
+  FRAMEWORK_DERIVED_RISK_ANSWERS,
+  type AiSystem,
+  type AssessmentSimulationResult,
+  type RiskAssessment,
+} from "@shared/schema";
+import { RotateCcw, X } from "lucide-react";
+import { RISK_ANSWER_OPTIONS, SYSTEM_FIELD_LABELS, formatFieldValue } from "./system-fields";
+import {
+  DIMENSION_LABELS,
+  DeltaBadge,
+  MetricRow,
+  RISK_LEVEL_LABELS,
+  TREND_LABELS,
+  type FrameworkQuestionnaire,
+} from "./assessment-comparison";
+
+interface AssessmentSimulatorProps {
+  system: AiSystem | null;
+  onClose: () => void;
+}
+
+const NOT_ANSWERED = "__not_answered__";
+
+// Les réponses déduites des scores du référentiel ne peuvent pas être simulées
+const SIMULATED_RISK_ANSWERS = Object.entries(RISK_ANSWER_OPTIONS)
+  .filter(([field]) => !(FRAMEWORK_DERIVED_RISK_ANSWERS as readonly string[]).includes(field));
+
+export default function AssessmentSimulator({ system, onClose }: AssessmentSimulatorProps) {
+  const [frameworkResponses, setFrameworkResponses] = useState<Record<string, number>>({});
+  const [riskAnswers, setRiskAnswers] = useState<Record<string, string>>({});
+
+  const { data: assessments = [] } = useQuery<RiskAssessment[]>({
+    queryKey: ['/api/assessments', system?.id],
+    enabled: !!system,
+  });
+
+  // Seule la dernière évaluation du référentiel v3.0 conserve les réponses nécessaires au recalcul
+  const assessment = assessments.find(candidate =>
+    Object.keys((candidate.frameworkResponses as Record<string, number>) || {}).length > 0
+  );
+  const baseResponses = (assessment?.frameworkResponses as Record<string, number>) || {};
+  const baseForm = (assessment?.formData as Record<string, unknown>) || {};
+
+  const { data: questionnaire } = useQuery<FrameworkQuestionnaire>({
+    queryKey: [`/api/framework/questions?version=${encodeURIComponent(assessment?.assessmentVersion || '')}`],
+    enabled: !!assessment,
+  });
+
+  // Recalculée à chaque modification ; sans modification, la simulation renvoie la situation de référence
+  const changes = { frameworkResponses, riskAnswers };
+  const { data: simulation, isFetching } = useQuery<AssessmentSimulationResult>({
+    queryKey: ['/api/ai-systems', system?.id, 'assessments', assessment?.id, 'simulate', changes],
+    queryFn: async () => {
+      const response = await apiRequest('POST', `/api/ai-systems/${system!.id}/assessments/${assessment!.id}/simulate`, changes);
+      return response.json();
+    },
+    enabled: !!system && !!assessment,
+    placeholderData: keepPreviousData,
+  });
+
+  const questionLabels: Record<string, string> = Object.fromEntries(
+    (questionnaire?.dimensions || []).flatMap(dimension =>
+      dimension.strategies.flatMap(strategy => strategy.questions.map(question => [question.questionId, question.question]))
+    )
+  );
+
+  const changeLimitReached = Object.keys(frameworkResponses).length >= ASSESSMENT_SIMULATION_MAX_CHANGES;
+
+  const setFrameworkResponse = (questionId: string, value: number) => {
+    setFrameworkResponses(current => {
+      const { [questionId]: _previous, ...rest } = current;
+      return value === baseResponses[questionId] ? rest : { ...rest, [questionId]: value };
+    });
+  };
+
+  const setRiskAnswer = (field: string, value: string) => {
+    setRiskAnswers(current => {
+      const { [field]: _previous, ...rest } = current;
+      return value === baseForm[field] ? rest : { ...rest, [field]: value };
+    });
+  };
+
+  const reset = () => {
+    setFrameworkResponses({});
+    setRiskAnswers({});
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  if (!system) {
+    return null;
+  }
+
+  return (
+    <Dialog open={!!system} onOpenChange={open => !open && handleClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Simulation — {system.name}</DialogTitle>
+        </DialogHeader>
+
+        {!assessment ? (
+          <p className="text-sm text-muted-foreground">
+            Aucune évaluation du référentiel Positive AI à simuler pour ce système.
+          </p>
+        ) : (
+          <div className="space-y-6" data-testid="assessment-simulator">
+            <p className="text-sm text-muted-foreground">
+              Modifiez des réponses de l'évaluation du {assessment.createdAt ? new Date(assessment.createdAt).toLocaleDateString('fr-FR') : '—'} pour
+              mesurer l'effet de mesures correctives. Rien n'est enregistré.
+            </p>
+
+            {simulation && (
+              <div className={`border rounded-lg p-4 space-y-3 ${isFetching ? 'opacity-60' : ''}`}>
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-semibold text-foreground">Niveau de risque :</span>
+                  <span>{RISK_LEVEL_LABELS[simulation.baseline.riskLevel]}</span>
+                  <span>→</span>
+                  <span>{RISK_LEVEL_LABELS[simulation.simulated.riskLevel]}</span>
+                  <Badge className={TREND_LABELS[simulation.riskLevelTrend].className}>
+                    {TREND_LABELS[simulation.riskLevelTrend].label}
+                  </Badge>
+                </div>
+                <MetricRow
+                  label="Score du référentiel"
+                  metric={{
+                    from: simulation.baseline.overallFrameworkScore,
+                    to: simulation.simulated.overallFrameworkScore,
+                    delta: simulation.simulated.overallFrameworkScore - simulation.baseline.overallFrameworkScore,
+                  }}
+                />
+                <MetricRow
+                  label="Score de risque"
+                  metric={{
+                    from: simulation.baseline.riskScore,
+                    to: simulation.simulated.riskScore,
+                    delta: simulation.simulated.riskScore - simulation.baseline.riskScore,
+                  }}
+                  lowerIsBetter
+                />
+                <MetricRow
+                  label="Score de conformité"
+                  metric={{
+                    from: simulation.baseline.complianceScore,
+                    to: simulation.simulated.complianceScore,
+                    delta: simulation.simulated.complianceScore - simulation.baseline.complianceScore,
+                  }}
+                />
+                {simulation.dimensionDeltas.map(dimension => (
+                  <MetricRow key={dimension.dimension} label={DIMENSION_LABELS[dimension.dimension] || dimension.dimension} metric={dimension} />
+                ))}
+                {simulation.closedGaps.length > 0 && (
+                  <ul className="space-y-1 text-sm">
+                    {simulation.closedGaps.map(gap => (
+                      <li key={gap.gap} className="bg-green-50 text-green-800 rounded px-2 py-1">Écart résolu : {gap.gap}</li>
+                    ))}
+                  </ul>
+                )}
+                {simulation.addedGaps.length > 0 && (
+                  <ul className="space-y-1 text-sm">
+                    {simulation.addedGaps.map(gap => (
+                      <li key={gap.gap} className="bg-red-50 text-red-800 rounded px-2 py-1">Nouvel écart : {gap.gap}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {simulation && simulation.rankedChanges.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-semibold text-foreground">Modifications classées par gain</h4>
+                  <Button size="sm" variant="ghost" onClick={reset}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Réinitialiser
+                  </Button>
+                </div>
+                {simulation.rankedChanges.map(change => (
+                  <div key={`${change.source}-${change.field}`} className="flex items-center gap-2 text-sm border rounded px-3 py-2">
+                    <span className="flex-1 text-foreground">
+                      {change.source === 'frameworkResponses'
+                        ? questionLabels[change.field] || change.field
+                        : SYSTEM_FIELD_LABELS[`riskAnswers.${change.field}`] || change.field}
+                      <span className="text-muted-foreground"> : {formatFieldValue(change.from)} → {formatFieldValue(change.to)}</span>
+                    </span>
+                    <DeltaBadge delta={change.overallFrameworkScoreGain} />
+                    <span className="text-xs text-muted-foreground w-28 text-right">
+                      Risque {change.riskScoreReduction > 0 ? `-${change.riskScoreReduction}` : change.riskScoreReduction < 0 ? `+${-change.riskScoreReduction}` : '='}
+                    </span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => change.source === 'frameworkResponses'
+                        ? setFrameworkResponse(change.field, baseResponses[change.field])
+                        : setRiskAnswer(change.field, baseForm[change.field] as string)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <h4 className="font-semibold text-foreground">Réponses déterminantes pour le risque</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {SIMULATED_RISK_ANSWERS.map(([field, options]) => {
+                  const value = riskAnswers[field] ?? (baseForm[field] as string | undefined);
+                  return (
+                    <div key={field} className="space-y-1">
+                      <Label className={riskAnswers[field] ? "text-primary" : undefined}>
+                        {SYSTEM_FIELD_LABELS[`riskAnswers.${field}`] || field}
+                      </Label>
+                      <Select value={value ?? NOT_ANSWERED} onValueChange={next => next !== NOT_ANSWERED && setRiskAnswer(field, next)}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {!baseForm[field] && <SelectItem value={NOT_ANSWERED}>Non renseigné</SelectItem>}
+                          {options.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {changeLimitReached && (
+              <p className="text-sm text-muted-foreground">
+                {ASSESSMENT_SIMULATION_MAX_CHANGES} réponses au plus peuvent être simulées à la fois.
+              </p>
+            )}
+
+            {questionnaire?.dimensions.map(dimension => (
+              <div key={dimension.id} className="space-y-3">
+                <h4 className="font-semibold text-foreground">{DIMENSION_LABELS[dimension.id] || dimension.id}</h4>
+                {dimension.strategies.flatMap(strategy => strategy.questions).map(question => {
+                  const changed = frameworkResponses[question.questionId] !== undefined;
+                  const value = frameworkResponses[question.questionId] ?? baseResponses[question.questionId];
+                  return (
+                    <div key={question.questionId} className="grid grid-cols-[1fr_14rem] gap-3 items-center">
+                      <span className={`text-sm ${changed ? 'text-primary font-medium' : 'text-foreground'}`}>{question.question}</span>
+                      <Select
+                        value={value !== undefined ? String(value) : NOT_ANSWERED}
+                        disabled={changeLimitReached && !changed}
+                        onValueChange={next => next !== NOT_ANSWERED && setFrameworkResponse(question.questionId, Number(next))}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {baseResponses[question.questionId] === undefined && <SelectItem value={NOT_ANSWERED}>Non renseigné</SelectItem>}
+                          {(question.options || []).map(option => (
+                            <SelectItem key={option.value} value={String(option.value)}>{option.value} — {option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,274 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { AiSystem, HighRiskClassification, HighRiskClassificationOutcome } from "@shared/schema";
+import { Download } from "lucide-react";
+
+interface HighRiskClassificationDialogProps {
+  system: AiSystem | null;
+  canEdit: boolean;
+  onClose: () => void;
+}
+
+interface ClassificationQuestion {
+  id: string;
+  reference: string;
+  text: string;
+}
+
+interface HighRiskQuestionnaire {
+  annexI: ClassificationQuestion[];
+  annexIII: { id: string; reference: string; title: string; question: string; points: ClassificationQuestion[] }[];
+  profiling: ClassificationQuestion;
+  noSignificantRisk: ClassificationQuestion;
+  derogationConditions: ClassificationQuestion[];
+}
+
+const OUTCOME_LABELS: Record<HighRiskClassificationOutcome, { label: string; className: string }> = {
+  high_risk_annex_i: { label: "Haut risque — Annexe I", className: "bg-orange-100 text-orange-800" },
+  high_risk_annex_iii: { label: "Haut risque — Annexe III", className: "bg-orange-100 text-orange-800" },
+  derogation: { label: "Dérogation Art. 6(3)", className: "bg-blue-100 text-blue-800" },
+  not_high_risk: { label: "Pas à haut risque", className: "bg-green-100 text-green-800" },
+};
+
+function QuestionRow({ question, text, value, onChange, disabled }: {
+  question: ClassificationQuestion;
+  text?: string;
+  value: boolean | undefined;
+  onChange: (value: boolean) => void;
+  disabled: boolean;
+}) {
+  return (
+    <div className="flex items-start justify-between gap-4 text-sm">
+      <span>
+        {text || question.text} <span className="text-xs text-muted-foreground">({question.reference})</span>
+      </span>
+      <div className="flex gap-1 shrink-0">
+        <Button size="sm" variant={value === true ? "default" : "outline"} onClick={() => onChange(true)} disabled={disabled}>
+          Oui
+        </Button>
+        <Button size="sm" variant={value === false ? "default" : "outline"} onClick={() => onChange(false)} disabled={disabled}>
+          Non
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function HighRiskClassificationDialog({ system, canEdit, onClose }: HighRiskClassificationDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [answers, setAnswers] = useState<Record<string, boolean>>({});
+  const [justification, setJustification] = useState("");
+
+  const { data: questionnaire } = useQuery<HighRiskQuestionnaire>({
+    queryKey: ['/api/high-risk-classification/questionnaire'],
+    enabled: !!system,
+  });
+
+  const { data: classifications = [] } = useQuery<HighRiskClassification[]>({
+    queryKey: ['/api/ai-systems', system?.id, 'high-risk-classifications'],
+    enabled: !!system,
+  });
+  const latest = classifications[0];
+
+  useEffect(() => {
+    setAnswers(latest?.answers || {});
+    setJustification(latest?.derogationJustification || "");
+  }, [system?.id, latest?.id]);
+
+  const classifyMutation = useMutation({
+    mutationFn: async (submitted: Record<string, boolean>) => {
+      const response = await apiRequest("POST", `/api/ai-systems/${system!.id}/high-risk-classifications`, {
+        answers: submitted,
+        derogationJustification: justification.trim() || null,
+      });
+      return response.json() as Promise<{ classification: HighRiskClassification }>;
+    },
+    onSuccess: ({ classification }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ai-systems'] });
+      toast({ title: OUTCOME_LABELS[classification.outcome].label, description: "La classification a été enregistrée." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!system || !questionnaire) {
+    return null;
+  }
+
+  const setAnswer = (questionId: string, value: boolean) => {
+    setAnswers(current => ({ ...current, [questionId]: value }));
+  };
+
+  // Même parcours que l'arbre de décision côté serveur : seules les questions atteintes sont affichées et envoyées
+  const visibleAnnexI = questionnaire.annexI.slice(0, answers[questionnaire.annexI[0].id] === true ? 2 : 1);
+  const annexI = questionnaire.annexI.every(question => answers[question.id] === true);
+  const visiblePoints = questionnaire.annexIII.flatMap(area => answers[area.id] === true ? area.points : []);
+  const annexIII = visiblePoints.some(point => answers[point.id] === true);
+  const showDerogation = annexIII && !annexI;
+  const showDerogationConditions = showDerogation && answers[questionnaire.profiling.id] === false;
+  const derogationClaimed = showDerogationConditions && answers[questionnaire.noSignificantRisk.id] === true &&
+    questionnaire.derogationConditions.some(condition => answers[condition.id] === true);
+
+  const required = [
+    ...visibleAnnexI,
+    ...questionnaire.annexIII.map(area => ({ id: area.id })),
+    ...visiblePoints,
+    ...(showDerogation ? [questionnaire.profiling] : []),
+  ];
+  const isComplete = required.every(question => answers[question.id] !== undefined) && (!derogationClaimed || justification.trim() !== "");
+
+  const submittedAnswers = () => {
+    const questions = [
+      ...required,
+      ...(showDerogationConditions ? [questionnaire.noSignificantRisk, ...questionnaire.derogationConditions] : []),
+    ];
+    return Object.fromEntries(questions.filter(question => answers[question.id] !== undefined).map(question => [question.id, answers[question.id]]));
+  };
+
+  const handleExport = async () => {
+    try {
+      const response = await apiRequest("GET", `/api/ai-systems/${system.id}/high-risk-classifications/export`);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `enregistrement-art49-${system.externalId || system.id}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      toast({ title: "Erreur", description: "Impossible d'exporter la classification.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={!!system} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Classification à haut risque (Art. 6) — {system.name}</DialogTitle>
+        </DialogHeader>
+
+        {latest && (
+          <div className="border rounded-lg p-4 space-y-2" data-testid="high-risk-classification-result">
+            <div className="flex items-center justify-between gap-2">
+              <Badge className={OUTCOME_LABELS[latest.outcome].className}>{OUTCOME_LABELS[latest.outcome].label}</Badge>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">
+                  Classification du {new Date(latest.createdAt!).toLocaleDateString('fr-FR')}
+                </span>
+                <Button size="sm" variant="outline" onClick={handleExport} data-testid="button-export-classification">
+                  <Download className="h-4 w-4 mr-2" />
+                  Export Art. 49
+                </Button>
+              </div>
+            </div>
+            <ul className="text-sm space-y-1">
+              {latest.trace.filter(entry => entry.applies || entry.ruleId === 'art6_3').map(entry => (
+                <li key={entry.ruleId}>
+                  {entry.conclusion}
+                  <span className="text-xs text-muted-foreground">
+                    {" "}— {entry.steps.map(step => `${step.reference} : ${step.answer === null ? "sans réponse" : step.answer ? "oui" : "non"}`).join(" ; ")}
+                  </span>
+                </li>
+              ))}
+              {latest.outcome === 'not_high_risk' && (
+                <li className="text-muted-foreground">Ni l'Annexe I ni aucun point de l'Annexe III ne s'applique.</li>
+              )}
+            </ul>
+            {latest.derogationJustification && (
+              <p className="text-xs text-muted-foreground whitespace-pre-wrap">Justification : {latest.derogationJustification}</p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="border rounded-lg p-4 space-y-3">
+            <p className="font-medium text-foreground">Produits de l'Annexe I (Art. 6(1))</p>
+            {visibleAnnexI.map(question => (
+              <QuestionRow key={question.id} question={question} value={answers[question.id]} onChange={value => setAnswer(question.id, value)} disabled={!canEdit} />
+            ))}
+          </div>
+
+          {questionnaire.annexIII.map(area => (
+            <div key={area.id} className="border rounded-lg p-4 space-y-3" data-testid={`area-${area.id}`}>
+              <p className="font-medium text-foreground">{area.reference} — {area.title}</p>
+              <QuestionRow
+                question={{ id: area.id, reference: area.reference, text: area.question }}
+                value={answers[area.id]}
+                onChange={value => setAnswer(area.id, value)}
+                disabled={!canEdit}
+              />
+              {answers[area.id] === true && area.points.map(point => (
+                <div key={point.id} className="pl-4">
+                  <QuestionRow question={point} value={answers[point.id]} onChange={value => setAnswer(point.id, value)} disabled={!canEdit} />
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {showDerogation && (
+            <div className="border rounded-lg p-4 space-y-3">
+              <p className="font-medium text-foreground">Dérogation de l'article 6(3)</p>
+              <QuestionRow
+                question={questionnaire.profiling}
+                value={answers[questionnaire.profiling.id]}
+                onChange={value => setAnswer(questionnaire.profiling.id, value)}
+                disabled={!canEdit}
+              />
+              {answers[questionnaire.profiling.id] === true && (
+                <p className="text-xs text-orange-700">Un système de l'Annexe III effectuant un profilage est toujours considéré comme à haut risque.</p>
+              )}
+              {showDerogationConditions && (
+                <>
+                  <QuestionRow
+                    question={questionnaire.noSignificantRisk}
+                    value={answers[questionnaire.noSignificantRisk.id]}
+                    onChange={value => setAnswer(questionnaire.noSignificantRisk.id, value)}
+                    disabled={!canEdit}
+                  />
+                  <p className="text-xs text-muted-foreground">Au moins une des conditions suivantes doit être remplie :</p>
+                  {questionnaire.derogationConditions.map(condition => (
+                    <QuestionRow key={condition.id} question={condition} value={answers[condition.id]} onChange={value => setAnswer(condition.id, value)} disabled={!canEdit} />
+                  ))}
+                  {derogationClaimed && (
+                    <div className="space-y-2">
+                      <Label htmlFor="derogation-justification">Justification documentée (Art. 6(4))</Label>
+                      <Textarea
+                        id="derogation-justification"
+                        value={justification}
+                        onChange={event => setJustification(event.target.value)}
+                        rows={4}
+                        disabled={!canEdit}
+                        placeholder="Motifs pour lesquels le système ne présente pas de risque important de préjudice"
+                      />
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Fermer</Button>
+          {canEdit && (
+            <Button
+              onClick={() => classifyMutation.mutate(submittedAnswers())}
+              disabled={!isComplete || classifyMutation.isPending}
+              data-testid="button-classify-high-risk"
+            >
+              Enregistrer la classification
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface InventoryImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface InventoryRowReport {
+  row: number;
+  externalId: string | null;
+  name: string | null;
+  action: "create" | "update" | null;
+  status: "valid" | "invalid" | "created" | "updated" | "unchanged" | "failed";
+  errors: { column: string; message: string }[];
+  substantialModification: boolean;
+  preClassification: { riskLevel: string; reasoning: string; highRiskDomains: string[] } | null;
+}
+
+interface InventoryImportReport {
+  dryRun: boolean;
+  ignoredColumns: string[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    toCreate: number;
+    toUpdate: number;
+    created: number;
+    updated: number;
+    unchanged: number;
+    failed: number;
+  };
+  rows: InventoryRowReport[];
+}
+
+const STATUS_LABELS: Record<InventoryRowReport["status"], { label: string; className: string }> = {
+  valid: { label: "Valide", className: "bg-green-100 text-green-800" },
+  invalid: { label: "Invalide", className: "bg-red-100 text-red-800" },
+  created: { label: "Créé", className: "bg-green-100 text-green-800" },
+  updated: { label: "Mis à jour", className: "bg-blue-100 text-blue-800" },
+  unchanged: { label: "Inchangé", className: "bg-gray-100 text-gray-800" },
+  failed: { label: "Échec", className: "bg-red-100 text-red-800" },
+};
+
+const RISK_LEVEL_LABELS: Record<string, string> = {
+  unacceptable: "Inacceptable",
+  high: "Haut risque",
+  limited: "Risque limité",
+  minimal: "Risque minimal",
+};
+
+export default function InventoryImportDialog({ open, onClose }: InventoryImportDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [preClassify, setPreClassify] = useState(true);
+  const [report, setReport] = useState<InventoryImportReport | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setFile(null);
+      setReport(null);
+    }
+  }, [open]);
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      formData.append("dryRun", String(dryRun));
+      formData.append("preClassify", String(preClassify));
+      const response = await apiRequest("POST", "/api/ai-systems/import", formData);
+      return response.json() as Promise<InventoryImportReport>;
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      if (!result.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ["/api/ai-systems"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/reassessments"] });
+        toast({
+          title: "Inventaire importé",
+          description: `${result.summary.created} système(s) créé(s), ${result.summary.updated} mis à jour, ${result.summary.invalid + result.summary.failed} ligne(s) en erreur.`,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erreur d'import",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importer l'inventaire des systèmes IA</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Fichier CSV ou XLSX avec les colonnes de l'export. Les colonnes <code>externalId</code> et <code>name</code> sont
+            obligatoires ; un système existant portant le même identifiant externe est mis à jour.
+          </p>
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="inventory-file">Fichier</Label>
+              <Input
+                id="inventory-file"
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={event => {
+                  setFile(event.target.files?.[0] || null);
+                  setReport(null);
+                }}
+              />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Checkbox
+                id="inventory-pre-classify"
+                checked={preClassify}
+                onCheckedChange={checked => {
+                  setPreClassify(checked === true);
+                  setReport(null);
+                }}
+              />
+              <Label htmlFor="inventory-pre-classify">Pré-classifier le risque (règles déterministes)</Label>
+            </div>
+          </div>
+
+          {report && (
+            <div className="space-y-3" data-testid="inventory-import-report">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="outline">{report.summary.total} ligne(s)</Badge>
+                {report.dryRun ? (
+                  <>
+                    <Badge className="bg-green-100 text-green-800">{report.summary.toCreate} à créer</Badge>
+                    <Badge className="bg-blue-100 text-blue-800">{report.summary.toUpdate} à mettre à jour</Badge>
+                  </>
+                ) : (
+                  <>
+                    <Badge className="bg-green-100 text-green-800">{report.summary.created} créé(s)</Badge>
+                    <Badge className="bg-blue-100 text-blue-800">{report.summary.updated} mis à jour</Badge>
+                    <Badge variant="outline">{report.summary.unchanged} inchangé(s)</Badge>
+                  </>
+                )}
+                {report.summary.invalid + report.summary.failed > 0 && (
+                  <Badge className="bg-red-100 text-red-800">{report.summary.invalid + report.summary.failed} en erreur</Badge>
+                )}
+              </div>
+              {report.ignoredColumns.length > 0 && (
+                <p className="text-xs text-muted-foreground">Colonnes ignorées : {report.ignoredColumns.join(", ")}</p>
+              )}
+
+              <div className="border rounded-lg divide-y">
+                {report.rows.map(row => (
+                  <div key={row.row} className="p-3 text-sm space-y-1" data-testid={`inventory-row-${row.row}`}>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-muted-foreground w-16">Ligne {row.row}</span>
+                      <span className="font-medium text-foreground">{row.name || "—"}</span>
+                      <span className="text-xs text-muted-foreground">{row.externalId}</span>
+                      <Badge className={STATUS_LABELS[row.status].className}>{STATUS_LABELS[row.status].label}</Badge>
+                      {row.action && report.dryRun && (
+                        <Badge variant="outline">{row.action === "create" ? "Création" : "Mise à jour"}</Badge>
+                      )}
+                      {row.preClassification && (
+                        <Badge variant="outline">{RISK_LEVEL_LABELS[row.preClassification.riskLevel]}</Badge>
+                      )}
+                      {row.substantialModification && (
+                        <Badge className="bg-red-100 text-red-800">Modification substantielle</Badge>
+                      )}
+                    </div>
+                    {row.errors.map((error, index) => (
+                      <p key={index} className="text-xs text-red-700 pl-16">
+                        {error.column ? `${error.column} : ` : ""}{error.message}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Fermer</Button>
+          <Button
+            variant="outline"
+            onClick={() => importMutation.mutate(true)}
+            disabled={!file || importMutation.isPending}
+            data-testid="button-inventory-dry-run"
+          >
+            Valider le fichier
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate(false)}
+            disabled={!file || !report?.dryRun || report.summary.valid === 0 || importMutation.isPending}
+            data-testid="button-inventory-import"
+          >
+            Importer {report?.dryRun ? `${report.summary.valid} ligne(s) valide(s)` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
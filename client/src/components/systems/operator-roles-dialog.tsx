@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { OPERATOR_ROLES, PROVIDER_TRIGGERS, type AiSystem, type OperatorRole, type ProviderTrigger } from "@shared/schema";
+import { OPERATOR_ROLE_LABELS, PROVIDER_TRIGGER_LABELS } from "./system-fields";
+
+interface OperatorRolesDialogProps {
+  system: AiSystem | null;
+  onClose: () => void;
+}
+
+const NO_TRIGGER = "none";
+
+export default function OperatorRolesDialog({ system, onClose }: OperatorRolesDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [roles, setRoles] = useState<OperatorRole[]>([]);
+  const [providerTrigger, setProviderTrigger] = useState<ProviderTrigger | typeof NO_TRIGGER>(NO_TRIGGER);
+
+  useEffect(() => {
+    if (system) {
+      setRoles(system.operatorRoles);
+      setProviderTrigger((system.providerTrigger as ProviderTrigger | null) || NO_TRIGGER);
+    }
+  }, [system]);
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/ai-systems/${system!.id}/operator-roles`, {
+        operatorRoles: roles,
+        providerTrigger: roles.includes("provider") || providerTrigger === NO_TRIGGER ? null : providerTrigger,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ai-systems"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance/matrix"] });
+      toast({ title: "Rôles mis à jour", description: "Les obligations applicables ont été recalculées." });
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Erreur",
+        description: "Impossible de mettre à jour les rôles.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!system) {
+    return null;
+  }
+
+  const toggleRole = (role: OperatorRole, checked: boolean) => {
+    setRoles(checked ? [...roles, role] : roles.filter(current => current !== role));
+  };
+
+  return (
+    <Dialog open={!!system} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Rôles pour {system.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Les obligations, la matrice de conformité, les plans d'actions et les documents suggérés
+            découlent des articles applicables à ces rôles.
+          </p>
+          <div className="space-y-2">
+            {OPERATOR_ROLES.map(role => (
+              <div key={role} className="flex items-center gap-2">
+                <Checkbox
+                  id={`role-${role}`}
+                  checked={roles.includes(role)}
+                  onCheckedChange={checked => toggleRole(role, checked === true)}
+                />
+                <Label htmlFor={`role-${role}`}>{OPERATOR_ROLE_LABELS[role]}</Label>
+              </div>
+            ))}
+          </div>
+
+          {!roles.includes("provider") && (
+            <div className="space-y-2">
+              <Label>Devenu fournisseur (Art. 25)</Label>
+              <Select value={providerTrigger} onValueChange={value => setProviderTrigger(value as ProviderTrigger | typeof NO_TRIGGER)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TRIGGER}>Non</SelectItem>
+                  {PROVIDER_TRIGGERS.map(trigger => (
+                    <SelectItem key={trigger} value={trigger}>{PROVIDER_TRIGGER_LABELS[trigger]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Annuler</Button>
+          <Button onClick={() => updateMutation.mutate()} disabled={updateMutation.isPending || roles.length === 0}>
+            Enregistrer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
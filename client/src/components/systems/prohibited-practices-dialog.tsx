@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { AiSystem, ProhibitedPracticeOutcome, ProhibitedPracticeScreening } from "@shared/schema";
+
+interface ProhibitedPracticesDialogProps {
+  system: AiSystem | null;
+  canEdit: boolean;
+  onClose: () => void;
+}
+
+interface ScreeningQuestion {
+  id: string;
+  paragraph: string;
+  text: string;
+}
+
+interface ProhibitedPractice {
+  id: string;
+  paragraph: string;
+  title: string;
+  description: string;
+  criteria: ScreeningQuestion[];
+  exceptions: { id: string; paragraph: string; title: string; questions: ScreeningQuestion[] }[];
+}
+
+const OUTCOME_LABELS: Record<ProhibitedPracticeOutcome, { label: string; className: string }> = {
+  prohibited: { label: "Pratique interdite", className: "bg-red-100 text-red-800" },
+  exception_applies: { label: "Exception applicable", className: "bg-orange-100 text-orange-800" },
+  not_prohibited: { label: "Aucune pratique interdite", className: "bg-green-100 text-green-800" },
+};
+
+function AnswerButtons({ value, onChange, disabled }: { value: boolean | undefined; onChange: (value: boolean) => void; disabled: boolean }) {
+  return (
+    <div className="flex gap-1 shrink-0">
+      <Button size="sm" variant={value === true ? "default" : "outline"} onClick={() => onChange(true)} disabled={disabled}>
+        Oui
+      </Button>
+      <Button size="sm" variant={value === false ? "default" : "outline"} onClick={() => onChange(false)} disabled={disabled}>
+        Non
+      </Button>
+    </div>
+  );
+}
+
+export default function ProhibitedPracticesDialog({ system, canEdit, onClose }: ProhibitedPracticesDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [answers, setAnswers] = useState<Record<string, boolean>>({});
+
+  const { data: practices = [] } = useQuery<ProhibitedPractice[]>({
+    queryKey: ['/api/prohibited-practices'],
+    enabled: !!system,
+  });
+
+  const { data: screenings = [] } = useQuery<ProhibitedPracticeScreening[]>({
+    queryKey: ['/api/ai-systems', system?.id, 'prohibited-practices'],
+    enabled: !!system,
+  });
+  const latest = screenings[0];
+
+  useEffect(() => {
+    setAnswers(latest?.answers || {});
+  }, [system?.id, latest?.id]);
+
+  const screenMutation = useMutation({
+    mutationFn: async (submitted: Record<string, boolean>) => {
+      const response = await apiRequest("POST", `/api/ai-systems/${system!.id}/prohibited-practices`, { answers: submitted });
+      return response.json() as Promise<{ screening: ProhibitedPracticeScreening; revokedCertificates: number }>;
+    },
+    onSuccess: ({ screening, revokedCertificates }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ai-systems'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/certificates'] });
+      toast({
+        title: OUTCOME_LABELS[screening.outcome].label,
+        description: revokedCertificates > 0
+          ? `${revokedCertificates} certificat(s) révoqué(s).`
+          : "Le résultat de l'examen a été enregistré.",
+        variant: screening.outcome === 'prohibited' ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erreur",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!system) {
+    return null;
+  }
+
+  const setAnswer = (questionId: string, value: boolean) => {
+    setAnswers(current => ({ ...current, [questionId]: value }));
+  };
+
+  // Les critères s'affichent tant que les précédents reçoivent « oui », les exceptions une fois tous les critères remplis
+  const visibleCriteria = (practice: ProhibitedPractice) => {
+    const firstNotYes = practice.criteria.findIndex(criterion => answers[criterion.id] !== true);
+    return firstNotYes === -1 ? practice.criteria : practice.criteria.slice(0, firstNotYes + 1);
+  };
+  const criteriaMet = (practice: ProhibitedPractice) => practice.criteria.every(criterion => answers[criterion.id] === true);
+  const isComplete = practices.every(practice => visibleCriteria(practice).every(criterion => answers[criterion.id] !== undefined));
+
+  // Seules les réponses aux questions affichées sont envoyées
+  const submittedAnswers = () => Object.fromEntries(practices.flatMap(practice => [
+    ...visibleCriteria(practice),
+    ...(criteriaMet(practice) ? practice.exceptions.flatMap(exception => exception.questions) : []),
+  ]).filter(question => answers[question.id] !== undefined).map(question => [question.id, answers[question.id]]));
+
+  return (
+    <Dialog open={!!system} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pratiques interdites (Art. 5) — {system.name}</DialogTitle>
+        </DialogHeader>
+
+        {latest && (
+          <div className="border rounded-lg p-4 space-y-2" data-testid="prohibited-practices-result">
+            <div className="flex items-center justify-between gap-2">
+              <Badge className={OUTCOME_LABELS[latest.outcome].className}>{OUTCOME_LABELS[latest.outcome].label}</Badge>
+              <span className="text-xs text-muted-foreground">
+                Examen du {new Date(latest.createdAt!).toLocaleDateString('fr-FR')}
+              </span>
+            </div>
+            <ul className="text-sm space-y-1">
+              {latest.trace.filter(entry => entry.result !== 'not_applicable').map(entry => (
+                <li key={entry.practiceId} className={entry.result === 'prohibited' ? "text-red-700" : "text-orange-700"}>
+                  {entry.conclusion}
+                </li>
+              ))}
+              {latest.outcome === 'not_prohibited' && (
+                <li className="text-muted-foreground">Aucun critère de l'article 5(1) n'est entièrement rempli.</li>
+              )}
+            </ul>
+            {latest.outcome === 'prohibited' && (
+              <p className="text-xs text-red-700">Aucun certificat ne peut être délivré pour ce système.</p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {practices.map(practice => (
+            <div key={practice.id} className="border rounded-lg p-4 space-y-3" data-testid={`practice-${practice.id}`}>
+              <div>
+                <p className="font-medium text-foreground">{practice.paragraph} — {practice.title}</p>
+                <p className="text-xs text-muted-foreground">{practice.description}</p>
+              </div>
+              {visibleCriteria(practice).map(criterion => (
+                <div key={criterion.id} className="flex items-start justify-between gap-4 text-sm">
+                  <span>{criterion.text}</span>
+                  <AnswerButtons value={answers[criterion.id]} onChange={value => setAnswer(criterion.id, value)} disabled={!canEdit} />
+                </div>
+              ))}
+              {criteriaMet(practice) && practice.exceptions.map(exception => (
+                <div key={exception.id} className="bg-muted/50 rounded-md p-3 space-y-2">
+                  <p className="text-sm font-medium">Exception — {exception.title} ({exception.paragraph})</p>
+                  {exception.questions.map(question => (
+                    <div key={question.id} className="flex items-start justify-between gap-4 text-sm">
+                      <span>{question.text}</span>
+                      <AnswerButtons value={answers[question.id]} onChange={value => setAnswer(question.id, value)} disabled={!canEdit} />
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Fermer</Button>
+          {canEdit && (
+            <Button
+              onClick={() => screenMutation.mutate(submittedAnswers())}
+              disabled={!isComplete || screenMutation.isPending}
+              data-testid="button-screen-prohibited-practices"
+            >
+              Enregistrer l'examen
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { AiSystem, AiSystemVersion } from "@shared/schema";
+import { RISK_ANSWER_OPTIONS, SYSTEM_FIELD_LABELS } from "./system-fields";
+
+interface SystemEditDialogProps {
+  system: AiSystem | null;
+  onClose: () => void;
+}
+
+interface SystemUpdateResult {
+  system: AiSystem;
+  version: AiSystemVersion | null;
+  revokedCertificates: number;
+  reassessmentId: string | null;
+}
+
+const TEXT_FIELDS = ["name", "sector", "primaryUseCase"] as const;
+const LONG_TEXT_FIELDS = ["description", "modelDetails", "dataDetails"] as const;
+
+type SystemForm = Record<(typeof TEXT_FIELDS)[number] | (typeof LONG_TEXT_FIELDS)[number], string>;
+
+function toForm(system: AiSystem): SystemForm {
+  return {
+    name: system.name,
+    sector: system.sector || "",
+    primaryUseCase: system.primaryUseCase || "",
+    description: system.description || "",
+    modelDetails: system.modelDetails || "",
+    dataDetails: system.dataDetails || "",
+  };
+}
+
+function toRiskAnswers(system: AiSystem): Record<string, string> {
+  const assessmentData = (system.assessmentData as Record<string, unknown>) || {};
+  const answers: Record<string, string> = {
+    applicationDomain: typeof assessmentData.applicationDomain === "string" ? assessmentData.applicationDomain : "",
+  };
+  for (const answer of Object.keys(RISK_ANSWER_OPTIONS)) {
+    answers[answer] = typeof assessmentData[answer] === "string" ? (assessmentData[answer] as string) : "";
+  }
+  return answers;
+}
+
+export default function SystemEditDialog({ system, onClose }: SystemEditDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<SystemForm | null>(null);
+  const [riskAnswers, setRiskAnswers] = useState<Record<string, string>>({});
+  const [changeNote, setChangeNote] = useState("");
+
+  useEffect(() => {
+    if (system) {
+      setForm(toForm(system));
+      setRiskAnswers(toRiskAnswers(system));
+      setChangeNote("");
+    }
+  }, [system]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (payload: Record<string, unknown>) => {
+      const response = await apiRequest("PATCH", `/api/ai-systems/${system!.id}`, payload);
+      return response.json() as Promise<SystemUpdateResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ai-systems"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reassessments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/certificates"] });
+
+      if (!result.version) {
+        toast({ title: "Aucune modification", description: "Le système est inchangé." });
+      } else if (result.version.isSubstantial) {
+        toast({
+          title: `Modification substantielle — version ${result.version.version}`,
+          description: `${result.revokedCertificates} certificat(s) révoqué(s). Une nouvelle évaluation de conformité est requise.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({ title: `Version ${result.version.version} enregistrée`, description: "Modification non substantielle." });
+      }
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Erreur",
+        description: "Impossible de mettre à jour le système.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!system || !form) {
+    return null;
+  }
+
+  const handleSubmit = () => {
+    const initial = toForm(system);
+    const initialAnswers = toRiskAnswers(system);
+    const payload: Record<string, unknown> = {};
+
+    for (const field of [...TEXT_FIELDS, ...LONG_TEXT_FIELDS]) {
+      if (form[field] !== initial[field]) {
+        payload[field] = field === "name" ? form[field] : form[field] || null;
+      }
+    }
+    const changedAnswers = Object.fromEntries(
+      Object.entries(riskAnswers).filter(([answer, value]) => value !== "" && value !== initialAnswers[answer])
+    );
+    if (Object.keys(changedAnswers).length > 0) {
+      payload.riskAnswers = changedAnswers;
+    }
+    if (changeNote.trim()) {
+      payload.changeNote = changeNote.trim();
+    }
+
+    updateMutation.mutate(payload);
+  };
+
+  return (
+    <Dialog open={!!system} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Modifier {system.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {TEXT_FIELDS.map(field => (
+              <div key={field} className="space-y-2">
+                <Label htmlFor={`system-${field}`}>{SYSTEM_FIELD_LABELS[field]}</Label>
+                <Input
+                  id={`system-${field}`}
+                  value={form[field]}
+                  onChange={event => setForm({ ...form, [field]: event.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+
+          {LONG_TEXT_FIELDS.map(field => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`system-${field}`}>{SYSTEM_FIELD_LABELS[field]}</Label>
+              <Textarea
+                id={`system-${field}`}
+                rows={3}
+                value={form[field]}
+                onChange={event => setForm({ ...form, [field]: event.target.value })}
+              />
+            </div>
+          ))}
+
+          <div className="border-t pt-4 space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Modifier la finalité prévue, une réponse déterminante pour le risque ou le domaine de l'Annexe III
+              constitue une modification substantielle : les certificats en cours seront révoqués et une nouvelle
+              évaluation sera requise (Art. 43(4)).
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="system-applicationDomain">{SYSTEM_FIELD_LABELS["riskAnswers.applicationDomain"]}</Label>
+              <Input
+                id="system-applicationDomain"
+                value={riskAnswers.applicationDomain}
+                onChange={event => setRiskAnswers({ ...riskAnswers, applicationDomain: event.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {Object.entries(RISK_ANSWER_OPTIONS).map(([answer, options]) => (
+                <div key={answer} className="space-y-2">
+                  <Label>{SYSTEM_FIELD_LABELS[`riskAnswers.${answer}`]}</Label>
+                  <Select
+                    value={riskAnswers[answer] || undefined}
+                    onValueChange={value => setRiskAnswers({ ...riskAnswers, [answer]: value })}
+                  >
+                    <SelectTrigger><SelectValue placeholder="Non renseigné" /></SelectTrigger>
+                    <SelectContent>
+                      {options.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="system-changeNote">Note de version</Label>
+            <Textarea
+              id="system-changeNote"
+              rows={2}
+              placeholder="Motif de la modification"
+              value={changeNote}
+              onChange={event => setChangeNote(event.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Annuler</Button>
+          <Button onClick={handleSubmit} disabled={updateMutation.isPending || !form.name.trim()}>
+            Enregistrer une nouvelle version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
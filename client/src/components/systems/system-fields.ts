@@ -0,0 +1,102 @@
+import type { OperatorRole, ProviderTrigger } from "@shared/schema";
+
+// Libellés des champs versionnés d'un système IA, des rôles d'opérateur
+// et options des réponses déterminantes pour le risque
+
+export const SYSTEM_FIELD_LABELS: Record<string, string> = {
+  name: "Nom",
+  description: "Description",
+  sector: "Secteur",
+  primaryUseCase: "Cas d'usage principal",
+  modelDetails: "Modèle",
+  dataDetails: "Données",
+  "riskAnswers.applicationDomain": "Domaine d'application",
+  "riskAnswers.userCategories": "Catégories d'utilisateurs",
+  "riskAnswers.geographicalScope": "Portée géographique",
+  "riskAnswers.sensitiveData": "Données sensibles",
+  "riskAnswers.discriminationRisk": "Risque de discrimination",
+  "riskAnswers.userInformed": "Information des utilisateurs",
+  "riskAnswers.explainabilityLevel": "Explicabilité",
+  "riskAnswers.humanOversight": "Supervision humaine",
+  "riskAnswers.overrideCapability": "Capacité de reprise en main",
+  "riskAnswers.autonomyLevel": "Autonomie",
+  "riskAnswers.safetyImpact": "Impact sur la sécurité",
+  "riskAnswers.decisionConsequences": "Conséquences des décisions",
+};
+
+export const RISK_ANSWER_OPTIONS: Record<string, { value: string; label: string }[]> = {
+  geographicalScope: [
+    { value: "eu", label: "Union européenne" },
+    { value: "national", label: "Nationale" },
+    { value: "local", label: "Locale" },
+  ],
+  sensitiveData: [
+    { value: "yes", label: "Oui" },
+    { value: "limited", label: "Limitées" },
+    { value: "no", label: "Non" },
+  ],
+  discriminationRisk: [
+    { value: "high", label: "Élevé" },
+    { value: "medium", label: "Moyen" },
+    { value: "low", label: "Faible" },
+  ],
+  userInformed: [
+    { value: "full", label: "Complète" },
+    { value: "partial", label: "Partielle" },
+    { value: "none", label: "Aucune" },
+  ],
+  explainabilityLevel: [
+    { value: "high", label: "Élevée" },
+    { value: "medium", label: "Moyenne" },
+    { value: "low", label: "Faible" },
+  ],
+  humanOversight: [
+    { value: "full", label: "Complète" },
+    { value: "intermittent", label: "Intermittente" },
+    { value: "minimal", label: "Minimale" },
+  ],
+  overrideCapability: [
+    { value: "yes", label: "Oui" },
+    { value: "limited", label: "Limitée" },
+    { value: "no", label: "Non" },
+  ],
+  autonomyLevel: [
+    { value: "high", label: "Élevée" },
+    { value: "medium", label: "Moyenne" },
+    { value: "low", label: "Faible" },
+  ],
+  safetyImpact: [
+    { value: "critical", label: "Critique" },
+    { value: "significant", label: "Significatif" },
+    { value: "minimal", label: "Minimal" },
+  ],
+  decisionConsequences: [
+    { value: "irreversible", label: "Irréversibles" },
+    { value: "reversible", label: "Réversibles" },
+    { value: "advisory", label: "Consultatives" },
+  ],
+};
+
+export function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") {
+    return "—";
+  }
+  if (Array.isArray(value)) {
+    return value.join(", ") || "—";
+  }
+  return String(value);
+}
+
+export const OPERATOR_ROLE_LABELS: Record<OperatorRole, string> = {
+  provider: "Fournisseur",
+  deployer: "Déployeur",
+  importer: "Importateur",
+  distributor: "Distributeur",
+  authorized_representative: "Mandataire",
+};
+
+export const PROVIDER_TRIGGER_LABELS: Record<ProviderTrigger, string> = {
+  own_name_or_trademark: "Commercialisation sous notre nom ou notre marque (Art. 25(1)(a))",
+  substantial_modification: "Modification substantielle d'un système à haut risque (Art. 25(1)(b))",
+  intended_purpose_change: "Changement de destination rendant le système à haut risque (Art. 25(1)(c))",
+};
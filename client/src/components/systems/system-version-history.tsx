@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import type { AiSystem, AiSystemVersion, AiSystemVersionChange } from "@shared/schema";
+import { SYSTEM_FIELD_LABELS, formatFieldValue } from "./system-fields";
+
+interface SystemVersionHistoryProps {
+  system: AiSystem | null;
+  onClose: () => void;
+}
+
+interface SystemVersionComparison {
+  changes: AiSystemVersionChange[];
+  isSubstantial: boolean;
+  substantialReasons: string[];
+}
+
+function ChangeList({ changes }: { changes: AiSystemVersionChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">Aucune différence.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {changes.map(change => (
+        <div key={change.field} className="grid grid-cols-[10rem_1fr_1fr] gap-2 text-sm">
+          <span className="font-medium text-foreground">{SYSTEM_FIELD_LABELS[change.field] || change.field}</span>
+          <span className="bg-red-50 text-red-800 rounded px-2 py-1 line-through break-words">{formatFieldValue(change.from)}</span>
+          <span className="bg-green-50 text-green-800 rounded px-2 py-1 break-words">{formatFieldValue(change.to)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function SubstantialReasons({ reasons }: { reasons: string[] }) {
+  return (
+    <ul className="text-xs text-red-700 list-disc pl-5">
+      {reasons.map(reason => <li key={reason}>{reason}</li>)}
+    </ul>
+  );
+}
+
+export default function SystemVersionHistory({ system, onClose }: SystemVersionHistoryProps) {
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+
+  const { data: versions = [] } = useQuery<AiSystemVersion[]>({
+    queryKey: ['/api/ai-systems', system?.id, 'versions'],
+    enabled: !!system,
+  });
+
+  // Par défaut, compare la première et la dernière version
+  useEffect(() => {
+    if (versions.length > 0) {
+      setFrom(versions[versions.length - 1].version);
+      setTo(versions[0].version);
+    }
+  }, [versions]);
+
+  const { data: comparison } = useQuery<SystemVersionComparison>({
+    queryKey: ['/api/ai-systems', system?.id, 'versions', `compare?from=${from}&to=${to}`],
+    enabled: !!system && from !== null && to !== null && from !== to,
+  });
+
+  if (!system) {
+    return null;
+  }
+
+  return (
+    <Dialog open={!!system} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Historique des versions — {system.name}</DialogTitle>
+        </DialogHeader>
+
+        {versions.length > 1 && (
+          <div className="border rounded-lg p-4 space-y-3" data-testid="version-compare">
+            <div className="flex items-end gap-4">
+              {[
+                { label: "De la version", value: from, onChange: setFrom },
+                { label: "À la version", value: to, onChange: setTo },
+              ].map(selector => (
+                <div key={selector.label} className="space-y-2">
+                  <Label>{selector.label}</Label>
+                  <Select
+                    value={selector.value !== null ? String(selector.value) : undefined}
+                    onValueChange={value => selector.onChange(Number(value))}
+                  >
+                    <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {versions.map(version => (
+                        <SelectItem key={version.id} value={String(version.version)}>v{version.version}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              {comparison?.isSubstantial && (
+                <Badge className="bg-red-100 text-red-800">Modification substantielle</Badge>
+              )}
+            </div>
+            {comparison && from !== to && (
+              <>
+                {comparison.isSubstantial && <SubstantialReasons reasons={comparison.substantialReasons} />}
+                <ChangeList changes={comparison.changes} />
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {versions.map(version => (
+            <div key={version.id} className="border rounded-lg p-4 space-y-2" data-testid={`version-${version.version}`}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-foreground">Version {version.version}</span>
+                  {version.isSubstantial && (
+                    <Badge className="bg-red-100 text-red-800">Modification substantielle</Badge>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {version.createdAt ? new Date(version.createdAt).toLocaleString('fr-FR') : ''}
+                </span>
+              </div>
+              {version.changeNote && <p className="text-sm text-muted-foreground">{version.changeNote}</p>}
+              {version.isSubstantial && <SubstantialReasons reasons={version.substantialReasons} />}
+              {version.changes.length > 0 && <ChangeList changes={version.changes} />}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
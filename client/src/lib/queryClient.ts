@@ -1,5 +1,21 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+const ACTIVE_ORGANIZATION_KEY = "activeOrganizationId";
+
+export function getActiveOrganizationId(): string | null {
+  return localStorage.getItem(ACTIVE_ORGANIZATION_KEY);
+}
+
+export function setActiveOrganizationId(organizationId: string) {
+  localStorage.setItem(ACTIVE_ORGANIZATION_KEY, organizationId);
+}
+
+// Organisation courante transmise au serveur pour le contrôle d'accès
+function organizationHeaders(): Record<string, string> {
+  const organizationId = getActiveOrganizationId();
+  return organizationId ? { "X-Organization-Id": organizationId } : {};
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -12,10 +28,15 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
+  // Les envois de fichiers (FormData) fixent eux-mêmes leur Content-Type multipart
+  const isFormData = data instanceof FormData;
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers: {
+      ...(data && !isFormData ? { "Content-Type": "application/json" } : {}),
+      ...organizationHeaders(),
+    },
+    body: isFormData ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
@@ -30,6 +51,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey.join("/") as string, {
+      headers: organizationHeaders(),
       credentials: "include",
     });
 
@@ -10,9 +10,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
+import SectionAssigneeSelect, { type OrganizationMember } from "@/components/assessment/section-assignee-select";
+import ReferenceRiskProfile, { DivergenceAlert, getProfileDivergence } from "@/components/assessment/reference-risk-profile";
+import type { AssessmentDraft, AssessmentDraftSection, UseCaseRiskMapping } from "@shared/schema";
 import { 
   AlertTriangle, 
   CheckCircle, 
@@ -25,7 +28,8 @@ import {
   Shield,
   Settings,
   Database,
-  Scale
+  Scale,
+  Trash2
 } from "lucide-react";
 
 // Constants for Framework v3.0
@@ -64,7 +68,8 @@ const AI_USE_CASES = [
   { value: 'other', label: 'Autre cas d\'usage' }
 ];
 
-// Framework v3.0 Risk Assessment Dimensions
+// Framework v3.0 Risk Assessment Dimensions: guided form with fixed questions, separate from the framework question bank.
+// Keep question ids in sync with ASSESSMENT_DIMENSION_QUESTIONS, which tracks draft completion server-side
 const RISK_ASSESSMENT_DIMENSIONS = [
   {
     id: 'justice_fairness',
@@ -285,10 +290,53 @@ interface AssessmentFormData {
   responses: Record<string, number>;
 }
 
+interface RenewalPrefill {
+  certificateId: string;
+  aiSystemId: string;
+  formData: Partial<AssessmentFormData>;
+}
+
+interface ReassessmentPrefill {
+  reassessmentId: string;
+  aiSystemId: string;
+  reason: string;
+  dueDate: string;
+  formData: Partial<AssessmentFormData>;
+}
+
+interface AssessmentDraftView extends AssessmentDraft {
+  sections: { section: AssessmentDraftSection; answered: number; total: number; completed: boolean; assigneeId: string | null }[];
+  completedSections: number;
+}
+
+interface DraftChanges {
+  formData?: Partial<AssessmentFormData>;
+  currentStep?: number;
+}
+
+interface CurrentOrganization {
+  id: string;
+  permissions: string[];
+}
+
+const DRAFT_AUTOSAVE_DELAY_MS = 1500;
+
+// Les réponses sont fusionnées question par question, comme côté serveur
+const mergeDraftChanges = (current: DraftChanges | null, changes: DraftChanges): DraftChanges => ({
+  ...current,
+  ...changes,
+  formData: current?.formData || changes.formData ? {
+    ...current?.formData,
+    ...changes.formData,
+    responses: { ...current?.formData?.responses, ...changes.formData?.responses },
+  } : undefined,
+});
+
 interface AssessmentResult {
   riskLevel: 'minimal' | 'limited' | 'high' | 'unacceptable';
   riskScore: number;
   reasoning: string;
+  aiNarrative?: string;
   obligations: string[];
   recommendations: string[];
   dimensionScores: Record<string, {
@@ -328,6 +376,195 @@ export default function Assessment() {
   const queryClient = useQueryClient();
   const { user } = useAuth();
 
+  // Renouvellement de certificat : réévaluation du système existant, pré-remplie
+  const [renewalCertificateId, setRenewalCertificateId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get('renewal')
+  );
+  const { data: renewalPrefill } = useQuery<RenewalPrefill>({
+    queryKey: ['/api/certificates', renewalCertificateId, 'renewal'],
+    enabled: !!renewalCertificateId,
+  });
+
+  // Réévaluation demandée suite à un insight réglementaire : brouillon pré-rempli
+  const [reassessmentId, setReassessmentId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get('reassessment')
+  );
+  const { data: reassessmentPrefill } = useQuery<ReassessmentPrefill>({
+    queryKey: ['/api/reassessments', reassessmentId],
+    enabled: !!reassessmentId,
+  });
+
+  const prefill = renewalPrefill || reassessmentPrefill;
+
+  // Brouillon enregistré côté serveur : sauvegarde automatique et reprise par lien (?draft=)
+  const [draftId, setDraftId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get('draft')
+  );
+  const draftIdRef = useRef(draftId);
+  const loadedDraftIdRef = useRef<string | null>(null);
+  const pendingDraftChangesRef = useRef<DraftChanges | null>(null);
+  const isSavingDraftRef = useRef(false);
+  const draftSaveRef = useRef<Promise<void> | null>(null);
+  const [draftChangeCount, setDraftChangeCount] = useState(0);
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+
+  const { data: draft } = useQuery<AssessmentDraftView>({
+    queryKey: ['/api/assessment-drafts', draftId],
+    enabled: !!draftId,
+  });
+  const { data: drafts = [] } = useQuery<AssessmentDraftView[]>({
+    queryKey: ['/api/assessment-drafts'],
+  });
+
+  const { data: organization } = useQuery<CurrentOrganization>({
+    queryKey: ['/api/organizations/current'],
+  });
+  const { data: members = [] } = useQuery<OrganizationMember[]>({
+    queryKey: ['/api/organizations', organization?.id, 'members'],
+    enabled: !!organization?.id,
+  });
+  const canAssignSections = !!draftId && !!organization?.permissions.includes('assessments:write');
+
+  // Profil de risque de référence du cas d'usage choisi (celui du secteur s'il existe)
+  const profileQuery = new URLSearchParams({
+    useCase: formData.primaryUseCase || '',
+    ...(formData.industrySector ? { industrySector: formData.industrySector } : {}),
+  });
+  const { data: referenceProfile } = useQuery<UseCaseRiskMapping | null>({
+    queryKey: [`/api/use-case-risk-profile?${profileQuery}`],
+    enabled: !!formData.primaryUseCase,
+  });
+
+  useEffect(() => {
+    if (!prefill) return;
+    setFormData({
+      systemName: prefill.formData.systemName || '',
+      industrySector: prefill.formData.industrySector || '',
+      primaryUseCase: prefill.formData.primaryUseCase || '',
+      responses: prefill.formData.responses || {}
+    });
+  }, [prefill]);
+
+  const openDraft = (id: string | null) => {
+    draftIdRef.current = id;
+    setDraftId(id);
+    window.history.replaceState(null, '', id ? `/assessment?draft=${id}` : '/assessment');
+  };
+
+  // Le brouillon repris n'est chargé qu'une fois, pour ne pas écraser les saisies en cours
+  useEffect(() => {
+    if (!draft || loadedDraftIdRef.current === draft.id) return;
+    loadedDraftIdRef.current = draft.id;
+    if (draft.status !== 'in_progress') {
+      toast({ title: "Brouillon déjà soumis", description: "Cette évaluation a déjà été lancée à partir de ce brouillon." });
+      openDraft(null);
+      return;
+    }
+    setFormData({
+      systemName: draft.formData.systemName || '',
+      industrySector: draft.formData.industrySector || '',
+      primaryUseCase: draft.formData.primaryUseCase || '',
+      responses: draft.formData.responses
+    });
+    setCurrentStep(Math.min(draft.currentStep, RISK_ASSESSMENT_DIMENSIONS.length - 1));
+    setDraftSavedAt(draft.updatedAt ? new Date(draft.updatedAt) : null);
+  }, [draft]);
+
+  const recordDraftChange = (changes: DraftChanges) => {
+    pendingDraftChangesRef.current = mergeDraftChanges(pendingDraftChangesRef.current, changes);
+    setDraftChangeCount(count => count + 1);
+  };
+
+  // Le brouillon est créé à la première réponse, puis seules les modifications sont envoyées
+  const saveDraft = async () => {
+    const changes = pendingDraftChangesRef.current;
+    if (!changes || isSavingDraftRef.current || (!draftIdRef.current && !changes.formData)) return;
+    pendingDraftChangesRef.current = null;
+    isSavingDraftRef.current = true;
+    let settleSave = () => {};
+    draftSaveRef.current = new Promise(resolve => { settleSave = resolve; });
+
+    try {
+      let saved: AssessmentDraftView;
+      if (draftIdRef.current) {
+        const response = await apiRequest('PATCH', `/api/assessment-drafts/${draftIdRef.current}`, changes);
+        saved = await response.json();
+      } else {
+        const response = await apiRequest('POST', '/api/assessment-drafts', {
+          formData,
+          currentStep,
+          aiSystemId: prefill?.aiSystemId ?? null,
+          reassessmentId: reassessmentPrefill?.reassessmentId ?? null
+        });
+        saved = await response.json();
+        loadedDraftIdRef.current = saved.id;
+        openDraft(saved.id);
+      }
+      queryClient.setQueryData(['/api/assessment-drafts', saved.id], saved);
+      queryClient.invalidateQueries({ queryKey: ['/api/assessment-drafts'], exact: true });
+      setDraftSavedAt(new Date());
+      if (pendingDraftChangesRef.current) {
+        setDraftChangeCount(count => count + 1);
+      }
+    } catch (error) {
+      // Les modifications non enregistrées repartiront avec la prochaine sauvegarde
+      pendingDraftChangesRef.current = mergeDraftChanges(changes, pendingDraftChangesRef.current || {});
+      toast({
+        title: "Brouillon non enregistré",
+        description: "La sauvegarde automatique a échoué ; elle sera retentée à la prochaine modification.",
+        variant: "destructive",
+      });
+    } finally {
+      isSavingDraftRef.current = false;
+      settleSave();
+    }
+  };
+
+  useEffect(() => {
+    if (draftChangeCount === 0 || isFormCompleted) return;
+    const timer = setTimeout(saveDraft, DRAFT_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draftChangeCount]);
+
+  const assignSectionMutation = useMutation({
+    mutationFn: async ({ section, assigneeId }: { section: AssessmentDraftSection; assigneeId: string | null }) => {
+      const response = await apiRequest('PUT', `/api/assessment-drafts/${draftIdRef.current}/assignments`, { section, assigneeId });
+      return response.json() as Promise<AssessmentDraftView>;
+    },
+    onSuccess: (saved, { assigneeId }) => {
+      queryClient.setQueryData(['/api/assessment-drafts', saved.id], saved);
+      queryClient.invalidateQueries({ queryKey: ['/api/assessment-drafts'], exact: true });
+      toast({
+        title: assigneeId ? "Section attribuée" : "Attribution retirée",
+        description: assigneeId ? "Le membre a été notifié avec le lien du brouillon." : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteDraftMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/assessment-drafts/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assessment-drafts'], exact: true });
+      toast({ title: "Brouillon supprimé" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const resumeDraft = (id: string) => {
+    setRenewalCertificateId(null);
+    setReassessmentId(null);
+    openDraft(id);
+  };
+
+  const sectionAssignee = (section: AssessmentDraftSection) => draft?.sectionAssignments[section] ?? null;
+
   console.log('📊 Current state:', {
     isFormCompleted,
     currentStep,
@@ -368,6 +605,20 @@ export default function Assessment() {
       }
 
       isSubmittingRef.current = true;
+
+      // Le serveur évalue les réponses enregistrées du brouillon : les dernières saisies y sont d'abord envoyées
+      await draftSaveRef.current;
+      const unsavedChanges = pendingDraftChangesRef.current;
+      pendingDraftChangesRef.current = null;
+      if (draftIdRef.current && unsavedChanges) {
+        try {
+          await apiRequest('PATCH', `/api/assessment-drafts/${draftIdRef.current}`, unsavedChanges);
+        } catch (error) {
+          pendingDraftChangesRef.current = unsavedChanges;
+          isSubmittingRef.current = false;
+          throw error;
+        }
+      }
       console.log('🚀 Starting assessment for system:', data.systemName);
       console.log('📍 Stack trace:', new Error().stack);
 
@@ -382,7 +633,11 @@ export default function Assessment() {
         // Create the API request promise with error handling
         const apiPromise = (async () => {
           try {
-            const response = await apiRequest('POST', '/api/assessments', data);
+            const response = await apiRequest('POST', '/api/assessments', {
+              ...data,
+              aiSystemId: prefill?.aiSystemId ?? draft?.aiSystemId ?? undefined,
+              draftId: draftIdRef.current ?? undefined
+            });
             const result = await response.json();
             console.log('📦 Received assessment result:', result);
             return result;
@@ -412,6 +667,9 @@ export default function Assessment() {
       setIsFormCompleted(true);
       queryClient.invalidateQueries({ queryKey: ['/api/ai-systems'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/metrics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/certificates'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reassessments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/assessment-drafts'] });
 
       toast({
         title: "Évaluation terminée",
@@ -501,10 +759,12 @@ export default function Assessment() {
     console.log(`🔄 Changing step from ${currentStep} to ${newStep}`);
     lastStepChangeRef.current = Date.now();
     setCurrentStep(newStep);
+    recordDraftChange({ currentStep: newStep });
   }, [currentStep]);
 
   const handleInputChange = (field: string, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    recordDraftChange({ formData: { [field]: value } });
   };
 
   const handleResponseChange = (questionId: string, value: number) => {
@@ -512,6 +772,7 @@ export default function Assessment() {
       ...prev,
       responses: { ...prev.responses, [questionId]: value }
     }));
+    recordDraftChange({ formData: { responses: { [questionId]: value } } });
   };
 
   const isFormValid = () => {
@@ -574,6 +835,12 @@ export default function Assessment() {
     });
     setCurrentRiskScore(0);
     setCurrentRiskLevel('minimal');
+    setRenewalCertificateId(null);
+    setReassessmentId(null);
+    openDraft(null);
+    loadedDraftIdRef.current = null;
+    pendingDraftChangesRef.current = null;
+    setDraftSavedAt(null);
     isSubmittingRef.current = false; // Reset submission flag
   };
 
@@ -636,6 +903,11 @@ export default function Assessment() {
                   <span>{getTotalProgress()}%</span>
                 </div>
                 <Progress value={getTotalProgress()} className="h-2" />
+                <p className="text-xs text-muted-foreground" data-testid="text-draft-status">
+                  {draftSavedAt
+                    ? `Brouillon enregistré automatiquement à ${draftSavedAt.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })} — vous pouvez reprendre l'évaluation plus tard.`
+                    : "Le brouillon est enregistré automatiquement dès la première réponse ; ses sections peuvent alors être attribuées à d'autres membres."}
+                </p>
                 {currentRiskScore > 0 && (
                   <div className="flex items-center gap-2 mt-3">
                     <span className="text-sm text-muted-foreground">Score de risque actuel:</span>
@@ -652,10 +924,78 @@ export default function Assessment() {
             </CardContent>
           </Card>
 
+          {!draftId && drafts.length > 0 && (
+            <Card data-testid="card-assessment-drafts">
+              <CardHeader>
+                <CardTitle>Brouillons en cours</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {drafts.map(item => {
+                  const assignedToMe = !!user && item.sections.some(section => section.assigneeId === user.id);
+                  return (
+                    <div key={item.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg" data-testid={`draft-${item.id}`}>
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-foreground">{item.formData.systemName || 'Système sans nom'}</span>
+                          {assignedToMe && <Badge variant="secondary">Sections à compléter</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {item.completedSections}/{item.sections.length} sections complètes
+                          {item.updatedAt && ` — modifié le ${new Date(item.updatedAt).toLocaleString('fr-FR')}`}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button type="button" size="sm" onClick={() => resumeDraft(item.id)} data-testid={`button-resume-draft-${item.id}`}>
+                          Reprendre
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          onClick={() => deleteDraftMutation.mutate(item.id)}
+                          disabled={deleteDraftMutation.isPending}
+                          data-testid={`button-delete-draft-${item.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+
+          {renewalPrefill && (
+            <Alert>
+              <AlertDescription>
+                Renouvellement de certificat : les réponses de la dernière évaluation sont pré-remplies.
+                Vérifiez-les avant de relancer l'évaluation, puis émettez un nouveau certificat.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {reassessmentPrefill && (
+            <Alert>
+              <AlertDescription>
+                Réévaluation requise suite à « {reassessmentPrefill.reason} » : les réponses de la dernière
+                évaluation sont pré-remplies. Mettez-les à jour avant le {new Date(reassessmentPrefill.dueDate).toLocaleDateString('fr-FR')},
+                faute de quoi le système sera marqué non conforme.
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Basic Information */}
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle>Informations de base</CardTitle>
+              <SectionAssigneeSelect
+                section="basic_information"
+                assigneeId={sectionAssignee('basic_information')}
+                members={members}
+                disabled={!canAssignSections || assignSectionMutation.isPending}
+                onChange={assigneeId => assignSectionMutation.mutate({ section: 'basic_information', assigneeId })}
+              />
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -711,6 +1051,13 @@ export default function Assessment() {
                   </Select>
                 </div>
               </div>
+              {referenceProfile && (
+                <ReferenceRiskProfile
+                  profile={referenceProfile}
+                  dimensions={RISK_ASSESSMENT_DIMENSIONS}
+                  responses={formData.responses}
+                />
+              )}
             </CardContent>
           </Card>
 
@@ -752,19 +1099,30 @@ export default function Assessment() {
 
             {RISK_ASSESSMENT_DIMENSIONS.map((dimension) => {
               const Icon = dimension.icon;
+              const divergence = referenceProfile ? getProfileDivergence(referenceProfile, dimension.id, formData.responses) : null;
               return (
                 <TabsContent key={dimension.id} value={dimension.id}>
                   <Card>
                     <CardHeader>
-                      <CardTitle className="flex items-center gap-2">
-                        <Icon className="h-5 w-5" />
-                        {dimension.name}
-                      </CardTitle>
+                      <div className="flex items-center justify-between gap-4">
+                        <CardTitle className="flex items-center gap-2">
+                          <Icon className="h-5 w-5" />
+                          {dimension.name}
+                        </CardTitle>
+                        <SectionAssigneeSelect
+                          section={dimension.id}
+                          assigneeId={sectionAssignee(dimension.id as AssessmentDraftSection)}
+                          members={members}
+                          disabled={!canAssignSections || assignSectionMutation.isPending}
+                          onChange={assigneeId => assignSectionMutation.mutate({ section: dimension.id as AssessmentDraftSection, assigneeId })}
+                        />
+                      </div>
                       <p className="text-sm text-muted-foreground">
                         {dimension.description}
                       </p>
                     </CardHeader>
                     <CardContent className="space-y-6">
+                      {divergence && <DivergenceAlert dimensionName={dimension.name} divergence={divergence} />}
                       {dimension.questions.map((question) => (
                         <div key={question.id} className="space-y-3">
                           <Label className="text-base font-medium">
@@ -904,10 +1262,18 @@ export default function Assessment() {
                   </div>
                   
                   <div className={`text-sm ${getRiskLevelConfig(assessmentResult.riskLevel).textColor}`}>
-                    <p>{assessmentResult.reasoning}</p>
+                    <p className="whitespace-pre-line">{assessmentResult.reasoning}</p>
                   </div>
                 </div>
 
+                {/* Optional LLM narrative, kept apart from the rule-based reasoning */}
+                {assessmentResult.aiNarrative && (
+                  <div data-testid="ai-narrative">
+                    <h4 className="text-lg font-semibold text-foreground mb-3">Analyse complémentaire (IA)</h4>
+                    <p className="text-sm text-muted-foreground whitespace-pre-line">{assessmentResult.aiNarrative}</p>
+                  </div>
+                )}
+
                 {/* Obligations */}
                 {assessmentResult.obligations && assessmentResult.obligations.length > 0 && (
                   <div>
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -9,7 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
-import { queryClient, apiRequest } from '@/lib/queryClient';
+import { queryClient, apiRequest, getActiveOrganizationId } from '@/lib/queryClient';
 import { 
   Award, 
   Download, 
@@ -21,7 +22,9 @@ import {
   Plus,
   Eye,
   Search,
-  Filter
+  Filter,
+  FileText,
+  RefreshCw
 } from 'lucide-react';
 
 interface ComplianceCertificate {
@@ -40,6 +43,12 @@ interface ComplianceCertificate {
   complianceDetails: any;
   certificateData: any;
   certificationHash?: string;
+  signature?: string;
+  signingKeyId?: string;
+  aiSystemId?: string;
+  revokedAt?: string;
+  revocationReason?: string;
+  renewalStartedAt?: string;
 }
 
 interface AiSystem {
@@ -47,6 +56,7 @@ interface AiSystem {
   name: string;
   description?: string;
   riskLevel?: string;
+  prohibitedPractice?: boolean;
 }
 
 interface MaturityAssessment {
@@ -57,6 +67,24 @@ interface MaturityAssessment {
   completedAt: string;
 }
 
+// Liens directs (téléchargements) : l'organisation passe en paramètre faute d'en-tête
+function certificateFileUrl(certificateId: string, kind: 'pdf' | 'export'): string {
+  const organizationId = getActiveOrganizationId();
+  const query = organizationId ? `?organizationId=${encodeURIComponent(organizationId)}` : '';
+  return `/api/certificates/${certificateId}/${kind}${query}`;
+}
+
+// Le renouvellement est proposé à partir du premier rappel (J-60)
+const RENEWAL_WINDOW_DAYS = 60;
+
+function canRenew(certificate: ComplianceCertificate): boolean {
+  if (!certificate.aiSystemId || certificate.status === 'revoked' || certificate.status === 'pending') {
+    return false;
+  }
+  const daysLeft = (new Date(certificate.validUntil).getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+  return certificate.status === 'expired' || daysLeft <= RENEWAL_WINDOW_DAYS;
+}
+
 export default function CertificatesPage() {
   const [selectedType, setSelectedType] = useState<string>('all');
   const [selectedStatus, setSelectedStatus] = useState<string>('all');
@@ -74,6 +102,7 @@ export default function CertificatesPage() {
   });
 
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
 
   // Fetch certificates
   const { data: certificates = [], isLoading: certificatesLoading } = useQuery<ComplianceCertificate[]>({
@@ -113,6 +142,25 @@ export default function CertificatesPage() {
     },
   });
 
+  // Start renewal: the new assessment is pre-filled from the latest one
+  const renewalMutation = useMutation({
+    mutationFn: async (certificateId: string) => {
+      await apiRequest('POST', `/api/certificates/${certificateId}/renewal`);
+      return certificateId;
+    },
+    onSuccess: (certificateId: string) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/certificates'] });
+      setLocation(`/assessment?renewal=${certificateId}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Renouvellement impossible',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Filter certificates
   const filteredCertificates = certificates.filter((cert: ComplianceCertificate) => {
     const matchesType = selectedType === 'all' || cert.certificateType === selectedType;
@@ -254,8 +302,13 @@ export default function CertificatesPage() {
                   <SelectContent>
                     <SelectItem value="">Aucun système IA</SelectItem>
                     {aiSystems.map((system: AiSystem) => (
-                      <SelectItem key={system.id} value={system.id}>
+                      <SelectItem
+                        key={system.id}
+                        value={system.id}
+                        disabled={system.prohibitedPractice || system.riskLevel === 'unacceptable'}
+                      >
                         {system.name} {system.riskLevel && `(${system.riskLevel})`}
+                        {(system.prohibitedPractice || system.riskLevel === 'unacceptable') && ' — pratique interdite (Art. 5)'}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -457,12 +510,32 @@ export default function CertificatesPage() {
                     variant="outline" 
                     size="sm" 
                     className="flex-1"
+                    asChild
                     data-testid={`button-download-certificate-${certificate.id}`}
                   >
-                    <Download className="h-4 w-4 mr-1" />
-                    PDF
+                    <a href={certificateFileUrl(certificate.id, 'pdf')}>
+                      <Download className="h-4 w-4 mr-1" />
+                      PDF
+                    </a>
                   </Button>
+                  {canRenew(certificate) && (
+                    <Button
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => renewalMutation.mutate(certificate.id)}
+                      disabled={renewalMutation.isPending}
+                      data-testid={`button-renew-certificate-${certificate.id}`}
+                    >
+                      <RefreshCw className="h-4 w-4 mr-1" />
+                      Renouveler
+                    </Button>
+                  )}
                 </div>
+                {certificate.renewalStartedAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Renouvellement engagé le {new Date(certificate.renewalStartedAt).toLocaleDateString('fr-FR')}
+                  </p>
+                )}
               </CardContent>
             </Card>
           ))}
@@ -520,6 +593,17 @@ export default function CertificatesPage() {
                     </span>
                   </p>
                 </div>
+                {selectedCertificate.status === 'revoked' && (
+                  <div>
+                    <Label className="text-sm font-medium text-muted-foreground">Révocation</Label>
+                    <p className="mt-1 text-red-600">
+                      {selectedCertificate.revokedAt
+                        ? `Le ${new Date(selectedCertificate.revokedAt).toLocaleDateString('fr-FR')}`
+                        : 'Révoqué'}
+                      {selectedCertificate.revocationReason && ` — ${selectedCertificate.revocationReason}`}
+                    </p>
+                  </div>
+                )}
               </div>
 
               <Tabs defaultValue="criteria" className="w-full">
@@ -592,6 +676,14 @@ export default function CertificatesPage() {
                       <Label className="text-muted-foreground">Hash de vérification</Label>
                       <p className="mt-1 font-mono text-xs">{selectedCertificate.certificationHash?.substring(0, 32)}...</p>
                     </div>
+                    <div>
+                      <Label className="text-muted-foreground">Signature Ed25519</Label>
+                      <p className="mt-1 font-mono text-xs">
+                        {selectedCertificate.signingKeyId
+                          ? `Clé ${selectedCertificate.signingKeyId.substring(0, 16)}...`
+                          : 'Certificat non signé'}
+                      </p>
+                    </div>
                     <div>
                       <Label className="text-muted-foreground">Prochaine révision</Label>
                       <p className="mt-1">
@@ -609,9 +701,19 @@ export default function CertificatesPage() {
                 <Button variant="outline" onClick={() => setViewDialogOpen(false)}>
                   Fermer
                 </Button>
-                <Button data-testid="button-download-full-certificate">
-                  <Download className="h-4 w-4 mr-2" />
-                  Télécharger PDF
+                {selectedCertificate.signature && (
+                  <Button variant="outline" asChild data-testid="button-export-signed-certificate">
+                    <a href={certificateFileUrl(selectedCertificate.id, 'export')}>
+                      <FileText className="h-4 w-4 mr-2" />
+                      Exporter (JSON signé)
+                    </a>
+                  </Button>
+                )}
+                <Button asChild data-testid="button-download-full-certificate">
+                  <a href={certificateFileUrl(selectedCertificate.id, 'pdf')}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Télécharger PDF
+                  </a>
                 </Button>
               </div>
             </div>
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -24,10 +25,7 @@ export default function Database() {
   const { data: stats } = useQuery({
     queryKey: ['/api/ai-act/statistics'],
     queryFn: async () => {
-      const response = await fetch('/api/ai-act/statistics');
-      if (!response.ok) {
-        throw new Error('Failed to fetch statistics');
-      }
+      const response = await apiRequest('GET', '/api/ai-act/statistics');
       return response.json();
     },
   });
@@ -49,10 +47,7 @@ export default function Database() {
     queryKey: ['/api/ai-act/articles', searchQuery, selectedCategory],
     queryFn: async () => {
       const url = buildQueryUrl();
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error('Failed to fetch articles');
-      }
+      const response = await apiRequest('GET', url);
       return response.json();
     },
     enabled: true,
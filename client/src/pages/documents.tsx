@@ -1,8 +1,10 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { AiSystem, GeneratedDocument } from "@shared/schema";
@@ -18,8 +20,15 @@ import {
   Plus
 } from "lucide-react";
 
+interface DocumentSuggestion {
+  documentType: string;
+  articleNumbers: string[];
+  recommended: boolean;
+}
+
 export default function Documents() {
   const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
+  const [selectedSystemId, setSelectedSystemId] = useState<string | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -31,6 +40,20 @@ export default function Documents() {
     queryKey: ['/api/ai-systems'],
   });
 
+  useEffect(() => {
+    if (!selectedSystemId && aiSystems && aiSystems.length > 0) {
+      setSelectedSystemId(aiSystems[0].id);
+    }
+  }, [aiSystems, selectedSystemId]);
+
+  const selectedSystem = aiSystems?.find(system => system.id === selectedSystemId);
+
+  // Documents pertinents selon les rôles d'opérateur du système sélectionné
+  const { data: suggestions = [] } = useQuery<DocumentSuggestion[]>({
+    queryKey: ['/api/ai-systems', selectedSystemId, 'document-suggestions'],
+    enabled: !!selectedSystemId,
+  });
+
   const generateDocumentMutation = useMutation({
     mutationFn: async (data: { systemId: string; documentType: string; title: string }) => {
       const response = await apiRequest('POST', '/api/documents/generate', data);
@@ -136,7 +159,7 @@ export default function Documents() {
   ];
 
   const handleGenerateDocument = (templateId: string) => {
-    if (!aiSystems || aiSystems.length === 0) {
+    if (!selectedSystem) {
       toast({
         title: "Aucun système IA",
         description: "Veuillez d'abord créer un système IA pour générer des documents",
@@ -145,15 +168,13 @@ export default function Documents() {
       return;
     }
 
-    // For demo, use the first AI system
-    const systemId = aiSystems[0].id;
     const template = documentTemplates.find(t => t.id === templateId);
     
     if (template) {
       generateDocumentMutation.mutate({
-        systemId,
+        systemId: selectedSystem.id,
         documentType: templateId,
-        title: `${template.title} - ${aiSystems[0].name}`
+        title: `${template.title} - ${selectedSystem.name}`
       });
     }
   };
@@ -169,10 +190,25 @@ export default function Documents() {
         </p>
       </div>
 
+      {aiSystems && aiSystems.length > 0 && (
+        <div className="mb-6 max-w-sm space-y-2">
+          <Label>Système IA</Label>
+          <Select value={selectedSystemId ?? undefined} onValueChange={setSelectedSystemId}>
+            <SelectTrigger data-testid="select-document-system"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {aiSystems.map(system => (
+                <SelectItem key={system.id} value={system.id}>{system.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       {/* Document Templates Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
         {documentTemplates.map((template, index) => {
           const Icon = template.icon;
+          const suggestion = suggestions.find(item => item.documentType === template.id);
           return (
             <Card 
               key={template.id} 
@@ -186,6 +222,16 @@ export default function Documents() {
                   </div>
                   <h3 className="font-semibold text-foreground">{template.title}</h3>
                 </div>
+
+                {suggestion && (
+                  <Badge
+                    variant="outline"
+                    className={`mb-3 ${suggestion.recommended ? 'border-green-300 text-green-800' : 'text-muted-foreground'}`}
+                    data-testid={`suggestion-${template.id}`}
+                  >
+                    {suggestion.recommended ? "Recommandé pour votre rôle" : "Non applicable à votre rôle"}
+                  </Badge>
+                )}
                 
                 <p className="text-sm text-muted-foreground mb-4">
                   {template.description}
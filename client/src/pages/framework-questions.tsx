@@ -0,0 +1,446 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { FrameworkDimensionId, FrameworkQuestion, FrameworkStrategyKey, FrameworkVersion } from "@shared/schema";
+import { BookOpen, Pencil, Plus, Send, Trash2 } from "lucide-react";
+
+type FrameworkVersionSummary = FrameworkVersion & { questionCount: number; activeQuestionCount: number };
+
+interface FrameworkVersionDetail {
+  version: FrameworkVersion;
+  questions: FrameworkQuestion[];
+  strategies: Record<FrameworkDimensionId, { key: FrameworkStrategyKey; name: string }[]>;
+}
+
+interface QuestionForm {
+  questionId: string;
+  dimension: FrameworkDimensionId;
+  strategyKey: FrameworkStrategyKey | '';
+  question: string;
+  correspondingAction: string;
+  weight: number;
+  isActive: boolean;
+}
+
+const DIMENSION_LABELS: Record<FrameworkDimensionId, string> = {
+  justice_fairness: "Justice et équité",
+  transparency_explainability: "Transparence et explicabilité",
+  human_ai_interaction: "Interaction humaine-IA",
+  social_environmental_impact: "Impact social et environnemental",
+  responsibility: "Responsabilité",
+  data_privacy: "Données et vie privée",
+  technical_robustness_security: "Robustesse technique et sécurité",
+};
+
+const STATUS_LABELS: Record<FrameworkVersion['status'], { label: string; className: string }> = {
+  draft: { label: "Brouillon", className: "bg-yellow-100 text-yellow-800" },
+  published: { label: "Publiée", className: "bg-green-100 text-green-800" },
+  archived: { label: "Archivée", className: "bg-gray-100 text-gray-800" },
+};
+
+const EMPTY_QUESTION: QuestionForm = {
+  questionId: '',
+  dimension: 'justice_fairness',
+  strategyKey: '',
+  question: '',
+  correspondingAction: '',
+  weight: 10,
+  isActive: true,
+};
+
+function toForm(question: FrameworkQuestion): QuestionForm {
+  return {
+    questionId: question.questionId,
+    dimension: question.dimension,
+    strategyKey: question.strategyKey,
+    question: question.question,
+    correspondingAction: question.correspondingAction || '',
+    weight: question.weight ?? 10,
+    isActive: question.isActive ?? true,
+  };
+}
+
+export default function FrameworkQuestions() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newVersion, setNewVersion] = useState({ version: '', description: '' });
+  const [editing, setEditing] = useState<FrameworkQuestion | 'new' | null>(null);
+  const [form, setForm] = useState<QuestionForm>(EMPTY_QUESTION);
+
+  const { data: versions = [] } = useQuery<FrameworkVersionSummary[]>({
+    queryKey: ['/api/admin/framework/versions'],
+    enabled: !!user?.isPlatformAdmin,
+  });
+
+  // Par défaut : le brouillon en cours, sinon la version publiée
+  useEffect(() => {
+    if (!selectedId && versions.length > 0) {
+      const preferred = versions.find(version => version.status === 'draft') || versions.find(version => version.status === 'published');
+      setSelectedId((preferred || versions[0]).id);
+    }
+  }, [versions, selectedId]);
+
+  const { data: detail } = useQuery<FrameworkVersionDetail>({
+    queryKey: ['/api/admin/framework/versions', selectedId],
+    enabled: !!user?.isPlatformAdmin && !!selectedId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/framework/versions'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/framework/questions'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/maturity/framework'] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Erreur", description: error.message, variant: "destructive" });
+  };
+
+  const createVersionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/framework/versions", {
+        version: newVersion.version.trim(),
+        description: newVersion.description.trim() || null,
+      });
+      return response.json() as Promise<FrameworkVersion>;
+    },
+    onSuccess: (version) => {
+      invalidate();
+      setSelectedId(version.id);
+      setNewVersion({ version: '', description: '' });
+      toast({ title: "Brouillon créé", description: `La version ${version.version} reprend les questions de la version publiée.` });
+    },
+    onError,
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/admin/framework/versions/${id}/publish`);
+      return response.json() as Promise<FrameworkVersion>;
+    },
+    onSuccess: (version) => {
+      invalidate();
+      toast({ title: "Version publiée", description: `Les nouvelles évaluations utilisent désormais la version ${version.version}.` });
+    },
+    onError,
+  });
+
+  const deleteVersionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/framework/versions/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      setSelectedId(null);
+      toast({ title: "Brouillon supprimé" });
+    },
+    onError,
+  });
+
+  const saveQuestionMutation = useMutation({
+    mutationFn: async ({ target, payload }: { target: FrameworkQuestion | 'new'; payload: QuestionForm }) => {
+      const body = { ...payload, correspondingAction: payload.correspondingAction.trim() || null };
+      return target === 'new'
+        ? apiRequest("POST", `/api/admin/framework/versions/${selectedId}/questions`, body)
+        : apiRequest("PATCH", `/api/admin/framework/questions/${target.id}`, body);
+    },
+    onSuccess: () => {
+      invalidate();
+      setEditing(null);
+      toast({ title: "Question enregistrée" });
+    },
+    onError,
+  });
+
+  const toggleQuestionMutation = useMutation({
+    mutationFn: async (question: FrameworkQuestion) =>
+      apiRequest("PATCH", `/api/admin/framework/questions/${question.id}`, { isActive: !question.isActive }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteQuestionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/framework/questions/${id}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  if (!user?.isPlatformAdmin) {
+    return (
+      <div className="container mx-auto py-8">
+        <p className="text-muted-foreground">La banque de questions est réservée aux administrateurs de la plateforme.</p>
+      </div>
+    );
+  }
+
+  const isDraft = detail?.version.status === 'draft';
+  const hasDraft = versions.some(version => version.status === 'draft');
+
+  const openEditor = (target: FrameworkQuestion | 'new') => {
+    setForm(target === 'new' ? EMPTY_QUESTION : toForm(target));
+    setEditing(target);
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-3 mb-2">
+            <BookOpen className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl font-bold text-foreground">Banque de questions du référentiel</h1>
+          </div>
+          <p className="text-muted-foreground">
+            Les questions se modifient dans une version brouillon. Une fois publiée, une version est figée : les évaluations
+            enregistrent la version utilisée et restent reproductibles.
+          </p>
+        </div>
+        <Link href="/framework/use-cases">
+          <Button variant="outline" className="shrink-0">Profils par cas d'usage</Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Versions</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {versions.map(version => (
+              <div
+                key={version.id}
+                className={`flex items-center justify-between gap-4 border rounded-lg p-3 cursor-pointer ${version.id === selectedId ? 'border-primary' : ''}`}
+                onClick={() => setSelectedId(version.id)}
+                data-testid={`framework-version-${version.version}`}
+              >
+                <div className="flex items-center gap-3">
+                  <span className="font-medium">Version {version.version}</span>
+                  <Badge className={STATUS_LABELS[version.status].className}>{STATUS_LABELS[version.status].label}</Badge>
+                  <span className="text-sm text-muted-foreground">
+                    {version.activeQuestionCount}/{version.questionCount} questions actives
+                    {version.basedOn && ` — basée sur la version ${version.basedOn}`}
+                  </span>
+                </div>
+                {version.status === 'draft' && (
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={event => { event.stopPropagation(); publishMutation.mutate(version.id); }}
+                      disabled={publishMutation.isPending}
+                      data-testid="button-publish-framework-version"
+                    >
+                      <Send className="h-4 w-4 mr-2" />
+                      Publier
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={event => { event.stopPropagation(); deleteVersionMutation.mutate(version.id); }}
+                      disabled={deleteVersionMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {!hasDraft && (
+            <div className="flex flex-wrap items-end gap-3 border-t pt-4">
+              <div className="space-y-1">
+                <Label htmlFor="framework-version">Nouvelle version</Label>
+                <Input
+                  id="framework-version"
+                  value={newVersion.version}
+                  onChange={event => setNewVersion(current => ({ ...current, version: event.target.value }))}
+                  placeholder="3.1"
+                  className="w-32"
+                />
+              </div>
+              <div className="space-y-1 flex-1 min-w-64">
+                <Label htmlFor="framework-version-description">Description</Label>
+                <Input
+                  id="framework-version-description"
+                  value={newVersion.description}
+                  onChange={event => setNewVersion(current => ({ ...current, description: event.target.value }))}
+                  placeholder="Changements apportés au référentiel"
+                />
+              </div>
+              <Button
+                onClick={() => createVersionMutation.mutate()}
+                disabled={!newVersion.version.trim() || createVersionMutation.isPending}
+                data-testid="button-create-framework-version"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Créer un brouillon
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {detail && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Questions de la version {detail.version.version}</CardTitle>
+            {isDraft && (
+              <Button size="sm" onClick={() => openEditor('new')} data-testid="button-add-framework-question">
+                <Plus className="h-4 w-4 mr-2" />
+                Ajouter une question
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {(Object.keys(DIMENSION_LABELS) as FrameworkDimensionId[]).map(dimension => {
+              const questions = detail.questions.filter(question => question.dimension === dimension);
+              return (
+                <div key={dimension} className="space-y-2">
+                  <p className="font-medium text-foreground">{DIMENSION_LABELS[dimension]}</p>
+                  {questions.length === 0 && <p className="text-sm text-muted-foreground">Aucune question.</p>}
+                  {questions.map(question => (
+                    <div key={question.id} className="flex items-start justify-between gap-4 border rounded-lg p-3 text-sm" data-testid={`framework-question-${question.questionId}`}>
+                      <div className="space-y-1">
+                        <p className={question.isActive ? '' : 'text-muted-foreground line-through'}>{question.question}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {question.questionId} — {question.strategy} — poids {question.weight ?? 10}
+                        </p>
+                      </div>
+                      {isDraft && (
+                        <div className="flex items-center gap-2 shrink-0">
+                          <Switch
+                            checked={!!question.isActive}
+                            onCheckedChange={() => toggleQuestionMutation.mutate(question)}
+                            aria-label="Question active"
+                          />
+                          <Button size="sm" variant="ghost" onClick={() => openEditor(question)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => deleteQuestionMutation.mutate(question.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={open => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? "Nouvelle question" : "Modifier la question"}</DialogTitle>
+          </DialogHeader>
+          {detail && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="question-id">Identifiant</Label>
+                  <Input
+                    id="question-id"
+                    value={form.questionId}
+                    onChange={event => setForm(current => ({ ...current, questionId: event.target.value }))}
+                    placeholder="justice_bias_detection"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="question-weight">Poids (1 à 100)</Label>
+                  <Input
+                    id="question-weight"
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={form.weight}
+                    onChange={event => setForm(current => ({ ...current, weight: parseInt(event.target.value) || 1 }))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Dimension</Label>
+                  <Select
+                    value={form.dimension}
+                    onValueChange={value => setForm(current => ({ ...current, dimension: value as FrameworkDimensionId, strategyKey: '' }))}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(DIMENSION_LABELS) as FrameworkDimensionId[]).map(dimension => (
+                        <SelectItem key={dimension} value={dimension}>{DIMENSION_LABELS[dimension]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Stratégie</Label>
+                  <Select
+                    value={form.strategyKey}
+                    onValueChange={value => setForm(current => ({ ...current, strategyKey: value as FrameworkStrategyKey }))}
+                  >
+                    <SelectTrigger><SelectValue placeholder="Choisir une stratégie" /></SelectTrigger>
+                    <SelectContent>
+                      {detail.strategies[form.dimension].map(strategy => (
+                        <SelectItem key={strategy.key} value={strategy.key}>{strategy.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="question-text">Question</Label>
+                <Textarea
+                  id="question-text"
+                  value={form.question}
+                  onChange={event => setForm(current => ({ ...current, question: event.target.value }))}
+                  rows={3}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="question-action">Action attendue</Label>
+                <Textarea
+                  id="question-action"
+                  value={form.correspondingAction}
+                  onChange={event => setForm(current => ({ ...current, correspondingAction: event.target.value }))}
+                  rows={2}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="question-active"
+                  checked={form.isActive}
+                  onCheckedChange={checked => setForm(current => ({ ...current, isActive: checked }))}
+                />
+                <Label htmlFor="question-active">Question active</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Annuler</Button>
+            <Button
+              onClick={() => editing && saveQuestionMutation.mutate({ target: editing, payload: form })}
+              disabled={!form.questionId.trim() || !form.strategyKey || !form.question.trim() || saveQuestionMutation.isPending}
+              data-testid="button-save-framework-question"
+            >
+              Enregistrer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -29,6 +29,7 @@ import {
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
+import type { FrameworkQuestion } from '@shared/schema';
 
 // Industry sectors matching shared/schema.ts industrySectorEnum exactly
 const INDUSTRY_SECTORS = [
@@ -80,159 +81,60 @@ const AI_USE_CASES = [
   { value: 'other', label: 'Autre cas d\'usage' }
 ];
 
-// Framework v3.0 Dimensions
+// Framework v3.0 Dimensions (questions, strategies and answer scale come from the question bank)
 const FRAMEWORK_DIMENSIONS = [
   {
     id: 'justice_fairness',
     name: 'Justice et équité',
     icon: Users,
-    description: 'Équité, non-discrimination et inclusion dans les systèmes IA',
-    strategies: [
-      {
-        id: 'bias_mitigation',
-        name: 'Atténuation des biais',
-        questions: [
-          {
-            id: 'bias_detection',
-            text: 'Avez-vous mis en place des mécanismes de détection automatique des biais dans vos données et modèles ?',
-            scale: ['Aucun mécanisme', 'Tests manuels occasionnels', 'Tests réguliers', 'Monitoring automatique', 'Système complet avec alertes']
-          },
-          {
-            id: 'bias_correction',
-            text: 'Quelles mesures prenez-vous pour corriger les biais identifiés ?',
-            scale: ['Aucune action', 'Corrections ad-hoc', 'Processus défini', 'Corrections automatiques', 'Système proactif complet']
-          }
-        ]
-      },
-      {
-        id: 'fairness_testing',
-        name: 'Tests d\'équité',
-        questions: [
-          {
-            id: 'fairness_metrics',
-            text: 'Utilisez-vous des métriques standardisées pour évaluer l\'équité de vos modèles ?',
-            scale: ['Aucune métrique', 'Métriques basiques', 'Métriques standards', 'Métriques avancées', 'Métriques personnalisées et validation']
-          }
-        ]
-      }
-    ]
+    description: 'Équité, non-discrimination et inclusion dans les systèmes IA'
   },
   {
     id: 'transparency_explainability',
     name: 'Transparence et explicabilité',
     icon: Lightbulb,
-    description: 'Compréhension et explicabilité des décisions IA',
-    strategies: [
-      {
-        id: 'model_interpretability',
-        name: 'Interprétabilité des modèles',
-        questions: [
-          {
-            id: 'explanation_methods',
-            text: 'Quelles méthodes d\'explication utilisez-vous pour rendre vos modèles compréhensibles ?',
-            scale: ['Aucune explication', 'Explications basiques', 'Méthodes standards (LIME, SHAP)', 'Explications avancées', 'Explications personnalisées et validées']
-          }
-        ]
-      }
-    ]
+    description: 'Compréhension et explicabilité des décisions IA'
   },
   {
     id: 'human_ai_interaction',
     name: 'Interaction humaine-IA',
     icon: Brain,
-    description: 'Collaboration efficace entre humains et systèmes IA',
-    strategies: [
-      {
-        id: 'human_oversight',
-        name: 'Supervision humaine',
-        questions: [
-          {
-            id: 'human_control',
-            text: 'Dans quelle mesure les humains conservent-ils le contrôle sur les décisions critiques du système IA ?',
-            scale: ['Contrôle minimal', 'Supervision basique', 'Contrôle significatif', 'Contrôle étendu', 'Contrôle complet avec veto']
-          }
-        ]
-      }
-    ]
+    description: 'Collaboration efficace entre humains et systèmes IA'
   },
   {
     id: 'social_environmental_impact',
     name: 'Impact social et environnemental',
     icon: TrendingUp,
-    description: 'Considération des impacts sociétaux et environnementaux',
-    strategies: [
-      {
-        id: 'impact_assessment',
-        name: 'Évaluation d\'impact',
-        questions: [
-          {
-            id: 'social_impact',
-            text: 'Évaluez-vous régulièrement l\'impact social de vos systèmes IA ?',
-            scale: ['Aucune évaluation', 'Évaluation initiale', 'Évaluations périodiques', 'Monitoring continu', 'Évaluation complète et proactive']
-          }
-        ]
-      }
-    ]
+    description: 'Considération des impacts sociétaux et environnementaux'
   },
   {
     id: 'responsibility',
     name: 'Responsabilité',
     icon: Shield,
-    description: 'Responsabilité et redevabilité dans l\'utilisation de l\'IA',
-    strategies: [
-      {
-        id: 'governance',
-        name: 'Gouvernance',
-        questions: [
-          {
-            id: 'responsibility_framework',
-            text: 'Avez-vous un cadre de gouvernance clair définissant les responsabilités pour l\'IA ?',
-            scale: ['Aucun cadre', 'Cadre informel', 'Cadre documenté', 'Cadre opérationnel', 'Cadre complet et audité']
-          }
-        ]
-      }
-    ]
+    description: 'Responsabilité et redevabilité dans l\'utilisation de l\'IA'
   },
   {
     id: 'data_privacy',
     name: 'Données et vie privée',
     icon: Settings,
-    description: 'Protection des données et respect de la vie privée',
-    strategies: [
-      {
-        id: 'privacy_protection',
-        name: 'Protection de la vie privée',
-        questions: [
-          {
-            id: 'privacy_measures',
-            text: 'Quelles mesures de protection de la vie privée avez-vous mises en place ?',
-            scale: ['Mesures basiques', 'Mesures standards', 'Mesures renforcées', 'Mesures avancées', 'Protection maximale avec anonymisation']
-          }
-        ]
-      }
-    ]
+    description: 'Protection des données et respect de la vie privée'
   },
   {
     id: 'technical_robustness_security',
     name: 'Robustesse technique et sécurité',
     icon: CheckCircle,
-    description: 'Fiabilité et sécurité technique des systèmes IA',
-    strategies: [
-      {
-        id: 'security_measures',
-        name: 'Mesures de sécurité',
-        questions: [
-          {
-            id: 'security_testing',
-            text: 'À quelle fréquence effectuez-vous des tests de sécurité sur vos systèmes IA ?',
-            scale: ['Tests rares', 'Tests annuels', 'Tests trimestriels', 'Tests mensuels', 'Tests continus automatisés']
-          }
-        ]
-      }
-    ]
+    description: 'Fiabilité et sécurité technique des systèmes IA'
   }
 ];
 
+interface FrameworkQuestionnaire {
+  version: string;
+  dimensions: {
+    id: string;
+    strategies: { key: string; name: string; questions: FrameworkQuestion[] }[];
+  }[];
+}
+
 // Zod schema for form validation
 const frameworkSchema = z.object({
   organizationName: z.string().min(1, 'Le nom de l\'organisation est requis'),
@@ -240,7 +142,7 @@ const frameworkSchema = z.object({
   systemDescription: z.string().min(10, 'Une description détaillée est requise (minimum 10 caractères)'),
   industrySector: z.string().min(1, 'Le secteur d\'activité est requis'),
   primaryUseCase: z.string().min(1, 'Le cas d\'usage principal est requis'),
-  frameworkResponses: z.record(z.number().min(0).max(4))
+  frameworkResponses: z.record(z.number().min(1).max(5))
 });
 
 type FrameworkFormData = z.infer<typeof frameworkSchema>;
@@ -277,6 +179,13 @@ export default function FrameworkAssessment() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: questionnaire } = useQuery<FrameworkQuestionnaire>({
+    queryKey: ['/api/framework/questions'],
+  });
+
+  const getStrategies = (dimensionId: string) =>
+    questionnaire?.dimensions.find(dimension => dimension.id === dimensionId)?.strategies || [];
+
   const form = useForm<FrameworkFormData>({
     resolver: zodResolver(frameworkSchema),
     defaultValues: {
@@ -291,7 +200,7 @@ export default function FrameworkAssessment() {
 
   const assessmentMutation = useMutation({
     mutationFn: async (formData: FrameworkFormData) => {
-      const response = await apiRequest('POST', '/api/assessments', formData);
+      const response = await apiRequest('POST', '/api/assessments', { ...formData, frameworkVersion: questionnaire?.version });
       return response.json();
     },
     onSuccess: (data: FrameworkAssessmentResult) => {
@@ -318,7 +227,7 @@ export default function FrameworkAssessment() {
   const onSubmit = (data: FrameworkFormData) => {
     // Validate that all questions are answered
     const totalQuestions = FRAMEWORK_DIMENSIONS.reduce((sum, dim) => 
-      sum + dim.strategies.reduce((stratSum, strat) => stratSum + strat.questions.length, 0), 0
+      sum + getStrategies(dim.id).reduce((stratSum, strat) => stratSum + strat.questions.length, 0), 0
     );
     
     // Count answered questions using flat structure
@@ -336,27 +245,22 @@ export default function FrameworkAssessment() {
     assessmentMutation.mutate(data);
   };
 
-  const handleResponseChange = (dimensionId: string, questionId: string, value: number) => {
+  const handleResponseChange = (questionId: string, value: number) => {
     const currentResponses = form.getValues('frameworkResponses');
-    // Create flat structure for backend compatibility: "dimensionId_questionId" -> response
-    const flatKey = `${dimensionId}_${questionId}`;
+    // Flat structure keyed by question bank ID: "questionId" -> response (1-5)
     const updatedResponses = {
       ...currentResponses,
-      [flatKey]: value
+      [questionId]: value
     };
     form.setValue('frameworkResponses', updatedResponses);
   };
 
   const getDimensionProgress = (dimensionId: string) => {
-    const dimension = FRAMEWORK_DIMENSIONS.find(d => d.id === dimensionId);
-    if (!dimension) return 0;
-    
-    const totalQuestions = dimension.strategies.reduce((sum, strat) => sum + strat.questions.length, 0);
+    const questions = getStrategies(dimensionId).flatMap(strat => strat.questions);
     const responses = form.getValues('frameworkResponses');
-    // Count responses for this dimension using flat key pattern
-    const answeredQuestions = Object.keys(responses).filter(key => key.startsWith(`${dimensionId}_`)).length;
+    const answeredQuestions = questions.filter(question => responses[question.questionId] !== undefined).length;
     
-    return totalQuestions > 0 ? (answeredQuestions / totalQuestions) * 100 : 0;
+    return questions.length > 0 ? (answeredQuestions / questions.length) * 100 : 0;
   };
 
   const getRiskLevelConfig = (level: string) => {
@@ -646,7 +550,10 @@ export default function FrameworkAssessment() {
           <Card>
             <CardHeader>
               <CardTitle>Évaluation par dimensions</CardTitle>
-              <p className="text-gray-600">Répondez aux questions pour chaque dimension du Framework Positive AI v3.0</p>
+              <p className="text-gray-600">
+                Répondez aux questions pour chaque dimension du Framework Positive AI
+                {questionnaire && ` (version ${questionnaire.version} du référentiel)`}
+              </p>
             </CardHeader>
             <CardContent>
               <Tabs value={activeTab} onValueChange={setActiveTab}>
@@ -680,32 +587,32 @@ export default function FrameworkAssessment() {
                       <p className="text-gray-600">{dimension.description}</p>
                     </div>
 
-                    {dimension.strategies.map((strategy) => (
-                      <Card key={strategy.id} className="border-l-4 border-l-blue-500">
+                    {getStrategies(dimension.id).map((strategy) => (
+                      <Card key={strategy.key} className="border-l-4 border-l-blue-500">
                         <CardHeader>
                           <CardTitle className="text-lg">{strategy.name}</CardTitle>
                         </CardHeader>
                         <CardContent className="space-y-4">
                           {strategy.questions.map((question) => (
-                            <div key={question.id} className="space-y-3">
-                              <Label className="text-base font-medium">{question.text}</Label>
+                            <div key={question.questionId} className="space-y-3">
+                              <Label className="text-base font-medium">{question.question}</Label>
                               <RadioGroup
-                                value={form.getValues('frameworkResponses')[`${dimension.id}_${question.id}`]?.toString() || ''}
-                                onValueChange={(value) => handleResponseChange(dimension.id, question.id, parseInt(value))}
-                                data-testid={`radio-group-${question.id}`}
+                                value={form.getValues('frameworkResponses')[question.questionId]?.toString() || ''}
+                                onValueChange={(value) => handleResponseChange(question.questionId, parseInt(value))}
+                                data-testid={`radio-group-${question.questionId}`}
                               >
-                                {question.scale.map((option, index) => (
-                                  <div key={index} className="flex items-center space-x-2">
+                                {(question.options || []).map((option) => (
+                                  <div key={option.value} className="flex items-center space-x-2">
                                     <RadioGroupItem 
-                                      value={index.toString()} 
-                                      id={`${question.id}-${index}`}
-                                      data-testid={`radio-${question.id}-${index}`}
+                                      value={option.value.toString()} 
+                                      id={`${question.questionId}-${option.value}`}
+                                      data-testid={`radio-${question.questionId}-${option.value}`}
                                     />
                                     <Label 
-                                      htmlFor={`${question.id}-${index}`}
+                                      htmlFor={`${question.questionId}-${option.value}`}
                                       className="text-sm cursor-pointer"
                                     >
-                                      {option}
+                                      {option.label}
                                     </Label>
                                   </div>
                                 ))}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import GpaiModelDialog from "@/components/gpai/gpai-model-dialog";
+import {
+  GPAI_MODALITY_LABELS,
+  SYSTEMIC_RISK_BASIS_LABELS,
+  formatFlops,
+  type GpaiModelDetails,
+} from "@/components/gpai/gpai-fields";
+import type { GpaiSystemicRiskBasis } from "@shared/schema";
+import { BrainCircuit, Pencil, Plus } from "lucide-react";
+
+interface CurrentOrganization {
+  id: string;
+  permissions: string[];
+}
+
+export default function GpaiModels() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingModel, setEditingModel] = useState<GpaiModelDetails | null>(null);
+
+  const { data: models = [], isLoading } = useQuery<GpaiModelDetails[]>({
+    queryKey: ['/api/gpai-models'],
+  });
+
+  const { data: organization } = useQuery<CurrentOrganization>({
+    queryKey: ['/api/organizations/current'],
+  });
+  const canEdit = !!organization?.permissions.includes('ai_systems:write');
+
+  const obligationMutation = useMutation({
+    mutationFn: async ({ modelId, obligationId, completed }: { modelId: string; obligationId: string; completed: boolean }) => {
+      const response = await apiRequest("PUT", `/api/gpai-models/${modelId}/obligations/${obligationId}`, { completed });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/gpai-models'] });
+    },
+    onError: () => {
+      toast({
+        title: "Erreur",
+        description: "Impossible de mettre à jour l'obligation.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (model: GpaiModelDetails | null) => {
+    setEditingModel(model);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="p-8" data-testid="page-gpai-models">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground mb-2">
+            Modèles d'IA à usage général
+          </h2>
+          <p className="text-muted-foreground">
+            Classification du risque systémique et obligations des articles 53 et 55
+          </p>
+        </div>
+        {canEdit && (
+          <Button onClick={() => openDialog(null)} data-testid="button-new-gpai-model">
+            <Plus className="h-4 w-4 mr-2" />
+            Nouveau modèle
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse text-muted-foreground">Chargement...</div>
+      ) : models.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            Aucun modèle d'IA à usage général enregistré.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {models.map(model => {
+            const applicable = model.obligations.filter(obligation => obligation.applicable);
+            const completed = applicable.filter(obligation => obligation.completed).length;
+            return (
+              <Card key={model.id} data-testid={`gpai-model-${model.id}`}>
+                <CardContent className="p-6 space-y-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                      <div className="p-3 bg-purple-50 rounded-lg">
+                        <BrainCircuit className="h-5 w-5 text-purple-600" />
+                      </div>
+                      <div>
+                        <h3 className="font-semibold text-foreground">
+                          {model.name}{model.version ? ` ${model.version}` : ''}
+                        </h3>
+                        <p className="text-xs text-muted-foreground">{formatFlops(model.trainingComputeFlops)}</p>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2 justify-end">
+                      {model.systemicRisk ? (
+                        <Badge className="bg-red-100 text-red-800">Risque systémique</Badge>
+                      ) : (
+                        <Badge className="bg-green-100 text-green-800">Sans risque systémique</Badge>
+                      )}
+                      {model.isOpenWeight && <Badge variant="outline">Open-weight</Badge>}
+                      {canEdit && (
+                        <Button size="sm" variant="outline" onClick={() => openDialog(model)}>
+                          <Pencil className="h-4 w-4 mr-2" />
+                          Modifier
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {model.systemicRiskBasis && (
+                    <p className="text-sm text-red-700">
+                      {SYSTEMIC_RISK_BASIS_LABELS[model.systemicRiskBasis as GpaiSystemicRiskBasis]}
+                      {model.designationReference ? ` — ${model.designationReference}` : ''}
+                    </p>
+                  )}
+
+                  {model.description && (
+                    <p className="text-sm text-muted-foreground">{model.description}</p>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    {model.modalities.map(modality => (
+                      <Badge key={modality} variant="outline">{GPAI_MODALITY_LABELS[modality]}</Badge>
+                    ))}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <p className="font-medium text-foreground mb-1">Systèmes IA construits sur le modèle</p>
+                      {model.aiSystems.length === 0 ? (
+                        <p className="text-muted-foreground">Aucun</p>
+                      ) : (
+                        <ul className="list-disc pl-5 text-muted-foreground">
+                          {model.aiSystems.map(system => <li key={system.id}>{system.name}</li>)}
+                        </ul>
+                      )}
+                    </div>
+                    <div>
+                      <p className="font-medium text-foreground mb-1">Systèmes en aval de fournisseurs tiers</p>
+                      {model.externalDownstreamSystems.length === 0 ? (
+                        <p className="text-muted-foreground">Aucun</p>
+                      ) : (
+                        <ul className="list-disc pl-5 text-muted-foreground">
+                          {model.externalDownstreamSystems.map(system => <li key={system}>{system}</li>)}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="border rounded-lg p-4 space-y-3" data-testid={`gpai-obligations-${model.id}`}>
+                    <div className="flex items-center justify-between">
+                      <p className="font-medium text-foreground">Obligations du fournisseur</p>
+                      <span className="text-xs text-muted-foreground">{completed}/{applicable.length} réalisées</span>
+                    </div>
+                    {model.obligations.map(obligation => (
+                      <div key={obligation.id} className={`flex items-start gap-3 ${obligation.applicable ? '' : 'opacity-50'}`}>
+                        <Checkbox
+                          id={`${model.id}-${obligation.id}`}
+                          checked={obligation.completed}
+                          disabled={!canEdit || !obligation.applicable || obligationMutation.isPending}
+                          onCheckedChange={checked => obligationMutation.mutate({
+                            modelId: model.id,
+                            obligationId: obligation.id,
+                            completed: checked === true,
+                          })}
+                        />
+                        <div>
+                          <label htmlFor={`${model.id}-${obligation.id}`} className="text-sm font-medium text-foreground">
+                            {obligation.title}
+                          </label>
+                          <p className="text-xs text-muted-foreground">
+                            {obligation.exemptionReason || obligation.description}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <GpaiModelDialog open={dialogOpen} model={editingModel} onClose={() => setDialogOpen(false)} />
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { AlertTriangle } from "lucide-react";
 import MetricsCards from "@/components/dashboard/metrics-cards";
 import RiskDistribution from "@/components/dashboard/risk-distribution";
 import ActionItems from "@/components/dashboard/action-items";
+import Reassessments from "@/components/dashboard/reassessments";
 
 interface DashboardMetrics {
   totalSystems: number;
@@ -69,6 +70,9 @@ export default function Home() {
       {/* Key Metrics */}
       <MetricsCards metrics={metrics} />
 
+      {/* Systems to reassess after a high/critical regulatory change */}
+      <Reassessments />
+
       {/* Charts and Analysis */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
         <RiskDistribution distribution={metrics?.riskDistribution} />
@@ -24,6 +24,7 @@ import {
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { Link } from 'wouter';
 
 // Constants for Framework Positive AI v3.0
 const INDUSTRY_SECTORS = [
@@ -343,6 +344,11 @@ export default function MaturityPage() {
               avec le framework Positive AI. Identifiez vos forces et axes d'amélioration.
             </p>
           </div>
+          {user?.isPlatformAdmin && (
+            <Link href="/framework/questions">
+              <Button variant="outline" data-testid="link-framework-questions">Banque de questions</Button>
+            </Link>
+          )}
           {user && (
             <div className="flex items-center gap-2 bg-card border border-border rounded-lg px-4 py-2">
               <User className="h-4 w-4 text-muted-foreground" />
@@ -11,6 +11,9 @@ import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
 import { ImpactDashboard } from "@/components/monitoring/ImpactDashboard";
 import { CardDetailModal } from "@/components/monitoring/CardDetailModal";
+import { RegulatorySourcesPanel } from "@/components/monitoring/RegulatorySourcesPanel";
+import { SyncRunHistory } from "@/components/monitoring/SyncRunHistory";
+import { ActionKanban } from "@/components/monitoring/ActionKanban";
 import {
   Target,
   AlertTriangle,
@@ -25,28 +28,30 @@ import {
   BarChart3,
   Settings,
   ArrowRight,
-  ExternalLink
+  ExternalLink,
+  Rss
 } from "lucide-react";
 
 // Types pour la veille proactive
 interface PersonalizedRegulatoryUpdate {
   id: string;
   title: string;
-  content: string;
+  content: string | null;
   source: string;
-  severity: string;
+  impactLevel: string | null;
   publishedAt: string;
-  url: string;
+  url: string | null;
   userContext: {
     relevanceScore: number;
     urgencyLevel: 'immediate' | 'high' | 'medium' | 'low';
-    estimatedImpact: number;
+    estimatedImpact: number | null;
     impactedSystemsCount: number;
   };
   actionPlan: {
     priorityActionsCount: number;
-    estimatedEffort: string;
-    budgetImpact: string;
+    completedActionsCount: number;
+    estimatedEffort: string | null;
+    budgetImpact: string | null;
   };
 }
 
@@ -110,6 +115,7 @@ export default function ProactiveMonitoring() {
   const [selectedUrgency, setSelectedUrgency] = useState("all");
   const [selectedCardType, setSelectedCardType] = useState<string | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
+  const [selectedInsight, setSelectedInsight] = useState<{ id: string; title: string } | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { user, isAuthenticated } = useAuth();
@@ -117,74 +123,11 @@ export default function ProactiveMonitoring() {
   // Récupérer l'ID utilisateur depuis l'authentification
   const userId = user?.id;
 
-  // Données simulées pour démonstration immédiate
-  const personalizedUpdates: PersonalizedRegulatoryUpdate[] = [
-    {
-      id: '1',
-      title: 'Nouvelles exigences de transparence pour les systèmes IA à haut risque',
-      description: 'La Commission européenne a publié des lignes directrices détaillées sur les obligations de transparence pour les systèmes IA classés à haut risque selon l\'Acte sur l\'IA.',
-      source: 'Commission Européenne',
-      severity: 'high',
-      category: 'transparency',
-      publishedAt: new Date('2025-10-01'),
-      url: 'https://ec.europa.eu/ai-transparency-guidelines',
-      userContext: {
-        relevanceScore: 92,
-        urgencyLevel: 'immediate' as any,
-        estimatedImpact: 85,
-        impactedSystemsCount: 2,
-      },
-      actionPlan: {
-        priorityActionsCount: 4,
-        estimatedEffort: '2 semaines',
-        budgetImpact: 'Modéré',
-      },
-    },
-    {
-      id: '2',
-      title: 'Mise à jour des standards de documentation technique',
-      description: 'Nouvelles exigences pour la documentation technique des systèmes IA, incluant les processus de validation et les métriques de performance.',
-      source: 'CNIL',
-      severity: 'medium',
-      category: 'documentation',
-      publishedAt: new Date('2025-09-28'),
-      url: 'https://cnil.fr/ai-documentation-standards',
-      userContext: {
-        relevanceScore: 78,
-        urgencyLevel: 'high' as any,
-        estimatedImpact: 65,
-        impactedSystemsCount: 3,
-      },
-      actionPlan: {
-        priorityActionsCount: 3,
-        estimatedEffort: '1 semaine',
-        budgetImpact: 'Faible',
-      },
-    },
-    {
-      id: '3',
-      title: 'Obligations de surveillance post-déploiement renforcées',
-      description: 'Nouvelles directives sur la surveillance continue des systèmes IA en production, incluant la détection de dérives et les mesures correctives.',
-      source: 'EUR-Lex',
-      severity: 'high',
-      category: 'monitoring',
-      publishedAt: new Date('2025-09-25'),
-      url: 'https://eur-lex.europa.eu/ai-monitoring-obligations',
-      userContext: {
-        relevanceScore: 88,
-        urgencyLevel: 'high' as any,
-        estimatedImpact: 75,
-        impactedSystemsCount: 1,
-      },
-      actionPlan: {
-        priorityActionsCount: 5,
-        estimatedEffort: '3 semaines',
-        budgetImpact: 'Élevé',
-      },
-    },
-  ];
-
-  const updatesLoading = false;
+  // Insights personnalisés enregistrés pour l'organisation
+  const { data: personalizedUpdates = [], isLoading: updatesLoading } = useQuery<PersonalizedRegulatoryUpdate[]>({
+    queryKey: ['/api/regulatory/personalized-updates'],
+    enabled: isAuthenticated,
+  });
 
   // Simulation du dashboard d'impact
   const impactDashboard: ImpactDashboard = {
@@ -233,7 +176,11 @@ export default function ProactiveMonitoring() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/regulatory/personalized-updates'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/action-items'] });
       queryClient.invalidateQueries({ queryKey: ['/api/regulatory/impact-dashboard'] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/regulatory/sync-runs') });
+      queryClient.invalidateQueries({ queryKey: ['/api/regulatory/metrics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/regulatory/sources'] });
       toast({
         title: "Analyse personnalisée terminée",
         description: `${data.actionableInsights} insights actionnables générés avec ${data.totalActions} actions`,
@@ -356,7 +303,7 @@ export default function ProactiveMonitoring() {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="dashboard" className="flex items-center gap-2">
             <BarChart3 className="h-4 w-4" />
             Dashboard d'impact
@@ -373,6 +320,10 @@ export default function ProactiveMonitoring() {
             <Calendar className="h-4 w-4" />
             Timeline
           </TabsTrigger>
+          <TabsTrigger value="sources" className="flex items-center gap-2">
+            <Rss className="h-4 w-4" />
+            Sources
+          </TabsTrigger>
         </TabsList>
 
         {/* ONGLET 1: DASHBOARD D'IMPACT */}
@@ -400,6 +351,12 @@ export default function ProactiveMonitoring() {
 
         {/* ONGLET 2: ACTIONS PRIORITAIRES */}
         <TabsContent value="actions" className="space-y-6">
+          <ActionKanban
+            insightId={selectedInsight?.id}
+            insightTitle={selectedInsight?.title}
+            onClearInsight={() => setSelectedInsight(null)}
+          />
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -431,7 +388,7 @@ export default function ProactiveMonitoring() {
                             {update.userContext.urgencyLevel.toUpperCase()}
                           </Badge>
                           <span className="text-sm text-muted-foreground">
-                            Impact: {update.userContext.estimatedImpact}%
+                            Impact: {update.userContext.estimatedImpact ?? 0}%
                           </span>
                         </div>
                         <div className="text-right">
@@ -457,17 +414,26 @@ export default function ProactiveMonitoring() {
                           </span>
                           <span className="flex items-center gap-1">
                             <Target className="h-4 w-4" />
-                            {update.actionPlan.priorityActionsCount} action(s)
+                            {update.actionPlan.completedActionsCount}/{update.actionPlan.priorityActionsCount} action(s)
                           </span>
                         </div>
                         <div className="flex gap-2">
-                          <Button variant="outline" size="sm">
-                            <ExternalLink className="h-3 w-3 mr-1" />
-                            Voir détails
-                          </Button>
-                          <Button size="sm" className="bg-blue-600 hover:bg-blue-700">
+                          {update.url && (
+                            <Button variant="outline" size="sm" asChild>
+                              <a href={update.url} target="_blank" rel="noopener noreferrer">
+                                <ExternalLink className="h-3 w-3 mr-1" />
+                                Voir détails
+                              </a>
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            className="bg-blue-600 hover:bg-blue-700"
+                            onClick={() => setSelectedInsight({ id: update.id, title: update.title })}
+                            data-testid={`button-show-plan-${update.id}`}
+                          >
                             <ArrowRight className="h-3 w-3 mr-1" />
-                            Générer plan
+                            Suivre le plan
                           </Button>
                         </div>
                       </div>
@@ -555,7 +521,7 @@ export default function ProactiveMonitoring() {
                       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-3 bg-muted/30 rounded">
                         <div className="text-center">
                           <p className="text-lg font-bold text-blue-600">
-                            {update.userContext.estimatedImpact}%
+                            {update.userContext.estimatedImpact ?? 0}%
                           </p>
                           <p className="text-xs text-muted-foreground">Impact estimé</p>
                         </div>
@@ -573,7 +539,7 @@ export default function ProactiveMonitoring() {
                         </div>
                         <div className="text-center">
                           <p className="text-sm font-bold text-purple-600">
-                            {update.actionPlan.budgetImpact}
+                            {update.actionPlan.budgetImpact || '—'}
                           </p>
                           <p className="text-xs text-muted-foreground">Impact budget</p>
                         </div>
@@ -675,6 +641,12 @@ export default function ProactiveMonitoring() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* ONGLET 5: SOURCES DE VEILLE */}
+        <TabsContent value="sources" className="space-y-6">
+          <SyncRunHistory />
+          <RegulatorySourcesPanel canManage={!!user?.isPlatformAdmin} />
+        </TabsContent>
       </Tabs>
 
       {/* Modal de détail des cartes */}
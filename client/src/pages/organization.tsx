@@ -0,0 +1,412 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, setActiveOrganizationId } from "@/lib/queryClient";
+import type { AssessmentMode, OrganizationRole } from "@shared/schema";
+import { Building2, UserPlus, Trash2, Users, Plus, Settings2 } from "lucide-react";
+
+interface OrganizationSummary {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+  roleLabel: string;
+}
+
+interface CurrentOrganization extends OrganizationSummary {
+  assessmentMode: AssessmentMode;
+  permissions: string[];
+}
+
+interface OrganizationMember {
+  id: string;
+  userId: string;
+  role: OrganizationRole;
+  createdAt: string;
+  user: {
+    id: string;
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+  };
+}
+
+const roleLabels: Record<OrganizationRole, string> = {
+  owner: "Propriétaire",
+  compliance_officer: "Responsable conformité",
+  assessor: "Évaluateur",
+  viewer: "Lecteur",
+  auditor: "Auditeur",
+};
+
+const roleDescriptions: Record<OrganizationRole, string> = {
+  owner: "Contrôle total, gestion des membres",
+  compliance_officer: "Pilote la conformité et émet les certificats",
+  assessor: "Renseigne les systèmes, évaluations et preuves",
+  viewer: "Consultation seule",
+  auditor: "Consultation, rapports et journal d'audit",
+};
+
+const assessmentModeLabels: Record<AssessmentMode, { label: string; description: string }> = {
+  deterministic: {
+    label: "Déterministe",
+    description: "Raisonnement à base de règles uniquement, sans aucun appel à un LLM (environnements isolés)",
+  },
+  llm_enriched: {
+    label: "Enrichi par LLM",
+    description: "Raisonnement à base de règles, complété par une analyse rédigée par le LLM configuré lorsqu'il est disponible",
+  },
+};
+
+export default function Organization() {
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>("viewer");
+  const [newOrganizationName, setNewOrganizationName] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: organizations } = useQuery<OrganizationSummary[]>({
+    queryKey: ['/api/organizations'],
+  });
+
+  const { data: current, isLoading } = useQuery<CurrentOrganization>({
+    queryKey: ['/api/organizations/current'],
+  });
+
+  const canManage = current?.permissions.includes('organization:manage') ?? false;
+
+  const { data: members } = useQuery<OrganizationMember[]>({
+    queryKey: ['/api/organizations', current?.id, 'members'],
+    enabled: !!current?.id,
+  });
+
+  const invalidateMembers = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/organizations', current?.id, 'members'] });
+  };
+
+  const onMutationError = (error: Error) => {
+    toast({
+      title: "Erreur",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const switchOrganization = (organizationId: string) => {
+    setActiveOrganizationId(organizationId);
+    // Toutes les données dépendent de l'organisation active
+    queryClient.invalidateQueries();
+  };
+
+  const createOrganizationMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest('POST', '/api/organizations', { name });
+      return response.json();
+    },
+    onSuccess: (organization) => {
+      setNewOrganizationName("");
+      switchOrganization(organization.id);
+      toast({
+        title: "Organisation créée",
+        description: `${organization.name} est maintenant l'organisation active`,
+      });
+    },
+    onError: onMutationError,
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (data: { email: string; role: OrganizationRole }) => {
+      const response = await apiRequest('POST', `/api/organizations/${current!.id}/members`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      setInviteEmail("");
+      invalidateMembers();
+      toast({
+        title: "Membre ajouté",
+        description: "Le membre a été ajouté à l'organisation",
+      });
+    },
+    onError: onMutationError,
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async (data: { userId: string; role: OrganizationRole }) => {
+      const response = await apiRequest('PATCH', `/api/organizations/${current!.id}/members/${data.userId}`, { role: data.role });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateMembers();
+      toast({
+        title: "Rôle mis à jour",
+        description: "Le rôle du membre a été modifié",
+      });
+    },
+    onError: onMutationError,
+  });
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (assessmentMode: AssessmentMode) => {
+      const response = await apiRequest('PATCH', '/api/organizations/current/settings', { assessmentMode });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organizations/current'] });
+      toast({
+        title: "Paramètres mis à jour",
+        description: "Le mode d'évaluation s'applique aux prochaines évaluations",
+      });
+    },
+    onError: onMutationError,
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest('DELETE', `/api/organizations/${current!.id}/members/${userId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateMembers();
+      toast({
+        title: "Membre retiré",
+        description: "Le membre n'a plus accès à l'organisation",
+      });
+    },
+    onError: onMutationError,
+  });
+
+  const handleRemove = (member: OrganizationMember) => {
+    if (!confirm(`Retirer ${member.user.email} de l'organisation ?`)) {
+      return;
+    }
+    removeMemberMutation.mutate(member.userId);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-pulse text-lg">Chargement...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6" data-testid="page-organization">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Organisation</h1>
+        <p className="text-muted-foreground">
+          Gérez les membres et leurs rôles. Tous les systèmes IA, évaluations et certificats sont partagés au sein de l'organisation.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            Organisation active
+          </CardTitle>
+          <CardDescription>
+            Votre rôle : <Badge variant="secondary">{current ? roleLabels[current.role] : '—'}</Badge>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Select value={current?.id} onValueChange={switchOrganization}>
+            <SelectTrigger className="max-w-md" data-testid="select-organization">
+              <SelectValue placeholder="Choisir une organisation" />
+            </SelectTrigger>
+            <SelectContent>
+              {organizations?.map((organization) => (
+                <SelectItem key={organization.id} value={organization.id}>
+                  {organization.name} ({organization.roleLabel})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <form
+            className="flex gap-2 max-w-md"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newOrganizationName.trim()) {
+                createOrganizationMutation.mutate(newOrganizationName.trim());
+              }
+            }}
+          >
+            <Input
+              placeholder="Nom de la nouvelle organisation"
+              value={newOrganizationName}
+              onChange={(e) => setNewOrganizationName(e.target.value)}
+              data-testid="input-new-organization"
+            />
+            <Button type="submit" variant="outline" disabled={createOrganizationMutation.isPending}>
+              <Plus className="h-4 w-4 mr-2" />
+              Créer
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Settings2 className="h-5 w-5" />
+            Mode d'évaluation
+          </CardTitle>
+          <CardDescription>
+            Le niveau de risque et les scores sont toujours calculés par des règles déterministes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {canManage ? (
+            <Select
+              value={current?.assessmentMode}
+              onValueChange={(value) => updateSettingsMutation.mutate(value as AssessmentMode)}
+              disabled={updateSettingsMutation.isPending}
+            >
+              <SelectTrigger className="max-w-md" data-testid="select-assessment-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(assessmentModeLabels) as AssessmentMode[]).map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {assessmentModeLabels[mode].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            current && <Badge variant="outline">{assessmentModeLabels[current.assessmentMode].label}</Badge>
+          )}
+          {current && (
+            <p className="text-sm text-muted-foreground">{assessmentModeLabels[current.assessmentMode].description}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserPlus className="h-5 w-5" />
+              Ajouter un membre
+            </CardTitle>
+            <CardDescription>
+              La personne doit déjà disposer d'un compte sur la plateforme.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="grid gap-4 md:grid-cols-[1fr_240px_auto] items-end"
+              onSubmit={(e) => {
+                e.preventDefault();
+                addMemberMutation.mutate({ email: inviteEmail, role: inviteRole });
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="invite-email">Email</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  required
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  data-testid="input-invite-email"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Rôle</Label>
+                <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as OrganizationRole)}>
+                  <SelectTrigger data-testid="select-invite-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(roleLabels) as OrganizationRole[]).map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {roleLabels[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" disabled={addMemberMutation.isPending} data-testid="button-add-member">
+                Ajouter
+              </Button>
+            </form>
+            <p className="text-sm text-muted-foreground mt-3">{roleDescriptions[inviteRole]}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Membres ({members?.length ?? 0})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="divide-y divide-border">
+            {members?.map((member) => {
+              const displayName = [member.user.firstName, member.user.lastName].filter(Boolean).join(' ');
+              return (
+                <div
+                  key={member.userId}
+                  className="flex items-center justify-between py-3"
+                  data-testid={`member-${member.userId}`}
+                >
+                  <div>
+                    <p className="font-medium">{displayName || member.user.email}</p>
+                    {displayName && <p className="text-sm text-muted-foreground">{member.user.email}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {canManage ? (
+                      <>
+                        <Select
+                          value={member.role}
+                          onValueChange={(value) => updateRoleMutation.mutate({ userId: member.userId, role: value as OrganizationRole })}
+                        >
+                          <SelectTrigger className="w-[220px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(roleLabels) as OrganizationRole[]).map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {roleLabels[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRemove(member)}
+                          disabled={removeMemberMutation.isPending}
+                          data-testid={`button-remove-${member.userId}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </>
+                    ) : (
+                      <Badge variant="outline">{roleLabels[member.role]}</Badge>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
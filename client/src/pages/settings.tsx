@@ -10,6 +10,7 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import PersonalAccessTokens from "@/components/settings/personal-access-tokens";
 import { 
   Bot, 
   Key, 
@@ -133,7 +134,7 @@ export default function Settings() {
     <div className="p-8" data-testid="page-settings">
       <div className="mb-8">
         <h2 className="text-3xl font-bold text-foreground mb-2">Paramètres</h2>
-        <p className="text-muted-foreground">Configuration LLM et gestion des API</p>
+        <p className="text-muted-foreground">Configuration LLM, gestion des API et accès MCP</p>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -432,6 +433,11 @@ export default function Settings() {
             </div>
           </CardContent>
         </Card>
+
+        {/* Personal access tokens for the assistant MCP server */}
+        <div className="lg:col-span-2">
+          <PersonalAccessTokens />
+        </div>
       </div>
     </div>
   );
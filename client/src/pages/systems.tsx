@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import SystemEditDialog from "@/components/systems/system-edit-dialog";
+import SystemVersionHistory from "@/components/systems/system-version-history";
+import AssessmentComparison from "@/components/systems/assessment-comparison";
+import AssessmentSimulator from "@/components/systems/assessment-simulator";
+import OperatorRolesDialog from "@/components/systems/operator-roles-dialog";
+import InventoryImportDialog from "@/components/systems/inventory-import-dialog";
+import ProhibitedPracticesDialog from "@/components/systems/prohibited-practices-dialog";
+import HighRiskClassificationDialog from "@/components/systems/high-risk-classification-dialog";
+import { OPERATOR_ROLE_LABELS, PROVIDER_TRIGGER_LABELS } from "@/components/systems/system-fields";
+import type { AiSystem, ProviderTrigger } from "@shared/schema";
+import { Ban, Cpu, Download, FlaskConical, GitCompare, History, Pencil, Scale, Upload, Users } from "lucide-react";
+
+interface CurrentOrganization {
+  id: string;
+  permissions: string[];
+}
+
+const RISK_LEVEL_LABELS: Record<string, { label: string; className: string }> = {
+  unacceptable: { label: "Inacceptable", className: "bg-red-100 text-red-800" },
+  high: { label: "Haut risque", className: "bg-orange-100 text-orange-800" },
+  limited: { label: "Risque limité", className: "bg-yellow-100 text-yellow-800" },
+  minimal: { label: "Risque minimal", className: "bg-green-100 text-green-800" },
+};
+
+export default function Systems() {
+  const [editingSystem, setEditingSystem] = useState<AiSystem | null>(null);
+  const [historySystem, setHistorySystem] = useState<AiSystem | null>(null);
+  const [comparisonSystem, setComparisonSystem] = useState<AiSystem | null>(null);
+  const [simulationSystem, setSimulationSystem] = useState<AiSystem | null>(null);
+  const [rolesSystem, setRolesSystem] = useState<AiSystem | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [screeningSystem, setScreeningSystem] = useState<AiSystem | null>(null);
+  const [classificationSystem, setClassificationSystem] = useState<AiSystem | null>(null);
+  const { toast } = useToast();
+
+  const { data: systems = [], isLoading } = useQuery<AiSystem[]>({
+    queryKey: ['/api/ai-systems'],
+  });
+
+  const { data: organization } = useQuery<CurrentOrganization>({
+    queryKey: ['/api/organizations/current'],
+  });
+  const canEdit = !!organization?.permissions.includes('ai_systems:write');
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    try {
+      const response = await apiRequest('GET', `/api/ai-systems/export?format=${format}`);
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `inventaire.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      toast({ title: "Erreur", description: "Impossible d'exporter l'inventaire.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="p-8" data-testid="page-systems">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground mb-2">
+            Systèmes IA
+          </h2>
+          <p className="text-muted-foreground">
+            Rôles d'opérateur, versions successives et modifications substantielles (Art. 43(4))
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => handleExport('xlsx')} data-testid="button-export-xlsx">
+            <Download className="h-4 w-4 mr-2" />
+            XLSX
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('csv')} data-testid="button-export-csv">
+            <Download className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+          {canEdit && (
+            <Button onClick={() => setImportOpen(true)} data-testid="button-import-inventory">
+              <Upload className="h-4 w-4 mr-2" />
+              Importer
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse text-muted-foreground">Chargement...</div>
+      ) : systems.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            Aucun système IA. Réalisez une évaluation des risques pour en déclarer un.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {systems.map(system => {
+            const risk = system.riskLevel ? RISK_LEVEL_LABELS[system.riskLevel] : null;
+            return (
+              <Card key={system.id} data-testid={`system-${system.id}`}>
+                <CardContent className="p-6 space-y-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                      <div className="p-3 bg-blue-50 rounded-lg">
+                        <Cpu className="h-5 w-5 text-blue-600" />
+                      </div>
+                      <div>
+                        <h3 className="font-semibold text-foreground">{system.name}</h3>
+                        <p className="text-xs text-muted-foreground">
+                          Version {system.currentVersion}
+                          {system.externalId ? ` · ${system.externalId}` : ''}
+                          {system.sector ? ` · ${system.sector}` : ''}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2 justify-end">
+                      {risk && <Badge className={risk.className}>{risk.label}</Badge>}
+                      {system.prohibitedPractice && (
+                        <Badge className="bg-red-100 text-red-800">Pratique interdite (Art. 5)</Badge>
+                      )}
+                      {system.reassessmentRequired && (
+                        <Badge className="bg-red-100 text-red-800">Réévaluation requise</Badge>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    {system.operatorRoles.map(role => (
+                      <Badge key={role} variant="outline">{OPERATOR_ROLE_LABELS[role]}</Badge>
+                    ))}
+                    {system.providerTrigger && (
+                      <Badge variant="outline" className="border-orange-300 text-orange-800">
+                        Fournisseur — {PROVIDER_TRIGGER_LABELS[system.providerTrigger as ProviderTrigger]}
+                      </Badge>
+                    )}
+                  </div>
+
+                  {system.description && (
+                    <p className="text-sm text-muted-foreground line-clamp-3">{system.description}</p>
+                  )}
+
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setHistorySystem(system)}>
+                      <History className="h-4 w-4 mr-2" />
+                      Historique
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setComparisonSystem(system)}>
+                      <GitCompare className="h-4 w-4 mr-2" />
+                      Évaluations
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setSimulationSystem(system)}>
+                      <FlaskConical className="h-4 w-4 mr-2" />
+                      Simuler
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setScreeningSystem(system)}>
+                      <Ban className="h-4 w-4 mr-2" />
+                      Art. 5
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setClassificationSystem(system)}>
+                      <Scale className="h-4 w-4 mr-2" />
+                      Art. 6
+                    </Button>
+                    {canEdit && (
+                      <>
+                        <Button size="sm" variant="outline" onClick={() => setRolesSystem(system)}>
+                          <Users className="h-4 w-4 mr-2" />
+                          Rôles
+                        </Button>
+                        <Button size="sm" onClick={() => setEditingSystem(system)}>
+                          <Pencil className="h-4 w-4 mr-2" />
+                          Modifier
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <SystemEditDialog system={editingSystem} onClose={() => setEditingSystem(null)} />
+      <SystemVersionHistory system={historySystem} onClose={() => setHistorySystem(null)} />
+      <AssessmentComparison system={comparisonSystem} onClose={() => setComparisonSystem(null)} />
+      <AssessmentSimulator system={simulationSystem} onClose={() => setSimulationSystem(null)} />
+      <OperatorRolesDialog system={rolesSystem} onClose={() => setRolesSystem(null)} />
+      <InventoryImportDialog open={importOpen} onClose={() => setImportOpen(false)} />
+      <ProhibitedPracticesDialog system={screeningSystem} canEdit={canEdit} onClose={() => setScreeningSystem(null)} />
+      <HighRiskClassificationDialog system={classificationSystem} canEdit={canEdit} onClose={() => setClassificationSystem(null)} />
+    </div>
+  );
+}
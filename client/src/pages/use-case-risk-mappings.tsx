@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RISK_LEVEL_LABELS } from "@/components/assessment/reference-risk-profile";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { FrameworkDimensionId, FrameworkRiskLevel, UseCaseRiskLevels, UseCaseRiskMapping } from "@shared/schema";
+import { Map as MapIcon, Pencil, Plus, Trash2 } from "lucide-react";
+
+// Industry sectors matching shared/schema.ts industrySectorEnum exactly
+const INDUSTRY_SECTORS = [
+  { value: "finance_banking", label: "Banque et finance" },
+  { value: "healthcare_medical", label: "Santé et sciences de la vie" },
+  { value: "education_training", label: "Éducation et formation" },
+  { value: "transportation_automotive", label: "Transport et logistique" },
+  { value: "retail_ecommerce", label: "Commerce et distribution" },
+  { value: "manufacturing_industrial", label: "Industrie manufacturière" },
+  { value: "energy_utilities", label: "Énergie et utilities" },
+  { value: "telecommunications", label: "Télécommunications et médias" },
+  { value: "insurance", label: "Assurance et protection sociale" },
+  { value: "real_estate", label: "Immobilier et foncier" },
+  { value: "agriculture", label: "Agriculture et agroalimentaire" },
+  { value: "legal_services", label: "Services juridiques" },
+  { value: "media_entertainment", label: "Divertissement et culture" },
+  { value: "government_public_sector", label: "Administration publique" },
+  { value: "defense_security", label: "Défense et sécurité" },
+  { value: "research_development", label: "Recherche et développement" },
+  { value: "consulting_professional_services", label: "Conseil et services professionnels" },
+  { value: "technology_software", label: "Technologies de l'information" },
+  { value: "logistics_supply_chain", label: "Logistique et chaîne d'approvisionnement" },
+  { value: "hospitality_tourism", label: "Tourisme et hôtellerie" },
+  { value: "non_profit", label: "Associations et ONG" },
+  { value: "other", label: "Autre secteur" }
+];
+
+// AI use cases matching shared/schema.ts aiUseCaseEnum exactly
+const AI_USE_CASES = [
+  { value: "claims_management", label: "Gestion des réclamations" },
+  { value: "talent_acquisition_recruitment", label: "Recrutement et gestion des talents" },
+  { value: "pricing_personalization", label: "Optimisation des prix et personnalisation" },
+  { value: "marketing_personalization", label: "Personnalisation marketing" },
+  { value: "customer_service_chatbot", label: "Service client automatisé (chatbots, assistants)" },
+  { value: "fraud_detection", label: "Détection de fraude et sécurité" },
+  { value: "risk_assessment", label: "Évaluation et gestion des risques" },
+  { value: "decision_support", label: "Aide à la décision" },
+  { value: "predictive_analytics", label: "Analyse prédictive et forecasting" },
+  { value: "image_recognition", label: "Reconnaissance d'images et vision par ordinateur" },
+  { value: "natural_language_processing", label: "Traitement du langage naturel (NLP)" },
+  { value: "recommendation_systems", label: "Systèmes de recommandation" },
+  { value: "automated_decision_making", label: "Prise de décision automatisée" },
+  { value: "biometric_identification", label: "Identification biométrique" },
+  { value: "content_moderation", label: "Modération de contenu" },
+  { value: "quality_control", label: "Contrôle qualité et inspection automatisée" },
+  { value: "supply_chain_optimization", label: "Optimisation de chaîne d'approvisionnement" },
+  { value: "medical_diagnosis", label: "Diagnostic médical et aide à la décision clinique" },
+  { value: "financial_trading", label: "Trading algorithmique et gestion d'actifs" },
+  { value: "other", label: "Autre cas d'usage" }
+];
+
+const DIMENSIONS: { id: FrameworkDimensionId; name: string }[] = [
+  { id: "justice_fairness", name: "Justice et équité" },
+  { id: "transparency_explainability", name: "Transparence et explicabilité" },
+  { id: "human_ai_interaction", name: "Interaction humaine-IA" },
+  { id: "social_environmental_impact", name: "Impact social et environnemental" },
+  { id: "responsibility", name: "Responsabilité" },
+  { id: "data_privacy", name: "Données et vie privée" },
+  { id: "technical_robustness_security", name: "Robustesse technique et sécurité" },
+];
+
+const RISK_LEVELS = Object.keys(RISK_LEVEL_LABELS) as FrameworkRiskLevel[];
+const ALL_SECTORS = "all";
+
+interface MappingForm {
+  useCase: string;
+  industrySector: string;
+  customerRiskLevels: UseCaseRiskLevels;
+  employeeRiskLevels: UseCaseRiskLevels;
+  description: string;
+  remarks: string;
+  isActive: boolean;
+}
+
+const uniformLevels = (level: FrameworkRiskLevel) =>
+  Object.fromEntries(DIMENSIONS.map(dimension => [dimension.id, level])) as UseCaseRiskLevels;
+
+const EMPTY_MAPPING: MappingForm = {
+  useCase: "",
+  industrySector: ALL_SECTORS,
+  customerRiskLevels: uniformLevels("minimal"),
+  employeeRiskLevels: uniformLevels("minimal"),
+  description: "",
+  remarks: "",
+  isActive: true,
+};
+
+function toForm(mapping: UseCaseRiskMapping): MappingForm {
+  return {
+    useCase: mapping.useCase,
+    industrySector: mapping.industrySector || ALL_SECTORS,
+    customerRiskLevels: mapping.customerRiskLevels,
+    employeeRiskLevels: mapping.employeeRiskLevels,
+    description: mapping.description || "",
+    remarks: mapping.remarks || "",
+    isActive: mapping.isActive ?? true,
+  };
+}
+
+const labelOf = (options: { value: string; label: string }[], value: string | null) =>
+  options.find(option => option.value === value)?.label || value;
+
+function LevelSelect({ value, onChange }: { value: FrameworkRiskLevel; onChange: (level: FrameworkRiskLevel) => void }) {
+  return (
+    <Select value={value} onValueChange={level => onChange(level as FrameworkRiskLevel)}>
+      <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+      <SelectContent>
+        {RISK_LEVELS.map(level => (
+          <SelectItem key={level} value={level}>{RISK_LEVEL_LABELS[level].label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function UseCaseRiskMappings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<UseCaseRiskMapping | "new" | null>(null);
+  const [form, setForm] = useState<MappingForm>(EMPTY_MAPPING);
+
+  const { data: mappings = [] } = useQuery<UseCaseRiskMapping[]>({
+    queryKey: ["/api/admin/use-case-risk-mappings"],
+    enabled: !!user?.isPlatformAdmin,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/use-case-risk-mappings"] });
+    // Les profils de référence affichés dans l'évaluation sont mis en cache par cas d'usage et secteur
+    queryClient.invalidateQueries({
+      predicate: query => String(query.queryKey[0]).startsWith("/api/use-case-risk-profile"),
+    });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Erreur", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ target, payload }: { target: UseCaseRiskMapping | "new"; payload: MappingForm }) => {
+      const body = {
+        ...payload,
+        industrySector: payload.industrySector === ALL_SECTORS ? null : payload.industrySector,
+        description: payload.description.trim() || null,
+        remarks: payload.remarks.trim() || null,
+      };
+      return target === "new"
+        ? apiRequest("POST", "/api/admin/use-case-risk-mappings", body)
+        : apiRequest("PATCH", `/api/admin/use-case-risk-mappings/${target.id}`, body);
+    },
+    onSuccess: () => {
+      invalidate();
+      setEditing(null);
+      toast({ title: "Profil de référence enregistré" });
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (mapping: UseCaseRiskMapping) =>
+      apiRequest("PATCH", `/api/admin/use-case-risk-mappings/${mapping.id}`, { isActive: !mapping.isActive }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/use-case-risk-mappings/${id}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  if (!user?.isPlatformAdmin) {
+    return (
+      <div className="container mx-auto py-8">
+        <p className="text-muted-foreground">Les profils de référence sont réservés aux administrateurs de la plateforme.</p>
+      </div>
+    );
+  }
+
+  const openEditor = (target: UseCaseRiskMapping | "new") => {
+    setForm(target === "new" ? EMPTY_MAPPING : toForm(target));
+    setEditing(target);
+  };
+
+  const setLevel = (population: "customerRiskLevels" | "employeeRiskLevels", dimension: FrameworkDimensionId, level: FrameworkRiskLevel) => {
+    setForm(current => ({ ...current, [population]: { ...current[population], [dimension]: level } }));
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-3 mb-2">
+            <MapIcon className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl font-bold text-foreground">Profils de risque par cas d'usage</h1>
+          </div>
+          <p className="text-muted-foreground">
+            Niveaux de risque attendus sur chaque dimension, pour les clients et pour les collaborateurs. Ils sont affichés
+            lors de l'évaluation d'un système, qui signale les réponses en net décalage avec le profil.
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Link href="/framework/questions">
+            <Button variant="outline">Banque de questions</Button>
+          </Link>
+          <Button onClick={() => openEditor("new")} data-testid="button-add-use-case-mapping">
+            <Plus className="h-4 w-4 mr-2" />
+            Ajouter un profil
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Profils de référence</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {mappings.length === 0 && <p className="text-sm text-muted-foreground">Aucun profil de référence.</p>}
+          {mappings.map(mapping => (
+            <div key={mapping.id} className="flex items-start justify-between gap-4 border rounded-lg p-3 text-sm" data-testid={`use-case-mapping-${mapping.id}`}>
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className={mapping.isActive ? "font-medium" : "font-medium text-muted-foreground line-through"}>
+                    {labelOf(AI_USE_CASES, mapping.useCase)}
+                  </span>
+                  <Badge variant="outline">{mapping.industrySector ? labelOf(INDUSTRY_SECTORS, mapping.industrySector) : "Tous secteurs"}</Badge>
+                </div>
+                {mapping.description && <p className="text-xs text-muted-foreground">{mapping.description}</p>}
+                <div className="flex flex-wrap gap-1">
+                  {DIMENSIONS.map(dimension => (
+                    <Badge key={dimension.id} variant="outline" className={RISK_LEVEL_LABELS[mapping.customerRiskLevels[dimension.id]].className}>
+                      {dimension.name} : {RISK_LEVEL_LABELS[mapping.customerRiskLevels[dimension.id]].label} / {RISK_LEVEL_LABELS[mapping.employeeRiskLevels[dimension.id]].label}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Switch checked={!!mapping.isActive} onCheckedChange={() => toggleMutation.mutate(mapping)} aria-label="Profil actif" />
+                <Button size="sm" variant="ghost" onClick={() => openEditor(mapping)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => deleteMutation.mutate(mapping.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">Niveaux affichés : clients / collaborateurs.</p>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={open => !open && setEditing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Nouveau profil de référence" : "Modifier le profil de référence"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Cas d'usage</Label>
+                <Select value={form.useCase} onValueChange={useCase => setForm(current => ({ ...current, useCase }))}>
+                  <SelectTrigger><SelectValue placeholder="Choisir un cas d'usage" /></SelectTrigger>
+                  <SelectContent>
+                    {AI_USE_CASES.map(useCase => (
+                      <SelectItem key={useCase.value} value={useCase.value}>{useCase.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Secteur</Label>
+                <Select value={form.industrySector} onValueChange={industrySector => setForm(current => ({ ...current, industrySector }))}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_SECTORS}>Tous secteurs</SelectItem>
+                    {INDUSTRY_SECTORS.map(sector => (
+                      <SelectItem key={sector.value} value={sector.value}>{sector.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_10rem_10rem] gap-2 text-xs font-medium text-muted-foreground">
+                <span>Dimension</span>
+                <span>Clients</span>
+                <span>Collaborateurs</span>
+              </div>
+              {DIMENSIONS.map(dimension => (
+                <div key={dimension.id} className="grid grid-cols-[1fr_10rem_10rem] gap-2 items-center text-sm">
+                  <span>{dimension.name}</span>
+                  <LevelSelect value={form.customerRiskLevels[dimension.id]} onChange={level => setLevel("customerRiskLevels", dimension.id, level)} />
+                  <LevelSelect value={form.employeeRiskLevels[dimension.id]} onChange={level => setLevel("employeeRiskLevels", dimension.id, level)} />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="mapping-description">Description</Label>
+              <Textarea
+                id="mapping-description"
+                value={form.description}
+                onChange={event => setForm(current => ({ ...current, description: event.target.value }))}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="mapping-remarks">Remarques</Label>
+              <Textarea
+                id="mapping-remarks"
+                value={form.remarks}
+                onChange={event => setForm(current => ({ ...current, remarks: event.target.value }))}
+                rows={2}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="mapping-active"
+                checked={form.isActive}
+                onCheckedChange={checked => setForm(current => ({ ...current, isActive: checked }))}
+              />
+              <Label htmlFor="mapping-active">Profil actif</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Annuler</Button>
+            <Button
+              onClick={() => editing && saveMutation.mutate({ target: editing, payload: form })}
+              disabled={!form.useCase || saveMutation.isPending}
+              data-testid="button-save-use-case-mapping"
+            >
+              Enregistrer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
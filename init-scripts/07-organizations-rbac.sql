@@ -0,0 +1,78 @@
+-- Script pour ajouter les organisations et le contrôle d'accès par rôle
+-- Chaque utilisateur existant reçoit une organisation personnelle dont il est propriétaire,
+-- et ses systèmes IA, évaluations et certificats y sont rattachés.
+
+DO $$ BEGIN
+    CREATE TYPE "organization_role" AS ENUM('owner', 'compliance_officer', 'assessor', 'viewer', 'auditor');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TYPE security_event_type ADD VALUE IF NOT EXISTS 'organization_created';
+ALTER TYPE security_event_type ADD VALUE IF NOT EXISTS 'organization_member_added';
+ALTER TYPE security_event_type ADD VALUE IF NOT EXISTS 'organization_member_role_changed';
+ALTER TYPE security_event_type ADD VALUE IF NOT EXISTS 'organization_member_removed';
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS is_platform_admin BOOLEAN DEFAULT false;
+
+-- Organizations table
+CREATE TABLE IF NOT EXISTS organizations (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR NOT NULL,
+    created_by VARCHAR REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Organization Memberships table
+CREATE TABLE IF NOT EXISTS organization_memberships (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id VARCHAR NOT NULL REFERENCES organizations(id),
+    user_id VARCHAR NOT NULL REFERENCES users(id),
+    role organization_role NOT NULL DEFAULT 'viewer',
+    invited_by VARCHAR REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_memberships_user_id ON organization_memberships(user_id);
+
+ALTER TABLE ai_systems
+  ADD COLUMN IF NOT EXISTS organization_id VARCHAR REFERENCES organizations(id);
+
+ALTER TABLE risk_assessments
+  ADD COLUMN IF NOT EXISTS organization_id VARCHAR REFERENCES organizations(id);
+
+ALTER TABLE compliance_certificates
+  ADD COLUMN IF NOT EXISTS organization_id VARCHAR REFERENCES organizations(id);
+
+CREATE INDEX IF NOT EXISTS idx_ai_systems_organization_id ON ai_systems(organization_id);
+CREATE INDEX IF NOT EXISTS idx_risk_assessments_organization_id ON risk_assessments(organization_id);
+CREATE INDEX IF NOT EXISTS idx_compliance_certificates_organization_id ON compliance_certificates(organization_id);
+
+-- Organisation personnelle pour chaque utilisateur sans appartenance
+INSERT INTO organizations (name, created_by)
+SELECT COALESCE(NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), ''), u.email), u.id
+FROM users u
+WHERE NOT EXISTS (SELECT 1 FROM organization_memberships m WHERE m.user_id = u.id);
+
+INSERT INTO organization_memberships (organization_id, user_id, role)
+SELECT o.id, o.created_by, 'owner'
+FROM organizations o
+WHERE o.created_by IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM organization_memberships m WHERE m.user_id = o.created_by);
+
+-- Rattacher les données existantes à l'organisation personnelle de leur auteur
+UPDATE ai_systems s SET organization_id = m.organization_id
+FROM organization_memberships m
+WHERE s.organization_id IS NULL AND m.user_id = s.user_id AND m.role = 'owner';
+
+UPDATE risk_assessments r SET organization_id = m.organization_id
+FROM organization_memberships m
+WHERE r.organization_id IS NULL AND m.user_id = r.user_id AND m.role = 'owner';
+
+UPDATE compliance_certificates c SET organization_id = m.organization_id
+FROM organization_memberships m
+WHERE c.organization_id IS NULL AND m.user_id = c.user_id AND m.role = 'owner';
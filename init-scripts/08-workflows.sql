@@ -0,0 +1,70 @@
+-- Script pour ajouter le moteur de workflows persistant
+-- Définitions de workflows, exécutions et exécutions d'étapes
+
+DO $$ BEGIN
+    CREATE TYPE "workflow_execution_status" AS ENUM('running', 'awaiting_input', 'completed', 'failed', 'cancelled');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE "workflow_step_status" AS ENUM('pending', 'running', 'awaiting_input', 'completed', 'failed', 'skipped');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Workflow Definitions table
+CREATE TABLE IF NOT EXISTS workflow_definitions (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id VARCHAR NOT NULL REFERENCES organizations(id),
+    name VARCHAR NOT NULL,
+    description TEXT,
+    version INTEGER DEFAULT 1,
+    configuration JSONB NOT NULL,
+    is_active BOOLEAN DEFAULT true,
+    created_by VARCHAR REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_definitions_organization_id ON workflow_definitions(organization_id);
+
+-- Workflow Executions table
+CREATE TABLE IF NOT EXISTS workflow_executions (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    workflow_definition_id VARCHAR NOT NULL REFERENCES workflow_definitions(id),
+    organization_id VARCHAR NOT NULL REFERENCES organizations(id),
+    ai_system_id VARCHAR REFERENCES ai_systems(id),
+    started_by VARCHAR NOT NULL REFERENCES users(id),
+    status workflow_execution_status DEFAULT 'running',
+    current_step_index INTEGER DEFAULT 0,
+    input_data JSONB,
+    variables JSONB,
+    output_data JSONB,
+    error TEXT,
+    started_at TIMESTAMP DEFAULT NOW(),
+    completed_at TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_organization_id ON workflow_executions(organization_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_status ON workflow_executions(status);
+
+-- Workflow Step Executions table
+CREATE TABLE IF NOT EXISTS workflow_step_executions (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    workflow_execution_id VARCHAR NOT NULL REFERENCES workflow_executions(id),
+    step_id VARCHAR NOT NULL,
+    step_type VARCHAR NOT NULL,
+    step_index INTEGER NOT NULL,
+    status workflow_step_status DEFAULT 'pending',
+    input_data JSONB,
+    output_data JSONB,
+    errors JSONB,
+    warnings JSONB,
+    completed_by VARCHAR REFERENCES users(id),
+    started_at TIMESTAMP DEFAULT NOW(),
+    completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_step_executions_execution_id ON workflow_step_executions(workflow_execution_id);
@@ -0,0 +1,22 @@
+-- Script pour ajouter les pièces justificatives (preuves) des enregistrements de conformité
+-- Les fichiers sont stockés hors base ; la table conserve l'empreinte SHA-256 et le type MIME détecté
+
+CREATE TABLE IF NOT EXISTS evidence_attachments (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id VARCHAR NOT NULL REFERENCES organizations(id),
+    ai_system_id VARCHAR NOT NULL REFERENCES ai_systems(id),
+    compliance_record_id VARCHAR REFERENCES compliance_records(id),
+    article_id VARCHAR REFERENCES ai_act_articles(id),
+    uploaded_by VARCHAR NOT NULL REFERENCES users(id),
+    file_name VARCHAR NOT NULL,
+    storage_key VARCHAR NOT NULL UNIQUE,
+    mime_type VARCHAR NOT NULL,
+    declared_mime_type VARCHAR,
+    size_bytes INTEGER NOT NULL,
+    sha256 VARCHAR(64) NOT NULL,
+    description TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_evidence_attachments_ai_system_id ON evidence_attachments(ai_system_id);
+CREATE INDEX IF NOT EXISTS idx_evidence_attachments_compliance_record_id ON evidence_attachments(compliance_record_id);
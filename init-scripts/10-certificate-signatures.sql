@@ -0,0 +1,9 @@
+-- Script pour ajouter la signature Ed25519 des certificats de conformité
+-- Les clés privées restent sur disque (CERTIFICATE_KEYS_DIR), seules la signature et l'identifiant de clé sont en base
+
+ALTER TABLE compliance_certificates ADD COLUMN IF NOT EXISTS signature TEXT;
+ALTER TABLE compliance_certificates ADD COLUMN IF NOT EXISTS signing_key_id VARCHAR;
+
+CREATE INDEX IF NOT EXISTS idx_compliance_certificates_signing_key_id ON compliance_certificates(signing_key_id);
+
+ALTER TYPE security_event_type ADD VALUE IF NOT EXISTS 'certificate_signing_key_rotated';
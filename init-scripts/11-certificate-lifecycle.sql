@@ -0,0 +1,34 @@
+-- Script pour le cycle de vie des certificats : expiration planifiée, rappels de renouvellement,
+-- révocation motivée (liste publiée sous /.well-known/certificate-revocations.json) et notifications
+
+ALTER TABLE compliance_certificates ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP;
+ALTER TABLE compliance_certificates ADD COLUMN IF NOT EXISTS revocation_reason TEXT;
+ALTER TABLE compliance_certificates ADD COLUMN IF NOT EXISTS renewal_started_at TIMESTAMP;
+ALTER TABLE compliance_certificates ADD COLUMN IF NOT EXISTS renewal_started_by VARCHAR REFERENCES users(id);
+
+CREATE INDEX IF NOT EXISTS idx_compliance_certificates_status_valid_until ON compliance_certificates(status, valid_until);
+
+CREATE TABLE IF NOT EXISTS certificate_reminders (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  certificate_id VARCHAR NOT NULL REFERENCES compliance_certificates(id),
+  threshold_days INTEGER NOT NULL,
+  sent_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (certificate_id, threshold_days)
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id),
+  organization_id VARCHAR REFERENCES organizations(id),
+  type VARCHAR NOT NULL,
+  title VARCHAR NOT NULL,
+  message TEXT NOT NULL,
+  link VARCHAR,
+  metadata JSONB,
+  read_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id);
+
+ALTER TYPE security_event_type ADD VALUE IF NOT EXISTS 'certificate_revoked';
@@ -0,0 +1,42 @@
+-- Script pour les sources de veille réglementaire déclarées en base (registre de connecteurs)
+-- Les connecteurs rss et html permettent d'ajouter des autorités nationales sans code
+
+DO $$ BEGIN
+    CREATE TYPE "regulatory_connector_type" AS ENUM('eurlex', 'cnil', 'ec_ai_office', 'rss', 'html');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS regulatory_sources (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  key VARCHAR NOT NULL UNIQUE,
+  name VARCHAR NOT NULL,
+  connector_type regulatory_connector_type NOT NULL,
+  url VARCHAR NOT NULL,
+  feed_url VARCHAR,
+  selectors JSONB,
+  keywords JSONB,
+  source_type VARCHAR NOT NULL DEFAULT 'national_other',
+  language VARCHAR NOT NULL DEFAULT 'EN',
+  document_type VARCHAR NOT NULL DEFAULT 'guidance',
+  polling_interval_minutes INTEGER NOT NULL DEFAULT 1440,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  last_polled_at TIMESTAMP,
+  last_status VARCHAR,
+  last_error TEXT,
+  last_item_count INTEGER,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Sources intégrées (auparavant codées dans l'agent collecteur)
+INSERT INTO regulatory_sources (key, name, connector_type, url, source_type, language, document_type) VALUES
+  ('eurlex', 'EUR-Lex', 'eurlex', 'https://eur-lex.europa.eu', 'official_eu', 'FR', 'regulation'),
+  ('cnil', 'CNIL', 'cnil', 'https://www.cnil.fr/fr/intelligence-artificielle', 'national_fr', 'FR', 'guidance'),
+  ('ec-ai-office', 'Commission Européenne - AI Office', 'ec_ai_office', 'https://digital-strategy.ec.europa.eu/en/policies/ai-office', 'official_eu', 'FR', 'guidance')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TYPE security_event_type ADD VALUE IF NOT EXISTS 'regulatory_source_created';
+ALTER TYPE security_event_type ADD VALUE IF NOT EXISTS 'regulatory_source_updated';
+ALTER TYPE security_event_type ADD VALUE IF NOT EXISTS 'regulatory_source_deleted';
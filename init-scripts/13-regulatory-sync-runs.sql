@@ -0,0 +1,33 @@
+-- Script pour l'historique des passages de veille réglementaire (planifiés et à la demande)
+-- Les métriques de monitoring (latence, taux d'erreur, pertinence) sont calculées à partir de cet historique
+
+DO $$ BEGIN
+    CREATE TYPE "regulatory_sync_run_status" AS ENUM('running', 'completed', 'failed');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE "regulatory_sync_trigger" AS ENUM('scheduled', 'manual', 'personalized');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS regulatory_sync_runs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  trigger regulatory_sync_trigger NOT NULL,
+  status regulatory_sync_run_status NOT NULL DEFAULT 'running',
+  triggered_by VARCHAR REFERENCES users(id),
+  sources JSONB,
+  source_status JSONB,
+  total_collected INTEGER NOT NULL DEFAULT 0,
+  total_analyzed INTEGER NOT NULL DEFAULT 0,
+  total_insights INTEGER NOT NULL DEFAULT 0,
+  average_relevance_score INTEGER,
+  duration_ms INTEGER,
+  error TEXT,
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_regulatory_sync_runs_started_at ON regulatory_sync_runs(started_at);
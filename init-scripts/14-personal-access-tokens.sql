@@ -0,0 +1,22 @@
+-- Script pour les jetons d'accès personnels du serveur MCP de l'assistant (agents de code, IDE)
+-- Seule l'empreinte SHA-256 du jeton est stockée
+
+CREATE TABLE IF NOT EXISTS personal_access_tokens (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id),
+  name VARCHAR NOT NULL,
+  token_prefix VARCHAR NOT NULL,
+  token_hash VARCHAR NOT NULL UNIQUE,
+  scopes JSONB NOT NULL,
+  expires_at TIMESTAMP,
+  last_used_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_personal_access_tokens_user_id ON personal_access_tokens(user_id);
+
+ALTER TYPE security_event_type ADD VALUE IF NOT EXISTS 'personal_access_token_created';
+ALTER TYPE security_event_type ADD VALUE IF NOT EXISTS 'personal_access_token_revoked';
+ALTER TYPE security_event_type ADD VALUE IF NOT EXISTS 'mcp_tool_called';
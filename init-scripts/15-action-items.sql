@@ -0,0 +1,85 @@
+-- Script pour les insights personnalisés enregistrés et les tâches issues de leurs plans d'actions
+-- (assignation, statut, échéance, dépendances et historique de commentaires)
+
+CREATE TABLE IF NOT EXISTS regulatory_insights (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id),
+  regulatory_update_id VARCHAR REFERENCES regulatory_updates(id),
+  generated_for VARCHAR REFERENCES users(id),
+  source VARCHAR NOT NULL,
+  title TEXT NOT NULL,
+  summary TEXT,
+  url VARCHAR,
+  impact_level VARCHAR,
+  relevance_score INTEGER NOT NULL DEFAULT 0,
+  urgency_level VARCHAR NOT NULL,
+  estimated_impact INTEGER,
+  impacted_system_ids JSONB,
+  estimated_effort VARCHAR,
+  budget_impact VARCHAR,
+  action_plan JSONB,
+  published_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_regulatory_insights_organization_id ON regulatory_insights(organization_id);
+
+DO $$ BEGIN
+    CREATE TYPE "action_item_status" AS ENUM('todo', 'in_progress', 'blocked', 'done');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE "action_item_comment_kind" AS ENUM('comment', 'status_change', 'assignment', 'due_date_change');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS action_items (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id),
+  insight_id VARCHAR REFERENCES regulatory_insights(id),
+  ai_system_id VARCHAR REFERENCES ai_systems(id),
+  generated_action_id VARCHAR,
+  title TEXT NOT NULL,
+  description TEXT,
+  category VARCHAR NOT NULL DEFAULT 'compliance',
+  priority VARCHAR NOT NULL DEFAULT 'medium',
+  impact_level VARCHAR,
+  status action_item_status NOT NULL DEFAULT 'todo',
+  assignee_id VARCHAR REFERENCES users(id),
+  suggested_owner VARCHAR,
+  due_date TIMESTAMP,
+  estimated_hours INTEGER,
+  required_skills JSONB,
+  resources JSONB,
+  prerequisites JSONB,
+  created_by VARCHAR REFERENCES users(id),
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_action_items_organization_id ON action_items(organization_id);
+CREATE INDEX IF NOT EXISTS idx_action_items_insight_id ON action_items(insight_id);
+
+CREATE TABLE IF NOT EXISTS action_item_dependencies (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  action_item_id VARCHAR NOT NULL REFERENCES action_items(id) ON DELETE CASCADE,
+  depends_on_id VARCHAR NOT NULL REFERENCES action_items(id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (action_item_id, depends_on_id)
+);
+
+CREATE TABLE IF NOT EXISTS action_item_comments (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  action_item_id VARCHAR NOT NULL REFERENCES action_items(id) ON DELETE CASCADE,
+  author_id VARCHAR REFERENCES users(id),
+  kind action_item_comment_kind NOT NULL DEFAULT 'comment',
+  body TEXT NOT NULL,
+  metadata JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_action_item_comments_action_item_id ON action_item_comments(action_item_id);
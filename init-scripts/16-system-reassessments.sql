@@ -0,0 +1,31 @@
+-- Script pour les réévaluations déclenchées par les insights réglementaires d'impact élevé ou critique
+-- Le système passe en non_compliant si la réévaluation n'est pas faite avant l'échéance
+
+ALTER TABLE ai_systems ADD COLUMN IF NOT EXISTS reassessment_required BOOLEAN NOT NULL DEFAULT false;
+
+DO $$ BEGIN
+    CREATE TYPE "reassessment_status" AS ENUM('pending', 'overdue', 'completed');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS system_reassessments (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  ai_system_id VARCHAR NOT NULL REFERENCES ai_systems(id),
+  organization_id VARCHAR REFERENCES organizations(id),
+  insight_id VARCHAR REFERENCES regulatory_insights(id),
+  reason TEXT NOT NULL,
+  impact_level VARCHAR NOT NULL,
+  status reassessment_status NOT NULL DEFAULT 'pending',
+  previous_assessment_id VARCHAR REFERENCES risk_assessments(id),
+  draft_form_data JSONB,
+  owner_id VARCHAR NOT NULL REFERENCES users(id),
+  due_date TIMESTAMP NOT NULL,
+  completed_assessment_id VARCHAR REFERENCES risk_assessments(id),
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_system_reassessments_ai_system_id ON system_reassessments(ai_system_id);
+CREATE INDEX IF NOT EXISTS idx_system_reassessments_status ON system_reassessments(status);
@@ -0,0 +1,21 @@
+-- Script pour l'historique immuable des versions des systèmes IA
+-- et la détection des modifications substantielles (Art. 43(4))
+
+ALTER TABLE ai_systems ADD COLUMN IF NOT EXISTS model_details TEXT;
+ALTER TABLE ai_systems ADD COLUMN IF NOT EXISTS data_details TEXT;
+ALTER TABLE ai_systems ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS ai_system_versions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  ai_system_id VARCHAR NOT NULL REFERENCES ai_systems(id),
+  organization_id VARCHAR REFERENCES organizations(id),
+  version INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  changes JSONB NOT NULL DEFAULT '[]',
+  is_substantial BOOLEAN NOT NULL DEFAULT false,
+  substantial_reasons JSONB NOT NULL DEFAULT '[]',
+  change_note TEXT,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (ai_system_id, version)
+);
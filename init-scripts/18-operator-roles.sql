@@ -0,0 +1,5 @@
+-- Script pour les rôles d'opérateur de chaque système IA (fournisseur, déployeur,
+-- importateur, distributeur, mandataire) et les cas de l'article 25(1)
+
+ALTER TABLE ai_systems ADD COLUMN IF NOT EXISTS operator_roles JSONB NOT NULL DEFAULT '["provider"]';
+ALTER TABLE ai_systems ADD COLUMN IF NOT EXISTS provider_trigger VARCHAR;
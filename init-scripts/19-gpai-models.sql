@@ -0,0 +1,26 @@
+-- Script pour le registre des modèles d'IA à usage général (Art. 51-55)
+-- et le lien entre les systèmes IA et le modèle sur lequel ils sont construits
+
+CREATE TABLE IF NOT EXISTS gpai_models (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id),
+  name VARCHAR NOT NULL,
+  version VARCHAR,
+  description TEXT,
+  training_compute_flops DOUBLE PRECISION,
+  modalities JSONB NOT NULL DEFAULT '[]',
+  is_open_weight BOOLEAN NOT NULL DEFAULT false,
+  commission_designated BOOLEAN NOT NULL DEFAULT false,
+  designation_reference VARCHAR,
+  external_downstream_systems JSONB NOT NULL DEFAULT '[]',
+  systemic_risk BOOLEAN NOT NULL DEFAULT false,
+  systemic_risk_basis VARCHAR,
+  completed_obligations JSONB NOT NULL DEFAULT '[]',
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gpai_models_organization_id ON gpai_models(organization_id);
+
+ALTER TABLE ai_systems ADD COLUMN IF NOT EXISTS gpai_model_id VARCHAR REFERENCES gpai_models(id);
@@ -0,0 +1,10 @@
+-- Script pour l'import et l'export de l'inventaire des systèmes IA :
+-- identifiant externe (inventaire de l'organisation) utilisé pour la mise à jour des systèmes existants
+
+ALTER TABLE ai_systems ADD COLUMN IF NOT EXISTS external_id VARCHAR;
+
+DO $$ BEGIN
+    ALTER TABLE ai_systems ADD CONSTRAINT ai_systems_organization_id_external_id_unique UNIQUE (organization_id, external_id);
+EXCEPTION
+    WHEN duplicate_object OR duplicate_table THEN null;
+END $$;
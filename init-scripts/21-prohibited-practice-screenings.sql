@@ -0,0 +1,17 @@
+-- Script pour l'examen des systèmes IA au regard des pratiques interdites (Art. 5(1))
+
+CREATE TABLE IF NOT EXISTS prohibited_practice_screenings (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  ai_system_id VARCHAR NOT NULL REFERENCES ai_systems(id),
+  organization_id VARCHAR REFERENCES organizations(id),
+  answers JSONB NOT NULL,
+  outcome VARCHAR NOT NULL,
+  prohibited_practices JSONB NOT NULL DEFAULT '[]',
+  trace JSONB NOT NULL,
+  screened_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prohibited_practice_screenings_ai_system_id ON prohibited_practice_screenings(ai_system_id);
+
+ALTER TABLE ai_systems ADD COLUMN IF NOT EXISTS prohibited_practice BOOLEAN NOT NULL DEFAULT false;
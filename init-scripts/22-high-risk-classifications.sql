@@ -0,0 +1,19 @@
+-- Script pour la classification explicable des systèmes à haut risque (Art. 6, Annexes I et III)
+-- et la dérogation documentée de l'article 6(3)
+
+CREATE TABLE IF NOT EXISTS high_risk_classifications (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  ai_system_id VARCHAR NOT NULL REFERENCES ai_systems(id),
+  organization_id VARCHAR REFERENCES organizations(id),
+  answers JSONB NOT NULL,
+  outcome VARCHAR NOT NULL,
+  annex_iii_points JSONB NOT NULL DEFAULT '[]',
+  profiling BOOLEAN,
+  derogation_conditions JSONB NOT NULL DEFAULT '[]',
+  derogation_justification TEXT,
+  trace JSONB NOT NULL,
+  classified_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_high_risk_classifications_ai_system_id ON high_risk_classifications(ai_system_id);
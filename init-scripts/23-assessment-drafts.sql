@@ -0,0 +1,26 @@
+-- Script pour les brouillons d'évaluation enregistrés côté serveur (sauvegarde automatique, reprise
+-- et attribution des sections du référentiel Positive AI)
+
+DO $$ BEGIN
+    CREATE TYPE "assessment_draft_status" AS ENUM('in_progress', 'submitted');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS assessment_drafts (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id),
+  ai_system_id VARCHAR REFERENCES ai_systems(id),
+  reassessment_id VARCHAR REFERENCES system_reassessments(id),
+  form_data JSONB NOT NULL,
+  current_step INTEGER NOT NULL DEFAULT 0,
+  section_assignments JSONB NOT NULL DEFAULT '{}',
+  status assessment_draft_status NOT NULL DEFAULT 'in_progress',
+  submitted_assessment_id VARCHAR REFERENCES risk_assessments(id),
+  created_by VARCHAR NOT NULL REFERENCES users(id),
+  updated_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assessment_drafts_organization_id ON assessment_drafts(organization_id);
@@ -0,0 +1,55 @@
+-- Script pour la banque de questions du référentiel Positive AI administrée en base :
+-- versions brouillon / publiée / archivée, questions propres à chaque version et version utilisée par les évaluations
+
+DO $$ BEGIN
+    CREATE TYPE "framework_strategy" AS ENUM(
+        'data_biases_identified_mitigated', 'design_biases_identified_mitigated', 'biased_results_identified_mitigated',
+        'bias_monitoring', 'stakeholder_engagement',
+        'algorithmic_transparency', 'decision_transparency', 'process_transparency',
+        'human_oversight_control', 'meaningful_human_control', 'user_empowerment',
+        'sustainably_developed_by_design', 'promoting_positive_outcomes', 'avoidance_of_societal_harms',
+        'collection_data_traceable_requirements', 'license_of_data', 'protected_from_disclosure',
+        'approaches_privacy_preservation', 'accountability_governance',
+        'data_minimization', 'purpose_limitation', 'consent_management', 'security_protection', 'rights_management',
+        'accuracy_reliability', 'fallback_procedures', 'security_resilience'
+    );
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE "framework_version_status" AS ENUM('draft', 'published', 'archived');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS framework_versions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  version VARCHAR NOT NULL UNIQUE,
+  status framework_version_status NOT NULL DEFAULT 'draft',
+  description TEXT,
+  based_on VARCHAR,
+  created_by VARCHAR REFERENCES users(id),
+  published_by VARCHAR REFERENCES users(id),
+  published_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE framework_questions ADD COLUMN IF NOT EXISTS strategy_key framework_strategy NOT NULL;
+ALTER TABLE framework_questions ADD COLUMN IF NOT EXISTS options JSONB;
+ALTER TABLE framework_questions ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0;
+
+UPDATE framework_questions SET framework_version = '3.0' WHERE framework_version IS NULL;
+ALTER TABLE framework_questions ALTER COLUMN framework_version SET NOT NULL;
+
+-- Un identifiant de question n'est unique qu'au sein d'une version
+ALTER TABLE framework_questions DROP CONSTRAINT IF EXISTS framework_questions_question_id_key;
+ALTER TABLE framework_questions DROP CONSTRAINT IF EXISTS framework_questions_question_id_unique;
+
+DO $$ BEGIN
+    ALTER TABLE framework_questions ADD CONSTRAINT framework_questions_framework_version_question_id_unique UNIQUE (framework_version, question_id);
+EXCEPTION
+    WHEN duplicate_object OR duplicate_table THEN null;
+END $$;
+
+ALTER TABLE maturity_assessments ADD COLUMN IF NOT EXISTS framework_version VARCHAR;
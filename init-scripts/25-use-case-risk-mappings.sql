@@ -0,0 +1,9 @@
+-- Script pour les profils de risque de référence par cas d'usage et secteur
+-- (niveaux de risque attendus par dimension, côté clients et côté collaborateurs)
+
+ALTER TABLE use_case_risk_mapping ADD COLUMN IF NOT EXISTS use_case VARCHAR NOT NULL;
+ALTER TABLE use_case_risk_mapping ADD COLUMN IF NOT EXISTS industry_sector VARCHAR;
+
+-- Un seul profil par cas d'usage et par secteur, le secteur vide valant pour tous les secteurs
+CREATE UNIQUE INDEX IF NOT EXISTS idx_use_case_risk_mapping_use_case_sector
+  ON use_case_risk_mapping(use_case, COALESCE(industry_sector, ''));
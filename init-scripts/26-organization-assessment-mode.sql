@@ -0,0 +1,16 @@
+-- Script pour le mode d'évaluation par organisation : déterministe (aucun appel LLM, pour les
+-- environnements isolés) ou enrichi d'une analyse rédigée par LLM en complément du raisonnement à base de règles
+
+DO $$ BEGIN
+    CREATE TYPE "assessment_mode" AS ENUM('deterministic', 'llm_enriched');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS assessment_mode assessment_mode NOT NULL DEFAULT 'llm_enriched';
+
+-- Mode utilisé et analyse LLM éventuelle, conservée séparément du raisonnement déterministe
+ALTER TABLE risk_assessments ADD COLUMN IF NOT EXISTS assessment_mode assessment_mode;
+ALTER TABLE risk_assessments ADD COLUMN IF NOT EXISTS ai_narrative TEXT;
+
+ALTER TYPE security_event_type ADD VALUE IF NOT EXISTS 'organization_settings_updated';
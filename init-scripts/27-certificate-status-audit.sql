@@ -0,0 +1,4 @@
+-- Script pour l'audit des changements de statut des certificats : la révocation est définitive,
+-- les autres transitions sont journalisées
+
+ALTER TYPE security_event_type ADD VALUE IF NOT EXISTS 'certificate_status_changed';
@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+/**
+ * Vérification hors ligne d'un certificat de conformité exporté
+ *
+ * Aucune dépendance, aucun appel au serveur émetteur : seuls le certificat exporté
+ * (GET /api/certificates/:id/export) et le jeu de clés publiques
+ * (GET /.well-known/certificate-keys.json, récupéré une fois et conservé) sont nécessaires.
+ * La liste de révocation signée (GET /.well-known/certificate-revocations.json) est facultative.
+ *
+ * Usage : node scripts/verify-certificate.mjs <certificat.json> <certificate-keys.json> [certificate-revocations.json]
+ * Code de sortie : 0 si la signature est valide et le certificat non révoqué, 1 sinon
+ */
+
+import crypto from 'crypto';
+import { readFileSync } from 'fs';
+
+// Doit rester identique à canonicalize() de server/services/certificateSigningService.ts
+function canonicalize(value) {
+  return JSON.stringify(sortKeys(JSON.parse(JSON.stringify(value ?? null))));
+}
+
+function sortKeys(value) {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce((sorted, key) => {
+        sorted[key] = sortKeys(value[key]);
+        return sorted;
+      }, {});
+  }
+  return value;
+}
+
+function readJson(filePath, label) {
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    fail(`Lecture impossible du ${label} (${filePath}): ${error.message}`);
+  }
+}
+
+function fail(message) {
+  console.error(`❌ ${message}`);
+  process.exit(1);
+}
+
+function verifySignature(payload, signature, keySet) {
+  const jwk = (keySet.keys || []).find(key => key.kid === signature.keyId);
+  if (!jwk) {
+    fail(`Clé de signature ${signature.keyId} absente du jeu de clés`);
+  }
+  if (jwk.kty !== 'OKP' || jwk.crv !== 'Ed25519') {
+    fail(`Clé ${jwk.kid} : type ${jwk.kty}/${jwk.crv} inattendu`);
+  }
+  if (jwk.status === 'revoked') {
+    fail(`Clé ${jwk.kid} révoquée le ${jwk.revokedAt}`);
+  }
+
+  const publicKey = crypto.createPublicKey({ key: { kty: jwk.kty, crv: jwk.crv, x: jwk.x }, format: 'jwk' });
+  return { jwk, valid: crypto.verify(null, payload, publicKey, Buffer.from(signature.value, 'base64url')) };
+}
+
+const [certificatePath, keysPath, revocationsPath] = process.argv.slice(2);
+if (!certificatePath || !keysPath) {
+  console.error('Usage : node scripts/verify-certificate.mjs <certificat.json> <certificate-keys.json> [certificate-revocations.json]');
+  process.exit(2);
+}
+
+const exported = readJson(certificatePath, 'certificat');
+const keySet = readJson(keysPath, 'jeu de clés');
+
+if (exported.format !== 'ai-act-navigator-certificate/v1') {
+  fail(`Format de certificat inconnu : ${exported.format}`);
+}
+
+const { certificate, signature } = exported;
+if (!certificate || !signature?.value || !signature?.keyId) {
+  fail('Certificat incomplet : contenu ou signature manquant');
+}
+if (signature.algorithm !== 'Ed25519') {
+  fail(`Algorithme de signature non supporté : ${signature.algorithm}`);
+}
+
+const payload = Buffer.from(canonicalize(certificate), 'utf8');
+
+const digest = crypto.createHash('sha256').update(payload).digest('hex');
+if (exported.sha256 && exported.sha256 !== digest) {
+  fail(`Empreinte SHA-256 incohérente : attendue ${exported.sha256}, calculée ${digest}`);
+}
+
+const { jwk, valid: signatureValid } = verifySignature(payload, signature, keySet);
+
+if (!signatureValid) {
+  fail('Signature invalide : le certificat a été modifié ou n\'a pas été émis avec cette clé');
+}
+
+console.log('✅ Signature valide');
+console.log(`   - Certificat : ${certificate.certificateNumber}`);
+console.log(`   - Organisation : ${certificate.organizationName}`);
+if (certificate.systemName) {
+  console.log(`   - Système : ${certificate.systemName}`);
+}
+console.log(`   - Émis le : ${certificate.issuedAt}`);
+console.log(`   - Valide jusqu'au : ${certificate.validUntil}`);
+console.log(`   - Clé : ${jwk.kid} (${jwk.status || 'active'})`);
+console.log(`   - SHA-256 : ${digest}`);
+
+if (certificate.validUntil && new Date(certificate.validUntil) < new Date()) {
+  console.log('⚠️  Certificat expiré');
+}
+
+if (!revocationsPath) {
+  console.log('ℹ️  Révocation non vérifiée (liste de révocation non fournie)');
+  process.exit(0);
+}
+
+const { revocationList, signature: revocationSignature } = readJson(revocationsPath, 'liste de révocation');
+if (revocationList?.format !== 'ai-act-navigator-crl/v1' || !revocationSignature?.value) {
+  fail('Liste de révocation inconnue ou non signée');
+}
+if (!verifySignature(Buffer.from(canonicalize(revocationList), 'utf8'), revocationSignature, keySet).valid) {
+  fail('Signature de la liste de révocation invalide');
+}
+
+const revocation = revocationList.entries.find(entry => entry.certificateNumber === certificate.certificateNumber);
+if (revocation) {
+  fail(`Certificat révoqué le ${revocation.revokedAt}${revocation.reason ? ` : ${revocation.reason}` : ''}`);
+}
+console.log(`✅ Non révoqué (liste du ${revocationList.issuedAt})`);
+if (revocationList.nextUpdate && new Date(revocationList.nextUpdate) < new Date()) {
+  console.log('⚠️  Liste de révocation périmée : récupérez une version à jour');
+}
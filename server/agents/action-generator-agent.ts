@@ -17,6 +17,7 @@ import { PersonalizedRegulatoryInsight } from './personalization-agent';
 import { AiSystem } from '@shared/schema';
 import { storage } from '../storage';
 import { llmService } from '../services/llmService';
+import { getEffectiveRoles, getRoleSpecificArticles, isArticleNumberApplicable } from '../data/operatorRoles';
 
 // Nouveaux types pour la génération d'actions
 export interface ActionableRegulatoryInsight extends PersonalizedRegulatoryInsight {
@@ -371,9 +372,10 @@ export class ActionGeneratorAgent {
   ): Promise<PersonalizedAction[]> {
     const actions: PersonalizedAction[] = [];
     const { classifiedData, userContext } = insight;
+    const roles = getEffectiveRoles(system);
 
-    // Action de révision du système si haut risque
-    if (system.riskLevel === 'high' || system.riskLevel === 'unacceptable') {
+    // Action de révision du système si haut risque (la conception relève du fournisseur)
+    if ((system.riskLevel === 'high' || system.riskLevel === 'unacceptable') && roles.includes('provider')) {
       actions.push({
         id: `system-review-${system.id}-${Date.now()}`,
         description: `Révision complète du système ${system.name} suite aux nouvelles exigences`,
@@ -390,8 +392,26 @@ export class ActionGeneratorAgent {
       });
     }
 
-    // Action de mise à jour de la documentation
-    if (classifiedData.classification.updateType === 'implementing_act') {
+    // Actions propres aux rôles de déployeur, importateur ou distributeur (ex. Articles 23, 24, 26)
+    for (const article of getRoleSpecificArticles(system.riskLevel || 'minimal', roles)) {
+      actions.push({
+        id: `role-obligation-${system.id}-${article.articleNumber.replace(/\s+/g, '-')}-${Date.now()}`,
+        description: `${article.title} (${article.articleNumber}) : vérifier ${system.name} au regard des nouvelles exigences`,
+        priority: 'high',
+        deadline: this.calculateDeadline('high'),
+        status: 'pending',
+        category: 'compliance',
+        impactLevel: 'high',
+        systemId: system.id,
+        systemName: system.name,
+        estimatedHours: 8,
+        requiredSkills: ['Conformité réglementaire'],
+        dependencies: ['Analyse d\'impact détaillée'],
+      });
+    }
+
+    // Action de mise à jour de la documentation technique (Article 11, obligation du fournisseur)
+    if (classifiedData.classification.updateType === 'implementing_act' && isArticleNumberApplicable('Article 11', roles)) {
       actions.push({
         id: `doc-update-${system.id}-${Date.now()}`,
         description: `Mise à jour de la documentation technique de ${system.name}`,
@@ -438,8 +458,18 @@ export class ActionGeneratorAgent {
     const { classifiedData, synthesis, userContext } = insight;
     const checklist: PersonalizedChecklistItem[] = [];
 
+    // Seuls les items dont l'article s'applique à l'un des rôles tenus pour les systèmes impactés sont retenus
+    const roles = Array.from(new Set(userContext.impactedSystems.flatMap(system => getEffectiveRoles(system))));
+    const isApplicable = (relatedArticle?: string) => {
+      const articleNumber = relatedArticle?.match(/\d+/)?.[0];
+      return roles.length === 0 || !articleNumber || isArticleNumberApplicable(`Article ${articleNumber}`, roles);
+    };
+
     // Items basés sur la checklist existante
     for (const [index, item] of synthesis.complianceChecklist.entries()) {
+      if (!isApplicable(item.relatedArticle)) {
+        continue;
+      }
       const checklistItem: PersonalizedChecklistItem = {
         id: `checklist-${Date.now()}-${index}`,
         task: item.task,
@@ -1,12 +1,15 @@
 /**
  * Agent Collecteur - Data Collector Agent
  * Collecte automatisée depuis sources officielles via MCP servers
+ * Les sources sont déclarées en base et résolues par le registre de connecteurs,
+ * puis interrogées via un client Model Context Protocol
  */
 
 import { RawRegulatoryData, AgentCard, AgentMessage } from '../types/regulatory-monitoring';
-import { eurlexServer } from '../mcp/eurlex-server';
-import { cnilServer } from '../mcp/cnil-server';
-import { ecAIOfficeServer } from '../mcp/ec-aioffice-server';
+import type { RegulatorySource, SourceCollectionStatus } from '@shared/schema';
+import { regulatorySourceService } from '../services/regulatorySourceService';
+import { connectorRegistry } from '../mcp/connector-registry';
+import { MCPConnectorClient } from '../mcp/mcp-client';
 
 export class CollectorAgent {
   private agentCard: AgentCard = {
@@ -28,21 +31,9 @@ export class CollectorAgent {
         },
       },
       {
-        action: 'collect_eurlex',
-        description: 'Collect from EUR-Lex',
-        input_schema: { daysBack: 'number' },
-        output_schema: { updates: 'array' },
-      },
-      {
-        action: 'collect_cnil',
-        description: 'Collect from CNIL',
-        input_schema: { limit: 'number' },
-        output_schema: { updates: 'array' },
-      },
-      {
-        action: 'collect_ec_aioffice',
-        description: 'Collect from EC AI Office',
-        input_schema: { limit: 'number' },
+        action: 'collect_source',
+        description: 'Collect from a single configured source (EUR-Lex, CNIL, EC AI Office, RSS/Atom or HTML connector)',
+        input_schema: { source: 'string', daysBack: 'number' },
         output_schema: { updates: 'array' },
       },
     ],
@@ -58,82 +49,37 @@ export class CollectorAgent {
     sources?: string[];
   }): Promise<{
     updates: RawRegulatoryData[];
-    sourceStatus: Record<string, { success: boolean; count: number; error?: string }>;
+    sourceStatus: Record<string, SourceCollectionStatus>;
   }> {
     const daysBack = params.daysBack || 7;
-    const enabledSources = params.sources || ['eurlex', 'cnil', 'ec-ai-office'];
+    // Sources declared in the database; `sources` restricts the run to the given keys
+    const enabledSources = await regulatorySourceService.getEnabledSources(params.sources);
 
     const allUpdates: RawRegulatoryData[] = [];
-    const sourceStatus: Record<string, { success: boolean; count: number; error?: string }> = {};
+    const sourceStatus: Record<string, SourceCollectionStatus> = {};
 
-    // Collect from EUR-Lex
-    if (enabledSources.includes('eurlex')) {
+    for (const source of enabledSources) {
+      const sourceStart = Date.now();
       try {
-        console.log('📚 Collecting from EUR-Lex...');
-        const eurlexUpdates = await eurlexServer.getRecentAIActUpdates(daysBack);
-        allUpdates.push(...eurlexUpdates);
-        sourceStatus['eurlex'] = {
+        console.log(`📡 Collecting from ${source.name}...`);
+        const updates = await this.collectThroughMCP(source, daysBack);
+        await regulatorySourceService.recordPoll(source, { count: updates.length });
+        allUpdates.push(...updates);
+        sourceStatus[source.key] = {
           success: true,
-          count: eurlexUpdates.length,
+          count: updates.length,
+          durationMs: Date.now() - sourceStart,
         };
-        console.log(`✅ EUR-Lex: ${eurlexUpdates.length} updates`);
+        console.log(`✅ ${source.name}: ${updates.length} updates`);
       } catch (error) {
-        sourceStatus['eurlex'] = {
+        await regulatorySourceService.recordPoll(source, { error });
+        sourceStatus[source.key] = {
           success: false,
           count: 0,
           error: String(error),
+          durationMs: Date.now() - sourceStart,
         };
-        console.error('❌ EUR-Lex collection failed:', error);
-      }
-    }
-
-    // Collect from CNIL
-    if (enabledSources.includes('cnil')) {
-      try {
-        console.log('🔒 Collecting from CNIL...');
-        const cnilNews = await cnilServer.getCNILAINews(10);
-        const cnilRecommendations = await cnilServer.getCNILRecommendations();
-        const cnilSanctions = await cnilServer.checkCNILSanctions(daysBack);
-
-        const cnilUpdates = [...cnilNews, ...cnilRecommendations, ...cnilSanctions];
-        allUpdates.push(...cnilUpdates);
-        sourceStatus['cnil'] = {
-          success: true,
-          count: cnilUpdates.length,
-        };
-        console.log(`✅ CNIL: ${cnilUpdates.length} updates`);
-      } catch (error) {
-        sourceStatus['cnil'] = {
-          success: false,
-          count: 0,
-          error: String(error),
-        };
-        console.error('❌ CNIL collection failed:', error);
-      }
-    }
-
-    // Collect from EC AI Office
-    if (enabledSources.includes('ec-ai-office')) {
-      try {
-        console.log('🇪🇺 Collecting from EC AI Office...');
-        const aiOfficeUpdates = await ecAIOfficeServer.getAIOfficeUpdates(10);
-        const codesOfConduct = await ecAIOfficeServer.getCodesOfConduct();
-        const aiBoardDecisions = await ecAIOfficeServer.getAIBoardDecisions(daysBack);
-
-        const ecUpdates = [...aiOfficeUpdates, ...codesOfConduct, ...aiBoardDecisions];
-        allUpdates.push(...ecUpdates);
-        sourceStatus['ec-ai-office'] = {
-          success: true,
-          count: ecUpdates.length,
-        };
-        console.log(`✅ EC AI Office: ${ecUpdates.length} updates`);
-      } catch (error) {
-        sourceStatus['ec-ai-office'] = {
-          success: false,
-          count: 0,
-          error: String(error),
-        };
-        console.error('❌ EC AI Office collection failed:', error);
+        console.error(`❌ ${source.name} collection failed:`, error);
       }
     }
 
@@ -153,6 +99,19 @@ export class CollectorAgent {
     };
   }
 
+  /**
+   * Exécute le plan de collecte du connecteur via un client MCP
+   */
+  private async collectThroughMCP(source: RegulatorySource, daysBack: number): Promise<RawRegulatoryData[]> {
+    const connector = connectorRegistry.create(source);
+    const client = await MCPConnectorClient.connect(connector);
+    try {
+      return await client.callTools(connector.getCollectionPlan({ daysBack }));
+    } finally {
+      await client.close();
+    }
+  }
+
   async sendToNextAgent(updates: RawRegulatoryData[], targetAgentId: string): Promise<AgentMessage> {
     const message: AgentMessage = {
       from_agent_id: this.agentCard.agent_id,
@@ -168,6 +168,7 @@ const testModeUser: SafeUser = {
   firstName: "Test",
   lastName: "User",
   profileImageUrl: null,
+  isPlatformAdmin: false,
   createdAt: new Date(),
   updatedAt: new Date(),
 };
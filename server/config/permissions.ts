@@ -0,0 +1,86 @@
+/**
+ * Role-Based Access Control
+ * Permission matrix for organization roles
+ */
+
+import type { OrganizationRole } from '@shared/schema';
+
+export const PERMISSIONS = [
+  'organization:read',
+  'organization:manage',
+  'ai_systems:read',
+  'ai_systems:write',
+  'assessments:read',
+  'assessments:write',
+  'compliance:read',
+  'compliance:write',
+  'compliance:report',
+  'documents:read',
+  'documents:write',
+  'certificates:read',
+  'certificates:issue',
+  'certificates:revoke',
+  'regulatory:read',
+  'regulatory:sync',
+  'llm:configure',
+  'audit:read',
+  'workflows:read',
+  'workflows:manage',
+  'workflows:run',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const READ_PERMISSIONS: Permission[] = [
+  'organization:read',
+  'ai_systems:read',
+  'assessments:read',
+  'compliance:read',
+  'documents:read',
+  'certificates:read',
+  'regulatory:read',
+  'workflows:read',
+];
+
+export const ROLE_PERMISSIONS: Record<OrganizationRole, Permission[]> = {
+  // Propriétaire : contrôle total, y compris la gestion des membres
+  owner: [...PERMISSIONS],
+
+  // Responsable conformité : pilote la conformité et émet les certificats
+  compliance_officer: PERMISSIONS.filter(permission => permission !== 'organization:manage'),
+
+  // Évaluateur : renseigne les systèmes, évaluations et preuves
+  assessor: [
+    ...READ_PERMISSIONS,
+    'ai_systems:write',
+    'assessments:write',
+    'compliance:write',
+    'compliance:report',
+    'documents:write',
+    'regulatory:sync',
+    'llm:configure',
+    'workflows:run',
+  ],
+
+  // Lecteur : consultation seule
+  viewer: [...READ_PERMISSIONS],
+
+  // Auditeur : consultation, rapports et journal d'audit
+  auditor: [
+    ...READ_PERMISSIONS,
+    'compliance:report',
+    'audit:read',
+  ],
+};
+
+export const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Propriétaire',
+  compliance_officer: 'Responsable conformité',
+  assessor: 'Évaluateur',
+  viewer: 'Lecteur',
+  auditor: 'Auditeur',
+};
+
+export function roleHasPermission(role: OrganizationRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
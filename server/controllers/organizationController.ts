@@ -0,0 +1,241 @@
+/**
+ * Organization Controller
+ * Handles organizations and membership management
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { organizationService } from '../services/organizationService';
+import { auditService } from '../services/auditService';
+import { ROLE_LABELS } from '../config/permissions';
+import { createServiceLogger } from '../utils/logger';
+import { SecurityError } from '../errors/SecurityErrors';
+import {
+  createOrganizationSchema,
+  addOrganizationMemberSchema,
+  updateOrganizationMemberSchema,
+  updateOrganizationSettingsSchema,
+} from '@shared/schema';
+
+const logger = createServiceLogger('OrganizationController');
+
+function handleError(res: Response, error: unknown, fallbackMessage: string, fallbackCode: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      message: 'Invalid request format',
+      errors: error.errors,
+      code: 'VALIDATION_ERROR'
+    });
+  }
+
+  if (error instanceof SecurityError) {
+    return res.status(error.statusCode).json({
+      message: error.message,
+      code: error.code
+    });
+  }
+
+  res.status(500).json({
+    message: fallbackMessage,
+    code: fallbackCode
+  });
+}
+
+export class OrganizationController {
+  /**
+   * List the organizations of the current user
+   */
+  static async listOrganizations(req: Request, res: Response) {
+    const user = req.user as any;
+
+    try {
+      const memberships = await organizationService.getUserOrganizations(user);
+      res.json(memberships.map(membership => ({
+        id: membership.organizationId,
+        name: membership.organization.name,
+        role: membership.role,
+        roleLabel: ROLE_LABELS[membership.role],
+      })));
+    } catch (error) {
+      logger.error('Error fetching organizations', error as Error, { userId: user?.id });
+      handleError(res, error, 'Failed to fetch organizations', 'FETCH_ORGANIZATIONS_ERROR');
+    }
+  }
+
+  /**
+   * Create a new organization owned by the current user
+   */
+  static async createOrganization(req: Request, res: Response) {
+    const user = req.user as any;
+
+    try {
+      const { name } = createOrganizationSchema.parse(req.body);
+      const organization = await organizationService.createOrganization(name, user.id);
+
+      await auditService.logSecurityEvent({
+        userId: user.id,
+        eventType: 'organization_created',
+        eventDescription: `Organization "${organization.name}" created`,
+        ipAddress: req.ip || '127.0.0.1',
+        userAgent: req.get('User-Agent'),
+        isSuccessful: true,
+        additionalData: { organizationId: organization.id }
+      });
+
+      res.status(201).json(organization);
+    } catch (error) {
+      logger.error('Error creating organization', error as Error, { userId: user?.id });
+      handleError(res, error, 'Failed to create organization', 'CREATE_ORGANIZATION_ERROR');
+    }
+  }
+
+  /**
+   * Get the organization the request acts on, with the caller's role and permissions
+   */
+  static async getCurrentOrganization(req: Request, res: Response) {
+    const context = req.organizationContext!;
+
+    try {
+      const memberships = await organizationService.getUserOrganizations(req.user as any);
+      const membership = memberships.find(m => m.organizationId === context.organizationId);
+
+      res.json({
+        id: context.organizationId,
+        name: membership?.organization.name,
+        assessmentMode: membership?.organization.assessmentMode,
+        role: context.role,
+        roleLabel: ROLE_LABELS[context.role],
+        permissions: context.permissions,
+      });
+    } catch (error) {
+      logger.error('Error fetching current organization', error as Error, { userId: context.userId });
+      handleError(res, error, 'Failed to fetch organization', 'FETCH_ORGANIZATION_ERROR');
+    }
+  }
+
+  /**
+   * Update the settings of the current organization (assessment mode)
+   */
+  static async updateSettings(req: Request, res: Response) {
+    const user = req.user as any;
+    const context = req.organizationContext!;
+
+    try {
+      const { assessmentMode } = updateOrganizationSettingsSchema.parse(req.body);
+      const organization = await organizationService.updateAssessmentMode(context.organizationId, assessmentMode);
+
+      await auditService.logSecurityEvent({
+        userId: user.id,
+        eventType: 'organization_settings_updated',
+        eventDescription: `Assessment mode set to ${assessmentMode}`,
+        ipAddress: req.ip || '127.0.0.1',
+        userAgent: req.get('User-Agent'),
+        isSuccessful: true,
+        additionalData: { organizationId: context.organizationId, assessmentMode }
+      });
+
+      res.json(organization);
+    } catch (error) {
+      logger.error('Error updating organization settings', error as Error, { organizationId: context.organizationId });
+      handleError(res, error, 'Failed to update organization settings', 'UPDATE_ORGANIZATION_SETTINGS_ERROR');
+    }
+  }
+
+  /**
+   * List members of an organization
+   */
+  static async listMembers(req: Request, res: Response) {
+    const { organizationId } = req.params;
+
+    try {
+      const members = await organizationService.getMembers(organizationId);
+      res.json(members);
+    } catch (error) {
+      logger.error('Error fetching organization members', error as Error, { organizationId });
+      handleError(res, error, 'Failed to fetch members', 'FETCH_MEMBERS_ERROR');
+    }
+  }
+
+  /**
+   * Add an existing user to the organization
+   */
+  static async addMember(req: Request, res: Response) {
+    const user = req.user as any;
+    const { organizationId } = req.params;
+
+    try {
+      const { email, role } = addOrganizationMemberSchema.parse(req.body);
+      const membership = await organizationService.addMember(organizationId, email, role, user.id);
+
+      await auditService.logSecurityEvent({
+        userId: user.id,
+        eventType: 'organization_member_added',
+        eventDescription: `Member added with role ${role}`,
+        ipAddress: req.ip || '127.0.0.1',
+        userAgent: req.get('User-Agent'),
+        isSuccessful: true,
+        additionalData: { organizationId, memberId: membership.userId, role }
+      });
+
+      res.status(201).json(membership);
+    } catch (error) {
+      logger.error('Error adding organization member', error as Error, { organizationId });
+      handleError(res, error, 'Failed to add member', 'ADD_MEMBER_ERROR');
+    }
+  }
+
+  /**
+   * Change the role of a member
+   */
+  static async updateMember(req: Request, res: Response) {
+    const user = req.user as any;
+    const { organizationId, userId } = req.params;
+
+    try {
+      const { role } = updateOrganizationMemberSchema.parse(req.body);
+      const membership = await organizationService.updateMemberRole(organizationId, userId, role);
+
+      await auditService.logSecurityEvent({
+        userId: user.id,
+        eventType: 'organization_member_role_changed',
+        eventDescription: `Member role changed to ${role}`,
+        ipAddress: req.ip || '127.0.0.1',
+        userAgent: req.get('User-Agent'),
+        isSuccessful: true,
+        additionalData: { organizationId, memberId: userId, role }
+      });
+
+      res.json(membership);
+    } catch (error) {
+      logger.error('Error updating organization member', error as Error, { organizationId, userId });
+      handleError(res, error, 'Failed to update member', 'UPDATE_MEMBER_ERROR');
+    }
+  }
+
+  /**
+   * Remove a member from the organization
+   */
+  static async removeMember(req: Request, res: Response) {
+    const user = req.user as any;
+    const { organizationId, userId } = req.params;
+
+    try {
+      await organizationService.removeMember(organizationId, userId);
+
+      await auditService.logSecurityEvent({
+        userId: user.id,
+        eventType: 'organization_member_removed',
+        eventDescription: 'Member removed from organization',
+        ipAddress: req.ip || '127.0.0.1',
+        userAgent: req.get('User-Agent'),
+        isSuccessful: true,
+        additionalData: { organizationId, memberId: userId }
+      });
+
+      res.json({ message: 'Member removed' });
+    } catch (error) {
+      logger.error('Error removing organization member', error as Error, { organizationId, userId });
+      handleError(res, error, 'Failed to remove member', 'REMOVE_MEMBER_ERROR');
+    }
+  }
+}
@@ -64,6 +64,85 @@ export const additionalArticles: CompleteArticle[] = [
     eurLexUrl: "https://eur-lex.europa.eu/legal-content/FR/TXT/?uri=CELEX:32024R1689",
     officialReference: "Règlement (UE) 2024/1689, Article 17"
   },
+  {
+    articleNumber: "Article 23",
+    title: "Obligations des importateurs",
+    content: "1. Avant de mettre sur le marché un système d'IA à haut risque, les importateurs s'assurent que le système est conforme au présent règlement en vérifiant que: (a) la procédure d'évaluation de la conformité pertinente visée à l'article 43 a été suivie par le fournisseur; (b) le fournisseur a établi la documentation technique conformément à l'article 11 et à l'annexe IV; (c) le système porte le marquage CE requis et est accompagné de la déclaration UE de conformité et de la notice d'utilisation; (d) le fournisseur a désigné un mandataire. 2. Lorsqu'un importateur a des raisons suffisantes de considérer qu'un système d'IA à haut risque n'est pas conforme au présent règlement, il ne met pas ce système sur le marché tant qu'il n'a pas été mis en conformité. 3. Les importateurs indiquent leur nom, leur raison sociale ou leur marque déposée et l'adresse à laquelle ils peuvent être contactés sur le système d'IA à haut risque et sur son emballage ou dans la documentation qui l'accompagne.",
+    titleNumber: "TITRE III",
+    titleName: "SYSTÈMES D'IA À HAUT RISQUE",
+    chapterNumber: "Chapitre III",
+    chapterName: "Obligations des opérateurs",
+    sectionNumber: "Section 3",
+    sectionName: "Obligations des fournisseurs et des utilisateurs déployeurs",
+    riskCategory: "high",
+    applicableTo: ["importers"],
+    obligations: [
+      "Vérifier que l'évaluation de la conformité a été réalisée par le fournisseur",
+      "Vérifier l'existence de la documentation technique",
+      "Vérifier le marquage CE, la déclaration UE de conformité et la notice d'utilisation",
+      "Vérifier la désignation d'un mandataire",
+      "Ne pas mettre sur le marché un système non conforme",
+      "Indiquer ses coordonnées sur le système ou sa documentation",
+      "Conserver une copie du certificat et de la déclaration UE de conformité pendant 10 ans"
+    ],
+    effectiveDate: new Date('2026-08-02'),
+    keywords: ["importateurs", "mise sur le marché", "vérification", "marquage CE", "mandataire"],
+    relatedArticles: ["Article 11", "Article 22", "Article 43", "Article 47"],
+    annexReferences: ["Annexe IV"],
+    eurLexUrl: "https://eur-lex.europa.eu/legal-content/FR/TXT/?uri=CELEX:32024R1689",
+    officialReference: "Règlement (UE) 2024/1689, Article 23"
+  },
+  {
+    articleNumber: "Article 24",
+    title: "Obligations des distributeurs",
+    content: "1. Avant de mettre à disposition sur le marché un système d'IA à haut risque, les distributeurs vérifient que celui-ci porte le marquage CE requis, qu'il est accompagné d'une copie de la déclaration UE de conformité et de la notice d'utilisation, et que le fournisseur et l'importateur, selon le cas, ont respecté leurs obligations respectives. 2. Lorsqu'un distributeur considère ou a des raisons de considérer qu'un système d'IA à haut risque n'est pas conforme aux exigences, il ne le met pas à disposition sur le marché tant qu'il n'a pas été mis en conformité. 3. Les distributeurs veillent à ce que, tant qu'un système d'IA à haut risque est sous leur responsabilité, les conditions de stockage ou de transport ne compromettent pas sa conformité.",
+    titleNumber: "TITRE III",
+    titleName: "SYSTÈMES D'IA À HAUT RISQUE",
+    chapterNumber: "Chapitre III",
+    chapterName: "Obligations des opérateurs",
+    sectionNumber: "Section 3",
+    sectionName: "Obligations des fournisseurs et des utilisateurs déployeurs",
+    riskCategory: "high",
+    applicableTo: ["distributors"],
+    obligations: [
+      "Vérifier le marquage CE et la déclaration UE de conformité",
+      "Vérifier la présence de la notice d'utilisation",
+      "Vérifier que le fournisseur et l'importateur ont respecté leurs obligations",
+      "Ne pas mettre à disposition un système non conforme",
+      "Préserver la conformité pendant le stockage et le transport",
+      "Coopérer avec les autorités compétentes"
+    ],
+    effectiveDate: new Date('2026-08-02'),
+    keywords: ["distributeurs", "mise à disposition", "vérification", "marquage CE"],
+    relatedArticles: ["Article 16", "Article 23", "Article 47"],
+    annexReferences: [],
+    eurLexUrl: "https://eur-lex.europa.eu/legal-content/FR/TXT/?uri=CELEX:32024R1689",
+    officialReference: "Règlement (UE) 2024/1689, Article 24"
+  },
+  {
+    articleNumber: "Article 25",
+    title: "Responsabilités tout au long de la chaîne de valeur de l'IA",
+    content: "1. Tout distributeur, importateur, déployeur ou autre tiers est considéré comme un fournisseur d'un système d'IA à haut risque aux fins du présent règlement et est soumis aux obligations incombant au fournisseur au titre de l'article 16 dans l'une des circonstances suivantes: (a) il commercialise sous son propre nom ou sa propre marque un système d'IA à haut risque déjà mis sur le marché ou mis en service; (b) il apporte une modification substantielle à un système d'IA à haut risque qui a déjà été mis sur le marché ou mis en service de telle manière qu'il reste un système d'IA à haut risque; (c) il modifie la destination d'un système d'IA, y compris un système d'IA à usage général, qui n'a pas été classé à haut risque de telle manière que le système devient un système d'IA à haut risque. 2. Lorsque ces circonstances se présentent, le fournisseur qui a initialement mis le système sur le marché n'est plus considéré comme fournisseur de ce système aux fins du présent règlement.",
+    titleNumber: "TITRE III",
+    titleName: "SYSTÈMES D'IA À HAUT RISQUE",
+    chapterNumber: "Chapitre III",
+    chapterName: "Obligations des opérateurs",
+    sectionNumber: "Section 3",
+    sectionName: "Obligations des fournisseurs et des utilisateurs déployeurs",
+    riskCategory: "high",
+    applicableTo: ["deployers", "importers", "distributors"],
+    obligations: [
+      "Déterminer si l'organisation devient fournisseur (nom ou marque, modification substantielle, changement de destination)",
+      "Assumer les obligations du fournisseur prévues à l'article 16 le cas échéant",
+      "Obtenir du fournisseur initial les informations et l'assistance techniques nécessaires"
+    ],
+    effectiveDate: new Date('2026-08-02'),
+    keywords: ["chaîne de valeur", "devient fournisseur", "modification substantielle", "marque", "destination"],
+    relatedArticles: ["Article 16", "Article 43"],
+    annexReferences: [],
+    eurLexUrl: "https://eur-lex.europa.eu/legal-content/FR/TXT/?uri=CELEX:32024R1689",
+    officialReference: "Règlement (UE) 2024/1689, Article 25"
+  },
   {
     articleNumber: "Article 26",
     title: "Obligations des utilisateurs déployeurs de systèmes d'IA à haut risque",
@@ -0,0 +1,326 @@
+/**
+ * Banque de questions du référentiel Positive AI v3.0 : stratégies de chaque dimension et questions
+ * de la version initiale, enregistrée au démarrage si la banque est vide
+ */
+
+import type { FrameworkDimensionId, FrameworkQuestionOption, FrameworkStrategyKey } from '@shared/schema';
+
+export interface FrameworkStrategyDefinition {
+  key: FrameworkStrategyKey;
+  name: string;
+}
+
+export interface DefaultFrameworkQuestion {
+  questionId: string;
+  dimension: FrameworkDimensionId;
+  strategyKey: FrameworkStrategyKey;
+  question: string;
+  options: FrameworkQuestionOption[];
+}
+
+export const INITIAL_FRAMEWORK_VERSION = '3.0';
+
+// Stratégies du référentiel, rattachées à leur dimension
+export const FRAMEWORK_STRATEGIES: Record<FrameworkDimensionId, FrameworkStrategyDefinition[]> = {
+  justice_fairness: [
+    { key: 'data_biases_identified_mitigated', name: 'Biais des données identifiés et atténués' },
+    { key: 'design_biases_identified_mitigated', name: 'Biais de conception identifiés et atténués' },
+    { key: 'biased_results_identified_mitigated', name: 'Résultats biaisés identifiés et atténués' },
+    { key: 'bias_monitoring', name: 'Surveillance des biais' },
+    { key: 'stakeholder_engagement', name: 'Implication des parties prenantes' },
+  ],
+  transparency_explainability: [
+    { key: 'algorithmic_transparency', name: 'Transparence algorithmique' },
+    { key: 'decision_transparency', name: 'Transparence des décisions' },
+    { key: 'process_transparency', name: 'Transparence des processus' },
+  ],
+  human_ai_interaction: [
+    { key: 'human_oversight_control', name: 'Supervision et contrôle humains' },
+    { key: 'meaningful_human_control', name: 'Contrôle humain significatif' },
+    { key: 'user_empowerment', name: 'Autonomie des utilisateurs' },
+  ],
+  social_environmental_impact: [
+    { key: 'sustainably_developed_by_design', name: 'Conception durable' },
+    { key: 'promoting_positive_outcomes', name: "Promotion d'impacts positifs" },
+    { key: 'avoidance_of_societal_harms', name: 'Prévention des préjudices sociétaux' },
+  ],
+  responsibility: [
+    { key: 'collection_data_traceable_requirements', name: 'Traçabilité de la collecte des données' },
+    { key: 'license_of_data', name: 'Licences des données' },
+    { key: 'protected_from_disclosure', name: 'Protection contre la divulgation' },
+    { key: 'approaches_privacy_preservation', name: 'Préservation de la vie privée' },
+    { key: 'accountability_governance', name: 'Gouvernance et redevabilité' },
+  ],
+  data_privacy: [
+    { key: 'data_minimization', name: 'Minimisation des données' },
+    { key: 'purpose_limitation', name: 'Limitation des finalités' },
+    { key: 'consent_management', name: 'Gestion du consentement' },
+    { key: 'security_protection', name: 'Protection et sécurité des données' },
+    { key: 'rights_management', name: 'Gestion des droits des personnes' },
+  ],
+  technical_robustness_security: [
+    { key: 'accuracy_reliability', name: 'Exactitude et fiabilité' },
+    { key: 'fallback_procedures', name: 'Procédures de repli' },
+    { key: 'security_resilience', name: 'Sécurité et résilience' },
+  ],
+};
+
+// Échelle de maturité utilisée lorsqu'une question n'a pas d'options propres
+export const DEFAULT_FRAMEWORK_OPTIONS: FrameworkQuestionOption[] = [
+  { value: 1, label: 'Initial', description: 'Aucune pratique formalisée' },
+  { value: 2, label: 'En développement', description: 'Pratiques ponctuelles' },
+  { value: 3, label: 'Défini', description: 'Processus formalisé' },
+  { value: 4, label: 'Géré', description: 'Processus mesuré et suivi' },
+  { value: 5, label: 'Optimisé', description: 'Amélioration continue' },
+];
+
+// Questions de la version initiale, reprises du questionnaire de maturité
+export const DEFAULT_FRAMEWORK_QUESTIONS: DefaultFrameworkQuestion[] = [
+  {
+    questionId: 'justice_bias_detection',
+    dimension: 'justice_fairness',
+    strategyKey: 'bias_monitoring',
+    question: 'Comment votre organisation détecte-t-elle les biais dans ses systèmes IA ?',
+    options: [
+      { value: 1, label: 'Aucune détection', description: 'Pas de processus de détection des biais' },
+      { value: 2, label: 'Détection basique', description: 'Tests ponctuels de biais' },
+      { value: 3, label: 'Détection systématique', description: 'Processus formalisé de détection' },
+      { value: 4, label: 'Détection continue', description: 'Monitoring permanent des biais' },
+      { value: 5, label: 'Prévention proactive', description: 'Système de prévention avancée des biais' },
+    ],
+  },
+  {
+    questionId: 'justice_protected_groups',
+    dimension: 'justice_fairness',
+    strategyKey: 'biased_results_identified_mitigated',
+    question: 'Comment protégez-vous les groupes vulnérables dans vos systèmes IA ?',
+    options: [
+      { value: 1, label: 'Aucune protection', description: 'Groupes vulnérables non considérés' },
+      { value: 2, label: 'Sensibilisation basique', description: 'Conscience des enjeux de protection' },
+      { value: 3, label: 'Mesures définies', description: 'Politiques de protection formalisées' },
+      { value: 4, label: 'Protection active', description: 'Mécanismes de protection implémentés' },
+      { value: 5, label: 'Inclusion optimale', description: 'Excellence en protection et inclusion' },
+    ],
+  },
+  {
+    questionId: 'justice_inclusive_teams',
+    dimension: 'justice_fairness',
+    strategyKey: 'design_biases_identified_mitigated',
+    question: 'Vos équipes de développement IA sont-elles diversifiées et inclusives ?',
+    options: [
+      { value: 1, label: 'Pas de diversité', description: 'Équipes homogènes' },
+      { value: 2, label: 'Diversité limitée', description: 'Quelques efforts de diversification' },
+      { value: 3, label: 'Diversité structurée', description: 'Politiques de diversité définies' },
+      { value: 4, label: 'Inclusion active', description: 'Culture inclusive établie' },
+      { value: 5, label: 'Excellence inclusive', description: 'Modèle de référence en diversité' },
+    ],
+  },
+  {
+    questionId: 'transparency_decision_process',
+    dimension: 'transparency_explainability',
+    strategyKey: 'decision_transparency',
+    question: 'Dans quelle mesure vos systèmes IA peuvent-ils expliquer leurs décisions ?',
+    options: [
+      { value: 1, label: 'Boîte noire', description: 'Aucune explication des décisions IA' },
+      { value: 2, label: 'Transparence limitée', description: 'Informations de base sur le fonctionnement' },
+      { value: 3, label: 'Explicabilité technique', description: 'Explications pour les experts techniques' },
+      { value: 4, label: 'Explicabilité métier', description: 'Explications adaptées aux utilisateurs métier' },
+      { value: 5, label: 'Transparence totale', description: 'Explications claires pour tous les publics' },
+    ],
+  },
+  {
+    questionId: 'transparency_data_source',
+    dimension: 'transparency_explainability',
+    strategyKey: 'process_transparency',
+    question: 'Votre organisation documente-t-elle les sources et traitements des données ?',
+    options: [
+      { value: 1, label: 'Non documenté', description: 'Pas de traçabilité des données' },
+      { value: 2, label: 'Documentation basique', description: 'Informations minimales sur les sources' },
+      { value: 3, label: 'Documentation structurée', description: 'Traçabilité formalisée des données' },
+      { value: 4, label: 'Transparence active', description: 'Documentation accessible aux parties prenantes' },
+      { value: 5, label: 'Audit complet', description: 'Traçabilité complète et auditabilité' },
+    ],
+  },
+  {
+    questionId: 'transparency_algorithmic_impact',
+    dimension: 'transparency_explainability',
+    strategyKey: 'algorithmic_transparency',
+    question: 'Comment communiquez-vous l\'impact algorithmique aux utilisateurs ?',
+    options: [
+      { value: 1, label: 'Aucune communication', description: 'Utilisateurs non informés de l\'usage IA' },
+      { value: 2, label: 'Information minimale', description: 'Mention de l\'usage de l\'IA' },
+      { value: 3, label: 'Communication structurée', description: 'Explication du rôle de l\'IA' },
+      { value: 4, label: 'Transparence proactive', description: 'Communication détaillée des impacts' },
+      { value: 5, label: 'Co-construction', description: 'Dialogue continu sur l\'usage de l\'IA' },
+    ],
+  },
+  {
+    questionId: 'human_ai_collaboration',
+    dimension: 'human_ai_interaction',
+    strategyKey: 'meaningful_human_control',
+    question: 'Comment vos systèmes IA sont-ils conçus pour collaborer avec les humains ?',
+    options: [
+      { value: 1, label: 'Remplacement total', description: 'IA remplace complètement l\'humain' },
+      { value: 2, label: 'Supervision minimale', description: 'Humain valide les décisions IA' },
+      { value: 3, label: 'Collaboration définie', description: 'Répartition claire des rôles humain-IA' },
+      { value: 4, label: 'Collaboration adaptative', description: 'Ajustement dynamique des interactions' },
+      { value: 5, label: 'Symbiose optimale', description: 'Complémentarité parfaite humain-IA' },
+    ],
+  },
+  {
+    questionId: 'human_ai_control',
+    dimension: 'human_ai_interaction',
+    strategyKey: 'human_oversight_control',
+    question: 'Les utilisateurs peuvent-ils exercer un contrôle significatif sur les systèmes IA ?',
+    options: [
+      { value: 1, label: 'Aucun contrôle', description: 'Système entièrement automatisé' },
+      { value: 2, label: 'Contrôle limité', description: 'Paramètres basiques modifiables' },
+      { value: 3, label: 'Contrôle structuré', description: 'Options de configuration définies' },
+      { value: 4, label: 'Contrôle adaptatif', description: 'Personnalisation avancée possible' },
+      { value: 5, label: 'Contrôle total', description: 'Utilisateur maître de toutes les décisions' },
+    ],
+  },
+  {
+    questionId: 'human_ai_training',
+    dimension: 'human_ai_interaction',
+    strategyKey: 'user_empowerment',
+    question: 'Comment formez-vous les utilisateurs à travailler avec l\'IA ?',
+    options: [
+      { value: 1, label: 'Aucune formation', description: 'Utilisateurs livrés à eux-mêmes' },
+      { value: 2, label: 'Formation basique', description: 'Instructions minimales d\'utilisation' },
+      { value: 3, label: 'Formation structurée', description: 'Programme de formation défini' },
+      { value: 4, label: 'Formation continue', description: 'Mise à jour régulière des compétences' },
+      { value: 5, label: 'Expertise développée', description: 'Utilisateurs experts en collaboration IA' },
+    ],
+  },
+  {
+    questionId: 'social_impact_assessment',
+    dimension: 'social_environmental_impact',
+    strategyKey: 'avoidance_of_societal_harms',
+    question: 'Votre organisation évalue-t-elle l\'impact social de ses systèmes IA ?',
+    options: [
+      { value: 1, label: 'Aucune évaluation', description: 'Impact social non considéré' },
+      { value: 2, label: 'Évaluation ponctuelle', description: 'Analyses ad-hoc sur demande' },
+      { value: 3, label: 'Évaluation systématique', description: 'Processus formalisé d\'évaluation' },
+      { value: 4, label: 'Suivi continu', description: 'Monitoring des impacts sociaux' },
+      { value: 5, label: 'Optimisation sociale', description: 'IA conçue pour maximiser l\'impact positif' },
+    ],
+  },
+  {
+    questionId: 'environmental_sustainability',
+    dimension: 'social_environmental_impact',
+    strategyKey: 'sustainably_developed_by_design',
+    question: 'Comment gérez-vous l\'empreinte environnementale de vos systèmes IA ?',
+    options: [
+      { value: 1, label: 'Non considérée', description: 'Empreinte environnementale ignorée' },
+      { value: 2, label: 'Sensibilisation basique', description: 'Conscience des enjeux environnementaux' },
+      { value: 3, label: 'Mesure établie', description: 'Quantification de l\'empreinte carbone' },
+      { value: 4, label: 'Réduction active', description: 'Stratégies de réduction de l\'impact' },
+      { value: 5, label: 'Neutralité carbone', description: 'IA neutre ou positive pour l\'environnement' },
+    ],
+  },
+  {
+    questionId: 'responsibility_accountability',
+    dimension: 'responsibility',
+    strategyKey: 'accountability_governance',
+    question: 'Comment est organisée la responsabilité des décisions IA dans votre organisation ?',
+    options: [
+      { value: 1, label: 'Responsabilité floue', description: 'Pas de responsable identifié' },
+      { value: 2, label: 'Responsabilité technique', description: 'Équipes techniques responsables' },
+      { value: 3, label: 'Responsabilité métier', description: 'Propriétaires métier responsables' },
+      { value: 4, label: 'Responsabilité partagée', description: 'Modèle de responsabilité claire' },
+      { value: 5, label: 'Responsabilité totale', description: 'Chaîne complète de responsabilité' },
+    ],
+  },
+  {
+    questionId: 'responsibility_redress',
+    dimension: 'responsibility',
+    strategyKey: 'accountability_governance',
+    question: 'Existe-t-il des mécanismes de recours en cas d\'erreur IA ?',
+    options: [
+      { value: 1, label: 'Aucun recours', description: 'Pas de possibilité de contester' },
+      { value: 2, label: 'Recours limité', description: 'Processus informel de plainte' },
+      { value: 3, label: 'Recours structuré', description: 'Processus formalisé de recours' },
+      { value: 4, label: 'Recours efficace', description: 'Mécanismes rapides et effectifs' },
+      { value: 5, label: 'Justice algorithmique', description: 'Système complet de recours et réparation' },
+    ],
+  },
+  {
+    questionId: 'data_privacy_protection',
+    dimension: 'data_privacy',
+    strategyKey: 'security_protection',
+    question: 'Comment votre organisation protège-t-elle la vie privée dans ses systèmes IA ?',
+    options: [
+      { value: 1, label: 'Protection minimale', description: 'Peu d\'attention à la vie privée' },
+      { value: 2, label: 'Conformité basique', description: 'Respect des exigences légales minimales' },
+      { value: 3, label: 'Protection structurée', description: 'Processus formalisés de protection' },
+      { value: 4, label: 'Privacy by design', description: 'Vie privée intégrée dès la conception' },
+      { value: 5, label: 'Excellence privacy', description: 'Leadership en protection de la vie privée' },
+    ],
+  },
+  {
+    questionId: 'data_governance',
+    dimension: 'data_privacy',
+    strategyKey: 'purpose_limitation',
+    question: 'Existe-t-il une gouvernance claire des données pour l\'IA ?',
+    options: [
+      { value: 1, label: 'Gouvernance inexistante', description: 'Pas de règles sur les données' },
+      { value: 2, label: 'Règles basiques', description: 'Politiques minimales de données' },
+      { value: 3, label: 'Gouvernance formalisée', description: 'Cadre de gouvernance établi' },
+      { value: 4, label: 'Gouvernance mature', description: 'Contrôles et audits réguliers' },
+      { value: 5, label: 'Gouvernance exemplaire', description: 'Modèle de référence en gouvernance' },
+    ],
+  },
+  {
+    questionId: 'data_consent_rights',
+    dimension: 'data_privacy',
+    strategyKey: 'rights_management',
+    question: 'Comment gérez-vous les droits des personnes sur leurs données ?',
+    options: [
+      { value: 1, label: 'Droits ignorés', description: 'Pas de gestion des droits individuels' },
+      { value: 2, label: 'Conformité minimale', description: 'Respect basique du RGPD/CCPA' },
+      { value: 3, label: 'Gestion structurée', description: 'Processus clairs pour les droits' },
+      { value: 4, label: 'Facilitation active', description: 'Outils simples pour exercer les droits' },
+      { value: 5, label: 'Empowerment total', description: 'Contrôle complet des individus sur leurs données' },
+    ],
+  },
+  {
+    questionId: 'technical_reliability',
+    dimension: 'technical_robustness_security',
+    strategyKey: 'accuracy_reliability',
+    question: 'Quelle est la fiabilité technique de vos systèmes IA ?',
+    options: [
+      { value: 1, label: 'Fiabilité faible', description: 'Systèmes instables et peu fiables' },
+      { value: 2, label: 'Fiabilité basique', description: 'Fonctionnement correct dans conditions normales' },
+      { value: 3, label: 'Fiabilité éprouvée', description: 'Tests systématiques et monitoring' },
+      { value: 4, label: 'Haute fiabilité', description: 'Systèmes robustes et résilients' },
+      { value: 5, label: 'Fiabilité critique', description: 'Standards de fiabilité maximaux' },
+    ],
+  },
+  {
+    questionId: 'security_measures',
+    dimension: 'technical_robustness_security',
+    strategyKey: 'security_resilience',
+    question: 'Comment sécurisez-vous vos systèmes IA contre les attaques ?',
+    options: [
+      { value: 1, label: 'Sécurité minimale', description: 'Peu de mesures de sécurité IA' },
+      { value: 2, label: 'Sécurité basique', description: 'Mesures de sécurité standards' },
+      { value: 3, label: 'Sécurité renforcée', description: 'Sécurité spécifique aux systèmes IA' },
+      { value: 4, label: 'Sécurité avancée', description: 'Protection contre attaques adversaires' },
+      { value: 5, label: 'Sécurité militaire', description: 'Niveau de sécurité maximal' },
+    ],
+  },
+  {
+    questionId: 'testing_validation',
+    dimension: 'technical_robustness_security',
+    strategyKey: 'accuracy_reliability',
+    question: 'Comment testez-vous et validez-vous vos systèmes IA ?',
+    options: [
+      { value: 1, label: 'Tests limités', description: 'Tests minimaux avant déploiement' },
+      { value: 2, label: 'Tests standards', description: 'Tests fonctionnels de base' },
+      { value: 3, label: 'Tests complets', description: 'Suite complète de tests automatisés' },
+      { value: 4, label: 'Validation continue', description: 'Monitoring et validation en continu' },
+      { value: 5, label: 'Validation formelle', description: 'Méthodes formelles de validation' },
+    ],
+  },
+];
@@ -0,0 +1,90 @@
+/**
+ * Obligations des fournisseurs de modèles d'IA à usage général (Articles 52, 53 et 55
+ * du Règlement (UE) 2024/1689)
+ */
+
+export type GpaiObligationScope = 'all' | 'systemic_risk' | 'compute_threshold';
+
+export interface GpaiObligationDefinition {
+  id: string;
+  articleNumber: string;
+  title: string;
+  description: string;
+  scope: GpaiObligationScope; // 'systemic_risk' : modèles présentant un risque systémique ; 'compute_threshold' : présomption de l'Art. 51(2)
+  openWeightExempt: boolean; // Art. 53(2) : exemption des modèles open-weight sans risque systémique
+}
+
+export const GPAI_OBLIGATIONS: GpaiObligationDefinition[] = [
+  {
+    id: 'art53_1a_technical_documentation',
+    articleNumber: 'Article 53',
+    title: 'Documentation technique du modèle (Art. 53(1)(a))',
+    description: "Élaborer et tenir à jour la documentation technique du modèle, y compris son processus d'entraînement et d'essai et les résultats de son évaluation (Annexe XI), pour la fournir au Bureau de l'IA et aux autorités nationales sur demande.",
+    scope: 'all',
+    openWeightExempt: true,
+  },
+  {
+    id: 'art53_1b_downstream_information',
+    articleNumber: 'Article 53',
+    title: 'Informations pour les fournisseurs en aval (Art. 53(1)(b))',
+    description: "Mettre à disposition des fournisseurs de systèmes d'IA intégrant le modèle les informations et la documentation leur permettant de comprendre ses capacités et limites et de respecter leurs obligations (Annexe XII).",
+    scope: 'all',
+    openWeightExempt: true,
+  },
+  {
+    id: 'art53_1c_copyright_policy',
+    articleNumber: 'Article 53',
+    title: "Politique de respect du droit d'auteur (Art. 53(1)(c))",
+    description: "Mettre en place une politique de respect du droit de l'Union en matière de droit d'auteur, notamment pour identifier et respecter les réservations de droits exprimées au titre de l'article 4(3) de la directive (UE) 2019/790.",
+    scope: 'all',
+    openWeightExempt: false,
+  },
+  {
+    id: 'art53_1d_training_content_summary',
+    articleNumber: 'Article 53',
+    title: "Résumé public des contenus d'entraînement (Art. 53(1)(d))",
+    description: "Élaborer et publier un résumé suffisamment détaillé du contenu utilisé pour l'entraînement du modèle, selon le modèle fourni par le Bureau de l'IA.",
+    scope: 'all',
+    openWeightExempt: false,
+  },
+  {
+    id: 'art52_1_commission_notification',
+    articleNumber: 'Article 52',
+    title: 'Notification à la Commission (Art. 52(1))',
+    description: "Notifier la Commission sans tarder, et au plus tard deux semaines après que le seuil de calcul est atteint ou qu'il est connu qu'il le sera, en joignant le cas échéant les arguments contestant la présomption de risque systémique.",
+    scope: 'compute_threshold',
+    openWeightExempt: false,
+  },
+  {
+    id: 'art55_1a_model_evaluation',
+    articleNumber: 'Article 55',
+    title: 'Évaluation du modèle et essais contradictoires (Art. 55(1)(a))',
+    description: "Évaluer le modèle selon des protocoles et outils normalisés reflétant l'état de l'art, y compris des essais contradictoires documentés, afin d'identifier et d'atténuer les risques systémiques.",
+    scope: 'systemic_risk',
+    openWeightExempt: false,
+  },
+  {
+    id: 'art55_1b_systemic_risk_mitigation',
+    articleNumber: 'Article 55',
+    title: "Évaluation et atténuation des risques systémiques (Art. 55(1)(b))",
+    description: "Évaluer et atténuer les risques systémiques éventuels au niveau de l'Union, y compris leurs sources, découlant du développement, de la mise sur le marché ou de l'utilisation du modèle.",
+    scope: 'systemic_risk',
+    openWeightExempt: false,
+  },
+  {
+    id: 'art55_1c_serious_incidents',
+    articleNumber: 'Article 55',
+    title: 'Suivi et signalement des incidents graves (Art. 55(1)(c))',
+    description: "Suivre, documenter et communiquer sans retard injustifié au Bureau de l'IA et, le cas échéant, aux autorités nationales les incidents graves et les mesures correctives possibles.",
+    scope: 'systemic_risk',
+    openWeightExempt: false,
+  },
+  {
+    id: 'art55_1d_cybersecurity',
+    articleNumber: 'Article 55',
+    title: 'Cybersécurité du modèle (Art. 55(1)(d))',
+    description: "Garantir un niveau de cybersécurité adéquat pour le modèle et son infrastructure physique.",
+    scope: 'systemic_risk',
+    openWeightExempt: false,
+  },
+];
@@ -0,0 +1,262 @@
+/**
+ * Arbre de décision de la classification à haut risque (Article 6 du Règlement (UE) 2024/1689) :
+ * voie des produits de l'Annexe I (Art. 6(1)), domaines et points de l'Annexe III (Art. 6(2))
+ * et dérogation de l'article 6(3), qui ne s'applique jamais aux systèmes effectuant un profilage
+ */
+
+export interface ClassificationQuestion {
+  id: string;
+  reference: string;
+  text: string;
+}
+
+export interface AnnexIIIArea {
+  id: string;
+  reference: string;
+  title: string;
+  question: string; // Question d'entrée dans le domaine, répondue sous l'identifiant du domaine ; les points ne sont examinés que si la réponse est « oui »
+  points: ClassificationQuestion[];
+}
+
+// Art. 6(1) : les deux conditions sont cumulatives
+export const ANNEX_I_ROUTE: ClassificationQuestion[] = [
+  {
+    id: 'annex1_product',
+    reference: 'Art. 6(1)(a)',
+    text: "Le système est-il destiné à être utilisé comme composant de sécurité d'un produit couvert par la législation d'harmonisation de l'Union listée à l'annexe I (machines, jouets, dispositifs médicaux, ascenseurs, équipements radio, véhicules…), ou est-il lui-même un tel produit ?",
+  },
+  {
+    id: 'annex1_third_party_assessment',
+    reference: 'Art. 6(1)(b)',
+    text: "Ce produit doit-il faire l'objet d'une évaluation de la conformité par un tiers en vue de sa mise sur le marché ou de sa mise en service ?",
+  },
+];
+
+export const ANNEX_III_AREAS: AnnexIIIArea[] = [
+  {
+    id: 'annex3_1',
+    reference: 'Annexe III, point 1',
+    title: 'Biométrie',
+    question: "Le système traite-t-il des données biométriques, dans la mesure où leur utilisation est autorisée par le droit applicable ?",
+    points: [
+      {
+        id: 'annex3_1a',
+        reference: 'Annexe III, point 1(a)',
+        text: "S'agit-il d'un système d'identification biométrique à distance (hors vérification biométrique ayant pour seul but de confirmer qu'une personne est bien celle qu'elle prétend être) ?",
+      },
+      {
+        id: 'annex3_1b',
+        reference: 'Annexe III, point 1(b)',
+        text: "S'agit-il d'un système de catégorisation biométrique en fonction d'attributs ou de caractéristiques sensibles ou protégés déduits ?",
+      },
+      {
+        id: 'annex3_1c',
+        reference: 'Annexe III, point 1(c)',
+        text: "S'agit-il d'un système de reconnaissance des émotions ?",
+      },
+    ],
+  },
+  {
+    id: 'annex3_2',
+    reference: 'Annexe III, point 2',
+    title: 'Infrastructures critiques',
+    question: "Le système intervient-il dans la gestion ou l'exploitation d'infrastructures critiques ?",
+    points: [
+      {
+        id: 'annex3_2_safety_component',
+        reference: 'Annexe III, point 2',
+        text: "Est-il utilisé comme composant de sécurité dans la gestion et l'exploitation d'infrastructures numériques critiques, du trafic routier ou de la fourniture d'eau, de gaz, de chauffage ou d'électricité ?",
+      },
+    ],
+  },
+  {
+    id: 'annex3_3',
+    reference: 'Annexe III, point 3',
+    title: 'Éducation et formation professionnelle',
+    question: "Le système est-il utilisé dans le domaine de l'éducation ou de la formation professionnelle ?",
+    points: [
+      {
+        id: 'annex3_3a',
+        reference: 'Annexe III, point 3(a)',
+        text: "Détermine-t-il l'accès, l'admission ou l'affectation de personnes à des établissements d'enseignement et de formation professionnelle ?",
+      },
+      {
+        id: 'annex3_3b',
+        reference: 'Annexe III, point 3(b)',
+        text: "Évalue-t-il les acquis d'apprentissage, y compris pour orienter le processus d'apprentissage ?",
+      },
+      {
+        id: 'annex3_3c',
+        reference: 'Annexe III, point 3(c)',
+        text: "Évalue-t-il le niveau d'enseignement approprié qu'une personne recevra ou auquel elle pourra accéder ?",
+      },
+      {
+        id: 'annex3_3d',
+        reference: 'Annexe III, point 3(d)',
+        text: "Surveille-t-il ou détecte-t-il des comportements interdits chez les étudiants lors d'examens ?",
+      },
+    ],
+  },
+  {
+    id: 'annex3_4',
+    reference: 'Annexe III, point 4',
+    title: "Emploi, gestion de la main-d'œuvre et accès à l'emploi indépendant",
+    question: "Le système est-il utilisé dans le domaine de l'emploi ou de la gestion des travailleurs ?",
+    points: [
+      {
+        id: 'annex3_4a',
+        reference: 'Annexe III, point 4(a)',
+        text: "Sert-il au recrutement ou à la sélection de personnes, notamment pour publier des offres ciblées, analyser et filtrer les candidatures ou évaluer les candidats ?",
+      },
+      {
+        id: 'annex3_4b',
+        reference: 'Annexe III, point 4(b)',
+        text: "Sert-il à prendre des décisions sur les conditions de travail, la promotion ou le licenciement, à attribuer des tâches sur la base du comportement ou de traits personnels, ou à suivre et évaluer les performances des travailleurs ?",
+      },
+    ],
+  },
+  {
+    id: 'annex3_5',
+    reference: 'Annexe III, point 5',
+    title: 'Accès aux services privés essentiels et aux services et prestations publics essentiels',
+    question: "Le système conditionne-t-il l'accès à des services privés essentiels ou à des services et prestations publics essentiels ?",
+    points: [
+      {
+        id: 'annex3_5a',
+        reference: 'Annexe III, point 5(a)',
+        text: "Est-il utilisé par ou pour des autorités publiques afin d'évaluer l'éligibilité de personnes aux prestations et services d'aide sociale essentiels, y compris les soins de santé, ou pour les octroyer, réduire, révoquer ou récupérer ?",
+      },
+      {
+        id: 'annex3_5b',
+        reference: 'Annexe III, point 5(b)',
+        text: "Évalue-t-il la solvabilité de personnes ou établit-il leur note de crédit (hors détection de la fraude financière) ?",
+      },
+      {
+        id: 'annex3_5c',
+        reference: 'Annexe III, point 5(c)',
+        text: "Sert-il à l'évaluation des risques et à la tarification en matière d'assurance vie et d'assurance maladie ?",
+      },
+      {
+        id: 'annex3_5d',
+        reference: 'Annexe III, point 5(d)',
+        text: "Évalue-t-il et classe-t-il les appels d'urgence, ou établit-il des priorités dans l'envoi des services d'intervention d'urgence ou le triage des patients ?",
+      },
+    ],
+  },
+  {
+    id: 'annex3_6',
+    reference: 'Annexe III, point 6',
+    title: 'Répression',
+    question: "Le système est-il utilisé par des autorités répressives, ou en leur nom ?",
+    points: [
+      {
+        id: 'annex3_6a',
+        reference: 'Annexe III, point 6(a)',
+        text: "Évalue-t-il le risque qu'une personne devienne victime d'infractions pénales ?",
+      },
+      {
+        id: 'annex3_6b',
+        reference: 'Annexe III, point 6(b)',
+        text: "Est-il utilisé comme polygraphe ou outil similaire ?",
+      },
+      {
+        id: 'annex3_6c',
+        reference: 'Annexe III, point 6(c)',
+        text: "Évalue-t-il la fiabilité des preuves au cours d'enquêtes ou de poursuites pénales ?",
+      },
+      {
+        id: 'annex3_6d',
+        reference: 'Annexe III, point 6(d)',
+        text: "Évalue-t-il le risque qu'une personne commette une infraction ou récidive (autrement que sur la seule base du profilage), ou évalue-t-il des traits de personnalité ou le comportement criminel passé ?",
+      },
+      {
+        id: 'annex3_6e',
+        reference: 'Annexe III, point 6(e)',
+        text: "Effectue-t-il un profilage de personnes dans le cadre de la détection d'infractions pénales, d'enquêtes ou de poursuites ?",
+      },
+    ],
+  },
+  {
+    id: 'annex3_7',
+    reference: 'Annexe III, point 7',
+    title: 'Migration, asile et gestion des contrôles aux frontières',
+    question: "Le système est-il utilisé par des autorités publiques compétentes en matière de migration, d'asile ou de contrôle aux frontières, ou en leur nom ?",
+    points: [
+      {
+        id: 'annex3_7a',
+        reference: 'Annexe III, point 7(a)',
+        text: "Est-il utilisé comme polygraphe ou outil similaire ?",
+      },
+      {
+        id: 'annex3_7b',
+        reference: 'Annexe III, point 7(b)',
+        text: "Évalue-t-il un risque (de sécurité, de migration irrégulière ou pour la santé) posé par une personne qui entre ou a l'intention d'entrer sur le territoire d'un État membre ?",
+      },
+      {
+        id: 'annex3_7c',
+        reference: 'Annexe III, point 7(c)',
+        text: "Aide-t-il à l'examen des demandes d'asile, de visa ou de titre de séjour et des plaintes connexes, y compris l'évaluation de la fiabilité des éléments de preuve ?",
+      },
+      {
+        id: 'annex3_7d',
+        reference: 'Annexe III, point 7(d)',
+        text: "Sert-il à détecter, reconnaître ou identifier des personnes (hors vérification des documents de voyage) ?",
+      },
+    ],
+  },
+  {
+    id: 'annex3_8',
+    reference: 'Annexe III, point 8',
+    title: 'Administration de la justice et processus démocratiques',
+    question: "Le système intervient-il dans l'administration de la justice ou dans des processus démocratiques ?",
+    points: [
+      {
+        id: 'annex3_8a',
+        reference: 'Annexe III, point 8(a)',
+        text: "Aide-t-il une autorité judiciaire (ou un mode alternatif de règlement des litiges) à rechercher et interpréter les faits et le droit et à appliquer la loi à un ensemble concret de faits ?",
+      },
+      {
+        id: 'annex3_8b',
+        reference: 'Annexe III, point 8(b)',
+        text: "Est-il destiné à influencer le résultat d'une élection ou d'un référendum, ou le comportement électoral de personnes (hors outils d'organisation logistique de campagnes) ?",
+      },
+    ],
+  },
+];
+
+// Art. 6(3), dernier alinéa : un système de l'Annexe III qui effectue un profilage est toujours à haut risque
+export const PROFILING_QUESTION: ClassificationQuestion = {
+  id: 'art6_3_profiling',
+  reference: 'Art. 6(3), quatrième alinéa',
+  text: "Le système effectue-t-il un profilage de personnes physiques au sens de l'article 4, point 4), du RGPD ?",
+};
+
+export const NO_SIGNIFICANT_RISK_QUESTION: ClassificationQuestion = {
+  id: 'art6_3_no_significant_risk',
+  reference: 'Art. 6(3), premier alinéa',
+  text: "Le système ne présente-t-il pas de risque important de préjudice pour la santé, la sécurité ou les droits fondamentaux, notamment en n'influençant pas de manière significative le résultat de la prise de décision ?",
+};
+
+// Art. 6(3), deuxième alinéa : une seule de ces conditions suffit
+export const DEROGATION_CONDITIONS: ClassificationQuestion[] = [
+  {
+    id: 'art6_3a_narrow_procedural_task',
+    reference: 'Art. 6(3)(a)',
+    text: "Le système est-il destiné à accomplir une tâche procédurale étroite ?",
+  },
+  {
+    id: 'art6_3b_improve_human_activity',
+    reference: 'Art. 6(3)(b)',
+    text: "Est-il destiné à améliorer le résultat d'une activité humaine préalablement réalisée ?",
+  },
+  {
+    id: 'art6_3c_detect_patterns',
+    reference: 'Art. 6(3)(c)',
+    text: "Est-il destiné à détecter des schémas décisionnels ou des écarts par rapport à des schémas antérieurs, sans remplacer ni influencer l'évaluation humaine réalisée sans examen humain approprié ?",
+  },
+  {
+    id: 'art6_3d_preparatory_task',
+    reference: 'Art. 6(3)(d)',
+    text: "Est-il destiné à exécuter une tâche préparatoire à une évaluation pertinente aux fins des cas d'utilisation de l'annexe III ?",
+  },
+];
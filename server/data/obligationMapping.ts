@@ -0,0 +1,155 @@
+/**
+ * Correspondance articles du Règlement (UE) 2024/1689 → catégories de la matrice de conformité
+ *
+ * Chaque article est rattaché à une catégorie d'obligation avec les niveaux de risque
+ * pour lesquels il s'applique et la justification du rattachement. Les numéros d'articles
+ * sont ceux de completeAiActDatabase.ts.
+ */
+
+import { completeAiActArticles } from './completeAiActDatabase';
+
+export type ObligationKey = 'documentation' | 'testing' | 'surveillance' | 'transparency' | 'certification';
+
+export type MappedRiskLevel = 'high' | 'limited' | 'minimal';
+
+export interface ObligationArticleMapping {
+  articleNumber: string;
+  riskLevels: MappedRiskLevel[];
+  rationale: string;
+}
+
+export const OBLIGATION_LABELS: Record<ObligationKey, string> = {
+  documentation: 'Documentation',
+  testing: 'Tests',
+  surveillance: 'Surveillance',
+  transparency: 'Transparence',
+  certification: 'Certification',
+};
+
+export const OBLIGATION_ARTICLE_MAPPING: Record<ObligationKey, ObligationArticleMapping[]> = {
+  documentation: [
+    {
+      articleNumber: 'Article 11',
+      riskLevels: ['high'],
+      rationale: "Documentation technique établie avant la mise sur le marché (Annexe IV)",
+    },
+    {
+      articleNumber: 'Article 12',
+      riskLevels: ['high'],
+      rationale: "Journalisation automatique des événements tout au long du cycle de vie",
+    },
+    {
+      articleNumber: 'Article 18',
+      riskLevels: ['high'],
+      rationale: "Conservation de la documentation à la disposition des autorités pendant dix ans",
+    },
+  ],
+  testing: [
+    {
+      articleNumber: 'Article 9',
+      riskLevels: ['high'],
+      rationale: "Système de gestion des risques incluant les tests avant mise sur le marché",
+    },
+    {
+      articleNumber: 'Article 10',
+      riskLevels: ['high'],
+      rationale: "Qualité et gouvernance des jeux de données d'entraînement, de validation et de test",
+    },
+    {
+      articleNumber: 'Article 15',
+      riskLevels: ['high'],
+      rationale: "Niveaux d'exactitude, de robustesse et de cybersécurité mesurés et déclarés",
+    },
+  ],
+  surveillance: [
+    {
+      articleNumber: 'Article 14',
+      riskLevels: ['high'],
+      rationale: "Mesures de contrôle humain intégrées au système",
+    },
+    {
+      articleNumber: 'Article 26',
+      riskLevels: ['high'],
+      rationale: "Surveillance du fonctionnement par le déployeur et conservation des journaux",
+    },
+    {
+      articleNumber: 'Article 72',
+      riskLevels: ['high'],
+      rationale: "Plan de surveillance après commercialisation du fournisseur",
+    },
+  ],
+  transparency: [
+    {
+      articleNumber: 'Article 13',
+      riskLevels: ['high'],
+      rationale: "Notice d'utilisation et informations fournies aux déployeurs",
+    },
+    {
+      articleNumber: 'Article 50',
+      riskLevels: ['limited'],
+      rationale: "Information des personnes exposées à un système d'IA ou à un contenu généré",
+    },
+  ],
+  certification: [
+    {
+      articleNumber: 'Article 16',
+      riskLevels: ['high'],
+      rationale: "Obligations du fournisseur préalables à la mise sur le marché",
+    },
+    {
+      articleNumber: 'Article 17',
+      riskLevels: ['high'],
+      rationale: "Système de gestion de la qualité du fournisseur",
+    },
+    {
+      articleNumber: 'Article 43',
+      riskLevels: ['high'],
+      rationale: "Procédure d'évaluation de la conformité (contrôle interne ou organisme notifié)",
+    },
+    {
+      articleNumber: 'Article 47',
+      riskLevels: ['high'],
+      rationale: "Déclaration UE de conformité établie et tenue à jour par le fournisseur",
+    },
+    {
+      articleNumber: 'Article 48',
+      riskLevels: ['high'],
+      rationale: "Marquage CE apposé de façon visible, lisible et indélébile",
+    },
+    {
+      articleNumber: 'Article 49',
+      riskLevels: ['high'],
+      rationale: "Enregistrement du système dans la base de données de l'UE avant la mise sur le marché",
+    },
+    {
+      articleNumber: 'Article 23',
+      riskLevels: ['high'],
+      rationale: "Vérification par l'importateur de l'évaluation de la conformité et du marquage CE",
+    },
+    {
+      articleNumber: 'Article 24',
+      riskLevels: ['high'],
+      rationale: "Vérification par le distributeur du marquage CE et de la déclaration UE de conformité",
+    },
+  ],
+};
+
+/**
+ * Articles qui déterminent le statut d'une catégorie pour un niveau de risque donné
+ */
+export function getMappedArticles(obligation: ObligationKey, riskLevel: string): ObligationArticleMapping[] {
+  return OBLIGATION_ARTICLE_MAPPING[obligation]
+    .filter(mapping => (mapping.riskLevels as string[]).includes(riskLevel));
+}
+
+/**
+ * Catégories auxquelles un article est rattaché, tous niveaux de risque confondus
+ */
+export function getObligationsForArticle(articleNumber: string): ObligationKey[] {
+  return (Object.keys(OBLIGATION_ARTICLE_MAPPING) as ObligationKey[])
+    .filter(key => OBLIGATION_ARTICLE_MAPPING[key].some(mapping => mapping.articleNumber === articleNumber));
+}
+
+export function getArticleTitle(articleNumber: string): string {
+  return completeAiActArticles.find(article => article.articleNumber === articleNumber)?.title || articleNumber;
+}
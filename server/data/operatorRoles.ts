@@ -0,0 +1,148 @@
+/**
+ * Rôles d'opérateur (fournisseur, déployeur, importateur, distributeur, mandataire) et articles
+ * du Règlement (UE) 2024/1689 qui s'appliquent à chacun
+ *
+ * Les articles sont étiquetés par `CompleteArticle.applicableTo` (voir completeAiActDatabase.ts) ;
+ * un article étiqueté « all » s'applique à tous les rôles.
+ */
+
+import { completeAiActArticles, type CompleteArticle } from './completeAiActDatabase';
+import type { OperatorRole, ProviderTrigger } from '@shared/schema';
+
+export const OPERATOR_ROLE_LABELS: Record<OperatorRole, string> = {
+  provider: 'Fournisseur',
+  deployer: 'Déployeur',
+  importer: 'Importateur',
+  distributor: 'Distributeur',
+  authorized_representative: 'Mandataire',
+};
+
+export const PROVIDER_TRIGGER_LABELS: Record<ProviderTrigger, string> = {
+  own_name_or_trademark: "Commercialisation sous son nom ou sa marque (Art. 25(1)(a))",
+  substantial_modification: "Modification substantielle (Art. 25(1)(b))",
+  intended_purpose_change: "Changement de destination rendant le système à haut risque (Art. 25(1)(c))",
+};
+
+// Étiquettes `applicableTo` des articles couvertes par chaque rôle
+const ROLE_ARTICLE_TAGS: Record<OperatorRole, string[]> = {
+  provider: ['providers', 'GPAI providers'],
+  deployer: ['deployers', 'public authorities'],
+  importer: ['importers'],
+  distributor: ['distributors'],
+  authorized_representative: ['authorised representatives', 'authorized representatives'],
+};
+
+// Articles cités dans les obligations mais absents de la base
+const ARTICLE_TAGS_FALLBACK: Record<string, string[]> = {
+  'Article 18': ['providers'],
+  'Article 27': ['deployers'],
+  'Article 43': ['providers'],
+  'Article 47': ['providers'],
+  'Article 48': ['providers'],
+  'Article 49': ['providers', 'public authorities'],
+  'Article 51': ['providers'],
+  'Article 73': ['providers'],
+};
+
+interface OperatorRoleHolder {
+  operatorRoles?: OperatorRole[] | null;
+  providerTrigger?: ProviderTrigger | string | null;
+}
+
+/**
+ * Rôles effectifs : un déployeur, importateur ou distributeur qui relève de l'article 25(1)
+ * est soumis aux obligations du fournisseur
+ */
+export function getEffectiveRoles(system: OperatorRoleHolder): OperatorRole[] {
+  const roles = new Set<OperatorRole>(system.operatorRoles?.length ? system.operatorRoles : ['provider']);
+  if (system.providerTrigger) {
+    roles.add('provider');
+  }
+  return Array.from(roles);
+}
+
+export function isArticleApplicableToRoles(article: Pick<CompleteArticle, 'applicableTo'>, roles: OperatorRole[]): boolean {
+  if (article.applicableTo.includes('all')) {
+    return true;
+  }
+  return roles.some(role => ROLE_ARTICLE_TAGS[role].some(tag => article.applicableTo.includes(tag)));
+}
+
+/**
+ * Un article inconnu de la base et de la table de repli n'est pas filtré
+ */
+export function isArticleNumberApplicable(articleNumber: string, roles: OperatorRole[]): boolean {
+  const article = completeAiActArticles.find(candidate => candidate.articleNumber === articleNumber);
+  if (article) {
+    return isArticleApplicableToRoles(article, roles);
+  }
+  const fallback = ARTICLE_TAGS_FALLBACK[articleNumber];
+  return !fallback || isArticleApplicableToRoles({ applicableTo: fallback }, roles);
+}
+
+export interface DocumentSuggestion {
+  documentType: string;
+  articleNumbers: string[];
+  recommended: boolean; // Au moins un des articles s'applique aux rôles du système
+}
+
+// Articles qui fondent chaque modèle de document (voir /api/documents/generate)
+const DOCUMENT_TYPE_ARTICLES: Record<string, string[]> = {
+  technical_documentation: ['Article 11'],
+  impact_assessment: ['Article 27'],
+  conformity_declaration: ['Article 47', 'Article 23', 'Article 24'],
+  human_oversight_plan: ['Article 14', 'Article 26'],
+  usage_instructions: ['Article 13'],
+  incident_register: ['Article 73', 'Article 26'],
+};
+
+export function getDocumentSuggestions(roles: OperatorRole[]): DocumentSuggestion[] {
+  return Object.entries(DOCUMENT_TYPE_ARTICLES).map(([documentType, articleNumbers]) => ({
+    documentType,
+    articleNumbers,
+    recommended: articleNumbers.some(articleNumber => isArticleNumberApplicable(articleNumber, roles)),
+  }));
+}
+
+/**
+ * Articles d'un niveau de risque propres aux rôles autres que fournisseur
+ * (ex. Article 26 pour le déployeur, Article 23 pour l'importateur)
+ */
+export function getRoleSpecificArticles(riskLevel: string, roles: OperatorRole[]): CompleteArticle[] {
+  const nonProviderRoles = roles.filter(role => role !== 'provider');
+  return completeAiActArticles.filter(article =>
+    article.riskCategory === riskLevel &&
+    !article.applicableTo.includes('all') &&
+    !isArticleApplicableToRoles(article, ['provider']) &&
+    isArticleApplicableToRoles(article, nonProviderRoles)
+  );
+}
+
+/**
+ * Retire les obligations dont aucun article cité ne s'applique aux rôles, puis ajoute
+ * les obligations propres aux autres rôles. Les obligations sans article sont conservées.
+ */
+export function getObligationsForRoles(obligations: string[], riskLevel: string, roles: OperatorRole[]): string[] {
+  const applicable = obligations.filter(obligation => {
+    const articleNumbers = Array.from(obligation.matchAll(/Articles? (\d+)/g), match => `Article ${match[1]}`);
+    return articleNumbers.length === 0 || articleNumbers.some(articleNumber => isArticleNumberApplicable(articleNumber, roles));
+  });
+
+  const roleSpecific = getRoleSpecificArticles(riskLevel, roles)
+    .map(article => `${article.title} (${article.articleNumber})`)
+    .filter(obligation => !applicable.includes(obligation));
+
+  return [...applicable, ...roleSpecific];
+}
+
+/**
+ * Libellé lisible des rôles effectifs, pour les prompts et documents générés
+ */
+export function describeRoles(system: OperatorRoleHolder): string {
+  const labels = getEffectiveRoles(system).map(role => OPERATOR_ROLE_LABELS[role]);
+  if (system.providerTrigger && !system.operatorRoles?.includes('provider')) {
+    const trigger = PROVIDER_TRIGGER_LABELS[system.providerTrigger as ProviderTrigger] || system.providerTrigger;
+    return `${labels.join(', ')} — devenu fournisseur : ${trigger}`;
+  }
+  return labels.join(', ');
+}
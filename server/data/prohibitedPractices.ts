@@ -0,0 +1,291 @@
+/**
+ * Pratiques d'IA interdites (Article 5(1) du Règlement (UE) 2024/1689) et exceptions prévues par le texte
+ *
+ * Une pratique est interdite lorsque tous ses critères sont remplis et qu'aucune exception ne s'applique.
+ * Une exception s'applique lorsque toutes ses questions reçoivent une réponse positive.
+ */
+
+export interface ScreeningQuestion {
+  id: string;
+  paragraph: string;
+  text: string;
+}
+
+export interface ProhibitedPracticeException {
+  id: string;
+  paragraph: string;
+  title: string;
+  questions: ScreeningQuestion[];
+}
+
+export interface ProhibitedPracticeDefinition {
+  id: string;
+  paragraph: string;
+  title: string;
+  description: string;
+  criteria: ScreeningQuestion[];
+  exceptions: ProhibitedPracticeException[];
+}
+
+// Conditions communes aux exceptions de l'Art. 5(1)(h) : autorisation préalable et garanties des paragraphes 2 et 3
+const REAL_TIME_RBI_SAFEGUARDS: ScreeningQuestion[] = [
+  {
+    id: 'art5_1h_authorisation',
+    paragraph: 'Art. 5(3)',
+    text: "Chaque utilisation est-elle subordonnée à l'autorisation préalable d'une autorité judiciaire ou d'une autorité administrative indépendante de l'État membre (ou, en cas d'urgence dûment justifiée, demandée dans les 24 heures) ?",
+  },
+  {
+    id: 'art5_1h_safeguards',
+    paragraph: 'Art. 5(2)',
+    text: "L'utilisation vise uniquement à confirmer l'identité d'une personne spécifiquement ciblée, après une analyse d'impact sur les droits fondamentaux (Art. 27), un enregistrement du système (Art. 49) et dans les limites prévues par le droit national ?",
+  },
+];
+
+export const PROHIBITED_PRACTICES: ProhibitedPracticeDefinition[] = [
+  {
+    id: 'art5_1a_subliminal_manipulation',
+    paragraph: 'Art. 5(1)(a)',
+    title: 'Techniques subliminales, manipulatrices ou trompeuses',
+    description: "Systèmes qui ont recours à des techniques subliminales, au-dessous du seuil de conscience, ou délibérément manipulatrices ou trompeuses, altérant substantiellement le comportement des personnes et causant un préjudice important.",
+    criteria: [
+      {
+        id: 'art5_1a_techniques',
+        paragraph: 'Art. 5(1)(a)',
+        text: "Le système a-t-il recours à des techniques subliminales échappant à la conscience d'une personne, ou à des techniques délibérément manipulatrices ou trompeuses ?",
+      },
+      {
+        id: 'art5_1a_distortion',
+        paragraph: 'Art. 5(1)(a)',
+        text: "Ces techniques ont-elles pour objectif ou pour effet d'altérer substantiellement le comportement d'une personne ou d'un groupe en portant atteinte à sa capacité à prendre une décision éclairée ?",
+      },
+      {
+        id: 'art5_1a_harm',
+        paragraph: 'Art. 5(1)(a)',
+        text: "Cette altération cause-t-elle, ou est-elle raisonnablement susceptible de causer, un préjudice important à cette personne, à une autre personne ou à un groupe ?",
+      },
+    ],
+    exceptions: [],
+  },
+  {
+    id: 'art5_1b_exploiting_vulnerabilities',
+    paragraph: 'Art. 5(1)(b)',
+    title: 'Exploitation des vulnérabilités',
+    description: "Systèmes qui exploitent les éventuelles vulnérabilités dues à l'âge, au handicap ou à la situation sociale ou économique spécifique d'une personne ou d'un groupe.",
+    criteria: [
+      {
+        id: 'art5_1b_vulnerabilities',
+        paragraph: 'Art. 5(1)(b)',
+        text: "Le système exploite-t-il les vulnérabilités d'une personne ou d'un groupe dues à leur âge, à leur handicap ou à leur situation sociale ou économique spécifique ?",
+      },
+      {
+        id: 'art5_1b_distortion',
+        paragraph: 'Art. 5(1)(b)',
+        text: "Cette exploitation a-t-elle pour objectif ou pour effet d'altérer substantiellement le comportement de cette personne ou d'un membre de ce groupe ?",
+      },
+      {
+        id: 'art5_1b_harm',
+        paragraph: 'Art. 5(1)(b)',
+        text: "Cette altération cause-t-elle, ou est-elle raisonnablement susceptible de causer, un préjudice important ?",
+      },
+    ],
+    exceptions: [],
+  },
+  {
+    id: 'art5_1c_social_scoring',
+    paragraph: 'Art. 5(1)(c)',
+    title: 'Notation sociale',
+    description: "Systèmes d'évaluation ou de classification de personnes sur une certaine période en fonction de leur comportement social ou de leurs caractéristiques personnelles, la note sociale entraînant un traitement préjudiciable.",
+    criteria: [
+      {
+        id: 'art5_1c_evaluation',
+        paragraph: 'Art. 5(1)(c)',
+        text: "Le système évalue-t-il ou classe-t-il des personnes physiques ou des groupes sur une certaine période, en fonction de leur comportement social ou de caractéristiques personnelles connues, déduites ou prédites ?",
+      },
+      {
+        id: 'art5_1c_detrimental_treatment',
+        paragraph: 'Art. 5(1)(c)(i)-(ii)',
+        text: "La note obtenue conduit-elle à un traitement préjudiciable ou défavorable dans des contextes sans rapport avec ceux où les données ont été collectées, ou injustifié ou disproportionné par rapport au comportement social ou à sa gravité ?",
+      },
+    ],
+    exceptions: [],
+  },
+  {
+    id: 'art5_1d_predictive_policing',
+    paragraph: 'Art. 5(1)(d)',
+    title: 'Prédiction du risque de commettre une infraction pénale',
+    description: "Systèmes d'évaluation des risques visant à évaluer ou prédire le risque qu'une personne commette une infraction pénale, uniquement sur la base du profilage ou de l'évaluation de ses traits de personnalité.",
+    criteria: [
+      {
+        id: 'art5_1d_crime_risk',
+        paragraph: 'Art. 5(1)(d)',
+        text: "Le système évalue-t-il ou prédit-il le risque qu'une personne physique commette une infraction pénale ?",
+      },
+      {
+        id: 'art5_1d_profiling_only',
+        paragraph: 'Art. 5(1)(d)',
+        text: "Cette évaluation repose-t-elle uniquement sur le profilage de la personne ou sur l'évaluation de ses traits de personnalité et caractéristiques ?",
+      },
+    ],
+    exceptions: [
+      {
+        id: 'art5_1d_human_assessment_support',
+        paragraph: 'Art. 5(1)(d), seconde phrase',
+        title: "Appui à une évaluation humaine fondée sur des faits objectifs",
+        questions: [
+          {
+            id: 'art5_1d_objective_facts',
+            paragraph: 'Art. 5(1)(d)',
+            text: "Le système sert-il uniquement à étayer l'évaluation humaine de l'implication d'une personne dans une activité criminelle, déjà fondée sur des faits objectifs et vérifiables directement liés à cette activité ?",
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'art5_1e_facial_scraping',
+    paragraph: 'Art. 5(1)(e)',
+    title: "Moissonnage non ciblé d'images faciales",
+    description: "Systèmes qui créent ou développent des bases de données de reconnaissance faciale par le moissonnage non ciblé d'images faciales provenant de l'internet ou de la vidéosurveillance.",
+    criteria: [
+      {
+        id: 'art5_1e_facial_database',
+        paragraph: 'Art. 5(1)(e)',
+        text: "Le système crée-t-il ou développe-t-il une base de données de reconnaissance faciale ?",
+      },
+      {
+        id: 'art5_1e_untargeted_scraping',
+        paragraph: 'Art. 5(1)(e)',
+        text: "Cette base est-elle alimentée par le moissonnage non ciblé d'images faciales provenant de l'internet ou de la vidéosurveillance ?",
+      },
+    ],
+    exceptions: [],
+  },
+  {
+    id: 'art5_1f_emotion_recognition',
+    paragraph: 'Art. 5(1)(f)',
+    title: "Reconnaissance des émotions au travail et dans l'enseignement",
+    description: "Systèmes qui infèrent les émotions d'une personne physique sur le lieu de travail et dans les établissements d'enseignement.",
+    criteria: [
+      {
+        id: 'art5_1f_emotion_inference',
+        paragraph: 'Art. 5(1)(f)',
+        text: "Le système infère-t-il les émotions de personnes physiques (notamment à partir de données biométriques) ?",
+      },
+      {
+        id: 'art5_1f_workplace_education',
+        paragraph: 'Art. 5(1)(f)',
+        text: "Est-il utilisé sur le lieu de travail ou dans un établissement d'enseignement ?",
+      },
+    ],
+    exceptions: [
+      {
+        id: 'art5_1f_medical_safety',
+        paragraph: 'Art. 5(1)(f), in fine',
+        title: 'Raisons médicales ou de sécurité',
+        questions: [
+          {
+            id: 'art5_1f_medical_safety_purpose',
+            paragraph: 'Art. 5(1)(f)',
+            text: "Le système est-il destiné à être mis en place ou mis sur le marché exclusivement pour des raisons médicales ou de sécurité ?",
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'art5_1g_biometric_categorisation',
+    paragraph: 'Art. 5(1)(g)',
+    title: 'Catégorisation biométrique des données sensibles',
+    description: "Systèmes de catégorisation biométrique qui classent individuellement les personnes sur la base de leurs données biométriques afin d'arriver à des déductions concernant des caractéristiques sensibles.",
+    criteria: [
+      {
+        id: 'art5_1g_biometric_categorisation',
+        paragraph: 'Art. 5(1)(g)',
+        text: "Le système catégorise-t-il individuellement des personnes physiques sur la base de leurs données biométriques ?",
+      },
+      {
+        id: 'art5_1g_sensitive_inference',
+        paragraph: 'Art. 5(1)(g)',
+        text: "Vise-t-il à déduire ou inférer leur race, leurs opinions politiques, leur affiliation syndicale, leurs convictions religieuses ou philosophiques, leur vie sexuelle ou leur orientation sexuelle ?",
+      },
+    ],
+    exceptions: [
+      {
+        id: 'art5_1g_dataset_labelling',
+        paragraph: 'Art. 5(1)(g), in fine',
+        title: "Étiquetage ou filtrage d'ensembles de données acquis légalement",
+        questions: [
+          {
+            id: 'art5_1g_lawful_dataset_labelling',
+            paragraph: 'Art. 5(1)(g)',
+            text: "S'agit-il uniquement de l'étiquetage ou du filtrage d'ensembles de données biométriques acquis légalement, comme des images, ou de la catégorisation de données biométriques dans le domaine répressif ?",
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'art5_1h_realtime_remote_biometric_identification',
+    paragraph: 'Art. 5(1)(h)',
+    title: 'Identification biométrique à distance en temps réel',
+    description: "Utilisation de systèmes d'identification biométrique à distance en temps réel dans des espaces accessibles au public à des fins répressives.",
+    criteria: [
+      {
+        id: 'art5_1h_realtime_rbi',
+        paragraph: 'Art. 5(1)(h)',
+        text: "Le système réalise-t-il une identification biométrique à distance en temps réel ?",
+      },
+      {
+        id: 'art5_1h_public_spaces',
+        paragraph: 'Art. 5(1)(h)',
+        text: "Est-il utilisé dans des espaces accessibles au public ?",
+      },
+      {
+        id: 'art5_1h_law_enforcement',
+        paragraph: 'Art. 5(1)(h)',
+        text: "Est-il utilisé à des fins répressives (par une autorité répressive ou pour son compte) ?",
+      },
+    ],
+    exceptions: [
+      {
+        id: 'art5_1h_i_victims_search',
+        paragraph: 'Art. 5(1)(h)(i)',
+        title: "Recherche ciblée de victimes et de personnes disparues",
+        questions: [
+          {
+            id: 'art5_1h_i_objective',
+            paragraph: 'Art. 5(1)(h)(i)',
+            text: "L'utilisation est-elle strictement nécessaire à la recherche ciblée de victimes d'enlèvement, de traite ou d'exploitation sexuelle des êtres humains, ou de personnes disparues ?",
+          },
+          ...REAL_TIME_RBI_SAFEGUARDS,
+        ],
+      },
+      {
+        id: 'art5_1h_ii_imminent_threat',
+        paragraph: 'Art. 5(1)(h)(ii)',
+        title: "Prévention d'une menace imminente ou d'une attaque terroriste",
+        questions: [
+          {
+            id: 'art5_1h_ii_objective',
+            paragraph: 'Art. 5(1)(h)(ii)',
+            text: "L'utilisation est-elle strictement nécessaire pour prévenir une menace spécifique, substantielle et imminente pour la vie ou la sécurité physique de personnes, ou une menace réelle et actuelle ou prévisible d'attaque terroriste ?",
+          },
+          ...REAL_TIME_RBI_SAFEGUARDS,
+        ],
+      },
+      {
+        id: 'art5_1h_iii_suspect_identification',
+        paragraph: 'Art. 5(1)(h)(iii)',
+        title: "Localisation ou identification d'un suspect",
+        questions: [
+          {
+            id: 'art5_1h_iii_objective',
+            paragraph: 'Art. 5(1)(h)(iii)',
+            text: "L'utilisation est-elle strictement nécessaire à la localisation ou à l'identification d'une personne soupçonnée d'une infraction pénale visée à l'annexe II, punissable d'une peine privative de liberté d'au moins quatre ans ?",
+          },
+          ...REAL_TIME_RBI_SAFEGUARDS,
+        ],
+      },
+    ],
+  },
+];
@@ -0,0 +1,90 @@
+/**
+ * Profils de risque de référence du référentiel Positive AI par cas d'usage : niveau de risque attendu
+ * sur chaque dimension, pour les clients et pour les collaborateurs. Enregistrés au démarrage si la table est vide.
+ */
+
+import type { FrameworkRiskLevel, UseCaseRiskLevels, UseCaseRiskMapping } from '@shared/schema';
+
+export type DefaultUseCaseRiskProfile = Pick<UseCaseRiskMapping, 'useCase' | 'customerRiskLevels' | 'employeeRiskLevels' | 'description'>;
+
+// Ordre des dimensions : justice, transparence, interaction humaine, impact sociétal, responsabilité, données, robustesse
+const levels = (
+  justice: FrameworkRiskLevel,
+  transparency: FrameworkRiskLevel,
+  human: FrameworkRiskLevel,
+  social: FrameworkRiskLevel,
+  responsibility: FrameworkRiskLevel,
+  data: FrameworkRiskLevel,
+  technical: FrameworkRiskLevel
+): UseCaseRiskLevels => ({
+  justice_fairness: justice,
+  transparency_explainability: transparency,
+  human_ai_interaction: human,
+  social_environmental_impact: social,
+  responsibility,
+  data_privacy: data,
+  technical_robustness_security: technical,
+});
+
+export const DEFAULT_USE_CASE_RISK_PROFILES: DefaultUseCaseRiskProfile[] = [
+  {
+    useCase: 'talent_acquisition_recruitment',
+    description: 'Tri de candidatures et évaluation de candidats',
+    customerRiskLevels: levels('minimal', 'minimal', 'minimal', 'minimal', 'minimal', 'minimal', 'minimal'),
+    employeeRiskLevels: levels('critical', 'high', 'high', 'moderate', 'high', 'high', 'moderate'),
+  },
+  {
+    useCase: 'claims_management',
+    description: 'Instruction et règlement des réclamations et sinistres',
+    customerRiskLevels: levels('high', 'high', 'high', 'moderate', 'high', 'high', 'moderate'),
+    employeeRiskLevels: levels('minimal', 'moderate', 'moderate', 'minimal', 'moderate', 'minimal', 'moderate'),
+  },
+  {
+    useCase: 'pricing_personalization',
+    description: 'Tarification individualisée',
+    customerRiskLevels: levels('high', 'high', 'moderate', 'moderate', 'moderate', 'high', 'moderate'),
+    employeeRiskLevels: levels('minimal', 'minimal', 'minimal', 'minimal', 'minimal', 'minimal', 'minimal'),
+  },
+  {
+    useCase: 'customer_service_chatbot',
+    description: 'Assistant conversationnel de relation client',
+    customerRiskLevels: levels('moderate', 'high', 'moderate', 'minimal', 'moderate', 'moderate', 'moderate'),
+    employeeRiskLevels: levels('minimal', 'minimal', 'moderate', 'minimal', 'minimal', 'minimal', 'minimal'),
+  },
+  {
+    useCase: 'fraud_detection',
+    description: 'Détection de transactions ou de comportements frauduleux',
+    customerRiskLevels: levels('high', 'moderate', 'high', 'minimal', 'high', 'high', 'high'),
+    employeeRiskLevels: levels('moderate', 'moderate', 'moderate', 'minimal', 'moderate', 'moderate', 'moderate'),
+  },
+  {
+    useCase: 'automated_decision_making',
+    description: 'Décisions individuelles prises sans intervention humaine',
+    customerRiskLevels: levels('high', 'critical', 'critical', 'moderate', 'high', 'high', 'high'),
+    employeeRiskLevels: levels('high', 'high', 'high', 'moderate', 'high', 'moderate', 'high'),
+  },
+  {
+    useCase: 'biometric_identification',
+    description: 'Identification ou vérification biométrique de personnes',
+    customerRiskLevels: levels('critical', 'high', 'high', 'high', 'high', 'critical', 'high'),
+    employeeRiskLevels: levels('high', 'high', 'high', 'moderate', 'high', 'critical', 'high'),
+  },
+  {
+    useCase: 'medical_diagnosis',
+    description: 'Aide au diagnostic et à la décision clinique',
+    customerRiskLevels: levels('high', 'high', 'critical', 'moderate', 'critical', 'critical', 'critical'),
+    employeeRiskLevels: levels('minimal', 'moderate', 'high', 'minimal', 'high', 'moderate', 'high'),
+  },
+  {
+    useCase: 'recommendation_systems',
+    description: 'Recommandation de produits ou de contenus',
+    customerRiskLevels: levels('moderate', 'moderate', 'minimal', 'moderate', 'minimal', 'moderate', 'minimal'),
+    employeeRiskLevels: levels('minimal', 'minimal', 'minimal', 'minimal', 'minimal', 'minimal', 'minimal'),
+  },
+  {
+    useCase: 'content_moderation',
+    description: 'Filtrage et modération de contenus publiés',
+    customerRiskLevels: levels('high', 'high', 'high', 'high', 'moderate', 'moderate', 'moderate'),
+    employeeRiskLevels: levels('minimal', 'moderate', 'moderate', 'moderate', 'minimal', 'minimal', 'minimal'),
+  },
+];
@@ -46,3 +46,11 @@ export class SessionError extends SecurityError {
     Object.setPrototypeOf(this, SessionError.prototype);
   }
 }
+
+export class AuthorizationError extends SecurityError {
+  constructor(message: string, code: string = 'FORBIDDEN') {
+    super(message, code, 403);
+    this.name = 'AuthorizationError';
+    Object.setPrototypeOf(this, AuthorizationError.prototype);
+  }
+}
@@ -3,6 +3,9 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { initializeDatabase } from "./init-db";
+import { certificateLifecycleService } from "./services/certificateLifecycleService";
+import { regulatorySyncService } from "./services/regulatorySyncService";
+import { reassessmentService } from "./services/reassessmentService";
 
 const app = express();
 
@@ -98,6 +101,15 @@ app.use((req, res, next) => {
     server.listen(port, "0.0.0.0", () => {
       log(`serving on port ${port}`);
       console.log(`🎉 Server running on http://localhost:${port}`);
+
+      // Certificate expiry, renewal reminders (J-60, J-30, J-7)
+      certificateLifecycleService.start();
+
+      // Regulatory collection of sources whose polling interval has elapsed
+      regulatorySyncService.start();
+
+      // Systems whose required reassessment is past its deadline become non compliant
+      reassessmentService.start();
     });
   } catch (error) {
     console.error('❌ Server startup failed:', error);
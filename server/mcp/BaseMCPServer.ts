@@ -8,6 +8,22 @@ import { MCPServerConfig, RawRegulatoryData } from '../types/regulatory-monitori
 import axios, { AxiosRequestConfig } from 'axios';
 import * as cheerio from 'cheerio';
 
+export type MCPToolResult = RawRegulatoryData[] | RawRegulatoryData | null;
+
+export type MCPToolHandler = (args: Record<string, any>) => Promise<MCPToolResult>;
+
+export interface MCPToolCall {
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export class UnknownMCPToolError extends Error {
+  constructor(server: string, tool: string) {
+    super(`Unknown tool ${tool} on MCP server ${server}`);
+    this.name = 'UnknownMCPToolError';
+  }
+}
+
 export interface HTTPFetchOptions {
   headers?: Record<string, string>;
   timeout?: number;
@@ -169,4 +185,37 @@ export abstract class BaseMCPServer {
    * This enforces a consistent interface across all MCP servers
    */
   abstract fetchRecentUpdates(params?: Record<string, any>): Promise<RawRegulatoryData[]>;
+
+  /**
+   * Abstract method: Maps each tool declared in the configuration to its implementation
+   * Used by the MCP protocol layer (stdio / streamable HTTP / in-memory)
+   */
+  protected abstract getToolHandlers(): Record<string, MCPToolHandler>;
+
+  /**
+   * Abstract method: Tool calls making up a full collection run of the source
+   * The collector agent executes them through an MCP client
+   * @param params - Collection window in days
+   */
+  abstract getCollectionPlan(params: { daysBack: number }): MCPToolCall[];
+
+  /**
+   * Executes one of the declared tools
+   * @param name - Tool name, as listed in the configuration
+   * @param args - Tool arguments (required properties of inputSchema are checked)
+   * @returns The tool result
+   */
+  async callTool(name: string, args: Record<string, any> = {}): Promise<MCPToolResult> {
+    const tool = this.config.tools.find(candidate => candidate.name === name);
+    const handler = this.getToolHandlers()[name];
+    if (!tool || !handler) {
+      throw new UnknownMCPToolError(this.config.name, name);
+    }
+
+    const missing = ((tool.inputSchema.required as string[] | undefined) || []).filter(key => args[key] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Missing required argument(s) for ${name}: ${missing.join(', ')}`);
+    }
+    return handler(args);
+  }
 }
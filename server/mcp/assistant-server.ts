@@ -0,0 +1,179 @@
+/**
+ * MCP Server de l'assistant AI Act
+ * Outils exposés aux agents de code et IDE : classification d'un système, recherche dans le règlement,
+ * lecture d'un article et matrice de conformité de l'organisation du jeton personnel.
+ * Chaque appel d'outil est journalisé dans l'audit de sécurité.
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { assessmentService } from '../services/assessmentService';
+import { regulatoryDatabaseService } from '../services/RegulatoryDatabaseService';
+import { complianceService } from '../services/complianceService';
+import { auditService } from '../services/auditService';
+import type { PersonalAccessTokenSession } from '../services/personalAccessTokenService';
+import type { PersonalAccessTokenScope, RiskAssessmentFormData } from '@shared/schema';
+
+export interface AssistantRequestMeta {
+  ipAddress: string;
+  userAgent?: string;
+}
+
+const MAX_SEARCH_RESULTS = 25;
+
+/**
+ * « 5 », « art. 5 » et « Article 5 » désignent le même article
+ */
+function normalizeArticleNumber(value: string): string {
+  const number = value.trim().replace(/^(article|art\.?)\s*/i, '');
+  return `Article ${number}`;
+}
+
+export function createAssistantServer(session: PersonalAccessTokenSession, meta: AssistantRequestMeta): McpServer {
+  const server = new McpServer(
+    { name: 'ai-act-navigator-assistant', version: '1.0.0' },
+    {
+      instructions: 'EU AI Act (Regulation 2024/1689) assistant: classify AI systems, search the regulation and read the compliance matrix of your organization.',
+    }
+  );
+  const { organizationContext } = session;
+
+  const hasScope = (scope: PersonalAccessTokenScope) => session.scopes.includes(scope);
+
+  // Exécute un outil et journalise l'appel (succès ou échec) avec le jeton utilisé
+  const runTool = async (tool: string, args: Record<string, unknown>, execute: () => Promise<unknown>): Promise<CallToolResult> => {
+    let result: CallToolResult;
+    try {
+      const data = await execute();
+      result = { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] };
+    } catch (error) {
+      result = { isError: true, content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }] };
+    }
+
+    await auditService.logSecurityEvent({
+      userId: session.user.id,
+      eventType: 'mcp_tool_called',
+      eventDescription: `MCP tool ${tool} called`,
+      ipAddress: meta.ipAddress,
+      userAgent: meta.userAgent,
+      isSuccessful: !result.isError,
+      additionalData: {
+        tool,
+        arguments: args,
+        tokenId: session.token.id,
+        organizationId: organizationContext.organizationId,
+      },
+    });
+    return result;
+  };
+
+  if (hasScope('assessments:read')) {
+    server.registerTool('classify_ai_system', {
+      title: 'Classify an AI system',
+      description: 'Run the combined EU AI Act + Positive AI Framework assessment on a described AI system (nothing is saved). Returns the risk level, Annex III high-risk domains, applicable articles, obligations and compliance gaps.',
+      inputSchema: {
+        systemName: z.string().min(1),
+        systemDescription: z.string().optional().describe('What the system or feature does'),
+        primaryUseCase: z.string().optional(),
+        industrySector: z.string().optional(),
+        applicationDomain: z.string().optional().describe('e.g. recruitment, credit_scoring, education, biometric_identification, customer_service'),
+        userCategories: z.array(z.string()).optional(),
+        geographicalScope: z.enum(['eu', 'national', 'local']).optional(),
+        humanOversight: z.enum(['full', 'intermittent', 'minimal']).optional(),
+        autonomyLevel: z.enum(['high', 'medium', 'low']).optional(),
+        safetyImpact: z.enum(['critical', 'significant', 'minimal']).optional(),
+        sensitiveData: z.enum(['yes', 'limited', 'no']).optional(),
+        frameworkResponses: z.record(z.number().int().min(1).max(5)).optional().describe('Framework v3.0 answers, questionId -> 1..5'),
+      },
+    }, async (args) => runTool('classify_ai_system', args, async () => {
+      const result = await assessmentService.assessCombined({
+        organizationName: '',
+        ...args,
+        frameworkResponses: args.frameworkResponses || {},
+      } as RiskAssessmentFormData);
+
+      return {
+        riskLevel: result.riskLevel,
+        riskScore: result.riskScore,
+        euAiActRiskLevel: result.euAiActRiskLevel,
+        isHighRiskDomain: result.euAiActClassification.isHighRiskDomain,
+        highRiskDomains: result.euAiActClassification.highRiskDomains,
+        applicableArticles: result.euAiActClassification.applicableArticles,
+        classificationReasoning: result.euAiActClassification.reasoning,
+        applicableObligations: result.applicableObligations,
+        complianceGaps: result.complianceGaps,
+        priorityActions: result.priorityActions,
+      };
+    }));
+  }
+
+  if (hasScope('regulatory:read')) {
+    server.registerTool('search_ai_act', {
+      title: 'Search the AI Act',
+      description: 'Full-text search in the articles of the EU AI Act, filterable by risk category and by operator (providers, deployers, importers, distributors).',
+      inputSchema: {
+        query: z.string().optional(),
+        riskCategory: z.enum(['unacceptable', 'high', 'limited']).optional(),
+        applicableTo: z.array(z.string()).optional().describe('e.g. ["deployers"]'),
+        keywords: z.array(z.string()).optional(),
+        limit: z.number().int().min(1).max(MAX_SEARCH_RESULTS).optional(),
+      },
+    }, async (args) => runTool('search_ai_act', args, async () => {
+      const results = await regulatoryDatabaseService.search({
+        query: args.query,
+        riskCategory: args.riskCategory,
+        applicableTo: args.applicableTo,
+        keywords: args.keywords,
+      });
+
+      return results.slice(0, args.limit || 10).map(({ article, relevanceScore, highlightedContent }) => ({
+        articleNumber: article.articleNumber,
+        title: article.title,
+        riskCategory: article.riskCategory,
+        applicableTo: article.applicableTo,
+        obligations: article.obligations,
+        relevanceScore,
+        excerpt: highlightedContent || article.content.substring(0, 400),
+        eurLexUrl: article.eurLexUrl,
+      }));
+    }));
+
+    server.registerTool('get_article', {
+      title: 'Read an AI Act article',
+      description: 'Full text, obligations and related articles of an AI Act article ("5", "Article 50"...).',
+      inputSchema: {
+        articleNumber: z.string().min(1),
+      },
+    }, async (args) => runTool('get_article', args, async () => {
+      const articleNumber = normalizeArticleNumber(args.articleNumber);
+      const article = await regulatoryDatabaseService.getArticleByNumber(articleNumber);
+      if (!article) {
+        throw new Error(`${articleNumber} not found`);
+      }
+      const related = await regulatoryDatabaseService.getRelatedArticles(articleNumber);
+      return {
+        ...article,
+        relatedArticles: related.map(relatedArticle => ({
+          articleNumber: relatedArticle.articleNumber,
+          title: relatedArticle.title,
+        })),
+      };
+    }));
+  }
+
+  if (hasScope('compliance:read')) {
+    server.registerTool('get_compliance_matrix', {
+      title: 'Compliance matrix',
+      description: 'Obligation-by-obligation compliance status of the AI systems of your organization, with explanations and linked evidence.',
+      inputSchema: {
+        systemId: z.string().optional().describe('Restrict to one AI system'),
+      },
+    }, async (args) => runTool('get_compliance_matrix', args, async () => {
+      const matrix = await complianceService.getComplianceMatrix(organizationContext.organizationId);
+      return args.systemId ? matrix.filter(item => item.systemId === args.systemId) : matrix;
+    }));
+  }
+
+  return server;
+}
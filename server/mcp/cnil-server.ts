@@ -4,7 +4,7 @@
  */
 
 import { MCPServerConfig, RawRegulatoryData } from '../types/regulatory-monitoring';
-import { BaseMCPServer } from './BaseMCPServer';
+import { BaseMCPServer, MCPToolCall, MCPToolHandler } from './BaseMCPServer';
 import * as cheerio from 'cheerio';
 
 export class CNILMCPServer extends BaseMCPServer {
@@ -220,6 +220,22 @@ export class CNILMCPServer extends BaseMCPServer {
     const limit = params?.limit || 10;
     return this.getCNILAINews(limit);
   }
+
+  protected getToolHandlers(): Record<string, MCPToolHandler> {
+    return {
+      get_cnil_ai_news: args => this.getCNILAINews(args.limit),
+      get_cnil_recommendations: args => this.getCNILRecommendations(args.topic),
+      check_cnil_sanctions: args => this.checkCNILSanctions(args.daysBack),
+    };
+  }
+
+  getCollectionPlan(params: { daysBack: number }): MCPToolCall[] {
+    return [
+      { name: 'get_cnil_ai_news', arguments: { limit: 10 } },
+      { name: 'get_cnil_recommendations', arguments: {} },
+      { name: 'check_cnil_sanctions', arguments: { daysBack: params.daysBack } },
+    ];
+  }
 }
 
 export const cnilServer = new CNILMCPServer();
@@ -0,0 +1,130 @@
+/**
+ * Base class for MCP Servers configured from a regulatory source record
+ * Shared by the generic RSS/Atom and HTML connectors: keyword filtering,
+ * collection window and mapping to RawRegulatoryData
+ */
+
+import crypto from 'crypto';
+import { DocumentType, MCPTool, RawRegulatoryData } from '../types/regulatory-monitoring';
+import { BaseMCPServer, MCPToolCall, MCPToolHandler } from './BaseMCPServer';
+import type { RegulatorySource } from '@shared/schema';
+
+export interface CollectedItem {
+  title: string;
+  url: string;
+  summary?: string;
+  publishedDate?: Date | null;
+}
+
+export abstract class ConfiguredSourceMCPServer extends BaseMCPServer {
+  protected readonly source: RegulatorySource;
+  private readonly toolName: string;
+
+  constructor(source: RegulatorySource, endpoint: string, tool: MCPTool) {
+    super({
+      name: `${source.key}-monitor`,
+      version: '1.0.0',
+      description: `Configured ${source.connectorType.toUpperCase()} connector for ${source.name}`,
+      endpoint,
+      capabilities: {
+        resources: true,
+        tools: true,
+        prompts: false,
+      },
+      tools: [tool],
+    });
+    this.source = source;
+    this.toolName = tool.name;
+  }
+
+  /**
+   * Reads the raw items from the source (feed entries or listing rows)
+   */
+  protected abstract readItems(limit: number): Promise<CollectedItem[]>;
+
+  async fetchRecentUpdates(params?: Record<string, any>): Promise<RawRegulatoryData[]> {
+    const daysBack = params?.daysBack || 7;
+    const limit = params?.limit || 50;
+
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - daysBack);
+
+    const items = await this.readItems(limit);
+    return items
+      .filter(item => item.title && item.url)
+      // Undated items are kept: listing pages often omit dates
+      .filter(item => !item.publishedDate || item.publishedDate >= cutoffDate)
+      .filter(item => this.matchesKeywords(item))
+      .map(item => this.toRegulatoryData(item));
+  }
+
+  protected getToolHandlers(): Record<string, MCPToolHandler> {
+    return {
+      [this.toolName]: args => this.fetchRecentUpdates(args),
+    };
+  }
+
+  getCollectionPlan(params: { daysBack: number }): MCPToolCall[] {
+    return [{ name: this.toolName, arguments: { daysBack: params.daysBack } }];
+  }
+
+  /**
+   * Items without any configured keyword in their title or summary are skipped
+   */
+  protected matchesKeywords(item: CollectedItem): boolean {
+    const keywords = this.source.keywords || [];
+    if (keywords.length === 0) {
+      return true;
+    }
+    const text = `${item.title} ${item.summary || ''}`.toLowerCase();
+    return keywords.some(keyword => text.includes(keyword.toLowerCase()));
+  }
+
+  protected toRegulatoryData(item: CollectedItem): RawRegulatoryData {
+    // Stable identifier so that the same document is recognised across syncs
+    const urlHash = crypto.createHash('sha1').update(item.url).digest('hex').substring(0, 16);
+
+    return {
+      sourceId: this.generateSourceId(this.source.key, urlHash),
+      source: this.source.name,
+      url: item.url,
+      title: item.title,
+      rawContent: item.summary || item.title,
+      publishedDate: item.publishedDate || new Date(),
+      documentType: this.source.documentType as DocumentType,
+      language: this.source.language,
+      metadata: {
+        keywords: [this.source.name, ...(this.source.keywords || [])],
+      },
+    };
+  }
+
+  /**
+   * Resolves links relative to the page or feed they were found in
+   */
+  protected resolveUrl(url: string, baseUrl: string): string {
+    try {
+      return new URL(url.trim(), baseUrl).toString();
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Accepts ISO/RFC dates plus the numeric European formats (31.12.2025, 31/12/2025)
+   */
+  protected parseOptionalDate(dateStr?: string | null): Date | null {
+    const value = dateStr?.trim();
+    if (!value) {
+      return null;
+    }
+
+    const european = value.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})/);
+    if (european) {
+      return new Date(parseInt(european[3]), parseInt(european[2]) - 1, parseInt(european[1]));
+    }
+
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Registre des connecteurs de sources réglementaires
+ * Associe chaque type de connecteur déclaré en base à un MCP server
+ */
+
+import { BaseMCPServer } from './BaseMCPServer';
+import { eurlexServer } from './eurlex-server';
+import { cnilServer } from './cnil-server';
+import { ecAIOfficeServer } from './ec-aioffice-server';
+import { RSSFeedMCPServer } from './rss-server';
+import { HTMLSelectorMCPServer } from './html-server';
+import type { RegulatoryConnectorType, RegulatorySource } from '@shared/schema';
+
+export type ConnectorFactory = (source: RegulatorySource) => BaseMCPServer;
+
+// Connecteurs codés (sources historiques), non supprimables
+export const BUILT_IN_CONNECTOR_TYPES: RegulatoryConnectorType[] = ['eurlex', 'cnil', 'ec_ai_office'];
+
+export class ConnectorRegistry {
+  private factories = new Map<RegulatoryConnectorType, ConnectorFactory>();
+
+  register(type: RegulatoryConnectorType, factory: ConnectorFactory): void {
+    this.factories.set(type, factory);
+  }
+
+  create(source: RegulatorySource): BaseMCPServer {
+    const factory = this.factories.get(source.connectorType);
+    if (!factory) {
+      throw new Error(`No connector registered for type ${source.connectorType}`);
+    }
+    return factory(source);
+  }
+
+  isBuiltIn(type: RegulatoryConnectorType): boolean {
+    return BUILT_IN_CONNECTOR_TYPES.includes(type);
+  }
+}
+
+export const connectorRegistry = new ConnectorRegistry();
+
+connectorRegistry.register('eurlex', () => eurlexServer);
+connectorRegistry.register('cnil', () => cnilServer);
+connectorRegistry.register('ec_ai_office', () => ecAIOfficeServer);
+connectorRegistry.register('rss', source => new RSSFeedMCPServer(source));
+connectorRegistry.register('html', source => new HTMLSelectorMCPServer(source));
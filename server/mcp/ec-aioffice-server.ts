@@ -4,7 +4,7 @@
  */
 
 import { MCPServerConfig, RawRegulatoryData } from '../types/regulatory-monitoring';
-import { BaseMCPServer } from './BaseMCPServer';
+import { BaseMCPServer, MCPToolCall, MCPToolHandler } from './BaseMCPServer';
 
 export class ECAIOfficeServer extends BaseMCPServer {
   constructor() {
@@ -181,6 +181,22 @@ export class ECAIOfficeServer extends BaseMCPServer {
     const limit = params?.limit || 10;
     return this.getAIOfficeUpdates(limit);
   }
+
+  protected getToolHandlers(): Record<string, MCPToolHandler> {
+    return {
+      get_ai_office_updates: args => this.getAIOfficeUpdates(args.limit),
+      get_codes_of_conduct: args => this.getCodesOfConduct(args.topic),
+      get_ai_board_decisions: args => this.getAIBoardDecisions(args.daysBack),
+    };
+  }
+
+  getCollectionPlan(params: { daysBack: number }): MCPToolCall[] {
+    return [
+      { name: 'get_ai_office_updates', arguments: { limit: 10 } },
+      { name: 'get_codes_of_conduct', arguments: {} },
+      { name: 'get_ai_board_decisions', arguments: { daysBack: params.daysBack } },
+    ];
+  }
 }
 
 export const ecAIOfficeServer = new ECAIOfficeServer();
@@ -4,7 +4,7 @@
  */
 
 import { MCPServerConfig, MCPTool, RawRegulatoryData } from '../types/regulatory-monitoring';
-import { BaseMCPServer } from './BaseMCPServer';
+import { BaseMCPServer, MCPToolCall, MCPToolHandler } from './BaseMCPServer';
 import * as cheerio from 'cheerio';
 
 export class EURLexMCPServer extends BaseMCPServer {
@@ -224,6 +224,23 @@ export class EURLexMCPServer extends BaseMCPServer {
     const daysBack = params?.daysBack || 7;
     return this.getRecentAIActUpdates(daysBack);
   }
+
+  protected getToolHandlers(): Record<string, MCPToolHandler> {
+    return {
+      search_eurlex: args => this.searchEURLex({
+        query: args.query,
+        dateFrom: args.dateFrom,
+        dateTo: args.dateTo,
+        documentTypes: args.documentTypes,
+      }),
+      fetch_document: args => this.fetchDocument(args.celex, args.language),
+      get_recent_ai_act_updates: args => this.getRecentAIActUpdates(args.daysBack),
+    };
+  }
+
+  getCollectionPlan(params: { daysBack: number }): MCPToolCall[] {
+    return [{ name: 'get_recent_ai_act_updates', arguments: { daysBack: params.daysBack } }];
+  }
 }
 
 export const eurlexServer = new EURLexMCPServer();
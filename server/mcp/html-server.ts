@@ -0,0 +1,52 @@
+/**
+ * MCP Server générique HTML
+ * Connecteur piloté par sélecteurs CSS pour les pages de publications sans flux
+ */
+
+import { ConfiguredSourceMCPServer, CollectedItem } from './configured-source-server';
+import type { RegulatorySource } from '@shared/schema';
+
+export class HTMLSelectorMCPServer extends ConfiguredSourceMCPServer {
+  constructor(source: RegulatorySource) {
+    super(source, source.url, {
+      name: 'get_listing_items',
+      description: `Extract recent publications from the ${source.name} listing page`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          daysBack: { type: 'number', default: 7 },
+          limit: { type: 'number', default: 50 },
+        },
+      },
+    });
+  }
+
+  protected async readItems(limit: number): Promise<CollectedItem[]> {
+    const selectors = this.source.selectors;
+    if (!selectors) {
+      throw new Error(`Source ${this.source.key} has no CSS selectors configured`);
+    }
+
+    const html = await this.fetchHTML(this.source.url);
+    const $ = this.parseHTML(html);
+    const items: CollectedItem[] = [];
+
+    $(selectors.item).slice(0, limit).each((_, element) => {
+      const $el = $(element);
+      const $link = selectors.link ? $el.find(selectors.link).first() : $el.find('a[href]').first();
+      // The item itself may be the link (<a class="news-item">)
+      const href = $link.attr('href') || $el.attr('href') || '';
+      const $date = selectors.date ? $el.find(selectors.date).first() : null;
+
+      items.push({
+        title: $el.find(selectors.title).first().text().replace(/\s+/g, ' ').trim(),
+        url: href ? this.resolveUrl(href, this.source.url) : '',
+        summary: selectors.summary ? $el.find(selectors.summary).first().text().replace(/\s+/g, ' ').trim() : undefined,
+        // <time datetime="..."> is more reliable than the displayed text
+        publishedDate: $date ? this.parseOptionalDate($date.attr('datetime') || $date.text()) : null,
+      });
+    });
+
+    return items;
+  }
+}
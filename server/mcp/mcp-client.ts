@@ -0,0 +1,73 @@
+/**
+ * Client Model Context Protocol utilisé par les agents
+ * Les connecteurs sont consommés via le protocole (transport en mémoire),
+ * exactement comme un hôte MCP externe le ferait en stdio ou en HTTP
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BaseMCPServer, MCPToolCall } from './BaseMCPServer';
+import { createProtocolServer, type RegulatoryToolContent } from './protocol';
+import type { RawRegulatoryData } from '../types/regulatory-monitoring';
+
+export class MCPToolCallError extends Error {
+  constructor(tool: string, message: string) {
+    super(`MCP tool ${tool} failed: ${message}`);
+    this.name = 'MCPToolCallError';
+  }
+}
+
+export class MCPConnectorClient {
+  private constructor(
+    private readonly client: Client,
+    private readonly server: Server
+  ) {}
+
+  /**
+   * Connecte un client à une instance protocolaire du connecteur
+   */
+  static async connect(connector: BaseMCPServer): Promise<MCPConnectorClient> {
+    const server = createProtocolServer(connector);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'ai-act-navigator-agents', version: '1.0.0' });
+
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+    return new MCPConnectorClient(client, server);
+  }
+
+  async listTools(): Promise<string[]> {
+    const { tools } = await this.client.listTools();
+    return tools.map(tool => tool.name);
+  }
+
+  async callTool(name: string, args: Record<string, any> = {}): Promise<RawRegulatoryData[]> {
+    const result = await this.client.callTool({ name, arguments: args });
+    const text = Array.isArray(result.content) && result.content[0]?.type === 'text' ? result.content[0].text : '';
+
+    if (result.isError) {
+      throw new MCPToolCallError(name, text || 'unknown error');
+    }
+
+    const content = (result.structuredContent || JSON.parse(text)) as RegulatoryToolContent;
+    // Les dates sont sérialisées en JSON par le protocole
+    return content.items.map(item => ({ ...item, publishedDate: new Date(item.publishedDate) }));
+  }
+
+  /**
+   * Exécute une suite d'appels d'outils (plan de collecte) et concatène les résultats
+   */
+  async callTools(calls: MCPToolCall[]): Promise<RawRegulatoryData[]> {
+    const results: RawRegulatoryData[] = [];
+    for (const call of calls) {
+      results.push(...await this.callTool(call.name, call.arguments));
+    }
+    return results;
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+    await this.server.close();
+  }
+}
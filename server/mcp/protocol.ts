@@ -0,0 +1,86 @@
+/**
+ * Couche protocole Model Context Protocol
+ * Expose un BaseMCPServer via le SDK officiel : les MCPTool déclarés deviennent des outils MCP,
+ * utilisables en stdio, en streamable HTTP ou en mémoire par les agents
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ErrorCode,
+  McpError,
+  type CallToolResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import { BaseMCPServer, MCPToolResult, UnknownMCPToolError } from './BaseMCPServer';
+import { eurlexServer } from './eurlex-server';
+import { cnilServer } from './cnil-server';
+import { ecAIOfficeServer } from './ec-aioffice-server';
+import type { RawRegulatoryData } from '../types/regulatory-monitoring';
+
+// Serveurs publiés pour les hôtes MCP externes, par clé de source
+export const EXPOSED_MCP_SERVERS: Record<string, BaseMCPServer> = {
+  'eurlex': eurlexServer,
+  'cnil': cnilServer,
+  'ec-ai-office': ecAIOfficeServer,
+};
+
+/**
+ * Contenu structuré renvoyé par chaque outil : toujours une liste de documents
+ */
+export interface RegulatoryToolContent {
+  items: RawRegulatoryData[];
+}
+
+function toItems(result: MCPToolResult): RawRegulatoryData[] {
+  if (!result) {
+    return [];
+  }
+  return Array.isArray(result) ? result : [result];
+}
+
+/**
+ * Crée une instance de serveur protocolaire pour un connecteur
+ * Une instance par connexion (le transport streamable HTTP est sans état)
+ */
+export function createProtocolServer(connector: BaseMCPServer): Server {
+  const config = connector.getConfig();
+  const server = new Server(
+    { name: config.name, version: config.version },
+    {
+      capabilities: { tools: {} },
+      instructions: config.description,
+    }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: config.tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: { type: 'object' as const, ...tool.inputSchema },
+    })),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToolResult> => {
+    try {
+      const content: RegulatoryToolContent = {
+        items: toItems(await connector.callTool(request.params.name, request.params.arguments || {})),
+      };
+      return {
+        content: [{ type: 'text', text: JSON.stringify(content) }],
+        structuredContent: { ...content },
+      };
+    } catch (error) {
+      if (error instanceof UnknownMCPToolError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      // Erreurs d'exécution remontées à l'hôte comme résultat d'outil en erreur
+      return {
+        isError: true,
+        content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+      };
+    }
+  });
+
+  return server;
+}
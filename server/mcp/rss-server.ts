@@ -0,0 +1,73 @@
+/**
+ * MCP Server générique RSS / Atom
+ * Connecteur configurable pour les autorités publiant un flux (AESIA, BfDI, Garante, ...)
+ */
+
+import * as cheerio from 'cheerio';
+import { ConfiguredSourceMCPServer, CollectedItem } from './configured-source-server';
+import type { RegulatorySource } from '@shared/schema';
+
+export class RSSFeedMCPServer extends ConfiguredSourceMCPServer {
+  constructor(source: RegulatorySource) {
+    super(source, source.feedUrl || source.url, {
+      name: 'get_feed_entries',
+      description: `Fetch recent entries from the ${source.name} RSS/Atom feed`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          daysBack: { type: 'number', default: 7 },
+          limit: { type: 'number', default: 50 },
+        },
+      },
+    });
+  }
+
+  protected async readItems(limit: number): Promise<CollectedItem[]> {
+    const feedUrl = this.source.feedUrl || this.source.url;
+    const xml = await this.fetchHTML(feedUrl, {
+      headers: { 'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8' },
+    });
+    const $ = cheerio.load(xml, { xml: true });
+
+    // RSS 2.0 / RSS 1.0 (RDF) <item>, Atom <entry>
+    const entries = $('item, entry').slice(0, limit);
+    const items: CollectedItem[] = [];
+
+    entries.each((_, element) => {
+      const $entry = $(element);
+      const childText = (names: string[]): string => {
+        for (const name of names) {
+          const child = $entry.children().filter((_, node) => node.name === name).first();
+          if (child.length > 0 && child.text().trim()) {
+            return child.text().trim();
+          }
+        }
+        return '';
+      };
+
+      // Atom links are attributes (rel="alternate" preferred), RSS links are text nodes
+      let link = childText(['link', 'guid']);
+      const atomLinks = $entry.children('link[href]');
+      if (atomLinks.length > 0) {
+        const alternate = atomLinks.filter((_, node) => !node.attribs.rel || node.attribs.rel === 'alternate').first();
+        link = (alternate.length > 0 ? alternate : atomLinks.first()).attr('href') || '';
+      }
+
+      items.push({
+        title: childText(['title']),
+        url: link ? this.resolveUrl(link, feedUrl) : '',
+        summary: this.stripHtml(childText(['description', 'summary', 'content', 'content:encoded'])),
+        publishedDate: this.parseOptionalDate(childText(['pubDate', 'published', 'updated', 'dc:date'])),
+      });
+    });
+
+    return items;
+  }
+
+  private stripHtml(content: string): string {
+    if (!content.includes('<')) {
+      return content;
+    }
+    return cheerio.load(content).root().text().replace(/\s+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Point d'entrée stdio des MCP servers réglementaires
+ * Usage : npm run mcp:stdio -- <eurlex|cnil|ec-ai-office>
+ * (configuration type d'un hôte MCP : { "command": "npx", "args": ["tsx", "server/mcp/stdio.ts", "cnil"] })
+ */
+
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { createProtocolServer, EXPOSED_MCP_SERVERS } from './protocol';
+
+// stdout est réservé aux messages du protocole
+console.log = console.error;
+console.info = console.error;
+
+const key = process.argv[2];
+const connector = key ? EXPOSED_MCP_SERVERS[key] : undefined;
+
+if (!connector) {
+  console.error(`Usage: mcp:stdio <${Object.keys(EXPOSED_MCP_SERVERS).join('|')}>`);
+  process.exit(1);
+}
+
+(async () => {
+  const server = createProtocolServer(connector);
+  await server.connect(new StdioServerTransport());
+  console.error(`MCP server ${connector.getConfig().name} listening on stdio`);
+})();
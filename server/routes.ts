@@ -6,24 +6,54 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { z } from "zod";
+import multer from "multer";
 import { setupAuth } from "./auth";
 import { assessmentService } from "./services/assessmentService";
 import { complianceService } from "./services/complianceService";
 import { regulatoryService } from "./services/regulatoryService";
 import { llmService } from "./services/llmService";
 import { maturityService } from "./services/maturityService";
+import { frameworkQuestionBankService, FrameworkQuestionNotFoundError, FrameworkVersionNotFoundError } from "./services/frameworkQuestionBankService";
+import { useCaseRiskMappingService, UseCaseRiskMappingNotFoundError } from "./services/useCaseRiskMappingService";
 import { aiActIndexingService } from "./services/aiActIndexingService";
 import { regulatoryDatabaseService } from "./services/RegulatoryDatabaseService";
+import { regulatorySourceService, RegulatorySourceNotFoundError } from "./services/regulatorySourceService";
+import { regulatorySyncService } from "./services/regulatorySyncService";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { createProtocolServer, EXPOSED_MCP_SERVERS } from "./mcp/protocol";
+import { createAssistantServer } from "./mcp/assistant-server";
+import { personalAccessTokenService } from "./services/personalAccessTokenService";
+import { actionItemService, ActionItemNotFoundError, RegulatoryInsightNotFoundError } from "./services/actionItemService";
+import { reassessmentService, ReassessmentNotFoundError } from "./services/reassessmentService";
+import { assessmentDraftService, AssessmentDraftNotFoundError } from "./services/assessmentDraftService";
+import { systemVersionService, AiSystemNotFoundError, SystemVersionNotFoundError } from "./services/systemVersionService";
+import { assessmentComparisonService, RiskAssessmentNotFoundError } from "./services/assessmentComparisonService";
+import { assessmentSimulationService } from "./services/assessmentSimulationService";
+import { gpaiModelService, GpaiModelNotFoundError } from "./services/gpaiModelService";
+import { prohibitedPracticeService, ProhibitedPracticeError } from "./services/prohibitedPracticeService";
+import { highRiskClassificationService, HighRiskClassificationNotFoundError } from "./services/highRiskClassificationService";
+import { inventoryService, MAX_INVENTORY_FILE_SIZE_BYTES } from "./services/inventoryService";
+import { describeRoles, getDocumentSuggestions, getEffectiveRoles } from "./data/operatorRoles";
+import { organizationService } from "./services/organizationService";
+import { certificateSigningService } from "./services/certificateSigningService";
+import { certificatePdfService } from "./services/certificatePdfService";
+import { certificateLifecycleService, CertificateRenewalError, CertificateStatusTransitionError } from "./services/certificateLifecycleService";
+import { evidenceService, EvidenceIntegrityError, MAX_EVIDENCE_SIZE_BYTES } from "./services/evidenceService";
+import { ValidationError, AuthenticationError, AuthorizationError } from "./errors/SecurityErrors";
+import { workflowConfigurationService, WorkflowConfigurationError } from "./services/WorkflowConfigurationService";
+import { workflowEngine, WorkflowApprovalError, WorkflowStateError } from "./services/workflow/WorkflowEngine";
 import { storage } from "./storage";
 
 // Security architecture
 import { securityService } from "./services/securityService";
+import { auditService } from "./services/auditService";
 import { validateSecurityConfiguration } from "./config/security";
 import {
   basicAuth,
   enhancedAuth,
   requireMFA,
   requireAdmin,
+  requirePermission,
   authRateLimit,
   apiRateLimit,
   strictRateLimit,
@@ -36,6 +66,7 @@ import { AuthController } from "./controllers/authController";
 import { SecurityController } from "./controllers/securityController";
 import { MFAController } from "./controllers/mfaController";
 import { SessionController } from "./controllers/sessionController";
+import { OrganizationController } from "./controllers/organizationController";
 
 // Schemas
 import {
@@ -46,7 +77,15 @@ import {
   mfaSetupSchema,
   mfaVerificationSchema,
   passwordResetRequestSchema,
-  passwordResetConfirmSchema
+  passwordResetConfirmSchema,
+  createWorkflowDefinitionSchema,
+  startWorkflowSchema,
+  advanceWorkflowSchema,
+  updateCertificateStatusSchema,
+  updateOperatorRolesSchema,
+  aiSystemInventoryImportOptionsSchema,
+  uploadEvidenceSchema,
+  type PersonalAccessTokenScope
 } from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -69,6 +108,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.error('⚠️ Regulatory service initialization failed:', error instanceof Error ? error.message : String(error));
   }
 
+  try {
+    console.log('📚 Seeding framework question bank...');
+    await frameworkQuestionBankService.ensureDefaultVersion();
+    console.log('✅ Framework question bank initialized');
+  } catch (error) {
+    console.error('⚠️ Framework question bank initialization failed:', error instanceof Error ? error.message : String(error));
+  }
+
+  try {
+    console.log('🗺️ Seeding use case risk mappings...');
+    await useCaseRiskMappingService.ensureDefaultMappings();
+    console.log('✅ Use case risk mappings initialized');
+  } catch (error) {
+    console.error('⚠️ Use case risk mappings initialization failed:', error instanceof Error ? error.message : String(error));
+  }
+
   try {
     console.log('� Indexing AI Act articles database...');
     const indexResult = await aiActIndexingService.reindexDatabase();
@@ -88,6 +143,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.error('⚠️ Security service initialization failed:', error instanceof Error ? error.message : String(error));
   }
 
+  // Access control: every route checks an organization permission (requirePermission) or platform
+  // administration (requireAdmin), except this allow-list:
+  // - public: authentication entry points (/api/auth/register, login, logout, password reset), certificate
+  //   verification (/api/certificates/verify/:certificateNumber) and the signing keys and revocation list
+  //   under /.well-known, which relying parties must reach without an account;
+  // - personal access token: the /mcp/* servers authenticate their clients with a token carrying its own scopes;
+  // - user-scoped, authenticated only: the caller's own account, MFA, sessions, organization memberships,
+  //   security events (/api/security/status, /api/security/events), notifications and personal access tokens.
+  //   They read or change only the caller's records, and must keep working for a user without any membership,
+  //   e.g. to revoke tokens after leaving an organization.
+
   // ===== AUTHENTICATION ROUTES =====
 
   // Get current user - Basic Passport authentication
@@ -114,7 +180,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/security/settings', enhancedAuth, requireAdmin, SecurityController.getSecuritySettings);
   app.put('/api/security/settings', enhancedAuth, requireAdmin, strictRateLimit, SecurityController.updateSecuritySettings);
 
-  // Security status and monitoring
+  // Security status and monitoring (status and events: the caller's own, see the allow-list above)
   app.get('/api/security/status', basicAuth, SecurityController.getSecurityStatus);
   app.get('/api/security/dashboard', enhancedAuth, requireAdmin, SecurityController.getSecurityDashboard);
   app.get('/api/security/events', basicAuth, SecurityController.getSecurityEvents);
@@ -139,15 +205,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete('/api/auth/sessions', basicAuth, SessionController.revokeAllOtherSessions);
   app.put('/api/auth/sessions/metadata', basicAuth, SessionController.updateSessionMetadata);
 
+  // ===== ORGANIZATION ROUTES =====
 
+  app.get('/api/organizations', basicAuth, OrganizationController.listOrganizations);
+  app.post('/api/organizations', basicAuth, strictRateLimit, OrganizationController.createOrganization);
+  app.get('/api/organizations/current', basicAuth, requirePermission('organization:read'), OrganizationController.getCurrentOrganization);
+  app.patch('/api/organizations/current/settings', basicAuth, requirePermission('organization:manage'), OrganizationController.updateSettings);
+  app.get('/api/organizations/:organizationId/members', basicAuth, requirePermission('organization:read'), OrganizationController.listMembers);
+  app.post('/api/organizations/:organizationId/members', basicAuth, requirePermission('organization:manage'), OrganizationController.addMember);
+  app.patch('/api/organizations/:organizationId/members/:userId', basicAuth, requirePermission('organization:manage'), OrganizationController.updateMember);
+  app.delete('/api/organizations/:organizationId/members/:userId', basicAuth, requirePermission('organization:manage'), OrganizationController.removeMember);
 
   // ===== BUSINESS ROUTES =====
 
   // AI Systems routes
-  app.get('/api/ai-systems', basicAuth, async (req: any, res) => {
+  app.get('/api/ai-systems', basicAuth, requirePermission('ai_systems:read'), async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const systems = await storage.getAiSystemsByUser(userId);
+      const { organizationId } = req.organizationContext;
+      const systems = await storage.getAiSystemsByOrganization(organizationId);
       res.json(systems);
     } catch (error) {
       console.error("Error fetching AI systems:", error);
@@ -155,7 +230,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/ai-systems/:id', basicAuth, async (req: any, res) => {
+  // Multer rejections (file too large, unexpected field) are answered here instead of reaching the global 500 handler
+  const uploadSingleFile = (upload: multer.Multer, maxBytes: number) => (req: any, res: any, next: any) => {
+    upload.single('file')(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        if (error.code === 'LIMIT_FILE_SIZE') {
+          return res.status(413).json({ message: `File exceeds the ${maxBytes / (1024 * 1024)} MB size limit` });
+        }
+        return res.status(400).json({ message: error.message });
+      }
+      next(error);
+    });
+  };
+
+  // AI inventory bulk import / export (CSV, XLSX); declared before /api/ai-systems/:id
+  const inventoryUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_INVENTORY_FILE_SIZE_BYTES, files: 1 },
+  });
+
+  app.get('/api/ai-systems/export', basicAuth, requirePermission('ai_systems:read'), async (req: any, res) => {
+    try {
+      const { format } = z.object({ format: z.enum(['csv', 'xlsx']).default('xlsx') }).parse(req.query);
+      const exported = await inventoryService.exportInventory(req.organizationContext.organizationId, format);
+
+      res.setHeader('Content-Type', exported.contentType);
+      res.setHeader('Content-Length', exported.content.length);
+      res.setHeader('Content-Disposition', `attachment; filename="${exported.fileName}"`);
+      res.send(exported.content);
+    } catch (error) {
+      console.error("Error exporting AI inventory:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to export AI inventory" });
+    }
+  });
+
+  app.post('/api/ai-systems/import', basicAuth, requirePermission('ai_systems:write'), uploadSingleFile(inventoryUpload, MAX_INVENTORY_FILE_SIZE_BYTES), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "File is required (multipart field 'file')" });
+      }
+
+      const options = aiSystemInventoryImportOptionsSchema.parse(req.body);
+      const report = await inventoryService.importInventory(req.organizationContext, req.file, options);
+      res.json(report);
+    } catch (error) {
+      console.error("Error importing AI inventory:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to import AI inventory" });
+    }
+  });
+
+  app.get('/api/ai-systems/:id', basicAuth, requirePermission('ai_systems:read'), async (req: any, res) => {
     try {
       const { id } = req.params;
       const system = await storage.getAiSystem(id);
@@ -164,8 +297,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "AI system not found" });
       }
 
-      // Check ownership
-      if (system.userId !== req.user.id) {
+      // Check organization membership
+      if (!organizationService.canAccessRecord(req.organizationContext, system)) {
         return res.status(403).json({ message: "Access denied" });
       }
 
@@ -176,15 +309,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/ai-systems', basicAuth, async (req: any, res) => {
+  app.post('/api/ai-systems', basicAuth, requirePermission('ai_systems:write'), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const systemData = insertAiSystemSchema.parse({
         ...req.body,
-        userId
+        userId,
+        organizationId: req.organizationContext.organizationId
       });
       
       const system = await storage.createAiSystem(systemData);
+      await systemVersionService.recordInitial(system, userId);
       res.status(201).json(system);
     } catch (error) {
       console.error("Error creating AI system:", error);
@@ -201,24 +336,313 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // AI system versions (Art. 43(4) substantial modifications)
+  const handleSystemVersionError = (res: any, error: unknown, fallbackMessage: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation error", errors: error.errors });
+    }
+    if (error instanceof AiSystemNotFoundError) {
+      return res.status(404).json({ message: "AI system not found" });
+    }
+    if (error instanceof SystemVersionNotFoundError) {
+      return res.status(404).json({ message: "AI system version not found" });
+    }
+    res.status(500).json({ message: fallbackMessage });
+  };
+
+  app.patch('/api/ai-systems/:id', basicAuth, requirePermission('ai_systems:write'), async (req: any, res) => {
+    try {
+      const result = await systemVersionService.update(req.organizationContext, req.params.id, req.body);
+      res.json(result);
+    } catch (error) {
+      console.error("Error updating AI system:", error);
+      handleSystemVersionError(res, error, "Failed to update AI system");
+    }
+  });
+
+  app.put('/api/ai-systems/:id/operator-roles', basicAuth, requirePermission('ai_systems:write'), async (req: any, res) => {
+    try {
+      const system = await storage.getAiSystem(req.params.id);
+      if (!system || !organizationService.canAccessRecord(req.organizationContext, system)) {
+        return res.status(404).json({ message: "AI system not found" });
+      }
+
+      const { operatorRoles, providerTrigger } = updateOperatorRolesSchema.parse(req.body);
+      const updated = await storage.updateAiSystem(system.id, { operatorRoles, providerTrigger: providerTrigger ?? null });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating operator roles:", error);
+      handleSystemVersionError(res, error, "Failed to update operator roles");
+    }
+  });
+
+  app.get('/api/ai-systems/:id/document-suggestions', basicAuth, requirePermission('ai_systems:read'), async (req: any, res) => {
+    try {
+      const system = await storage.getAiSystem(req.params.id);
+      if (!system || !organizationService.canAccessRecord(req.organizationContext, system)) {
+        return res.status(404).json({ message: "AI system not found" });
+      }
+      res.json(getDocumentSuggestions(getEffectiveRoles(system)));
+    } catch (error) {
+      console.error("Error fetching document suggestions:", error);
+      res.status(500).json({ message: "Failed to fetch document suggestions" });
+    }
+  });
+
+  app.get('/api/prohibited-practices', basicAuth, requirePermission('ai_systems:read'), async (req: any, res) => {
+    res.json(prohibitedPracticeService.getQuestionnaire());
+  });
+
+  app.get('/api/ai-systems/:id/prohibited-practices', basicAuth, requirePermission('ai_systems:read'), async (req: any, res) => {
+    try {
+      const screenings = await prohibitedPracticeService.listScreenings(req.organizationContext, req.params.id);
+      res.json(screenings);
+    } catch (error) {
+      console.error("Error fetching prohibited practice screenings:", error);
+      handleSystemVersionError(res, error, "Failed to fetch prohibited practice screenings");
+    }
+  });
+
+  app.post('/api/ai-systems/:id/prohibited-practices', basicAuth, requirePermission('ai_systems:write'), async (req: any, res) => {
+    try {
+      const result = await prohibitedPracticeService.screenSystem(req.organizationContext, req.params.id, req.body);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error screening AI system for prohibited practices:", error);
+      handleSystemVersionError(res, error, "Failed to screen AI system for prohibited practices");
+    }
+  });
+
+  app.get('/api/high-risk-classification/questionnaire', basicAuth, requirePermission('ai_systems:read'), async (req: any, res) => {
+    res.json(highRiskClassificationService.getQuestionnaire());
+  });
+
+  app.get('/api/ai-systems/:id/high-risk-classifications', basicAuth, requirePermission('ai_systems:read'), async (req: any, res) => {
+    try {
+      const classifications = await highRiskClassificationService.listClassifications(req.organizationContext, req.params.id);
+      res.json(classifications);
+    } catch (error) {
+      console.error("Error fetching high-risk classifications:", error);
+      handleSystemVersionError(res, error, "Failed to fetch high-risk classifications");
+    }
+  });
+
+  app.post('/api/ai-systems/:id/high-risk-classifications', basicAuth, requirePermission('ai_systems:write'), async (req: any, res) => {
+    try {
+      const result = await highRiskClassificationService.classifySystem(req.organizationContext, req.params.id, req.body);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error classifying AI system:", error);
+      handleSystemVersionError(res, error, "Failed to classify AI system");
+    }
+  });
+
+  // Art. 49 registration data of the latest classification
+  app.get('/api/ai-systems/:id/high-risk-classifications/export', basicAuth, requirePermission('ai_systems:read'), async (req: any, res) => {
+    try {
+      const registration = await highRiskClassificationService.exportRegistration(req.organizationContext, req.params.id);
+      res.setHeader('Content-Disposition', `attachment; filename="enregistrement-art49-${registration.system.externalId || registration.system.id}.json"`);
+      res.json(registration);
+    } catch (error) {
+      if (error instanceof HighRiskClassificationNotFoundError) {
+        return res.status(404).json({ message: "No high-risk classification for this AI system" });
+      }
+      console.error("Error exporting high-risk classification:", error);
+      handleSystemVersionError(res, error, "Failed to export high-risk classification");
+    }
+  });
+
+  app.get('/api/ai-systems/:id/versions', basicAuth, requirePermission('ai_systems:read'), async (req: any, res) => {
+    try {
+      const versions = await systemVersionService.listVersions(req.organizationContext, req.params.id);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching AI system versions:", error);
+      handleSystemVersionError(res, error, "Failed to fetch AI system versions");
+    }
+  });
+
+  app.get('/api/ai-systems/:id/versions/compare', basicAuth, requirePermission('ai_systems:read'), async (req: any, res) => {
+    try {
+      const { from, to } = z.object({
+        from: z.coerce.number().int().min(1),
+        to: z.coerce.number().int().min(1),
+      }).parse(req.query);
+      const comparison = await systemVersionService.compare(req.organizationContext, req.params.id, from, to);
+      res.json(comparison);
+    } catch (error) {
+      console.error("Error comparing AI system versions:", error);
+      handleSystemVersionError(res, error, "Failed to compare AI system versions");
+    }
+  });
+
+  // Risk assessment analysis: diff between two assessments and what-if simulation (nothing is saved)
+  const handleAssessmentAnalysisError = (res: any, error: unknown, fallbackMessage: string) => {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error instanceof RiskAssessmentNotFoundError) {
+      return res.status(404).json({ message: "Risk assessment not found" });
+    }
+    handleSystemVersionError(res, error, fallbackMessage);
+  };
+
+  app.get('/api/ai-systems/:id/assessments/compare', basicAuth, requirePermission('assessments:read'), async (req: any, res) => {
+    try {
+      const { from, to } = z.object({
+        from: z.string().min(1),
+        to: z.string().min(1),
+      }).parse(req.query);
+      const comparison = await assessmentComparisonService.compare(req.organizationContext, req.params.id, from, to);
+      res.json(comparison);
+    } catch (error) {
+      console.error("Error comparing risk assessments:", error);
+      handleAssessmentAnalysisError(res, error, "Failed to compare risk assessments");
+    }
+  });
+
+  app.post('/api/ai-systems/:id/assessments/:assessmentId/simulate', basicAuth, requirePermission('assessments:read'), async (req: any, res) => {
+    try {
+      const simulation = await assessmentSimulationService.simulate(req.organizationContext, req.params.id, req.params.assessmentId, req.body);
+      res.json(simulation);
+    } catch (error) {
+      console.error("Error simulating risk assessment:", error);
+      handleAssessmentAnalysisError(res, error, "Failed to simulate risk assessment");
+    }
+  });
+
+  // General-purpose AI model register (Art. 51-55)
+  const handleGpaiModelError = (res: any, error: unknown, fallbackMessage: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation error", errors: error.errors });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error instanceof GpaiModelNotFoundError) {
+      return res.status(404).json({ message: "GPAI model not found" });
+    }
+    res.status(500).json({ message: fallbackMessage });
+  };
+
+  app.get('/api/gpai-models', basicAuth, requirePermission('ai_systems:read'), async (req: any, res) => {
+    try {
+      const models = await gpaiModelService.listModels(req.organizationContext.organizationId);
+      res.json(models);
+    } catch (error) {
+      console.error("Error fetching GPAI models:", error);
+      res.status(500).json({ message: "Failed to fetch GPAI models" });
+    }
+  });
+
+  app.get('/api/gpai-models/:id', basicAuth, requirePermission('ai_systems:read'), async (req: any, res) => {
+    try {
+      const model = await gpaiModelService.getModelDetails(req.organizationContext, req.params.id);
+      res.json(model);
+    } catch (error) {
+      console.error("Error fetching GPAI model:", error);
+      handleGpaiModelError(res, error, "Failed to fetch GPAI model");
+    }
+  });
+
+  app.post('/api/gpai-models', basicAuth, requirePermission('ai_systems:write'), async (req: any, res) => {
+    try {
+      const model = await gpaiModelService.createModel(req.organizationContext, req.body);
+      res.status(201).json(model);
+    } catch (error) {
+      console.error("Error creating GPAI model:", error);
+      handleGpaiModelError(res, error, "Failed to create GPAI model");
+    }
+  });
+
+  app.patch('/api/gpai-models/:id', basicAuth, requirePermission('ai_systems:write'), async (req: any, res) => {
+    try {
+      const model = await gpaiModelService.updateModel(req.organizationContext, req.params.id, req.body);
+      res.json(model);
+    } catch (error) {
+      console.error("Error updating GPAI model:", error);
+      handleGpaiModelError(res, error, "Failed to update GPAI model");
+    }
+  });
+
+  app.delete('/api/gpai-models/:id', basicAuth, requirePermission('ai_systems:write'), async (req: any, res) => {
+    try {
+      await gpaiModelService.deleteModel(req.organizationContext, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting GPAI model:", error);
+      handleGpaiModelError(res, error, "Failed to delete GPAI model");
+    }
+  });
+
+  app.put('/api/gpai-models/:id/obligations/:obligationId', basicAuth, requirePermission('ai_systems:write'), async (req: any, res) => {
+    try {
+      const model = await gpaiModelService.setObligationStatus(req.organizationContext, req.params.id, req.params.obligationId, req.body);
+      res.json(model);
+    } catch (error) {
+      console.error("Error updating GPAI model obligation:", error);
+      handleGpaiModelError(res, error, "Failed to update GPAI model obligation");
+    }
+  });
+
   // Risk Assessment routes
-  app.post('/api/assessments', basicAuth, async (req: any, res) => {
+  app.post('/api/assessments', basicAuth, requirePermission('assessments:write'), async (req: any, res) => {
     let formData;
     try {
       const userId = req.user.id;
-      formData = req.body;
+      const { organizationId } = req.organizationContext;
+      const { aiSystemId, operatorRoles, providerTrigger, draftId, ...assessmentFormData } = req.body || {};
+      // A submitted draft is scored on its saved answers, including those of the other assignees
+      formData = draftId
+        ? await assessmentDraftService.getSubmittableFormData(req.organizationContext, draftId)
+        : assessmentFormData;
+
+      // Reassessment of an existing system (e.g. certificate renewal)
+      let existingSystem;
+      if (aiSystemId) {
+        existingSystem = await storage.getAiSystem(aiSystemId);
+        if (!existingSystem || !organizationService.canAccessRecord(req.organizationContext, existingSystem)) {
+          return res.status(404).json({ message: "AI system not found" });
+        }
+      }
+
+      // Obligations follow the operator roles sent with the assessment, else those of the reassessed system
+      const roleInput = operatorRoles ? updateOperatorRolesSchema.parse({ operatorRoles, providerTrigger }) : null;
+      const roles = getEffectiveRoles(roleInput || existingSystem || {});
       
-      // Perform risk assessment
-      const result = await assessmentService.performRiskAssessment(formData, userId);
+      // Perform risk assessment in the organization's mode (deterministic organizations never call an LLM)
+      const mode = await organizationService.getAssessmentMode(organizationId);
+      const result = await assessmentService.performRiskAssessment(formData, userId, roles, mode);
       
       // Save assessment - handle both legacy and new formats
       let saved;
       if ('applicableObligations' in result) {
         // New Framework v3.0 format - needs enhanced saveAssessment
-        saved = await assessmentService.saveEnhancedAssessment(formData, result as any, userId);
+        saved = await assessmentService.saveEnhancedAssessment(formData, result as any, userId, organizationId, aiSystemId);
       } else {
         // Legacy format
-        saved = await assessmentService.saveAssessment(formData, result as any, userId);
+        saved = await assessmentService.saveAssessment(formData, result as any, userId, organizationId, aiSystemId);
+      }
+
+      if (roleInput) {
+        await storage.updateAiSystem(saved.aiSystemId, {
+          operatorRoles: roleInput.operatorRoles,
+          providerTrigger: roleInput.providerTrigger ?? null,
+        });
+      }
+
+      // A new assessment of the system records its version and closes its required reassessments
+      await systemVersionService.recordAssessment(saved.aiSystemId, userId);
+      await reassessmentService.completeForSystem(saved.aiSystemId, saved.assessmentId);
+
+      if (draftId) {
+        await assessmentDraftService.markSubmitted(req.organizationContext, draftId, saved.assessmentId);
       }
       
       res.status(201).json({
@@ -235,20 +659,123 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ 
           message: "Validation error", 
-          errors: error.errors 
+          errors: error.errors
         });
       }
-      
-      res.status(500).json({ 
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof AssessmentDraftNotFoundError) {
+        return res.status(404).json({ message: "Assessment draft not found" });
+      }
+
+      res.status(500).json({
         message: "Failed to perform risk assessment",
         error: error instanceof Error ? error.message : String(error)
       });
     }
   });
 
-  app.get('/api/assessments/:systemId', basicAuth, async (req: any, res) => {
+  // Assessment drafts: autosaved, resumable and split between members by section
+  const handleAssessmentDraftError = (res: any, error: unknown, fallbackMessage: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation error", errors: error.errors });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error instanceof AssessmentDraftNotFoundError) {
+      return res.status(404).json({ message: "Assessment draft not found" });
+    }
+    res.status(500).json({ message: fallbackMessage });
+  };
+
+  app.get('/api/assessment-drafts', basicAuth, requirePermission('assessments:read'), async (req: any, res) => {
+    try {
+      res.json(await assessmentDraftService.listDrafts(req.organizationContext));
+    } catch (error) {
+      console.error("Error fetching assessment drafts:", error);
+      handleAssessmentDraftError(res, error, "Failed to fetch assessment drafts");
+    }
+  });
+
+  app.get('/api/assessment-drafts/:id', basicAuth, requirePermission('assessments:read'), async (req: any, res) => {
+    try {
+      res.json(await assessmentDraftService.getDraft(req.organizationContext, req.params.id));
+    } catch (error) {
+      console.error("Error fetching assessment draft:", error);
+      handleAssessmentDraftError(res, error, "Failed to fetch assessment draft");
+    }
+  });
+
+  app.post('/api/assessment-drafts', basicAuth, requirePermission('assessments:write'), async (req: any, res) => {
+    try {
+      res.status(201).json(await assessmentDraftService.createDraft(req.organizationContext, req.body));
+    } catch (error) {
+      console.error("Error creating assessment draft:", error);
+      handleAssessmentDraftError(res, error, "Failed to create assessment draft");
+    }
+  });
+
+  app.patch('/api/assessment-drafts/:id', basicAuth, requirePermission('assessments:write'), async (req: any, res) => {
+    try {
+      res.json(await assessmentDraftService.updateDraft(req.organizationContext, req.params.id, req.body));
+    } catch (error) {
+      console.error("Error saving assessment draft:", error);
+      handleAssessmentDraftError(res, error, "Failed to save assessment draft");
+    }
+  });
+
+  app.put('/api/assessment-drafts/:id/assignments', basicAuth, requirePermission('assessments:write'), async (req: any, res) => {
+    try {
+      res.json(await assessmentDraftService.assignSection(req.organizationContext, req.params.id, req.body));
+    } catch (error) {
+      console.error("Error assigning assessment draft section:", error);
+      handleAssessmentDraftError(res, error, "Failed to assign assessment draft section");
+    }
+  });
+
+  app.delete('/api/assessment-drafts/:id', basicAuth, requirePermission('assessments:write'), async (req: any, res) => {
+    try {
+      await assessmentDraftService.deleteDraft(req.organizationContext, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting assessment draft:", error);
+      handleAssessmentDraftError(res, error, "Failed to delete assessment draft");
+    }
+  });
+
+  // Reassessments required by high/critical regulatory insights
+  app.get('/api/reassessments', basicAuth, requirePermission('assessments:read'), async (req: any, res) => {
+    try {
+      const reassessments = await reassessmentService.list(req.organizationContext.organizationId);
+      const { status } = req.query;
+      res.json(status ? reassessments.filter(reassessment => reassessment.status === status) : reassessments);
+    } catch (error) {
+      console.error("Error fetching reassessments:", error);
+      res.status(500).json({ message: "Failed to fetch reassessments" });
+    }
+  });
+
+  app.get('/api/reassessments/:id', basicAuth, requirePermission('assessments:write'), async (req: any, res) => {
+    try {
+      res.json(await reassessmentService.getPrefill(req.organizationContext, req.params.id));
+    } catch (error) {
+      if (error instanceof ReassessmentNotFoundError) {
+        return res.status(404).json({ message: "Reassessment not found" });
+      }
+      console.error("Error fetching reassessment:", error);
+      res.status(500).json({ message: "Failed to fetch reassessment" });
+    }
+  });
+
+  app.get('/api/assessments/:systemId', basicAuth, requirePermission('assessments:read'), async (req: any, res) => {
     try {
       const { systemId } = req.params;
+      const aiSystem = await storage.getAiSystem(systemId);
+      if (!organizationService.canAccessRecord(req.organizationContext, aiSystem)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       const assessments = await storage.getRiskAssessmentsBySystem(systemId);
       res.json(assessments);
     } catch (error) {
@@ -257,24 +784,185 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Framework question bank: questions of the published version (or of a given version) and admin authoring
+  const handleFrameworkQuestionBankError = (res: any, error: unknown, fallbackMessage: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation error", errors: error.errors });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error instanceof FrameworkVersionNotFoundError) {
+      return res.status(404).json({ message: "Framework version not found" });
+    }
+    if (error instanceof FrameworkQuestionNotFoundError) {
+      return res.status(404).json({ message: "Framework question not found" });
+    }
+    res.status(500).json({ message: fallbackMessage });
+  };
+
+  app.get('/api/framework/questions', basicAuth, requirePermission('assessments:read'), async (req, res) => {
+    try {
+      res.json(await frameworkQuestionBankService.getQuestionnaire(req.query.version as string | undefined));
+    } catch (error) {
+      console.error("Error fetching framework questions:", error);
+      handleFrameworkQuestionBankError(res, error, "Failed to fetch framework questions");
+    }
+  });
+
+  app.get('/api/admin/framework/versions', enhancedAuth, requireAdmin, async (req: any, res) => {
+    try {
+      res.json(await frameworkQuestionBankService.listVersions());
+    } catch (error) {
+      console.error("Error fetching framework versions:", error);
+      handleFrameworkQuestionBankError(res, error, "Failed to fetch framework versions");
+    }
+  });
+
+  app.post('/api/admin/framework/versions', enhancedAuth, requireAdmin, async (req: any, res) => {
+    try {
+      res.status(201).json(await frameworkQuestionBankService.createVersion(req.body, req.user.id));
+    } catch (error) {
+      console.error("Error creating framework version:", error);
+      handleFrameworkQuestionBankError(res, error, "Failed to create framework version");
+    }
+  });
+
+  app.get('/api/admin/framework/versions/:id', enhancedAuth, requireAdmin, async (req: any, res) => {
+    try {
+      res.json(await frameworkQuestionBankService.getVersionDetail(req.params.id));
+    } catch (error) {
+      console.error("Error fetching framework version:", error);
+      handleFrameworkQuestionBankError(res, error, "Failed to fetch framework version");
+    }
+  });
+
+  app.post('/api/admin/framework/versions/:id/publish', enhancedAuth, requireAdmin, async (req: any, res) => {
+    try {
+      res.json(await frameworkQuestionBankService.publishVersion(req.params.id, req.user.id));
+    } catch (error) {
+      console.error("Error publishing framework version:", error);
+      handleFrameworkQuestionBankError(res, error, "Failed to publish framework version");
+    }
+  });
+
+  app.delete('/api/admin/framework/versions/:id', enhancedAuth, requireAdmin, async (req: any, res) => {
+    try {
+      await frameworkQuestionBankService.deleteVersion(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting framework version:", error);
+      handleFrameworkQuestionBankError(res, error, "Failed to delete framework version");
+    }
+  });
+
+  app.post('/api/admin/framework/versions/:id/questions', enhancedAuth, requireAdmin, async (req: any, res) => {
+    try {
+      res.status(201).json(await frameworkQuestionBankService.createQuestion(req.params.id, req.body));
+    } catch (error) {
+      console.error("Error creating framework question:", error);
+      handleFrameworkQuestionBankError(res, error, "Failed to create framework question");
+    }
+  });
+
+  app.patch('/api/admin/framework/questions/:id', enhancedAuth, requireAdmin, async (req: any, res) => {
+    try {
+      res.json(await frameworkQuestionBankService.updateQuestion(req.params.id, req.body));
+    } catch (error) {
+      console.error("Error updating framework question:", error);
+      handleFrameworkQuestionBankError(res, error, "Failed to update framework question");
+    }
+  });
+
+  app.delete('/api/admin/framework/questions/:id', enhancedAuth, requireAdmin, async (req: any, res) => {
+    try {
+      await frameworkQuestionBankService.deleteQuestion(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting framework question:", error);
+      handleFrameworkQuestionBankError(res, error, "Failed to delete framework question");
+    }
+  });
+
+  // Use case risk mappings: reference risk profile per use case and sector, edited by platform admins
+  const handleUseCaseRiskMappingError = (res: any, error: unknown, fallbackMessage: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation error", errors: error.errors });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error instanceof UseCaseRiskMappingNotFoundError) {
+      return res.status(404).json({ message: "Use case risk mapping not found" });
+    }
+    res.status(500).json({ message: fallbackMessage });
+  };
+
+  app.get('/api/use-case-risk-profile', basicAuth, requirePermission('assessments:read'), async (req: any, res) => {
+    try {
+      res.json(await useCaseRiskMappingService.getReferenceProfile(req.query));
+    } catch (error) {
+      console.error("Error fetching use case risk profile:", error);
+      handleUseCaseRiskMappingError(res, error, "Failed to fetch use case risk profile");
+    }
+  });
+
+  app.get('/api/admin/use-case-risk-mappings', enhancedAuth, requireAdmin, async (req: any, res) => {
+    try {
+      res.json(await useCaseRiskMappingService.listMappings());
+    } catch (error) {
+      console.error("Error fetching use case risk mappings:", error);
+      handleUseCaseRiskMappingError(res, error, "Failed to fetch use case risk mappings");
+    }
+  });
+
+  app.post('/api/admin/use-case-risk-mappings', enhancedAuth, requireAdmin, async (req: any, res) => {
+    try {
+      res.status(201).json(await useCaseRiskMappingService.createMapping(req.body));
+    } catch (error) {
+      console.error("Error creating use case risk mapping:", error);
+      handleUseCaseRiskMappingError(res, error, "Failed to create use case risk mapping");
+    }
+  });
+
+  app.patch('/api/admin/use-case-risk-mappings/:id', enhancedAuth, requireAdmin, async (req: any, res) => {
+    try {
+      res.json(await useCaseRiskMappingService.updateMapping(req.params.id, req.body));
+    } catch (error) {
+      console.error("Error updating use case risk mapping:", error);
+      handleUseCaseRiskMappingError(res, error, "Failed to update use case risk mapping");
+    }
+  });
+
+  app.delete('/api/admin/use-case-risk-mappings/:id', enhancedAuth, requireAdmin, async (req: any, res) => {
+    try {
+      await useCaseRiskMappingService.deleteMapping(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting use case risk mapping:", error);
+      handleUseCaseRiskMappingError(res, error, "Failed to delete use case risk mapping");
+    }
+  });
+
   // Maturity Assessment routes
-  app.get('/api/maturity/framework', async (req, res) => {
+  app.get('/api/maturity/framework', basicAuth, requirePermission('assessments:read'), async (req, res) => {
     try {
-      const framework = maturityService.getMaturityFramework();
+      const framework = await maturityService.getMaturityFramework(req.query.version as string | undefined);
       res.json(framework);
     } catch (error) {
       console.error("Error fetching maturity framework:", error);
-      res.status(500).json({ message: "Failed to fetch maturity framework" });
+      handleFrameworkQuestionBankError(res, error, "Failed to fetch maturity framework");
     }
   });
 
-  app.post('/api/maturity/assessments', basicAuth, async (req: any, res) => {
+  app.post('/api/maturity/assessments', basicAuth, requirePermission('assessments:write'), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const formData = req.body;
       
       // Perform maturity assessment
-      const result = await maturityService.assessOrganizationalMaturity(formData, userId);
+      const mode = await organizationService.getAssessmentMode(req.organizationContext.organizationId);
+      const result = await maturityService.assessOrganizationalMaturity(formData, userId, mode);
       
       // Save assessment
       const saved = await maturityService.saveMaturityAssessment(formData, result, userId);
@@ -285,11 +973,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     } catch (error) {
       console.error("Error performing maturity assessment:", error);
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to perform maturity assessment" });
     }
   });
 
-  app.get('/api/maturity/assessments', basicAuth, async (req: any, res) => {
+  app.get('/api/maturity/assessments', basicAuth, requirePermission('assessments:read'), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const assessments = await storage.getMaturityAssessmentsByUser(userId);
@@ -301,7 +992,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Act Articles routes
-  app.get('/api/ai-act/articles', async (req, res) => {
+  app.get('/api/ai-act/articles', basicAuth, requirePermission('regulatory:read'), async (req, res) => {
     try {
       const { search, category } = req.query;
 
@@ -333,7 +1024,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/ai-act/articles/:id', async (req, res) => {
+  app.get('/api/ai-act/articles/:id', basicAuth, requirePermission('regulatory:read'), async (req, res) => {
     try {
       const { id } = req.params;
       const article = await storage.getAiActArticle(id);
@@ -350,7 +1041,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Advanced search endpoint
-  app.get('/api/ai-act/search', async (req, res) => {
+  app.get('/api/ai-act/search', basicAuth, requirePermission('regulatory:read'), async (req, res) => {
     try {
       const { query, category, riskLevel, chapter, keywords } = req.query;
 
@@ -370,7 +1061,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Database statistics endpoint
-  app.get('/api/ai-act/statistics', async (req, res) => {
+  app.get('/api/ai-act/statistics', basicAuth, requirePermission('regulatory:read'), async (req, res) => {
     try {
       const stats = await aiActIndexingService.getDatabaseStatistics();
       res.json(stats);
@@ -396,10 +1087,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Compliance routes
-  app.get('/api/compliance/overview', basicAuth, async (req: any, res) => {
+  app.get('/api/compliance/overview', basicAuth, requirePermission('compliance:read'), async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const overview = await complianceService.getComplianceOverview(userId);
+      const { organizationId } = req.organizationContext;
+      const overview = await complianceService.getComplianceOverview(organizationId);
       res.json(overview);
     } catch (error) {
       console.error("Error fetching compliance overview:", error);
@@ -407,10 +1098,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/compliance/matrix', basicAuth, async (req: any, res) => {
+  app.get('/api/compliance/matrix', basicAuth, requirePermission('compliance:read'), async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const matrix = await complianceService.getComplianceMatrix(userId);
+      const { organizationId } = req.organizationContext;
+      const matrix = await complianceService.getComplianceMatrix(organizationId);
       res.json(matrix);
     } catch (error) {
       console.error("Error fetching compliance matrix:", error);
@@ -418,10 +1109,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/compliance/report/:systemId', basicAuth, async (req: any, res) => {
+  app.post('/api/compliance/report/:systemId', basicAuth, requirePermission('compliance:report'), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { systemId } = req.params;
+
+      const aiSystem = await storage.getAiSystem(systemId);
+      if (!organizationService.canAccessRecord(req.organizationContext, aiSystem)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       
       const report = await complianceService.generateComplianceReport(systemId, userId);
       res.json(report);
@@ -431,22 +1127,152 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Evidence attachments routes
+  const evidenceUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_EVIDENCE_SIZE_BYTES, files: 1 },
+  });
+
+  app.post('/api/evidence', basicAuth, requirePermission('compliance:write'), uploadSingleFile(evidenceUpload, MAX_EVIDENCE_SIZE_BYTES), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "File is required (multipart field 'file')" });
+      }
+
+      const metadata = uploadEvidenceSchema.parse(req.body);
+      let { aiSystemId, articleId } = metadata;
+
+      // A compliance record carries its system and article
+      if (metadata.complianceRecordId) {
+        const record = await storage.getComplianceRecord(metadata.complianceRecordId);
+        if (!record) {
+          return res.status(404).json({ message: "Compliance record not found" });
+        }
+        if (aiSystemId && aiSystemId !== record.aiSystemId) {
+          return res.status(400).json({ message: "Compliance record belongs to another AI system" });
+        }
+        aiSystemId = record.aiSystemId;
+        articleId = articleId || record.articleId;
+      }
+
+      const aiSystem = await storage.getAiSystem(aiSystemId!);
+      if (!organizationService.canAccessRecord(req.organizationContext, aiSystem)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (articleId && !(await storage.getAiActArticle(articleId))) {
+        return res.status(404).json({ message: "Article not found" });
+      }
+
+      const attachment = await evidenceService.upload({
+        organizationId: req.organizationContext.organizationId,
+        uploadedBy: req.user.id,
+        aiSystemId: aiSystemId!,
+        complianceRecordId: metadata.complianceRecordId,
+        articleId,
+        description: metadata.description,
+        fileName: req.file.originalname,
+        declaredMimeType: req.file.mimetype,
+        content: req.file.buffer,
+      });
+
+      res.status(201).json(attachment);
+    } catch (error) {
+      console.error("Error uploading evidence:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to upload evidence" });
+    }
+  });
+
+  app.get('/api/evidence', basicAuth, requirePermission('compliance:read'), async (req: any, res) => {
+    try {
+      const { systemId, recordId } = req.query;
+
+      if (recordId) {
+        const record = await storage.getComplianceRecord(recordId as string);
+        const aiSystem = record ? await storage.getAiSystem(record.aiSystemId) : undefined;
+        if (!organizationService.canAccessRecord(req.organizationContext, aiSystem)) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        return res.json(await evidenceService.getByComplianceRecord(recordId as string));
+      }
+
+      if (!systemId) {
+        return res.status(400).json({ message: "systemId or recordId is required" });
+      }
+
+      const aiSystem = await storage.getAiSystem(systemId as string);
+      if (!organizationService.canAccessRecord(req.organizationContext, aiSystem)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.json(await evidenceService.getBySystem(systemId as string));
+    } catch (error) {
+      console.error("Error fetching evidence:", error);
+      res.status(500).json({ message: "Failed to fetch evidence" });
+    }
+  });
+
+  app.get('/api/evidence/:id/download', basicAuth, requirePermission('compliance:read'), async (req: any, res) => {
+    try {
+      const attachment = await storage.getEvidenceAttachment(req.params.id);
+      if (!attachment || attachment.organizationId !== req.organizationContext.organizationId) {
+        return res.status(404).json({ message: "Evidence not found" });
+      }
+
+      const content = await evidenceService.readVerified(attachment);
+
+      res.setHeader('Content-Type', attachment.mimeType);
+      res.setHeader('Content-Length', content.length);
+      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('X-Evidence-SHA256', attachment.sha256);
+      res.send(content);
+    } catch (error) {
+      console.error("Error downloading evidence:", error);
+      if (error instanceof EvidenceIntegrityError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to download evidence" });
+    }
+  });
+
+  app.delete('/api/evidence/:id', basicAuth, requirePermission('compliance:write'), async (req: any, res) => {
+    try {
+      const attachment = await storage.getEvidenceAttachment(req.params.id);
+      if (!attachment || attachment.organizationId !== req.organizationContext.organizationId) {
+        return res.status(404).json({ message: "Evidence not found" });
+      }
+
+      await evidenceService.delete(attachment);
+      res.json({ message: "Evidence deleted" });
+    } catch (error) {
+      console.error("Error deleting evidence:", error);
+      res.status(500).json({ message: "Failed to delete evidence" });
+    }
+  });
+
   // Document generation routes
-  app.get('/api/documents', basicAuth, async (req: any, res) => {
+  app.get('/api/documents', basicAuth, requirePermission('documents:read'), async (req: any, res) => {
     try {
-      const userId = req.user.id;
+      const { organizationId } = req.organizationContext;
       const { systemId } = req.query;
       
       let documents;
       if (systemId) {
-        // SECURITY: Verify system ownership before getting documents
+        // SECURITY: Verify system belongs to the organization before getting documents
         const aiSystem = await storage.getAiSystem(systemId as string);
-        if (!aiSystem || aiSystem.userId !== userId) {
+        if (!organizationService.canAccessRecord(req.organizationContext, aiSystem)) {
           return res.status(403).json({ message: "Access denied" });
         }
         documents = await storage.getDocumentsBySystem(systemId as string);
       } else {
-        documents = await storage.getDocumentsByUser(userId);
+        documents = await storage.getDocumentsByOrganization(organizationId);
       }
       
       res.json(documents);
@@ -456,7 +1282,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/documents/generate', basicAuth, async (req: any, res) => {
+  app.post('/api/documents/generate', basicAuth, requirePermission('documents:write'), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { systemId, documentType, title } = req.body;
@@ -467,17 +1293,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "AI System not found" });
       }
       
-      // CRITICAL SECURITY: Verify ownership
-      if (aiSystem.userId !== userId) {
-        return res.status(403).json({ message: "Access denied - you can only generate documents for your own AI systems" });
+      // CRITICAL SECURITY: Verify organization membership
+      if (!organizationService.canAccessRecord(req.organizationContext, aiSystem)) {
+        return res.status(403).json({ message: "Access denied - you can only generate documents for your organization's AI systems" });
       }
       
       const riskAssessments = await storage.getRiskAssessmentsBySystem(systemId);
       const latestAssessment = riskAssessments?.[0]; // Get most recent
+      const evidenceAttachments = await evidenceService.getBySystem(systemId);
       
       // Build comprehensive context for document generation
       const contextData = {
         systemName: aiSystem.name,
+        operatorRoles: describeRoles(aiSystem),
         description: aiSystem.description,
         sector: aiSystem.sector,
         riskLevel: aiSystem.riskLevel || 'not_assessed',
@@ -502,6 +1330,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 SYSTÈME IA: ${contextData.systemName}
 DESCRIPTION: ${contextData.description}
 SECTEUR: ${contextData.sector}
+RÔLE DE L'ORGANISATION: ${contextData.operatorRoles}
 NIVEAU DE RISQUE: ${contextData.riskLevel}
 SCORE DE CONFORMITÉ: ${contextData.complianceScore || 'Non évalué'}
 
@@ -525,6 +1354,7 @@ Le document doit inclure:
 SYSTÈME IA: ${contextData.systemName}
 DESCRIPTION: ${contextData.description}
 SECTEUR: ${contextData.sector}
+RÔLE DE L'ORGANISATION: ${contextData.operatorRoles}
 NIVEAU DE RISQUE: ${contextData.riskLevel}
 
 ${contextData.assessmentData ? `ÉVALUATION TECHNIQUE EXISTANTE:
@@ -546,6 +1376,7 @@ Le document doit analyser:
 SYSTÈME IA: ${contextData.systemName}
 DESCRIPTION: ${contextData.description}
 SECTEUR: ${contextData.sector}
+RÔLE DE L'ORGANISATION: ${contextData.operatorRoles}
 NIVEAU DE RISQUE: ${contextData.riskLevel}
 SCORE DE CONFORMITÉ: ${contextData.complianceScore || 'Non évalué'}
 
@@ -565,6 +1396,7 @@ La déclaration doit contenir:
 SYSTÈME IA: ${contextData.systemName}
 DESCRIPTION: ${contextData.description}
 SECTEUR: ${contextData.sector}
+RÔLE DE L'ORGANISATION: ${contextData.operatorRoles}
 
 ${contextData.assessmentData?.formData ? `DONNÉES D'ÉVALUATION:
 ${JSON.stringify(contextData.assessmentData.formData)}` : ''}
@@ -584,6 +1416,7 @@ Le plan doit définir:
 SYSTÈME IA: ${contextData.systemName}
 DESCRIPTION: ${contextData.description}
 SECTEUR: ${contextData.sector}
+RÔLE DE L'ORGANISATION: ${contextData.operatorRoles}
 NIVEAU DE RISQUE: ${contextData.riskLevel}
 
 Les instructions doivent inclure:
@@ -601,6 +1434,7 @@ Les instructions doivent inclure:
 SYSTÈME IA: ${contextData.systemName}
 DESCRIPTION: ${contextData.description}
 SECTEUR: ${contextData.sector}
+RÔLE DE L'ORGANISATION: ${contextData.operatorRoles}
 
 Le registre doit contenir:
 1. Template de signalement d'incident normalisé
@@ -614,6 +1448,13 @@ Le registre doit contenir:
         default:
           prompt = `Générez un document de conformité EU AI Act de type "${documentType}" pour le système "${contextData.systemName}".`;
       }
+
+      if (evidenceAttachments.length > 0) {
+        prompt += `
+
+PIÈCES JUSTIFICATIVES DISPONIBLES (à citer dans le document lorsqu'elles étayent une obligation):
+${complianceService.formatEvidenceInventory(evidenceAttachments)}`;
+      }
       
       const response = await llmService.generateResponse(prompt, userId, {
         systemPrompt,
@@ -636,7 +1477,7 @@ Le registre doit contenir:
   });
 
   // Regulatory monitoring routes
-  app.get('/api/regulatory/updates', async (req, res) => {
+  app.get('/api/regulatory/updates', basicAuth, requirePermission('regulatory:read'), async (req, res) => {
     try {
       const { limit, source, severity } = req.query;
 
@@ -660,7 +1501,7 @@ Le registre doit contenir:
     }
   });
 
-  app.get('/api/regulatory/alerts', async (req, res) => {
+  app.get('/api/regulatory/alerts', basicAuth, requirePermission('regulatory:read'), async (req, res) => {
     try {
       const alerts = await regulatoryService.getCriticalAlerts();
       res.json(alerts);
@@ -670,7 +1511,7 @@ Le registre doit contenir:
     }
   });
 
-  app.get('/api/regulatory/status', async (req, res) => {
+  app.get('/api/regulatory/status', basicAuth, requirePermission('regulatory:read'), async (req, res) => {
     try {
       const status = await regulatoryService.getMonitoringStatus();
       res.json(status);
@@ -680,7 +1521,28 @@ Le registre doit contenir:
     }
   });
 
-  app.post('/api/regulatory/sync', basicAuth, async (req: any, res) => {
+  app.get('/api/regulatory/metrics', basicAuth, requirePermission('regulatory:read'), async (req, res) => {
+    try {
+      const metrics = await regulatoryService.getAdvancedMetrics();
+      res.json(metrics);
+    } catch (error) {
+      console.error("Error fetching monitoring metrics:", error);
+      res.status(500).json({ message: "Failed to fetch monitoring metrics" });
+    }
+  });
+
+  app.get('/api/regulatory/sync-runs', basicAuth, requirePermission('regulatory:read'), async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const runs = await regulatorySyncService.getRuns(limit);
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching regulatory sync runs:", error);
+      res.status(500).json({ message: "Failed to fetch regulatory sync runs" });
+    }
+  });
+
+  app.post('/api/regulatory/sync', basicAuth, requirePermission('regulatory:sync'), async (req: any, res) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
@@ -699,7 +1561,7 @@ Le registre doit contenir:
   /**
    * Synchronisation personnalisée avec workflow étendu
    */
-  app.post('/api/regulatory/sync-personalized', basicAuth, async (req: any, res) => {
+  app.post('/api/regulatory/sync-personalized', basicAuth, requirePermission('regulatory:sync'), async (req: any, res) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
@@ -708,14 +1570,12 @@ Le registre doit contenir:
 
       const { daysBack, sources, minRelevanceScore } = req.body;
 
-      // Utiliser le workflow étendu avec personnalisation
-      const { regulatoryWorkflow } = await import('./workflows/regulatory-monitoring-workflow');
-      const result = await regulatoryWorkflow.executeEnhanced({
+      // Utiliser le workflow étendu avec personnalisation (toutes les sources actives par défaut)
+      const { result } = await regulatorySyncService.runPersonalized({
         daysBack: daysBack || 7,
-        sources: sources || ['eurlex', 'cnil', 'ec-ai-office'],
+        sources: Array.isArray(sources) && sources.length > 0 ? sources : undefined,
         minRelevanceScore: minRelevanceScore || 60,
-        userId,
-      });
+      }, userId, req.organizationContext.organizationId);
 
       res.json({
         success: true,
@@ -730,127 +1590,367 @@ Le registre doit contenir:
     }
   });
 
-  /**
-   * Récupère les mises à jour personnalisées pour l'utilisateur authentifié
-   */
-  app.get('/api/regulatory/personalized-updates', basicAuth, async (req: any, res) => {
+  /**
+   * Insights personnalisés enregistrés pour l'organisation
+   */
+  app.get('/api/regulatory/personalized-updates', basicAuth, requirePermission('regulatory:read'), async (req: any, res) => {
+    try {
+      const { limit = 20, urgencyLevel } = req.query;
+      const organizationId = req.organizationContext.organizationId;
+
+      const [insights, items] = await Promise.all([
+        actionItemService.getInsights(organizationId, parseInt(limit as string) || 20),
+        actionItemService.listItems(organizationId),
+      ]);
+
+      const personalizedUpdates = insights
+        .filter(insight => !urgencyLevel || insight.urgencyLevel === urgencyLevel)
+        .map(insight => {
+          const insightItems = items.filter(item => item.insightId === insight.id);
+          return {
+            id: insight.id,
+            title: insight.title,
+            content: insight.summary,
+            source: insight.source,
+            url: insight.url,
+            impactLevel: insight.impactLevel,
+            publishedAt: insight.publishedAt || insight.createdAt,
+            createdAt: insight.createdAt,
+            userContext: {
+              relevanceScore: insight.relevanceScore,
+              urgencyLevel: insight.urgencyLevel,
+              estimatedImpact: insight.estimatedImpact,
+              impactedSystemsCount: insight.impactedSystemIds?.length || 0,
+            },
+            actionPlan: {
+              priorityActionsCount: insightItems.length,
+              completedActionsCount: insightItems.filter(item => item.status === 'done').length,
+              estimatedEffort: insight.estimatedEffort,
+              budgetImpact: insight.budgetImpact,
+            },
+          };
+        });
+
+      res.json(personalizedUpdates);
+    } catch (error) {
+      console.error("Error fetching personalized updates:", error);
+      res.status(500).json({ message: "Failed to fetch personalized updates" });
+    }
+  });
+
+  /**
+   * Plan d'actions enregistré d'un insight et avancement de ses tâches
+   */
+  app.get('/api/regulatory/insights/:insightId/action-plan', basicAuth, requirePermission('regulatory:read'), async (req: any, res) => {
+    try {
+      const { insight, items } = await actionItemService.getInsightWithItems(req.organizationContext, req.params.insightId);
+
+      res.json({
+        insightId: insight.id,
+        title: insight.title,
+        urgencyLevel: insight.urgencyLevel,
+        estimatedEffort: insight.estimatedEffort,
+        budgetImpact: insight.budgetImpact,
+        ...insight.actionPlan,
+        actionItems: items,
+      });
+    } catch (error) {
+      if (error instanceof RegulatoryInsightNotFoundError) {
+        return res.status(404).json({ message: "Insight not found" });
+      }
+      console.error("Error fetching action plan:", error);
+      res.status(500).json({ message: "Failed to fetch action plan" });
+    }
+  });
+
+  /**
+   * Dashboard d'impact personnalisé pour l'utilisateur authentifié
+   */
+  app.get('/api/regulatory/impact-dashboard', basicAuth, requirePermission('regulatory:read'), async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const { regulatoryWorkflow } = await import('./workflows/regulatory-monitoring-workflow');
+      const dashboard = await regulatoryWorkflow.generateImpactDashboard(userId);
+
+      if (!dashboard) {
+        return res.status(500).json({ message: "Failed to generate dashboard" });
+      }
+
+      res.json(dashboard);
+    } catch (error) {
+      console.error("Error generating impact dashboard:", error);
+      res.status(500).json({ message: "Failed to generate impact dashboard" });
+    }
+  });
+
+  // Action items (tasks generated from insight action plans or created manually)
+  const handleActionItemError = (res: any, error: unknown, fallbackMessage: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid data", errors: error.errors });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error instanceof ActionItemNotFoundError) {
+      return res.status(404).json({ message: "Action item not found" });
+    }
+    res.status(500).json({ message: fallbackMessage });
+  };
+
+  app.get('/api/action-items', basicAuth, requirePermission('regulatory:read'), async (req: any, res) => {
+    try {
+      const items = await actionItemService.listItems(req.organizationContext.organizationId);
+      const { status, assigneeId, insightId } = req.query;
+
+      res.json(items.filter(item =>
+        (!status || item.status === status) &&
+        (!assigneeId || item.assigneeId === assigneeId) &&
+        (!insightId || item.insightId === insightId)
+      ));
+    } catch (error) {
+      console.error("Error fetching action items:", error);
+      res.status(500).json({ message: "Failed to fetch action items" });
+    }
+  });
+
+  app.post('/api/action-items', basicAuth, requirePermission('compliance:write'), async (req: any, res) => {
+    try {
+      const item = await actionItemService.createItem(req.organizationContext, req.body);
+      res.status(201).json(item);
+    } catch (error) {
+      console.error("Error creating action item:", error);
+      handleActionItemError(res, error, "Failed to create action item");
+    }
+  });
+
+  app.patch('/api/action-items/:id', basicAuth, requirePermission('compliance:write'), async (req: any, res) => {
+    try {
+      const item = await actionItemService.updateItem(req.organizationContext, req.params.id, req.body);
+      res.json(item);
+    } catch (error) {
+      console.error("Error updating action item:", error);
+      handleActionItemError(res, error, "Failed to update action item");
+    }
+  });
+
+  app.delete('/api/action-items/:id', basicAuth, requirePermission('compliance:write'), async (req: any, res) => {
     try {
-      const userId = req.user?.id;
-
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
-      const { limit = 20, urgencyLevel, category } = req.query;
+      await actionItemService.deleteItem(req.organizationContext, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting action item:", error);
+      handleActionItemError(res, error, "Failed to delete action item");
+    }
+  });
 
-      // Pour l'instant, récupérer les mises à jour standard et les enrichir
-      // TODO: Implémenter la récupération depuis une table dédiée aux insights actionnables
-      const { storage } = await import('./storage');
-      const updates = await storage.getRegulatoryUpdates(parseInt(limit as string));
+  app.get('/api/action-items/:id/comments', basicAuth, requirePermission('regulatory:read'), async (req: any, res) => {
+    try {
+      const comments = await actionItemService.getComments(req.organizationContext, req.params.id);
+      res.json(comments);
+    } catch (error) {
+      console.error("Error fetching action item comments:", error);
+      handleActionItemError(res, error, "Failed to fetch comments");
+    }
+  });
 
-      // Simuler la personnalisation (à remplacer par la vraie logique)
-      const personalizedUpdates = updates.map(update => ({
-        ...update,
-        userContext: {
-          relevanceScore: Math.floor(Math.random() * 40) + 60, // 60-100
-          urgencyLevel: ['immediate', 'high', 'medium', 'low'][Math.floor(Math.random() * 4)],
-          estimatedImpact: Math.floor(Math.random() * 50) + 50, // 50-100
-          impactedSystemsCount: Math.floor(Math.random() * 3) + 1,
-        },
-        actionPlan: {
-          priorityActionsCount: Math.floor(Math.random() * 5) + 1,
-          estimatedEffort: ['1 jour', '3 jours', '1 semaine', '2 semaines'][Math.floor(Math.random() * 4)],
-          budgetImpact: ['Faible', 'Modéré', 'Élevé'][Math.floor(Math.random() * 3)],
-        },
-      }));
+  app.post('/api/action-items/:id/comments', basicAuth, requirePermission('compliance:write'), async (req: any, res) => {
+    try {
+      const comment = await actionItemService.addComment(req.organizationContext, req.params.id, req.body);
+      res.status(201).json(comment);
+    } catch (error) {
+      console.error("Error adding action item comment:", error);
+      handleActionItemError(res, error, "Failed to add comment");
+    }
+  });
 
-      res.json(personalizedUpdates);
+  // Regulatory sources (connector registry)
+  const handleRegulatorySourceError = (res: any, error: unknown, fallbackMessage: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid data", errors: error.errors });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error instanceof RegulatorySourceNotFoundError) {
+      return res.status(404).json({ message: "Regulatory source not found" });
+    }
+    res.status(500).json({ message: fallbackMessage });
+  };
+
+  const logRegulatorySourceEvent = (req: any, eventType: 'regulatory_source_created' | 'regulatory_source_updated' | 'regulatory_source_deleted', source: { id: string; key: string }) =>
+    auditService.logSecurityEvent({
+      userId: req.user.id,
+      eventType,
+      eventDescription: `Regulatory source ${source.key} ${eventType.replace('regulatory_source_', '')}`,
+      ipAddress: req.ip || '127.0.0.1',
+      userAgent: req.get('User-Agent'),
+      isSuccessful: true,
+      additionalData: { sourceId: source.id, key: source.key }
+    });
+
+  app.get('/api/regulatory/sources', basicAuth, requirePermission('regulatory:read'), async (req: any, res) => {
+    try {
+      res.json(await regulatorySourceService.getSources());
     } catch (error) {
-      console.error("Error fetching personalized updates:", error);
-      res.status(500).json({ message: "Failed to fetch personalized updates" });
+      console.error("Error fetching regulatory sources:", error);
+      res.status(500).json({ message: "Failed to fetch regulatory sources" });
     }
   });
 
-  /**
-   * Génère un plan d'actions pour un insight spécifique
-   */
-  app.get('/api/regulatory/action-plan/:userId/:insightId', basicAuth, async (req: any, res) => {
+  app.post('/api/admin/regulatory/sources', enhancedAuth, requireAdmin, async (req: any, res) => {
     try {
-      const { userId, insightId } = req.params;
-      const requestingUserId = req.user?.id;
+      const source = await regulatorySourceService.createSource(req.body, req.user.id);
+      await logRegulatorySourceEvent(req, 'regulatory_source_created', source);
+      res.status(201).json(source);
+    } catch (error) {
+      console.error("Error creating regulatory source:", error);
+      handleRegulatorySourceError(res, error, "Failed to create regulatory source");
+    }
+  });
 
-      if (requestingUserId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
+  // Dry run of a source configuration (feed URL or CSS selectors) before saving it
+  app.post('/api/admin/regulatory/sources/preview', enhancedAuth, requireAdmin, async (req: any, res) => {
+    try {
+      const items = await regulatorySourceService.preview(req.body);
+      res.json({ items });
+    } catch (error) {
+      console.error("Error previewing regulatory source:", error);
+      if (!(error instanceof z.ZodError) && !(error instanceof ValidationError)) {
+        return res.status(422).json({ message: error instanceof Error ? error.message : "Failed to fetch source" });
       }
+      handleRegulatorySourceError(res, error, "Failed to preview regulatory source");
+    }
+  });
 
-      // TODO: Récupérer le plan d'actions depuis la base de données
-      // Pour l'instant, retourner un plan simulé
-      const actionPlan = {
-        insightId,
-        priorityActions: [
-          {
-            id: 'action-1',
-            description: 'Réviser la documentation technique du système IA',
-            priority: 'high',
-            deadline: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-            estimatedHours: 16,
-            category: 'documentation',
-            impactLevel: 'medium',
-          },
-          {
-            id: 'action-2',
-            description: 'Effectuer un audit de conformité',
-            priority: 'urgent',
-            deadline: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000),
-            estimatedHours: 24,
-            category: 'compliance',
-            impactLevel: 'high',
-          },
-        ],
-        timeline: {
-          immediate: 1,
-          short_term: 1,
-          medium_term: 0,
-          long_term: 0,
-        },
-        estimatedEffort: '5 jours (40h)',
-        budgetImpact: 'Modéré (5-20k€)',
-      };
-
-      res.json(actionPlan);
+  app.patch('/api/admin/regulatory/sources/:id', enhancedAuth, requireAdmin, async (req: any, res) => {
+    try {
+      const source = await regulatorySourceService.updateSource(req.params.id, req.body);
+      await logRegulatorySourceEvent(req, 'regulatory_source_updated', source);
+      res.json(source);
     } catch (error) {
-      console.error("Error generating action plan:", error);
-      res.status(500).json({ message: "Failed to generate action plan" });
+      console.error("Error updating regulatory source:", error);
+      handleRegulatorySourceError(res, error, "Failed to update regulatory source");
     }
   });
 
-  /**
-   * Dashboard d'impact personnalisé pour l'utilisateur authentifié
-   */
-  app.get('/api/regulatory/impact-dashboard', basicAuth, async (req: any, res) => {
+  app.delete('/api/admin/regulatory/sources/:id', enhancedAuth, requireAdmin, async (req: any, res) => {
     try {
-      const userId = req.user?.id;
+      const source = await regulatorySourceService.deleteSource(req.params.id);
+      await logRegulatorySourceEvent(req, 'regulatory_source_deleted', source);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting regulatory source:", error);
+      handleRegulatorySourceError(res, error, "Failed to delete regulatory source");
+    }
+  });
 
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
+  // ===== MODEL CONTEXT PROTOCOL (streamable HTTP, sans état) =====
 
-      const { regulatoryWorkflow } = await import('./workflows/regulatory-monitoring-workflow');
-      const dashboard = await regulatoryWorkflow.generateImpactDashboard(userId);
+  // Clients MCP authentifiés par jeton d'accès personnel ; renvoie null après avoir répondu en cas d'échec
+  const authenticateMcpClient = async (req: any, res: any, scope?: PersonalAccessTokenScope) => {
+    try {
+      const session = await personalAccessTokenService.authenticate(req.get('Authorization'));
+      if (scope && !session.scopes.includes(scope)) {
+        throw new AuthorizationError(`Personal access token scope "${scope}" required`, 'PERMISSION_DENIED');
+      }
+      return session;
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        res.set('WWW-Authenticate', 'Bearer realm="ai-act-navigator"');
+        res.status(401).json({ message: error.message, code: error.code });
+      } else if (error instanceof AuthorizationError) {
+        res.status(403).json({ message: error.message, code: error.code });
+      } else {
+        console.error("Error authenticating MCP client:", error);
+        res.status(500).json({ message: "Authentication error" });
+      }
+      return null;
+    }
+  };
+
+  // Outils de veille (EUR-Lex, CNIL, AI Office) pour les hôtes MCP externes : chaque appel déclenche une collecte
+  // auprès des sources, réservée aux jetons portant le scope regulatory:read
+  app.post('/mcp/regulatory/:server', apiRateLimit, async (req, res) => {
+    const connector = EXPOSED_MCP_SERVERS[req.params.server];
+    if (!connector) {
+      return res.status(404).json({ message: "Unknown MCP server" });
+    }
+    if (!(await authenticateMcpClient(req, res, 'regulatory:read'))) {
+      return;
+    }
 
-      if (!dashboard) {
-        return res.status(500).json({ message: "Failed to generate dashboard" });
+    try {
+      const server = createProtocolServer(connector);
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+      res.on('close', () => {
+        void transport.close();
+        void server.close();
+      });
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error("Error handling MCP request:", error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          jsonrpc: '2.0',
+          error: { code: -32603, message: 'Internal server error' },
+          id: null,
+        });
       }
+    }
+  });
 
-      res.json(dashboard);
+  // Pas de session ni de flux SSE côté serveur en mode sans état
+  const rejectMcpMethod = (_req: any, res: any) => {
+    res.status(405).set('Allow', 'POST').json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message: 'Method not allowed' },
+      id: null,
+    });
+  };
+  app.get('/mcp/regulatory/:server', rejectMcpMethod);
+  app.delete('/mcp/regulatory/:server', rejectMcpMethod);
+
+  // Assistant (classification, AI Act, compliance matrix) authenticated by personal access token
+  app.post('/mcp/assistant', apiRateLimit, async (req, res) => {
+    const session = await authenticateMcpClient(req, res);
+    if (!session) {
+      return;
+    }
+
+    try {
+      const server = createAssistantServer(session, {
+        ipAddress: req.ip || '127.0.0.1',
+        userAgent: req.get('User-Agent'),
+      });
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+      res.on('close', () => {
+        void transport.close();
+        void server.close();
+      });
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
     } catch (error) {
-      console.error("Error generating impact dashboard:", error);
-      res.status(500).json({ message: "Failed to generate impact dashboard" });
+      console.error("Error handling assistant MCP request:", error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          jsonrpc: '2.0',
+          error: { code: -32603, message: 'Internal server error' },
+          id: null,
+        });
+      }
     }
   });
+  app.get('/mcp/assistant', rejectMcpMethod);
+  app.delete('/mcp/assistant', rejectMcpMethod);
 
   // LLM Settings routes
-  app.get('/api/llm/settings', basicAuth, async (req: any, res) => {
+  app.get('/api/llm/settings', basicAuth, requirePermission('llm:configure'), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const settings = await storage.getLlmSettings(userId);
@@ -868,7 +1968,7 @@ Le registre doit contenir:
     }
   });
 
-  app.post('/api/llm/settings', basicAuth, async (req: any, res) => {
+  app.post('/api/llm/settings', basicAuth, requirePermission('llm:configure'), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const settingsData = insertLlmSettingsSchema.parse({
@@ -900,7 +2000,7 @@ Le registre doit contenir:
     }
   });
 
-  app.post('/api/llm/test-connection', basicAuth, async (req: any, res) => {
+  app.post('/api/llm/test-connection', basicAuth, requirePermission('llm:configure'), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { provider } = req.body;
@@ -914,13 +2014,13 @@ Le registre doit contenir:
   });
 
   // Dashboard metrics
-  app.get('/api/dashboard/metrics', basicAuth, async (req: any, res) => {
+  app.get('/api/dashboard/metrics', basicAuth, requirePermission('ai_systems:read'), async (req: any, res) => {
     try {
-      const userId = req.user.id;
+      const { organizationId } = req.organizationContext;
       
       const [systems, complianceOverview, criticalAlerts] = await Promise.all([
-        storage.getAiSystemsByUser(userId),
-        complianceService.getComplianceOverview(userId),
+        storage.getAiSystemsByOrganization(organizationId),
+        complianceService.getComplianceOverview(organizationId),
         regulatoryService.getCriticalAlerts()
       ]);
 
@@ -947,23 +2047,23 @@ Le registre doit contenir:
   });
 
   // Compliance Certificates Routes
-  app.get('/api/certificates', basicAuth, async (req: any, res) => {
+  app.get('/api/certificates', basicAuth, requirePermission('certificates:read'), async (req: any, res) => {
     try {
-      const userId = req.user.id;
+      const { organizationId } = req.organizationContext;
       const { systemId, type, status } = req.query;
       
       let certificates;
       if (systemId) {
         // Get certificates for specific AI system (with security check)
         const aiSystem = await storage.getAiSystem(systemId as string);
-        if (!aiSystem || aiSystem.userId !== userId) {
+        if (!organizationService.canAccessRecord(req.organizationContext, aiSystem)) {
           return res.status(403).json({ message: "Access denied" });
         }
         certificates = await storage.getCertificatesBySystem(systemId as string);
       } else if (status === 'valid') {
-        certificates = await storage.getValidCertificates(userId);
+        certificates = await storage.getValidCertificatesByOrganization(organizationId);
       } else {
-        certificates = await storage.getCertificatesByUser(userId);
+        certificates = await storage.getCertificatesByOrganization(organizationId);
       }
       
       // Filter by type if specified
@@ -978,9 +2078,10 @@ Le registre doit contenir:
     }
   });
 
-  app.post('/api/certificates/generate', basicAuth, async (req: any, res) => {
+  app.post('/api/certificates/generate', basicAuth, requirePermission('certificates:issue'), async (req: any, res) => {
     try {
       const userId = req.user.id;
+      const { organizationId } = req.organizationContext;
       
       // Validate request body with Zod
       const generateCertificateSchema = z.object({
@@ -1005,9 +2106,11 @@ Le registre doit contenir:
       
       if (aiSystemId) {
         aiSystem = await storage.getAiSystem(aiSystemId);
-        if (!aiSystem || aiSystem.userId !== userId) {
+        if (!aiSystem || !organizationService.canAccessRecord(req.organizationContext, aiSystem)) {
           return res.status(403).json({ message: "Access denied to AI system" });
         }
+        // No certificate for a system falling under Art. 5
+        prohibitedPracticeService.assertCertifiable(aiSystem);
         // Get latest risk assessment for the system
         const riskAssessments = await storage.getRiskAssessmentsBySystem(aiSystemId);
         riskAssessment = riskAssessments[0]; // Most recent
@@ -1046,7 +2149,10 @@ Le registre doit contenir:
       });
 
       // Validate with schema before persistence
-      const validationResult = insertComplianceCertificateSchema.safeParse(certificateData);
+      const validationResult = insertComplianceCertificateSchema.safeParse({
+        ...certificateData,
+        organizationId
+      });
       if (!validationResult.success) {
         return res.status(400).json({
           message: "Certificate validation failed",
@@ -1072,6 +2178,9 @@ Le registre doit contenir:
         }
       });
     } catch (error) {
+      if (error instanceof ProhibitedPracticeError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error("Error generating certificate:", error);
       res.status(500).json({ message: "Failed to generate certificate" });
     }
@@ -1091,9 +2200,11 @@ Le registre doit contenir:
         });
       }
 
-      // Import certificate service and verify hash
+      // Import certificate service and verify hash and signature
       const { certificateService } = await import('./services/certificateService');
-      const hashValid = certificateService.verifyCertificationHash(certificate);
+      const integrity = await certificateService.verifyCertificateIntegrity(certificate);
+      const hashValid = integrity.hashValid;
+      const signatureValid = integrity.signature.valid;
       
       // Check expiry and status
       const isExpired = new Date() > new Date(certificate.validUntil || 0);
@@ -1105,7 +2216,7 @@ Le registre doit contenir:
         externalHashValid = providedHash === certificate.certificationHash;
       }
 
-      const isFullyValid = hashValid && statusValid && !isExpired && externalHashValid;
+      const isFullyValid = hashValid && signatureValid && statusValid && !isExpired && externalHashValid;
 
       res.json({
         valid: isFullyValid,
@@ -1119,7 +2230,16 @@ Le registre doit contenir:
           validUntil: certificate.validUntil,
           status: certificate.status
         } : null,
-        message: !hashValid ? "Certificate integrity check failed" :
+        signature: {
+          algorithm: 'Ed25519',
+          keyId: certificate.signingKeyId,
+          valid: signatureValid,
+          keyStatus: integrity.signature.keyStatus
+        },
+        message: !certificate.signature ? "Certificate is not signed" :
+                integrity.signature.reason === 'revoked_key' ? "Certificate was signed with a revoked key" :
+                integrity.signature.reason === 'unknown_key' ? "Certificate signing key is unknown" :
+                !hashValid || !signatureValid ? "Certificate integrity check failed" :
                 isExpired ? "Certificate has expired" :
                 !statusValid ? "Certificate is not valid" :
                 !externalHashValid ? "Provided hash does not match" :
@@ -1134,9 +2254,89 @@ Le registre doit contenir:
     }
   });
 
-  app.get('/api/certificates/:id', basicAuth, async (req: any, res) => {
+  // Public signing keys (JWK set) for offline certificate verification
+  app.get('/.well-known/certificate-keys.json', async (req, res) => {
+    try {
+      const keys = await certificateSigningService.getPublicKeys();
+      res.setHeader('Cache-Control', 'public, max-age=3600');
+      res.json(keys);
+    } catch (error) {
+      console.error("Error fetching certificate signing keys:", error);
+      res.status(500).json({ message: "Failed to fetch certificate signing keys" });
+    }
+  });
+
+  // Rotate the certificate signing key (platform admin only)
+  app.post('/api/admin/certificate-keys/rotate', enhancedAuth, requireAdmin, async (req: any, res) => {
+    try {
+      const { revokePrevious } = z.object({ revokePrevious: z.boolean().optional() }).parse(req.body || {});
+      const key = await certificateSigningService.rotateKey({ revokePrevious });
+
+      await auditService.logSecurityEvent({
+        userId: req.user.id,
+        eventType: 'certificate_signing_key_rotated',
+        eventDescription: `Certificate signing key rotated${revokePrevious ? ' (previous key revoked)' : ''}`,
+        ipAddress: req.ip || '127.0.0.1',
+        userAgent: req.get('User-Agent'),
+        isSuccessful: true,
+        additionalData: { keyId: key.kid, revokePrevious: !!revokePrevious }
+      });
+
+      res.status(201).json(key);
+    } catch (error) {
+      console.error("Error rotating certificate signing key:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to rotate certificate signing key" });
+    }
+  });
+
+  // Signed certificate export for offline verification
+  app.get('/api/certificates/:id/export', basicAuth, requirePermission('certificates:read'), async (req: any, res) => {
+    try {
+      const certificate = await storage.getCertificate(req.params.id);
+      if (!certificate || !organizationService.canAccessRecord(req.organizationContext, certificate)) {
+        return res.status(404).json({ message: "Certificate not found" });
+      }
+
+      const { certificateService } = await import('./services/certificateService');
+      const exported = certificateService.exportCertificate(certificate);
+      if (!exported) {
+        return res.status(409).json({ message: "Certificate was issued before signing was enabled" });
+      }
+
+      res.setHeader('Content-Disposition', `attachment; filename="${certificate.certificateNumber}.json"`);
+      res.json(exported);
+    } catch (error) {
+      console.error("Error exporting certificate:", error);
+      res.status(500).json({ message: "Failed to export certificate" });
+    }
+  });
+
+  // Print-ready PDF with a QR code pointing to the public verification route
+  app.get('/api/certificates/:id/pdf', basicAuth, requirePermission('certificates:read'), async (req: any, res) => {
+    try {
+      const certificate = await storage.getCertificate(req.params.id);
+      if (!certificate || !organizationService.canAccessRecord(req.organizationContext, certificate)) {
+        return res.status(404).json({ message: "Certificate not found" });
+      }
+
+      const baseUrl = process.env.PUBLIC_BASE_URL || `${req.protocol}://${req.get('host')}`;
+      const pdf = await certificatePdfService.generatePdf(certificate, baseUrl);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Length', pdf.length);
+      res.setHeader('Content-Disposition', `attachment; filename="${certificate.certificateNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating certificate PDF:", error);
+      res.status(500).json({ message: "Failed to generate certificate PDF" });
+    }
+  });
+
+  app.get('/api/certificates/:id', basicAuth, requirePermission('certificates:read'), async (req: any, res) => {
     try {
-      const userId = req.user.id;
       const { id } = req.params;
       
       const certificate = await storage.getCertificate(id);
@@ -1144,8 +2344,8 @@ Le registre doit contenir:
         return res.status(404).json({ message: "Certificate not found" });
       }
       
-      // Security check: user can only access their own certificates
-      if (certificate.userId !== userId) {
+      // Security check: certificate must belong to the user's organization
+      if (!organizationService.canAccessRecord(req.organizationContext, certificate)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
@@ -1157,30 +2357,328 @@ Le registre doit contenir:
   });
 
 
-  app.patch('/api/certificates/:id/status', enhancedAuth, async (req: any, res) => {
+  app.patch('/api/certificates/:id/status', enhancedAuth, requirePermission('certificates:revoke'), async (req: any, res) => {
     try {
-      const userId = req.user.id;
       const { id } = req.params;
-      const { status } = req.body;
-
-      if (!['valid', 'expired', 'revoked', 'pending'].includes(status)) {
-        return res.status(400).json({ message: "Invalid status" });
-      }
+      const { status, reason } = updateCertificateStatusSchema.parse(req.body);
 
-      // Check certificate ownership
+      // Check certificate belongs to the organization
       const certificate = await storage.getCertificate(id);
-      if (!certificate || certificate.userId !== userId) {
+      if (!certificate || !organizationService.canAccessRecord(req.organizationContext, certificate)) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const updatedCertificate = await storage.updateCertificateStatus(id, status);
+      // Revocation is final, recorded with its reason and published in the revocation list
+      const updatedCertificate = await certificateLifecycleService.changeStatus(certificate, status, reason);
+
+      await auditService.logSecurityEvent({
+        userId: req.user.id,
+        eventType: status === 'revoked' ? 'certificate_revoked' : 'certificate_status_changed',
+        eventDescription: status === 'revoked'
+          ? `Certificate ${certificate.certificateNumber} revoked`
+          : `Certificate ${certificate.certificateNumber} status changed from ${certificate.status} to ${status}`,
+        ipAddress: req.ip || '127.0.0.1',
+        userAgent: req.get('User-Agent'),
+        isSuccessful: true,
+        additionalData: { certificateId: certificate.id, from: certificate.status, to: status, reason: reason || null }
+      });
+
       res.json(updatedCertificate);
     } catch (error) {
       console.error("Error updating certificate status:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid status", errors: error.errors });
+      }
+      if (error instanceof CertificateStatusTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to update certificate status" });
     }
   });
 
+  // Start a renewal: the new assessment is pre-filled from the system's latest assessment
+  app.post('/api/certificates/:id/renewal', basicAuth, requirePermission('assessments:write'), async (req: any, res) => {
+    try {
+      const certificate = await storage.getCertificate(req.params.id);
+      if (!certificate || !organizationService.canAccessRecord(req.organizationContext, certificate)) {
+        return res.status(404).json({ message: "Certificate not found" });
+      }
+
+      const prefill = await certificateLifecycleService.startRenewal(certificate, req.user.id);
+      res.status(201).json(prefill);
+    } catch (error) {
+      console.error("Error starting certificate renewal:", error);
+      if (error instanceof CertificateRenewalError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to start certificate renewal" });
+    }
+  });
+
+  app.get('/api/certificates/:id/renewal', basicAuth, requirePermission('assessments:write'), async (req: any, res) => {
+    try {
+      const certificate = await storage.getCertificate(req.params.id);
+      if (!certificate || !organizationService.canAccessRecord(req.organizationContext, certificate)) {
+        return res.status(404).json({ message: "Certificate not found" });
+      }
+
+      res.json(await certificateLifecycleService.getRenewalPrefill(certificate));
+    } catch (error) {
+      console.error("Error fetching certificate renewal data:", error);
+      if (error instanceof CertificateRenewalError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch certificate renewal data" });
+    }
+  });
+
+  // Public signed revocation list for bulk checks by relying parties
+  app.get('/.well-known/certificate-revocations.json', async (req, res) => {
+    try {
+      const revocationList = await certificateLifecycleService.buildRevocationList();
+      res.setHeader('Cache-Control', 'public, max-age=300');
+      res.json(revocationList);
+    } catch (error) {
+      console.error("Error building certificate revocation list:", error);
+      res.status(500).json({ message: "Failed to build certificate revocation list" });
+    }
+  });
+
+  // ============================================
+  // NOTIFICATION ROUTES
+  // ============================================
+
+  // Notifications and personal access tokens are the caller's own: authenticated only (see the allow-list above)
+  app.get('/api/notifications', basicAuth, async (req: any, res) => {
+    try {
+      const notifications = await storage.getNotificationsByUser(req.user.id);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.post('/api/notifications/:id/read', basicAuth, async (req: any, res) => {
+    try {
+      const notification = await storage.markNotificationRead(req.params.id, req.user.id);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification as read:", error);
+      res.status(500).json({ message: "Failed to update notification" });
+    }
+  });
+
+  // Personal access tokens (assistant MCP server clients: coding agents, IDEs)
+  app.get('/api/personal-access-tokens', basicAuth, async (req: any, res) => {
+    try {
+      const tokens = await personalAccessTokenService.listTokens(req.user.id);
+      res.json(tokens);
+    } catch (error) {
+      console.error("Error fetching personal access tokens:", error);
+      res.status(500).json({ message: "Failed to fetch personal access tokens" });
+    }
+  });
+
+  app.post('/api/personal-access-tokens', basicAuth, requirePermission('organization:read'), async (req: any, res) => {
+    try {
+      const { token, record } = await personalAccessTokenService.createToken(req.organizationContext, req.body);
+
+      await auditService.logSecurityEvent({
+        userId: req.user.id,
+        eventType: 'personal_access_token_created',
+        eventDescription: `Personal access token "${record.name}" created`,
+        ipAddress: req.ip || '127.0.0.1',
+        userAgent: req.get('User-Agent'),
+        isSuccessful: true,
+        additionalData: { tokenId: record.id, organizationId: record.organizationId, scopes: record.scopes, expiresAt: record.expiresAt }
+      });
+
+      res.status(201).json({ token, record });
+    } catch (error) {
+      console.error("Error creating personal access token:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid token data", errors: error.errors });
+      }
+      if (error instanceof AuthorizationError) {
+        return res.status(403).json({ message: error.message, code: error.code });
+      }
+      res.status(500).json({ message: "Failed to create personal access token" });
+    }
+  });
+
+  app.delete('/api/personal-access-tokens/:id', basicAuth, async (req: any, res) => {
+    try {
+      const token = await personalAccessTokenService.revokeToken(req.user.id, req.params.id);
+      if (!token) {
+        return res.status(404).json({ message: "Personal access token not found" });
+      }
+
+      await auditService.logSecurityEvent({
+        userId: req.user.id,
+        eventType: 'personal_access_token_revoked',
+        eventDescription: `Personal access token "${token.name}" revoked`,
+        ipAddress: req.ip || '127.0.0.1',
+        userAgent: req.get('User-Agent'),
+        isSuccessful: true,
+        additionalData: { tokenId: token.id }
+      });
+
+      res.json(token);
+    } catch (error) {
+      console.error("Error revoking personal access token:", error);
+      res.status(500).json({ message: "Failed to revoke personal access token" });
+    }
+  });
+
+  // ============================================
+  // WORKFLOW ROUTES - Persistent compliance workflows
+  // ============================================
+
+  const handleWorkflowError = (res: any, error: unknown, fallbackMessage: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid data", errors: error.errors });
+    }
+    if (error instanceof WorkflowConfigurationError) {
+      return res.status(400).json({ message: error.message, validation: error.validation });
+    }
+    if (error instanceof WorkflowApprovalError) {
+      return res.status(403).json({ message: error.message });
+    }
+    if (error instanceof WorkflowStateError) {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({ message: fallbackMessage });
+  };
+
+  app.get('/api/workflows/step-types', basicAuth, requirePermission('workflows:read'), async (req: any, res) => {
+    res.json(workflowConfigurationService.getAvailableStepTypes());
+  });
+
+  app.get('/api/workflows/definitions', basicAuth, requirePermission('workflows:read'), async (req: any, res) => {
+    try {
+      const definitions = await workflowConfigurationService.getDefinitions(req.organizationContext.organizationId);
+      res.json(definitions);
+    } catch (error) {
+      console.error("Error fetching workflow definitions:", error);
+      res.status(500).json({ message: "Failed to fetch workflow definitions" });
+    }
+  });
+
+  app.post('/api/workflows/definitions', basicAuth, requirePermission('workflows:manage'), async (req: any, res) => {
+    try {
+      const data = createWorkflowDefinitionSchema.parse(req.body);
+      const definition = await workflowConfigurationService.createDefinition(
+        data,
+        req.organizationContext.organizationId,
+        req.user.id
+      );
+      res.status(201).json({
+        ...definition,
+        estimatedDuration: workflowConfigurationService.estimateWorkflowDuration(definition.configuration)
+      });
+    } catch (error) {
+      console.error("Error creating workflow definition:", error);
+      handleWorkflowError(res, error, "Failed to create workflow definition");
+    }
+  });
+
+  app.get('/api/workflows/definitions/:id', basicAuth, requirePermission('workflows:read'), async (req: any, res) => {
+    try {
+      const definition = await workflowConfigurationService.getDefinition(req.params.id);
+      if (!definition || definition.organizationId !== req.organizationContext.organizationId) {
+        return res.status(404).json({ message: "Workflow definition not found" });
+      }
+      res.json({
+        ...definition,
+        estimatedDuration: workflowConfigurationService.estimateWorkflowDuration(definition.configuration)
+      });
+    } catch (error) {
+      console.error("Error fetching workflow definition:", error);
+      res.status(500).json({ message: "Failed to fetch workflow definition" });
+    }
+  });
+
+  app.get('/api/workflows/executions', basicAuth, requirePermission('workflows:read'), async (req: any, res) => {
+    try {
+      const executions = await storage.getWorkflowExecutionsByOrganization(req.organizationContext.organizationId);
+      res.json(executions);
+    } catch (error) {
+      console.error("Error fetching workflow executions:", error);
+      res.status(500).json({ message: "Failed to fetch workflow executions" });
+    }
+  });
+
+  app.post('/api/workflows/executions', basicAuth, requirePermission('workflows:run'), async (req: any, res) => {
+    try {
+      const data = startWorkflowSchema.parse(req.body);
+
+      if (data.aiSystemId) {
+        const aiSystem = await storage.getAiSystem(data.aiSystemId);
+        if (!organizationService.canAccessRecord(req.organizationContext, aiSystem)) {
+          return res.status(403).json({ message: "Access denied to AI system" });
+        }
+      }
+
+      const execution = await workflowEngine.start({
+        ...data,
+        organizationId: req.organizationContext.organizationId,
+        userId: req.user.id,
+      });
+      res.status(201).json(execution);
+    } catch (error) {
+      console.error("Error starting workflow:", error);
+      handleWorkflowError(res, error, "Failed to start workflow");
+    }
+  });
+
+  app.get('/api/workflows/executions/:id', basicAuth, requirePermission('workflows:read'), async (req: any, res) => {
+    try {
+      const execution = await workflowEngine.getExecutionDetails(req.params.id);
+      if (!execution || execution.organizationId !== req.organizationContext.organizationId) {
+        return res.status(404).json({ message: "Workflow execution not found" });
+      }
+      res.json(execution);
+    } catch (error) {
+      console.error("Error fetching workflow execution:", error);
+      res.status(500).json({ message: "Failed to fetch workflow execution" });
+    }
+  });
+
+  app.post('/api/workflows/executions/:id/advance', basicAuth, requirePermission('workflows:run'), async (req: any, res) => {
+    try {
+      const data = advanceWorkflowSchema.parse(req.body);
+      const existing = await storage.getWorkflowExecution(req.params.id);
+      if (!existing || existing.organizationId !== req.organizationContext.organizationId) {
+        return res.status(404).json({ message: "Workflow execution not found" });
+      }
+
+      const execution = await workflowEngine.advance(req.params.id, { ...data, userId: req.user.id });
+      res.json(execution);
+    } catch (error) {
+      console.error("Error advancing workflow:", error);
+      handleWorkflowError(res, error, "Failed to advance workflow");
+    }
+  });
+
+  app.post('/api/workflows/executions/:id/cancel', basicAuth, requirePermission('workflows:run'), async (req: any, res) => {
+    try {
+      const existing = await storage.getWorkflowExecution(req.params.id);
+      if (!existing || existing.organizationId !== req.organizationContext.organizationId) {
+        return res.status(404).json({ message: "Workflow execution not found" });
+      }
+
+      const execution = await workflowEngine.cancel(req.params.id, req.user.id);
+      res.json(execution);
+    } catch (error) {
+      console.error("Error cancelling workflow:", error);
+      handleWorkflowError(res, error, "Failed to cancel workflow");
+    }
+  });
+
   // ============================================
   // REGULATORY DATABASE ROUTES - Professional AI Act Database
   // ============================================
@@ -1188,7 +2686,7 @@ Le registre doit contenir:
   /**
    * Search regulatory database with advanced filters
    */
-  app.get('/api/regulatory-database/search', basicAuth, async (req: any, res) => {
+  app.get('/api/regulatory-database/search', basicAuth, requirePermission('regulatory:read'), async (req: any, res) => {
     try {
       console.log('🌐 API ROUTE - Raw query params:', JSON.stringify(req.query, null, 2));
 
@@ -1230,7 +2728,7 @@ Le registre doit contenir:
   /**
    * Get database statistics
    */
-  app.get('/api/regulatory-database/stats', basicAuth, async (req: any, res) => {
+  app.get('/api/regulatory-database/stats', basicAuth, requirePermission('regulatory:read'), async (req: any, res) => {
     try {
       const stats = await regulatoryDatabaseService.getStatistics();
       res.json(stats);
@@ -1243,7 +2741,7 @@ Le registre doit contenir:
   /**
    * Get article by number
    */
-  app.get('/api/regulatory-database/article/:articleNumber', basicAuth, async (req: any, res) => {
+  app.get('/api/regulatory-database/article/:articleNumber', basicAuth, requirePermission('regulatory:read'), async (req: any, res) => {
     try {
       const { articleNumber } = req.params;
       const article = await regulatoryDatabaseService.getArticleByNumber(articleNumber);
@@ -1262,7 +2760,7 @@ Le registre doit contenir:
   /**
    * Get related articles
    */
-  app.get('/api/regulatory-database/article/:articleNumber/related', basicAuth, async (req: any, res) => {
+  app.get('/api/regulatory-database/article/:articleNumber/related', basicAuth, requirePermission('regulatory:read'), async (req: any, res) => {
     try {
       const { articleNumber } = req.params;
       const relatedArticles = await regulatoryDatabaseService.getRelatedArticles(articleNumber);
@@ -1276,7 +2774,7 @@ Le registre doit contenir:
   /**
    * Get articles by risk category
    */
-  app.get('/api/regulatory-database/risk/:category', basicAuth, async (req: any, res) => {
+  app.get('/api/regulatory-database/risk/:category', basicAuth, requirePermission('regulatory:read'), async (req: any, res) => {
     try {
       const { category } = req.params;
 
@@ -1295,7 +2793,7 @@ Le registre doit contenir:
   /**
    * Get articles by title
    */
-  app.get('/api/regulatory-database/title/:titleNumber', basicAuth, async (req: any, res) => {
+  app.get('/api/regulatory-database/title/:titleNumber', basicAuth, requirePermission('regulatory:read'), async (req: any, res) => {
     try {
       const { titleNumber } = req.params;
       const articles = await regulatoryDatabaseService.getArticlesByTitle(titleNumber);
@@ -1309,7 +2807,7 @@ Le registre doit contenir:
   /**
    * Get navigation structure
    */
-  app.get('/api/regulatory-database/structure', basicAuth, async (req: any, res) => {
+  app.get('/api/regulatory-database/structure', basicAuth, requirePermission('regulatory:read'), async (req: any, res) => {
     try {
       const structure = regulatoryDatabaseService.getStructure();
       res.json(structure);
@@ -1322,7 +2820,7 @@ Le registre doit contenir:
   /**
    * Export articles in various formats
    */
-  app.post('/api/regulatory-database/export', basicAuth, async (req: any, res) => {
+  app.post('/api/regulatory-database/export', basicAuth, requirePermission('regulatory:read'), async (req: any, res) => {
     try {
       const format = req.query.format as 'json' | 'csv' | 'markdown';
 
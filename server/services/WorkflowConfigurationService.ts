@@ -0,0 +1,203 @@
+/**
+ * Workflow Configuration Service
+ * Contrat des handlers d'étapes, registre des handlers et validation des définitions de workflows
+ */
+
+import { storage } from "../storage";
+import { createServiceLogger } from "../utils/logger";
+import type {
+  WorkflowDefinition,
+  WorkflowExecution,
+  WorkflowStepExecution,
+  WorkflowConfigurationData,
+} from "@shared/schema";
+
+const logger = createServiceLogger('WorkflowConfigurationService');
+
+export interface ValidationError {
+  field: string;
+  message: string;
+  code: string;
+}
+
+export interface ValidationWarning {
+  field: string;
+  message: string;
+  code: string;
+}
+
+export interface ValidationResult {
+  isValid: boolean;
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
+}
+
+/**
+ * Résultat de l'exécution d'une étape
+ * requiresApproval suspend le workflow jusqu'à une action utilisateur
+ */
+export interface StepExecutionResult {
+  success: boolean;
+  outputData: Record<string, any>;
+  errors?: string[];
+  warnings?: string[];
+  requiresApproval?: boolean;
+  estimatedDuration?: number;
+}
+
+/**
+ * Contexte transmis aux handlers pendant l'exécution
+ */
+export interface WorkflowExecutionContext {
+  execution: WorkflowExecution;
+  configuration: WorkflowDefinition;
+  userId: string;
+  organizationId: string;
+  aiSystemId?: string | null;
+  variables: Record<string, any>;
+  stepOutputs: Record<string, any>;
+}
+
+/**
+ * Contrat implémenté par chaque type d'étape (voir workflow/StepHandlers.ts)
+ */
+export interface IWorkflowStepHandler {
+  readonly type: string;
+  readonly name: string;
+  readonly description: string;
+
+  validateConfiguration(config: Record<string, any>): ValidationResult;
+  execute(
+    stepExecution: WorkflowStepExecution,
+    inputData: Record<string, any>,
+    context: WorkflowExecutionContext
+  ): Promise<StepExecutionResult>;
+  estimateDuration(config: Record<string, any>): number;
+  canRunInParallel(): boolean;
+  compensate?(
+    stepExecution: WorkflowStepExecution,
+    context: WorkflowExecutionContext
+  ): Promise<void>;
+}
+
+/**
+ * Erreur levée lorsqu'une définition de workflow est invalide
+ */
+export class WorkflowConfigurationError extends Error {
+  constructor(message: string, public validation: ValidationResult) {
+    super(message);
+    this.name = 'WorkflowConfigurationError';
+  }
+}
+
+export class WorkflowConfigurationService {
+  private handlers = new Map<string, IWorkflowStepHandler>();
+
+  registerStepHandler(handler: IWorkflowStepHandler): void {
+    this.handlers.set(handler.type, handler);
+  }
+
+  getStepHandler(type: string): IWorkflowStepHandler | undefined {
+    return this.handlers.get(type);
+  }
+
+  /**
+   * Types d'étapes disponibles pour composer un workflow
+   */
+  getAvailableStepTypes(): Array<{ type: string; name: string; description: string; canRunInParallel: boolean }> {
+    return Array.from(this.handlers.values()).map(handler => ({
+      type: handler.type,
+      name: handler.name,
+      description: handler.description,
+      canRunInParallel: handler.canRunInParallel(),
+    }));
+  }
+
+  /**
+   * Valide une configuration complète : identifiants uniques, types connus
+   * et configuration propre à chaque étape
+   */
+  validateConfiguration(configuration: WorkflowConfigurationData): ValidationResult {
+    const result: ValidationResult = { isValid: true, errors: [], warnings: [] };
+    const steps = configuration?.customSteps || [];
+
+    if (steps.length === 0) {
+      result.errors.push({
+        field: 'customSteps',
+        message: 'A workflow requires at least one step',
+        code: 'MISSING_STEPS'
+      });
+    }
+
+    const seenIds = new Set<string>();
+    for (const step of steps) {
+      if (seenIds.has(step.id)) {
+        result.errors.push({
+          field: `customSteps.${step.id}`,
+          message: `Duplicate step id: ${step.id}`,
+          code: 'DUPLICATE_STEP_ID'
+        });
+      }
+      seenIds.add(step.id);
+
+      const handler = this.handlers.get(step.type);
+      if (!handler) {
+        result.errors.push({
+          field: `customSteps.${step.id}.type`,
+          message: `Unknown step type: ${step.type}`,
+          code: 'UNKNOWN_STEP_TYPE'
+        });
+        continue;
+      }
+
+      const stepResult = handler.validateConfiguration(step.configuration);
+      result.errors.push(...stepResult.errors.map(error => ({ ...error, field: `customSteps.${step.id}.${error.field}` })));
+      result.warnings.push(...stepResult.warnings.map(warning => ({ ...warning, field: `customSteps.${step.id}.${warning.field}` })));
+    }
+
+    result.isValid = result.errors.length === 0;
+    return result;
+  }
+
+  /**
+   * Durée estimée (minutes) de l'ensemble des étapes
+   */
+  estimateWorkflowDuration(configuration: WorkflowConfigurationData): number {
+    return configuration.customSteps.reduce((total, step) => {
+      const handler = this.handlers.get(step.type);
+      return total + (handler ? handler.estimateDuration(step.configuration) : 0);
+    }, 0);
+  }
+
+  async createDefinition(
+    data: { name: string; description?: string; configuration: WorkflowConfigurationData },
+    organizationId: string,
+    userId: string
+  ): Promise<WorkflowDefinition> {
+    const validation = this.validateConfiguration(data.configuration);
+    if (!validation.isValid) {
+      throw new WorkflowConfigurationError('Invalid workflow configuration', validation);
+    }
+
+    const definition = await storage.createWorkflowDefinition({
+      organizationId,
+      name: data.name,
+      description: data.description,
+      configuration: data.configuration,
+      createdBy: userId,
+    });
+
+    logger.info('Workflow definition created', { definitionId: definition.id, organizationId, steps: data.configuration.customSteps.length });
+    return definition;
+  }
+
+  async getDefinitions(organizationId: string): Promise<WorkflowDefinition[]> {
+    return storage.getWorkflowDefinitionsByOrganization(organizationId);
+  }
+
+  async getDefinition(id: string): Promise<WorkflowDefinition | undefined> {
+    return storage.getWorkflowDefinition(id);
+  }
+}
+
+export const workflowConfigurationService = new WorkflowConfigurationService();
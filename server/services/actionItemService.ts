@@ -0,0 +1,348 @@
+/**
+ * Action Item Service
+ * Persiste les insights personnalisés et transforme leurs plans d'actions en tâches suivies
+ * (assignation, statut, échéance, dépendances et historique de commentaires)
+ */
+
+import { storage } from '../storage';
+import { organizationService, type OrganizationContext } from './organizationService';
+import { ValidationError } from '../errors/SecurityErrors';
+import { createServiceLogger } from '../utils/logger';
+import {
+  createActionItemCommentSchema,
+  createActionItemSchema,
+  updateActionItemSchema,
+  type ActionItem,
+  type ActionItemComment,
+  type ActionItemStatus,
+  type InsertActionItem,
+  type RegulatoryInsightRecord,
+} from '@shared/schema';
+import type { ActionableRegulatoryInsight, PersonalizedAction } from '../types/regulatory-monitoring';
+
+const logger = createServiceLogger('ActionItemService');
+
+export interface ActionItemWithDependencies extends ActionItem {
+  dependsOn: string[]; // Ids of the tasks this one waits for
+}
+
+export interface InsightWithActionItems {
+  insight: RegulatoryInsightRecord;
+  items: ActionItemWithDependencies[];
+}
+
+export class ActionItemNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Action item ${id} not found`);
+    this.name = 'ActionItemNotFoundError';
+  }
+}
+
+export class RegulatoryInsightNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Regulatory insight ${id} not found`);
+    this.name = 'RegulatoryInsightNotFoundError';
+  }
+}
+
+const GENERATED_STATUS: Record<PersonalizedAction['status'], ActionItemStatus> = {
+  pending: 'todo',
+  in_progress: 'in_progress',
+  completed: 'done',
+};
+
+export class ActionItemService {
+  /**
+   * Enregistre un insight actionnable pour l'organisation et crée une tâche par action générée.
+   * Les dépendances générées (identifiants ou libellés d'actions du même plan) deviennent des liens ;
+   * celles qui ne correspondent à aucune action restent des prérequis textuels.
+   */
+  async importActionPlan(
+    actionable: ActionableRegulatoryInsight,
+    params: { organizationId: string; userId: string; regulatoryUpdateId?: string }
+  ): Promise<InsightWithActionItems> {
+    const rawData = actionable.classifiedData.analyzedData.rawData;
+    const { userContext, actionPlan } = actionable;
+
+    const insight = await storage.createRegulatoryInsight({
+      organizationId: params.organizationId,
+      regulatoryUpdateId: params.regulatoryUpdateId || null,
+      generatedFor: params.userId,
+      source: rawData.source,
+      title: rawData.title,
+      summary: actionable.synthesis.executiveSummary,
+      url: rawData.url,
+      impactLevel: actionable.classifiedData.analyzedData.analysis.impactLevel,
+      relevanceScore: Math.round(userContext.relevanceScore),
+      urgencyLevel: userContext.urgencyLevel,
+      estimatedImpact: Math.round(userContext.estimatedImpact),
+      impactedSystemIds: userContext.impactedSystems.map(system => system.id),
+      estimatedEffort: actionPlan.estimatedEffort,
+      budgetImpact: actionPlan.budgetImpact || null,
+      actionPlan: {
+        complianceChecklist: actionPlan.complianceChecklist,
+        riskMitigation: actionPlan.riskMitigation,
+        maturityGaps: userContext.maturityGaps,
+        complianceGaps: userContext.complianceGaps,
+        riskAmplification: userContext.riskAmplification,
+      },
+      publishedAt: rawData.publishedDate,
+    });
+
+    // Une même action peut figurer dans les actions prioritaires et dans celles d'un système
+    const actions = new Map<string, PersonalizedAction>();
+    for (const action of [...actionPlan.priorityActions, ...Object.values(actionPlan.systemSpecificActions).flat()]) {
+      if (!actions.has(action.id)) {
+        actions.set(action.id, action);
+      }
+    }
+
+    const itemsByGeneratedId = new Map<string, ActionItem>();
+    const generatedIdByLabel = new Map<string, string>();
+    for (const action of Array.from(actions.values())) {
+      generatedIdByLabel.set(this.normalizeLabel(action.description), action.id);
+    }
+
+    const pendingLinks: Array<{ item: ActionItem; dependsOn: string[] }> = [];
+    for (const action of Array.from(actions.values())) {
+      const dependsOn: string[] = [];
+      const prerequisites: string[] = [];
+      for (const dependency of action.dependencies || []) {
+        const generatedId = actions.has(dependency) ? dependency : generatedIdByLabel.get(this.normalizeLabel(dependency));
+        if (generatedId && generatedId !== action.id) {
+          dependsOn.push(generatedId);
+        } else {
+          prerequisites.push(dependency);
+        }
+      }
+
+      const item = await storage.createActionItem({
+        ...this.fromGeneratedAction(action),
+        organizationId: params.organizationId,
+        insightId: insight.id,
+        prerequisites: prerequisites.length > 0 ? prerequisites : null,
+        createdBy: params.userId,
+      });
+      itemsByGeneratedId.set(action.id, item);
+      pendingLinks.push({ item, dependsOn });
+    }
+
+    const items: ActionItemWithDependencies[] = [];
+    for (const { item, dependsOn } of pendingLinks) {
+      const dependsOnIds = Array.from(new Set(dependsOn.map(generatedId => itemsByGeneratedId.get(generatedId)!.id)));
+      if (dependsOnIds.length > 0) {
+        await storage.setActionItemDependencies(item.id, dependsOnIds);
+      }
+      items.push({ ...item, dependsOn: dependsOnIds });
+    }
+
+    logger.info('Action plan imported', { insightId: insight.id, organizationId: params.organizationId, items: items.length });
+    return { insight, items };
+  }
+
+  async getInsights(organizationId: string, limit?: number): Promise<RegulatoryInsightRecord[]> {
+    return storage.getRegulatoryInsightsByOrganization(organizationId, limit);
+  }
+
+  /**
+   * Plan d'actions enregistré d'un insight, avec l'avancement des tâches
+   */
+  async getInsightWithItems(context: OrganizationContext, insightId: string): Promise<InsightWithActionItems> {
+    const insight = await storage.getRegulatoryInsight(insightId);
+    if (!insight || insight.organizationId !== context.organizationId) {
+      throw new RegulatoryInsightNotFoundError(insightId);
+    }
+
+    const items = await storage.getActionItemsByInsight(insightId);
+    return { insight, items: await this.withDependencies(context.organizationId, items) };
+  }
+
+  async listItems(organizationId: string): Promise<ActionItemWithDependencies[]> {
+    const items = await storage.getActionItemsByOrganization(organizationId);
+    return this.withDependencies(organizationId, items);
+  }
+
+  async createItem(context: OrganizationContext, input: unknown): Promise<ActionItemWithDependencies> {
+    const { dependsOn = [], ...data } = createActionItemSchema.parse(input);
+    await this.validateReferences(context, data);
+    const dependsOnIds = await this.validateDependencies(context, undefined, dependsOn);
+
+    const item = await storage.createActionItem({
+      ...data,
+      organizationId: context.organizationId,
+      completedAt: data.status === 'done' ? new Date() : null,
+      createdBy: context.userId,
+    });
+    if (dependsOnIds.length > 0) {
+      await storage.setActionItemDependencies(item.id, dependsOnIds);
+    }
+
+    return { ...item, dependsOn: dependsOnIds };
+  }
+
+  /**
+   * Met à jour une tâche ; les changements de statut, d'assignation et d'échéance sont tracés dans l'historique
+   */
+  async updateItem(context: OrganizationContext, id: string, input: unknown): Promise<ActionItemWithDependencies> {
+    const item = await this.getItem(context, id);
+    const { dependsOn, ...updates } = updateActionItemSchema.parse(input);
+    await this.validateReferences(context, updates);
+
+    const changes: Partial<InsertActionItem> = { ...updates };
+    if (updates.status && updates.status !== item.status) {
+      changes.completedAt = updates.status === 'done' ? new Date() : null;
+    }
+
+    const updated = await storage.updateActionItem(id, changes);
+
+    if (dependsOn) {
+      await storage.setActionItemDependencies(id, await this.validateDependencies(context, id, dependsOn));
+    }
+
+    if (updates.status && updates.status !== item.status) {
+      await this.recordChange(context, id, 'status_change', item.status, updates.status);
+    }
+    if (updates.assigneeId !== undefined && updates.assigneeId !== item.assigneeId) {
+      await this.recordChange(context, id, 'assignment', item.assigneeId, updates.assigneeId);
+    }
+    if (updates.dueDate !== undefined && updates.dueDate?.getTime() !== item.dueDate?.getTime()) {
+      await this.recordChange(context, id, 'due_date_change', item.dueDate?.toISOString() ?? null, updates.dueDate?.toISOString() ?? null);
+    }
+
+    const [withDependencies] = await this.withDependencies(context.organizationId, [updated]);
+    return withDependencies;
+  }
+
+  async deleteItem(context: OrganizationContext, id: string): Promise<void> {
+    await this.getItem(context, id);
+    await storage.deleteActionItem(id);
+    logger.info('Action item deleted', { actionItemId: id, organizationId: context.organizationId, userId: context.userId });
+  }
+
+  async getComments(context: OrganizationContext, id: string): Promise<ActionItemComment[]> {
+    await this.getItem(context, id);
+    return storage.getActionItemComments(id);
+  }
+
+  async addComment(context: OrganizationContext, id: string, input: unknown): Promise<ActionItemComment> {
+    await this.getItem(context, id);
+    const { body } = createActionItemCommentSchema.parse(input);
+    return storage.createActionItemComment({ actionItemId: id, authorId: context.userId, kind: 'comment', body });
+  }
+
+  private async withDependencies(organizationId: string, items: ActionItem[]): Promise<ActionItemWithDependencies[]> {
+    const dependencies = await storage.getActionItemDependenciesByOrganization(organizationId);
+    return items.map(item => ({
+      ...item,
+      dependsOn: dependencies
+        .filter(dependency => dependency.actionItemId === item.id)
+        .map(dependency => dependency.dependsOnId),
+    }));
+  }
+
+  private async getItem(context: OrganizationContext, id: string): Promise<ActionItem> {
+    const item = await storage.getActionItem(id);
+    if (!item || item.organizationId !== context.organizationId) {
+      throw new ActionItemNotFoundError(id);
+    }
+    return item;
+  }
+
+  /**
+   * L'assigné doit être membre de l'organisation et le système IA lui appartenir
+   */
+  private async validateReferences(
+    context: OrganizationContext,
+    data: { assigneeId?: string | null; aiSystemId?: string | null }
+  ): Promise<void> {
+    if (data.assigneeId) {
+      const membership = await storage.getOrganizationMembership(context.organizationId, data.assigneeId);
+      if (!membership) {
+        throw new ValidationError('Assignee must be a member of the organization');
+      }
+    }
+    if (data.aiSystemId) {
+      const system = await storage.getAiSystem(data.aiSystemId);
+      if (!organizationService.canAccessRecord(context, system)) {
+        throw new ValidationError('AI system not found in this organization');
+      }
+    }
+  }
+
+  /**
+   * Vérifie que les dépendances sont des tâches de l'organisation et ne créent pas de cycle
+   */
+  private async validateDependencies(context: OrganizationContext, itemId: string | undefined, dependsOn: string[]): Promise<string[]> {
+    const dependsOnIds = Array.from(new Set(dependsOn));
+    if (dependsOnIds.length === 0) {
+      return [];
+    }
+    if (itemId && dependsOnIds.includes(itemId)) {
+      throw new ValidationError('A task cannot depend on itself');
+    }
+
+    const items = await this.listItems(context.organizationId);
+    const itemsById = new Map(items.map(item => [item.id, item]));
+    const unknown = dependsOnIds.filter(id => !itemsById.has(id));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown dependencies: ${unknown.join(', ')}`);
+    }
+
+    if (itemId) {
+      // Cycle si l'une des nouvelles dépendances attend déjà (directement ou non) la tâche modifiée
+      const visited = new Set<string>();
+      const stack = [...dependsOnIds];
+      while (stack.length > 0) {
+        const current = stack.pop()!;
+        if (current === itemId) {
+          throw new ValidationError('Dependencies cannot form a cycle');
+        }
+        if (!visited.has(current)) {
+          visited.add(current);
+          stack.push(...(itemsById.get(current)?.dependsOn || []));
+        }
+      }
+    }
+
+    return dependsOnIds;
+  }
+
+  private async recordChange(
+    context: OrganizationContext,
+    actionItemId: string,
+    kind: 'status_change' | 'assignment' | 'due_date_change',
+    from: string | null | undefined,
+    to: string | null | undefined
+  ): Promise<void> {
+    await storage.createActionItemComment({
+      actionItemId,
+      authorId: context.userId,
+      kind,
+      body: `${from ?? '-'} → ${to ?? '-'}`,
+      metadata: { from: from ?? null, to: to ?? null },
+    });
+  }
+
+  private fromGeneratedAction(action: PersonalizedAction): Omit<InsertActionItem, 'organizationId'> {
+    return {
+      generatedActionId: action.id,
+      aiSystemId: action.systemId || null,
+      title: action.description,
+      category: action.category,
+      priority: action.priority,
+      impactLevel: action.impactLevel,
+      status: GENERATED_STATUS[action.status] || 'todo',
+      suggestedOwner: action.owner || action.assignedTo || null,
+      dueDate: action.dueDate || action.deadline || null,
+      estimatedHours: action.estimatedHours !== undefined ? Math.round(action.estimatedHours) : null,
+      requiredSkills: action.requiredSkills || null,
+      resources: action.resources || null,
+    };
+  }
+
+  private normalizeLabel(label: string): string {
+    return label.trim().toLowerCase();
+  }
+}
+
+export const actionItemService = new ActionItemService();
@@ -0,0 +1,158 @@
+/**
+ * Assessment Comparison Service
+ * Compare deux évaluations des risques d'un même système IA : réponses modifiées, évolution des scores
+ * par dimension et du niveau de risque, écarts de conformité et actions prioritaires apparus ou résorbés.
+ * Permet aux auditeurs de constater ce qui a réellement progressé d'une revue à l'autre.
+ */
+
+import { storage } from '../storage';
+import { organizationService, type OrganizationContext } from './organizationService';
+import { AiSystemNotFoundError } from './systemVersionService';
+import type {
+  ComplianceGap,
+  RiskAssessment,
+  RiskAssessmentAnswerChange,
+  RiskAssessmentComparison,
+  RiskAssessmentMetricDelta,
+} from '@shared/schema';
+
+// Du moins au plus risqué
+const RISK_LEVEL_ORDER = ['minimal', 'limited', 'high', 'unacceptable'];
+
+// Les réponses au référentiel sont comparées séparément, depuis la colonne dédiée
+const IGNORED_FORM_FIELDS = ['frameworkResponses'];
+
+export class RiskAssessmentNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Risk assessment ${id} not found`);
+    this.name = 'RiskAssessmentNotFoundError';
+  }
+}
+
+export class AssessmentComparisonService {
+  async compare(context: OrganizationContext, aiSystemId: string, fromId: string, toId: string): Promise<RiskAssessmentComparison> {
+    const system = await storage.getAiSystem(aiSystemId);
+    if (!system || !organizationService.canAccessRecord(context, system)) {
+      throw new AiSystemNotFoundError(aiSystemId);
+    }
+
+    const [from, to] = await Promise.all([
+      this.getAssessment(aiSystemId, fromId),
+      this.getAssessment(aiSystemId, toId),
+    ]);
+
+    return {
+      from,
+      to,
+      riskLevel: { from: from.riskLevel, to: to.riskLevel, trend: this.riskTrend(from.riskLevel, to.riskLevel) },
+      euAiActRiskLevel: { from: from.euAiActRiskLevel, to: to.euAiActRiskLevel },
+      riskScore: this.delta(from.riskScore, to.riskScore),
+      complianceScore: this.delta(from.complianceScore, to.complianceScore),
+      overallFrameworkScore: this.delta(from.overallFrameworkScore, to.overallFrameworkScore),
+      answerChanges: [
+        ...this.diffAnswers('formData', this.formAnswers(from), this.formAnswers(to)),
+        ...this.diffAnswers('frameworkResponses', this.record(from.frameworkResponses), this.record(to.frameworkResponses)),
+      ],
+      dimensionDeltas: this.dimensionDeltas(from, to),
+      complianceGaps: this.diffGaps(this.gaps(from), this.gaps(to)),
+      priorityActions: this.diffActions(this.priorityActions(from), this.priorityActions(to)),
+    };
+  }
+
+  private async getAssessment(aiSystemId: string, id: string): Promise<RiskAssessment> {
+    const assessment = await storage.getRiskAssessment(id);
+    if (!assessment || assessment.aiSystemId !== aiSystemId) {
+      throw new RiskAssessmentNotFoundError(id);
+    }
+    return assessment;
+  }
+
+  riskTrend(from: string | null, to: string | null): RiskAssessmentComparison['riskLevel']['trend'] {
+    const previous = RISK_LEVEL_ORDER.indexOf(from ?? '');
+    const next = RISK_LEVEL_ORDER.indexOf(to ?? '');
+    if (previous === next || previous < 0 || next < 0) {
+      return 'unchanged';
+    }
+    return next < previous ? 'improved' : 'worsened';
+  }
+
+  delta(from: number | null | undefined, to: number | null | undefined): RiskAssessmentMetricDelta {
+    const previous = from ?? null;
+    const next = to ?? null;
+    return { from: previous, to: next, delta: previous !== null && next !== null ? next - previous : null };
+  }
+
+  private record(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+  }
+
+  private formAnswers(assessment: RiskAssessment): Record<string, unknown> {
+    const answers = { ...this.record(assessment.formData) };
+    for (const field of IGNORED_FORM_FIELDS) {
+      delete answers[field];
+    }
+    return answers;
+  }
+
+  private diffAnswers(
+    source: RiskAssessmentAnswerChange['source'],
+    previous: Record<string, unknown>,
+    next: Record<string, unknown>
+  ): RiskAssessmentAnswerChange[] {
+    const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)])).sort();
+    return fields
+      .filter(field => JSON.stringify(previous[field] ?? null) !== JSON.stringify(next[field] ?? null))
+      .map(field => ({ source, field, from: previous[field] ?? null, to: next[field] ?? null }));
+  }
+
+  // Les évaluations au format historique n'ont pas de scores par dimension
+  private dimensionDeltas(from: RiskAssessment, to: RiskAssessment): RiskAssessmentComparison['dimensionDeltas'] {
+    const previous = this.record(from.dimensionScores);
+    const next = this.record(to.dimensionScores);
+    const score = (value: unknown): number | null => {
+      if (typeof value === 'number') return value;
+      const nested = this.record(value).score;
+      return typeof nested === 'number' ? nested : null;
+    };
+
+    return Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]))
+      .sort()
+      .map(dimension => ({ dimension, ...this.delta(score(previous[dimension]), score(next[dimension])) }));
+  }
+
+  private gaps(assessment: RiskAssessment): ComplianceGap[] {
+    return Array.isArray(assessment.complianceGaps) ? assessment.complianceGaps as ComplianceGap[] : [];
+  }
+
+  // Le libellé des écarts par dimension inclut le score : il n'entre pas dans l'identité de l'écart
+  private gapKey(gap: ComplianceGap): string {
+    return gap.gap.replace(/:\s*Score \d+\/100$/, '');
+  }
+
+  diffGaps(previous: ComplianceGap[], next: ComplianceGap[]): RiskAssessmentComparison['complianceGaps'] {
+    const previousKeys = new Set(previous.map(gap => this.gapKey(gap)));
+    const nextKeys = new Set(next.map(gap => this.gapKey(gap)));
+    return {
+      added: next.filter(gap => !previousKeys.has(this.gapKey(gap))),
+      closed: previous.filter(gap => !nextKeys.has(this.gapKey(gap))),
+    };
+  }
+
+  private priorityActions(assessment: RiskAssessment): string[] {
+    if (!Array.isArray(assessment.priorityActions)) {
+      return [];
+    }
+    return assessment.priorityActions
+      .map(action => typeof action === 'string' ? action : this.record(action).action)
+      .filter((action): action is string => typeof action === 'string');
+  }
+
+  private diffActions(previous: string[], next: string[]): RiskAssessmentComparison['priorityActions'] {
+    return {
+      added: next.filter(action => !previous.includes(action)),
+      closed: previous.filter(action => !next.includes(action)),
+    };
+  }
+}
+
+export const assessmentComparisonService = new AssessmentComparisonService();
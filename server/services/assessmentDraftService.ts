@@ -0,0 +1,224 @@
+/**
+ * Assessment Draft Service
+ * Brouillons d'évaluation enregistrés côté serveur : sauvegarde automatique, état d'avancement par section,
+ * reprise par lien et attribution des dimensions du référentiel Positive AI à différents membres
+ */
+
+import { storage } from '../storage';
+import { organizationService, type OrganizationContext } from './organizationService';
+import { ValidationError } from '../errors/SecurityErrors';
+import { createServiceLogger } from '../utils/logger';
+import {
+  ASSESSMENT_DIMENSION_QUESTIONS,
+  ASSESSMENT_DRAFT_SECTIONS,
+  assignAssessmentDraftSectionSchema,
+  createAssessmentDraftSchema,
+  updateAssessmentDraftSchema,
+  type AssessmentDraft,
+  type AssessmentDraftFormData,
+  type AssessmentDraftSection,
+  type UpdateAssessmentDraft,
+} from '@shared/schema';
+
+const logger = createServiceLogger('AssessmentDraftService');
+
+// Champs de la première étape du formulaire
+const BASIC_INFORMATION_FIELDS = ['systemName', 'industrySector', 'primaryUseCase'] as const;
+
+export interface AssessmentDraftSectionProgress {
+  section: AssessmentDraftSection;
+  answered: number;
+  total: number;
+  completed: boolean;
+  assigneeId: string | null;
+}
+
+export type AssessmentDraftWithProgress = AssessmentDraft & {
+  sections: AssessmentDraftSectionProgress[];
+  completedSections: number;
+};
+
+export class AssessmentDraftNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Assessment draft ${id} not found`);
+    this.name = 'AssessmentDraftNotFoundError';
+  }
+}
+
+export class AssessmentDraftService {
+  async listDrafts(context: OrganizationContext): Promise<AssessmentDraftWithProgress[]> {
+    const drafts = await storage.getAssessmentDraftsByOrganization(context.organizationId);
+    return drafts.map(draft => this.withProgress(draft));
+  }
+
+  async getDraft(context: OrganizationContext, id: string): Promise<AssessmentDraftWithProgress> {
+    return this.withProgress(await this.getOwnDraft(context, id));
+  }
+
+  async createDraft(context: OrganizationContext, input: unknown): Promise<AssessmentDraftWithProgress> {
+    const data = createAssessmentDraftSchema.parse(input);
+    if (data.aiSystemId) {
+      const system = await storage.getAiSystem(data.aiSystemId);
+      if (!organizationService.canAccessRecord(context, system)) {
+        throw new ValidationError('AI system not found in this organization');
+      }
+    }
+
+    const draft = await storage.createAssessmentDraft({
+      organizationId: context.organizationId,
+      aiSystemId: data.aiSystemId ?? null,
+      reassessmentId: data.reassessmentId ?? null,
+      formData: this.mergeFormData({ responses: {} }, data.formData),
+      currentStep: data.currentStep,
+      createdBy: context.userId,
+      updatedBy: context.userId,
+    });
+    logger.info('Assessment draft created', { draftId: draft.id, organizationId: context.organizationId });
+    return this.withProgress(draft);
+  }
+
+  /**
+   * Fusionne les réponses reçues avec celles du brouillon, question par question, pour que les membres
+   * assignés à des dimensions différentes puissent enregistrer en parallèle sans s'écraser
+   */
+  async updateDraft(context: OrganizationContext, id: string, input: unknown): Promise<AssessmentDraftWithProgress> {
+    await this.getOwnDraft(context, id);
+    const data = updateAssessmentDraftSchema.parse(input);
+
+    // La fusion se fait sur la ligne verrouillée, pour ne perdre aucune sauvegarde concurrente
+    const updated = await storage.updateAssessmentDraftLocked(id, draft => {
+      this.assertEditable(draft);
+      return {
+        formData: data.formData ? this.mergeFormData(draft.formData, data.formData) : draft.formData,
+        currentStep: data.currentStep ?? draft.currentStep,
+        updatedBy: context.userId,
+      };
+    });
+    if (!updated) {
+      throw new AssessmentDraftNotFoundError(id);
+    }
+    return this.withProgress(updated);
+  }
+
+  async deleteDraft(context: OrganizationContext, id: string): Promise<void> {
+    await this.getOwnDraft(context, id);
+    await storage.deleteAssessmentDraft(id);
+    logger.info('Assessment draft deleted', { draftId: id, organizationId: context.organizationId });
+  }
+
+  /**
+   * Attribue une section à un membre de l'organisation, qui est notifié avec le lien de reprise du brouillon
+   */
+  async assignSection(context: OrganizationContext, id: string, input: unknown): Promise<AssessmentDraftWithProgress> {
+    await this.getOwnDraft(context, id);
+    const { section, assigneeId } = assignAssessmentDraftSectionSchema.parse(input);
+
+    if (assigneeId) {
+      const membership = await storage.getOrganizationMembership(context.organizationId, assigneeId);
+      if (!membership) {
+        throw new ValidationError('Assignee must be a member of the organization');
+      }
+    }
+
+    let previousAssigneeId: string | undefined;
+    const updated = await storage.updateAssessmentDraftLocked(id, draft => {
+      this.assertEditable(draft);
+      previousAssigneeId = draft.sectionAssignments[section];
+      const sectionAssignments = { ...draft.sectionAssignments };
+      if (assigneeId) {
+        sectionAssignments[section] = assigneeId;
+      } else {
+        delete sectionAssignments[section];
+      }
+      return { sectionAssignments, updatedBy: context.userId };
+    });
+    if (!updated) {
+      throw new AssessmentDraftNotFoundError(id);
+    }
+
+    if (assigneeId && assigneeId !== previousAssigneeId && assigneeId !== context.userId) {
+      const systemName = updated.formData.systemName || 'système sans nom';
+      await storage.createNotification({
+        userId: assigneeId,
+        organizationId: context.organizationId,
+        type: 'assessment_section_assigned',
+        title: `Section d'évaluation à compléter : ${systemName}`,
+        message: `Une section de l'évaluation du système « ${systemName} » vous a été attribuée. Reprenez le brouillon pour y répondre.`,
+        link: `/assessment?draft=${id}`,
+        metadata: { draftId: id, section },
+      });
+    }
+
+    logger.info('Assessment draft section assigned', { draftId: id, section, assigneeId });
+    return this.withProgress(updated);
+  }
+
+  /**
+   * Réponses enregistrées du brouillon à soumettre : c'est elles qui sont évaluées, y compris celles des autres membres
+   */
+  async getSubmittableFormData(context: OrganizationContext, id: string): Promise<AssessmentDraftFormData> {
+    const draft = await this.getOwnDraft(context, id);
+    this.assertEditable(draft);
+    return draft.formData;
+  }
+
+  async markSubmitted(context: OrganizationContext, id: string, assessmentId: string): Promise<void> {
+    await storage.updateAssessmentDraft(id, {
+      status: 'submitted',
+      submittedAssessmentId: assessmentId,
+      updatedBy: context.userId,
+    });
+    logger.info('Assessment draft submitted', { draftId: id, assessmentId });
+  }
+
+  private mergeFormData(
+    current: AssessmentDraftFormData,
+    changes: NonNullable<UpdateAssessmentDraft['formData']>
+  ): AssessmentDraftFormData {
+    const responses = { ...current.responses };
+    for (const [questionId, value] of Object.entries(changes.responses || {})) {
+      if (value === null) {
+        delete responses[questionId];
+      } else {
+        responses[questionId] = value;
+      }
+    }
+
+    const merged: AssessmentDraftFormData = { ...current, responses };
+    for (const field of BASIC_INFORMATION_FIELDS) {
+      if (changes[field] !== undefined) {
+        merged[field] = changes[field];
+      }
+    }
+    return merged;
+  }
+
+  // Les brouillons portent sur le formulaire guidé, dont les questions sont fixes (ASSESSMENT_DIMENSION_QUESTIONS) :
+  // la publication d'une version de la banque de questions ne modifie pas leur progression
+  private withProgress(draft: AssessmentDraft): AssessmentDraftWithProgress {
+    const sections = ASSESSMENT_DRAFT_SECTIONS.map(section => {
+      const answered = section === 'basic_information'
+        ? BASIC_INFORMATION_FIELDS.filter(field => !!draft.formData[field]?.trim()).length
+        : ASSESSMENT_DIMENSION_QUESTIONS[section].filter(questionId => draft.formData.responses[questionId] !== undefined).length;
+      const total = section === 'basic_information' ? BASIC_INFORMATION_FIELDS.length : ASSESSMENT_DIMENSION_QUESTIONS[section].length;
+      return { section, answered, total, completed: answered === total, assigneeId: draft.sectionAssignments[section] ?? null };
+    });
+    return { ...draft, sections, completedSections: sections.filter(section => section.completed).length };
+  }
+
+  private assertEditable(draft: AssessmentDraft): void {
+    if (draft.status !== 'in_progress') {
+      throw new ValidationError('Assessment draft has already been submitted');
+    }
+  }
+
+  private async getOwnDraft(context: OrganizationContext, id: string): Promise<AssessmentDraft> {
+    const draft = await storage.getAssessmentDraft(id);
+    if (!draft || draft.organizationId !== context.organizationId) {
+      throw new AssessmentDraftNotFoundError(id);
+    }
+    return draft;
+  }
+}
+
+export const assessmentDraftService = new AssessmentDraftService();
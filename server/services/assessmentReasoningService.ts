@@ -0,0 +1,200 @@
+/**
+ * Assessment Reasoning Service
+ * Raisonnement à base de règles des évaluations de risque : cite les articles du Règlement retenus par la
+ * classification et les réponses qui ont déterminé le résultat. Le texte ne dépend que des réponses et de la
+ * version de la banque de questions, de sorte qu'une même évaluation produit toujours le même raisonnement,
+ * y compris sans aucun fournisseur LLM. En mode llm_enriched, une analyse rédigée par LLM peut s'y ajouter.
+ */
+
+import { llmService } from './llmService';
+import { createServiceLogger } from '../utils/logger';
+import type { FrameworkQuestionnaire } from './frameworkQuestionBankService';
+
+const logger = createServiceLogger('AssessmentReasoningService');
+
+export interface ReasoningClassification {
+  riskLevel: 'minimal' | 'limited' | 'high' | 'unacceptable';
+  reasoning: string;
+  applicableArticles: string[];
+  highRiskDomains?: string[];
+}
+
+/**
+ * Signaux, déclarés ou déduits des réponses, sur lesquels s'appuie la classification EU AI Act
+ */
+export type ReasoningSignals = Partial<Record<keyof typeof SIGNAL_LABELS, string>>;
+
+export interface CombinedReasoningInput {
+  classification: ReasoningClassification;
+  signals: ReasoningSignals;
+  questionnaire: FrameworkQuestionnaire;
+  responses: Record<string, number>;
+  dimensions: Array<{ id: string; name: string; score: number }>;
+  overallScore: number;
+  overallLevel: string;
+}
+
+export interface LegacyReasoningInput {
+  classification: ReasoningClassification;
+  signals: ReasoningSignals;
+  frameworkRiskScore: number;
+  combinedRiskScore: number;
+}
+
+const RISK_LEVEL_LABELS: Record<ReasoningClassification['riskLevel'], string> = {
+  unacceptable: 'RISQUE INACCEPTABLE',
+  high: 'RISQUE ÉLEVÉ',
+  limited: 'RISQUE LIMITÉ',
+  minimal: 'RISQUE MINIMAL',
+};
+
+const SIGNAL_LABELS = {
+  applicationDomain: "Domaine d'application",
+  sensitiveData: 'Données sensibles',
+  discriminationRisk: 'Risque de discrimination',
+  userInformed: 'Information des utilisateurs',
+  explainabilityLevel: "Niveau d'explicabilité",
+  humanOversight: 'Supervision humaine',
+  overrideCapability: 'Capacité de reprise en main',
+  autonomyLevel: "Niveau d'autonomie",
+  safetyImpact: 'Impact sur la sécurité',
+  decisionConsequences: 'Conséquences des décisions',
+};
+
+const SIGNAL_VALUE_LABELS: Record<string, string> = {
+  yes: 'oui',
+  no: 'non',
+  limited: 'limité',
+  high: 'élevé',
+  medium: 'moyen',
+  low: 'faible',
+  full: 'complet',
+  partial: 'partiel',
+  none: 'aucun',
+  intermittent: 'intermittent',
+  minimal: 'minimal',
+  critical: 'critique',
+  significant: 'significatif',
+  irreversible: 'irréversibles',
+  reversible: 'réversibles',
+  advisory: 'consultatives',
+};
+
+// Seuil sous lequel une dimension du référentiel est citée, et réponse maximale (échelle 1-5) jugée défavorable
+const DIMENSION_ATTENTION_THRESHOLD = 70;
+const UNFAVORABLE_ANSWER_MAX = 2;
+const MAX_CITED_ANSWERS = 10;
+
+export class AssessmentReasoningService {
+  /**
+   * Raisonnement de l'évaluation combinée (EU AI Act + référentiel Positive AI)
+   */
+  buildCombinedReasoning(input: CombinedReasoningInput): string {
+    const sections = [this.describeClassification(input.classification, input.signals)];
+
+    const weakDimensions = input.dimensions
+      .filter(dimension => dimension.score < DIMENSION_ATTENTION_THRESHOLD)
+      .sort((a, b) => a.score - b.score || a.id.localeCompare(b.id));
+
+    const framework = [
+      `Référentiel Positive AI (version ${input.questionnaire.version}) : score global de ${input.overallScore}/100 (${input.overallLevel}).`,
+    ];
+    if (weakDimensions.length === 0) {
+      framework.push(`Toutes les dimensions atteignent au moins ${DIMENSION_ATTENTION_THRESHOLD}/100.`);
+    } else {
+      framework.push(`Dimensions sous ${DIMENSION_ATTENTION_THRESHOLD}/100 :`);
+      framework.push(...weakDimensions.map(dimension => `- ${dimension.name} : ${dimension.score}/100`));
+
+      const answers = this.findUnfavorableAnswers(input, weakDimensions);
+      framework.push(answers.length > 0
+        ? `Réponses déterminantes (${UNFAVORABLE_ANSWER_MAX}/5 ou moins) :`
+        : `Aucune réponse à ${UNFAVORABLE_ANSWER_MAX}/5 ou moins dans ces dimensions : les scores reflètent des questions non renseignées ou des réponses intermédiaires.`);
+      framework.push(...answers);
+    }
+    sections.push(framework.join('\n'));
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Raisonnement de l'évaluation au format historique (signaux du formulaire uniquement)
+   */
+  buildLegacyReasoning(input: LegacyReasoningInput): string {
+    return [
+      this.describeClassification(input.classification, input.signals),
+      `Score de risque du référentiel : ${input.frameworkRiskScore}/100. Score de risque combiné : ${input.combinedRiskScore}/100, le niveau EU AI Act prévalant.`,
+    ].join('\n\n');
+  }
+
+  /**
+   * Analyse rédigée par le LLM configuré, en complément du raisonnement à base de règles.
+   * Renvoie undefined si aucun fournisseur n'est configuré ou si l'appel échoue : l'évaluation n'en dépend pas.
+   */
+  async generateNarrative(reasoning: string, systemName: string, userId: string): Promise<string | undefined> {
+    const systemPrompt = `Vous êtes un expert en conformité au Règlement (UE) 2024/1689 sur l'intelligence artificielle.
+    Rédigez une analyse synthétique en français à partir du raisonnement fourni, sans modifier le niveau de risque, les articles cités ni les scores.`;
+
+    const prompt = `Système IA évalué : ${systemName}
+
+Raisonnement de l'évaluation :
+${reasoning}
+
+Rédigez en quelques paragraphes une analyse des enjeux de conformité et des priorités d'action.`;
+
+    try {
+      const response = await llmService.generateResponse(prompt, userId, {
+        systemPrompt,
+        maxTokens: 1000,
+        timeout: 60000
+      });
+      const narrative = response.content?.trim();
+      return narrative || undefined;
+    } catch (error) {
+      logger.warn('LLM narrative unavailable, keeping rule-based reasoning only', { userId, error: (error as Error).message });
+      return undefined;
+    }
+  }
+
+  private describeClassification(classification: ReasoningClassification, signals: ReasoningSignals): string {
+    const lines = [`Classification EU AI Act : ${RISK_LEVEL_LABELS[classification.riskLevel]}.`, classification.reasoning];
+
+    lines.push(classification.applicableArticles.length > 0
+      ? `Dispositions applicables : ${classification.applicableArticles.join(', ')}.`
+      : 'Aucune disposition spécifique du Règlement ne s\'applique.');
+    if (classification.highRiskDomains?.length) {
+      lines.push(`Domaines de l'Annexe III concernés : ${classification.highRiskDomains.join(', ')}.`);
+    }
+
+    const considered = (Object.keys(SIGNAL_LABELS) as Array<keyof typeof SIGNAL_LABELS>)
+      .filter(key => signals[key])
+      .map(key => `- ${SIGNAL_LABELS[key]} : ${SIGNAL_VALUE_LABELS[signals[key]!] || signals[key]}`);
+    if (considered.length > 0) {
+      lines.push('Éléments pris en compte par la classification :', ...considered);
+    }
+
+    return lines.join('\n');
+  }
+
+  // Réponses les plus défavorables des dimensions citées, dans l'ordre de la banque de questions à égalité
+  private findUnfavorableAnswers(
+    input: CombinedReasoningInput,
+    weakDimensions: Array<{ id: string; name: string }>
+  ): string[] {
+    const candidates = weakDimensions.flatMap(dimension => {
+      const strategies = input.questionnaire.dimensions.find(candidate => candidate.id === dimension.id)?.strategies || [];
+      return strategies.flatMap(strategy => strategy.questions.map(question => ({ dimension, question })));
+    });
+
+    return candidates
+      .map((candidate, order) => ({ ...candidate, order, value: input.responses[candidate.question.questionId] }))
+      .filter(candidate => candidate.value !== undefined && candidate.value <= UNFAVORABLE_ANSWER_MAX)
+      .sort((a, b) => a.value - b.value || (b.question.weight ?? 10) - (a.question.weight ?? 10) || a.order - b.order)
+      .slice(0, MAX_CITED_ANSWERS)
+      .map(({ dimension, question, value }) => {
+        const option = question.options?.find(candidate => candidate.value === value);
+        return `- [${dimension.name}] ${question.question} → ${option ? `${option.label} ` : ''}(${value}/5)`;
+      });
+  }
+}
+
+export const assessmentReasoningService = new AssessmentReasoningService();
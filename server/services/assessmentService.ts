@@ -6,8 +6,13 @@ import type {
   RiskAssessmentFormData,
   RiskAssessmentResult,
   FrameworkAssessmentData,
-  FrameworkAssessmentResult
+  FrameworkAssessmentResult,
+  OperatorRole,
+  AssessmentMode
 } from "@shared/schema";
+import { getObligationsForRoles, getRoleSpecificArticles } from "../data/operatorRoles";
+import { frameworkQuestionBankService, type FrameworkQuestionnaire, type FrameworkQuestionnaireStrategy } from "./frameworkQuestionBankService";
+import { assessmentReasoningService } from "./assessmentReasoningService";
 
 // Normalized input interface for EU AI Act classification
 export interface EUAiActInput {
@@ -65,6 +70,8 @@ export interface LegacyRiskAssessmentResult {
   riskLevel: 'minimal' | 'limited' | 'high' | 'unacceptable';
   riskScore: number; // 0-100
   reasoning: string;
+  aiNarrative?: string;
+  assessmentMode: AssessmentMode;
   obligations: string[];
   recommendations: string[];
   timeline: {
@@ -74,6 +81,19 @@ export interface LegacyRiskAssessmentResult {
   };
 }
 
+// Positive AI Framework v3.0 dimensions and their weight in the overall framework score
+const FRAMEWORK_DIMENSIONS = [
+  { id: 'justice_fairness', name: 'Justice & Fairness', weight: 20 }, // Higher weight for critical dimension
+  { id: 'transparency_explainability', name: 'Transparency & Explainability', weight: 18 },
+  { id: 'human_ai_interaction', name: 'Human-AI Interaction', weight: 16 },
+  { id: 'social_environmental_impact', name: 'Social & Environmental Impact', weight: 15 },
+  { id: 'responsibility', name: 'Responsibility', weight: 12 },
+  { id: 'data_privacy', name: 'Data & Privacy', weight: 10 },
+  { id: 'technical_robustness_security', name: 'Technical Robustness & Security', weight: 9 },
+];
+
+type FrameworkScoringDimension = typeof FRAMEWORK_DIMENSIONS[number] & { strategies: FrameworkQuestionnaireStrategy[] };
+
 class AssessmentService {
   // Adaptateurs pour convertir vers EUAiActInput normalisé
   private adaptFromLegacyFormat(formData: AssessmentFormData): EUAiActInput {
@@ -95,22 +115,22 @@ class AssessmentService {
     };
   }
 
-  private adaptFromFrameworkV3(formData: RiskAssessmentFormData): EUAiActInput {
+  private adaptFromFrameworkV3(formData: RiskAssessmentFormData, questionDimensions: Record<string, string> = {}): EUAiActInput {
     // Dériver les signaux EU AI Act des réponses Framework v3.0
     // Support both new frameworkResponses and legacy responses formats
     const responses = formData.frameworkResponses || (formData as any).responses || {};
     
     // Detect response format and use appropriate scoring method
-    const isFrameworkV3Format = this.isResponseV3Format(responses);
+    const isFrameworkV3Format = this.isResponseV3Format(responses, questionDimensions);
     
     let transparencyScore, oversightScore, robustnessScore, fairnessScore;
     
     if (isFrameworkV3Format) {
       // Use dimension-based scoring for Framework v3.0 format
-      transparencyScore = this.getDimensionScoreFromResponses(responses, 'transparency_explainability');
-      oversightScore = this.getDimensionScoreFromResponses(responses, 'human_ai_interaction');
-      robustnessScore = this.getDimensionScoreFromResponses(responses, 'technical_robustness_security');
-      fairnessScore = this.getDimensionScoreFromResponses(responses, 'justice_fairness');
+      transparencyScore = this.getDimensionScoreFromResponses(responses, 'transparency_explainability', questionDimensions);
+      oversightScore = this.getDimensionScoreFromResponses(responses, 'human_ai_interaction', questionDimensions);
+      robustnessScore = this.getDimensionScoreFromResponses(responses, 'technical_robustness_security', questionDimensions);
+      fairnessScore = this.getDimensionScoreFromResponses(responses, 'justice_fairness', questionDimensions);
     } else {
       // Use legacy response mapping
       transparencyScore = this.calculateScoreFromLegacyResponses(responses, ['explainability_risk', 'user_awareness']);
@@ -153,13 +173,16 @@ class AssessmentService {
   }
 
   // Transform flat responses to nested structure by dimension
-  private transformFlatResponsesToNestedStructure(flatResponses: Record<string, number>): Record<string, Record<string, number>> {
+  private transformFlatResponsesToNestedStructure(
+    flatResponses: Record<string, number>,
+    questionDimensions: Record<string, string> = {}
+  ): Record<string, Record<string, number>> {
     const nestedResponses: Record<string, Record<string, number>> = {};
     
     // Group responses by dimension based on question ID prefix
     for (const [questionId, response] of Object.entries(flatResponses)) {
       // Extract dimension from question ID (e.g., "justice_1_1" -> "justice_fairness")
-      const dimensionId = this.extractDimensionFromQuestionId(questionId);
+      const dimensionId = this.extractDimensionFromQuestionId(questionId, questionDimensions);
       
       if (!nestedResponses[dimensionId]) {
         nestedResponses[dimensionId] = {};
@@ -171,8 +194,12 @@ class AssessmentService {
     return nestedResponses;
   }
   
-  // Extract dimension ID from question ID
-  private extractDimensionFromQuestionId(questionId: string): string {
+  // Extract dimension ID from question ID, using the question bank first
+  private extractDimensionFromQuestionId(questionId: string, questionDimensions: Record<string, string> = {}): string {
+    if (questionDimensions[questionId]) {
+      return questionDimensions[questionId];
+    }
+
     // Map question prefixes to dimension IDs
     const prefixToDimension: Record<string, string> = {
       'justice_': 'justice_fairness',
@@ -201,13 +228,13 @@ class AssessmentService {
   }
   
   // Detect if responses are in Framework v3.0 format
-  private isResponseV3Format(responses: Record<string, number>): boolean {
+  private isResponseV3Format(responses: Record<string, number>, questionDimensions: Record<string, string> = {}): boolean {
     const frameworkV3Patterns = ['justice_', 'transparency_', 'human_', 'social_', 'responsibility_', 'data_', 'technical_'];
     const responseKeys = Object.keys(responses);
     
-    // If any key matches v3 patterns, assume it's v3 format
+    // If any key is a question bank ID or matches v3 patterns, assume it's v3 format
     return responseKeys.some(key => 
-      frameworkV3Patterns.some(pattern => key.startsWith(pattern))
+      !!questionDimensions[key] || frameworkV3Patterns.some(pattern => key.startsWith(pattern))
     );
   }
   
@@ -228,7 +255,11 @@ class AssessmentService {
     return Math.round(averageResponse);
   }
 
-  private getDimensionScoreFromResponses(responses: Record<string, number>, dimension: string): number {
+  private getDimensionScoreFromResponses(
+    responses: Record<string, number>,
+    dimension: string,
+    questionDimensions: Record<string, string> = {}
+  ): number {
     // Calculer le score moyen pour une dimension à partir des réponses
     if (!responses || typeof responses !== 'object') {
       return 50; // Score par défaut si responses n'est pas valide
@@ -236,7 +267,7 @@ class AssessmentService {
     
     // Find questions that belong to this dimension using proper mapping
     const dimensionQuestions = Object.keys(responses).filter(questionId => {
-      const questionDimension = this.extractDimensionFromQuestionId(questionId);
+      const questionDimension = this.extractDimensionFromQuestionId(questionId, questionDimensions);
       return questionDimension === dimension;
     });
     
@@ -246,6 +277,13 @@ class AssessmentService {
     return Math.round((totalScore / dimensionQuestions.length) * 20); // Convert 1-5 scale to 0-100
   }
 
+  /**
+   * Pré-classification déterministe (Article 5, Annexe III, Article 50), sans appel au LLM
+   */
+  preClassify(input: EUAiActInput): ReturnType<AssessmentService['classifyEUAIAct']> {
+    return this.classifyEUAIAct(input);
+  }
+
   // EU AI Act Classification Engine (4 levels as per Regulation (EU) 2024/1689)
   private classifyEUAIAct(input: EUAiActInput): {
     riskLevel: 'minimal' | 'limited' | 'high' | 'unacceptable';
@@ -496,24 +534,27 @@ class AssessmentService {
   // ✅ ENHANCED: Now supports both legacy and Framework v3.0 formats
   async performRiskAssessment(
     formData: AssessmentFormData | RiskAssessmentFormData,
-    userId: string
+    userId: string,
+    operatorRoles: OperatorRole[] = ['provider'],
+    mode: AssessmentMode = 'llm_enriched'
   ): Promise<LegacyRiskAssessmentResult | RiskAssessmentResult> {
     console.log('🔍 Starting risk assessment for user:', userId);
     console.log('📊 Assessment data:', {
       systemName: formData.systemName,
-      isFrameworkV3: this.isFrameworkV3Format(formData)
+      isFrameworkV3: this.isFrameworkV3Format(formData),
+      mode
     });
 
     try {
       // Check if this is Framework v3.0 format
       if (this.isFrameworkV3Format(formData)) {
         console.log('🆕 Using Framework v3.0 assessment');
-        return await this.assessCombined(formData as RiskAssessmentFormData);
+        return await this.assessCombined(formData as RiskAssessmentFormData, operatorRoles, { mode, userId });
       }
 
       // Legacy assessment for backward compatibility
       console.log('🔄 Using legacy assessment');
-      return await this.performLegacyAssessment(formData as AssessmentFormData, userId);
+      return await this.performLegacyAssessment(formData as AssessmentFormData, userId, operatorRoles, mode);
     } catch (error) {
       console.error('❌ Risk assessment failed:', error);
       throw error;
@@ -545,10 +586,13 @@ class AssessmentService {
 
   private async performLegacyAssessment(
     formData: AssessmentFormData,
-    userId: string
+    userId: string,
+    operatorRoles: OperatorRole[],
+    mode: AssessmentMode
   ): Promise<LegacyRiskAssessmentResult> {
     // ✅ NEW: Explicit EU AI Act Classification (Tier 1)
-    const euAiActClassification = this.classifyEUAIAct(this.adaptFromLegacyFormat(formData));
+    const euAiActInput = this.adaptFromLegacyFormat(formData);
+    const euAiActClassification = this.classifyEUAIAct(euAiActInput);
     
     // ✅ NEW: Calculate Framework risk score (Tier 2) 
     const frameworkRiskScore = this.calculateRiskScore(formData);
@@ -560,39 +604,56 @@ class AssessmentService {
       this.mapEUAiActLevelToScore(euAiActClassification.riskLevel)
     );
 
-    // Generate AI-powered assessment with enhanced context
-    console.log('🧠 Preparing AI assessment with enhanced context');
-    const enhancedContext = `
+    // Rule-based reasoning: the same answers always give the same explanation, with or without an LLM
+    const reasoning = assessmentReasoningService.buildLegacyReasoning({
+      classification: euAiActClassification,
+      signals: euAiActInput,
+      frameworkRiskScore,
+      combinedRiskScore
+    });
+
+    let aiAssessment = this.getFallbackAssessment(finalRiskLevel, formData);
+    let aiNarrative: string | undefined;
+    if (mode === 'llm_enriched') {
+      // Generate AI-powered recommendations and narrative on top of the rule-based reasoning
+      console.log('🧠 Preparing AI assessment with enhanced context');
+      const enhancedContext = `
     EU AI Act Classification: ${euAiActClassification.riskLevel.toUpperCase()}
     EU AI Act Reasoning: ${euAiActClassification.reasoning}
     Framework Risk Score: ${frameworkRiskScore}/100
     Combined Risk Score: ${combinedRiskScore}/100
     `;
 
-    let aiAssessment;
-    try {
-      console.log('🤖 Generating AI assessment (this may take up to 90 seconds)...');
-      aiAssessment = await this.generateAIAssessment(
-        formData,
-        combinedRiskScore,
-        finalRiskLevel,
-        userId,
-        enhancedContext
-      );
-      console.log('✅ AI assessment completed successfully');
-    } catch (error) {
-      console.error('❌ AI assessment failed, using fallback:', error);
-      // Fallback assessment if LLM fails
-      aiAssessment = this.getFallbackAssessment(finalRiskLevel, formData);
+      try {
+        console.log('🤖 Generating AI assessment (this may take up to 90 seconds)...');
+        aiAssessment = await this.generateAIAssessment(
+          formData,
+          combinedRiskScore,
+          finalRiskLevel,
+          userId,
+          enhancedContext
+        );
+        aiNarrative = aiAssessment.reasoning;
+        console.log('✅ AI assessment completed successfully');
+      } catch (error) {
+        // Keep the rule-based recommendations if the LLM is unavailable
+        console.error('❌ AI assessment failed, using fallback:', error);
+      }
     }
 
-    // Determine obligations based on EU AI Act classification
-    const obligations = this.getEUAiActObligations(euAiActClassification);
+    // Determine obligations based on EU AI Act classification and the roles held for the system
+    const obligations = getObligationsForRoles(
+      this.getEUAiActObligations(euAiActClassification),
+      euAiActClassification.riskLevel,
+      operatorRoles
+    );
 
     return {
       riskLevel: finalRiskLevel,
       riskScore: combinedRiskScore,
-      reasoning: `${euAiActClassification.reasoning}\n\n${aiAssessment.reasoning}`,
+      reasoning,
+      aiNarrative,
+      assessmentMode: mode,
       obligations,
       recommendations: aiAssessment.recommendations,
       timeline: aiAssessment.timeline,
@@ -824,8 +885,7 @@ class AssessmentService {
       
       // Validate response content
       if (!response.content || response.content.trim().length === 0) {
-        console.error('Empty LLM response received');
-        return this.getFallbackAssessment(riskLevel, formData);
+        throw new Error('Empty LLM response received');
       }
 
       // Try to extract JSON from the response (LLM might wrap it in text)
@@ -841,17 +901,14 @@ class AssessmentService {
       
       // Validate structure
       if (!parsed.reasoning || !parsed.recommendations || !parsed.timeline) {
-        console.error('Invalid LLM response structure:', parsed);
-        return this.getFallbackAssessment(riskLevel, formData);
+        throw new Error('Invalid LLM response structure');
       }
       
       return parsed;
     } catch (error) {
       console.error('AI assessment generation failed:', error);
       console.log('Raw LLM response:', response?.content || 'No response content');
-      
-      // Fallback to predefined assessment
-      return this.getFallbackAssessment(riskLevel, formData);
+      throw error;
     }
   }
 
@@ -970,7 +1027,9 @@ class AssessmentService {
   async saveAssessment(
     formData: AssessmentFormData,
     result: LegacyRiskAssessmentResult,
-    userId: string
+    userId: string,
+    organizationId?: string,
+    existingAiSystemId?: string
   ): Promise<{ aiSystemId: string; assessmentId: string }> {
     // ✅ NEW: Get explicit EU AI Act classification for proper storage
     const euAiActClassification = this.classifyEUAIAct(this.adaptFromLegacyFormat(formData));
@@ -978,6 +1037,7 @@ class AssessmentService {
     // Create or update AI system
     const aiSystemData: InsertAiSystem = {
       userId,
+      organizationId,
       name: formData.systemName,
       description: formData.description,
       sector: formData.sector,
@@ -988,12 +1048,16 @@ class AssessmentService {
       lastAssessed: new Date(),
     };
 
-    const aiSystem = await storage.createAiSystem(aiSystemData);
+    // Une réévaluation (ex. renouvellement de certificat) met à jour le système existant
+    const aiSystem = existingAiSystemId
+      ? await this.updateReassessedSystem(existingAiSystemId, aiSystemData)
+      : await storage.createAiSystem(aiSystemData);
 
     // ✅ UPDATED: Map data to new risk assessment structure with proper EU AI Act classification
     const assessmentData: InsertRiskAssessment = {
       aiSystemId: aiSystem.id,
       userId,
+      organizationId,
       // Basic system information
       systemName: formData.systemName,
       organizationName: `Organisation (${formData.systemName})`, // Temporary fallback
@@ -1020,6 +1084,8 @@ class AssessmentService {
       riskScore: result.riskScore,
       riskLevel: result.riskLevel,
       reasoning: result.reasoning,
+      aiNarrative: result.aiNarrative,
+      assessmentMode: result.assessmentMode,
       
       // EU AI Act Compliance
       applicableObligations: result.obligations,
@@ -1048,16 +1114,20 @@ class AssessmentService {
   }
 
   // ✅ NEW: Positive AI Framework v3.0 Assessment Engine
-  async assessFrameworkV3(assessmentData: FrameworkAssessmentData): Promise<FrameworkAssessmentResult> {
+  async assessFrameworkV3(
+    assessmentData: FrameworkAssessmentData,
+    loadedQuestionnaire?: FrameworkQuestionnaire
+  ): Promise<FrameworkAssessmentResult> {
+    // Questions, strategies and weights come from the question bank version the answers refer to
+    const questionnaire = loadedQuestionnaire ?? await frameworkQuestionBankService.getQuestionnaire(assessmentData.frameworkVersion);
+    const responses: Record<string, number> = Object.assign({}, ...Object.values(assessmentData.responses));
+
     // Framework v3.0 - 7 dimensions scoring
     const dimensionResults: Record<string, any> = {};
     
     // 1. Calculate scores for each dimension
-    for (const dimension of this.getFrameworkDimensions()) {
-      dimensionResults[dimension.id] = await this.calculateDimensionScore(
-        dimension,
-        assessmentData.responses[dimension.id] || {}
-      );
+    for (const dimension of this.getFrameworkDimensions(questionnaire)) {
+      dimensionResults[dimension.id] = await this.calculateDimensionScore(dimension, responses);
     }
     
     // 2. Calculate overall weighted score
@@ -1081,109 +1151,35 @@ class AssessmentService {
       employeeRisk,
       priorityActions,
       recommendations,
-      assessmentVersion: '3.0'
+      assessmentVersion: questionnaire.version
     };
   }
 
-  private getFrameworkDimensions() {
-    return [
-      {
-        id: 'justice_fairness',
-        name: 'Justice & Fairness',
-        weight: 20, // Higher weight for critical dimension
-        strategies: [
-          'data_biases_identified_mitigated',
-          'design_biases_identified_mitigated', 
-          'biased_results_identified_mitigated',
-          'bias_monitoring',
-          'stakeholder_engagement'
-        ]
-      },
-      {
-        id: 'transparency_explainability',
-        name: 'Transparency & Explainability',
-        weight: 18,
-        strategies: [
-          'algorithmic_transparency',
-          'decision_transparency',
-          'process_transparency'
-        ]
-      },
-      {
-        id: 'human_ai_interaction',
-        name: 'Human-AI Interaction',
-        weight: 16,
-        strategies: [
-          'human_oversight_control',
-          'meaningful_human_control',
-          'user_empowerment'
-        ]
-      },
-      {
-        id: 'social_environmental_impact',
-        name: 'Social & Environmental Impact',
-        weight: 15,
-        strategies: [
-          'sustainably_developed_by_design',
-          'promoting_positive_outcomes',
-          'avoidance_of_societal_harms'
-        ]
-      },
-      {
-        id: 'responsibility',
-        name: 'Responsibility',
-        weight: 12,
-        strategies: [
-          'collection_data_traceable_requirements',
-          'license_of_data',
-          'protected_from_disclosure',
-          'approaches_privacy_preservation',
-          'accountability_governance'
-        ]
-      },
-      {
-        id: 'data_privacy',
-        name: 'Data & Privacy',
-        weight: 10,
-        strategies: [
-          'data_minimization',
-          'purpose_limitation',
-          'consent_management',
-          'security_protection',
-          'rights_management'
-        ]
-      },
-      {
-        id: 'technical_robustness_security',
-        name: 'Technical Robustness & Security',
-        weight: 9,
-        strategies: [
-          'accuracy_reliability',
-          'fallback_procedures',
-          'security_resilience'
-        ]
-      }
-    ];
+  private getFrameworkDimensions(questionnaire: FrameworkQuestionnaire): FrameworkScoringDimension[] {
+    return FRAMEWORK_DIMENSIONS.map(dimension => ({
+      ...dimension,
+      strategies: questionnaire.dimensions.find(candidate => candidate.id === dimension.id)?.strategies || []
+    }));
   }
 
   private async calculateDimensionScore(
-    dimension: any,
+    dimension: FrameworkScoringDimension,
     responses: Record<string, number>
   ): Promise<any> {
     let totalScore = 0;
     let totalWeight = 0;
     const strategyResults: Record<string, any> = {};
     
-    // Calculate score for each strategy in the dimension
+    // Calculate score for each strategy in the dimension, weighted by the weights of its questions
     for (const strategy of dimension.strategies) {
       const strategyScore = this.calculateStrategyScore(strategy, responses);
-      const strategyWeight = 100 / dimension.strategies.length; // Equal weight for now
+      const strategyWeight = strategy.questions.reduce((sum, question) => sum + (question.weight ?? 10), 0);
       
-      strategyResults[strategy] = {
+      strategyResults[strategy.key] = {
         score: strategyScore,
         level: this.getPerformanceLevel(strategyScore),
-        strengths: this.getStrategyStrengths(strategy, strategyScore),
-        improvements: this.getStrategyImprovements(strategy, strategyScore)
+        strengths: this.getStrategyStrengths(strategy.key, strategyScore),
+        improvements: this.getStrategyImprovements(strategy.key, strategyScore)
       };
       
       totalScore += strategyScore * strategyWeight;
@@ -1201,40 +1197,25 @@ class AssessmentService {
     };
   }
 
-  private calculateStrategyScore(strategy: string, responses: Record<string, number>): number {
-    // Get questions for this strategy (simplified - in real implementation would query database)
-    const strategyQuestions = this.getStrategyQuestions(strategy);
-    
+  private calculateStrategyScore(strategy: FrameworkQuestionnaireStrategy, responses: Record<string, number>): number {
     let totalScore = 0;
-    let questionCount = 0;
+    let answeredWeight = 0;
     
-    for (const questionId of strategyQuestions) {
-      if (responses[questionId] !== undefined) {
+    for (const question of strategy.questions) {
+      const response = responses[question.questionId];
+      if (response !== undefined) {
+        const weight = question.weight ?? 10;
         // Convert 1-5 scale to 0-100
-        totalScore += ((responses[questionId] - 1) / 4) * 100;
-        questionCount++;
+        totalScore += ((response - 1) / 4) * 100 * weight;
+        answeredWeight += weight;
       }
     }
     
-    return questionCount > 0 ? totalScore / questionCount : 0;
-  }
-
-  private getStrategyQuestions(strategy: string): string[] {
-    // Simplified mapping - in real implementation would query framework_questions table
-    const strategyQuestionMap: Record<string, string[]> = {
-      'data_biases_identified_mitigated': ['justice_1_1', 'justice_1_2', 'justice_1_3'],
-      'design_biases_identified_mitigated': ['justice_2_1', 'justice_2_2'],
-      'biased_results_identified_mitigated': ['justice_3_1', 'justice_3_2'],
-      'bias_monitoring': ['justice_4_1', 'justice_4_2'],
-      'stakeholder_engagement': ['justice_5_1'],
-      // Add other strategies...
-    };
-    
-    return strategyQuestionMap[strategy] || [];
+    return answeredWeight > 0 ? totalScore / answeredWeight : 0;
   }
 
   private calculateOverallFrameworkScore(dimensionResults: Record<string, any>): number {
-    const dimensions = this.getFrameworkDimensions();
+    const dimensions = FRAMEWORK_DIMENSIONS;
     let totalWeightedScore = 0;
     let totalWeight = 0;
     
@@ -1416,14 +1397,30 @@ class AssessmentService {
     return improvementsMap[dimensionId] || ['Améliorer cette dimension'];
   }
 
-  // Enhanced assessment combining EU AI Act + Framework v3.0
-  async assessCombined(formData: RiskAssessmentFormData): Promise<RiskAssessmentResult> {
+  // Enhanced assessment combining EU AI Act + Framework v3.0.
+  // Deterministic unless an LLM narrative is requested for a user whose LLM settings can be used.
+  // Callers scoring many variants of the same answers pass the questionnaire they already loaded
+  async assessCombined(
+    formData: RiskAssessmentFormData,
+    operatorRoles: OperatorRole[] = ['provider'],
+    options: { mode?: AssessmentMode; userId?: string; questionnaire?: FrameworkQuestionnaire } = {}
+  ): Promise<RiskAssessmentResult> {
+    const mode = options.userId ? options.mode ?? 'llm_enriched' : 'deterministic';
     console.log('🔄 Starting combined assessment (EU AI Act + Framework v3.0)');
 
     try {
+      // Answers are keyed by question bank IDs: resolve each one's dimension in the version being assessed
+      const questionnaire = options.questionnaire ?? await frameworkQuestionBankService.getQuestionnaire(formData.frameworkVersion);
+      const questionDimensions: Record<string, string> = Object.fromEntries(
+        questionnaire.dimensions.flatMap(dimension =>
+          dimension.strategies.flatMap(strategy => strategy.questions.map(question => [question.questionId, dimension.id]))
+        )
+      );
+
       // 1. EU AI Act Classification (Tier 1)
       console.log('📋 Step 1: EU AI Act Classification');
-      const euAiActClassification = this.classifyEUAIAct(this.adaptFromFrameworkV3(formData));
+      const euAiActInput = this.adaptFromFrameworkV3(formData, questionDimensions);
+      const euAiActClassification = this.classifyEUAIAct(euAiActInput);
       console.log('✅ EU AI Act classification completed:', euAiActClassification.riskLevel);
 
       // 2. Framework v3.0 Assessment (Tier 2)
@@ -1434,10 +1431,11 @@ class AssessmentService {
         industrySector: formData.industrySector,
         primaryUseCase: formData.primaryUseCase,
         systemDescription: formData.systemDescription,
-        responses: this.transformFlatResponsesToNestedStructure(formData.frameworkResponses || {})
+        responses: this.transformFlatResponsesToNestedStructure(formData.frameworkResponses || {}, questionDimensions),
+        frameworkVersion: questionnaire.version
       };
 
-      const frameworkResult = await this.assessFrameworkV3(frameworkData);
+      const frameworkResult = await this.assessFrameworkV3(frameworkData, questionnaire);
       console.log('✅ Framework v3.0 assessment completed, score:', frameworkResult.overallScore);
 
       // 3. Combine results
@@ -1446,10 +1444,25 @@ class AssessmentService {
       const riskLevel = this.determineFinalRiskLevel(euAiActClassification.riskLevel, frameworkResult.customerRisk);
       console.log('✅ Combined risk level:', riskLevel, 'score:', riskScore);
 
-      // 4. Generate combined reasoning
-      console.log('💭 Step 4: Generating reasoning (LLM call)');
-      const reasoning = await this.generateCombinedReasoning(euAiActClassification, frameworkResult);
-      console.log('✅ Reasoning generated successfully');
+      // 4. Rule-based reasoning citing the articles and answers behind the result, optionally enriched by the LLM
+      console.log('💭 Step 4: Generating reasoning, mode:', mode);
+      const reasoning = assessmentReasoningService.buildCombinedReasoning({
+        classification: euAiActClassification,
+        signals: euAiActInput,
+        questionnaire,
+        responses: formData.frameworkResponses || {},
+        dimensions: FRAMEWORK_DIMENSIONS.map(dimension => ({
+          id: dimension.id,
+          name: this.getDimensionDisplayName(dimension.id),
+          score: frameworkResult.dimensionResults[dimension.id]?.score ?? 0
+        })),
+        overallScore: frameworkResult.overallScore,
+        overallLevel: frameworkResult.overallLevel
+      });
+      const aiNarrative = mode === 'llm_enriched' && options.userId
+        ? await assessmentReasoningService.generateNarrative(reasoning, formData.systemName, options.userId)
+        : undefined;
+      console.log('✅ Reasoning generated successfully', { enriched: aiNarrative !== undefined });
 
       return {
         euAiActRiskLevel: euAiActClassification.riskLevel,
@@ -1464,13 +1477,19 @@ class AssessmentService {
         riskLevel,
         riskScore,
         reasoning,
-        applicableObligations: this.getObligations(euAiActClassification.riskLevel, formData),
+        aiNarrative,
+        assessmentMode: mode,
+        applicableObligations: getObligationsForRoles(
+          this.getObligations(euAiActClassification.riskLevel, formData),
+          euAiActClassification.riskLevel,
+          operatorRoles
+        ),
         complianceGaps: this.identifyComplianceGaps(euAiActClassification, frameworkResult),
         complianceScore: this.calculateComplianceScore(euAiActClassification, frameworkResult),
         recommendations: [...frameworkResult.recommendations],
-        actionPlan: this.generateCombinedActionPlan(euAiActClassification, frameworkResult),
+        actionPlan: this.generateCombinedActionPlan(euAiActClassification, frameworkResult, operatorRoles),
         priorityActions: frameworkResult.priorityActions.map(action => action.action),
-        assessmentVersion: '3.0'
+        assessmentVersion: frameworkResult.assessmentVersion
       };
     } catch (error) {
       console.error('❌ Error in combined assessment:', error);
@@ -1559,10 +1578,6 @@ class AssessmentService {
     return euLevel as any;
   }
 
-  private async generateCombinedReasoning(euClassification: any, frameworkResult: FrameworkAssessmentResult): Promise<string> {
-    return `Classification EU AI Act: ${euClassification.reasoning}\n\nÉvaluation Framework Positive AI v3.0: Score global de ${frameworkResult.overallScore}/100 (${frameworkResult.overallLevel}). Les dimensions nécessitant une attention particulière sont celles avec des scores inférieurs à 70/100.`;
-  }
-
   private identifyComplianceGaps(euClassification: any, frameworkResult: FrameworkAssessmentResult): Array<{
     gap: string;
     severity: 'critical' | 'high' | 'medium' | 'low';
@@ -1602,7 +1617,11 @@ class AssessmentService {
     return Math.round((euCompliance + frameworkResult.overallScore) / 2);
   }
 
-  private generateCombinedActionPlan(euClassification: any, frameworkResult: FrameworkAssessmentResult): {
+  private generateCombinedActionPlan(
+    euClassification: any,
+    frameworkResult: FrameworkAssessmentResult,
+    operatorRoles: OperatorRole[]
+  ): {
     immediate: Array<{ action: string; priority: 'critical' | 'high' | 'medium'; timeline: string }>;
     short_term: Array<{ action: string; priority: 'critical' | 'high' | 'medium'; timeline: string }>;
     long_term: Array<{ action: string; priority: 'critical' | 'high' | 'medium'; timeline: string }>;
@@ -1619,11 +1638,21 @@ class AssessmentService {
         timeline: 'Immédiat'
       });
     } else if (euClassification.riskLevel === 'high') {
-      immediate.push({
-        action: 'Évaluation de conformité EU AI Act',
-        priority: 'critical' as const,
-        timeline: '2 semaines'
-      });
+      // L'évaluation de conformité incombe au fournisseur (Article 43)
+      if (operatorRoles.includes('provider')) {
+        immediate.push({
+          action: 'Évaluation de conformité EU AI Act',
+          priority: 'critical' as const,
+          timeline: '2 semaines'
+        });
+      }
+      for (const article of getRoleSpecificArticles('high', operatorRoles)) {
+        immediate.push({
+          action: `${article.title} (${article.articleNumber})`,
+          priority: 'high' as const,
+          timeline: '1 mois'
+        });
+      }
     }
     
     // Framework priority actions
@@ -1644,11 +1673,14 @@ class AssessmentService {
   async saveEnhancedAssessment(
     formData: RiskAssessmentFormData,
     result: RiskAssessmentResult,
-    userId: string
+    userId: string,
+    organizationId?: string,
+    existingAiSystemId?: string
   ): Promise<{ aiSystemId: string; assessmentId: string }> {
     // Create or update AI system
     const aiSystemData: InsertAiSystem = {
       userId,
+      organizationId,
       name: formData.systemName,
       description: formData.systemDescription,
       sector: formData.industrySector,
@@ -1659,12 +1691,16 @@ class AssessmentService {
       lastAssessed: new Date(),
     };
 
-    const aiSystem = await storage.createAiSystem(aiSystemData);
+    // Une réévaluation (ex. renouvellement de certificat) met à jour le système existant
+    const aiSystem = existingAiSystemId
+      ? await this.updateReassessedSystem(existingAiSystemId, aiSystemData)
+      : await storage.createAiSystem(aiSystemData);
 
     // Create enhanced risk assessment record
     const assessmentData: InsertRiskAssessment = {
       aiSystemId: aiSystem.id,
       userId,
+      organizationId,
       systemName: formData.systemName,
       organizationName: formData.organizationName,
       industrySector: formData.industrySector as any,
@@ -1687,6 +1723,8 @@ class AssessmentService {
       riskScore: result.riskScore,
       riskLevel: result.riskLevel,
       reasoning: result.reasoning,
+      aiNarrative: result.aiNarrative,
+      assessmentMode: result.assessmentMode,
       
       // Compliance data
       applicableObligations: result.applicableObligations,
@@ -1817,6 +1855,19 @@ class AssessmentService {
     return Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
   }
   
+  /**
+   * Une réévaluation ne met à jour que les résultats : le nom, le secteur, le statut, le responsable
+   * et les données d'inventaire restent ceux du système, et une pratique interdite reste inacceptable
+   */
+  private async updateReassessedSystem(id: string, aiSystemData: InsertAiSystem) {
+    const existing = await storage.getAiSystem(id);
+    return storage.updateAiSystem(id, {
+      riskLevel: existing?.prohibitedPractice ? 'unacceptable' : aiSystemData.riskLevel,
+      complianceScore: aiSystemData.complianceScore,
+      lastAssessed: aiSystemData.lastAssessed,
+    });
+  }
+
   private determineEnrichedRiskLevel(riskScore: number): 'minimal' | 'limited' | 'high' | 'unacceptable' {
     if (riskScore >= 80) return 'unacceptable';
     if (riskScore >= 60) return 'high';
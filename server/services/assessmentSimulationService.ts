@@ -0,0 +1,160 @@
+/**
+ * Assessment Simulation Service
+ * Simulation « what-if » : applique des modifications hypothétiques des réponses à une évaluation existante,
+ * recalcule le référentiel Positive AI et la classification EU AI Act en mode déterministe, sans rien enregistrer,
+ * et classe chaque modification selon le gain qu'elle apporte à elle seule
+ */
+
+import { storage } from '../storage';
+import { assessmentService } from './assessmentService';
+import { assessmentComparisonService, RiskAssessmentNotFoundError } from './assessmentComparisonService';
+import { organizationService, type OrganizationContext } from './organizationService';
+import { frameworkQuestionBankService, type FrameworkQuestionnaire } from './frameworkQuestionBankService';
+import { AiSystemNotFoundError } from './systemVersionService';
+import { getEffectiveRoles } from '../data/operatorRoles';
+import { ValidationError } from '../errors/SecurityErrors';
+import {
+  assessmentSimulationSchema,
+  type AssessmentSimulationChangeImpact,
+  type AssessmentSimulationOutcome,
+  type AssessmentSimulationResult,
+  type OperatorRole,
+  type RiskAssessment,
+  type RiskAssessmentAnswerChange,
+  type RiskAssessmentFormData,
+  type RiskAssessmentResult,
+} from '@shared/schema';
+
+export class AssessmentSimulationService {
+  async simulate(
+    context: OrganizationContext,
+    aiSystemId: string,
+    assessmentId: string,
+    input: unknown
+  ): Promise<AssessmentSimulationResult> {
+    const { frameworkResponses, riskAnswers } = assessmentSimulationSchema.parse(input);
+
+    const system = await storage.getAiSystem(aiSystemId);
+    if (!system || !organizationService.canAccessRecord(context, system)) {
+      throw new AiSystemNotFoundError(aiSystemId);
+    }
+    const assessment = await storage.getRiskAssessment(assessmentId);
+    if (!assessment || assessment.aiSystemId !== aiSystemId) {
+      throw new RiskAssessmentNotFoundError(assessmentId);
+    }
+
+    const baseForm = this.baseFormData(assessment);
+    // Chargée une fois : chaque modification est recalculée sur la version de la banque de l'évaluation
+    const questionnaire = await frameworkQuestionBankService.getQuestionnaire(baseForm.frameworkVersion);
+    this.assertKnownQuestions(questionnaire, frameworkResponses);
+
+    const changes = [
+      ...this.changedAnswers('frameworkResponses', baseForm.frameworkResponses, frameworkResponses),
+      ...this.changedAnswers('formData', baseForm as unknown as Record<string, unknown>, riskAnswers),
+    ];
+    const roles = getEffectiveRoles(system);
+
+    // Les réponses enregistrées sont recalculées avec le moteur actuel : les écarts ne reflètent que les modifications
+    const baseline = await this.run(baseForm, roles, questionnaire);
+    const simulated = changes.length > 0 ? await this.run(this.apply(baseForm, changes), roles, questionnaire) : baseline;
+
+    const rankedChanges: AssessmentSimulationChangeImpact[] = [];
+    for (const change of changes) {
+      const alone = changes.length === 1 ? simulated : await this.run(this.apply(baseForm, [change]), roles, questionnaire);
+      rankedChanges.push({
+        ...change,
+        overallFrameworkScoreGain: alone.overallFrameworkScore - baseline.overallFrameworkScore,
+        riskScoreReduction: baseline.riskScore - alone.riskScore,
+        riskLevel: alone.riskLevel,
+      });
+    }
+    rankedChanges.sort((a, b) =>
+      b.overallFrameworkScoreGain - a.overallFrameworkScoreGain || b.riskScoreReduction - a.riskScoreReduction
+    );
+
+    const { added, closed } = assessmentComparisonService.diffGaps(baseline.complianceGaps, simulated.complianceGaps);
+    return {
+      baseline: this.outcome(baseline),
+      simulated: this.outcome(simulated),
+      riskLevelTrend: assessmentComparisonService.riskTrend(baseline.riskLevel, simulated.riskLevel),
+      dimensionDeltas: Object.keys(simulated.dimensionScores).sort().map(dimension => ({
+        dimension,
+        ...assessmentComparisonService.delta(baseline.dimensionScores[dimension]?.score, simulated.dimensionScores[dimension].score),
+      })),
+      closedGaps: closed,
+      addedGaps: added,
+      rankedChanges,
+    };
+  }
+
+  // Seules les évaluations du référentiel v3.0 conservent les réponses nécessaires au recalcul
+  private baseFormData(assessment: RiskAssessment): RiskAssessmentFormData {
+    const frameworkResponses = (assessment.frameworkResponses || {}) as Record<string, number>;
+    if (Object.keys(frameworkResponses).length === 0) {
+      throw new ValidationError('Only Framework v3.0 assessments can be simulated');
+    }
+
+    return {
+      ...(assessment.formData as RiskAssessmentFormData),
+      frameworkResponses,
+      frameworkVersion: assessment.assessmentVersion ?? undefined,
+    };
+  }
+
+  private assertKnownQuestions(questionnaire: FrameworkQuestionnaire, responses: Record<string, number>): void {
+    const questionIds = new Set(questionnaire.dimensions.flatMap(dimension =>
+      dimension.strategies.flatMap(strategy => strategy.questions.map(question => question.questionId))
+    ));
+    const unknown = Object.keys(responses).filter(questionId => !questionIds.has(questionId));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown questions in framework version ${questionnaire.version}: ${unknown.join(', ')}`);
+    }
+  }
+
+  private changedAnswers(
+    source: RiskAssessmentAnswerChange['source'],
+    current: Record<string, unknown>,
+    hypothetical: Record<string, unknown>
+  ): RiskAssessmentAnswerChange[] {
+    return Object.entries(hypothetical)
+      .filter(([field, value]) => JSON.stringify(current[field] ?? null) !== JSON.stringify(value ?? null))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([field, value]) => ({ source, field, from: current[field] ?? null, to: value }));
+  }
+
+  private apply(formData: RiskAssessmentFormData, changes: RiskAssessmentAnswerChange[]): RiskAssessmentFormData {
+    const next: RiskAssessmentFormData = { ...formData, frameworkResponses: { ...formData.frameworkResponses } };
+    for (const change of changes) {
+      if (change.source === 'frameworkResponses') {
+        next.frameworkResponses[change.field] = change.to as number;
+      } else {
+        (next as unknown as Record<string, unknown>)[change.field] = change.to;
+      }
+    }
+    return next;
+  }
+
+  // Sans utilisateur, l'évaluation combinée est déterministe et n'appelle aucun LLM
+  private run(
+    formData: RiskAssessmentFormData,
+    roles: OperatorRole[],
+    questionnaire: FrameworkQuestionnaire
+  ): Promise<RiskAssessmentResult> {
+    return assessmentService.assessCombined(formData, roles, { questionnaire });
+  }
+
+  private outcome(result: RiskAssessmentResult): AssessmentSimulationOutcome {
+    return {
+      riskLevel: result.riskLevel,
+      euAiActRiskLevel: result.euAiActRiskLevel,
+      riskScore: result.riskScore,
+      complianceScore: result.complianceScore,
+      overallFrameworkScore: result.overallFrameworkScore,
+      dimensionScores: Object.fromEntries(
+        Object.entries(result.dimensionScores).map(([dimension, score]) => [dimension, score.score])
+      ),
+    };
+  }
+}
+
+export const assessmentSimulationService = new AssessmentSimulationService();
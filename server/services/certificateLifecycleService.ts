@@ -0,0 +1,295 @@
+/**
+ * Certificate Lifecycle Service
+ * Expiration planifiée des certificats, rappels de renouvellement (J-60, J-30, J-7),
+ * renouvellement pré-rempli et liste de révocation signée
+ */
+
+import { storage } from '../storage';
+import { certificateSigningService, type CertificateSignature } from './certificateSigningService';
+import { createServiceLogger } from '../utils/logger';
+import type { ComplianceCertificate } from '@shared/schema';
+
+const logger = createServiceLogger('CertificateLifecycleService');
+
+export const REMINDER_THRESHOLDS_DAYS = [60, 30, 7];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+// Rôles d'organisation destinataires des rappels, en plus de l'émetteur du certificat
+const REMINDER_ROLES = ['owner', 'compliance_officer'];
+
+export interface RevocationListEntry {
+  certificateNumber: string;
+  revokedAt: string;
+  reason: string | null;
+}
+
+export interface RevocationList {
+  format: 'ai-act-navigator-crl/v1';
+  issuer: string;
+  issuedAt: string;
+  nextUpdate: string;
+  entries: RevocationListEntry[];
+}
+
+export interface SignedRevocationList {
+  revocationList: RevocationList;
+  signature: CertificateSignature;
+}
+
+export interface LifecycleRunResult {
+  expired: number;
+  remindersSent: number;
+}
+
+export interface RenewalPrefill {
+  certificateId: string;
+  aiSystemId: string;
+  formData: Record<string, any>;
+}
+
+export class CertificateRenewalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CertificateRenewalError';
+  }
+}
+
+export class CertificateStatusTransitionError extends Error {
+  constructor(certificateNumber: string) {
+    super(`Certificate ${certificateNumber} is revoked: its status can no longer change`);
+    this.name = 'CertificateStatusTransitionError';
+  }
+}
+
+export class CertificateLifecycleService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private readonly intervalMs: number = Number(process.env.CERTIFICATE_LIFECYCLE_INTERVAL_MS) || DEFAULT_INTERVAL_MS) {}
+
+  /**
+   * Démarre la tâche planifiée (une exécution immédiate puis à intervalle régulier)
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.runSafely(), this.intervalMs);
+    this.timer.unref();
+    void this.runSafely();
+    logger.info('Certificate lifecycle scheduler started', { intervalMs: this.intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Expire les certificats arrivés à échéance et envoie les rappels dus
+   */
+  async runOnce(now: Date = new Date()): Promise<LifecycleRunResult> {
+    const maxThreshold = Math.max(...REMINDER_THRESHOLDS_DAYS);
+    const certificates = await storage.getValidCertificatesExpiringBefore(new Date(now.getTime() + maxThreshold * DAY_MS));
+    const result: LifecycleRunResult = { expired: 0, remindersSent: 0 };
+
+    for (const certificate of certificates) {
+      try {
+        if (new Date(certificate.validUntil!) <= now) {
+          await this.expire(certificate);
+          result.expired++;
+        } else if (await this.sendDueReminder(certificate, now)) {
+          result.remindersSent++;
+        }
+      } catch (error) {
+        logger.error('Certificate lifecycle processing failed', error as Error, { certificateId: certificate.id });
+      }
+    }
+
+    if (result.expired > 0 || result.remindersSent > 0) {
+      logger.info('Certificate lifecycle run completed', result);
+    }
+    return result;
+  }
+
+  /**
+   * Change le statut d'un certificat ; la révocation est définitive, sa date et son motif sont conservés
+   */
+  async changeStatus(
+    certificate: ComplianceCertificate,
+    status: 'valid' | 'expired' | 'revoked' | 'pending',
+    reason?: string
+  ): Promise<ComplianceCertificate> {
+    if (certificate.status === 'revoked') {
+      throw new CertificateStatusTransitionError(certificate.certificateNumber);
+    }
+    if (status === 'revoked') {
+      return this.revoke(certificate, reason);
+    }
+
+    const updated = await storage.updateCertificateStatus(certificate.id, status);
+    if (!updated) {
+      // Révoqué entre-temps
+      throw new CertificateStatusTransitionError(certificate.certificateNumber);
+    }
+    logger.info('Certificate status changed', { certificateId: certificate.id, from: certificate.status, to: status });
+    return updated;
+  }
+
+  async revoke(certificate: ComplianceCertificate, reason?: string): Promise<ComplianceCertificate> {
+    const revoked = await storage.updateCertificate(certificate.id, {
+      status: 'revoked',
+      revokedAt: new Date(),
+      revocationReason: reason || null,
+    });
+    logger.info('Certificate revoked', { certificateId: certificate.id, certificateNumber: certificate.certificateNumber });
+    return revoked;
+  }
+
+  /**
+   * Marque le renouvellement comme engagé ; la nouvelle évaluation est pré-remplie
+   * à partir de la dernière évaluation de risque du système
+   */
+  async startRenewal(certificate: ComplianceCertificate, userId: string): Promise<RenewalPrefill> {
+    const prefill = await this.getRenewalPrefill(certificate);
+    await storage.updateCertificate(certificate.id, {
+      renewalStartedAt: new Date(),
+      renewalStartedBy: userId,
+    });
+    logger.info('Certificate renewal started', { certificateId: certificate.id, userId });
+    return prefill;
+  }
+
+  async getRenewalPrefill(certificate: ComplianceCertificate): Promise<RenewalPrefill> {
+    if (!certificate.aiSystemId) {
+      throw new CertificateRenewalError('Only AI system certificates can be renewed through a new assessment');
+    }
+    if (certificate.status === 'revoked') {
+      throw new CertificateRenewalError('Revoked certificates cannot be renewed');
+    }
+
+    const assessment = await storage.getLatestRiskAssessment(certificate.aiSystemId);
+    if (!assessment) {
+      throw new CertificateRenewalError('No previous risk assessment found for this AI system');
+    }
+
+    return {
+      certificateId: certificate.id,
+      aiSystemId: certificate.aiSystemId,
+      formData: (assessment.formData || {}) as Record<string, any>,
+    };
+  }
+
+  /**
+   * Liste de révocation publique, signée avec la clé active des certificats
+   */
+  async buildRevocationList(now: Date = new Date()): Promise<SignedRevocationList> {
+    const revoked = await storage.getRevokedCertificates();
+    const revocationList: RevocationList = {
+      format: 'ai-act-navigator-crl/v1',
+      issuer: 'IA-ACT-NAVIGATOR',
+      issuedAt: now.toISOString(),
+      nextUpdate: new Date(now.getTime() + this.intervalMs).toISOString(),
+      entries: revoked.map(certificate => ({
+        certificateNumber: certificate.certificateNumber,
+        revokedAt: new Date(certificate.revokedAt || certificate.updatedAt || now).toISOString(),
+        reason: certificate.revocationReason,
+      })),
+    };
+
+    return {
+      revocationList,
+      signature: await certificateSigningService.sign(revocationList),
+    };
+  }
+
+  private async runSafely(): Promise<void> {
+    // Pas d'exécutions concurrentes si une passe dépasse l'intervalle
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.runOnce();
+    } catch (error) {
+      logger.error('Certificate lifecycle run failed', error as Error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async expire(certificate: ComplianceCertificate): Promise<void> {
+    if (!(await storage.updateCertificateStatus(certificate.id, 'expired'))) {
+      return; // Révoqué entre-temps
+    }
+    await this.notify(certificate, {
+      type: 'certificate_expired',
+      title: `Certificat ${certificate.certificateNumber} expiré`,
+      message: `Le certificat ${this.describe(certificate)} a expiré. Lancez un renouvellement pour émettre un nouveau certificat.`,
+    });
+    logger.info('Certificate expired', { certificateId: certificate.id, certificateNumber: certificate.certificateNumber });
+  }
+
+  /**
+   * Un seul rappel par passe (le seuil le plus proche) ; les seuils dépassés sont
+   * enregistrés pour ne pas être envoyés en rattrapage
+   */
+  private async sendDueReminder(certificate: ComplianceCertificate, now: Date): Promise<boolean> {
+    const daysLeft = Math.ceil((new Date(certificate.validUntil!).getTime() - now.getTime()) / DAY_MS);
+    const sent = new Set((await storage.getCertificateReminders(certificate.id)).map(reminder => reminder.thresholdDays));
+    const due = REMINDER_THRESHOLDS_DAYS.filter(threshold => daysLeft <= threshold && !sent.has(threshold));
+    if (due.length === 0) {
+      return false;
+    }
+
+    await storage.createCertificateReminders(certificate.id, due);
+    await this.notify(certificate, {
+      type: 'certificate_expiring',
+      title: `Certificat ${certificate.certificateNumber} : expiration dans ${daysLeft} jour${daysLeft > 1 ? 's' : ''}`,
+      message: `Le certificat ${this.describe(certificate)} expire le ${new Date(certificate.validUntil!).toLocaleDateString('fr-FR')}. Lancez le renouvellement pour réévaluer le système.`,
+      metadata: { thresholdDays: Math.min(...due), daysLeft },
+    });
+    return true;
+  }
+
+  private async notify(
+    certificate: ComplianceCertificate,
+    notification: { type: string; title: string; message: string; metadata?: Record<string, unknown> }
+  ): Promise<void> {
+    const recipients = await this.getRecipients(certificate);
+    for (const userId of Array.from(recipients)) {
+      await storage.createNotification({
+        userId,
+        organizationId: certificate.organizationId,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        link: '/certificates',
+        metadata: { certificateId: certificate.id, certificateNumber: certificate.certificateNumber, ...notification.metadata },
+      });
+    }
+  }
+
+  private async getRecipients(certificate: ComplianceCertificate): Promise<Set<string>> {
+    const recipients = new Set<string>([certificate.userId]);
+    if (certificate.organizationId) {
+      const members = await storage.getOrganizationMembers(certificate.organizationId);
+      members
+        .filter(member => REMINDER_ROLES.includes(member.role))
+        .forEach(member => recipients.add(member.userId));
+    }
+    return recipients;
+  }
+
+  private describe(certificate: ComplianceCertificate): string {
+    return certificate.systemName
+      ? `${certificate.certificateNumber} (${certificate.systemName})`
+      : certificate.certificateNumber;
+  }
+}
+
+export const certificateLifecycleService = new CertificateLifecycleService();
@@ -0,0 +1,228 @@
+/**
+ * Certificate PDF Service
+ * Rendu PDF imprimable des certificats de conformité (Puppeteer) avec QR code de vérification
+ */
+
+import puppeteer, { type Browser } from 'puppeteer';
+import QRCode from 'qrcode';
+import { createServiceLogger } from '../utils/logger';
+import type { ComplianceCertificate } from '@shared/schema';
+
+const logger = createServiceLogger('CertificatePdfService');
+
+const CERTIFICATE_TYPE_LABELS: Record<string, string> = {
+  conformity: 'Déclaration de conformité',
+  risk_assessment: "Certificat d'évaluation des risques",
+  maturity: 'Certificat de maturité organisationnelle',
+  compliance_summary: 'Résumé de conformité',
+};
+
+const RISK_LEVEL_LABELS: Record<string, string> = {
+  minimal: 'Risque minimal',
+  limited: 'Risque limité',
+  high: 'Haut risque',
+  unacceptable: 'Risque inacceptable',
+};
+
+const MATURITY_LEVEL_LABELS: Record<string, string> = {
+  initial: 'Initial',
+  developing: 'En développement',
+  defined: 'Défini',
+  managed: 'Géré',
+  optimizing: 'Optimisé',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  valid: 'Valide',
+  expired: 'Expiré',
+  revoked: 'Révoqué',
+  pending: 'En attente',
+};
+
+const COMPLIANCE_STATUS_LABELS: Record<string, string> = {
+  compliant: 'Conforme',
+  partially_compliant: 'Partiellement conforme',
+  non_compliant: 'Non conforme',
+};
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(value: Date | string | null | undefined): string {
+  return value ? new Date(value).toLocaleDateString('fr-FR', { day: '2-digit', month: 'long', year: 'numeric' }) : 'N/A';
+}
+
+function renderList(items: unknown, emptyLabel: string): string {
+  const values = Array.isArray(items) ? items : [];
+  if (values.length === 0) {
+    return `<p class="muted">${escapeHtml(emptyLabel)}</p>`;
+  }
+  return `<ul>${values.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+}
+
+export class CertificatePdfService {
+  private browser: Promise<Browser> | null = null;
+
+  /**
+   * URL publique de vérification encodée dans le QR code
+   */
+  buildVerificationUrl(certificate: ComplianceCertificate, baseUrl: string): string {
+    const url = new URL(`/api/certificates/verify/${encodeURIComponent(certificate.certificateNumber)}`, baseUrl);
+    if (certificate.certificationHash) {
+      url.searchParams.set('hash', certificate.certificationHash);
+    }
+    return url.toString();
+  }
+
+  async renderHtml(certificate: ComplianceCertificate, verificationUrl: string): Promise<string> {
+    const qrCode = await QRCode.toDataURL(verificationUrl, { errorCorrectionLevel: 'M', margin: 1, width: 220 });
+    const criteria = (certificate.certificationCriteria || {}) as Record<string, any>;
+    const details = (certificate.complianceDetails || {}) as Record<string, any>;
+
+    const summaryRows: Array<[string, string | null | undefined]> = [
+      ['Organisation', certificate.organizationName],
+      ['Système IA', certificate.systemName],
+      ['Niveau de risque', certificate.riskLevel ? RISK_LEVEL_LABELS[certificate.riskLevel] : null],
+      ['Score de conformité', certificate.complianceScore !== null ? `${certificate.complianceScore}/100` : null],
+      ['Maturité organisationnelle', certificate.maturityLevel ? MATURITY_LEVEL_LABELS[certificate.maturityLevel] : null],
+      ['Statut', STATUS_LABELS[certificate.status || 'valid']],
+      ['Émis le', formatDate(certificate.issuedAt)],
+      ["Valide jusqu'au", formatDate(certificate.validUntil)],
+    ];
+
+    return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(certificate.certificateNumber)}</title>
+<style>
+  @page { size: A4; margin: 18mm 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: 'Helvetica Neue', Arial, sans-serif; color: #1f2937; font-size: 11pt; margin: 0; }
+  .certificate { border: 3px double #1e3a8a; padding: 28px 32px; min-height: 255mm; position: relative; }
+  .brand { display: flex; justify-content: space-between; align-items: center; border-bottom: 2px solid #1e3a8a; padding-bottom: 12px; }
+  .brand-name { font-size: 18pt; font-weight: 700; color: #1e3a8a; letter-spacing: 1px; }
+  .brand-sub { font-size: 9pt; color: #6b7280; }
+  h1 { text-align: center; font-size: 24pt; color: #1e3a8a; margin: 36px 0 6px; }
+  .number { text-align: center; font-family: 'Courier New', monospace; color: #374151; margin-bottom: 28px; }
+  .statement { text-align: center; font-size: 12pt; line-height: 1.6; margin: 0 24px 28px; }
+  table.summary { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+  table.summary td { padding: 7px 10px; border-bottom: 1px solid #e5e7eb; }
+  table.summary td:first-child { color: #6b7280; width: 40%; }
+  .verification { display: flex; gap: 20px; align-items: center; border: 1px solid #d1d5db; border-radius: 6px; padding: 14px; position: absolute; left: 32px; right: 32px; bottom: 28px; }
+  .verification img { width: 110px; height: 110px; }
+  .verification .meta { font-size: 8.5pt; color: #4b5563; word-break: break-all; line-height: 1.5; }
+  .mono { font-family: 'Courier New', monospace; }
+  .appendix { page-break-before: always; }
+  h2 { color: #1e3a8a; font-size: 15pt; border-bottom: 1px solid #1e3a8a; padding-bottom: 6px; }
+  h3 { font-size: 11.5pt; margin: 18px 0 6px; }
+  ul { margin: 0; padding-left: 18px; }
+  li { margin-bottom: 3px; }
+  .muted { color: #9ca3af; font-style: italic; margin: 0; }
+</style>
+</head>
+<body>
+  <section class="certificate">
+    <div class="brand">
+      <div>
+        <div class="brand-name">${escapeHtml(certificate.issuedBy || 'IA-ACT-NAVIGATOR')}</div>
+        <div class="brand-sub">Gouvernance de l'IA — Règlement (UE) 2024/1689</div>
+      </div>
+      <div class="brand-sub">EU AI Act</div>
+    </div>
+
+    <h1>${escapeHtml(CERTIFICATE_TYPE_LABELS[certificate.certificateType] || certificate.certificateType)}</h1>
+    <div class="number">N° ${escapeHtml(certificate.certificateNumber)}</div>
+
+    <p class="statement">
+      Le présent certificat atteste que <strong>${escapeHtml(certificate.organizationName)}</strong>
+      ${certificate.systemName ? `a évalué le système d'IA <strong>${escapeHtml(certificate.systemName)}</strong>` : 'a évalué sa gouvernance de l\'IA'}
+      au regard des exigences du Règlement (UE) 2024/1689 sur l'intelligence artificielle.
+    </p>
+
+    <table class="summary">
+      ${summaryRows
+        .filter(([, value]) => value)
+        .map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`)
+        .join('')}
+    </table>
+
+    <div class="verification">
+      <img src="${qrCode}" alt="QR code de vérification">
+      <div class="meta">
+        <strong>Vérification :</strong> scannez le QR code ou consultez<br>
+        <span class="mono">${escapeHtml(verificationUrl)}</span><br>
+        <strong>SHA-256 :</strong> <span class="mono">${escapeHtml(certificate.certificationHash || 'N/A')}</span><br>
+        <strong>Signature Ed25519 :</strong> <span class="mono">${escapeHtml(certificate.signingKeyId ? `clé ${certificate.signingKeyId}` : 'non signé')}</span>
+      </div>
+    </div>
+  </section>
+
+  <section class="appendix">
+    <h2>Annexe — Critères de certification</h2>
+    <h3>Domaines évalués</h3>
+    ${renderList(criteria.evaluatedDomains, 'Aucun domaine renseigné')}
+    <h3>Contrôles de conformité</h3>
+    ${renderList(criteria.complianceChecks, 'Aucun contrôle renseigné')}
+    <h3>Méthodes d'évaluation</h3>
+    ${renderList(criteria.assessmentMethods, 'Aucune méthode renseignée')}
+
+    <h2>Annexe — Détails de conformité</h2>
+    <h3>Statut global</h3>
+    <p>${escapeHtml(COMPLIANCE_STATUS_LABELS[details.overallStatus] || details.overallStatus || 'N/A')}</p>
+    <h3>Mesures d'atténuation des risques</h3>
+    ${renderList(details.riskMitigation, 'Aucune mesure renseignée')}
+    <h3>Recommandations</h3>
+    ${renderList(details.recommendations, 'Aucune recommandation')}
+    <h3>Prochaine révision</h3>
+    <p>${escapeHtml(formatDate(details.nextReviewDate))}</p>
+  </section>
+</body>
+</html>`;
+  }
+
+  async generatePdf(certificate: ComplianceCertificate, baseUrl: string): Promise<Buffer> {
+    const verificationUrl = this.buildVerificationUrl(certificate, baseUrl);
+    const html = await this.renderHtml(certificate, verificationUrl);
+
+    const browser = await this.getBrowser();
+    const page = await browser.newPage();
+    try {
+      await page.setContent(html, { waitUntil: 'load' });
+      const pdf = await page.pdf({ format: 'A4', printBackground: true, preferCSSPageSize: true });
+      logger.info('Certificate PDF generated', { certificateId: certificate.id, sizeBytes: pdf.length });
+      return Buffer.from(pdf);
+    } finally {
+      await page.close();
+    }
+  }
+
+  /**
+   * Navigateur partagé, relancé s'il a été fermé (PUPPETEER_EXECUTABLE_PATH pour un Chromium système)
+   */
+  private async getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      this.browser = puppeteer
+        .launch({ headless: 'shell', args: ['--no-sandbox', '--disable-dev-shm-usage'] })
+        .then(browser => {
+          browser.on('disconnected', () => {
+            this.browser = null;
+          });
+          return browser;
+        })
+        .catch(error => {
+          this.browser = null;
+          throw error;
+        });
+    }
+    return this.browser;
+  }
+}
+
+export const certificatePdfService = new CertificatePdfService();
@@ -1,5 +1,11 @@
 import { nanoid } from 'nanoid';
-import crypto from 'crypto';
+import {
+  certificateSigningService,
+  sha256Hex,
+  CERTIFICATE_SIGNATURE_ALGORITHM,
+  type CertificateSignature,
+  type SignatureVerificationResult,
+} from './certificateSigningService';
 import { 
   ComplianceCertificate, 
   InsertComplianceCertificate,
@@ -42,10 +48,25 @@ export interface CertificateData {
     authority: string;
     standard: string;
     version: string;
-    hash: string;
   };
 }
 
+/**
+ * Certificat exporté, vérifiable hors ligne avec scripts/verify-certificate.mjs
+ * et les clés publiées sous /.well-known/certificate-keys.json
+ */
+export interface ExportedCertificate {
+  format: 'ai-act-navigator-certificate/v1';
+  certificate: CertificateData;
+  sha256: string;
+  signature: CertificateSignature;
+}
+
+export interface CertificateIntegrityResult {
+  hashValid: boolean;
+  signature: SignatureVerificationResult;
+}
+
 export class CertificateService {
   
   /**
@@ -254,21 +275,6 @@ Fournissez des recommandations concrètes en français, chacune sur une ligne s
     return details;
   }
 
-  /**
-   * Generate hash for certificate verification
-   */
-  private generateCertificationHash(certificateData: CertificateData): string {
-    const dataString = JSON.stringify({
-      certificateNumber: certificateData.certificateNumber,
-      organizationName: certificateData.organizationName,
-      systemName: certificateData.systemName,
-      issuedAt: certificateData.issuedAt,
-      complianceScore: certificateData.complianceScore
-    });
-    
-    return crypto.createHash('sha256').update(dataString).digest('hex');
-  }
-
   /**
    * Generate a compliance certificate
    */
@@ -297,13 +303,12 @@ Fournissez des recommandations concrètes en français, chacune sur une ligne s
       certification: {
         authority: 'IA-ACT-NAVIGATOR',
         standard: 'EU AI Act (Règlement UE 2024/1689)',
-        version: '1.0',
-        hash: '' // Will be set after hash generation
+        version: '1.0'
       }
     };
 
-    // Generate hash for verification after all data is materialized
-    certificateData.certification.hash = this.generateCertificationHash(certificateData);
+    // Sign once all data is materialized: the whole certificate content is covered
+    const signature = await certificateSigningService.sign(certificateData);
 
     const certificate: InsertComplianceCertificate = {
       userId: data.userId,
@@ -320,27 +325,51 @@ Fournissez des recommandations concrètes en français, chacune sur une ligne s
       complianceDetails,
       validUntil,
       certificateData: certificateData,
-      certificationHash: certificateData.certification.hash
+      certificationHash: sha256Hex(certificateData),
+      signature: signature.value,
+      signingKeyId: signature.keyId
     };
 
     return certificate;
   }
 
   /**
-   * Verify certificate integrity using hash
+   * Verify certificate integrity: content hash and Ed25519 signature
    */
-  verifyCertificationHash(certificate: any): boolean {
-    try {
-      if (!certificate.certificateData || !certificate.certificationHash) {
-        return false;
-      }
-      
-      const expectedHash = this.generateCertificationHash(certificate.certificateData);
-      return expectedHash === certificate.certificationHash;
-    } catch (error) {
-      console.error('Error verifying certificate hash:', error);
-      return false;
+  async verifyCertificateIntegrity(certificate: ComplianceCertificate): Promise<CertificateIntegrityResult> {
+    if (!certificate.certificateData || !certificate.signature || !certificate.signingKeyId) {
+      // Certificates issued before signing was enabled only carry an unkeyed hash
+      return { hashValid: false, signature: { valid: false, reason: 'bad_signature' } };
     }
+
+    const hashValid = sha256Hex(certificate.certificateData) === certificate.certificationHash;
+    const signature = await certificateSigningService.verify(
+      certificate.certificateData,
+      certificate.signature,
+      certificate.signingKeyId
+    );
+
+    return { hashValid, signature };
+  }
+
+  /**
+   * Build the self-contained JSON export of a signed certificate
+   */
+  exportCertificate(certificate: ComplianceCertificate): ExportedCertificate | null {
+    if (!certificate.certificateData || !certificate.signature || !certificate.signingKeyId) {
+      return null;
+    }
+
+    return {
+      format: 'ai-act-navigator-certificate/v1',
+      certificate: certificate.certificateData as CertificateData,
+      sha256: certificate.certificationHash || sha256Hex(certificate.certificateData),
+      signature: {
+        algorithm: CERTIFICATE_SIGNATURE_ALGORITHM,
+        keyId: certificate.signingKeyId,
+        value: certificate.signature
+      }
+    };
   }
 
   /**
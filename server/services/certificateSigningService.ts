@@ -0,0 +1,270 @@
+/**
+ * Certificate Signing Service
+ * Signature Ed25519 des certificats de conformité et trousseau de clés avec rotation
+ *
+ * Les clés sont conservées sur disque (CERTIFICATE_KEYS_DIR), jamais en base : un accès
+ * en écriture à la base ne suffit pas pour émettre un certificat valide ni pour publier une clé.
+ *
+ * Contenu signé : JSON canonique de certificateData (clés d'objets triées récursivement,
+ * dates au format ISO 8601, valeurs undefined omises), encodé en UTF-8.
+ * Le script scripts/verify-certificate.mjs reproduit exactement cette forme.
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createServiceLogger } from '../utils/logger';
+
+const logger = createServiceLogger('CertificateSigningService');
+
+export const CERTIFICATE_SIGNATURE_ALGORITHM = 'Ed25519';
+
+export type SigningKeyStatus = 'active' | 'retired' | 'revoked';
+
+interface KeyringEntry {
+  keyId: string;
+  status: SigningKeyStatus;
+  publicKeyPem: string;
+  createdAt: string;
+  retiredAt?: string;
+  revokedAt?: string;
+}
+
+export interface PublicSigningKey {
+  kty: 'OKP';
+  crv: 'Ed25519';
+  x: string;
+  kid: string;
+  use: 'sig';
+  alg: 'EdDSA';
+  status: SigningKeyStatus;
+  createdAt: string;
+  retiredAt?: string;
+  revokedAt?: string;
+}
+
+export interface CertificateSignature {
+  algorithm: typeof CERTIFICATE_SIGNATURE_ALGORITHM;
+  keyId: string;
+  value: string; // base64url
+}
+
+export interface SignatureVerificationResult {
+  valid: boolean;
+  keyStatus?: SigningKeyStatus;
+  reason?: 'unknown_key' | 'revoked_key' | 'bad_signature';
+}
+
+/**
+ * Sérialisation JSON canonique (clés triées, forme JSON de chaque valeur)
+ */
+export function canonicalize(value: unknown): string {
+  return JSON.stringify(sortKeys(JSON.parse(JSON.stringify(value ?? null))));
+}
+
+function sortKeys(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce((sorted: Record<string, any>, key) => {
+        sorted[key] = sortKeys(value[key]);
+        return sorted;
+      }, {});
+  }
+  return value;
+}
+
+export function sha256Hex(payload: unknown): string {
+  return crypto.createHash('sha256').update(canonicalize(payload), 'utf8').digest('hex');
+}
+
+export class CertificateSigningService {
+  private readonly keysDir: string;
+  private keyring: KeyringEntry[] | null = null;
+  private pendingKey: Promise<KeyringEntry> | null = null;
+
+  constructor(keysDir: string = process.env.CERTIFICATE_KEYS_DIR || path.join(process.cwd(), 'keys', 'certificates')) {
+    this.keysDir = path.resolve(keysDir);
+  }
+
+  /**
+   * Signe le contenu canonique avec la clé active (créée au premier usage)
+   */
+  async sign(payload: unknown): Promise<CertificateSignature> {
+    const activeKey = await this.getActiveKey();
+    const privateKey = crypto.createPrivateKey(await fs.readFile(this.privateKeyPath(activeKey.keyId), 'utf8'));
+    const signature = crypto.sign(null, Buffer.from(canonicalize(payload), 'utf8'), privateKey);
+
+    return {
+      algorithm: CERTIFICATE_SIGNATURE_ALGORITHM,
+      keyId: activeKey.keyId,
+      value: signature.toString('base64url'),
+    };
+  }
+
+  /**
+   * Vérifie une signature avec la clé publique correspondante ; les clés retirées
+   * restent valides pour les certificats émis avant la rotation, pas les clés révoquées
+   */
+  async verify(payload: unknown, signature: string, keyId: string): Promise<SignatureVerificationResult> {
+    const entry = (await this.loadKeyring()).find(key => key.keyId === keyId);
+    if (!entry) {
+      return { valid: false, reason: 'unknown_key' };
+    }
+    if (entry.status === 'revoked') {
+      return { valid: false, keyStatus: entry.status, reason: 'revoked_key' };
+    }
+
+    try {
+      const valid = crypto.verify(
+        null,
+        Buffer.from(canonicalize(payload), 'utf8'),
+        crypto.createPublicKey(entry.publicKeyPem),
+        Buffer.from(signature, 'base64url')
+      );
+      return valid ? { valid, keyStatus: entry.status } : { valid, keyStatus: entry.status, reason: 'bad_signature' };
+    } catch (error) {
+      logger.warn('Signature verification error', { keyId, error: (error as Error).message });
+      return { valid: false, keyStatus: entry.status, reason: 'bad_signature' };
+    }
+  }
+
+  /**
+   * Génère une nouvelle clé active ; la précédente est retirée (ou révoquée si compromise)
+   * et sa clé privée supprimée
+   */
+  async rotateKey(options: { revokePrevious?: boolean } = {}): Promise<PublicSigningKey> {
+    const keyring = await this.loadKeyring();
+    const now = new Date().toISOString();
+
+    for (const entry of keyring.filter(key => key.status === 'active')) {
+      if (options.revokePrevious) {
+        entry.status = 'revoked';
+        entry.revokedAt = now;
+      } else {
+        entry.status = 'retired';
+        entry.retiredAt = now;
+      }
+      await fs.rm(this.privateKeyPath(entry.keyId), { force: true });
+    }
+
+    const entry = await this.generateKey(keyring);
+    logger.info('Certificate signing key rotated', {
+      keyId: entry.keyId,
+      previousKeysStatus: options.revokePrevious ? 'revoked' : 'retired'
+    });
+
+    return this.toPublicKey(entry);
+  }
+
+  /**
+   * Clés publiques au format JWK (RFC 8037), publiées sous /.well-known/
+   */
+  async getPublicKeys(): Promise<{ keys: PublicSigningKey[] }> {
+    await this.getActiveKey();
+    const keyring = await this.loadKeyring();
+    return { keys: keyring.map(entry => this.toPublicKey(entry)) };
+  }
+
+  private async getActiveKey(): Promise<KeyringEntry> {
+    const keyring = await this.loadKeyring();
+    const active = keyring.find(key => key.status === 'active');
+    if (active) {
+      return active;
+    }
+
+    // Requêtes concurrentes au premier démarrage : une seule clé générée
+    if (!this.pendingKey) {
+      logger.warn('No active certificate signing key, generating one', { keysDir: this.keysDir });
+      this.pendingKey = this.generateKey(keyring).finally(() => {
+        this.pendingKey = null;
+      });
+    }
+    return this.pendingKey;
+  }
+
+  private async generateKey(keyring: KeyringEntry[]): Promise<KeyringEntry> {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+    const entry: KeyringEntry = {
+      keyId: this.thumbprint(publicKey),
+      status: 'active',
+      publicKeyPem,
+      createdAt: new Date().toISOString(),
+    };
+
+    await fs.mkdir(this.keysDir, { recursive: true, mode: 0o700 });
+    await fs.writeFile(
+      this.privateKeyPath(entry.keyId),
+      privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+      { flag: 'wx', mode: 0o600 }
+    );
+
+    keyring.push(entry);
+    await this.saveKeyring(keyring);
+    return entry;
+  }
+
+  /**
+   * Identifiant de clé : empreinte JWK (RFC 7638) de la clé publique
+   */
+  private thumbprint(publicKey: crypto.KeyObject): string {
+    const { x } = publicKey.export({ format: 'jwk' });
+    const canonicalJwk = JSON.stringify({ crv: 'Ed25519', kty: 'OKP', x });
+    return crypto.createHash('sha256').update(canonicalJwk).digest('base64url');
+  }
+
+  private toPublicKey(entry: KeyringEntry): PublicSigningKey {
+    const { x } = crypto.createPublicKey(entry.publicKeyPem).export({ format: 'jwk' });
+    return {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: x!,
+      kid: entry.keyId,
+      use: 'sig',
+      alg: 'EdDSA',
+      status: entry.status,
+      createdAt: entry.createdAt,
+      retiredAt: entry.retiredAt,
+      revokedAt: entry.revokedAt,
+    };
+  }
+
+  private async loadKeyring(): Promise<KeyringEntry[]> {
+    if (this.keyring) {
+      return this.keyring;
+    }
+
+    try {
+      const content = await fs.readFile(this.keyringPath(), 'utf8');
+      this.keyring = JSON.parse(content).keys as KeyringEntry[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      this.keyring = [];
+    }
+    return this.keyring;
+  }
+
+  private async saveKeyring(keyring: KeyringEntry[]): Promise<void> {
+    const tempPath = `${this.keyringPath()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify({ keys: keyring }, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.keyringPath());
+    this.keyring = keyring;
+  }
+
+  private keyringPath(): string {
+    return path.join(this.keysDir, 'keyring.json');
+  }
+
+  private privateKeyPath(keyId: string): string {
+    return path.join(this.keysDir, `${keyId}.private.pem`);
+  }
+}
+
+export const certificateSigningService = new CertificateSigningService();
@@ -1,20 +1,61 @@
-import { storage } from "../storage";
+import { storage, type EvidenceAttachmentWithArticle } from "../storage";
 import { llmService } from "./llmService";
-import type { InsertComplianceRecord, AiSystem } from "@shared/schema";
+import { evidenceService } from "./evidenceService";
+import {
+  OBLIGATION_ARTICLE_MAPPING,
+  OBLIGATION_LABELS,
+  getMappedArticles,
+  getObligationsForArticle,
+  getArticleTitle,
+  type ObligationKey,
+} from "../data/obligationMapping";
+import { getEffectiveRoles, isArticleNumberApplicable } from "../data/operatorRoles";
+import type { InsertComplianceRecord, AiSystem, ComplianceRecord, OperatorRole } from "@shared/schema";
+
+export type { ObligationKey };
+
+type ObligationStatus = 'compliant' | 'pending' | 'not_applicable';
+
+export interface EvidenceSummary {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  sha256: string;
+  articleNumber: string | null;
+  complianceRecordId: string | null;
+  uploadedAt: Date | null;
+}
+
+export interface ObligationArticleStatus {
+  articleNumber: string;
+  title: string;
+  rationale: string;
+  satisfied: boolean;
+  complianceRecordId: string | null;
+  completedAt: Date | null;
+}
+
+/**
+ * Explication d'une cellule de la matrice : articles qui la déterminent et articles manquants
+ */
+export interface ObligationExplanation {
+  status: ObligationStatus;
+  articles: ObligationArticleStatus[];
+  satisfiedArticles: string[];
+  missingArticles: string[];
+}
 
 export interface ComplianceMatrixItem {
   systemId: string;
   systemName: string;
   riskLevel: string;
-  obligations: {
-    documentation: 'compliant' | 'pending' | 'not_applicable';
-    testing: 'compliant' | 'pending' | 'not_applicable';
-    surveillance: 'compliant' | 'pending' | 'not_applicable';
-    transparency: 'compliant' | 'pending' | 'not_applicable';
-    certification: 'compliant' | 'pending' | 'not_applicable';
-  };
+  operatorRoles: OperatorRole[]; // Effective roles, including provider under Art. 25
+  obligations: Record<ObligationKey, ObligationStatus>;
+  explanations: Record<ObligationKey, ObligationExplanation>;
   overallStatus: 'compliant' | 'partial' | 'non_compliant';
   lastUpdated: Date;
+  evidence: Record<ObligationKey, EvidenceSummary[]>;
+  otherEvidence: EvidenceSummary[];
 }
 
 export interface ComplianceOverview {
@@ -27,9 +68,8 @@ export interface ComplianceOverview {
 }
 
 class ComplianceService {
-  async getComplianceOverview(userId: string): Promise<ComplianceOverview> {
-    const systems = await storage.getAiSystemsByUser(userId);
-    const complianceData = await storage.getComplianceOverview(userId);
+  async getComplianceOverview(organizationId: string): Promise<ComplianceOverview> {
+    const systems = await storage.getAiSystemsByOrganization(organizationId);
 
     const totalSystems = systems.length;
     const compliantSystems = systems.filter(s => s.status === 'active' && s.complianceScore && s.complianceScore >= 80).length;
@@ -54,79 +94,173 @@ class ComplianceService {
     };
   }
 
-  async getComplianceMatrix(userId: string): Promise<ComplianceMatrixItem[]> {
-    const systems = await storage.getAiSystemsByUser(userId);
+  async getComplianceMatrix(organizationId: string): Promise<ComplianceMatrixItem[]> {
+    const [systems, articles] = await Promise.all([
+      storage.getAiSystemsByOrganization(organizationId),
+      storage.getAiActArticles(),
+    ]);
+    const articleNumbers = new Map(articles.map(article => [article.id, article.articleNumber]));
     const matrix: ComplianceMatrixItem[] = [];
 
     for (const system of systems) {
-      const complianceRecords = await storage.getComplianceRecordsBySystem(system.id);
-      const obligations = this.calculateObligationStatus(system, complianceRecords);
-      const overallStatus = this.calculateOverallStatus(obligations);
+      const [complianceRecords, attachments] = await Promise.all([
+        storage.getComplianceRecordsBySystem(system.id),
+        evidenceService.getBySystem(system.id),
+      ]);
+      const explanations = this.explainObligations(system, complianceRecords, articleNumbers);
+      const obligations = Object.fromEntries(
+        Object.entries(explanations).map(([key, explanation]) => [key, explanation.status])
+      ) as Record<ObligationKey, ObligationStatus>;
+      const overallStatus = this.calculateOverallStatus(system, obligations);
+      const { evidence, otherEvidence } = this.groupEvidenceByObligation(attachments);
 
       matrix.push({
         systemId: system.id,
         systemName: system.name,
         riskLevel: system.riskLevel || 'minimal',
+        operatorRoles: getEffectiveRoles(system),
         obligations,
+        explanations,
         overallStatus,
         lastUpdated: system.updatedAt || system.createdAt || new Date(),
+        evidence,
+        otherEvidence,
       });
     }
 
     return matrix;
   }
 
-  private calculateObligationStatus(
+  /**
+   * Statut de chaque catégorie calculé à partir des enregistrements de conformité
+   * des articles rattachés (voir data/obligationMapping.ts) et applicables aux rôles d'opérateur
+   * du système. Une catégorie est conforme lorsque chacun de ses articles applicables
+   * a un enregistrement conforme et finalisé.
+   */
+  private explainObligations(
     system: AiSystem,
-    complianceRecords: any[]
-  ): ComplianceMatrixItem['obligations'] {
+    complianceRecords: ComplianceRecord[],
+    articleNumbers: Map<string, string>
+  ): Record<ObligationKey, ObligationExplanation> {
     const riskLevel = system.riskLevel || 'minimal';
-    
-    // Default status based on risk level
-    const obligations: ComplianceMatrixItem['obligations'] = {
-      documentation: 'not_applicable',
-      testing: 'not_applicable',
-      surveillance: 'not_applicable',
-      transparency: 'not_applicable',
-      certification: 'not_applicable',
-    };
+    const roles = getEffectiveRoles(system);
+
+    // Les enregistrements sont triés du plus récent au plus ancien : seul le dernier compte
+    const latestRecords = new Map<string, ComplianceRecord>();
+    for (const record of complianceRecords) {
+      const articleNumber = articleNumbers.get(record.articleId);
+      if (articleNumber && !latestRecords.has(articleNumber)) {
+        latestRecords.set(articleNumber, record);
+      }
+    }
 
-    // Apply obligations based on risk level
-    switch (riskLevel) {
-      case 'high':
-        obligations.documentation = 'pending';
-        obligations.testing = 'pending';
-        obligations.surveillance = 'pending';
-        obligations.transparency = 'pending';
-        obligations.certification = 'pending';
-        break;
-      case 'limited':
-        obligations.transparency = 'pending';
-        obligations.documentation = 'pending';
-        break;
-      case 'minimal':
-        obligations.documentation = 'pending';
-        break;
+    const explanations = {} as Record<ObligationKey, ObligationExplanation>;
+
+    for (const key of Object.keys(OBLIGATION_ARTICLE_MAPPING) as ObligationKey[]) {
+      const mappings = getMappedArticles(key, riskLevel)
+        .filter(mapping => isArticleNumberApplicable(mapping.articleNumber, roles));
+      const articles: ObligationArticleStatus[] = mappings.map(mapping => {
+        const record = latestRecords.get(mapping.articleNumber);
+        return {
+          articleNumber: mapping.articleNumber,
+          title: getArticleTitle(mapping.articleNumber),
+          rationale: mapping.rationale,
+          satisfied: !!(record?.compliant && record.completedAt),
+          complianceRecordId: record?.id || null,
+          completedAt: record?.completedAt || null,
+        };
+      });
+
+      const satisfiedArticles = articles.filter(a => a.satisfied).map(a => a.articleNumber);
+      const missingArticles = articles.filter(a => !a.satisfied).map(a => a.articleNumber);
+
+      let status: ObligationStatus = 'not_applicable';
+      if (articles.length > 0) {
+        status = missingArticles.length === 0 ? 'compliant' : 'pending';
+      }
+
+      explanations[key] = { status, articles, satisfiedArticles, missingArticles };
     }
 
-    // Update status based on actual compliance records
-    complianceRecords.forEach(record => {
-      // This would map specific articles to obligation categories
-      // For now, we'll use a simplified approach
-      if (record.compliant && record.completedAt) {
-        // Mark random obligations as compliant for demo
-        const keys = Object.keys(obligations) as (keyof typeof obligations)[];
-        const randomKey = keys[Math.floor(Math.random() * keys.length)];
-        if (obligations[randomKey] === 'pending') {
-          obligations[randomKey] = 'compliant';
-        }
+    return explanations;
+  }
+
+  /**
+   * Rattache chaque preuve à la catégorie d'obligation de son article
+   */
+  private groupEvidenceByObligation(attachments: EvidenceAttachmentWithArticle[]): {
+    evidence: Record<ObligationKey, EvidenceSummary[]>;
+    otherEvidence: EvidenceSummary[];
+  } {
+    const evidence: Record<ObligationKey, EvidenceSummary[]> = {
+      documentation: [],
+      testing: [],
+      surveillance: [],
+      transparency: [],
+      certification: [],
+    };
+    const otherEvidence: EvidenceSummary[] = [];
+
+    for (const attachment of attachments) {
+      const summary = this.toEvidenceSummary(attachment);
+      const keys = attachment.articleNumber ? getObligationsForArticle(attachment.articleNumber) : [];
+
+      if (keys.length === 0) {
+        otherEvidence.push(summary);
       }
-    });
+      keys.forEach(key => evidence[key].push(summary));
+    }
 
-    return obligations;
+    return { evidence, otherEvidence };
   }
 
-  private calculateOverallStatus(obligations: ComplianceMatrixItem['obligations']): 'compliant' | 'partial' | 'non_compliant' {
+  private toEvidenceSummary(attachment: EvidenceAttachmentWithArticle): EvidenceSummary {
+    return {
+      id: attachment.id,
+      fileName: attachment.fileName,
+      mimeType: attachment.mimeType,
+      sha256: attachment.sha256,
+      articleNumber: attachment.articleNumber,
+      complianceRecordId: attachment.complianceRecordId,
+      uploadedAt: attachment.createdAt,
+    };
+  }
+
+  /**
+   * Inventaire des preuves pour les rapports et documents générés
+   */
+  formatEvidenceInventory(attachments: EvidenceAttachmentWithArticle[]): string {
+    if (attachments.length === 0) {
+      return "Aucune pièce justificative déposée.";
+    }
+    return attachments
+      .map(a => `- ${a.fileName} (${a.articleNumber || 'sans article'}, ${a.mimeType}, SHA-256: ${a.sha256}, déposé le ${a.createdAt ? new Date(a.createdAt).toLocaleDateString('fr-FR') : 'N/A'})`)
+      .join('\n');
+  }
+
+  private formatObligationSummary(explanations: Record<ObligationKey, ObligationExplanation>): string {
+    return (Object.keys(explanations) as ObligationKey[])
+      .map(key => {
+        const { status, satisfiedArticles, missingArticles } = explanations[key];
+        if (status === 'not_applicable') {
+          return `- ${OBLIGATION_LABELS[key]}: non applicable`;
+        }
+        const satisfied = satisfiedArticles.length > 0 ? satisfiedArticles.join(', ') : 'aucun';
+        const missing = missingArticles.length > 0 ? missingArticles.join(', ') : 'aucun';
+        return `- ${OBLIGATION_LABELS[key]}: ${status === 'compliant' ? 'conforme' : 'en attente'} (articles satisfaits: ${satisfied}; manquants: ${missing})`;
+      })
+      .join('\n');
+  }
+
+  private calculateOverallStatus(
+    system: AiSystem,
+    obligations: Record<ObligationKey, ObligationStatus>
+  ): 'compliant' | 'partial' | 'non_compliant' {
+    // Pratique interdite (Article 5) : aucune mise en conformité possible
+    if (system.riskLevel === 'unacceptable') {
+      return 'non_compliant';
+    }
+
     const values = Object.values(obligations);
     const applicableObligations = values.filter(v => v !== 'not_applicable');
     
@@ -149,7 +283,7 @@ class ComplianceService {
   async generateComplianceReport(
     systemId: string,
     userId: string
-  ): Promise<{ title: string; content: string; recommendations: string[] }> {
+  ): Promise<{ title: string; content: string; recommendations: string[]; evidence: EvidenceSummary[] }> {
     const system = await storage.getAiSystem(systemId);
     if (!system) {
       throw new Error("AI system not found");
@@ -157,6 +291,16 @@ class ComplianceService {
 
     const complianceRecords = await storage.getComplianceRecordsBySystem(systemId);
     const latestAssessment = await storage.getLatestRiskAssessment(systemId);
+    const attachments = await evidenceService.getBySystem(systemId);
+    const evidence = attachments.map(a => this.toEvidenceSummary(a));
+    const evidenceInventory = this.formatEvidenceInventory(attachments);
+    const articles = await storage.getAiActArticles();
+    const explanations = this.explainObligations(
+      system,
+      complianceRecords,
+      new Map(articles.map(article => [article.id, article.articleNumber]))
+    );
+    const obligationSummary = this.formatObligationSummary(explanations);
 
     const systemPrompt = `Vous êtes un expert en conformité réglementaire pour le Règlement (UE) 2024/1689 sur l'IA.
     Générez un rapport de conformité détaillé basé sur les données du système IA fourni.
@@ -173,10 +317,16 @@ class ComplianceService {
     Données d'évaluation: ${JSON.stringify(system.assessmentData, null, 2)}
     
     Nombre d'enregistrements de conformité: ${complianceRecords.length}
+
+    État des obligations par catégorie:
+    ${obligationSummary}
+
+    Pièces justificatives déposées:
+    ${evidenceInventory}
     
     Veuillez fournir:
     1. Un titre approprié pour le rapport
-    2. Un contenu détaillé avec analyse de conformité
+    2. Un contenu détaillé avec analyse de conformité, citant les pièces justificatives qui étayent chaque obligation
     3. Des recommandations spécifiques d'amélioration
     
     Format de réponse JSON:
@@ -193,7 +343,7 @@ class ComplianceService {
       });
 
       const parsed = JSON.parse(response.content);
-      return parsed;
+      return { ...parsed, evidence };
     } catch (error) {
       console.error('Compliance report generation failed:', error);
       
@@ -211,9 +361,16 @@ STATUT ACTUEL:
 - Score de conformité: ${system.complianceScore || 0}%
 - Dernière évaluation: ${system.lastAssessed ? new Date(system.lastAssessed).toLocaleDateString('fr-FR') : 'Non effectuée'}
 
+ÉTAT DES OBLIGATIONS:
+${obligationSummary}
+
+PIÈCES JUSTIFICATIVES:
+${evidenceInventory}
+
 PROCHAINES ÉTAPES:
 ${this.getNextSteps(system.riskLevel || 'minimal')}`,
-        recommendations: this.getDefaultRecommendations(system.riskLevel || 'minimal')
+        recommendations: this.getDefaultRecommendations(system.riskLevel || 'minimal'),
+        evidence
       };
     }
   }
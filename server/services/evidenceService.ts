@@ -0,0 +1,221 @@
+/**
+ * Evidence Service
+ * Pièces justificatives des enregistrements de conformité : détection du type MIME,
+ * empreinte SHA-256 et contrôle d'intégrité au téléchargement
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import { storage, type EvidenceAttachmentWithArticle } from '../storage';
+import { evidenceStorage, type IEvidenceStorage } from './evidenceStorage';
+import { ValidationError } from '../errors/SecurityErrors';
+import { createServiceLogger } from '../utils/logger';
+import type { EvidenceAttachment } from '@shared/schema';
+
+const logger = createServiceLogger('EvidenceService');
+
+export const MAX_EVIDENCE_SIZE_BYTES = 25 * 1024 * 1024;
+
+// Signatures binaires des formats acceptés
+const MAGIC_NUMBERS: Array<{ mimeType: string; signature: number[]; offset?: number }> = [
+  { mimeType: 'application/pdf', signature: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { mimeType: 'image/png', signature: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', signature: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', signature: [0x47, 0x49, 0x46, 0x38] }, // GIF8
+  { mimeType: 'image/webp', signature: [0x57, 0x45, 0x42, 0x50], offset: 8 }, // RIFF....WEBP
+  { mimeType: 'application/zip', signature: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: 'application/x-ole-storage', signature: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+];
+
+// Formats refusés quelle que soit l'extension (exécutables)
+const REJECTED_SIGNATURES: number[][] = [
+  [0x4d, 0x5a], // MZ (PE)
+  [0x7f, 0x45, 0x4c, 0x46], // ELF
+  [0xcf, 0xfa, 0xed, 0xfe], // Mach-O
+];
+
+const OFFICE_ZIP_TYPES: Array<{ marker: string; mimeType: string }> = [
+  { marker: 'word/', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  { marker: 'xl/', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  { marker: 'ppt/', mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation' },
+];
+
+const OLE_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.doc': 'application/msword',
+  '.xls': 'application/vnd.ms-excel',
+  '.ppt': 'application/vnd.ms-powerpoint',
+};
+
+const TEXT_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.md': 'text/markdown',
+  '.xml': 'application/xml',
+};
+
+export interface UploadEvidenceParams {
+  organizationId: string;
+  uploadedBy: string;
+  aiSystemId: string;
+  complianceRecordId?: string;
+  articleId?: string;
+  description?: string;
+  fileName: string;
+  declaredMimeType?: string;
+  content: Buffer;
+}
+
+export class EvidenceIntegrityError extends Error {
+  constructor(public attachmentId: string) {
+    super('Evidence file does not match its recorded SHA-256 hash');
+    this.name = 'EvidenceIntegrityError';
+  }
+}
+
+export class EvidenceService {
+  constructor(private readonly fileStorage: IEvidenceStorage = evidenceStorage) {}
+
+  /**
+   * Détermine le type MIME à partir du contenu, jamais du type déclaré par le client
+   */
+  sniffMimeType(content: Buffer, fileName: string): string | null {
+    const extension = path.extname(fileName).toLowerCase();
+
+    if (REJECTED_SIGNATURES.some(signature => this.matches(content, signature))) {
+      return null;
+    }
+
+    const match = MAGIC_NUMBERS.find(({ signature, offset }) => this.matches(content, signature, offset));
+    if (match) {
+      if (match.mimeType === 'application/zip') {
+        const head = content.subarray(0, 4096).toString('latin1');
+        const office = OFFICE_ZIP_TYPES.find(type => head.includes(type.marker));
+        return office ? office.mimeType : 'application/zip';
+      }
+      if (match.mimeType === 'application/x-ole-storage') {
+        return OLE_TYPES_BY_EXTENSION[extension] || null;
+      }
+      if (match.mimeType === 'image/webp' && !this.matches(content, [0x52, 0x49, 0x46, 0x46])) {
+        return null;
+      }
+      return match.mimeType;
+    }
+
+    if (this.isText(content)) {
+      const text = content.toString('utf8').trim();
+      if ((text.startsWith('{') || text.startsWith('[')) && this.isJson(text)) {
+        return 'application/json';
+      }
+      return TEXT_TYPES_BY_EXTENSION[extension] || 'text/plain';
+    }
+
+    return null;
+  }
+
+  computeSha256(content: Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  async upload(params: UploadEvidenceParams): Promise<EvidenceAttachment> {
+    if (params.content.length === 0) {
+      throw new ValidationError('Evidence file is empty');
+    }
+    if (params.content.length > MAX_EVIDENCE_SIZE_BYTES) {
+      throw new ValidationError('Evidence file exceeds the maximum size of 25 MB');
+    }
+
+    const mimeType = this.sniffMimeType(params.content, params.fileName);
+    if (!mimeType) {
+      throw new ValidationError('Unsupported evidence file type');
+    }
+
+    const sha256 = this.computeSha256(params.content);
+    const storageKey = `${params.organizationId}/${params.aiSystemId}/${crypto.randomUUID()}`;
+
+    await this.fileStorage.save(storageKey, params.content);
+
+    try {
+      const attachment = await storage.createEvidenceAttachment({
+        organizationId: params.organizationId,
+        aiSystemId: params.aiSystemId,
+        complianceRecordId: params.complianceRecordId,
+        articleId: params.articleId,
+        uploadedBy: params.uploadedBy,
+        fileName: path.basename(params.fileName),
+        storageKey,
+        mimeType,
+        declaredMimeType: params.declaredMimeType,
+        sizeBytes: params.content.length,
+        sha256,
+        description: params.description,
+      });
+
+      logger.info('Evidence uploaded', {
+        attachmentId: attachment.id,
+        aiSystemId: params.aiSystemId,
+        mimeType,
+        sizeBytes: params.content.length,
+      });
+
+      return attachment;
+    } catch (error) {
+      // Pas de fichier orphelin si l'enregistrement échoue
+      await this.fileStorage.delete(storageKey);
+      throw error;
+    }
+  }
+
+  /**
+   * Lit le fichier et vérifie qu'il correspond toujours à l'empreinte enregistrée
+   */
+  async readVerified(attachment: EvidenceAttachment): Promise<Buffer> {
+    const content = await this.fileStorage.read(attachment.storageKey);
+    if (this.computeSha256(content) !== attachment.sha256) {
+      logger.error('Evidence integrity check failed', undefined, { attachmentId: attachment.id });
+      throw new EvidenceIntegrityError(attachment.id);
+    }
+    return content;
+  }
+
+  async getBySystem(aiSystemId: string): Promise<EvidenceAttachmentWithArticle[]> {
+    return storage.getEvidenceBySystem(aiSystemId);
+  }
+
+  async getByComplianceRecord(complianceRecordId: string): Promise<EvidenceAttachmentWithArticle[]> {
+    return storage.getEvidenceByComplianceRecord(complianceRecordId);
+  }
+
+  async delete(attachment: EvidenceAttachment): Promise<void> {
+    await storage.deleteEvidenceAttachment(attachment.id);
+    await this.fileStorage.delete(attachment.storageKey);
+    logger.info('Evidence deleted', { attachmentId: attachment.id });
+  }
+
+  private matches(content: Buffer, signature: number[], offset: number = 0): boolean {
+    if (content.length < offset + signature.length) {
+      return false;
+    }
+    return signature.every((byte, index) => content[offset + index] === byte);
+  }
+
+  private isText(content: Buffer): boolean {
+    const sample = content.subarray(0, 8192);
+    if (sample.includes(0x00)) {
+      return false;
+    }
+    // Rejette les séquences UTF-8 invalides ; la coupure de l'échantillon peut tronquer le dernier caractère
+    const decoded = sample.toString('utf8');
+    const checked = content.length > sample.length ? decoded.slice(0, -1) : decoded;
+    return !checked.includes('\uFFFD');
+  }
+
+  private isJson(text: string): boolean {
+    try {
+      JSON.parse(text);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export const evidenceService = new EvidenceService();
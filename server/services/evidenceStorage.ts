@@ -0,0 +1,49 @@
+/**
+ * Evidence Storage
+ * Backend de stockage des fichiers de preuves (disque local par défaut)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface IEvidenceStorage {
+  save(key: string, content: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Stockage sur disque local, sous EVIDENCE_STORAGE_DIR (./uploads/evidence par défaut)
+ */
+export class LocalDiskEvidenceStorage implements IEvidenceStorage {
+  private readonly baseDir: string;
+
+  constructor(baseDir: string = process.env.EVIDENCE_STORAGE_DIR || path.join(process.cwd(), 'uploads', 'evidence')) {
+    this.baseDir = path.resolve(baseDir);
+  }
+
+  async save(key: string, content: Buffer): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // wx : ne jamais écraser une preuve existante
+    await fs.writeFile(filePath, content, { flag: 'wx' });
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolveKey(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolveKey(key), { force: true });
+  }
+
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.baseDir, key);
+    if (!filePath.startsWith(this.baseDir + path.sep)) {
+      throw new Error(`Invalid evidence storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+export const evidenceStorage: IEvidenceStorage = new LocalDiskEvidenceStorage();
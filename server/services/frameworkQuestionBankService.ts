@@ -0,0 +1,283 @@
+/**
+ * Framework Question Bank Service
+ * Banque de questions du référentiel Positive AI administrée en base : rédaction, pondération et activation
+ * des questions dans une version brouillon, puis publication. Une version publiée n'est plus modifiable,
+ * de sorte que les évaluations calculées avec elle restent reproductibles.
+ */
+
+import { storage } from '../storage';
+import { ValidationError } from '../errors/SecurityErrors';
+import { createServiceLogger } from '../utils/logger';
+import {
+  DEFAULT_FRAMEWORK_OPTIONS,
+  DEFAULT_FRAMEWORK_QUESTIONS,
+  FRAMEWORK_STRATEGIES,
+  INITIAL_FRAMEWORK_VERSION,
+  type FrameworkStrategyDefinition,
+} from '../data/frameworkQuestionBank';
+import {
+  aiFrameworkDimensionEnum,
+  createFrameworkVersionSchema,
+  frameworkQuestionInputSchema,
+  updateFrameworkQuestionSchema,
+  type FrameworkDimensionId,
+  type FrameworkQuestion,
+  type FrameworkStrategyKey,
+  type FrameworkVersion,
+} from '@shared/schema';
+
+const logger = createServiceLogger('FrameworkQuestionBankService');
+
+export interface FrameworkQuestionnaireStrategy extends FrameworkStrategyDefinition {
+  questions: FrameworkQuestion[];
+}
+
+export interface FrameworkQuestionnaireDimension {
+  id: FrameworkDimensionId;
+  strategies: FrameworkQuestionnaireStrategy[];
+}
+
+export interface FrameworkQuestionnaire {
+  version: string;
+  dimensions: FrameworkQuestionnaireDimension[];
+}
+
+export type FrameworkVersionSummary = FrameworkVersion & { questionCount: number; activeQuestionCount: number };
+
+export interface FrameworkVersionDetail {
+  version: FrameworkVersion;
+  questions: FrameworkQuestion[];
+  strategies: Record<FrameworkDimensionId, FrameworkStrategyDefinition[]>;
+}
+
+export class FrameworkVersionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Framework version ${id} not found`);
+    this.name = 'FrameworkVersionNotFoundError';
+  }
+}
+
+export class FrameworkQuestionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Framework question ${id} not found`);
+    this.name = 'FrameworkQuestionNotFoundError';
+  }
+}
+
+export class FrameworkQuestionBankService {
+  /**
+   * Enregistre la version initiale à partir des questions par défaut si la banque est vide
+   */
+  async ensureDefaultVersion(): Promise<void> {
+    const versions = await storage.getFrameworkVersions();
+    if (versions.length > 0) {
+      return;
+    }
+
+    const positions = new Map<FrameworkDimensionId, number>();
+    await storage.createFrameworkVersion(
+      {
+        version: INITIAL_FRAMEWORK_VERSION,
+        status: 'published',
+        description: 'Version initiale du référentiel Positive AI',
+        publishedAt: new Date(),
+      },
+      DEFAULT_FRAMEWORK_QUESTIONS.map(question => {
+        const position = positions.get(question.dimension) ?? 0;
+        positions.set(question.dimension, position + 1);
+        return { ...question, strategy: this.getStrategy(question.dimension, question.strategyKey).name, position };
+      })
+    );
+    logger.info('Default framework version created', { version: INITIAL_FRAMEWORK_VERSION, questions: DEFAULT_FRAMEWORK_QUESTIONS.length });
+  }
+
+  /**
+   * Version utilisée pour évaluer : la version demandée si elle a été publiée (éventuellement archivée depuis),
+   * sinon la version publiée en cours
+   */
+  async resolveVersion(version?: string | null): Promise<FrameworkVersion> {
+    if (version) {
+      const requested = await storage.getFrameworkVersionByNumber(version);
+      if (!requested) {
+        throw new ValidationError(`Unknown framework version ${version}`);
+      }
+      if (requested.status === 'draft') {
+        throw new ValidationError(`Framework version ${version} has not been published`);
+      }
+      return requested;
+    }
+
+    const published = await storage.getPublishedFrameworkVersion();
+    if (!published) {
+      throw new FrameworkVersionNotFoundError('published');
+    }
+    return published;
+  }
+
+  /**
+   * Questions actives d'une version publiée, regroupées par dimension et par stratégie
+   */
+  async getQuestionnaire(version?: string | null): Promise<FrameworkQuestionnaire> {
+    const resolved = await this.resolveVersion(version);
+    const questions = (await storage.getFrameworkQuestions(resolved.version))
+      .filter(question => question.isActive)
+      .map(question => ({ ...question, options: question.options || DEFAULT_FRAMEWORK_OPTIONS }));
+
+    const dimensions = aiFrameworkDimensionEnum.enumValues.map(dimension => ({
+      id: dimension,
+      strategies: FRAMEWORK_STRATEGIES[dimension]
+        .map(strategy => ({ ...strategy, questions: questions.filter(question => question.strategyKey === strategy.key) }))
+        .filter(strategy => strategy.questions.length > 0),
+    }));
+    return { version: resolved.version, dimensions };
+  }
+
+  async listVersions(): Promise<FrameworkVersionSummary[]> {
+    const versions = await storage.getFrameworkVersions();
+    return Promise.all(versions.map(async version => {
+      const questions = await storage.getFrameworkQuestions(version.version);
+      return {
+        ...version,
+        questionCount: questions.length,
+        activeQuestionCount: questions.filter(question => question.isActive).length,
+      };
+    }));
+  }
+
+  async getVersionDetail(id: string): Promise<FrameworkVersionDetail> {
+    const version = await this.getVersion(id);
+    const questions = await storage.getFrameworkQuestions(version.version);
+    return { version, questions, strategies: FRAMEWORK_STRATEGIES };
+  }
+
+  /**
+   * Crée une version brouillon à partir des questions de la version publiée ; une seule version
+   * peut être en cours de rédaction
+   */
+  async createVersion(input: unknown, userId: string): Promise<FrameworkVersion> {
+    const data = createFrameworkVersionSchema.parse(input);
+    const versions = await storage.getFrameworkVersions();
+    if (versions.some(version => version.status === 'draft')) {
+      throw new ValidationError('A draft framework version already exists');
+    }
+    if (versions.some(version => version.version === data.version)) {
+      throw new ValidationError(`Framework version ${data.version} already exists`);
+    }
+
+    const published = versions.find(version => version.status === 'published');
+    const questions = published ? await storage.getFrameworkQuestions(published.version) : [];
+    const created = await storage.createFrameworkVersion(
+      {
+        version: data.version,
+        description: data.description ?? null,
+        basedOn: published?.version ?? null,
+        createdBy: userId,
+      },
+      questions.map(({ id, frameworkVersion, createdAt, updatedAt, ...question }) => question)
+    );
+    logger.info('Framework version drafted', { version: created.version, basedOn: created.basedOn, questions: questions.length });
+    return created;
+  }
+
+  /**
+   * Publie le brouillon, qui devient la version utilisée par les évaluations ; la version publiée
+   * précédente est archivée
+   */
+  async publishVersion(id: string, userId: string): Promise<FrameworkVersion> {
+    const version = await this.getDraftVersion(id);
+    const questions = (await storage.getFrameworkQuestions(version.version)).filter(question => question.isActive);
+    const uncovered = aiFrameworkDimensionEnum.enumValues.filter(dimension => !questions.some(question => question.dimension === dimension));
+    if (uncovered.length > 0) {
+      throw new ValidationError(`Every dimension needs at least one active question: ${uncovered.join(', ')}`);
+    }
+
+    const published = await storage.publishFrameworkVersion(id, userId);
+    logger.info('Framework version published', { version: published.version, publishedBy: userId });
+    return published;
+  }
+
+  async deleteVersion(id: string): Promise<void> {
+    const version = await this.getDraftVersion(id);
+    await storage.deleteFrameworkVersion(id);
+    logger.info('Framework version draft deleted', { version: version.version });
+  }
+
+  async createQuestion(versionId: string, input: unknown): Promise<FrameworkQuestion> {
+    const version = await this.getDraftVersion(versionId);
+    const data = frameworkQuestionInputSchema.parse(input);
+    const questions = await storage.getFrameworkQuestions(version.version);
+    if (questions.some(question => question.questionId === data.questionId)) {
+      throw new ValidationError(`Question ${data.questionId} already exists in version ${version.version}`);
+    }
+
+    const sameDimension = questions.filter(question => question.dimension === data.dimension);
+    return storage.createFrameworkQuestion({
+      ...data,
+      strategy: this.getStrategy(data.dimension, data.strategyKey).name,
+      position: sameDimension.length > 0 ? Math.max(...sameDimension.map(question => question.position)) + 1 : 0,
+      frameworkVersion: version.version,
+    });
+  }
+
+  async updateQuestion(id: string, input: unknown): Promise<FrameworkQuestion> {
+    const { question, version } = await this.getEditableQuestion(id);
+    const data = updateFrameworkQuestionSchema.parse(input);
+
+    if (data.questionId && data.questionId !== question.questionId) {
+      const questions = await storage.getFrameworkQuestions(version.version);
+      if (questions.some(other => other.questionId === data.questionId)) {
+        throw new ValidationError(`Question ${data.questionId} already exists in version ${version.version}`);
+      }
+    }
+
+    const dimension = data.dimension ?? question.dimension;
+    const strategyKey = data.strategyKey ?? question.strategyKey;
+    return storage.updateFrameworkQuestion(id, {
+      ...data,
+      strategy: this.getStrategy(dimension, strategyKey).name,
+    });
+  }
+
+  async deleteQuestion(id: string): Promise<void> {
+    await this.getEditableQuestion(id);
+    await storage.deleteFrameworkQuestion(id);
+  }
+
+  private getStrategy(dimension: FrameworkDimensionId, strategyKey: FrameworkStrategyKey): FrameworkStrategyDefinition {
+    const strategy = FRAMEWORK_STRATEGIES[dimension].find(candidate => candidate.key === strategyKey);
+    if (!strategy) {
+      throw new ValidationError(`Strategy ${strategyKey} does not belong to dimension ${dimension}`);
+    }
+    return strategy;
+  }
+
+  private async getVersion(id: string): Promise<FrameworkVersion> {
+    const version = await storage.getFrameworkVersion(id);
+    if (!version) {
+      throw new FrameworkVersionNotFoundError(id);
+    }
+    return version;
+  }
+
+  private async getDraftVersion(id: string): Promise<FrameworkVersion> {
+    const version = await this.getVersion(id);
+    if (version.status !== 'draft') {
+      throw new ValidationError(`Framework version ${version.version} is ${version.status} and can no longer be modified`);
+    }
+    return version;
+  }
+
+  private async getEditableQuestion(id: string): Promise<{ question: FrameworkQuestion; version: FrameworkVersion }> {
+    const question = await storage.getFrameworkQuestion(id);
+    if (!question) {
+      throw new FrameworkQuestionNotFoundError(id);
+    }
+    const version = await storage.getFrameworkVersionByNumber(question.frameworkVersion);
+    if (!version) {
+      throw new FrameworkVersionNotFoundError(question.frameworkVersion);
+    }
+    return { question, version: await this.getDraftVersion(version.id) };
+  }
+}
+
+export const frameworkQuestionBankService = new FrameworkQuestionBankService();
@@ -0,0 +1,213 @@
+/**
+ * GPAI Model Service
+ * Registre des modèles d'IA à usage général entraînés ou affinés par l'organisation (Art. 51-55) :
+ * classification du risque systémique (présomption au-delà de 10^25 FLOPs ou désignation par la Commission),
+ * liste de contrôle des obligations des articles 53 et 55 et liens vers les systèmes IA construits sur les modèles
+ */
+
+import { storage } from '../storage';
+import { organizationService, type OrganizationContext } from './organizationService';
+import { ValidationError } from '../errors/SecurityErrors';
+import { createServiceLogger } from '../utils/logger';
+import { GPAI_OBLIGATIONS } from '../data/gpaiObligations';
+import {
+  GPAI_SYSTEMIC_RISK_FLOP_THRESHOLD,
+  createGpaiModelSchema,
+  updateGpaiModelSchema,
+  updateGpaiObligationSchema,
+  type AiSystem,
+  type GpaiModel,
+  type GpaiSystemicRiskBasis,
+  type InsertGpaiModel,
+} from '@shared/schema';
+
+const logger = createServiceLogger('GpaiModelService');
+
+export interface GpaiObligationStatus {
+  id: string;
+  articleNumber: string;
+  title: string;
+  description: string;
+  applicable: boolean;
+  exemptionReason: string | null;
+  completed: boolean;
+}
+
+export interface GpaiModelDetails extends GpaiModel {
+  aiSystems: Pick<AiSystem, 'id' | 'name' | 'riskLevel'>[]; // Systèmes de l'organisation construits sur le modèle
+  obligations: GpaiObligationStatus[];
+}
+
+export class GpaiModelNotFoundError extends Error {
+  constructor(id: string) {
+    super(`GPAI model ${id} not found`);
+    this.name = 'GpaiModelNotFoundError';
+  }
+}
+
+export class GpaiModelService {
+  /**
+   * Risque systémique : désignation par la Commission (Art. 52(4)) ou présomption
+   * de capacités à fort impact au-delà du seuil de calcul d'entraînement (Art. 51(2))
+   */
+  classify(model: Pick<GpaiModel, 'trainingComputeFlops' | 'commissionDesignated'>): {
+    systemicRisk: boolean;
+    systemicRiskBasis: GpaiSystemicRiskBasis | null;
+  } {
+    if (model.commissionDesignated) {
+      return { systemicRisk: true, systemicRiskBasis: 'commission_designation' };
+    }
+    if (model.trainingComputeFlops !== null && model.trainingComputeFlops !== undefined &&
+        model.trainingComputeFlops > GPAI_SYSTEMIC_RISK_FLOP_THRESHOLD) {
+      return { systemicRisk: true, systemicRiskBasis: 'compute_threshold' };
+    }
+    return { systemicRisk: false, systemicRiskBasis: null };
+  }
+
+  /**
+   * Liste de contrôle des articles 53 et 55 ; les obligations non applicables restent listées avec leur motif
+   */
+  getObligations(model: Pick<GpaiModel, 'systemicRisk' | 'systemicRiskBasis' | 'isOpenWeight' | 'completedObligations'>): GpaiObligationStatus[] {
+    return GPAI_OBLIGATIONS.map(obligation => {
+      let exemptionReason: string | null = null;
+      if (obligation.scope !== 'all' && !model.systemicRisk) {
+        exemptionReason = 'Réservée aux modèles présentant un risque systémique';
+      } else if (obligation.scope === 'compute_threshold' && model.systemicRiskBasis !== 'compute_threshold') {
+        exemptionReason = 'Modèle désigné par la Commission';
+      } else if (obligation.openWeightExempt && model.isOpenWeight && !model.systemicRisk) {
+        exemptionReason = 'Exemption des modèles publiés sous licence libre et ouverte (Art. 53(2))';
+      }
+
+      return {
+        id: obligation.id,
+        articleNumber: obligation.articleNumber,
+        title: obligation.title,
+        description: obligation.description,
+        applicable: exemptionReason === null,
+        exemptionReason,
+        completed: model.completedObligations.includes(obligation.id),
+      };
+    });
+  }
+
+  async listModels(organizationId: string): Promise<GpaiModelDetails[]> {
+    const [models, systems] = await Promise.all([
+      storage.getGpaiModelsByOrganization(organizationId),
+      storage.getAiSystemsByOrganization(organizationId),
+    ]);
+    return models.map(model => this.withDetails(model, systems));
+  }
+
+  async getModelDetails(context: OrganizationContext, id: string): Promise<GpaiModelDetails> {
+    const model = await this.getModel(context, id);
+    const systems = await storage.getAiSystemsByOrganization(context.organizationId);
+    return this.withDetails(model, systems);
+  }
+
+  async createModel(context: OrganizationContext, input: unknown): Promise<GpaiModelDetails> {
+    const { aiSystemIds, ...data } = createGpaiModelSchema.parse(input);
+    const linkedSystemIds = aiSystemIds ? await this.validateSystems(context, aiSystemIds) : [];
+
+    const model = await storage.createGpaiModel({
+      ...data,
+      ...this.classify({ trainingComputeFlops: data.trainingComputeFlops ?? null, commissionDesignated: data.commissionDesignated }),
+      organizationId: context.organizationId,
+      createdBy: context.userId,
+    });
+    if (linkedSystemIds.length > 0) {
+      await storage.setGpaiModelSystems(model.id, linkedSystemIds);
+    }
+
+    logger.info('GPAI model registered', { gpaiModelId: model.id, organizationId: context.organizationId, systemicRisk: model.systemicRisk });
+    return this.getModelDetails(context, model.id);
+  }
+
+  /**
+   * Met à jour le modèle et recalcule sa classification ; `aiSystemIds` remplace la liste des systèmes liés
+   */
+  async updateModel(context: OrganizationContext, id: string, input: unknown): Promise<GpaiModelDetails> {
+    const model = await this.getModel(context, id);
+    const { aiSystemIds, ...updates } = updateGpaiModelSchema.parse(input);
+    const linkedSystemIds = aiSystemIds ? await this.validateSystems(context, aiSystemIds) : null;
+
+    const changes: Partial<InsertGpaiModel> = {
+      ...updates,
+      ...this.classify({
+        trainingComputeFlops: updates.trainingComputeFlops !== undefined ? updates.trainingComputeFlops : model.trainingComputeFlops,
+        commissionDesignated: updates.commissionDesignated ?? model.commissionDesignated,
+      }),
+    };
+    const updated = await storage.updateGpaiModel(id, changes);
+    if (linkedSystemIds) {
+      await storage.setGpaiModelSystems(id, linkedSystemIds);
+    }
+
+    if (updated.systemicRisk !== model.systemicRisk) {
+      logger.info('GPAI model systemic risk classification changed', { gpaiModelId: id, systemicRisk: updated.systemicRisk, basis: updated.systemicRiskBasis });
+    }
+    return this.getModelDetails(context, id);
+  }
+
+  async deleteModel(context: OrganizationContext, id: string): Promise<void> {
+    await this.getModel(context, id);
+    await storage.deleteGpaiModel(id);
+    logger.info('GPAI model deleted', { gpaiModelId: id, organizationId: context.organizationId, userId: context.userId });
+  }
+
+  /**
+   * Coche ou décoche une obligation applicable de la liste de contrôle
+   */
+  async setObligationStatus(context: OrganizationContext, id: string, obligationId: string, input: unknown): Promise<GpaiModelDetails> {
+    const model = await this.getModel(context, id);
+    const { completed } = updateGpaiObligationSchema.parse(input);
+
+    const obligation = this.getObligations(model).find(candidate => candidate.id === obligationId);
+    if (!obligation) {
+      throw new ValidationError(`Unknown obligation: ${obligationId}`);
+    }
+    if (!obligation.applicable) {
+      throw new ValidationError(`Obligation ${obligationId} does not apply to this model`);
+    }
+
+    const completedObligations = model.completedObligations.filter(current => current !== obligationId);
+    if (completed) {
+      completedObligations.push(obligationId);
+    }
+    await storage.updateGpaiModel(id, { completedObligations });
+    return this.getModelDetails(context, id);
+  }
+
+  private withDetails(model: GpaiModel, systems: AiSystem[]): GpaiModelDetails {
+    return {
+      ...model,
+      aiSystems: systems
+        .filter(system => system.gpaiModelId === model.id)
+        .map(system => ({ id: system.id, name: system.name, riskLevel: system.riskLevel })),
+      obligations: this.getObligations(model),
+    };
+  }
+
+  private async getModel(context: OrganizationContext, id: string): Promise<GpaiModel> {
+    const model = await storage.getGpaiModel(id);
+    if (!model || model.organizationId !== context.organizationId) {
+      throw new GpaiModelNotFoundError(id);
+    }
+    return model;
+  }
+
+  /**
+   * Les systèmes liés doivent appartenir à l'organisation
+   */
+  private async validateSystems(context: OrganizationContext, aiSystemIds: string[]): Promise<string[]> {
+    const ids = Array.from(new Set(aiSystemIds));
+    for (const aiSystemId of ids) {
+      const system = await storage.getAiSystem(aiSystemId);
+      if (!organizationService.canAccessRecord(context, system)) {
+        throw new ValidationError(`AI system ${aiSystemId} not found in this organization`);
+      }
+    }
+    return ids;
+  }
+}
+
+export const gpaiModelService = new GpaiModelService();
@@ -0,0 +1,334 @@
+/**
+ * High-Risk Classification Service
+ * Classification explicable des systèmes IA au regard de l'article 6 : voie des produits de l'Annexe I,
+ * arbre de décision des huit domaines de l'Annexe III et dérogation documentée de l'article 6(3),
+ * exportable pour l'enregistrement dans la base de données de l'UE (Art. 49)
+ */
+
+import { storage } from '../storage';
+import { organizationService, type OrganizationContext } from './organizationService';
+import { AiSystemNotFoundError } from './systemVersionService';
+import { ValidationError } from '../errors/SecurityErrors';
+import { createServiceLogger } from '../utils/logger';
+import {
+  ANNEX_I_ROUTE,
+  ANNEX_III_AREAS,
+  DEROGATION_CONDITIONS,
+  NO_SIGNIFICANT_RISK_QUESTION,
+  PROFILING_QUESTION,
+  type AnnexIIIArea,
+  type ClassificationQuestion,
+} from '../data/highRiskClassification';
+import {
+  classifyHighRiskSchema,
+  type AiSystem,
+  type HighRiskClassification,
+  type HighRiskClassificationOutcome,
+  type HighRiskClassificationTraceEntry,
+  type HighRiskClassificationTraceStep,
+} from '@shared/schema';
+
+const logger = createServiceLogger('HighRiskClassificationService');
+
+const ALL_QUESTIONS: ClassificationQuestion[] = [
+  ...ANNEX_I_ROUTE,
+  ...ANNEX_III_AREAS.flatMap(area => [{ id: area.id, reference: area.reference, text: area.question }, ...area.points]),
+  PROFILING_QUESTION,
+  NO_SIGNIFICANT_RISK_QUESTION,
+  ...DEROGATION_CONDITIONS,
+];
+
+export interface HighRiskQuestionnaire {
+  annexI: ClassificationQuestion[];
+  annexIII: AnnexIIIArea[];
+  profiling: ClassificationQuestion;
+  noSignificantRisk: ClassificationQuestion;
+  derogationConditions: ClassificationQuestion[];
+}
+
+export interface HighRiskEvaluation {
+  outcome: HighRiskClassificationOutcome;
+  annexIiiPoints: string[];
+  profiling: boolean | null;
+  derogationConditions: string[];
+  derogationJustification: string | null;
+  trace: HighRiskClassificationTraceEntry[];
+}
+
+export interface HighRiskRegistrationExport {
+  regulation: string;
+  registrationBasis: string | null; // null : système non soumis à enregistrement au titre de l'article 49(1) ou (2)
+  provider: { name: string | null };
+  system: {
+    id: string;
+    externalId: string | null;
+    name: string;
+    intendedPurpose: string | null;
+    version: number;
+  };
+  classification: {
+    outcome: HighRiskClassificationOutcome;
+    classifiedAt: string;
+    annexIiiPoints: ClassificationQuestion[];
+    profiling: boolean | null;
+    derogation: { conditions: ClassificationQuestion[]; justification: string } | null;
+  };
+  trace: HighRiskClassificationTraceEntry[];
+  exportedAt: string;
+}
+
+export class HighRiskClassificationNotFoundError extends Error {
+  constructor(aiSystemId: string) {
+    super(`No high-risk classification for AI system ${aiSystemId}`);
+    this.name = 'HighRiskClassificationNotFoundError';
+  }
+}
+
+export class HighRiskClassificationService {
+  getQuestionnaire(): HighRiskQuestionnaire {
+    return {
+      annexI: ANNEX_I_ROUTE,
+      annexIII: ANNEX_III_AREAS,
+      profiling: PROFILING_QUESTION,
+      noSignificantRisk: NO_SIGNIFICANT_RISK_QUESTION,
+      derogationConditions: DEROGATION_CONDITIONS,
+    };
+  }
+
+  /**
+   * Parcourt l'arbre de décision : chaque conclusion conserve les questions et réponses qui y ont mené.
+   * La dérogation de l'article 6(3) n'est examinée que pour un système relevant de l'Annexe III sans relever
+   * de l'Annexe I ; une question de dérogation sans réponse vaut « non ».
+   */
+  evaluate(answers: Record<string, boolean>, derogationJustification?: string | null): HighRiskEvaluation {
+    const knownQuestions = new Set(ALL_QUESTIONS.map(question => question.id));
+    const unknown = Object.keys(answers).filter(questionId => !knownQuestions.has(questionId));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown classification questions: ${unknown.join(', ')}`);
+    }
+
+    const missing: string[] = [];
+    const trace: HighRiskClassificationTraceEntry[] = [this.evaluateAnnexI(answers, missing)];
+    const annexIiiPoints: string[] = [];
+    for (const area of ANNEX_III_AREAS) {
+      const entry = this.evaluateArea(area, answers, missing);
+      annexIiiPoints.push(...entry.steps.filter(step => step.questionId !== area.id && step.answer).map(step => step.questionId));
+      trace.push(entry);
+    }
+
+    const annexI = trace[0].applies;
+    let profiling: boolean | null = null;
+    let derogationConditions: string[] = [];
+    let derogation = false;
+    if (annexIiiPoints.length > 0 && !annexI) {
+      profiling = answers[PROFILING_QUESTION.id] ?? null;
+      if (profiling === null) {
+        missing.push(PROFILING_QUESTION.id);
+      } else {
+        const entry = this.evaluateDerogation(answers, profiling);
+        derogation = entry.applies;
+        derogationConditions = derogation
+          ? DEROGATION_CONDITIONS.filter(condition => answers[condition.id] === true).map(condition => condition.id)
+          : [];
+        trace.push(entry);
+      }
+    }
+
+    if (missing.length > 0) {
+      throw new ValidationError(`Missing answers: ${missing.join(', ')}`);
+    }
+    if (derogation && !derogationJustification) {
+      throw new ValidationError('A documented justification is required for the Art. 6(3) derogation (Art. 6(4))');
+    }
+
+    let outcome: HighRiskClassificationOutcome = 'not_high_risk';
+    if (annexI) {
+      outcome = 'high_risk_annex_i';
+    } else if (annexIiiPoints.length > 0) {
+      outcome = derogation ? 'derogation' : 'high_risk_annex_iii';
+    }
+    return {
+      outcome,
+      annexIiiPoints,
+      profiling,
+      derogationConditions,
+      derogationJustification: derogation ? derogationJustification! : null,
+      trace,
+    };
+  }
+
+  async listClassifications(context: OrganizationContext, aiSystemId: string): Promise<HighRiskClassification[]> {
+    await this.getSystem(context, aiSystemId);
+    return storage.getHighRiskClassifications(aiSystemId);
+  }
+
+  /**
+   * Enregistre la classification ; un système à haut risque passe au niveau de risque « haut »,
+   * sauf s'il relève déjà d'une pratique interdite
+   */
+  async classifySystem(context: OrganizationContext, aiSystemId: string, input: unknown): Promise<{ system: AiSystem; classification: HighRiskClassification }> {
+    let system = await this.getSystem(context, aiSystemId);
+    const { answers, derogationJustification } = classifyHighRiskSchema.parse(input);
+    const evaluation = this.evaluate(answers, derogationJustification);
+
+    const classification = await storage.createHighRiskClassification({
+      aiSystemId,
+      organizationId: context.organizationId,
+      answers,
+      ...evaluation,
+      classifiedBy: context.userId,
+    });
+    if (this.isHighRisk(evaluation.outcome) && system.riskLevel !== 'high' && system.riskLevel !== 'unacceptable') {
+      system = await storage.updateAiSystem(aiSystemId, { riskLevel: 'high' });
+    }
+
+    logger.info('High-risk classification recorded', {
+      aiSystemId,
+      organizationId: context.organizationId,
+      outcome: evaluation.outcome,
+      annexIiiPoints: evaluation.annexIiiPoints,
+    });
+    return { system, classification };
+  }
+
+  /**
+   * Données d'enregistrement de la dernière classification : Annexe VIII, section A pour un système à haut risque
+   * (Art. 49(1)), section B pour un système de l'Annexe III considéré comme n'étant pas à haut risque (Art. 49(2))
+   */
+  async exportRegistration(context: OrganizationContext, aiSystemId: string): Promise<HighRiskRegistrationExport> {
+    const system = await this.getSystem(context, aiSystemId);
+    const [latest] = await storage.getHighRiskClassifications(aiSystemId);
+    if (!latest) {
+      throw new HighRiskClassificationNotFoundError(aiSystemId);
+    }
+    const organization = system.organizationId ? await storage.getOrganization(system.organizationId) : undefined;
+
+    // Les systèmes de l'Annexe I suivent leur législation sectorielle ; ceux du point 2 de l'Annexe III sont enregistrés au niveau national
+    const registrationBasis: Record<HighRiskClassificationOutcome, string | null> = {
+      high_risk_annex_i: null,
+      high_risk_annex_iii: latest.annexIiiPoints.every(point => point === 'annex3_2_safety_component')
+        ? 'Art. 49(5) — enregistrement au niveau national'
+        : 'Art. 49(1) — Annexe VIII, section A',
+      derogation: 'Art. 49(2) — Annexe VIII, section B',
+      not_high_risk: null,
+    };
+    const questions = (ids: string[]) => ALL_QUESTIONS.filter(question => ids.includes(question.id));
+
+    return {
+      regulation: 'Règlement (UE) 2024/1689',
+      registrationBasis: registrationBasis[latest.outcome],
+      provider: { name: organization?.name || null },
+      system: {
+        id: system.id,
+        externalId: system.externalId,
+        name: system.name,
+        intendedPurpose: system.description,
+        version: system.currentVersion,
+      },
+      classification: {
+        outcome: latest.outcome,
+        classifiedAt: new Date(latest.createdAt || Date.now()).toISOString(),
+        annexIiiPoints: questions(latest.annexIiiPoints),
+        profiling: latest.profiling,
+        derogation: latest.outcome === 'derogation'
+          ? { conditions: questions(latest.derogationConditions), justification: latest.derogationJustification || '' }
+          : null,
+      },
+      trace: latest.trace,
+      exportedAt: new Date().toISOString(),
+    };
+  }
+
+  isHighRisk(outcome: HighRiskClassificationOutcome): boolean {
+    return outcome === 'high_risk_annex_i' || outcome === 'high_risk_annex_iii';
+  }
+
+  private evaluateAnnexI(answers: Record<string, boolean>, missing: string[]): HighRiskClassificationTraceEntry {
+    const steps: HighRiskClassificationTraceStep[] = [];
+    const entry = (applies: boolean, conclusion: string): HighRiskClassificationTraceEntry =>
+      ({ ruleId: 'annex_i', reference: 'Art. 6(1) et Annexe I', applies, steps, conclusion });
+
+    for (const question of ANNEX_I_ROUTE) {
+      const answer = answers[question.id];
+      if (answer === undefined) {
+        missing.push(question.id);
+        return entry(false, `Examen incomplet (${question.reference})`);
+      }
+      steps.push({ questionId: question.id, reference: question.reference, answer });
+      if (!answer) {
+        return entry(false, `Condition de l'${question.reference} non remplie : le système ne relève pas de l'Annexe I`);
+      }
+    }
+    return entry(true, "Haut risque au titre de l'Art. 6(1) : produit ou composant de sécurité de l'Annexe I soumis à une évaluation par un tiers");
+  }
+
+  private evaluateArea(area: AnnexIIIArea, answers: Record<string, boolean>, missing: string[]): HighRiskClassificationTraceEntry {
+    const steps: HighRiskClassificationTraceStep[] = [];
+    const entry = (applies: boolean, conclusion: string): HighRiskClassificationTraceEntry =>
+      ({ ruleId: area.id, reference: area.reference, applies, steps, conclusion });
+
+    const inArea = answers[area.id];
+    if (inArea === undefined) {
+      missing.push(area.id);
+      return entry(false, `Examen incomplet (${area.reference})`);
+    }
+    steps.push({ questionId: area.id, reference: area.reference, answer: inArea });
+    if (!inArea) {
+      return entry(false, `Domaine non concerné (${area.reference} — ${area.title})`);
+    }
+
+    const applicable: string[] = [];
+    for (const point of area.points) {
+      const answer = answers[point.id];
+      if (answer === undefined) {
+        missing.push(point.id);
+        continue;
+      }
+      steps.push({ questionId: point.id, reference: point.reference, answer });
+      if (answer) {
+        applicable.push(point.reference);
+      }
+    }
+    return applicable.length > 0
+      ? entry(true, `Cas d'utilisation à haut risque (Art. 6(2)) : ${applicable.join(', ')}`)
+      : entry(false, `Aucun cas d'utilisation de l'${area.reference} (${area.title})`);
+  }
+
+  private evaluateDerogation(answers: Record<string, boolean>, profiling: boolean): HighRiskClassificationTraceEntry {
+    const steps: HighRiskClassificationTraceStep[] = [{ questionId: PROFILING_QUESTION.id, reference: PROFILING_QUESTION.reference, answer: profiling }];
+    const entry = (applies: boolean, conclusion: string): HighRiskClassificationTraceEntry =>
+      ({ ruleId: 'art6_3', reference: 'Art. 6(3)', applies, steps, conclusion });
+
+    if (profiling) {
+      return entry(false, "Profilage de personnes physiques : la dérogation de l'Art. 6(3) est exclue, le système reste à haut risque");
+    }
+
+    const noSignificantRisk = answers[NO_SIGNIFICANT_RISK_QUESTION.id] ?? null;
+    steps.push({ questionId: NO_SIGNIFICANT_RISK_QUESTION.id, reference: NO_SIGNIFICANT_RISK_QUESTION.reference, answer: noSignificantRisk });
+    if (noSignificantRisk !== true) {
+      return entry(false, "Risque important de préjudice non écarté : la dérogation de l'Art. 6(3) ne s'applique pas");
+    }
+
+    const met: string[] = [];
+    for (const condition of DEROGATION_CONDITIONS) {
+      const answer = answers[condition.id] ?? null;
+      steps.push({ questionId: condition.id, reference: condition.reference, answer });
+      if (answer === true) {
+        met.push(condition.reference);
+      }
+    }
+    return met.length > 0
+      ? entry(true, `Dérogation de l'Art. 6(3) applicable (${met.join(', ')}) : le système n'est pas considéré comme à haut risque, sous réserve de la documentation de l'Art. 6(4) et de l'enregistrement de l'Art. 49(2)`)
+      : entry(false, "Aucune condition de l'Art. 6(3)(a) à (d) remplie : la dérogation ne s'applique pas");
+  }
+
+  private async getSystem(context: OrganizationContext, id: string): Promise<AiSystem> {
+    const system = await storage.getAiSystem(id);
+    if (!system || !organizationService.canAccessRecord(context, system)) {
+      throw new AiSystemNotFoundError(id);
+    }
+    return system;
+  }
+}
+
+export const highRiskClassificationService = new HighRiskClassificationService();
@@ -0,0 +1,452 @@
+/**
+ * Inventory Service
+ * Import et export en masse de l'inventaire des systèmes IA (CSV et XLSX) : rapport de validation
+ * ligne par ligne (simulation), mise à jour des systèmes existants par identifiant externe
+ * et pré-classification déterministe du risque
+ */
+
+import ExcelJS from 'exceljs';
+import { storage } from '../storage';
+import { type OrganizationContext } from './organizationService';
+import { systemVersionService } from './systemVersionService';
+import { assessmentService, type EUAiActInput } from './assessmentService';
+import { ValidationError } from '../errors/SecurityErrors';
+import { createServiceLogger } from '../utils/logger';
+import { parseCsv, toCsv } from '../utils/csv';
+import {
+  RISK_DRIVING_ANSWERS,
+  aiSystemInventoryRowSchema,
+  insertAiSystemSchema,
+  type AiSystem,
+  type AiSystemInventoryRow,
+  type InsertAiSystem,
+} from '@shared/schema';
+
+const logger = createServiceLogger('InventoryService');
+
+export const MAX_INVENTORY_FILE_SIZE_BYTES = 5 * 1024 * 1024;
+const MAX_INVENTORY_ROWS = 2000;
+const LIST_SEPARATOR = ';';
+
+type InventoryColumnKind = 'text' | 'enum' | 'list' | 'answer' | 'answer_list' | 'readonly';
+
+// Colonnes de l'inventaire, dans l'ordre de l'export ; les colonnes en lecture seule sont ignorées à l'import
+const INVENTORY_COLUMNS: { key: string; kind: InventoryColumnKind }[] = [
+  { key: 'externalId', kind: 'text' },
+  { key: 'name', kind: 'text' },
+  { key: 'description', kind: 'text' },
+  { key: 'sector', kind: 'enum' },
+  { key: 'primaryUseCase', kind: 'enum' },
+  { key: 'modelDetails', kind: 'text' },
+  { key: 'dataDetails', kind: 'text' },
+  { key: 'operatorRoles', kind: 'list' },
+  { key: 'providerTrigger', kind: 'enum' },
+  ...RISK_DRIVING_ANSWERS.map(answer => ({
+    key: answer,
+    kind: (answer === 'userCategories' ? 'answer_list' : 'answer') as InventoryColumnKind,
+  })),
+  { key: 'riskLevel', kind: 'readonly' },
+  { key: 'status', kind: 'readonly' },
+  { key: 'complianceScore', kind: 'readonly' },
+  { key: 'lastAssessed', kind: 'readonly' },
+  { key: 'currentVersion', kind: 'readonly' },
+];
+
+// Réponses retenues pour la pré-classification lorsqu'une colonne est absente ou vide
+const NEUTRAL_RISK_ANSWERS: Omit<EUAiActInput, 'systemName' | 'sector' | 'applicationDomain'> = {
+  userCategories: [],
+  geographicalScope: 'local',
+  sensitiveData: 'no',
+  discriminationRisk: 'low',
+  userInformed: 'full',
+  explainabilityLevel: 'high',
+  humanOversight: 'full',
+  overrideCapability: 'yes',
+  autonomyLevel: 'low',
+  safetyImpact: 'minimal',
+  decisionConsequences: 'advisory',
+};
+
+export type InventoryFileFormat = 'csv' | 'xlsx';
+
+export interface InventoryRowError {
+  column: string;
+  message: string;
+}
+
+export interface InventoryRowReport {
+  row: number; // Numéro de ligne dans le fichier, en-tête compris
+  externalId: string | null;
+  name: string | null;
+  action: 'create' | 'update' | null; // null pour une ligne invalide
+  status: 'valid' | 'invalid' | 'created' | 'updated' | 'unchanged' | 'failed';
+  errors: InventoryRowError[];
+  aiSystemId: string | null;
+  substantialModification: boolean;
+  preClassification: {
+    riskLevel: 'minimal' | 'limited' | 'high' | 'unacceptable';
+    reasoning: string;
+    highRiskDomains: string[];
+  } | null;
+}
+
+export interface InventoryImportReport {
+  dryRun: boolean;
+  preClassify: boolean;
+  columns: string[]; // Colonnes reconnues
+  ignoredColumns: string[]; // En-têtes inconnus
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    toCreate: number;
+    toUpdate: number;
+    created: number;
+    updated: number;
+    unchanged: number;
+    failed: number;
+  };
+  rows: InventoryRowReport[];
+}
+
+export interface InventoryExport {
+  content: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+interface ParsedInventoryRow {
+  report: InventoryRowReport;
+  data: AiSystemInventoryRow | null;
+  existing: AiSystem | null;
+}
+
+export class InventoryService {
+  async importInventory(
+    context: OrganizationContext,
+    file: { buffer: Buffer; originalname: string; mimetype?: string },
+    options: { dryRun: boolean; preClassify: boolean }
+  ): Promise<InventoryImportReport> {
+    const cells = await this.readFile(file);
+    const [header = [], ...lines] = cells;
+
+    const columnIndexes = new Map<string, number>();
+    const ignoredColumns: string[] = [];
+    header.forEach((title, index) => {
+      const column = INVENTORY_COLUMNS.find(candidate => this.normalizeHeader(candidate.key) === this.normalizeHeader(title));
+      if (column && !columnIndexes.has(column.key)) {
+        columnIndexes.set(column.key, index);
+      } else if (title.trim()) {
+        ignoredColumns.push(title.trim());
+      }
+    });
+    const missing = ['externalId', 'name'].filter(key => !columnIndexes.has(key));
+    if (missing.length > 0) {
+      throw new ValidationError(`Missing required columns: ${missing.join(', ')}`);
+    }
+
+    const dataLines = lines
+      .map((line, index) => ({ line, row: index + 2 }))
+      .filter(({ line }) => line.some(cell => cell.trim() !== ''));
+    if (dataLines.length > MAX_INVENTORY_ROWS) {
+      throw new ValidationError(`The inventory cannot exceed ${MAX_INVENTORY_ROWS} rows`);
+    }
+
+    const systems = await storage.getAiSystemsByOrganization(context.organizationId);
+    const seenExternalIds = new Set<string>();
+    const parsed = dataLines.map(({ line, row }) =>
+      this.parseRow(line, row, columnIndexes, systems, seenExternalIds, options.preClassify)
+    );
+
+    if (!options.dryRun) {
+      for (const entry of parsed) {
+        if (entry.data) {
+          await this.applyRow(context, entry, options.preClassify);
+        }
+      }
+      logger.info('AI inventory imported', {
+        organizationId: context.organizationId,
+        userId: context.userId,
+        rows: parsed.length,
+        created: parsed.filter(entry => entry.report.status === 'created').length,
+        updated: parsed.filter(entry => entry.report.status === 'updated').length,
+      });
+    }
+
+    const reports = parsed.map(entry => entry.report);
+    const count = (predicate: (report: InventoryRowReport) => boolean) => reports.filter(predicate).length;
+    return {
+      dryRun: options.dryRun,
+      preClassify: options.preClassify,
+      columns: Array.from(columnIndexes.keys()),
+      ignoredColumns,
+      summary: {
+        total: reports.length,
+        valid: count(report => report.action !== null),
+        invalid: count(report => report.status === 'invalid'),
+        toCreate: count(report => report.action === 'create'),
+        toUpdate: count(report => report.action === 'update'),
+        created: count(report => report.status === 'created'),
+        updated: count(report => report.status === 'updated'),
+        unchanged: count(report => report.status === 'unchanged'),
+        failed: count(report => report.status === 'failed'),
+      },
+      rows: reports,
+    };
+  }
+
+  /**
+   * Export réimportable : mêmes colonnes que l'import, l'identifiant du système remplaçant
+   * l'identifiant externe lorsqu'il n'est pas renseigné
+   */
+  async exportInventory(organizationId: string, format: InventoryFileFormat): Promise<InventoryExport> {
+    const systems = await storage.getAiSystemsByOrganization(organizationId);
+    const rows = [
+      INVENTORY_COLUMNS.map(column => column.key),
+      ...systems.map(system => INVENTORY_COLUMNS.map(column => this.formatCell(system, column.key, column.kind))),
+    ];
+    const fileName = `inventaire-systemes-ia-${new Date().toISOString().split('T')[0]}.${format}`;
+
+    if (format === 'csv') {
+      return { content: Buffer.from(toCsv(rows), 'utf8'), contentType: 'text/csv; charset=utf-8', fileName };
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Inventaire');
+    sheet.addRows(rows);
+    sheet.getRow(1).font = { bold: true };
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+    return {
+      content: Buffer.from(await workbook.xlsx.writeBuffer()),
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      fileName,
+    };
+  }
+
+  private async readFile(file: { buffer: Buffer; originalname: string; mimetype?: string }): Promise<string[][]> {
+    const extension = file.originalname.toLowerCase().split('.').pop();
+    if (extension === 'csv' || file.mimetype === 'text/csv') {
+      return parseCsv(file.buffer.toString('utf8'));
+    }
+    if (extension !== 'xlsx') {
+      throw new ValidationError('Unsupported file format: expected .csv or .xlsx');
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    try {
+      await workbook.xlsx.load(file.buffer);
+    } catch {
+      throw new ValidationError('Unreadable XLSX file');
+    }
+    const sheet = workbook.worksheets[0];
+    if (!sheet) {
+      return [];
+    }
+
+    const rows: string[][] = [];
+    for (let rowNumber = 1; rowNumber <= sheet.rowCount; rowNumber++) {
+      const row = sheet.getRow(rowNumber);
+      const cells: string[] = [];
+      for (let columnNumber = 1; columnNumber <= sheet.columnCount; columnNumber++) {
+        cells.push(row.getCell(columnNumber).text ?? '');
+      }
+      rows.push(cells);
+    }
+    return rows;
+  }
+
+  private parseRow(
+    line: string[],
+    row: number,
+    columnIndexes: Map<string, number>,
+    systems: AiSystem[],
+    seenExternalIds: Set<string>,
+    preClassify: boolean
+  ): ParsedInventoryRow {
+    const raw: Record<string, unknown> = {};
+    const riskAnswers: Record<string, unknown> = {};
+
+    for (const column of INVENTORY_COLUMNS) {
+      const index = columnIndexes.get(column.key);
+      if (index === undefined || column.kind === 'readonly') {
+        continue;
+      }
+      const value = (line[index] ?? '').trim();
+      const list = value.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+
+      switch (column.kind) {
+        case 'text':
+          raw[column.key] = value || null;
+          break;
+        case 'enum':
+          raw[column.key] = value ? value.toLowerCase() : null;
+          break;
+        case 'list':
+          raw[column.key] = list.length > 0 ? list.map(item => item.toLowerCase()) : undefined;
+          break;
+        case 'answer':
+          if (value) {
+            riskAnswers[column.key] = column.key === 'applicationDomain' ? value : value.toLowerCase();
+          }
+          break;
+        case 'answer_list':
+          if (list.length > 0) {
+            riskAnswers[column.key] = list;
+          }
+          break;
+      }
+    }
+    if (Object.keys(riskAnswers).length > 0) {
+      raw.riskAnswers = riskAnswers;
+    }
+
+    const report: InventoryRowReport = {
+      row,
+      externalId: typeof raw.externalId === 'string' ? raw.externalId : null,
+      name: typeof raw.name === 'string' ? raw.name : null,
+      action: null,
+      status: 'invalid',
+      errors: [],
+      aiSystemId: null,
+      substantialModification: false,
+      preClassification: null,
+    };
+
+    const result = aiSystemInventoryRowSchema.safeParse(raw);
+    if (!result.success) {
+      report.errors = result.error.errors.map(issue => ({
+        column: String(issue.path[issue.path[0] === 'riskAnswers' ? 1 : 0] ?? ''),
+        message: issue.message,
+      }));
+      return { report, data: null, existing: null };
+    }
+
+    const data = result.data;
+    if (seenExternalIds.has(data.externalId)) {
+      report.errors.push({ column: 'externalId', message: 'Identifiant externe en double dans le fichier' });
+      return { report, data: null, existing: null };
+    }
+    seenExternalIds.add(data.externalId);
+
+    // Correspondance par identifiant externe, puis par identifiant du système (fichier issu d'un export)
+    const existing = systems.find(system => system.externalId === data.externalId) ||
+      systems.find(system => !system.externalId && system.id === data.externalId) ||
+      null;
+
+    report.action = existing ? 'update' : 'create';
+    report.status = 'valid';
+    report.aiSystemId = existing?.id || null;
+    if (preClassify) {
+      const classification = assessmentService.preClassify(this.toClassificationInput(data, existing));
+      report.preClassification = {
+        riskLevel: classification.riskLevel,
+        reasoning: classification.reasoning,
+        highRiskDomains: classification.highRiskDomains || [],
+      };
+    }
+    return { report, data, existing };
+  }
+
+  /**
+   * Crée ou met à jour le système ; les modifications passent par l'historique des versions
+   * (et donc par la détection des modifications substantielles)
+   */
+  private async applyRow(context: OrganizationContext, entry: ParsedInventoryRow, preClassify: boolean): Promise<void> {
+    const { report, existing } = entry;
+    const { externalId, operatorRoles, providerTrigger, riskAnswers, ...fields } = entry.data!;
+    // Le niveau pré-classifié ne remplace jamais celui d'une évaluation réalisée
+    const preClassifiedRiskLevel = preClassify && report.preClassification && !existing?.lastAssessed
+      ? report.preClassification.riskLevel
+      : undefined;
+
+    try {
+      if (!existing) {
+        const system = await storage.createAiSystem(insertAiSystemSchema.parse({
+          ...fields,
+          externalId,
+          userId: context.userId,
+          organizationId: context.organizationId,
+          assessmentData: riskAnswers || null,
+          operatorRoles,
+          providerTrigger: providerTrigger ?? null,
+          riskLevel: preClassifiedRiskLevel,
+        }));
+        await systemVersionService.recordInitial(system, context.userId);
+        report.status = 'created';
+        report.aiSystemId = system.id;
+        return;
+      }
+
+      const result = await systemVersionService.update(context, existing.id, {
+        ...fields,
+        ...(riskAnswers ? { riskAnswers } : {}),
+        changeNote: "Import de l'inventaire",
+      });
+
+      const updates: Partial<InsertAiSystem> = {};
+      if (existing.externalId !== externalId) {
+        updates.externalId = externalId;
+      }
+      if (operatorRoles && JSON.stringify(operatorRoles) !== JSON.stringify(existing.operatorRoles)) {
+        updates.operatorRoles = operatorRoles;
+      }
+      if (providerTrigger !== undefined && providerTrigger !== existing.providerTrigger) {
+        updates.providerTrigger = providerTrigger;
+      }
+      if (preClassifiedRiskLevel && preClassifiedRiskLevel !== existing.riskLevel) {
+        updates.riskLevel = preClassifiedRiskLevel;
+      }
+      if (Object.keys(updates).length > 0) {
+        await storage.updateAiSystem(existing.id, updates);
+      }
+
+      report.status = result.version || Object.keys(updates).length > 0 ? 'updated' : 'unchanged';
+      report.substantialModification = !!result.version?.isSubstantial;
+    } catch (error) {
+      logger.error('AI inventory row import failed', error as Error, { row: report.row, externalId });
+      report.status = 'failed';
+      report.errors.push({ column: '', message: (error as Error).message });
+    }
+  }
+
+  private toClassificationInput(data: AiSystemInventoryRow, existing: AiSystem | null): EUAiActInput {
+    const previousAnswers = (existing?.assessmentData as Partial<EUAiActInput>) || {};
+    const answers = { ...NEUTRAL_RISK_ANSWERS, ...previousAnswers, ...data.riskAnswers };
+    const useCase = data.primaryUseCase !== undefined ? data.primaryUseCase : existing?.primaryUseCase;
+    const sector = data.sector !== undefined ? data.sector : existing?.sector;
+
+    return {
+      ...answers,
+      systemName: data.name,
+      sector: (sector || '').replace(/_/g, ' '),
+      applicationDomain: answers.applicationDomain || (useCase || '').replace(/_/g, ' '),
+    } as EUAiActInput;
+  }
+
+  private formatCell(system: AiSystem, key: string, kind: InventoryColumnKind): string {
+    if (key === 'externalId') {
+      return system.externalId || system.id;
+    }
+    const source = kind === 'answer' || kind === 'answer_list'
+      ? ((system.assessmentData as Record<string, unknown>) || {})[key]
+      : (system as Record<string, unknown>)[key];
+
+    if (source === null || source === undefined) {
+      return '';
+    }
+    if (Array.isArray(source)) {
+      return source.join(LIST_SEPARATOR);
+    }
+    if (source instanceof Date) {
+      return source.toISOString();
+    }
+    return String(source);
+  }
+
+  // « External ID », « external_id » et « externalId » désignent la même colonne
+  private normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+}
+
+export const inventoryService = new InventoryService();
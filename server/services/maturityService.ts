@@ -1,6 +1,7 @@
 import { storage } from '../storage';
 import { llmService } from './llmService';
-import type { InsertMaturityAssessment, MaturityAssessment } from '@shared/schema';
+import { frameworkQuestionBankService } from './frameworkQuestionBankService';
+import type { AssessmentMode, InsertMaturityAssessment, MaturityAssessment } from '@shared/schema';
 
 // Positive AI Framework v3.0 - 7 Dimensions Organizational Maturity
 export interface MaturityDimension {
@@ -18,6 +19,7 @@ export interface MaturityQuestion {
   category: string;
   question: string;
   options: MaturityOption[];
+  weight: number; // Weight of the question within its dimension
 }
 
 export interface MaturityOption {
@@ -29,6 +31,7 @@ export interface MaturityOption {
 export interface MaturityFormData {
   organizationName: string;
   responses: Record<string, number>; // questionId -> selected value
+  frameworkVersion?: string; // Question bank version the answers refer to, defaults to the published one
 }
 
 export interface MaturityAssessmentResult {
@@ -48,288 +51,19 @@ export interface MaturityAssessmentResult {
     timeline: string;
     resources: string[];
   }[];
+  frameworkVersion: string;
 }
 
 export class MaturityService {
-  // Define the Positive AI Framework maturity domains
-  private maturityFramework: MaturityDomain[] = [
-    {
-      name: 'justice_fairness',
-      description: 'Justice et équité',
-      weight: 0.15,
-      questions: [
-        {
-          id: 'justice_bias_detection',
-          category: 'justice_fairness',
-          question: 'Comment votre organisation détecte-t-elle les biais dans ses systèmes IA ?',
-          options: [
-            { value: 1, label: 'Aucune détection', description: 'Pas de processus de détection des biais' },
-            { value: 2, label: 'Détection basique', description: 'Tests ponctuels de biais' },
-            { value: 3, label: 'Détection systématique', description: 'Processus formalisé de détection' },
-            { value: 4, label: 'Détection continue', description: 'Monitoring permanent des biais' },
-            { value: 5, label: 'Prévention proactive', description: 'Système de prévention avancée des biais' },
-          ]
-        },
-        {
-          id: 'justice_protected_groups',
-          category: 'justice_fairness',
-          question: 'Comment protégez-vous les groupes vulnérables dans vos systèmes IA ?',
-          options: [
-            { value: 1, label: 'Aucune protection', description: 'Groupes vulnérables non considérés' },
-            { value: 2, label: 'Sensibilisation basique', description: 'Conscience des enjeux de protection' },
-            { value: 3, label: 'Mesures définies', description: 'Politiques de protection formalisées' },
-            { value: 4, label: 'Protection active', description: 'Mécanismes de protection implémentés' },
-            { value: 5, label: 'Inclusion optimale', description: 'Excellence en protection et inclusion' },
-          ]
-        },
-        {
-          id: 'justice_inclusive_teams',
-          category: 'justice_fairness',
-          question: 'Vos équipes de développement IA sont-elles diversifiées et inclusives ?',
-          options: [
-            { value: 1, label: 'Pas de diversité', description: 'Équipes homogènes' },
-            { value: 2, label: 'Diversité limitée', description: 'Quelques efforts de diversification' },
-            { value: 3, label: 'Diversité structurée', description: 'Politiques de diversité définies' },
-            { value: 4, label: 'Inclusion active', description: 'Culture inclusive établie' },
-            { value: 5, label: 'Excellence inclusive', description: 'Modèle de référence en diversité' },
-          ]
-        }
-      ]
-    },
-    {
-      name: 'transparency_explainability',
-      description: 'Transparence et explicabilité',
-      weight: 0.15,
-      questions: [
-        {
-          id: 'transparency_decision_process',
-          category: 'transparency_explainability',
-          question: 'Dans quelle mesure vos systèmes IA peuvent-ils expliquer leurs décisions ?',
-          options: [
-            { value: 1, label: 'Boîte noire', description: 'Aucune explication des décisions IA' },
-            { value: 2, label: 'Transparence limitée', description: 'Informations de base sur le fonctionnement' },
-            { value: 3, label: 'Explicabilité technique', description: 'Explications pour les experts techniques' },
-            { value: 4, label: 'Explicabilité métier', description: 'Explications adaptées aux utilisateurs métier' },
-            { value: 5, label: 'Transparence totale', description: 'Explications claires pour tous les publics' },
-          ]
-        },
-        {
-          id: 'transparency_data_source',
-          category: 'transparency_explainability',
-          question: 'Votre organisation documente-t-elle les sources et traitements des données ?',
-          options: [
-            { value: 1, label: 'Non documenté', description: 'Pas de traçabilité des données' },
-            { value: 2, label: 'Documentation basique', description: 'Informations minimales sur les sources' },
-            { value: 3, label: 'Documentation structurée', description: 'Traçabilité formalisée des données' },
-            { value: 4, label: 'Transparence active', description: 'Documentation accessible aux parties prenantes' },
-            { value: 5, label: 'Audit complet', description: 'Traçabilité complète et auditabilité' },
-          ]
-        },
-        {
-          id: 'transparency_algorithmic_impact',
-          category: 'transparency_explainability',
-          question: 'Comment communiquez-vous l\'impact algorithmique aux utilisateurs ?',
-          options: [
-            { value: 1, label: 'Aucune communication', description: 'Utilisateurs non informés de l\'usage IA' },
-            { value: 2, label: 'Information minimale', description: 'Mention de l\'usage de l\'IA' },
-            { value: 3, label: 'Communication structurée', description: 'Explication du rôle de l\'IA' },
-            { value: 4, label: 'Transparence proactive', description: 'Communication détaillée des impacts' },
-            { value: 5, label: 'Co-construction', description: 'Dialogue continu sur l\'usage de l\'IA' },
-          ]
-        }
-      ]
-    },
-    {
-      name: 'human_ai_interaction',
-      description: 'Interaction humaine et IA',
-      weight: 0.15,
-      questions: [
-        {
-          id: 'human_ai_collaboration',
-          category: 'human_ai_interaction',
-          question: 'Comment vos systèmes IA sont-ils conçus pour collaborer avec les humains ?',
-          options: [
-            { value: 1, label: 'Remplacement total', description: 'IA remplace complètement l\'humain' },
-            { value: 2, label: 'Supervision minimale', description: 'Humain valide les décisions IA' },
-            { value: 3, label: 'Collaboration définie', description: 'Répartition claire des rôles humain-IA' },
-            { value: 4, label: 'Collaboration adaptative', description: 'Ajustement dynamique des interactions' },
-            { value: 5, label: 'Symbiose optimale', description: 'Complémentarité parfaite humain-IA' },
-          ]
-        },
-        {
-          id: 'human_ai_control',
-          category: 'human_ai_interaction',
-          question: 'Les utilisateurs peuvent-ils exercer un contrôle significatif sur les systèmes IA ?',
-          options: [
-            { value: 1, label: 'Aucun contrôle', description: 'Système entièrement automatisé' },
-            { value: 2, label: 'Contrôle limité', description: 'Paramètres basiques modifiables' },
-            { value: 3, label: 'Contrôle structuré', description: 'Options de configuration définies' },
-            { value: 4, label: 'Contrôle adaptatif', description: 'Personnalisation avancée possible' },
-            { value: 5, label: 'Contrôle total', description: 'Utilisateur maître de toutes les décisions' },
-          ]
-        },
-        {
-          id: 'human_ai_training',
-          category: 'human_ai_interaction',
-          question: 'Comment formez-vous les utilisateurs à travailler avec l\'IA ?',
-          options: [
-            { value: 1, label: 'Aucune formation', description: 'Utilisateurs livrés à eux-mêmes' },
-            { value: 2, label: 'Formation basique', description: 'Instructions minimales d\'utilisation' },
-            { value: 3, label: 'Formation structurée', description: 'Programme de formation défini' },
-            { value: 4, label: 'Formation continue', description: 'Mise à jour régulière des compétences' },
-            { value: 5, label: 'Expertise développée', description: 'Utilisateurs experts en collaboration IA' },
-          ]
-        }
-      ]
-    },
-    {
-      name: 'social_environmental_impact',
-      description: 'Impact social et environnemental',
-      weight: 0.10,
-      questions: [
-        {
-          id: 'social_impact_assessment',
-          category: 'social_environmental_impact',
-          question: 'Votre organisation évalue-t-elle l\'impact social de ses systèmes IA ?',
-          options: [
-            { value: 1, label: 'Aucune évaluation', description: 'Impact social non considéré' },
-            { value: 2, label: 'Évaluation ponctuelle', description: 'Analyses ad-hoc sur demande' },
-            { value: 3, label: 'Évaluation systématique', description: 'Processus formalisé d\'évaluation' },
-            { value: 4, label: 'Suivi continu', description: 'Monitoring des impacts sociaux' },
-            { value: 5, label: 'Optimisation sociale', description: 'IA conçue pour maximiser l\'impact positif' },
-          ]
-        },
-        {
-          id: 'environmental_sustainability',
-          category: 'social_environmental_impact',
-          question: 'Comment gérez-vous l\'empreinte environnementale de vos systèmes IA ?',
-          options: [
-            { value: 1, label: 'Non considérée', description: 'Empreinte environnementale ignorée' },
-            { value: 2, label: 'Sensibilisation basique', description: 'Conscience des enjeux environnementaux' },
-            { value: 3, label: 'Mesure établie', description: 'Quantification de l\'empreinte carbone' },
-            { value: 4, label: 'Réduction active', description: 'Stratégies de réduction de l\'impact' },
-            { value: 5, label: 'Neutralité carbone', description: 'IA neutre ou positive pour l\'environnement' },
-          ]
-        }
-      ]
-    },
-    {
-      name: 'responsibility',
-      description: 'Responsabilité',
-      weight: 0.15,
-      questions: [
-        {
-          id: 'responsibility_accountability',
-          category: 'responsibility',
-          question: 'Comment est organisée la responsabilité des décisions IA dans votre organisation ?',
-          options: [
-            { value: 1, label: 'Responsabilité floue', description: 'Pas de responsable identifié' },
-            { value: 2, label: 'Responsabilité technique', description: 'Équipes techniques responsables' },
-            { value: 3, label: 'Responsabilité métier', description: 'Propriétaires métier responsables' },
-            { value: 4, label: 'Responsabilité partagée', description: 'Modèle de responsabilité claire' },
-            { value: 5, label: 'Responsabilité totale', description: 'Chaîne complète de responsabilité' },
-          ]
-        },
-        {
-          id: 'responsibility_redress',
-          category: 'responsibility',
-          question: 'Existe-t-il des mécanismes de recours en cas d\'erreur IA ?',
-          options: [
-            { value: 1, label: 'Aucun recours', description: 'Pas de possibilité de contester' },
-            { value: 2, label: 'Recours limité', description: 'Processus informel de plainte' },
-            { value: 3, label: 'Recours structuré', description: 'Processus formalisé de recours' },
-            { value: 4, label: 'Recours efficace', description: 'Mécanismes rapides et effectifs' },
-            { value: 5, label: 'Justice algorithmique', description: 'Système complet de recours et réparation' },
-          ]
-        }
-      ]
-    },
-    {
-      name: 'data_privacy',
-      description: 'Données et vie privée',
-      weight: 0.15,
-      questions: [
-        {
-          id: 'data_privacy_protection',
-          category: 'data_privacy',
-          question: 'Comment votre organisation protège-t-elle la vie privée dans ses systèmes IA ?',
-          options: [
-            { value: 1, label: 'Protection minimale', description: 'Peu d\'attention à la vie privée' },
-            { value: 2, label: 'Conformité basique', description: 'Respect des exigences légales minimales' },
-            { value: 3, label: 'Protection structurée', description: 'Processus formalisés de protection' },
-            { value: 4, label: 'Privacy by design', description: 'Vie privée intégrée dès la conception' },
-            { value: 5, label: 'Excellence privacy', description: 'Leadership en protection de la vie privée' },
-          ]
-        },
-        {
-          id: 'data_governance',
-          category: 'data_privacy',
-          question: 'Existe-t-il une gouvernance claire des données pour l\'IA ?',
-          options: [
-            { value: 1, label: 'Gouvernance inexistante', description: 'Pas de règles sur les données' },
-            { value: 2, label: 'Règles basiques', description: 'Politiques minimales de données' },
-            { value: 3, label: 'Gouvernance formalisée', description: 'Cadre de gouvernance établi' },
-            { value: 4, label: 'Gouvernance mature', description: 'Contrôles et audits réguliers' },
-            { value: 5, label: 'Gouvernance exemplaire', description: 'Modèle de référence en gouvernance' },
-          ]
-        },
-        {
-          id: 'data_consent_rights',
-          category: 'data_privacy',
-          question: 'Comment gérez-vous les droits des personnes sur leurs données ?',
-          options: [
-            { value: 1, label: 'Droits ignorés', description: 'Pas de gestion des droits individuels' },
-            { value: 2, label: 'Conformité minimale', description: 'Respect basique du RGPD/CCPA' },
-            { value: 3, label: 'Gestion structurée', description: 'Processus clairs pour les droits' },
-            { value: 4, label: 'Facilitation active', description: 'Outils simples pour exercer les droits' },
-            { value: 5, label: 'Empowerment total', description: 'Contrôle complet des individus sur leurs données' },
-          ]
-        }
-      ]
-    },
-    {
-      name: 'technical_robustness_security',
-      description: 'Robustesse technique et sécurité',
-      weight: 0.15,
-      questions: [
-        {
-          id: 'technical_reliability',
-          category: 'technical_robustness_security',
-          question: 'Quelle est la fiabilité technique de vos systèmes IA ?',
-          options: [
-            { value: 1, label: 'Fiabilité faible', description: 'Systèmes instables et peu fiables' },
-            { value: 2, label: 'Fiabilité basique', description: 'Fonctionnement correct dans conditions normales' },
-            { value: 3, label: 'Fiabilité éprouvée', description: 'Tests systématiques et monitoring' },
-            { value: 4, label: 'Haute fiabilité', description: 'Systèmes robustes et résilients' },
-            { value: 5, label: 'Fiabilité critique', description: 'Standards de fiabilité maximaux' },
-          ]
-        },
-        {
-          id: 'security_measures',
-          category: 'technical_robustness_security',
-          question: 'Comment sécurisez-vous vos systèmes IA contre les attaques ?',
-          options: [
-            { value: 1, label: 'Sécurité minimale', description: 'Peu de mesures de sécurité IA' },
-            { value: 2, label: 'Sécurité basique', description: 'Mesures de sécurité standards' },
-            { value: 3, label: 'Sécurité renforcée', description: 'Sécurité spécifique aux systèmes IA' },
-            { value: 4, label: 'Sécurité avancée', description: 'Protection contre attaques adversaires' },
-            { value: 5, label: 'Sécurité militaire', description: 'Niveau de sécurité maximal' },
-          ]
-        },
-        {
-          id: 'testing_validation',
-          category: 'technical_robustness_security',
-          question: 'Comment testez-vous et validez-vous vos systèmes IA ?',
-          options: [
-            { value: 1, label: 'Tests limités', description: 'Tests minimaux avant déploiement' },
-            { value: 2, label: 'Tests standards', description: 'Tests fonctionnels de base' },
-            { value: 3, label: 'Tests complets', description: 'Suite complète de tests automatisés' },
-            { value: 4, label: 'Validation continue', description: 'Monitoring et validation en continu' },
-            { value: 5, label: 'Validation formelle', description: 'Méthodes formelles de validation' },
-          ]
-        }
-      ]
-    }
+  // Positive AI Framework dimensions and their weight in the overall score; questions come from the question bank
+  private maturityDimensions: Omit<MaturityDimension, 'questions'>[] = [
+    { name: 'justice_fairness', description: 'Justice et équité', weight: 0.15 },
+    { name: 'transparency_explainability', description: 'Transparence et explicabilité', weight: 0.15 },
+    { name: 'human_ai_interaction', description: 'Interaction humaine et IA', weight: 0.15 },
+    { name: 'social_environmental_impact', description: 'Impact social et environnemental', weight: 0.10 },
+    { name: 'responsibility', description: 'Responsabilité', weight: 0.15 },
+    { name: 'data_privacy', description: 'Données et vie privée', weight: 0.15 },
+    { name: 'technical_robustness_security', description: 'Robustesse technique et sécurité', weight: 0.15 },
   ];
 
   constructor() {
@@ -348,7 +82,7 @@ export class MaturityService {
       'technical_robustness_security'
     ];
     
-    const actualDimensions = this.maturityFramework.map(d => d.name);
+    const actualDimensions = this.maturityDimensions.map(d => d.name);
     const missingDimensions = expectedDimensions.filter(dim => !actualDimensions.includes(dim));
     
     if (missingDimensions.length > 0) {
@@ -360,7 +94,7 @@ export class MaturityService {
     }
 
     // Validate weights sum to 1.0 (within tolerance for floating point)
-    const totalWeight = this.maturityFramework.reduce((sum, domain) => sum + domain.weight, 0);
+    const totalWeight = this.maturityDimensions.reduce((sum, domain) => sum + domain.weight, 0);
     const tolerance = 0.0001;
     
     if (Math.abs(totalWeight - 1.0) > tolerance) {
@@ -376,26 +110,29 @@ export class MaturityService {
 
   async assessOrganizationalMaturity(
     formData: MaturityFormData,
-    userId: string
+    userId: string,
+    mode: AssessmentMode = 'llm_enriched'
   ): Promise<MaturityAssessmentResult> {
+    const { version, domains } = await this.loadFramework(formData.frameworkVersion);
+
     // Calculate domain scores
     const domainScores: Record<string, any> = {};
     let totalWeightedScore = 0;
 
-    for (const domain of this.maturityFramework) {
+    for (const domain of domains) {
       const domainQuestions = domain.questions;
       let domainTotal = 0;
-      let questionCount = 0;
+      let answeredWeight = 0;
 
       for (const question of domainQuestions) {
         const response = formData.responses[question.id];
         if (response) {
-          domainTotal += response;
-          questionCount++;
+          domainTotal += response * question.weight;
+          answeredWeight += question.weight;
         }
       }
 
-      const domainAverage = questionCount > 0 ? domainTotal / questionCount : 1;
+      const domainAverage = answeredWeight > 0 ? domainTotal / answeredWeight : 1;
       const domainScore = Math.round((domainAverage - 1) * 25); // Convert 1-5 scale to 0-100
 
       domainScores[domain.name] = {
@@ -413,12 +150,10 @@ export class MaturityService {
     const overallScore = Math.max(0, Math.min(100, Math.round(rawScore)));
     const overallMaturity = this.getMaturityLevelFromScore(overallScore);
 
-    // Generate AI-powered recommendations
-    const recommendations = await this.generateRecommendations(
-      domainScores,
-      overallScore,
-      userId
-    );
+    // Rule-based recommendations in deterministic mode, AI-powered otherwise (with the same fallback)
+    const recommendations = mode === 'deterministic'
+      ? this.getFallbackRecommendations(overallScore)
+      : await this.generateRecommendations(domainScores, overallScore, userId);
 
     // Create action plan
     const actionPlan = this.createActionPlan(domainScores);
@@ -429,6 +164,7 @@ export class MaturityService {
       domainScores,
       recommendations,
       actionPlan,
+      frameworkVersion: version,
     };
   }
 
@@ -446,14 +182,36 @@ export class MaturityService {
       recommendations: result.recommendations,
       actionPlan: result.actionPlan,
       overallScore: result.overallScore,
+      frameworkVersion: result.frameworkVersion,
     };
 
     const saved = await storage.createMaturityAssessment(assessment);
     return { assessmentId: saved.id };
   }
 
-  getMaturityFramework(): MaturityDomain[] {
-    return this.maturityFramework;
+  async getMaturityFramework(version?: string): Promise<MaturityDomain[]> {
+    return (await this.loadFramework(version)).domains;
+  }
+
+  /**
+   * Construit les domaines de maturité à partir des questions actives de la version de la banque
+   */
+  private async loadFramework(version?: string): Promise<{ version: string; domains: MaturityDomain[] }> {
+    const questionnaire = await frameworkQuestionBankService.getQuestionnaire(version);
+    const domains = this.maturityDimensions.map(dimension => ({
+      ...dimension,
+      questions: (questionnaire.dimensions.find(candidate => candidate.id === dimension.name)?.strategies || [])
+        .flatMap(strategy => strategy.questions)
+        .sort((a, b) => a.position - b.position)
+        .map(question => ({
+          id: question.questionId,
+          category: question.dimension,
+          question: question.question,
+          options: question.options!,
+          weight: question.weight ?? 10,
+        })),
+    }));
+    return { version: questionnaire.version, domains };
   }
 
   private getMaturityLevel(score: number): string {
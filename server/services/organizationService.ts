@@ -0,0 +1,207 @@
+import { storage, type OrganizationMembershipWithOrganization, type OrganizationMemberWithUser } from '../storage';
+import { ROLE_PERMISSIONS, roleHasPermission, type Permission } from '../config/permissions';
+import { AuthorizationError, ValidationError } from '../errors/SecurityErrors';
+import { createServiceLogger } from '../utils/logger';
+import type {
+  AssessmentMode,
+  Organization,
+  OrganizationMembership,
+  OrganizationRole,
+  SafeUser,
+} from '@shared/schema';
+
+const logger = createServiceLogger('OrganizationService');
+
+export interface OrganizationContext {
+  organizationId: string;
+  userId: string;
+  role: OrganizationRole;
+  permissions: Permission[];
+}
+
+/**
+ * Any record that belongs to an organization portfolio.
+ * Legacy rows created before organizations existed only carry a userId.
+ */
+export interface OrganizationScopedRecord {
+  userId: string;
+  organizationId?: string | null;
+}
+
+/**
+ * OrganizationService - Organizations, memberships and permission checks
+ */
+export class OrganizationService {
+  /**
+   * List the organizations the user belongs to, creating a personal
+   * organization on first access for accounts that predate organizations.
+   */
+  async getUserOrganizations(user: Pick<SafeUser, 'id' | 'email' | 'firstName' | 'lastName'>): Promise<OrganizationMembershipWithOrganization[]> {
+    const memberships = await storage.getOrganizationMembershipsByUser(user.id);
+    if (memberships.length > 0) {
+      return memberships;
+    }
+
+    await this.createPersonalOrganization(user);
+    return storage.getOrganizationMembershipsByUser(user.id);
+  }
+
+  /**
+   * Resolve the organization a request acts on and the caller's role in it.
+   * Without an explicit organization, the user's oldest membership is used.
+   */
+  async resolveContext(
+    user: Pick<SafeUser, 'id' | 'email' | 'firstName' | 'lastName'>,
+    requestedOrganizationId?: string
+  ): Promise<OrganizationContext> {
+    const memberships = await this.getUserOrganizations(user);
+
+    const membership = requestedOrganizationId
+      ? memberships.find(m => m.organizationId === requestedOrganizationId)
+      : memberships[0];
+
+    if (!membership) {
+      throw new AuthorizationError('You are not a member of this organization', 'NOT_ORGANIZATION_MEMBER');
+    }
+
+    return {
+      organizationId: membership.organizationId,
+      userId: user.id,
+      role: membership.role,
+      permissions: ROLE_PERMISSIONS[membership.role],
+    };
+  }
+
+  /**
+   * Throw unless the context grants the permission
+   */
+  assertPermission(context: OrganizationContext, permission: Permission): void {
+    if (!roleHasPermission(context.role, permission)) {
+      throw new AuthorizationError(`Permission "${permission}" required`, 'PERMISSION_DENIED');
+    }
+  }
+
+  /**
+   * Check that a record belongs to the organization of the current context
+   */
+  canAccessRecord(context: OrganizationContext, record: OrganizationScopedRecord | undefined | null): boolean {
+    if (!record) {
+      return false;
+    }
+    if (record.organizationId) {
+      return record.organizationId === context.organizationId;
+    }
+    return record.userId === context.userId;
+  }
+
+  async createOrganization(name: string, ownerId: string): Promise<Organization> {
+    const organization = await storage.createOrganization({ name, createdBy: ownerId });
+    await storage.createOrganizationMembership({
+      organizationId: organization.id,
+      userId: ownerId,
+      role: 'owner',
+    });
+
+    logger.info('Organization created', { organizationId: organization.id, ownerId });
+    return organization;
+  }
+
+  /**
+   * Assessment mode of the organization: deterministic organizations never call an LLM
+   */
+  async getAssessmentMode(organizationId: string): Promise<AssessmentMode> {
+    const organization = await storage.getOrganization(organizationId);
+    if (!organization) {
+      throw new ValidationError('Organization not found');
+    }
+    return organization.assessmentMode;
+  }
+
+  async updateAssessmentMode(organizationId: string, assessmentMode: AssessmentMode): Promise<Organization> {
+    const organization = await storage.updateOrganization(organizationId, { assessmentMode });
+    logger.info('Organization assessment mode updated', { organizationId, assessmentMode });
+    return organization;
+  }
+
+  async getMembers(organizationId: string): Promise<OrganizationMemberWithUser[]> {
+    return storage.getOrganizationMembers(organizationId);
+  }
+
+  async addMember(
+    organizationId: string,
+    email: string,
+    role: OrganizationRole,
+    invitedBy: string
+  ): Promise<OrganizationMembership> {
+    const user = await storage.getUserByEmail(email.toLowerCase().trim());
+    if (!user) {
+      throw new ValidationError('No account exists for this email address');
+    }
+
+    const existing = await storage.getOrganizationMembership(organizationId, user.id);
+    if (existing) {
+      throw new ValidationError('User is already a member of this organization');
+    }
+
+    const membership = await storage.createOrganizationMembership({
+      organizationId,
+      userId: user.id,
+      role,
+      invitedBy,
+    });
+
+    logger.info('Organization member added', { organizationId, userId: user.id, role, invitedBy });
+    return membership;
+  }
+
+  async updateMemberRole(
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole
+  ): Promise<OrganizationMembership> {
+    const membership = await storage.getOrganizationMembership(organizationId, userId);
+    if (!membership) {
+      throw new ValidationError('Member not found');
+    }
+
+    if (membership.role === 'owner' && role !== 'owner') {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    return storage.updateOrganizationMembershipRole(organizationId, userId, role);
+  }
+
+  async removeMember(organizationId: string, userId: string): Promise<void> {
+    const membership = await storage.getOrganizationMembership(organizationId, userId);
+    if (!membership) {
+      throw new ValidationError('Member not found');
+    }
+
+    if (membership.role === 'owner') {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    await storage.deleteOrganizationMembership(organizationId, userId);
+    logger.info('Organization member removed', { organizationId, userId });
+  }
+
+  private async assertNotLastOwner(organizationId: string): Promise<void> {
+    const members = await storage.getOrganizationMembers(organizationId);
+    const owners = members.filter(m => m.role === 'owner');
+    if (owners.length <= 1) {
+      throw new ValidationError('An organization must keep at least one owner');
+    }
+  }
+
+  private async createPersonalOrganization(user: Pick<SafeUser, 'id' | 'email' | 'firstName' | 'lastName'>): Promise<Organization> {
+    const displayName = [user.firstName, user.lastName].filter(Boolean).join(' ').trim();
+    const organization = await this.createOrganization(displayName || user.email, user.id);
+
+    // Rattacher les données créées avant l'introduction des organisations
+    await storage.assignUserRecordsToOrganization(user.id, organization.id);
+
+    return organization;
+  }
+}
+
+export const organizationService = new OrganizationService();
@@ -0,0 +1,131 @@
+/**
+ * Personal Access Token Service
+ * Jetons personnels des clients agents / IDE du serveur MCP de l'assistant :
+ * rattachés à un utilisateur et une organisation, limités à des scopes, stockés hachés
+ */
+
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { organizationService, type OrganizationContext } from './organizationService';
+import { roleHasPermission } from '../config/permissions';
+import { AuthenticationError, AuthorizationError } from '../errors/SecurityErrors';
+import { createServiceLogger } from '../utils/logger';
+import {
+  createPersonalAccessTokenSchema,
+  type PersonalAccessToken,
+  type PersonalAccessTokenScope,
+  type User,
+} from '@shared/schema';
+
+const logger = createServiceLogger('PersonalAccessTokenService');
+
+const TOKEN_PREFIX = 'aian_pat_';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PublicPersonalAccessToken = Omit<PersonalAccessToken, 'tokenHash'>;
+
+export interface PersonalAccessTokenSession {
+  token: PublicPersonalAccessToken;
+  user: Pick<User, 'id' | 'email' | 'firstName' | 'lastName'>;
+  organizationContext: OrganizationContext;
+  // Scopes du jeton encore accordés par le rôle actuel dans l'organisation
+  scopes: PersonalAccessTokenScope[];
+}
+
+export class PersonalAccessTokenService {
+  /**
+   * Crée un jeton pour l'organisation du contexte ; la valeur en clair n'est renvoyée qu'une fois
+   */
+  async createToken(context: OrganizationContext, input: unknown): Promise<{ token: string; record: PublicPersonalAccessToken }> {
+    const data = createPersonalAccessTokenSchema.parse(input);
+
+    const missing = data.scopes.filter(scope => !roleHasPermission(context.role, scope));
+    if (missing.length > 0) {
+      throw new AuthorizationError(`Your role does not grant: ${missing.join(', ')}`, 'PERMISSION_DENIED');
+    }
+
+    const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const record = await storage.createPersonalAccessToken({
+      userId: context.userId,
+      organizationId: context.organizationId,
+      name: data.name,
+      tokenPrefix: token.substring(0, TOKEN_PREFIX.length + 6),
+      tokenHash: this.hash(token),
+      scopes: Array.from(new Set(data.scopes)),
+      expiresAt: data.expiresInDays ? new Date(Date.now() + data.expiresInDays * DAY_MS) : null,
+    });
+
+    logger.info('Personal access token created', { tokenId: record.id, userId: context.userId, scopes: record.scopes });
+    return { token, record: this.toPublic(record) };
+  }
+
+  async listTokens(userId: string): Promise<PublicPersonalAccessToken[]> {
+    const tokens = await storage.getPersonalAccessTokensByUser(userId);
+    return tokens.map(token => this.toPublic(token));
+  }
+
+  /**
+   * Révoque un jeton de l'utilisateur ; undefined s'il n'existe pas ou appartient à un autre utilisateur
+   */
+  async revokeToken(userId: string, tokenId: string): Promise<PublicPersonalAccessToken | undefined> {
+    const tokens = await storage.getPersonalAccessTokensByUser(userId);
+    const token = tokens.find(candidate => candidate.id === tokenId);
+    if (!token) {
+      return undefined;
+    }
+    if (token.revokedAt) {
+      return this.toPublic(token);
+    }
+
+    const revoked = await storage.updatePersonalAccessToken(token.id, { revokedAt: new Date() });
+    logger.info('Personal access token revoked', { tokenId, userId });
+    return this.toPublic(revoked);
+  }
+
+  /**
+   * Authentifie un en-tête « Authorization: Bearer » et résout le contexte d'organisation courant
+   */
+  async authenticate(authorization: string | undefined): Promise<PersonalAccessTokenSession> {
+    const rawToken = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (!rawToken || !rawToken.startsWith(TOKEN_PREFIX)) {
+      throw new AuthenticationError('Personal access token required', 'TOKEN_REQUIRED');
+    }
+
+    const token = await storage.getPersonalAccessTokenByHash(this.hash(rawToken));
+    if (!token || token.revokedAt) {
+      throw new AuthenticationError('Invalid or revoked personal access token', 'TOKEN_INVALID');
+    }
+    if (token.expiresAt && token.expiresAt <= new Date()) {
+      throw new AuthenticationError('Personal access token expired', 'TOKEN_EXPIRED');
+    }
+
+    const user = await storage.getUser(token.userId);
+    if (!user) {
+      throw new AuthenticationError('Invalid or revoked personal access token', 'TOKEN_INVALID');
+    }
+
+    // Le membre peut avoir quitté l'organisation ou changé de rôle depuis la création du jeton
+    const organizationContext = await organizationService.resolveContext(user, token.organizationId);
+    const scopes = token.scopes.filter(scope => roleHasPermission(organizationContext.role, scope));
+
+    await storage.updatePersonalAccessToken(token.id, { lastUsedAt: new Date() });
+
+    return {
+      token: this.toPublic(token),
+      user: { id: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName },
+      organizationContext,
+      scopes,
+    };
+  }
+
+  private hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private toPublic(token: PersonalAccessToken): PublicPersonalAccessToken {
+    const { tokenHash, ...publicToken } = token;
+    return publicToken;
+  }
+}
+
+export const personalAccessTokenService = new PersonalAccessTokenService();
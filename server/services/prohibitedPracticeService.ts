@@ -0,0 +1,185 @@
+/**
+ * Prohibited Practice Service
+ * Examen des systèmes IA au regard des pratiques interdites de l'article 5(1) : questionnaire, décision
+ * déterministe citant le paragraphe applicable et blocage de la délivrance des certificats pour les systèmes interdits
+ */
+
+import { storage } from '../storage';
+import { organizationService, type OrganizationContext } from './organizationService';
+import { certificateLifecycleService } from './certificateLifecycleService';
+import { AiSystemNotFoundError } from './systemVersionService';
+import { ValidationError } from '../errors/SecurityErrors';
+import { createServiceLogger } from '../utils/logger';
+import { PROHIBITED_PRACTICES, type ProhibitedPracticeDefinition } from '../data/prohibitedPractices';
+import {
+  screenProhibitedPracticesSchema,
+  type AiSystem,
+  type ProhibitedPracticeOutcome,
+  type ProhibitedPracticeScreening,
+  type ProhibitedPracticeTraceEntry,
+  type ProhibitedPracticeTraceStep,
+} from '@shared/schema';
+
+const logger = createServiceLogger('ProhibitedPracticeService');
+
+export interface ProhibitedPracticeEvaluation {
+  outcome: ProhibitedPracticeOutcome;
+  prohibitedPractices: string[];
+  trace: ProhibitedPracticeTraceEntry[];
+}
+
+export interface ProhibitedPracticeScreeningResult {
+  system: AiSystem;
+  screening: ProhibitedPracticeScreening;
+  revokedCertificates: number;
+}
+
+export class ProhibitedPracticeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProhibitedPracticeError';
+  }
+}
+
+export class ProhibitedPracticeService {
+  getQuestionnaire(): ProhibitedPracticeDefinition[] {
+    return PROHIBITED_PRACTICES;
+  }
+
+  /**
+   * Évalue les réponses pratique par pratique : les critères sont examinés dans l'ordre et le premier « non »
+   * écarte la pratique ; si tous les critères sont remplis, la première exception dont toutes les questions
+   * reçoivent un « oui » lève l'interdiction. Une question d'exception sans réponse vaut « non ».
+   */
+  evaluate(answers: Record<string, boolean>): ProhibitedPracticeEvaluation {
+    const knownQuestions = new Set(PROHIBITED_PRACTICES.flatMap(practice => [
+      ...practice.criteria.map(question => question.id),
+      ...practice.exceptions.flatMap(exception => exception.questions.map(question => question.id)),
+    ]));
+    const unknown = Object.keys(answers).filter(questionId => !knownQuestions.has(questionId));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown screening questions: ${unknown.join(', ')}`);
+    }
+
+    const missing: string[] = [];
+    const trace = PROHIBITED_PRACTICES.map(practice => this.evaluatePractice(practice, answers, missing));
+    if (missing.length > 0) {
+      throw new ValidationError(`Missing answers: ${missing.join(', ')}`);
+    }
+
+    const prohibitedPractices = trace.filter(entry => entry.result === 'prohibited').map(entry => entry.practiceId);
+    let outcome: ProhibitedPracticeOutcome = 'not_prohibited';
+    if (prohibitedPractices.length > 0) {
+      outcome = 'prohibited';
+    } else if (trace.some(entry => entry.result === 'exception_applies')) {
+      outcome = 'exception_applies';
+    }
+    return { outcome, prohibitedPractices, trace };
+  }
+
+  async listScreenings(context: OrganizationContext, aiSystemId: string): Promise<ProhibitedPracticeScreening[]> {
+    await this.getSystem(context, aiSystemId);
+    return storage.getProhibitedPracticeScreenings(aiSystemId);
+  }
+
+  /**
+   * Enregistre l'examen et marque le système ; un système interdit passe au niveau de risque « inacceptable »
+   * et ses certificats en cours sont révoqués. Un examen ultérieur favorable lui rend le niveau de sa dernière évaluation
+   */
+  async screenSystem(context: OrganizationContext, aiSystemId: string, input: unknown): Promise<ProhibitedPracticeScreeningResult> {
+    const system = await this.getSystem(context, aiSystemId);
+    const { answers } = screenProhibitedPracticesSchema.parse(input);
+    const evaluation = this.evaluate(answers);
+    const prohibited = evaluation.outcome === 'prohibited';
+
+    const result = await storage.createProhibitedPracticeScreening({
+      aiSystemId,
+      organizationId: context.organizationId,
+      answers,
+      ...evaluation,
+      screenedBy: context.userId,
+    });
+
+    const revokedCertificates = prohibited ? await this.revokeCertificates(system, evaluation) : 0;
+    logger.info('Prohibited practice screening recorded', {
+      aiSystemId,
+      organizationId: context.organizationId,
+      outcome: evaluation.outcome,
+      prohibitedPractices: evaluation.prohibitedPractices,
+      revokedCertificates,
+    });
+    return { ...result, revokedCertificates };
+  }
+
+  /**
+   * Refuse la délivrance d'un certificat pour un système relevant d'une pratique interdite
+   */
+  assertCertifiable(system: Pick<AiSystem, 'prohibitedPractice' | 'riskLevel'>): void {
+    if (system.prohibitedPractice) {
+      throw new ProhibitedPracticeError('Certificates cannot be issued for an AI system flagged as a prohibited practice (Art. 5)');
+    }
+    if (system.riskLevel === 'unacceptable') {
+      throw new ProhibitedPracticeError('Certificates cannot be issued for an AI system classified as unacceptable risk (Art. 5)');
+    }
+  }
+
+  private evaluatePractice(
+    practice: ProhibitedPracticeDefinition,
+    answers: Record<string, boolean>,
+    missing: string[]
+  ): ProhibitedPracticeTraceEntry {
+    const steps: ProhibitedPracticeTraceStep[] = [];
+    const entry = (result: ProhibitedPracticeTraceEntry['result'], exceptionId: string | null, conclusion: string): ProhibitedPracticeTraceEntry =>
+      ({ practiceId: practice.id, paragraph: practice.paragraph, result, steps, exceptionId, conclusion });
+
+    for (const criterion of practice.criteria) {
+      const answer = answers[criterion.id];
+      if (answer === undefined) {
+        missing.push(criterion.id);
+        return entry('not_applicable', null, `Examen incomplet (${criterion.paragraph})`);
+      }
+      steps.push({ questionId: criterion.id, paragraph: criterion.paragraph, answer });
+      if (!answer) {
+        return entry('not_applicable', null, `Critère non rempli : le système ne relève pas de l'${practice.paragraph}`);
+      }
+    }
+
+    for (const exception of practice.exceptions) {
+      let applies = true;
+      for (const question of exception.questions) {
+        const answer = answers[question.id] ?? null;
+        steps.push({ questionId: question.id, paragraph: question.paragraph, answer });
+        if (answer !== true) {
+          applies = false;
+          break;
+        }
+      }
+      if (applies) {
+        return entry('exception_applies', exception.id, `Critères de l'${practice.paragraph} remplis ; exception applicable (${exception.paragraph}) : ${exception.title}`);
+      }
+    }
+
+    return entry('prohibited', null, `Pratique interdite par l'${practice.paragraph} : ${practice.title}`);
+  }
+
+  private async revokeCertificates(system: AiSystem, evaluation: ProhibitedPracticeEvaluation): Promise<number> {
+    const certificates = await storage.getCertificatesBySystem(system.id);
+    const valid = certificates.filter(certificate => certificate.status === 'valid');
+    const paragraphs = evaluation.trace.filter(entry => entry.result === 'prohibited').map(entry => entry.paragraph);
+
+    for (const certificate of valid) {
+      await certificateLifecycleService.revoke(certificate, `Pratique interdite : ${paragraphs.join(', ')}`);
+    }
+    return valid.length;
+  }
+
+  private async getSystem(context: OrganizationContext, id: string): Promise<AiSystem> {
+    const system = await storage.getAiSystem(id);
+    if (!system || !organizationService.canAccessRecord(context, system)) {
+      throw new AiSystemNotFoundError(id);
+    }
+    return system;
+  }
+}
+
+export const prohibitedPracticeService = new ProhibitedPracticeService();
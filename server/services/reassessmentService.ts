@@ -0,0 +1,264 @@
+/**
+ * Reassessment Service
+ * Réévaluation obligatoire des systèmes IA touchés par un insight réglementaire d'impact élevé ou critique
+ * ou par une modification substantielle :
+ * brouillon pré-rempli avec la dernière évaluation, notification du propriétaire et passage
+ * en « non_compliant » si la réévaluation n'est pas faite avant l'échéance
+ */
+
+import { storage } from '../storage';
+import { organizationService, type OrganizationContext } from './organizationService';
+import { createServiceLogger } from '../utils/logger';
+import type { AiSystem, AiSystemVersion, SystemReassessment } from '@shared/schema';
+
+const logger = createServiceLogger('ReassessmentService');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_DEADLINE_DAYS = 30;
+
+// Niveaux d'impact d'un insight qui déclenchent une réévaluation
+const TRIGGERING_IMPACT_LEVELS = ['critical', 'high'];
+
+export interface ReassessmentTrigger {
+  organizationId: string;
+  insightId?: string;
+  title: string;
+  impactLevel: string;
+  impactedSystems: AiSystem[];
+}
+
+interface ReassessmentRequest {
+  organizationId: string;
+  insightId?: string;
+  reason: string;
+  impactLevel: string;
+  context: string; // Première phrase de la notification
+  draftOverrides?: Record<string, unknown>;
+}
+
+export type SystemReassessmentWithSystem = SystemReassessment & { systemName: string | null };
+
+export interface ReassessmentPrefill {
+  reassessmentId: string;
+  aiSystemId: string;
+  reason: string;
+  dueDate: Date;
+  formData: Record<string, any>;
+}
+
+export class ReassessmentNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Reassessment ${id} not found`);
+    this.name = 'ReassessmentNotFoundError';
+  }
+}
+
+export class ReassessmentService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly intervalMs: number = Number(process.env.REASSESSMENT_CHECK_INTERVAL_MS) || DEFAULT_INTERVAL_MS,
+    private readonly deadlineDays: number = Number(process.env.REASSESSMENT_DEADLINE_DAYS) || DEFAULT_DEADLINE_DAYS
+  ) {}
+
+  /**
+   * Démarre la vérification planifiée des échéances (une exécution immédiate puis à intervalle régulier)
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.runSafely(), this.intervalMs);
+    this.timer.unref();
+    void this.runSafely();
+    logger.info('Reassessment scheduler started', { intervalMs: this.intervalMs, deadlineDays: this.deadlineDays });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Signale les systèmes impactés par un insight élevé ou critique ; un système qui a déjà
+   * une réévaluation en cours n'en reçoit pas de nouvelle
+   */
+  async requestForInsight(trigger: ReassessmentTrigger, now: Date = new Date()): Promise<SystemReassessment[]> {
+    if (!TRIGGERING_IMPACT_LEVELS.includes(trigger.impactLevel)) {
+      return [];
+    }
+
+    const created: SystemReassessment[] = [];
+    for (const system of trigger.impactedSystems) {
+      const reassessment = await this.request(system, {
+        organizationId: trigger.organizationId,
+        insightId: trigger.insightId,
+        reason: trigger.title,
+        impactLevel: trigger.impactLevel,
+        context: `Une évolution réglementaire d'impact ${trigger.impactLevel === 'critical' ? 'critique' : 'élevé'} concerne ce système (« ${trigger.title} »).`,
+      }, now);
+      if (reassessment) {
+        created.push(reassessment);
+      }
+    }
+    return created;
+  }
+
+  /**
+   * Une modification substantielle impose une nouvelle évaluation de conformité (Art. 43(4)) ;
+   * les réponses modifiées remplacent celles de l'évaluation précédente dans le brouillon
+   */
+  async requestForModification(system: AiSystem, version: AiSystemVersion, now: Date = new Date()): Promise<SystemReassessment | null> {
+    return this.request(system, {
+      organizationId: version.organizationId || system.organizationId || '',
+      reason: `Modification substantielle (version ${version.version}) : ${version.substantialReasons.join(' ; ')}`,
+      impactLevel: 'critical',
+      context: `La version ${version.version} de ce système constitue une modification substantielle : une nouvelle évaluation de conformité est requise.`,
+      draftOverrides: { systemName: system.name, ...version.snapshot.riskAnswers },
+    }, now);
+  }
+
+  /**
+   * Clôt les réévaluations ouvertes d'un système lorsqu'une nouvelle évaluation est enregistrée
+   */
+  async completeForSystem(aiSystemId: string, assessmentId: string): Promise<number> {
+    const open = await storage.getOpenSystemReassessments(aiSystemId);
+    if (open.length === 0) {
+      return 0;
+    }
+
+    for (const reassessment of open) {
+      await storage.updateSystemReassessment(reassessment.id, {
+        status: 'completed',
+        completedAssessmentId: assessmentId,
+        completedAt: new Date(),
+      });
+    }
+    await storage.updateAiSystem(aiSystemId, { reassessmentRequired: false });
+
+    logger.info('Reassessment completed', { aiSystemId, assessmentId, closed: open.length });
+    return open.length;
+  }
+
+  /**
+   * Passe en « non_compliant » les systèmes dont la réévaluation a dépassé l'échéance
+   */
+  async runOnce(now: Date = new Date()): Promise<number> {
+    const due = await storage.getPendingSystemReassessmentsDueBefore(now);
+
+    for (const reassessment of due) {
+      try {
+        await storage.updateSystemReassessment(reassessment.id, { status: 'overdue' });
+        const system = await storage.updateAiSystem(reassessment.aiSystemId, { status: 'non_compliant' });
+
+        await storage.createNotification({
+          userId: reassessment.ownerId,
+          organizationId: reassessment.organizationId,
+          type: 'reassessment_overdue',
+          title: `Réévaluation en retard : ${system.name}`,
+          message: `La réévaluation demandée suite à « ${reassessment.reason} » n'a pas été réalisée avant l'échéance. Le système est désormais marqué non conforme.`,
+          link: `/assessment?reassessment=${reassessment.id}`,
+          metadata: { reassessmentId: reassessment.id, aiSystemId: reassessment.aiSystemId },
+        });
+        logger.warn('Reassessment overdue, system marked non compliant', { reassessmentId: reassessment.id, aiSystemId: reassessment.aiSystemId });
+      } catch (error) {
+        logger.error('Overdue reassessment processing failed', error as Error, { reassessmentId: reassessment.id });
+      }
+    }
+    return due.length;
+  }
+
+  async list(organizationId: string): Promise<SystemReassessmentWithSystem[]> {
+    const [reassessments, systems] = await Promise.all([
+      storage.getSystemReassessmentsByOrganization(organizationId),
+      storage.getAiSystemsByOrganization(organizationId),
+    ]);
+    const names = new Map(systems.map(system => [system.id, system.name]));
+    return reassessments.map(reassessment => ({
+      ...reassessment,
+      systemName: names.get(reassessment.aiSystemId) || null,
+    }));
+  }
+
+  /**
+   * Réponses de l'évaluation précédente à pré-remplir dans la nouvelle
+   */
+  async getPrefill(context: OrganizationContext, id: string): Promise<ReassessmentPrefill> {
+    const reassessment = await storage.getSystemReassessment(id);
+    const system = reassessment ? await storage.getAiSystem(reassessment.aiSystemId) : undefined;
+    if (!reassessment || !organizationService.canAccessRecord(context, system)) {
+      throw new ReassessmentNotFoundError(id);
+    }
+
+    return {
+      reassessmentId: reassessment.id,
+      aiSystemId: reassessment.aiSystemId,
+      reason: reassessment.reason,
+      dueDate: reassessment.dueDate,
+      formData: reassessment.draftFormData || {},
+    };
+  }
+
+  private async request(system: AiSystem, request: ReassessmentRequest, now: Date): Promise<SystemReassessment | null> {
+    try {
+      const open = await storage.getOpenSystemReassessments(system.id);
+      if (open.length > 0) {
+        return null;
+      }
+
+      const previous = await storage.getLatestRiskAssessment(system.id);
+      const reassessment = await storage.createSystemReassessment({
+        aiSystemId: system.id,
+        organizationId: system.organizationId || request.organizationId,
+        insightId: request.insightId || null,
+        reason: request.reason,
+        impactLevel: request.impactLevel,
+        previousAssessmentId: previous?.id || null,
+        draftFormData: {
+          ...((previous?.formData as Record<string, any>) || { systemName: system.name }),
+          ...request.draftOverrides,
+        },
+        ownerId: system.userId,
+        dueDate: new Date(now.getTime() + this.deadlineDays * DAY_MS),
+      });
+      await storage.updateAiSystem(system.id, { reassessmentRequired: true });
+
+      await storage.createNotification({
+        userId: system.userId,
+        organizationId: reassessment.organizationId,
+        type: 'reassessment_required',
+        title: `Réévaluation requise : ${system.name}`,
+        message: `${request.context} Réévaluez-le avant le ${reassessment.dueDate.toLocaleDateString('fr-FR')} ; vos réponses précédentes sont pré-remplies.`,
+        link: `/assessment?reassessment=${reassessment.id}`,
+        metadata: { reassessmentId: reassessment.id, aiSystemId: system.id, insightId: request.insightId },
+      });
+
+      logger.info('Reassessment required', { reassessmentId: reassessment.id, aiSystemId: system.id, impactLevel: request.impactLevel });
+      return reassessment;
+    } catch (error) {
+      logger.error('Reassessment request failed', error as Error, { aiSystemId: system.id });
+      return null;
+    }
+  }
+
+  private async runSafely(): Promise<void> {
+    // Pas d'exécutions concurrentes si une passe dépasse l'intervalle
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.runOnce();
+    } catch (error) {
+      logger.error('Reassessment check failed', error as Error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const reassessmentService = new ReassessmentService();
@@ -7,40 +7,14 @@ import { storage } from "../storage";
 import type { RegulatoryUpdate } from "@shared/schema";
 import { regulatoryWorkflow } from "../workflows/regulatory-monitoring-workflow";
 import { MonitoringMetrics } from "../types/regulatory-monitoring";
-
-export interface RegulatorySource {
-  name: string;
-  url: string;
-  type: 'official_eu' | 'national_fr' | 'standards';
-  checkFrequency: 'hourly' | 'daily' | 'weekly';
-}
-
-// Track last sync time in memory (in production, should be in database)
-let lastSyncTimestamp: Date | null = null;
+import { regulatorySourceService } from "./regulatorySourceService";
+import { regulatorySyncService } from "./regulatorySyncService";
 
 class RegulatoryService {
-  private sources: RegulatorySource[] = [
-    {
-      name: "EUR-Lex",
-      url: "https://eur-lex.europa.eu",
-      type: "official_eu",
-      checkFrequency: "daily"
-    },
-    {
-      name: "Commission Européenne - AI Office",
-      url: "https://digital-strategy.ec.europa.eu/en/policies/ai-office",
-      type: "official_eu",
-      checkFrequency: "daily"
-    },
-    {
-      name: "CNIL",
-      url: "https://www.cnil.fr",
-      type: "national_fr",
-      checkFrequency: "daily"
-    }
-  ];
-
   async seedInitialData(): Promise<void> {
+    // Built-in sources (EUR-Lex, CNIL, AI Office) are declared in the database
+    await regulatorySourceService.ensureDefaultSources();
+
     // Seed with initial regulatory updates
     const initialUpdates = [
       {
@@ -169,16 +143,18 @@ class RegulatoryService {
   }> {
     const updates = await storage.getRegulatoryUpdates(1000);
     const criticalUpdates = await this.getCriticalAlerts();
+    const lastRun = await regulatorySyncService.getLastCompletedRun();
 
-    // Real source status (all operational)
-    const sourceStatus = this.sources.map(source => ({
+    // Status of the last poll of each enabled source
+    const sources = await regulatorySourceService.getEnabledSources();
+    const sourceStatus = sources.map(source => ({
       name: source.name,
-      status: 'online' as const,
-      lastCheck: new Date(),
+      status: source.lastStatus === 'error' ? 'offline' as const : 'online' as const,
+      lastCheck: source.lastPolledAt || source.createdAt || new Date(),
     }));
 
     return {
-      lastSync: lastSyncTimestamp || new Date(),
+      lastSync: lastRun?.completedAt || new Date(),
       totalUpdates: updates.length,
       criticalAlerts: criticalUpdates.length,
       sourceStatus
@@ -205,16 +181,11 @@ class RegulatoryService {
     console.log('\n🔄 Starting intelligent regulatory sync...\n');
 
     try {
-      // Update last sync timestamp
-      lastSyncTimestamp = new Date();
-
-      // Execute multi-agent workflow with user's LLM settings
-      const workflowResult = await regulatoryWorkflow.execute({
+      // Execute multi-agent workflow with user's LLM settings, recorded in the run history
+      const { result: workflowResult } = await regulatorySyncService.runStandard('manual', {
         daysBack: 7,
-        sources: ['eurlex', 'cnil', 'ec-ai-office'],
         minRelevanceScore: 60,
-        userId, // Pass userId to workflow for LLM configuration
-      });
+      }, userId);
 
       const successfulSources = Object.entries(workflowResult.metrics.sourceStatus)
         .filter(([_, status]) => status.success)
@@ -0,0 +1,173 @@
+/**
+ * Regulatory Source Service
+ * Sources de veille déclarées en base : connecteurs intégrés (EUR-Lex, CNIL, AI Office)
+ * et connecteurs génériques RSS/Atom ou HTML ajoutés par les administrateurs
+ */
+
+import { storage } from '../storage';
+import { connectorRegistry } from '../mcp/connector-registry';
+import { ValidationError } from '../errors/SecurityErrors';
+import { createServiceLogger } from '../utils/logger';
+import {
+  insertRegulatorySourceSchema,
+  updateRegulatorySourceSchema,
+  regulatorySourceConnectorSchema,
+  type InsertRegulatorySource,
+  type RegulatorySource,
+} from '@shared/schema';
+import type { RawRegulatoryData } from '../types/regulatory-monitoring';
+
+const logger = createServiceLogger('RegulatorySourceService');
+
+// Sources historiquement codées dans l'agent collecteur
+const DEFAULT_SOURCES: InsertRegulatorySource[] = [
+  {
+    key: 'eurlex',
+    name: 'EUR-Lex',
+    connectorType: 'eurlex',
+    url: 'https://eur-lex.europa.eu',
+    sourceType: 'official_eu',
+    language: 'FR',
+    documentType: 'regulation',
+  },
+  {
+    key: 'cnil',
+    name: 'CNIL',
+    connectorType: 'cnil',
+    url: 'https://www.cnil.fr/fr/intelligence-artificielle',
+    sourceType: 'national_fr',
+    language: 'FR',
+    documentType: 'guidance',
+  },
+  {
+    key: 'ec-ai-office',
+    name: 'Commission Européenne - AI Office',
+    connectorType: 'ec_ai_office',
+    url: 'https://digital-strategy.ec.europa.eu/en/policies/ai-office',
+    sourceType: 'official_eu',
+    language: 'FR',
+    documentType: 'guidance',
+  },
+];
+
+export class RegulatorySourceNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Regulatory source ${id} not found`);
+    this.name = 'RegulatorySourceNotFoundError';
+  }
+}
+
+export class RegulatorySourceService {
+  /**
+   * Crée les sources intégrées manquantes (idempotent, appelé au démarrage)
+   */
+  async ensureDefaultSources(): Promise<void> {
+    for (const source of DEFAULT_SOURCES) {
+      const existing = await storage.getRegulatorySourceByKey(source.key);
+      if (!existing) {
+        await storage.createRegulatorySource(source);
+        logger.info('Default regulatory source created', { key: source.key });
+      }
+    }
+  }
+
+  async getSources(): Promise<RegulatorySource[]> {
+    return storage.getRegulatorySources();
+  }
+
+  /**
+   * Sources actives, éventuellement restreintes à une liste de clés
+   */
+  async getEnabledSources(keys?: string[]): Promise<RegulatorySource[]> {
+    const sources = await storage.getRegulatorySources();
+    return sources.filter(source => source.enabled && (!keys || keys.includes(source.key)));
+  }
+
+  async getSource(id: string): Promise<RegulatorySource> {
+    const source = await storage.getRegulatorySource(id);
+    if (!source) {
+      throw new RegulatorySourceNotFoundError(id);
+    }
+    return source;
+  }
+
+  async createSource(input: unknown, userId: string): Promise<RegulatorySource> {
+    const data = insertRegulatorySourceSchema.parse(input);
+    if (connectorRegistry.isBuiltIn(data.connectorType)) {
+      throw new ValidationError('Built-in connectors cannot be added again; use the rss or html connector');
+    }
+    if (await storage.getRegulatorySourceByKey(data.key)) {
+      throw new ValidationError(`A regulatory source with key "${data.key}" already exists`);
+    }
+
+    const source = await storage.createRegulatorySource({ ...data, createdBy: userId });
+    logger.info('Regulatory source created', { sourceId: source.id, key: source.key, connectorType: source.connectorType });
+    return source;
+  }
+
+  async updateSource(id: string, input: unknown): Promise<RegulatorySource> {
+    const source = await this.getSource(id);
+    const updates = updateRegulatorySourceSchema.parse(input);
+
+    // Les exigences du connecteur portent sur l'enregistrement complet après modification
+    regulatorySourceConnectorSchema.parse({
+      connectorType: source.connectorType,
+      feedUrl: updates.feedUrl !== undefined ? updates.feedUrl : source.feedUrl,
+      selectors: updates.selectors !== undefined ? updates.selectors : source.selectors,
+    });
+
+    return storage.updateRegulatorySource(id, updates);
+  }
+
+  async deleteSource(id: string): Promise<RegulatorySource> {
+    const source = await this.getSource(id);
+    if (connectorRegistry.isBuiltIn(source.connectorType)) {
+      throw new ValidationError('Built-in sources cannot be deleted; disable them instead');
+    }
+    await storage.deleteRegulatorySource(id);
+    logger.info('Regulatory source deleted', { sourceId: id, key: source.key });
+    return source;
+  }
+
+  /**
+   * Enregistre le résultat d'un passage de collecte (statut, nombre d'éléments, erreur)
+   */
+  async recordPoll(source: RegulatorySource, outcome: { count: number } | { error: unknown }): Promise<void> {
+    try {
+      await storage.updateRegulatorySource(source.id, 'error' in outcome
+        ? {
+            lastPolledAt: new Date(),
+            lastStatus: 'error',
+            lastError: outcome.error instanceof Error ? outcome.error.message : String(outcome.error),
+            lastItemCount: 0,
+          }
+        : {
+            lastPolledAt: new Date(),
+            lastStatus: 'success',
+            lastError: null,
+            lastItemCount: outcome.count,
+          });
+    } catch (error) {
+      logger.error('Failed to record regulatory source poll', error as Error, { sourceId: source.id });
+    }
+  }
+
+  /**
+   * Aperçu d'une configuration sans enregistrement, pour valider les sélecteurs ou le flux
+   */
+  async preview(input: unknown, daysBack: number = 30): Promise<RawRegulatoryData[]> {
+    const data = insertRegulatorySourceSchema.parse(input);
+    const draft = {
+      ...data,
+      id: 'preview',
+      feedUrl: data.feedUrl ?? null,
+      selectors: data.selectors ?? null,
+      keywords: data.keywords ?? null,
+    } as RegulatorySource;
+
+    const updates = await connectorRegistry.create(draft).fetchRecentUpdates({ daysBack, limit: 20 });
+    return updates.slice(0, 20);
+  }
+}
+
+export const regulatorySourceService = new RegulatorySourceService();
@@ -0,0 +1,200 @@
+/**
+ * Regulatory Sync Service
+ * Exécution planifiée du workflow de veille selon l'intervalle de chaque source,
+ * et historique persistant des passages (planifiés et à la demande)
+ */
+
+import { storage } from '../storage';
+import { regulatoryWorkflow, type WorkflowResult } from '../workflows/regulatory-monitoring-workflow';
+import { regulatorySourceService } from './regulatorySourceService';
+import { createServiceLogger } from '../utils/logger';
+import type { EnhancedWorkflowResult } from '../types/regulatory-monitoring';
+import type {
+  InsertRegulatorySyncRun,
+  RegulatorySource,
+  RegulatorySyncRun,
+  RegulatorySyncTrigger,
+} from '@shared/schema';
+
+const logger = createServiceLogger('RegulatorySyncService');
+
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000;
+const DEFAULT_DAYS_BACK = 7;
+const DEFAULT_MIN_RELEVANCE = 60;
+
+export interface SyncParams {
+  daysBack?: number;
+  sources?: string[];
+  minRelevanceScore?: number;
+}
+
+export interface SyncRunOutcome<T> {
+  run: RegulatorySyncRun;
+  result: T;
+}
+
+type RunSummary = Pick<InsertRegulatorySyncRun,
+  'sourceStatus' | 'totalCollected' | 'totalAnalyzed' | 'totalInsights' | 'averageRelevanceScore'>;
+
+export class RegulatorySyncService {
+  private timer: NodeJS.Timeout | null = null;
+  private activeRuns = 0;
+
+  constructor(private readonly intervalMs: number = Number(process.env.REGULATORY_SYNC_INTERVAL_MS) || DEFAULT_INTERVAL_MS) {}
+
+  /**
+   * Démarre la planification : les passages interrompus par un redémarrage sont clôturés,
+   * puis les sources dont l'intervalle d'interrogation est écoulé sont collectées à chaque tick
+   */
+  start(): void {
+    if (this.timer || process.env.REGULATORY_SYNC_ENABLED === 'false') {
+      return;
+    }
+    this.timer = setInterval(() => void this.runSafely(), this.intervalMs);
+    this.timer.unref();
+
+    void storage.failRunningRegulatorySyncRuns('Interrupted by server restart')
+      .then(count => {
+        if (count > 0) {
+          logger.warn('Interrupted regulatory sync runs closed', { count });
+        }
+      })
+      .catch(error => logger.error('Failed to close interrupted sync runs', error as Error))
+      .finally(() => void this.runSafely());
+
+    logger.info('Regulatory sync scheduler started', { intervalMs: this.intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Sources actives dont le dernier passage remonte à plus que leur intervalle d'interrogation
+   */
+  async getDueSources(now: Date = new Date()): Promise<RegulatorySource[]> {
+    const sources = await regulatorySourceService.getEnabledSources();
+    return sources.filter(source =>
+      !source.lastPolledAt ||
+      source.lastPolledAt.getTime() + source.pollingIntervalMinutes * 60 * 1000 <= now.getTime()
+    );
+  }
+
+  /**
+   * Passage planifié sur les sources échues ; null si aucune source n'est due
+   */
+  async runDueSources(now: Date = new Date()): Promise<SyncRunOutcome<WorkflowResult> | null> {
+    const dueSources = await this.getDueSources(now);
+    if (dueSources.length === 0) {
+      return null;
+    }
+    return this.runStandard('scheduled', { sources: dueSources.map(source => source.key) });
+  }
+
+  /**
+   * Workflow standard (collecte → analyse → synthèse) enregistré dans l'historique
+   */
+  async runStandard(trigger: RegulatorySyncTrigger, params: SyncParams, userId?: string): Promise<SyncRunOutcome<WorkflowResult>> {
+    return this.record(trigger, params, userId, () => regulatoryWorkflow.execute({
+      daysBack: params.daysBack || DEFAULT_DAYS_BACK,
+      sources: params.sources,
+      minRelevanceScore: params.minRelevanceScore || DEFAULT_MIN_RELEVANCE,
+      userId,
+    }), result => ({
+      sourceStatus: result.metrics.sourceStatus,
+      totalCollected: result.metrics.totalCollected,
+      totalAnalyzed: result.metrics.totalAnalyzed,
+      totalInsights: result.metrics.totalInsights,
+      averageRelevanceScore: result.metrics.averageRelevanceScore,
+    }));
+  }
+
+  /**
+   * Workflow étendu (personnalisation et plans d'action) enregistré dans l'historique
+   */
+  async runPersonalized(params: SyncParams, userId: string, organizationId: string): Promise<SyncRunOutcome<EnhancedWorkflowResult>> {
+    return this.record('personalized', params, userId, () => regulatoryWorkflow.executeEnhanced({
+      daysBack: params.daysBack || DEFAULT_DAYS_BACK,
+      sources: params.sources,
+      minRelevanceScore: params.minRelevanceScore || DEFAULT_MIN_RELEVANCE,
+      userId,
+      organizationId,
+    }), result => ({
+      sourceStatus: result.metrics.sourceStatus,
+      totalCollected: result.metrics.totalCollected,
+      totalAnalyzed: result.metrics.totalAnalyzed,
+      totalInsights: result.metrics.totalActionable,
+      averageRelevanceScore: result.metrics.averageRelevanceScore,
+    }));
+  }
+
+  async getRuns(limit?: number): Promise<RegulatorySyncRun[]> {
+    return storage.getRegulatorySyncRuns(limit);
+  }
+
+  async getLastCompletedRun(): Promise<RegulatorySyncRun | undefined> {
+    const runs = await storage.getRegulatorySyncRuns(20);
+    return runs.find(run => run.status === 'completed');
+  }
+
+  private async record<T>(
+    trigger: RegulatorySyncTrigger,
+    params: SyncParams,
+    userId: string | undefined,
+    execute: () => Promise<T>,
+    summarize: (result: T) => RunSummary
+  ): Promise<SyncRunOutcome<T>> {
+    const run = await storage.createRegulatorySyncRun({
+      trigger,
+      triggeredBy: userId || null,
+      sources: params.sources || null,
+    });
+    const startedAt = Date.now();
+    this.activeRuns++;
+
+    try {
+      const result = await execute();
+      const completed = await storage.updateRegulatorySyncRun(run.id, {
+        ...summarize(result),
+        status: 'completed',
+        durationMs: Date.now() - startedAt,
+        completedAt: new Date(),
+      });
+      logger.info('Regulatory sync run completed', {
+        runId: run.id,
+        trigger,
+        durationMs: completed.durationMs,
+        totalInsights: completed.totalInsights,
+      });
+      return { run: completed, result };
+    } catch (error) {
+      await storage.updateRegulatorySyncRun(run.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startedAt,
+        completedAt: new Date(),
+      });
+      logger.error('Regulatory sync run failed', error as Error, { runId: run.id, trigger });
+      throw error;
+    } finally {
+      this.activeRuns--;
+    }
+  }
+
+  private async runSafely(): Promise<void> {
+    // Un passage planifié ne chevauche jamais un passage en cours
+    if (this.activeRuns > 0) {
+      return;
+    }
+    try {
+      await this.runDueSources();
+    } catch (error) {
+      logger.error('Scheduled regulatory sync failed', error as Error);
+    }
+  }
+}
+
+export const regulatorySyncService = new RegulatorySyncService();
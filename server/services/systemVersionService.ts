@@ -0,0 +1,304 @@
+/**
+ * System Version Service
+ * Historique immuable des versions d'un système IA et détection des modifications substantielles (Art. 43(4)) :
+ * une modification de la finalité prévue, des réponses déterminantes pour le risque ou du domaine de l'Annexe III
+ * révoque les certificats en cours et impose une nouvelle évaluation de conformité
+ */
+
+import { storage } from '../storage';
+import { organizationService, type OrganizationContext } from './organizationService';
+import { certificateLifecycleService } from './certificateLifecycleService';
+import { reassessmentService } from './reassessmentService';
+import { createServiceLogger } from '../utils/logger';
+import { ANNEX_III_AREAS } from '../data/highRiskClassification';
+import {
+  RISK_DRIVING_ANSWERS,
+  updateAiSystemSchema,
+  type AiSystem,
+  type AiSystemVersion,
+  type AiSystemVersionChange,
+  type AiSystemVersionSnapshot,
+  type InsertAiSystem,
+} from '@shared/schema';
+
+const logger = createServiceLogger('SystemVersionService');
+
+// Champs qui définissent la finalité prévue du système
+const INTENDED_PURPOSE_FIELDS = ['primaryUseCase', 'riskAnswers.applicationDomain', 'riskAnswers.userCategories'];
+
+// Domaines de l'Annexe III associés aux valeurs énumérées du secteur et du cas d'usage : le texte libre
+// (domaine d'application) relève déjà de la finalité prévue et n'est pas interprété ici
+const ANNEX_III_SECTORS: Partial<Record<string, string>> = {
+  energy_utilities: 'annex3_2',
+  education_training: 'annex3_3',
+  finance_banking: 'annex3_5',
+  insurance: 'annex3_5',
+  healthcare_medical: 'annex3_5',
+};
+
+const ANNEX_III_USE_CASES: Partial<Record<string, string>> = {
+  biometric_identification: 'annex3_1',
+  talent_acquisition_recruitment: 'annex3_4',
+};
+
+export interface SystemUpdateResult {
+  system: AiSystem;
+  version: AiSystemVersion | null; // null lorsque la mise à jour ne modifie rien
+  revokedCertificates: number;
+  reassessmentId: string | null;
+}
+
+export interface SystemVersionComparison {
+  from: AiSystemVersion;
+  to: AiSystemVersion;
+  changes: AiSystemVersionChange[];
+  isSubstantial: boolean;
+  substantialReasons: string[];
+}
+
+export class AiSystemNotFoundError extends Error {
+  constructor(id: string) {
+    super(`AI system ${id} not found`);
+    this.name = 'AiSystemNotFoundError';
+  }
+}
+
+export class SystemVersionNotFoundError extends Error {
+  constructor(aiSystemId: string, version: number) {
+    super(`Version ${version} of AI system ${aiSystemId} not found`);
+    this.name = 'SystemVersionNotFoundError';
+  }
+}
+
+export class SystemVersionService {
+  /**
+   * Version initiale d'un système nouvellement déclaré
+   */
+  async recordInitial(system: AiSystem, userId: string): Promise<AiSystemVersion> {
+    return storage.createAiSystemVersion({
+      aiSystemId: system.id,
+      organizationId: system.organizationId,
+      version: system.currentVersion,
+      snapshot: this.snapshot(system),
+      changeNote: 'Version initiale',
+      createdBy: userId,
+    });
+  }
+
+  /**
+   * Met à jour un système en créant une nouvelle version ; une modification substantielle
+   * révoque les certificats valides et déclenche une réévaluation
+   */
+  async update(context: OrganizationContext, id: string, input: unknown): Promise<SystemUpdateResult> {
+    const { changeNote, riskAnswers, ...fields } = updateAiSystemSchema.parse(input);
+    const system = await this.getSystem(context, id);
+    const latest = await this.ensureBaseline(system);
+
+    const updates: Partial<InsertAiSystem> = { ...fields };
+    if (riskAnswers) {
+      updates.assessmentData = { ...((system.assessmentData as Record<string, unknown>) || {}), ...riskAnswers };
+    }
+    const next = this.snapshot({ ...system, ...updates } as AiSystem);
+    const changes = this.diff(latest.snapshot, next);
+    if (changes.length === 0) {
+      return { system, version: null, revokedCertificates: 0, reassessmentId: null };
+    }
+
+    const substantialReasons = this.detectSubstantial(latest.snapshot, next, changes);
+    const { system: updated, version } = await storage.updateAiSystemWithVersion(system.id, updates, {
+      aiSystemId: system.id,
+      organizationId: system.organizationId,
+      version: latest.version + 1,
+      snapshot: next,
+      changes,
+      isSubstantial: substantialReasons.length > 0,
+      substantialReasons,
+      changeNote: changeNote || null,
+      createdBy: context.userId,
+    });
+
+    if (!version.isSubstantial) {
+      return { system: updated, version, revokedCertificates: 0, reassessmentId: null };
+    }
+
+    const revokedCertificates = await this.revokeCertificates(updated, version);
+    const reassessment = await reassessmentService.requestForModification(updated, version);
+    logger.warn('Substantial modification detected', {
+      aiSystemId: system.id,
+      version: version.version,
+      reasons: substantialReasons,
+      revokedCertificates,
+    });
+
+    return { system: updated, version, revokedCertificates, reassessmentId: reassessment?.id || null };
+  }
+
+  /**
+   * Enregistre l'état du système après une évaluation ; l'évaluation valant nouvelle évaluation
+   * de conformité, la version n'est jamais marquée comme substantielle
+   */
+  async recordAssessment(aiSystemId: string, userId: string): Promise<AiSystemVersion | null> {
+    const system = await storage.getAiSystem(aiSystemId);
+    if (!system) {
+      return null;
+    }
+
+    const [latest] = await storage.getAiSystemVersions(aiSystemId);
+    if (!latest) {
+      return this.recordInitial(system, userId);
+    }
+
+    const next = this.snapshot(system);
+    const changes = this.diff(latest.snapshot, next);
+    if (changes.length === 0) {
+      return null;
+    }
+
+    const { version } = await storage.updateAiSystemWithVersion(aiSystemId, {}, {
+      aiSystemId,
+      organizationId: system.organizationId,
+      version: latest.version + 1,
+      snapshot: next,
+      changes,
+      changeNote: 'Évaluation des risques',
+      createdBy: userId,
+    });
+    return version;
+  }
+
+  async listVersions(context: OrganizationContext, id: string): Promise<AiSystemVersion[]> {
+    const system = await this.getSystem(context, id);
+    await this.ensureBaseline(system);
+    return storage.getAiSystemVersions(id);
+  }
+
+  async compare(context: OrganizationContext, id: string, fromVersion: number, toVersion: number): Promise<SystemVersionComparison> {
+    await this.getSystem(context, id);
+    const [from, to] = await Promise.all([
+      storage.getAiSystemVersion(id, fromVersion),
+      storage.getAiSystemVersion(id, toVersion),
+    ]);
+    if (!from) {
+      throw new SystemVersionNotFoundError(id, fromVersion);
+    }
+    if (!to) {
+      throw new SystemVersionNotFoundError(id, toVersion);
+    }
+
+    const changes = this.diff(from.snapshot, to.snapshot);
+    const substantialReasons = this.detectSubstantial(from.snapshot, to.snapshot, changes);
+    return { from, to, changes, isSubstantial: substantialReasons.length > 0, substantialReasons };
+  }
+
+  /**
+   * Règles de détection : finalité prévue, réponses déterminantes pour le risque, domaine de l'Annexe III
+   */
+  detectSubstantial(
+    previous: AiSystemVersionSnapshot,
+    next: AiSystemVersionSnapshot,
+    changes: AiSystemVersionChange[] = this.diff(previous, next)
+  ): string[] {
+    const reasons: string[] = [];
+    const changed = changes.map(change => change.field);
+
+    const purpose = changed.filter(field => INTENDED_PURPOSE_FIELDS.includes(field));
+    if (purpose.length > 0) {
+      reasons.push(`Finalité prévue modifiée (${purpose.map(field => field.replace('riskAnswers.', '')).join(', ')})`);
+    }
+
+    const riskAnswers = changed
+      .filter(field => field.startsWith('riskAnswers.') && !INTENDED_PURPOSE_FIELDS.includes(field))
+      .map(field => field.replace('riskAnswers.', ''));
+    if (riskAnswers.length > 0) {
+      reasons.push(`Réponses déterminantes pour le risque modifiées (${riskAnswers.join(', ')})`);
+    }
+
+    const previousDomains = this.annexIIIDomains(previous);
+    const nextDomains = this.annexIIIDomains(next);
+    if (previousDomains.join() !== nextDomains.join()) {
+      const label = (domains: string[]) => domains
+        .map(domain => ANNEX_III_AREAS.find(area => area.id === domain)?.title || domain)
+        .join(', ') || 'aucun';
+      reasons.push(`Domaine de l'Annexe III modifié : ${label(previousDomains)} → ${label(nextDomains)}`);
+    }
+
+    return reasons;
+  }
+
+  private async getSystem(context: OrganizationContext, id: string): Promise<AiSystem> {
+    const system = await storage.getAiSystem(id);
+    if (!system || !organizationService.canAccessRecord(context, system)) {
+      throw new AiSystemNotFoundError(id);
+    }
+    return system;
+  }
+
+  /**
+   * Les systèmes créés avant l'historisation reçoivent leur état courant comme première version
+   */
+  private async ensureBaseline(system: AiSystem): Promise<AiSystemVersion> {
+    const [latest] = await storage.getAiSystemVersions(system.id);
+    return latest || this.recordInitial(system, system.userId);
+  }
+
+  private snapshot(system: AiSystem): AiSystemVersionSnapshot {
+    const assessmentData = (system.assessmentData as Record<string, unknown>) || {};
+    const riskAnswers: Record<string, unknown> = {};
+    for (const answer of RISK_DRIVING_ANSWERS) {
+      if (assessmentData[answer] !== undefined) {
+        riskAnswers[answer] = assessmentData[answer];
+      }
+    }
+
+    return {
+      name: system.name,
+      description: system.description,
+      sector: system.sector,
+      primaryUseCase: system.primaryUseCase,
+      modelDetails: system.modelDetails,
+      dataDetails: system.dataDetails,
+      riskAnswers,
+    };
+  }
+
+  private diff(previous: AiSystemVersionSnapshot, next: AiSystemVersionSnapshot): AiSystemVersionChange[] {
+    const changes: AiSystemVersionChange[] = [];
+    const compare = (field: string, from: unknown, to: unknown) => {
+      if (JSON.stringify(from ?? null) !== JSON.stringify(to ?? null)) {
+        changes.push({ field, from: from ?? null, to: to ?? null });
+      }
+    };
+
+    const fields = ['name', 'description', 'sector', 'primaryUseCase', 'modelDetails', 'dataDetails'] as const;
+    for (const field of fields) {
+      compare(field, previous[field], next[field]);
+    }
+    for (const answer of RISK_DRIVING_ANSWERS) {
+      compare(`riskAnswers.${answer}`, previous.riskAnswers?.[answer], next.riskAnswers?.[answer]);
+    }
+    return changes;
+  }
+
+  private annexIIIDomains(snapshot: AiSystemVersionSnapshot): string[] {
+    const domains = [
+      snapshot.sector ? ANNEX_III_SECTORS[snapshot.sector] : undefined,
+      snapshot.primaryUseCase ? ANNEX_III_USE_CASES[snapshot.primaryUseCase] : undefined,
+    ].filter((domain): domain is string => !!domain);
+    return Array.from(new Set(domains)).sort();
+  }
+
+  private async revokeCertificates(system: AiSystem, version: AiSystemVersion): Promise<number> {
+    const certificates = await storage.getCertificatesBySystem(system.id);
+    const valid = certificates.filter(certificate => certificate.status === 'valid');
+
+    for (const certificate of valid) {
+      await certificateLifecycleService.revoke(
+        certificate,
+        `Modification substantielle du système (version ${version.version}) : ${version.substantialReasons.join(' ; ')}`
+      );
+    }
+    return valid.length;
+  }
+}
+
+export const systemVersionService = new SystemVersionService();
@@ -0,0 +1,108 @@
+/**
+ * Use Case Risk Mapping Service
+ * Profils de risque de référence par cas d'usage et secteur (niveaux attendus par dimension, côté clients
+ * et côté collaborateurs), administrés par les administrateurs de la plateforme et proposés lors des évaluations
+ */
+
+import { storage } from '../storage';
+import { ValidationError } from '../errors/SecurityErrors';
+import { createServiceLogger } from '../utils/logger';
+import { DEFAULT_USE_CASE_RISK_PROFILES } from '../data/useCaseRiskProfiles';
+import {
+  updateUseCaseRiskMappingSchema,
+  useCaseRiskMappingInputSchema,
+  useCaseRiskProfileQuerySchema,
+  type UseCaseRiskMapping,
+} from '@shared/schema';
+
+const logger = createServiceLogger('UseCaseRiskMappingService');
+
+export class UseCaseRiskMappingNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Use case risk mapping ${id} not found`);
+    this.name = 'UseCaseRiskMappingNotFoundError';
+  }
+}
+
+export class UseCaseRiskMappingService {
+  /**
+   * Enregistre les profils de référence par défaut si aucun profil n'a encore été saisi
+   */
+  async ensureDefaultMappings(): Promise<void> {
+    const mappings = await storage.getUseCaseRiskMappings();
+    if (mappings.length > 0) {
+      return;
+    }
+
+    for (const profile of DEFAULT_USE_CASE_RISK_PROFILES) {
+      await storage.createUseCaseRiskMapping({ ...profile, industrySector: null });
+    }
+    logger.info('Default use case risk mappings created', { count: DEFAULT_USE_CASE_RISK_PROFILES.length });
+  }
+
+  async listMappings(): Promise<UseCaseRiskMapping[]> {
+    return storage.getUseCaseRiskMappings();
+  }
+
+  /**
+   * Profil de référence d'un cas d'usage : celui du secteur s'il existe, sinon le profil tous secteurs
+   */
+  async getReferenceProfile(query: unknown): Promise<UseCaseRiskMapping | null> {
+    const { useCase, industrySector } = useCaseRiskProfileQuerySchema.parse(query);
+    const candidates = (await storage.getUseCaseRiskMappings())
+      .filter(mapping => mapping.isActive && mapping.useCase === useCase);
+
+    return candidates.find(mapping => !!industrySector && mapping.industrySector === industrySector)
+      || candidates.find(mapping => !mapping.industrySector)
+      || null;
+  }
+
+  async createMapping(input: unknown): Promise<UseCaseRiskMapping> {
+    const data = useCaseRiskMappingInputSchema.parse(input);
+    await this.assertUnique(data.useCase, data.industrySector ?? null);
+
+    const mapping = await storage.createUseCaseRiskMapping({ ...data, industrySector: data.industrySector ?? null });
+    logger.info('Use case risk mapping created', { mappingId: mapping.id, useCase: mapping.useCase, industrySector: mapping.industrySector });
+    return mapping;
+  }
+
+  async updateMapping(id: string, input: unknown): Promise<UseCaseRiskMapping> {
+    const mapping = await this.getMapping(id);
+    const data = updateUseCaseRiskMappingSchema.parse(input);
+
+    const useCase = data.useCase ?? mapping.useCase;
+    const industrySector = data.industrySector !== undefined ? data.industrySector : mapping.industrySector;
+    if (useCase !== mapping.useCase || industrySector !== mapping.industrySector) {
+      await this.assertUnique(useCase, industrySector, id);
+    }
+
+    return storage.updateUseCaseRiskMapping(id, data);
+  }
+
+  async deleteMapping(id: string): Promise<void> {
+    const mapping = await this.getMapping(id);
+    await storage.deleteUseCaseRiskMapping(id);
+    logger.info('Use case risk mapping deleted', { mappingId: id, useCase: mapping.useCase });
+  }
+
+  // Un seul profil par cas d'usage et par secteur (ou tous secteurs)
+  private async assertUnique(useCase: string, industrySector: string | null, excludedId?: string): Promise<void> {
+    const mappings = await storage.getUseCaseRiskMappings();
+    const duplicate = mappings.some(mapping =>
+      mapping.id !== excludedId && mapping.useCase === useCase && (mapping.industrySector ?? null) === industrySector
+    );
+    if (duplicate) {
+      throw new ValidationError(`A risk mapping already exists for use case ${useCase} ${industrySector ? `in sector ${industrySector}` : 'for all sectors'}`);
+    }
+  }
+
+  private async getMapping(id: string): Promise<UseCaseRiskMapping> {
+    const mapping = await storage.getUseCaseRiskMapping(id);
+    if (!mapping) {
+      throw new UseCaseRiskMappingNotFoundError(id);
+    }
+    return mapping;
+  }
+}
+
+export const useCaseRiskMappingService = new UseCaseRiskMappingService();
@@ -432,7 +432,8 @@ export class ApprovalStepHandler extends BaseStepHandler {
   validateConfiguration(config: Record<string, any>): ValidationResult {
     const result = super.validateConfiguration(config);
 
-    if (!config.approvers || !Array.isArray(config.approvers)) {
+    // Identifiants des utilisateurs autorisés à approuver l'étape
+    if (!Array.isArray(config.approvers) || config.approvers.length === 0) {
       result.errors.push({
         field: 'approvers',
         message: 'Approvers list is required',
@@ -0,0 +1,408 @@
+/**
+ * Moteur d'exécution des workflows
+ * Parcourt les étapes d'une définition, persiste les entrées/sorties de chaque étape
+ * et suspend l'exécution lorsqu'une étape attend une action utilisateur
+ */
+
+import { storage } from "../../storage";
+import { createServiceLogger } from "../../utils/logger";
+import {
+  workflowConfigurationService,
+  WorkflowConfigurationError,
+  type IWorkflowStepHandler,
+  type WorkflowExecutionContext,
+} from "../WorkflowConfigurationService";
+import { DEFAULT_STEP_HANDLERS } from "./StepHandlers";
+import { generateTimestamp, mergeOutputData } from "./WorkflowHelpers";
+import type {
+  WorkflowDefinition,
+  WorkflowExecution,
+  WorkflowStepExecution,
+} from "@shared/schema";
+
+const logger = createServiceLogger('WorkflowEngine');
+
+export interface WorkflowExecutionDetails extends WorkflowExecution {
+  workflowName: string;
+  steps: WorkflowStepExecution[];
+}
+
+export interface StartWorkflowParams {
+  workflowDefinitionId: string;
+  organizationId: string;
+  userId: string;
+  aiSystemId?: string;
+  inputData?: Record<string, any>;
+}
+
+export interface AdvanceWorkflowParams {
+  userId: string;
+  inputData?: Record<string, any>;
+  approved?: boolean;
+  comment?: string;
+}
+
+/**
+ * Erreur d'état : action impossible sur l'exécution dans son statut actuel
+ */
+export class WorkflowStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowStateError';
+  }
+}
+
+/**
+ * L'utilisateur ne figure pas parmi les approbateurs de l'étape en attente
+ */
+export class WorkflowApprovalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowApprovalError';
+  }
+}
+
+interface WorkflowApprovalDecision {
+  approved: boolean;
+  comment?: string;
+  decidedAt: string;
+}
+
+export class WorkflowEngine {
+  constructor(handlers: IWorkflowStepHandler[] = DEFAULT_STEP_HANDLERS) {
+    handlers.forEach(handler => workflowConfigurationService.registerStepHandler(handler));
+  }
+
+  /**
+   * Démarre une exécution et avance jusqu'à la première étape bloquante
+   */
+  async start(params: StartWorkflowParams): Promise<WorkflowExecutionDetails> {
+    const definition = await storage.getWorkflowDefinition(params.workflowDefinitionId);
+    if (!definition || definition.organizationId !== params.organizationId) {
+      throw new WorkflowStateError('Workflow definition not found');
+    }
+    if (!definition.isActive) {
+      throw new WorkflowStateError('Workflow definition is inactive');
+    }
+
+    // La définition a pu être enregistrée avant l'ajout d'un type d'étape
+    const validation = workflowConfigurationService.validateConfiguration(definition.configuration);
+    if (!validation.isValid) {
+      throw new WorkflowConfigurationError('Invalid workflow configuration', validation);
+    }
+
+    const execution = await storage.createWorkflowExecution({
+      workflowDefinitionId: definition.id,
+      organizationId: params.organizationId,
+      aiSystemId: params.aiSystemId,
+      startedBy: params.userId,
+      status: 'running',
+      currentStepIndex: 0,
+      inputData: params.inputData || {},
+      variables: params.inputData || {},
+      outputData: {},
+    });
+
+    logger.info('Workflow execution started', {
+      executionId: execution.id,
+      definitionId: definition.id,
+      userId: params.userId
+    });
+
+    await this.runSteps(execution, definition, params.userId);
+    return this.getExecutionDetails(execution.id) as Promise<WorkflowExecutionDetails>;
+  }
+
+  /**
+   * Reprend une exécution suspendue : données saisies, approbation ou rejet
+   */
+  async advance(executionId: string, params: AdvanceWorkflowParams): Promise<WorkflowExecutionDetails> {
+    const execution = await storage.getWorkflowExecution(executionId);
+    if (!execution) {
+      throw new WorkflowStateError('Workflow execution not found');
+    }
+    if (execution.status !== 'awaiting_input') {
+      throw new WorkflowStateError(`Workflow execution is ${execution.status}, not awaiting input`);
+    }
+
+    const definition = await storage.getWorkflowDefinition(execution.workflowDefinitionId);
+    if (!definition) {
+      throw new WorkflowStateError('Workflow definition not found');
+    }
+
+    const steps = await storage.getWorkflowStepExecutions(executionId);
+    const pendingStep = steps.find(step => step.status === 'awaiting_input');
+    if (!pendingStep) {
+      throw new WorkflowStateError('No step is awaiting input');
+    }
+
+    if (pendingStep.stepType === 'approval') {
+      return this.recordApproval(execution, definition, pendingStep, params);
+    }
+
+    // Hors collecte de données, une étape en attente attend une décision : l'omettre ne vaut pas approbation
+    if (pendingStep.stepType !== 'data_collection' && typeof params.approved !== 'boolean') {
+      throw new WorkflowStateError(`Step "${pendingStep.stepId}" requires an explicit approved decision`);
+    }
+
+    const submittedData = params.inputData || {};
+
+    if (params.approved === false) {
+      await this.rejectStep(execution, pendingStep, params, { submittedData, approved: false, comment: params.comment });
+      return this.getExecutionDetails(executionId) as Promise<WorkflowExecutionDetails>;
+    }
+
+    await this.completeStep(execution, definition, pendingStep, params.userId, submittedData, {
+      submittedData,
+      approved: params.approved,
+      comment: params.comment,
+    });
+    return this.getExecutionDetails(executionId) as Promise<WorkflowExecutionDetails>;
+  }
+
+  /**
+   * Enregistre la décision d'un approbateur ; l'étape n'est terminée qu'une fois la règle
+   * d'approbation (any, all ou majority) satisfaite, et rejetée dès qu'elle ne peut plus l'être
+   */
+  private async recordApproval(
+    execution: WorkflowExecution,
+    definition: WorkflowDefinition,
+    pendingStep: WorkflowStepExecution,
+    params: AdvanceWorkflowParams
+  ): Promise<WorkflowExecutionDetails> {
+    const output = pendingStep.outputData || {};
+    const approvers: string[] = Array.isArray(output.approvers) ? output.approvers.map(String) : [];
+    if (!approvers.includes(params.userId)) {
+      throw new WorkflowApprovalError(`User is not an approver of step "${pendingStep.stepId}"`);
+    }
+    if (typeof params.approved !== 'boolean') {
+      throw new WorkflowStateError(`Step "${pendingStep.stepId}" requires an explicit approved decision`);
+    }
+
+    const approvals: Record<string, WorkflowApprovalDecision> = { ...(output.approvals || {}) };
+    if (approvals[params.userId]) {
+      throw new WorkflowStateError('Approval decision already recorded for this user');
+    }
+    approvals[params.userId] = { approved: params.approved, comment: params.comment, decidedAt: generateTimestamp() };
+
+    const decisions = approvers.map(approverId => approvals[approverId]).filter(Boolean);
+    const approvedCount = decisions.filter(decision => decision.approved).length;
+    const rejectedCount = decisions.length - approvedCount;
+    const required = output.approvalType === 'any'
+      ? 1
+      : output.approvalType === 'majority' ? Math.floor(approvers.length / 2) + 1 : approvers.length;
+
+    logger.info('Workflow approval recorded', {
+      executionId: execution.id,
+      stepId: pendingStep.stepId,
+      userId: params.userId,
+      approved: params.approved
+    });
+
+    if (approvedCount >= required) {
+      await this.completeStep(execution, definition, pendingStep, params.userId, {}, { approvals });
+    } else if (rejectedCount > approvers.length - required) {
+      await this.rejectStep(execution, pendingStep, params, { approvals });
+    } else {
+      await storage.updateWorkflowStepExecution(pendingStep.id, {
+        outputData: mergeOutputData(output, { approvals }),
+      });
+    }
+    return this.getExecutionDetails(execution.id) as Promise<WorkflowExecutionDetails>;
+  }
+
+  private async rejectStep(
+    execution: WorkflowExecution,
+    pendingStep: WorkflowStepExecution,
+    params: AdvanceWorkflowParams,
+    output: Record<string, any>
+  ): Promise<void> {
+    await storage.updateWorkflowStepExecution(pendingStep.id, {
+      status: 'failed',
+      outputData: mergeOutputData(pendingStep.outputData || {}, output),
+      errors: [params.comment || 'Step rejected'],
+      completedBy: params.userId,
+      completedAt: new Date(),
+    });
+
+    await storage.updateWorkflowExecution(execution.id, {
+      status: 'failed',
+      error: `Step "${pendingStep.stepId}" rejected`,
+      completedAt: new Date(),
+    });
+
+    logger.info('Workflow step rejected', { executionId: execution.id, stepId: pendingStep.stepId, userId: params.userId });
+  }
+
+  private async completeStep(
+    execution: WorkflowExecution,
+    definition: WorkflowDefinition,
+    pendingStep: WorkflowStepExecution,
+    userId: string,
+    submittedData: Record<string, any>,
+    output: Record<string, any>
+  ): Promise<void> {
+    const stepOutput = mergeOutputData(pendingStep.outputData || {}, {
+      ...output,
+      completedAt: generateTimestamp(),
+    });
+
+    await storage.updateWorkflowStepExecution(pendingStep.id, {
+      status: 'completed',
+      outputData: stepOutput,
+      completedBy: userId,
+      completedAt: new Date(),
+    });
+
+    const updated = await storage.updateWorkflowExecution(execution.id, {
+      status: 'running',
+      currentStepIndex: pendingStep.stepIndex + 1,
+      variables: { ...(execution.variables || {}), ...submittedData },
+      outputData: { ...(execution.outputData || {}), [pendingStep.stepId]: stepOutput },
+    });
+
+    await this.runSteps(updated, definition, userId);
+  }
+
+  async cancel(executionId: string, userId: string): Promise<WorkflowExecutionDetails> {
+    const execution = await storage.getWorkflowExecution(executionId);
+    if (!execution) {
+      throw new WorkflowStateError('Workflow execution not found');
+    }
+    if (execution.status === 'completed' || execution.status === 'failed' || execution.status === 'cancelled') {
+      throw new WorkflowStateError(`Workflow execution is already ${execution.status}`);
+    }
+
+    const steps = await storage.getWorkflowStepExecutions(executionId);
+    for (const step of steps.filter(s => s.status === 'awaiting_input' || s.status === 'running')) {
+      await storage.updateWorkflowStepExecution(step.id, { status: 'skipped', completedAt: new Date() });
+    }
+
+    await storage.updateWorkflowExecution(executionId, { status: 'cancelled', completedAt: new Date() });
+    logger.info('Workflow execution cancelled', { executionId, userId });
+
+    return this.getExecutionDetails(executionId) as Promise<WorkflowExecutionDetails>;
+  }
+
+  async getExecutionDetails(executionId: string): Promise<WorkflowExecutionDetails | undefined> {
+    const execution = await storage.getWorkflowExecution(executionId);
+    if (!execution) {
+      return undefined;
+    }
+
+    const [definition, steps] = await Promise.all([
+      storage.getWorkflowDefinition(execution.workflowDefinitionId),
+      storage.getWorkflowStepExecutions(executionId),
+    ]);
+
+    return {
+      ...execution,
+      workflowName: definition?.name || '',
+      steps,
+    };
+  }
+
+  /**
+   * Exécute les étapes à partir de currentStepIndex jusqu'à la fin,
+   * un échec ou une étape qui attend une action utilisateur
+   */
+  private async runSteps(
+    execution: WorkflowExecution,
+    definition: WorkflowDefinition,
+    userId: string
+  ): Promise<void> {
+    const steps = definition.configuration.customSteps;
+    let current = execution;
+
+    while ((current.currentStepIndex ?? 0) < steps.length) {
+      const stepIndex = current.currentStepIndex ?? 0;
+      const stepDefinition = steps[stepIndex];
+      const handler = workflowConfigurationService.getStepHandler(stepDefinition.type)!;
+
+      const variables = current.variables || {};
+      const stepOutputs = current.outputData || {};
+      const inputData = { ...variables, previousOutputs: stepOutputs };
+
+      const stepExecution = await storage.createWorkflowStepExecution({
+        workflowExecutionId: current.id,
+        stepId: stepDefinition.id,
+        stepType: stepDefinition.type,
+        stepIndex,
+        status: 'running',
+        inputData,
+      });
+
+      const context: WorkflowExecutionContext = {
+        execution: current,
+        configuration: definition,
+        userId,
+        organizationId: current.organizationId,
+        aiSystemId: current.aiSystemId,
+        variables,
+        stepOutputs,
+      };
+
+      let result;
+      try {
+        result = await handler.execute(stepExecution, inputData, context);
+      } catch (error) {
+        logger.error('Workflow step crashed', error as Error, { executionId: current.id, stepId: stepDefinition.id });
+        result = {
+          success: false,
+          outputData: {},
+          errors: [error instanceof Error ? error.message : 'Step execution failed'],
+        };
+      }
+
+      if (!result.success) {
+        await storage.updateWorkflowStepExecution(stepExecution.id, {
+          status: 'failed',
+          outputData: result.outputData,
+          errors: result.errors,
+          warnings: result.warnings,
+          completedAt: new Date(),
+        });
+        await storage.updateWorkflowExecution(current.id, {
+          status: 'failed',
+          error: `Step "${stepDefinition.id}" failed: ${(result.errors || []).join('; ')}`,
+          completedAt: new Date(),
+        });
+        logger.warn('Workflow execution failed', { executionId: current.id, stepId: stepDefinition.id });
+        return;
+      }
+
+      if (result.requiresApproval) {
+        await storage.updateWorkflowStepExecution(stepExecution.id, {
+          status: 'awaiting_input',
+          outputData: result.outputData,
+          warnings: result.warnings,
+        });
+        await storage.updateWorkflowExecution(current.id, {
+          status: 'awaiting_input',
+          currentStepIndex: stepIndex,
+        });
+        return;
+      }
+
+      await storage.updateWorkflowStepExecution(stepExecution.id, {
+        status: 'completed',
+        outputData: result.outputData,
+        warnings: result.warnings,
+        completedAt: new Date(),
+      });
+
+      current = await storage.updateWorkflowExecution(current.id, {
+        currentStepIndex: stepIndex + 1,
+        outputData: { ...stepOutputs, [stepDefinition.id]: result.outputData },
+      });
+    }
+
+    await storage.updateWorkflowExecution(current.id, {
+      status: 'completed',
+      completedAt: new Date(),
+    });
+    logger.info('Workflow execution completed', { executionId: current.id });
+  }
+}
+
+export const workflowEngine = new WorkflowEngine();
@@ -1,14 +1,38 @@
 import {
   users,
+  organizations,
+  organizationMemberships,
   aiSystems,
   riskAssessments,
   aiActArticles,
   complianceRecords,
+  evidenceAttachments,
   generatedDocuments,
   regulatoryUpdates,
+  regulatorySources,
+  regulatorySyncRuns,
+  regulatoryInsights,
+  systemReassessments,
+  aiSystemVersions,
+  gpaiModels,
+  prohibitedPracticeScreenings,
+  highRiskClassifications,
+  assessmentDrafts,
+  frameworkVersions,
+  frameworkQuestions,
+  useCaseRiskMapping,
+  actionItems,
+  actionItemDependencies,
+  actionItemComments,
   llmSettings,
   maturityAssessments,
   complianceCertificates,
+  certificateReminders,
+  notifications,
+  personalAccessTokens,
+  workflowDefinitions,
+  workflowExecutions,
+  workflowStepExecutions,
   // Security tables
   securitySettings,
   userMfaSettings,
@@ -18,6 +42,12 @@ import {
   failedLoginAttempts,
   type User,
   type UpsertUser,
+  type SafeUser,
+  type Organization,
+  type InsertOrganization,
+  type OrganizationMembership,
+  type InsertOrganizationMembership,
+  type OrganizationRole,
   type AiSystem,
   type InsertAiSystem,
   type RiskAssessment,
@@ -25,15 +55,57 @@ import {
   type AiActArticle,
   type ComplianceRecord,
   type InsertComplianceRecord,
+  type EvidenceAttachment,
+  type InsertEvidenceAttachment,
   type GeneratedDocument,
   type InsertGeneratedDocument,
   type RegulatoryUpdate,
+  type RegulatorySource,
+  type InsertRegulatorySource,
+  type RegulatorySyncRun,
+  type PersonalAccessToken,
+  type InsertPersonalAccessToken,
+  type InsertRegulatorySyncRun,
+  type RegulatoryInsightRecord,
+  type InsertRegulatoryInsightRecord,
+  type SystemReassessment,
+  type AiSystemVersion,
+  type InsertAiSystemVersion,
+  type GpaiModel,
+  type InsertGpaiModel,
+  type ProhibitedPracticeScreening,
+  type InsertProhibitedPracticeScreening,
+  type HighRiskClassification,
+  type InsertHighRiskClassification,
+  type AssessmentDraft,
+  type FrameworkVersion,
+  type InsertFrameworkVersion,
+  type FrameworkQuestion,
+  type InsertFrameworkQuestion,
+  type UseCaseRiskMapping,
+  type InsertUseCaseRiskMapping,
+  type InsertAssessmentDraft,
+  type InsertSystemReassessment,
+  type ActionItem,
+  type InsertActionItem,
+  type ActionItemDependency,
+  type ActionItemComment,
+  type InsertActionItemComment,
   type LlmSettings,
   type InsertLlmSettings,
   type MaturityAssessment,
   type InsertMaturityAssessment,
   type ComplianceCertificate,
   type InsertComplianceCertificate,
+  type CertificateReminder,
+  type Notification,
+  type InsertNotification,
+  type WorkflowDefinition,
+  type InsertWorkflowDefinition,
+  type WorkflowExecution,
+  type InsertWorkflowExecution,
+  type WorkflowStepExecution,
+  type InsertWorkflowStepExecution,
   // Security types
   type SecuritySettings,
   type InsertSecuritySettings,
@@ -50,7 +122,19 @@ import {
   type InsertFailedLoginAttempt,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql, ilike } from "drizzle-orm";
+import { eq, ne, desc, and, sql, ilike, isNull, lte, gte, inArray } from "drizzle-orm";
+
+export type OrganizationMembershipWithOrganization = OrganizationMembership & {
+  organization: Organization;
+};
+
+export type OrganizationMemberWithUser = OrganizationMembership & {
+  user: Pick<SafeUser, 'id' | 'email' | 'firstName' | 'lastName'>;
+};
+
+export type EvidenceAttachmentWithArticle = EvidenceAttachment & {
+  articleNumber: string | null;
+};
 
 export interface IStorage {
   // User operations (autonomous auth)
@@ -58,15 +142,60 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
 
+  // Organizations
+  createOrganization(organization: InsertOrganization): Promise<Organization>;
+  getOrganization(id: string): Promise<Organization | undefined>;
+  updateOrganization(id: string, updates: Partial<InsertOrganization>): Promise<Organization>;
+  getOrganizationMembershipsByUser(userId: string): Promise<OrganizationMembershipWithOrganization[]>;
+  getOrganizationMembership(organizationId: string, userId: string): Promise<OrganizationMembership | undefined>;
+  getOrganizationMembers(organizationId: string): Promise<OrganizationMemberWithUser[]>;
+  createOrganizationMembership(membership: InsertOrganizationMembership): Promise<OrganizationMembership>;
+  updateOrganizationMembershipRole(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMembership>;
+  deleteOrganizationMembership(organizationId: string, userId: string): Promise<void>;
+  assignUserRecordsToOrganization(userId: string, organizationId: string): Promise<void>;
+
   // AI Systems
   createAiSystem(aiSystem: InsertAiSystem): Promise<AiSystem>;
   getAiSystemsByUser(userId: string): Promise<AiSystem[]>;
+  getAiSystemsByOrganization(organizationId: string): Promise<AiSystem[]>;
   getAiSystem(id: string): Promise<AiSystem | undefined>;
   updateAiSystem(id: string, updates: Partial<InsertAiSystem>): Promise<AiSystem>;
   deleteAiSystem(id: string): Promise<void>;
+  getAiSystemVersions(aiSystemId: string): Promise<AiSystemVersion[]>;
+  getAiSystemVersion(aiSystemId: string, version: number): Promise<AiSystemVersion | undefined>;
+  createAiSystemVersion(version: InsertAiSystemVersion): Promise<AiSystemVersion>;
+  updateAiSystemWithVersion(id: string, updates: Partial<InsertAiSystem>, version: InsertAiSystemVersion): Promise<{ system: AiSystem; version: AiSystemVersion }>;
+
+  // GPAI models
+  createGpaiModel(model: InsertGpaiModel): Promise<GpaiModel>;
+  getGpaiModelsByOrganization(organizationId: string): Promise<GpaiModel[]>;
+  getGpaiModel(id: string): Promise<GpaiModel | undefined>;
+  updateGpaiModel(id: string, updates: Partial<InsertGpaiModel>): Promise<GpaiModel>;
+  deleteGpaiModel(id: string): Promise<void>;
+  setGpaiModelSystems(gpaiModelId: string, aiSystemIds: string[]): Promise<void>;
+
+  // Art. 5 prohibited practices screenings
+  getProhibitedPracticeScreenings(aiSystemId: string): Promise<ProhibitedPracticeScreening[]>;
+  createProhibitedPracticeScreening(screening: InsertProhibitedPracticeScreening): Promise<{ system: AiSystem; screening: ProhibitedPracticeScreening }>;
+
+  // Art. 6 high-risk classifications
+  getHighRiskClassifications(aiSystemId: string): Promise<HighRiskClassification[]>;
+  createHighRiskClassification(classification: InsertHighRiskClassification): Promise<HighRiskClassification>;
+
+  // Assessment drafts
+  createAssessmentDraft(draft: InsertAssessmentDraft): Promise<AssessmentDraft>;
+  getAssessmentDraft(id: string): Promise<AssessmentDraft | undefined>;
+  getAssessmentDraftsByOrganization(organizationId: string): Promise<AssessmentDraft[]>;
+  updateAssessmentDraft(id: string, updates: Partial<InsertAssessmentDraft>): Promise<AssessmentDraft>;
+  updateAssessmentDraftLocked(
+    id: string,
+    apply: (draft: AssessmentDraft) => Partial<InsertAssessmentDraft>
+  ): Promise<AssessmentDraft | undefined>;
+  deleteAssessmentDraft(id: string): Promise<void>;
 
   // Risk Assessments
   createRiskAssessment(assessment: InsertRiskAssessment): Promise<RiskAssessment>;
+  getRiskAssessment(id: string): Promise<RiskAssessment | undefined>;
   getRiskAssessmentsBySystem(aiSystemId: string): Promise<RiskAssessment[]>;
   getLatestRiskAssessment(aiSystemId: string): Promise<RiskAssessment | undefined>;
 
@@ -78,6 +207,7 @@ export interface IStorage {
 
   // Compliance Records
   getComplianceRecordsBySystem(aiSystemId: string): Promise<ComplianceRecord[]>;
+  getComplianceRecord(id: string): Promise<ComplianceRecord | undefined>;
   upsertComplianceRecord(record: InsertComplianceRecord): Promise<ComplianceRecord>;
   getComplianceOverview(userId: string): Promise<{
     total: number;
@@ -86,14 +216,54 @@ export interface IStorage {
     overdue: number;
   }>;
 
+  // Evidence Attachments
+  createEvidenceAttachment(attachment: InsertEvidenceAttachment): Promise<EvidenceAttachment>;
+  getEvidenceAttachment(id: string): Promise<EvidenceAttachment | undefined>;
+  getEvidenceBySystem(aiSystemId: string): Promise<EvidenceAttachmentWithArticle[]>;
+  getEvidenceByComplianceRecord(complianceRecordId: string): Promise<EvidenceAttachmentWithArticle[]>;
+  deleteEvidenceAttachment(id: string): Promise<void>;
+
   // Document Generation
   createGeneratedDocument(document: InsertGeneratedDocument): Promise<GeneratedDocument>;
   getDocumentsBySystem(aiSystemId: string): Promise<GeneratedDocument[]>;
   getDocumentsByUser(userId: string): Promise<GeneratedDocument[]>;
+  getDocumentsByOrganization(organizationId: string): Promise<GeneratedDocument[]>;
 
   // Regulatory Monitoring
   getRegulatoryUpdates(limit?: number): Promise<RegulatoryUpdate[]>;
   createRegulatoryUpdate(update: Omit<RegulatoryUpdate, 'id' | 'createdAt'>): Promise<RegulatoryUpdate>;
+  getRegulatorySources(): Promise<RegulatorySource[]>;
+  getRegulatorySource(id: string): Promise<RegulatorySource | undefined>;
+  getRegulatorySourceByKey(key: string): Promise<RegulatorySource | undefined>;
+  createRegulatorySource(source: InsertRegulatorySource): Promise<RegulatorySource>;
+  updateRegulatorySource(id: string, updates: Partial<InsertRegulatorySource>): Promise<RegulatorySource>;
+  deleteRegulatorySource(id: string): Promise<void>;
+  createRegulatorySyncRun(run: InsertRegulatorySyncRun): Promise<RegulatorySyncRun>;
+  updateRegulatorySyncRun(id: string, updates: Partial<InsertRegulatorySyncRun>): Promise<RegulatorySyncRun>;
+  getRegulatorySyncRuns(limit?: number): Promise<RegulatorySyncRun[]>;
+  getRegulatorySyncRunsSince(since: Date): Promise<RegulatorySyncRun[]>;
+  failRunningRegulatorySyncRuns(error: string): Promise<number>;
+
+  // Regulatory insights and action items
+  createRegulatoryInsight(insight: InsertRegulatoryInsightRecord): Promise<RegulatoryInsightRecord>;
+  getRegulatoryInsightsByOrganization(organizationId: string, limit?: number): Promise<RegulatoryInsightRecord[]>;
+  getRegulatoryInsight(id: string): Promise<RegulatoryInsightRecord | undefined>;
+  createSystemReassessment(reassessment: InsertSystemReassessment): Promise<SystemReassessment>;
+  getSystemReassessment(id: string): Promise<SystemReassessment | undefined>;
+  getSystemReassessmentsByOrganization(organizationId: string): Promise<SystemReassessment[]>;
+  getOpenSystemReassessments(aiSystemId: string): Promise<SystemReassessment[]>;
+  getPendingSystemReassessmentsDueBefore(date: Date): Promise<SystemReassessment[]>;
+  updateSystemReassessment(id: string, updates: Partial<InsertSystemReassessment>): Promise<SystemReassessment>;
+  createActionItem(item: InsertActionItem): Promise<ActionItem>;
+  getActionItemsByOrganization(organizationId: string): Promise<ActionItem[]>;
+  getActionItemsByInsight(insightId: string): Promise<ActionItem[]>;
+  getActionItem(id: string): Promise<ActionItem | undefined>;
+  updateActionItem(id: string, updates: Partial<InsertActionItem>): Promise<ActionItem>;
+  deleteActionItem(id: string): Promise<void>;
+  getActionItemDependenciesByOrganization(organizationId: string): Promise<ActionItemDependency[]>;
+  setActionItemDependencies(actionItemId: string, dependsOnIds: string[]): Promise<void>;
+  createActionItemComment(comment: InsertActionItemComment): Promise<ActionItemComment>;
+  getActionItemComments(actionItemId: string): Promise<ActionItemComment[]>;
 
   // LLM Settings
   getLlmSettings(userId: string): Promise<LlmSettings[]>;
@@ -105,14 +275,65 @@ export interface IStorage {
   getMaturityAssessmentsByUser(userId: string): Promise<MaturityAssessment[]>;
   getLatestMaturityAssessment(userId: string): Promise<MaturityAssessment | undefined>;
 
+  // Framework question bank
+  getFrameworkVersions(): Promise<FrameworkVersion[]>;
+  getFrameworkVersion(id: string): Promise<FrameworkVersion | undefined>;
+  getFrameworkVersionByNumber(version: string): Promise<FrameworkVersion | undefined>;
+  getPublishedFrameworkVersion(): Promise<FrameworkVersion | undefined>;
+  createFrameworkVersion(version: InsertFrameworkVersion, questions: Omit<InsertFrameworkQuestion, 'frameworkVersion'>[]): Promise<FrameworkVersion>;
+  publishFrameworkVersion(id: string, userId: string): Promise<FrameworkVersion>;
+  deleteFrameworkVersion(id: string): Promise<void>;
+  getFrameworkQuestions(version: string): Promise<FrameworkQuestion[]>;
+  getFrameworkQuestion(id: string): Promise<FrameworkQuestion | undefined>;
+  createFrameworkQuestion(question: InsertFrameworkQuestion): Promise<FrameworkQuestion>;
+  updateFrameworkQuestion(id: string, updates: Partial<InsertFrameworkQuestion>): Promise<FrameworkQuestion>;
+  deleteFrameworkQuestion(id: string): Promise<void>;
+
+  // Use case risk mappings
+  getUseCaseRiskMappings(): Promise<UseCaseRiskMapping[]>;
+  getUseCaseRiskMapping(id: string): Promise<UseCaseRiskMapping | undefined>;
+  createUseCaseRiskMapping(mapping: InsertUseCaseRiskMapping): Promise<UseCaseRiskMapping>;
+  updateUseCaseRiskMapping(id: string, updates: Partial<InsertUseCaseRiskMapping>): Promise<UseCaseRiskMapping>;
+  deleteUseCaseRiskMapping(id: string): Promise<void>;
+
   // Compliance Certificates
   createComplianceCertificate(certificate: InsertComplianceCertificate): Promise<ComplianceCertificate>;
   getCertificatesByUser(userId: string): Promise<ComplianceCertificate[]>;
+  getCertificatesByOrganization(organizationId: string): Promise<ComplianceCertificate[]>;
   getCertificatesBySystem(aiSystemId: string): Promise<ComplianceCertificate[]>;
   getCertificate(id: string): Promise<ComplianceCertificate | undefined>;
   getCertificateByNumber(certificateNumber: string): Promise<ComplianceCertificate | undefined>;
   getValidCertificates(userId: string): Promise<ComplianceCertificate[]>;
-  updateCertificateStatus(id: string, status: 'valid' | 'expired' | 'revoked' | 'pending'): Promise<ComplianceCertificate>;
+  getValidCertificatesByOrganization(organizationId: string): Promise<ComplianceCertificate[]>;
+  updateCertificateStatus(id: string, status: 'valid' | 'expired' | 'pending'): Promise<ComplianceCertificate | undefined>;
+  updateCertificate(id: string, updates: Partial<InsertComplianceCertificate>): Promise<ComplianceCertificate>;
+  getValidCertificatesExpiringBefore(date: Date): Promise<ComplianceCertificate[]>;
+  getRevokedCertificates(): Promise<ComplianceCertificate[]>;
+  getCertificateReminders(certificateId: string): Promise<CertificateReminder[]>;
+  createCertificateReminders(certificateId: string, thresholdDays: number[]): Promise<void>;
+
+  // Notifications
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotificationsByUser(userId: string, limit?: number): Promise<Notification[]>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+
+  // Personal access tokens
+  createPersonalAccessToken(token: InsertPersonalAccessToken): Promise<PersonalAccessToken>;
+  getPersonalAccessTokensByUser(userId: string): Promise<PersonalAccessToken[]>;
+  getPersonalAccessTokenByHash(tokenHash: string): Promise<PersonalAccessToken | undefined>;
+  updatePersonalAccessToken(id: string, updates: Partial<InsertPersonalAccessToken>): Promise<PersonalAccessToken>;
+
+  // Workflows
+  createWorkflowDefinition(definition: InsertWorkflowDefinition): Promise<WorkflowDefinition>;
+  getWorkflowDefinition(id: string): Promise<WorkflowDefinition | undefined>;
+  getWorkflowDefinitionsByOrganization(organizationId: string): Promise<WorkflowDefinition[]>;
+  createWorkflowExecution(execution: InsertWorkflowExecution): Promise<WorkflowExecution>;
+  getWorkflowExecution(id: string): Promise<WorkflowExecution | undefined>;
+  getWorkflowExecutionsByOrganization(organizationId: string): Promise<WorkflowExecution[]>;
+  updateWorkflowExecution(id: string, updates: Partial<InsertWorkflowExecution>): Promise<WorkflowExecution>;
+  createWorkflowStepExecution(stepExecution: InsertWorkflowStepExecution): Promise<WorkflowStepExecution>;
+  getWorkflowStepExecutions(workflowExecutionId: string): Promise<WorkflowStepExecution[]>;
+  updateWorkflowStepExecution(id: string, updates: Partial<InsertWorkflowStepExecution>): Promise<WorkflowStepExecution>;
 
   // Security Settings
   getSecuritySettings(): Promise<SecuritySettings | undefined>;
@@ -209,6 +430,117 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Organizations
+  async createOrganization(organization: InsertOrganization): Promise<Organization> {
+    const [created] = await db.insert(organizations).values(organization).returning();
+    return created;
+  }
+
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async updateOrganization(id: string, updates: Partial<InsertOrganization>): Promise<Organization> {
+    const [updated] = await db
+      .update(organizations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(organizations.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getOrganizationMembershipsByUser(userId: string): Promise<OrganizationMembershipWithOrganization[]> {
+    const rows = await db
+      .select({
+        membership: organizationMemberships,
+        organization: organizations,
+      })
+      .from(organizationMemberships)
+      .innerJoin(organizations, eq(organizationMemberships.organizationId, organizations.id))
+      .where(eq(organizationMemberships.userId, userId))
+      .orderBy(organizationMemberships.createdAt);
+
+    return rows.map(row => ({ ...row.membership, organization: row.organization }));
+  }
+
+  async getOrganizationMembership(organizationId: string, userId: string): Promise<OrganizationMembership | undefined> {
+    const [membership] = await db
+      .select()
+      .from(organizationMemberships)
+      .where(
+        and(
+          eq(organizationMemberships.organizationId, organizationId),
+          eq(organizationMemberships.userId, userId)
+        )
+      );
+    return membership;
+  }
+
+  async getOrganizationMembers(organizationId: string): Promise<OrganizationMemberWithUser[]> {
+    const rows = await db
+      .select({
+        membership: organizationMemberships,
+        user: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+      })
+      .from(organizationMemberships)
+      .innerJoin(users, eq(organizationMemberships.userId, users.id))
+      .where(eq(organizationMemberships.organizationId, organizationId))
+      .orderBy(organizationMemberships.createdAt);
+
+    return rows.map(row => ({ ...row.membership, user: row.user }));
+  }
+
+  async createOrganizationMembership(membership: InsertOrganizationMembership): Promise<OrganizationMembership> {
+    const [created] = await db.insert(organizationMemberships).values(membership).returning();
+    return created;
+  }
+
+  async updateOrganizationMembershipRole(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMembership> {
+    const [updated] = await db
+      .update(organizationMemberships)
+      .set({ role, updatedAt: new Date() })
+      .where(
+        and(
+          eq(organizationMemberships.organizationId, organizationId),
+          eq(organizationMemberships.userId, userId)
+        )
+      )
+      .returning();
+    return updated;
+  }
+
+  async deleteOrganizationMembership(organizationId: string, userId: string): Promise<void> {
+    await db
+      .delete(organizationMemberships)
+      .where(
+        and(
+          eq(organizationMemberships.organizationId, organizationId),
+          eq(organizationMemberships.userId, userId)
+        )
+      );
+  }
+
+  async assignUserRecordsToOrganization(userId: string, organizationId: string): Promise<void> {
+    await db
+      .update(aiSystems)
+      .set({ organizationId })
+      .where(and(eq(aiSystems.userId, userId), isNull(aiSystems.organizationId)));
+    await db
+      .update(riskAssessments)
+      .set({ organizationId })
+      .where(and(eq(riskAssessments.userId, userId), isNull(riskAssessments.organizationId)));
+    await db
+      .update(complianceCertificates)
+      .set({ organizationId })
+      .where(and(eq(complianceCertificates.userId, userId), isNull(complianceCertificates.organizationId)));
+  }
+
   // AI Systems
   async createAiSystem(aiSystem: InsertAiSystem): Promise<AiSystem> {
     const [system] = await db.insert(aiSystems).values(aiSystem).returning();
@@ -223,6 +555,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(aiSystems.createdAt));
   }
 
+  async getAiSystemsByOrganization(organizationId: string): Promise<AiSystem[]> {
+    return await db
+      .select()
+      .from(aiSystems)
+      .where(eq(aiSystems.organizationId, organizationId))
+      .orderBy(desc(aiSystems.createdAt));
+  }
+
   async getAiSystem(id: string): Promise<AiSystem | undefined> {
     const [system] = await db.select().from(aiSystems).where(eq(aiSystems.id, id));
     return system;
@@ -241,12 +581,207 @@ export class DatabaseStorage implements IStorage {
     await db.delete(aiSystems).where(eq(aiSystems.id, id));
   }
 
+  async getAiSystemVersions(aiSystemId: string): Promise<AiSystemVersion[]> {
+    return await db
+      .select()
+      .from(aiSystemVersions)
+      .where(eq(aiSystemVersions.aiSystemId, aiSystemId))
+      .orderBy(desc(aiSystemVersions.version));
+  }
+
+  async getAiSystemVersion(aiSystemId: string, version: number): Promise<AiSystemVersion | undefined> {
+    const [found] = await db
+      .select()
+      .from(aiSystemVersions)
+      .where(and(eq(aiSystemVersions.aiSystemId, aiSystemId), eq(aiSystemVersions.version, version)));
+    return found;
+  }
+
+  async createAiSystemVersion(version: InsertAiSystemVersion): Promise<AiSystemVersion> {
+    const [created] = await db.insert(aiSystemVersions).values(version).returning();
+    return created;
+  }
+
+  async updateAiSystemWithVersion(
+    id: string,
+    updates: Partial<InsertAiSystem>,
+    version: InsertAiSystemVersion
+  ): Promise<{ system: AiSystem; version: AiSystemVersion }> {
+    return await db.transaction(async (tx) => {
+      const [system] = await tx
+        .update(aiSystems)
+        .set({ ...updates, currentVersion: version.version, updatedAt: new Date() })
+        .where(eq(aiSystems.id, id))
+        .returning();
+      const [created] = await tx.insert(aiSystemVersions).values(version).returning();
+      return { system, version: created };
+    });
+  }
+
+  // GPAI models
+  async createGpaiModel(model: InsertGpaiModel): Promise<GpaiModel> {
+    const [created] = await db.insert(gpaiModels).values(model).returning();
+    return created;
+  }
+
+  async getGpaiModelsByOrganization(organizationId: string): Promise<GpaiModel[]> {
+    return await db
+      .select()
+      .from(gpaiModels)
+      .where(eq(gpaiModels.organizationId, organizationId))
+      .orderBy(desc(gpaiModels.createdAt));
+  }
+
+  async getGpaiModel(id: string): Promise<GpaiModel | undefined> {
+    const [model] = await db.select().from(gpaiModels).where(eq(gpaiModels.id, id));
+    return model;
+  }
+
+  async updateGpaiModel(id: string, updates: Partial<InsertGpaiModel>): Promise<GpaiModel> {
+    const [model] = await db
+      .update(gpaiModels)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(gpaiModels.id, id))
+      .returning();
+    return model;
+  }
+
+  async deleteGpaiModel(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(aiSystems).set({ gpaiModelId: null }).where(eq(aiSystems.gpaiModelId, id));
+      await tx.delete(gpaiModels).where(eq(gpaiModels.id, id));
+    });
+  }
+
+  async setGpaiModelSystems(gpaiModelId: string, aiSystemIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(aiSystems).set({ gpaiModelId: null }).where(eq(aiSystems.gpaiModelId, gpaiModelId));
+      if (aiSystemIds.length > 0) {
+        await tx.update(aiSystems).set({ gpaiModelId }).where(inArray(aiSystems.id, aiSystemIds));
+      }
+    });
+  }
+
+  // Art. 5 prohibited practices screenings
+  async getProhibitedPracticeScreenings(aiSystemId: string): Promise<ProhibitedPracticeScreening[]> {
+    return await db
+      .select()
+      .from(prohibitedPracticeScreenings)
+      .where(eq(prohibitedPracticeScreenings.aiSystemId, aiSystemId))
+      .orderBy(desc(prohibitedPracticeScreenings.createdAt));
+  }
+
+  async createProhibitedPracticeScreening(
+    screening: InsertProhibitedPracticeScreening
+  ): Promise<{ system: AiSystem; screening: ProhibitedPracticeScreening }> {
+    const prohibited = screening.outcome === 'prohibited';
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(prohibitedPracticeScreenings).values(screening).returning();
+
+      // A clearing screening lifts the unacceptable level set by an earlier prohibited one:
+      // the system returns to the level of its latest risk assessment, or none if never assessed
+      let riskLevel: AiSystem['riskLevel'] | undefined = prohibited ? 'unacceptable' : undefined;
+      if (!prohibited) {
+        const [current] = await tx.select().from(aiSystems).where(eq(aiSystems.id, screening.aiSystemId));
+        if (current?.prohibitedPractice && current.riskLevel === 'unacceptable') {
+          const [latest] = await tx
+            .select({ riskLevel: riskAssessments.riskLevel })
+            .from(riskAssessments)
+            .where(eq(riskAssessments.aiSystemId, screening.aiSystemId))
+            .orderBy(desc(riskAssessments.createdAt))
+            .limit(1);
+          riskLevel = latest?.riskLevel ?? null;
+        }
+      }
+
+      const [system] = await tx
+        .update(aiSystems)
+        .set({
+          prohibitedPractice: prohibited,
+          ...(riskLevel !== undefined ? { riskLevel } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(aiSystems.id, screening.aiSystemId))
+        .returning();
+      return { system, screening: created };
+    });
+  }
+
+  // Art. 6 high-risk classifications
+  async getHighRiskClassifications(aiSystemId: string): Promise<HighRiskClassification[]> {
+    return await db
+      .select()
+      .from(highRiskClassifications)
+      .where(eq(highRiskClassifications.aiSystemId, aiSystemId))
+      .orderBy(desc(highRiskClassifications.createdAt));
+  }
+
+  async createHighRiskClassification(classification: InsertHighRiskClassification): Promise<HighRiskClassification> {
+    const [created] = await db.insert(highRiskClassifications).values(classification).returning();
+    return created;
+  }
+
+  // Assessment drafts
+  async createAssessmentDraft(draft: InsertAssessmentDraft): Promise<AssessmentDraft> {
+    const [created] = await db.insert(assessmentDrafts).values(draft).returning();
+    return created;
+  }
+
+  async getAssessmentDraft(id: string): Promise<AssessmentDraft | undefined> {
+    const [draft] = await db.select().from(assessmentDrafts).where(eq(assessmentDrafts.id, id));
+    return draft;
+  }
+
+  async getAssessmentDraftsByOrganization(organizationId: string): Promise<AssessmentDraft[]> {
+    return await db
+      .select()
+      .from(assessmentDrafts)
+      .where(and(eq(assessmentDrafts.organizationId, organizationId), eq(assessmentDrafts.status, 'in_progress')))
+      .orderBy(desc(assessmentDrafts.updatedAt));
+  }
+
+  async updateAssessmentDraft(id: string, updates: Partial<InsertAssessmentDraft>): Promise<AssessmentDraft> {
+    const [draft] = await db
+      .update(assessmentDrafts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(assessmentDrafts.id, id))
+      .returning();
+    return draft;
+  }
+
+  // The draft row is locked while the changes are computed from it, so concurrent autosaves
+  // of different sections are applied one after the other instead of overwriting each other
+  async updateAssessmentDraftLocked(
+    id: string,
+    apply: (draft: AssessmentDraft) => Partial<InsertAssessmentDraft>
+  ): Promise<AssessmentDraft | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(assessmentDrafts).where(eq(assessmentDrafts.id, id)).for('update');
+      if (!current) return undefined;
+      const [draft] = await tx
+        .update(assessmentDrafts)
+        .set({ ...apply(current), updatedAt: new Date() })
+        .where(eq(assessmentDrafts.id, id))
+        .returning();
+      return draft;
+    });
+  }
+
+  async deleteAssessmentDraft(id: string): Promise<void> {
+    await db.delete(assessmentDrafts).where(eq(assessmentDrafts.id, id));
+  }
+
   // Risk Assessments
   async createRiskAssessment(assessment: InsertRiskAssessment): Promise<RiskAssessment> {
     const [result] = await db.insert(riskAssessments).values(assessment).returning();
     return result;
   }
 
+  async getRiskAssessment(id: string): Promise<RiskAssessment | undefined> {
+    const [assessment] = await db.select().from(riskAssessments).where(eq(riskAssessments.id, id));
+    return assessment;
+  }
+
   async getRiskAssessmentsBySystem(aiSystemId: string): Promise<RiskAssessment[]> {
     return await db
       .select()
@@ -334,6 +869,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(complianceRecords.createdAt));
   }
 
+  async getComplianceRecord(id: string): Promise<ComplianceRecord | undefined> {
+    const [record] = await db.select().from(complianceRecords).where(eq(complianceRecords.id, id));
+    return record;
+  }
+
   async upsertComplianceRecord(record: InsertComplianceRecord): Promise<ComplianceRecord> {
     const [result] = await db
       .insert(complianceRecords)
@@ -376,6 +916,49 @@ export class DatabaseStorage implements IStorage {
     return { total, compliant, pending, overdue };
   }
 
+  // Evidence Attachments
+  async createEvidenceAttachment(attachment: InsertEvidenceAttachment): Promise<EvidenceAttachment> {
+    const [created] = await db.insert(evidenceAttachments).values(attachment).returning();
+    return created;
+  }
+
+  async getEvidenceAttachment(id: string): Promise<EvidenceAttachment | undefined> {
+    const [attachment] = await db.select().from(evidenceAttachments).where(eq(evidenceAttachments.id, id));
+    return attachment;
+  }
+
+  async getEvidenceBySystem(aiSystemId: string): Promise<EvidenceAttachmentWithArticle[]> {
+    const rows = await db
+      .select({
+        attachment: evidenceAttachments,
+        articleNumber: aiActArticles.articleNumber,
+      })
+      .from(evidenceAttachments)
+      .leftJoin(aiActArticles, eq(evidenceAttachments.articleId, aiActArticles.id))
+      .where(eq(evidenceAttachments.aiSystemId, aiSystemId))
+      .orderBy(desc(evidenceAttachments.createdAt));
+
+    return rows.map(row => ({ ...row.attachment, articleNumber: row.articleNumber }));
+  }
+
+  async getEvidenceByComplianceRecord(complianceRecordId: string): Promise<EvidenceAttachmentWithArticle[]> {
+    const rows = await db
+      .select({
+        attachment: evidenceAttachments,
+        articleNumber: aiActArticles.articleNumber,
+      })
+      .from(evidenceAttachments)
+      .leftJoin(aiActArticles, eq(evidenceAttachments.articleId, aiActArticles.id))
+      .where(eq(evidenceAttachments.complianceRecordId, complianceRecordId))
+      .orderBy(desc(evidenceAttachments.createdAt));
+
+    return rows.map(row => ({ ...row.attachment, articleNumber: row.articleNumber }));
+  }
+
+  async deleteEvidenceAttachment(id: string): Promise<void> {
+    await db.delete(evidenceAttachments).where(eq(evidenceAttachments.id, id));
+  }
+
   // Document Generation
   async createGeneratedDocument(document: InsertGeneratedDocument): Promise<GeneratedDocument> {
     const [result] = await db.insert(generatedDocuments).values(document).returning();
@@ -398,6 +981,16 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(generatedDocuments.generatedAt));
   }
 
+  async getDocumentsByOrganization(organizationId: string): Promise<GeneratedDocument[]> {
+    const rows = await db
+      .select({ document: generatedDocuments })
+      .from(generatedDocuments)
+      .innerJoin(aiSystems, eq(generatedDocuments.aiSystemId, aiSystems.id))
+      .where(eq(aiSystems.organizationId, organizationId))
+      .orderBy(desc(generatedDocuments.generatedAt));
+    return rows.map(row => row.document);
+  }
+
   // Regulatory Monitoring
   async getRegulatoryUpdates(limit = 50): Promise<RegulatoryUpdate[]> {
     return await db
@@ -412,6 +1005,217 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  async getRegulatorySources(): Promise<RegulatorySource[]> {
+    return await db
+      .select()
+      .from(regulatorySources)
+      .orderBy(regulatorySources.createdAt);
+  }
+
+  async getRegulatorySource(id: string): Promise<RegulatorySource | undefined> {
+    const [source] = await db.select().from(regulatorySources).where(eq(regulatorySources.id, id));
+    return source;
+  }
+
+  async getRegulatorySourceByKey(key: string): Promise<RegulatorySource | undefined> {
+    const [source] = await db.select().from(regulatorySources).where(eq(regulatorySources.key, key));
+    return source;
+  }
+
+  async createRegulatorySource(source: InsertRegulatorySource): Promise<RegulatorySource> {
+    const [created] = await db.insert(regulatorySources).values(source).returning();
+    return created;
+  }
+
+  async updateRegulatorySource(id: string, updates: Partial<InsertRegulatorySource>): Promise<RegulatorySource> {
+    const [updated] = await db
+      .update(regulatorySources)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(regulatorySources.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteRegulatorySource(id: string): Promise<void> {
+    await db.delete(regulatorySources).where(eq(regulatorySources.id, id));
+  }
+
+  async createRegulatorySyncRun(run: InsertRegulatorySyncRun): Promise<RegulatorySyncRun> {
+    const [created] = await db.insert(regulatorySyncRuns).values(run).returning();
+    return created;
+  }
+
+  async updateRegulatorySyncRun(id: string, updates: Partial<InsertRegulatorySyncRun>): Promise<RegulatorySyncRun> {
+    const [updated] = await db
+      .update(regulatorySyncRuns)
+      .set(updates)
+      .where(eq(regulatorySyncRuns.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getRegulatorySyncRuns(limit = 50): Promise<RegulatorySyncRun[]> {
+    return await db
+      .select()
+      .from(regulatorySyncRuns)
+      .orderBy(desc(regulatorySyncRuns.startedAt))
+      .limit(limit);
+  }
+
+  async getRegulatorySyncRunsSince(since: Date): Promise<RegulatorySyncRun[]> {
+    return await db
+      .select()
+      .from(regulatorySyncRuns)
+      .where(gte(regulatorySyncRuns.startedAt, since))
+      .orderBy(desc(regulatorySyncRuns.startedAt));
+  }
+
+  async failRunningRegulatorySyncRuns(error: string): Promise<number> {
+    const failed = await db
+      .update(regulatorySyncRuns)
+      .set({ status: 'failed', error, completedAt: new Date() })
+      .where(eq(regulatorySyncRuns.status, 'running'))
+      .returning({ id: regulatorySyncRuns.id });
+    return failed.length;
+  }
+
+  // Regulatory insights and action items
+  async createRegulatoryInsight(insight: InsertRegulatoryInsightRecord): Promise<RegulatoryInsightRecord> {
+    const [created] = await db.insert(regulatoryInsights).values(insight).returning();
+    return created;
+  }
+
+  async getRegulatoryInsightsByOrganization(organizationId: string, limit = 50): Promise<RegulatoryInsightRecord[]> {
+    return await db
+      .select()
+      .from(regulatoryInsights)
+      .where(eq(regulatoryInsights.organizationId, organizationId))
+      .orderBy(desc(regulatoryInsights.createdAt))
+      .limit(limit);
+  }
+
+  async getRegulatoryInsight(id: string): Promise<RegulatoryInsightRecord | undefined> {
+    const [insight] = await db.select().from(regulatoryInsights).where(eq(regulatoryInsights.id, id));
+    return insight;
+  }
+
+  async createSystemReassessment(reassessment: InsertSystemReassessment): Promise<SystemReassessment> {
+    const [created] = await db.insert(systemReassessments).values(reassessment).returning();
+    return created;
+  }
+
+  async getSystemReassessment(id: string): Promise<SystemReassessment | undefined> {
+    const [reassessment] = await db.select().from(systemReassessments).where(eq(systemReassessments.id, id));
+    return reassessment;
+  }
+
+  async getSystemReassessmentsByOrganization(organizationId: string): Promise<SystemReassessment[]> {
+    return await db
+      .select()
+      .from(systemReassessments)
+      .where(eq(systemReassessments.organizationId, organizationId))
+      .orderBy(desc(systemReassessments.createdAt));
+  }
+
+  async getOpenSystemReassessments(aiSystemId: string): Promise<SystemReassessment[]> {
+    return await db
+      .select()
+      .from(systemReassessments)
+      .where(and(
+        eq(systemReassessments.aiSystemId, aiSystemId),
+        inArray(systemReassessments.status, ['pending', 'overdue'])
+      ));
+  }
+
+  async getPendingSystemReassessmentsDueBefore(date: Date): Promise<SystemReassessment[]> {
+    return await db
+      .select()
+      .from(systemReassessments)
+      .where(and(eq(systemReassessments.status, 'pending'), lte(systemReassessments.dueDate, date)));
+  }
+
+  async updateSystemReassessment(id: string, updates: Partial<InsertSystemReassessment>): Promise<SystemReassessment> {
+    const [updated] = await db
+      .update(systemReassessments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(systemReassessments.id, id))
+      .returning();
+    return updated;
+  }
+
+  async createActionItem(item: InsertActionItem): Promise<ActionItem> {
+    const [created] = await db.insert(actionItems).values(item).returning();
+    return created;
+  }
+
+  async getActionItemsByOrganization(organizationId: string): Promise<ActionItem[]> {
+    return await db
+      .select()
+      .from(actionItems)
+      .where(eq(actionItems.organizationId, organizationId))
+      .orderBy(desc(actionItems.createdAt));
+  }
+
+  async getActionItemsByInsight(insightId: string): Promise<ActionItem[]> {
+    return await db
+      .select()
+      .from(actionItems)
+      .where(eq(actionItems.insightId, insightId))
+      .orderBy(actionItems.createdAt);
+  }
+
+  async getActionItem(id: string): Promise<ActionItem | undefined> {
+    const [item] = await db.select().from(actionItems).where(eq(actionItems.id, id));
+    return item;
+  }
+
+  async updateActionItem(id: string, updates: Partial<InsertActionItem>): Promise<ActionItem> {
+    const [updated] = await db
+      .update(actionItems)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(actionItems.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteActionItem(id: string): Promise<void> {
+    // Dependencies and comments are removed by ON DELETE CASCADE
+    await db.delete(actionItems).where(eq(actionItems.id, id));
+  }
+
+  async getActionItemDependenciesByOrganization(organizationId: string): Promise<ActionItemDependency[]> {
+    const rows = await db
+      .select({ dependency: actionItemDependencies })
+      .from(actionItemDependencies)
+      .innerJoin(actionItems, eq(actionItemDependencies.actionItemId, actionItems.id))
+      .where(eq(actionItems.organizationId, organizationId));
+    return rows.map(row => row.dependency);
+  }
+
+  async setActionItemDependencies(actionItemId: string, dependsOnIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(actionItemDependencies).where(eq(actionItemDependencies.actionItemId, actionItemId));
+      if (dependsOnIds.length > 0) {
+        await tx.insert(actionItemDependencies).values(
+          dependsOnIds.map(dependsOnId => ({ actionItemId, dependsOnId }))
+        );
+      }
+    });
+  }
+
+  async createActionItemComment(comment: InsertActionItemComment): Promise<ActionItemComment> {
+    const [created] = await db.insert(actionItemComments).values(comment).returning();
+    return created;
+  }
+
+  async getActionItemComments(actionItemId: string): Promise<ActionItemComment[]> {
+    return await db
+      .select()
+      .from(actionItemComments)
+      .where(eq(actionItemComments.actionItemId, actionItemId))
+      .orderBy(actionItemComments.createdAt);
+  }
+
   // LLM Settings
   async getLlmSettings(userId: string): Promise<LlmSettings[]> {
     return await db
@@ -469,6 +1273,122 @@ export class DatabaseStorage implements IStorage {
     return assessment;
   }
 
+  // Framework question bank
+  async getFrameworkVersions(): Promise<FrameworkVersion[]> {
+    return await db.select().from(frameworkVersions).orderBy(desc(frameworkVersions.createdAt));
+  }
+
+  async getFrameworkVersion(id: string): Promise<FrameworkVersion | undefined> {
+    const [version] = await db.select().from(frameworkVersions).where(eq(frameworkVersions.id, id));
+    return version;
+  }
+
+  async getFrameworkVersionByNumber(version: string): Promise<FrameworkVersion | undefined> {
+    const [result] = await db.select().from(frameworkVersions).where(eq(frameworkVersions.version, version));
+    return result;
+  }
+
+  async getPublishedFrameworkVersion(): Promise<FrameworkVersion | undefined> {
+    const [version] = await db.select().from(frameworkVersions).where(eq(frameworkVersions.status, 'published'));
+    return version;
+  }
+
+  async createFrameworkVersion(
+    version: InsertFrameworkVersion,
+    questions: Omit<InsertFrameworkQuestion, 'frameworkVersion'>[]
+  ): Promise<FrameworkVersion> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(frameworkVersions).values(version).returning();
+      if (questions.length > 0) {
+        await tx.insert(frameworkQuestions).values(questions.map(question => ({ ...question, frameworkVersion: created.version })));
+      }
+      return created;
+    });
+  }
+
+  async publishFrameworkVersion(id: string, userId: string): Promise<FrameworkVersion> {
+    return await db.transaction(async (tx) => {
+      await tx.update(frameworkVersions).set({ status: 'archived' }).where(eq(frameworkVersions.status, 'published'));
+      const [published] = await tx
+        .update(frameworkVersions)
+        .set({ status: 'published', publishedBy: userId, publishedAt: new Date() })
+        .where(eq(frameworkVersions.id, id))
+        .returning();
+      return published;
+    });
+  }
+
+  async deleteFrameworkVersion(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(frameworkVersions).where(eq(frameworkVersions.id, id)).returning();
+      if (deleted) {
+        await tx.delete(frameworkQuestions).where(eq(frameworkQuestions.frameworkVersion, deleted.version));
+      }
+    });
+  }
+
+  async getFrameworkQuestions(version: string): Promise<FrameworkQuestion[]> {
+    return await db
+      .select()
+      .from(frameworkQuestions)
+      .where(eq(frameworkQuestions.frameworkVersion, version))
+      .orderBy(frameworkQuestions.dimension, frameworkQuestions.position, frameworkQuestions.questionId);
+  }
+
+  async getFrameworkQuestion(id: string): Promise<FrameworkQuestion | undefined> {
+    const [question] = await db.select().from(frameworkQuestions).where(eq(frameworkQuestions.id, id));
+    return question;
+  }
+
+  async createFrameworkQuestion(question: InsertFrameworkQuestion): Promise<FrameworkQuestion> {
+    const [created] = await db.insert(frameworkQuestions).values(question).returning();
+    return created;
+  }
+
+  async updateFrameworkQuestion(id: string, updates: Partial<InsertFrameworkQuestion>): Promise<FrameworkQuestion> {
+    const [question] = await db
+      .update(frameworkQuestions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(frameworkQuestions.id, id))
+      .returning();
+    return question;
+  }
+
+  async deleteFrameworkQuestion(id: string): Promise<void> {
+    await db.delete(frameworkQuestions).where(eq(frameworkQuestions.id, id));
+  }
+
+  // Use case risk mappings
+  async getUseCaseRiskMappings(): Promise<UseCaseRiskMapping[]> {
+    return await db
+      .select()
+      .from(useCaseRiskMapping)
+      .orderBy(useCaseRiskMapping.useCase, useCaseRiskMapping.industrySector);
+  }
+
+  async getUseCaseRiskMapping(id: string): Promise<UseCaseRiskMapping | undefined> {
+    const [mapping] = await db.select().from(useCaseRiskMapping).where(eq(useCaseRiskMapping.id, id));
+    return mapping;
+  }
+
+  async createUseCaseRiskMapping(mapping: InsertUseCaseRiskMapping): Promise<UseCaseRiskMapping> {
+    const [created] = await db.insert(useCaseRiskMapping).values(mapping).returning();
+    return created;
+  }
+
+  async updateUseCaseRiskMapping(id: string, updates: Partial<InsertUseCaseRiskMapping>): Promise<UseCaseRiskMapping> {
+    const [mapping] = await db
+      .update(useCaseRiskMapping)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(useCaseRiskMapping.id, id))
+      .returning();
+    return mapping;
+  }
+
+  async deleteUseCaseRiskMapping(id: string): Promise<void> {
+    await db.delete(useCaseRiskMapping).where(eq(useCaseRiskMapping.id, id));
+  }
+
   // Compliance Certificates
   async createComplianceCertificate(certificate: InsertComplianceCertificate): Promise<ComplianceCertificate> {
     const [result] = await db.insert(complianceCertificates).values(certificate).returning();
@@ -483,6 +1403,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(complianceCertificates.issuedAt));
   }
 
+  async getCertificatesByOrganization(organizationId: string): Promise<ComplianceCertificate[]> {
+    return await db
+      .select()
+      .from(complianceCertificates)
+      .where(eq(complianceCertificates.organizationId, organizationId))
+      .orderBy(desc(complianceCertificates.issuedAt));
+  }
+
   async getCertificatesBySystem(aiSystemId: string): Promise<ComplianceCertificate[]> {
     return await db
       .select()
@@ -521,18 +1449,200 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(complianceCertificates.issuedAt));
   }
 
-  async updateCertificateStatus(id: string, status: 'valid' | 'expired' | 'revoked' | 'pending'): Promise<ComplianceCertificate> {
+  async getValidCertificatesByOrganization(organizationId: string): Promise<ComplianceCertificate[]> {
+    return await db
+      .select()
+      .from(complianceCertificates)
+      .where(
+        and(
+          eq(complianceCertificates.organizationId, organizationId),
+          eq(complianceCertificates.status, 'valid'),
+          sql`${complianceCertificates.validUntil} > NOW()`
+        )
+      )
+      .orderBy(desc(complianceCertificates.issuedAt));
+  }
+
+  // A revoked certificate is never reinstated: undefined when the certificate is missing or revoked
+  async updateCertificateStatus(id: string, status: 'valid' | 'expired' | 'pending'): Promise<ComplianceCertificate | undefined> {
     const [certificate] = await db
       .update(complianceCertificates)
       .set({ 
         status,
         updatedAt: new Date()
       })
+      .where(and(eq(complianceCertificates.id, id), ne(complianceCertificates.status, 'revoked')))
+      .returning();
+    return certificate;
+  }
+
+  async updateCertificate(id: string, updates: Partial<InsertComplianceCertificate>): Promise<ComplianceCertificate> {
+    const [certificate] = await db
+      .update(complianceCertificates)
+      .set({ ...updates, updatedAt: new Date() })
       .where(eq(complianceCertificates.id, id))
       .returning();
     return certificate;
   }
 
+  async getValidCertificatesExpiringBefore(date: Date): Promise<ComplianceCertificate[]> {
+    return await db
+      .select()
+      .from(complianceCertificates)
+      .where(
+        and(
+          eq(complianceCertificates.status, 'valid'),
+          lte(complianceCertificates.validUntil, date)
+        )
+      )
+      .orderBy(complianceCertificates.validUntil);
+  }
+
+  async getRevokedCertificates(): Promise<ComplianceCertificate[]> {
+    return await db
+      .select()
+      .from(complianceCertificates)
+      .where(eq(complianceCertificates.status, 'revoked'))
+      .orderBy(desc(complianceCertificates.revokedAt));
+  }
+
+  async getCertificateReminders(certificateId: string): Promise<CertificateReminder[]> {
+    return await db
+      .select()
+      .from(certificateReminders)
+      .where(eq(certificateReminders.certificateId, certificateId));
+  }
+
+  async createCertificateReminders(certificateId: string, thresholdDays: number[]): Promise<void> {
+    if (thresholdDays.length === 0) {
+      return;
+    }
+    await db
+      .insert(certificateReminders)
+      .values(thresholdDays.map(days => ({ certificateId, thresholdDays: days })))
+      .onConflictDoNothing();
+  }
+
+  // Notifications
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [created] = await db.insert(notifications).values(notification).returning();
+    return created;
+  }
+
+  async getNotificationsByUser(userId: string, limit: number = 50): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification;
+  }
+
+  // Personal access tokens
+  async createPersonalAccessToken(token: InsertPersonalAccessToken): Promise<PersonalAccessToken> {
+    const [created] = await db.insert(personalAccessTokens).values(token).returning();
+    return created;
+  }
+
+  async getPersonalAccessTokensByUser(userId: string): Promise<PersonalAccessToken[]> {
+    return await db
+      .select()
+      .from(personalAccessTokens)
+      .where(eq(personalAccessTokens.userId, userId))
+      .orderBy(desc(personalAccessTokens.createdAt));
+  }
+
+  async getPersonalAccessTokenByHash(tokenHash: string): Promise<PersonalAccessToken | undefined> {
+    const [token] = await db.select().from(personalAccessTokens).where(eq(personalAccessTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async updatePersonalAccessToken(id: string, updates: Partial<InsertPersonalAccessToken>): Promise<PersonalAccessToken> {
+    const [updated] = await db
+      .update(personalAccessTokens)
+      .set(updates)
+      .where(eq(personalAccessTokens.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Workflows
+  async createWorkflowDefinition(definition: InsertWorkflowDefinition): Promise<WorkflowDefinition> {
+    const [created] = await db.insert(workflowDefinitions).values(definition).returning();
+    return created;
+  }
+
+  async getWorkflowDefinition(id: string): Promise<WorkflowDefinition | undefined> {
+    const [definition] = await db.select().from(workflowDefinitions).where(eq(workflowDefinitions.id, id));
+    return definition;
+  }
+
+  async getWorkflowDefinitionsByOrganization(organizationId: string): Promise<WorkflowDefinition[]> {
+    return await db
+      .select()
+      .from(workflowDefinitions)
+      .where(eq(workflowDefinitions.organizationId, organizationId))
+      .orderBy(desc(workflowDefinitions.createdAt));
+  }
+
+  async createWorkflowExecution(execution: InsertWorkflowExecution): Promise<WorkflowExecution> {
+    const [created] = await db.insert(workflowExecutions).values(execution).returning();
+    return created;
+  }
+
+  async getWorkflowExecution(id: string): Promise<WorkflowExecution | undefined> {
+    const [execution] = await db.select().from(workflowExecutions).where(eq(workflowExecutions.id, id));
+    return execution;
+  }
+
+  async getWorkflowExecutionsByOrganization(organizationId: string): Promise<WorkflowExecution[]> {
+    return await db
+      .select()
+      .from(workflowExecutions)
+      .where(eq(workflowExecutions.organizationId, organizationId))
+      .orderBy(desc(workflowExecutions.startedAt));
+  }
+
+  async updateWorkflowExecution(id: string, updates: Partial<InsertWorkflowExecution>): Promise<WorkflowExecution> {
+    const [execution] = await db
+      .update(workflowExecutions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(workflowExecutions.id, id))
+      .returning();
+    return execution;
+  }
+
+  async createWorkflowStepExecution(stepExecution: InsertWorkflowStepExecution): Promise<WorkflowStepExecution> {
+    const [created] = await db.insert(workflowStepExecutions).values(stepExecution).returning();
+    return created;
+  }
+
+  async getWorkflowStepExecutions(workflowExecutionId: string): Promise<WorkflowStepExecution[]> {
+    return await db
+      .select()
+      .from(workflowStepExecutions)
+      .where(eq(workflowStepExecutions.workflowExecutionId, workflowExecutionId))
+      .orderBy(workflowStepExecutions.stepIndex, workflowStepExecutions.startedAt);
+  }
+
+  async updateWorkflowStepExecution(id: string, updates: Partial<InsertWorkflowStepExecution>): Promise<WorkflowStepExecution> {
+    const [stepExecution] = await db
+      .update(workflowStepExecutions)
+      .set(updates)
+      .where(eq(workflowStepExecutions.id, id))
+      .returning();
+    return stepExecution;
+  }
+
   // Security Settings
   async getSecuritySettings(): Promise<SecuritySettings | undefined> {
     const [settings] = await db.select().from(securitySettings).limit(1);
@@ -3,6 +3,8 @@
  * Architecture multi-agents avec MCP et A2A
  */
 
+import type { SourceCollectionStatus } from '@shared/schema';
+
 export type OfficialSourceType = 'official_eu' | 'national_fr' | 'national_other' | 'standards';
 export type DocumentType = 'regulation' | 'directive' | 'decision' | 'guidance' | 'consultation' | 'faq' | 'case_law';
 export type ImpactLevel = 'critical' | 'high' | 'medium' | 'low';
@@ -281,7 +283,8 @@ export interface EnhancedWorkflowResult {
     totalAnalyzed: number;
     totalPersonalized: number;
     totalActionable: number;
-    sourceStatus: Record<string, { success: boolean; count: number; error?: string }>;
+    averageRelevanceScore: number | null; // Score d'analyse moyen, avant personnalisation
+    sourceStatus: Record<string, SourceCollectionStatus>;
     executionTime: number;
     timestamp: Date;
     personalizationMetrics: {
@@ -0,0 +1,86 @@
+/**
+ * CSV Utilities
+ * Lecture et écriture de fichiers CSV (RFC 4180), y compris les exports Excel en français
+ * qui utilisent le point-virgule comme séparateur
+ */
+
+/**
+ * Le séparateur est celui, de la virgule ou du point-virgule, le plus fréquent sur la ligne d'en-tête
+ */
+function detectDelimiter(text: string): ',' | ';' {
+  const headerLine = text.split(/\r?\n/, 1)[0];
+  const count = (delimiter: string) => headerLine.split(delimiter).length - 1;
+  return count(';') > count(',') ? ';' : ',';
+}
+
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.map(cells => cells.map(restoreFormulaCell));
+}
+
+// Une cellule commençant par l'un de ces caractères est évaluée comme une formule par les tableurs
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Préfixe d'une apostrophe les cellules interprétables comme formules (injection CSV) ;
+ * l'apostrophe est retirée à la relecture par parseCsv
+ */
+function neutralizeFormulaCell(value: string): string {
+  return FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+function restoreFormulaCell(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+function escapeCsvCell(value: string): string {
+  const cell = neutralizeFormulaCell(value);
+  return /[",;\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Sérialise les lignes avec un BOM UTF-8 pour qu'Excel détecte l'encodage
+ */
+export function toCsv(rows: string[][]): string {
+  return '\uFEFF' + rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -13,9 +13,13 @@ import {
   MonitoringMetrics,
   EnhancedWorkflowResult,
   ActionableRegulatoryInsight,
-  PersonalizedRegulatoryInsight
+  PersonalizedRegulatoryInsight,
+  AnalyzedUpdate
 } from '../types/regulatory-monitoring';
 import { storage } from '../storage';
+import { actionItemService } from '../services/actionItemService';
+import { reassessmentService } from '../services/reassessmentService';
+import type { SourceCollectionStatus } from '@shared/schema';
 
 export interface WorkflowResult {
   insights: RegulatoryInsight[];
@@ -23,7 +27,8 @@ export interface WorkflowResult {
     totalCollected: number;
     totalAnalyzed: number;
     totalInsights: number;
-    sourceStatus: Record<string, { success: boolean; count: number; error?: string }>;
+    averageRelevanceScore: number | null;
+    sourceStatus: Record<string, SourceCollectionStatus>;
     executionTime: number;
     timestamp: Date;
   };
@@ -50,6 +55,7 @@ export class RegulatoryMonitoringWorkflow {
     sources?: string[];
     minRelevanceScore?: number;
     userId: string; // OBLIGATOIRE pour personnalisation
+    organizationId: string; // Organisation propriétaire des insights et tâches générés
   }): Promise<EnhancedWorkflowResult> {
     const startTime = Date.now();
 
@@ -67,11 +73,12 @@ export class RegulatoryMonitoringWorkflow {
       return {
         actionableInsights: [],
         metrics: {
-          totalCollected: 0,
-          totalAnalyzed: 0,
+          totalCollected: standardResult.metrics.totalCollected,
+          totalAnalyzed: standardResult.metrics.totalAnalyzed,
           totalPersonalized: 0,
           totalActionable: 0,
-          sourceStatus: {},
+          averageRelevanceScore: standardResult.metrics.averageRelevanceScore,
+          sourceStatus: standardResult.metrics.sourceStatus,
           executionTime: Date.now() - startTime,
           timestamp: new Date(),
           personalizationMetrics: {
@@ -102,8 +109,8 @@ export class RegulatoryMonitoringWorkflow {
 
     console.log(`   ✅ Generated ${actionableInsights.length} actionable insights\n`);
 
-    // Sauvegarder les insights actionnables
-    await this.storeActionableInsights(actionableInsights, params.userId);
+    // Sauvegarder les insights actionnables et leurs tâches
+    await this.storeActionableInsights(actionableInsights, params.userId, params.organizationId);
 
     const executionTime = Date.now() - startTime;
 
@@ -121,6 +128,7 @@ export class RegulatoryMonitoringWorkflow {
         totalAnalyzed: standardResult.metrics.totalAnalyzed,
         totalPersonalized: personalizedInsights.length,
         totalActionable: actionableInsights.length,
+        averageRelevanceScore: standardResult.metrics.averageRelevanceScore,
         sourceStatus: standardResult.metrics.sourceStatus,
         executionTime,
         timestamp: new Date(),
@@ -159,6 +167,7 @@ export class RegulatoryMonitoringWorkflow {
           totalCollected: 0,
           totalAnalyzed: 0,
           totalInsights: 0,
+          averageRelevanceScore: null,
           sourceStatus: collectionResult.sourceStatus,
           executionTime: Date.now() - startTime,
           timestamp: new Date(),
@@ -173,6 +182,8 @@ export class RegulatoryMonitoringWorkflow {
       params.userId
     );
 
+    const averageRelevanceScore = this.calculateAverageRelevance(analyzedUpdates);
+
     // Filter by minimum relevance score
     const minScore = params.minRelevanceScore || 50;
     const relevantUpdates = analyzedUpdates.filter(
@@ -190,6 +201,7 @@ export class RegulatoryMonitoringWorkflow {
           totalCollected: collectionResult.updates.length,
           totalAnalyzed: analyzedUpdates.length,
           totalInsights: 0,
+          averageRelevanceScore,
           sourceStatus: collectionResult.sourceStatus,
           executionTime: Date.now() - startTime,
           timestamp: new Date(),
@@ -226,6 +238,7 @@ export class RegulatoryMonitoringWorkflow {
         totalCollected: collectionResult.updates.length,
         totalAnalyzed: analyzedUpdates.length,
         totalInsights: insights.length,
+        averageRelevanceScore,
         sourceStatus: collectionResult.sourceStatus,
         executionTime,
         timestamp: new Date(),
@@ -233,6 +246,14 @@ export class RegulatoryMonitoringWorkflow {
     };
   }
 
+  private calculateAverageRelevance(analyzedUpdates: AnalyzedUpdate[]): number | null {
+    if (analyzedUpdates.length === 0) {
+      return null;
+    }
+    const total = analyzedUpdates.reduce((sum, update) => sum + update.analysis.relevanceScore, 0);
+    return Math.round(total / analyzedUpdates.length);
+  }
+
   private async storeInsights(insights: RegulatoryInsight[]): Promise<void> {
     console.log('💾 Storing insights in database...');
 
@@ -267,36 +288,70 @@ export class RegulatoryMonitoringWorkflow {
     console.log('💾 Database storage complete\n');
   }
 
-  async getMonitoringMetrics(): Promise<MonitoringMetrics> {
+  /**
+   * Métriques calculées à partir de l'historique des passages (fenêtre glissante)
+   */
+  async getMonitoringMetrics(windowDays: number = 30): Promise<MonitoringMetrics> {
     const updates = await storage.getRegulatoryUpdates(1000);
     const criticalUpdates = updates.filter(u => u.severity === 'critique');
 
-    // Calculate average relevance (mock for now)
-    const avgRelevance = 75;
+    const sources = await storage.getRegulatorySources();
+    const runs = await storage.getRegulatorySyncRunsSince(new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000));
+    const finishedRuns = runs.filter(run => run.status !== 'running');
+    const completedRuns = finishedRuns.filter(run => run.status === 'completed');
+
+    // Latence moyenne des passages terminés
+    const durations = completedRuns.map(run => run.durationMs).filter((ms): ms is number => ms !== null);
+    const processingLatency = durations.length > 0
+      ? Math.round(durations.reduce((sum, ms) => sum + ms, 0) / durations.length)
+      : 0;
+
+    // Taux d'erreur : collectes de source en échec, un passage en échec sans statut compte pour une erreur
+    let attempts = 0;
+    let failures = 0;
+    for (const run of finishedRuns) {
+      const statuses = Object.values(run.sourceStatus || {});
+      if (statuses.length === 0) {
+        attempts += 1;
+        failures += run.status === 'failed' ? 1 : 0;
+        continue;
+      }
+      attempts += statuses.length;
+      failures += statuses.filter(status => !status.success).length;
+    }
+    const errorRate = attempts > 0 ? Math.round((failures / attempts) * 1000) / 10 : 0;
+
+    // Score de pertinence moyen pondéré par le nombre d'éléments analysés
+    const scoredRuns = completedRuns.filter(run => run.averageRelevanceScore !== null && run.totalAnalyzed > 0);
+    const analyzedTotal = scoredRuns.reduce((sum, run) => sum + run.totalAnalyzed, 0);
+    const averageRelevanceScore = analyzedTotal > 0
+      ? Math.round(scoredRuns.reduce((sum, run) => sum + run.averageRelevanceScore! * run.totalAnalyzed, 0) / analyzedTotal)
+      : 0;
 
     return {
-      totalSources: 3, // EUR-Lex, CNIL, EC AI Office
-      activeSources: 3,
+      totalSources: sources.length,
+      activeSources: sources.filter(source => source.enabled).length,
       totalUpdates: updates.length,
       criticalAlerts: criticalUpdates.length,
-      lastSync: updates[0]?.publishedAt || new Date(),
-      averageRelevanceScore: avgRelevance,
-      processingLatency: 2500, // ms
-      errorRate: 0,
+      lastSync: completedRuns[0]?.completedAt || updates[0]?.publishedAt || new Date(),
+      averageRelevanceScore,
+      processingLatency,
+      errorRate,
     };
   }
 
   /**
-   * Sauvegarde les insights actionnables en base de données
+   * Sauvegarde les insights actionnables : mise à jour du flux, insight de l'organisation,
+   * une tâche suivie par action du plan et les réévaluations des systèmes impactés
    */
   private async storeActionableInsights(
     actionableInsights: ActionableRegulatoryInsight[],
-    userId: string
+    userId: string,
+    organizationId: string
   ): Promise<void> {
     try {
       for (const insight of actionableInsights) {
-        // Sauvegarder l'insight de base (existant)
-        const regulatoryUpdate = {
+        const regulatoryUpdate = await storage.createRegulatoryUpdate({
           source: insight.classifiedData.analyzedData.rawData.source,
           title: insight.classifiedData.analyzedData.rawData.title,
           content: insight.synthesis.executiveSummary,
@@ -304,21 +359,22 @@ export class RegulatoryMonitoringWorkflow {
           publishedAt: insight.classifiedData.analyzedData.rawData.publishedDate,
           severity: this.mapImpactToSeverity(insight.classifiedData.analyzedData.analysis.impactLevel),
           category: insight.classifiedData.classification.updateType,
-          metadata: {
-            relevanceScore: insight.userContext.relevanceScore,
-            urgencyLevel: insight.userContext.urgencyLevel,
-            estimatedImpact: insight.userContext.estimatedImpact,
-            riskAmplification: insight.userContext.riskAmplification,
-            totalActions: insight.actionPlan.priorityActions.length,
-            estimatedEffort: insight.actionPlan.estimatedEffort,
-            budgetImpact: insight.actionPlan.budgetImpact,
-          },
-        };
+        });
 
-        await storage.createRegulatoryUpdate(regulatoryUpdate);
+        const { insight: storedInsight } = await actionItemService.importActionPlan(insight, {
+          organizationId,
+          userId,
+          regulatoryUpdateId: regulatoryUpdate.id,
+        });
 
-        // TODO: Sauvegarder les actions et checklists dans des tables dédiées
-        // (nécessitera l'extension du schéma de base de données)
+        // Les systèmes touchés par un changement d'impact élevé ou critique doivent être réévalués
+        await reassessmentService.requestForInsight({
+          organizationId,
+          insightId: storedInsight.id,
+          title: storedInsight.title,
+          impactLevel: insight.classifiedData.analyzedData.analysis.impactLevel,
+          impactedSystems: insight.userContext.impactedSystems,
+        });
       }
 
       console.log(`✅ Stored ${actionableInsights.length} actionable insights in database`);
@@ -6,6 +6,7 @@ import {
   timestamp,
   jsonb,
   integer,
+  doublePrecision,
   boolean,
   index,
   pgEnum,
@@ -34,10 +35,41 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  isPlatformAdmin: boolean("is_platform_admin").default(false), // Platform-wide administration (security settings, reindexing)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Organization membership roles enum
+export const organizationRoleEnum = pgEnum('organization_role', ['owner', 'compliance_officer', 'assessor', 'viewer', 'auditor']);
+
+// Assessment mode: fully rule-based, or rule-based with an optional LLM narrative on top
+export const assessmentModeEnum = pgEnum('assessment_mode', ['deterministic', 'llm_enriched']);
+
+// Organizations table (shared AI system portfolio for a compliance team)
+export const organizations = pgTable("organizations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  assessmentMode: assessmentModeEnum("assessment_mode").notNull().default('llm_enriched'),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Organization memberships table (user role within an organization)
+export const organizationMemberships = pgTable("organization_memberships", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  role: organizationRoleEnum("role").notNull().default('viewer'),
+  invitedBy: varchar("invited_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  // Un utilisateur n'a qu'un seul rôle par organisation
+  uniqueOrganizationUser: unique().on(table.organizationId, table.userId),
+}));
+
 // Risk levels enum
 export const riskLevelEnum = pgEnum('risk_level', ['minimal', 'limited', 'high', 'unacceptable']);
 
@@ -55,7 +87,12 @@ export const securityEventTypeEnum = pgEnum('security_event_type', [
   'password_reset_requested', 'password_reset_completed',
   'account_locked', 'account_unlocked', 'suspicious_activity',
   'security_settings_updated', 'session_revoked', 'all_sessions_revoked',
-  'session_metadata_updated', 'unauthorized_access', 'api_access'
+  'session_metadata_updated', 'unauthorized_access', 'api_access',
+  'organization_created', 'organization_member_added', 'organization_member_role_changed',
+  'organization_member_removed', 'certificate_signing_key_rotated', 'certificate_revoked',
+  'regulatory_source_created', 'regulatory_source_updated', 'regulatory_source_deleted',
+  'personal_access_token_created', 'personal_access_token_revoked', 'mcp_tool_called',
+  'organization_settings_updated', 'certificate_status_changed'
 ]);
 export const sessionStatusEnum = pgEnum('session_status', ['active', 'expired', 'revoked']);
 
@@ -161,10 +198,40 @@ export const aiUseCaseEnum = pgEnum('ai_use_case', [
   'other'
 ]);
 
+export const GPAI_MODALITIES = ['text', 'image', 'audio', 'video', 'code'] as const;
+
+// Art. 51(2): a GPAI model is presumed to have high-impact capabilities when the cumulative
+// compute used for its training exceeds 10^25 floating point operations
+export const GPAI_SYSTEMIC_RISK_FLOP_THRESHOLD = 1e25;
+
+// General-purpose AI models trained or fine-tuned by the organization (Art. 51-55)
+export const gpaiModels = pgTable("gpai_models", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  name: varchar("name").notNull(),
+  version: varchar("version"),
+  description: text("description"),
+  trainingComputeFlops: doublePrecision("training_compute_flops"), // Cumulative training compute, in FLOPs
+  modalities: jsonb("modalities").$type<GpaiModality[]>().notNull().default([]),
+  isOpenWeight: boolean("is_open_weight").notNull().default(false), // Free and open-source licence with public weights (Art. 53(2))
+  commissionDesignated: boolean("commission_designated").notNull().default(false), // Designated by the Commission (Art. 52(4))
+  designationReference: varchar("designation_reference"), // Reference of the Commission decision
+  externalDownstreamSystems: jsonb("external_downstream_systems").$type<string[]>().notNull().default([]), // Third-party systems integrating the model
+  systemicRisk: boolean("systemic_risk").notNull().default(false),
+  systemicRiskBasis: varchar("systemic_risk_basis").$type<GpaiSystemicRiskBasis>(),
+  completedObligations: jsonb("completed_obligations").$type<string[]>().notNull().default([]), // Ids of the Art. 53/55 checklist items done
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_gpai_models_organization_id").on(table.organizationId),
+]);
+
 // AI systems table
 export const aiSystems = pgTable("ai_systems", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
+  organizationId: varchar("organization_id").references(() => organizations.id),
   name: varchar("name").notNull(),
   description: text("description"),
   sector: varchar("sector"),
@@ -174,15 +241,87 @@ export const aiSystems = pgTable("ai_systems", {
   assessmentData: jsonb("assessment_data"),
   complianceScore: integer("compliance_score"),
   lastAssessed: timestamp("last_assessed"),
+  reassessmentRequired: boolean("reassessment_required").notNull().default(false), // Set by high/critical regulatory insights
+  modelDetails: text("model_details"), // Model, provider and version
+  dataDetails: text("data_details"), // Training and input data
+  currentVersion: integer("current_version").notNull().default(1),
+  operatorRoles: jsonb("operator_roles").$type<OperatorRole[]>().notNull().default(['provider']), // Roles our organization plays for this system
+  providerTrigger: varchar("provider_trigger").$type<ProviderTrigger>(), // Art. 25(1) case making a non-provider role a provider
+  gpaiModelId: varchar("gpai_model_id").references(() => gpaiModels.id), // GPAI model the system is built on
+  externalId: varchar("external_id"), // Identifier in the organization's own AI inventory, used to upsert on import
+  prohibitedPractice: boolean("prohibited_practice").notNull().default(false), // Flagged by the latest Art. 5 screening; blocks certificate issuance
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  unique().on(table.organizationId, table.externalId),
+]);
+
+export const OPERATOR_ROLES = ['provider', 'deployer', 'importer', 'distributor', 'authorized_representative'] as const;
+
+// Art. 25(1): a deployer, importer or distributor becomes provider of a high-risk system when it
+// (a) puts its name or trademark on it, (b) substantially modifies it, (c) changes its intended purpose
+export const PROVIDER_TRIGGERS = ['own_name_or_trademark', 'substantial_modification', 'intended_purpose_change'] as const;
+
+// Immutable AI system versions, used to detect substantial modifications (Art. 43(4))
+export const aiSystemVersions = pgTable("ai_system_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  aiSystemId: varchar("ai_system_id").notNull().references(() => aiSystems.id),
+  organizationId: varchar("organization_id").references(() => organizations.id),
+  version: integer("version").notNull(),
+  snapshot: jsonb("snapshot").$type<AiSystemVersionSnapshot>().notNull(),
+  changes: jsonb("changes").$type<AiSystemVersionChange[]>().notNull().default([]), // Changes from the previous version
+  isSubstantial: boolean("is_substantial").notNull().default(false),
+  substantialReasons: jsonb("substantial_reasons").$type<string[]>().notNull().default([]),
+  changeNote: text("change_note"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.aiSystemId, table.version),
+]);
+
+export const PROHIBITED_PRACTICE_OUTCOMES = ['prohibited', 'exception_applies', 'not_prohibited'] as const;
+
+// Screenings of AI systems against the prohibited practices of Art. 5(1); the latest one sets aiSystems.prohibitedPractice
+export const prohibitedPracticeScreenings = pgTable("prohibited_practice_screenings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  aiSystemId: varchar("ai_system_id").notNull().references(() => aiSystems.id),
+  organizationId: varchar("organization_id").references(() => organizations.id),
+  answers: jsonb("answers").$type<Record<string, boolean>>().notNull(),
+  outcome: varchar("outcome").$type<ProhibitedPracticeOutcome>().notNull(),
+  prohibitedPractices: jsonb("prohibited_practices").$type<string[]>().notNull().default([]), // Ids of the practices found prohibited
+  trace: jsonb("trace").$type<ProhibitedPracticeTraceEntry[]>().notNull(), // Deterministic decision trace, one entry per practice
+  screenedBy: varchar("screened_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_prohibited_practice_screenings_ai_system_id").on(table.aiSystemId),
+]);
+
+export const HIGH_RISK_CLASSIFICATION_OUTCOMES = ['high_risk_annex_i', 'high_risk_annex_iii', 'derogation', 'not_high_risk'] as const;
+
+// Explainable Art. 6 classifications (Annex I route, Annex III decision tree, Art. 6(3) derogation)
+export const highRiskClassifications = pgTable("high_risk_classifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  aiSystemId: varchar("ai_system_id").notNull().references(() => aiSystems.id),
+  organizationId: varchar("organization_id").references(() => organizations.id),
+  answers: jsonb("answers").$type<Record<string, boolean>>().notNull(),
+  outcome: varchar("outcome").$type<HighRiskClassificationOutcome>().notNull(),
+  annexIiiPoints: jsonb("annex_iii_points").$type<string[]>().notNull().default([]), // Ids of the Annex III points that apply
+  profiling: boolean("profiling"), // Asked only when an Annex III point applies
+  derogationConditions: jsonb("derogation_conditions").$type<string[]>().notNull().default([]), // Art. 6(3)(a)-(d) conditions met
+  derogationJustification: text("derogation_justification"), // Documented assessment required by Art. 6(4)
+  trace: jsonb("trace").$type<HighRiskClassificationTraceEntry[]>().notNull(),
+  classifiedBy: varchar("classified_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_high_risk_classifications_ai_system_id").on(table.aiSystemId),
+]);
 
 // Risk assessments table (Extended for Positive AI Framework v3.0 + EU AI Act)
 export const riskAssessments = pgTable("risk_assessments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   aiSystemId: varchar("ai_system_id").notNull().references(() => aiSystems.id),
   userId: varchar("user_id").notNull().references(() => users.id),
+  organizationId: varchar("organization_id").references(() => organizations.id),
   // Basic system information
   systemName: varchar("system_name").notNull().default('System IA'),
   organizationName: varchar("organization_name").notNull().default('Organisation'),
@@ -205,7 +344,9 @@ export const riskAssessments = pgTable("risk_assessments", {
   formData: jsonb("form_data").notNull(), // Full form data for reference
   riskScore: integer("risk_score"), // Combined risk score 0-100
   riskLevel: riskLevelEnum("risk_level"), // Final risk level considering both tiers
-  reasoning: text("reasoning"), // AI-generated explanation
+  reasoning: text("reasoning"), // Rule-based explanation citing the articles and answers behind the result
+  aiNarrative: text("ai_narrative"), // Optional LLM narrative (llm_enriched mode only)
+  assessmentMode: assessmentModeEnum("assessment_mode"), // Mode the assessment was computed with
   
   // EU AI Act Compliance
   applicableObligations: jsonb("applicable_obligations"), // Array of obligations
@@ -257,6 +398,27 @@ export const complianceRecords = pgTable("compliance_records", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Evidence attachments table (files backing compliance records)
+export const evidenceAttachments = pgTable("evidence_attachments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  aiSystemId: varchar("ai_system_id").notNull().references(() => aiSystems.id),
+  complianceRecordId: varchar("compliance_record_id").references(() => complianceRecords.id),
+  articleId: varchar("article_id").references(() => aiActArticles.id),
+  uploadedBy: varchar("uploaded_by").notNull().references(() => users.id),
+  fileName: varchar("file_name").notNull(), // Original file name
+  storageKey: varchar("storage_key").notNull().unique(), // Location in the evidence storage backend
+  mimeType: varchar("mime_type").notNull(), // Sniffed from file content
+  declaredMimeType: varchar("declared_mime_type"), // Sent by the client, kept for audit
+  sizeBytes: integer("size_bytes").notNull(),
+  sha256: varchar("sha256", { length: 64 }).notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_evidence_attachments_ai_system_id").on(table.aiSystemId),
+  index("idx_evidence_attachments_compliance_record_id").on(table.complianceRecordId),
+]);
+
 // Generated documents table
 export const generatedDocuments = pgTable("generated_documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -282,6 +444,217 @@ export const regulatoryUpdates = pgTable("regulatory_updates", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Regulatory source connector types (built-in servers or generic feed/HTML connectors)
+export const regulatoryConnectorTypeEnum = pgEnum('regulatory_connector_type', ['eurlex', 'cnil', 'ec_ai_office', 'rss', 'html']);
+
+// CSS selectors for the generic HTML connector, relative to each item
+export interface HtmlSourceSelectors {
+  item: string;
+  title: string;
+  link?: string; // Defaults to the first <a> of the item
+  summary?: string;
+  date?: string;
+}
+
+// Regulatory sources polled by the collector agent
+export const regulatorySources = pgTable("regulatory_sources", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: varchar("key").notNull().unique(), // Stable identifier used in sync requests and collected document ids
+  name: varchar("name").notNull(),
+  connectorType: regulatoryConnectorTypeEnum("connector_type").notNull(),
+  url: varchar("url").notNull(), // Listing page (html) or website
+  feedUrl: varchar("feed_url"), // RSS/Atom feed (rss)
+  selectors: jsonb("selectors").$type<HtmlSourceSelectors>(),
+  keywords: jsonb("keywords").$type<string[]>(), // Keep only items mentioning one of these keywords
+  sourceType: varchar("source_type").notNull().default('national_other'), // official_eu, national_fr, national_other, standards
+  language: varchar("language").notNull().default('EN'),
+  documentType: varchar("document_type").notNull().default('guidance'),
+  pollingIntervalMinutes: integer("polling_interval_minutes").notNull().default(1440),
+  enabled: boolean("enabled").notNull().default(true),
+  lastPolledAt: timestamp("last_polled_at"),
+  lastStatus: varchar("last_status"), // success, error
+  lastError: text("last_error"),
+  lastItemCount: integer("last_item_count"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Outcome of collecting one source during a sync run
+export interface SourceCollectionStatus {
+  success: boolean;
+  count: number;
+  error?: string;
+  durationMs: number;
+}
+
+export const regulatorySyncRunStatusEnum = pgEnum('regulatory_sync_run_status', ['running', 'completed', 'failed']);
+export const regulatorySyncTriggerEnum = pgEnum('regulatory_sync_trigger', ['scheduled', 'manual', 'personalized']);
+
+// History of regulatory monitoring workflow runs (scheduled and on-demand)
+export const regulatorySyncRuns = pgTable("regulatory_sync_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trigger: regulatorySyncTriggerEnum("trigger").notNull(),
+  status: regulatorySyncRunStatusEnum("status").notNull().default('running'),
+  triggeredBy: varchar("triggered_by").references(() => users.id), // null for scheduled runs
+  sources: jsonb("sources").$type<string[]>(), // Source keys requested, null = all enabled sources
+  sourceStatus: jsonb("source_status").$type<Record<string, SourceCollectionStatus>>(),
+  totalCollected: integer("total_collected").notNull().default(0),
+  totalAnalyzed: integer("total_analyzed").notNull().default(0),
+  totalInsights: integer("total_insights").notNull().default(0),
+  averageRelevanceScore: integer("average_relevance_score"), // Mean analysis score of collected items
+  durationMs: integer("duration_ms"),
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("idx_regulatory_sync_runs_started_at").on(table.startedAt),
+]);
+
+// Personalized regulatory insights of an organization, with the generated action plan
+export const regulatoryInsights = pgTable("regulatory_insights", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  regulatoryUpdateId: varchar("regulatory_update_id").references(() => regulatoryUpdates.id),
+  generatedFor: varchar("generated_for").references(() => users.id), // User whose systems and maturity were used
+  source: varchar("source").notNull(),
+  title: text("title").notNull(),
+  summary: text("summary"),
+  url: varchar("url"),
+  impactLevel: varchar("impact_level"), // critical, high, medium, low
+  relevanceScore: integer("relevance_score").notNull().default(0), // 0-100
+  urgencyLevel: varchar("urgency_level").notNull(), // immediate, high, medium, low
+  estimatedImpact: integer("estimated_impact"), // 0-100
+  impactedSystemIds: jsonb("impacted_system_ids").$type<string[]>(),
+  estimatedEffort: varchar("estimated_effort"),
+  budgetImpact: varchar("budget_impact"),
+  actionPlan: jsonb("action_plan").$type<Record<string, any>>(), // Checklist, timeline and risk mitigation as generated
+  publishedAt: timestamp("published_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_regulatory_insights_organization_id").on(table.organizationId),
+]);
+
+export const reassessmentStatusEnum = pgEnum('reassessment_status', ['pending', 'overdue', 'completed']);
+
+// Reassessments required when a high or critical regulatory insight impacts an AI system
+export const systemReassessments = pgTable("system_reassessments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  aiSystemId: varchar("ai_system_id").notNull().references(() => aiSystems.id),
+  organizationId: varchar("organization_id").references(() => organizations.id),
+  insightId: varchar("insight_id").references(() => regulatoryInsights.id),
+  reason: text("reason").notNull(), // Title of the triggering regulatory update
+  impactLevel: varchar("impact_level").notNull(), // critical, high
+  status: reassessmentStatusEnum("status").notNull().default('pending'),
+  previousAssessmentId: varchar("previous_assessment_id").references(() => riskAssessments.id),
+  draftFormData: jsonb("draft_form_data").$type<Record<string, any>>(), // Previous answers, pre-filled in the new assessment
+  ownerId: varchar("owner_id").notNull().references(() => users.id), // Notified system owner
+  dueDate: timestamp("due_date").notNull(), // The system becomes non_compliant past this date
+  completedAssessmentId: varchar("completed_assessment_id").references(() => riskAssessments.id),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_system_reassessments_ai_system_id").on(table.aiSystemId),
+  index("idx_system_reassessments_status").on(table.status),
+]);
+
+// Questions of each Positive AI framework dimension in the guided assessment form (assessment page, 0-100 risk scale),
+// used to track draft completion and to compare answers with the reference risk profile. This form is not driven by
+// the framework question bank: its answers are read as legacy signals by the EU AI Act classification, whereas the
+// bank's published questions are answered on the framework page as frameworkResponses (1-5 scale)
+export const ASSESSMENT_DIMENSION_QUESTIONS: Record<typeof aiFrameworkDimensionEnum.enumValues[number], string[]> = {
+  justice_fairness: ['bias_risk', 'protected_groups'],
+  transparency_explainability: ['explainability_risk', 'user_awareness'],
+  human_ai_interaction: ['human_oversight', 'override_capability'],
+  social_environmental_impact: ['societal_harm', 'environmental_impact'],
+  responsibility: ['accountability_risk', 'incident_management'],
+  data_privacy: ['data_sensitivity', 'privacy_protection'],
+  technical_robustness_security: ['security_risk', 'robustness_risk'],
+};
+
+export const ASSESSMENT_DRAFT_SECTIONS = ['basic_information', ...aiFrameworkDimensionEnum.enumValues] as const;
+
+export const assessmentDraftStatusEnum = pgEnum('assessment_draft_status', ['in_progress', 'submitted']);
+
+// Server-side drafts of the assessment form, autosaved and resumable by any member of the organization
+export const assessmentDrafts = pgTable("assessment_drafts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  aiSystemId: varchar("ai_system_id").references(() => aiSystems.id), // Reassessed system, if any
+  reassessmentId: varchar("reassessment_id").references(() => systemReassessments.id),
+  formData: jsonb("form_data").$type<AssessmentDraftFormData>().notNull(),
+  currentStep: integer("current_step").notNull().default(0),
+  sectionAssignments: jsonb("section_assignments").$type<Partial<Record<AssessmentDraftSection, string>>>().notNull().default({}), // Section -> assignee user id
+  status: assessmentDraftStatusEnum("status").notNull().default('in_progress'),
+  submittedAssessmentId: varchar("submitted_assessment_id").references(() => riskAssessments.id),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_assessment_drafts_organization_id").on(table.organizationId),
+]);
+
+export const ACTION_ITEM_PRIORITIES = ['urgent', 'high', 'medium', 'low'] as const;
+export const ACTION_ITEM_CATEGORIES = ['compliance', 'documentation', 'technical', 'governance', 'training'] as const;
+
+export const actionItemStatusEnum = pgEnum('action_item_status', ['todo', 'in_progress', 'blocked', 'done']);
+
+// Trackable tasks of an organization, generated from an insight action plan or created manually
+export const actionItems = pgTable("action_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  insightId: varchar("insight_id").references(() => regulatoryInsights.id), // null for manual tasks
+  aiSystemId: varchar("ai_system_id").references(() => aiSystems.id),
+  generatedActionId: varchar("generated_action_id"), // Id given by the action generator agent
+  title: text("title").notNull(),
+  description: text("description"),
+  category: varchar("category").notNull().default('compliance'),
+  priority: varchar("priority").notNull().default('medium'),
+  impactLevel: varchar("impact_level"),
+  status: actionItemStatusEnum("status").notNull().default('todo'),
+  assigneeId: varchar("assignee_id").references(() => users.id),
+  suggestedOwner: varchar("suggested_owner"), // Role suggested by the agent (DPO, équipe technique...)
+  dueDate: timestamp("due_date"),
+  estimatedHours: integer("estimated_hours"),
+  requiredSkills: jsonb("required_skills").$type<string[]>(),
+  resources: jsonb("resources").$type<string[]>(),
+  prerequisites: jsonb("prerequisites").$type<string[]>(), // Generated dependencies that match no other task
+  createdBy: varchar("created_by").references(() => users.id),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_action_items_organization_id").on(table.organizationId),
+  index("idx_action_items_insight_id").on(table.insightId),
+]);
+
+// "actionItemId cannot start before dependsOnId is done"
+export const actionItemDependencies = pgTable("action_item_dependencies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actionItemId: varchar("action_item_id").notNull().references(() => actionItems.id, { onDelete: 'cascade' }),
+  dependsOnId: varchar("depends_on_id").notNull().references(() => actionItems.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.actionItemId, table.dependsOnId),
+]);
+
+export const actionItemCommentKindEnum = pgEnum('action_item_comment_kind', ['comment', 'status_change', 'assignment', 'due_date_change']);
+
+// Comment history of a task, including the changes of status, assignee and due date
+export const actionItemComments = pgTable("action_item_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actionItemId: varchar("action_item_id").notNull().references(() => actionItems.id, { onDelete: 'cascade' }),
+  authorId: varchar("author_id").references(() => users.id),
+  kind: actionItemCommentKindEnum("kind").notNull().default('comment'),
+  body: text("body").notNull(),
+  metadata: jsonb("metadata").$type<{ from?: string | null; to?: string | null }>(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_action_item_comments_action_item_id").on(table.actionItemId),
+]);
+
 // LLM configuration settings
 export const llmSettings = pgTable("llm_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -318,6 +691,7 @@ export const maturityAssessments = pgTable("maturity_assessments", {
   recommendations: jsonb("recommendations"),
   actionPlan: jsonb("action_plan"),
   overallScore: integer("overall_score"), // 0-100
+  frameworkVersion: varchar("framework_version"), // Question bank version used
   // EU AI Act compliance status
   euAiActCompliance: jsonb("eu_ai_act_compliance"), // Compliance mapping per article
   complianceGaps: jsonb("compliance_gaps"), // Identified gaps and action items
@@ -325,12 +699,28 @@ export const maturityAssessments = pgTable("maturity_assessments", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const frameworkVersionStatusEnum = pgEnum('framework_version_status', ['draft', 'published', 'archived']);
+
+// Versions of the framework question bank: only a draft is editable, published versions are frozen
+// so that assessments scored with them stay reproducible
+export const frameworkVersions = pgTable("framework_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  version: varchar("version").notNull().unique(), // e.g., "3.0", "3.1"
+  status: frameworkVersionStatusEnum("status").notNull().default('draft'),
+  description: text("description"),
+  basedOn: varchar("based_on"), // Version the questions were copied from
+  createdBy: varchar("created_by").references(() => users.id),
+  publishedBy: varchar("published_by").references(() => users.id),
+  publishedAt: timestamp("published_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Framework questions and criteria table (Positive AI v3.0)
 export const frameworkQuestions = pgTable("framework_questions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   dimension: aiFrameworkDimensionEnum("dimension").notNull(),
   strategyKey: frameworkStrategyEnum("strategy_key").notNull(), // Strategy identifier
-  questionId: varchar("question_id").notNull().unique(), // e.g., "justice_1", "transparency_3" 
+  questionId: varchar("question_id").notNull(), // e.g., "justice_1", "transparency_3", unique within a version
   strategy: text("strategy").notNull(), // Strategy name from framework
   question: text("question").notNull(), // Evaluation question
   correspondingAction: text("corresponding_action"), // Required action
@@ -339,11 +729,15 @@ export const frameworkQuestions = pgTable("framework_questions", {
   employeeRiskLevel: frameworkRiskLevelEnum("employee_risk_level"), // Risk level for employee-facing  
   projectPhase: varchar("project_phase"), // When to implement
   weight: integer("weight").default(10), // Question weight (1-100)
+  options: jsonb("options").$type<FrameworkQuestionOption[]>(), // Answer scale (1-5)
+  position: integer("position").notNull().default(0), // Display order within the dimension
   isActive: boolean("is_active").default(true),
-  frameworkVersion: varchar("framework_version").default('3.0'),
+  frameworkVersion: varchar("framework_version").notNull().default('3.0'),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  unique().on(table.frameworkVersion, table.questionId),
+]);
 
 // Use case risk mapping (from Positive AI framework)
 export const useCaseRiskMapping = pgTable("use_case_risk_mapping", {
@@ -351,8 +745,8 @@ export const useCaseRiskMapping = pgTable("use_case_risk_mapping", {
   useCase: aiUseCaseEnum("use_case").notNull(),
   industrySector: industrySectorEnum("industry_sector"),
   // Risk levels per dimension (customer and employee)
-  customerRiskLevels: jsonb("customer_risk_levels").notNull(), // 7 dimensions
-  employeeRiskLevels: jsonb("employee_risk_levels").notNull(), // 7 dimensions  
+  customerRiskLevels: jsonb("customer_risk_levels").$type<UseCaseRiskLevels>().notNull(), // 7 dimensions
+  employeeRiskLevels: jsonb("employee_risk_levels").$type<UseCaseRiskLevels>().notNull(), // 7 dimensions
   description: text("description"),
   remarks: text("remarks"),
   frameworkVersion: varchar("framework_version").default('3.0'),
@@ -371,6 +765,7 @@ export const certificateTypeEnum = pgEnum('certificate_type', ['conformity', 'ri
 export const complianceCertificates = pgTable("compliance_certificates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
+  organizationId: varchar("organization_id").references(() => organizations.id),
   aiSystemId: varchar("ai_system_id").references(() => aiSystems.id),
   maturityAssessmentId: varchar("maturity_assessment_id").references(() => maturityAssessments.id),
   certificateType: certificateTypeEnum("certificate_type").notNull(),
@@ -387,11 +782,115 @@ export const complianceCertificates = pgTable("compliance_certificates", {
   issuedAt: timestamp("issued_at").defaultNow(),
   validUntil: timestamp("valid_until"), // 1 year validity
   certificateData: jsonb("certificate_data"), // Full certificate content for PDF generation
-  certificationHash: varchar("certification_hash"), // Hash for verification
+  certificationHash: varchar("certification_hash"), // SHA-256 of the canonical certificate data
+  signature: text("signature"), // Ed25519 signature (base64url) of the canonical certificate data
+  signingKeyId: varchar("signing_key_id"), // Thumbprint of the signing key, see /.well-known/certificate-keys.json
+  revokedAt: timestamp("revoked_at"),
+  revocationReason: text("revocation_reason"),
+  renewalStartedAt: timestamp("renewal_started_at"),
+  renewalStartedBy: varchar("renewal_started_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Renewal reminders already sent (one per certificate and threshold)
+export const certificateReminders = pgTable("certificate_reminders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  certificateId: varchar("certificate_id").notNull().references(() => complianceCertificates.id),
+  thresholdDays: integer("threshold_days").notNull(), // 60, 30 or 7 days before expiry
+  sentAt: timestamp("sent_at").defaultNow(),
+}, (table) => ({
+  uniqueCertificateThreshold: unique().on(table.certificateId, table.thresholdDays),
+}));
+
+// In-app notifications
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  organizationId: varchar("organization_id").references(() => organizations.id),
+  type: varchar("type").notNull(), // e.g. certificate_expiring, certificate_expired
+  title: varchar("title").notNull(),
+  message: text("message").notNull(),
+  link: varchar("link"), // Client route to open
+  metadata: jsonb("metadata"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_notifications_user_id").on(table.userId),
+]);
+
+// Workflow enums
+export const workflowExecutionStatusEnum = pgEnum('workflow_execution_status', ['running', 'awaiting_input', 'completed', 'failed', 'cancelled']);
+export const workflowStepStatusEnum = pgEnum('workflow_step_status', ['pending', 'running', 'awaiting_input', 'completed', 'failed', 'skipped']);
+
+// Step of a workflow definition, executed by the handler registered for its type
+export interface WorkflowStepDefinition {
+  id: string;
+  type: string;
+  name?: string;
+  configuration: Record<string, any>;
+}
+
+export interface WorkflowConfigurationData {
+  customSteps: WorkflowStepDefinition[];
+}
+
+// Workflow definitions table (ordered steps of a compliance process)
+export const workflowDefinitions = pgTable("workflow_definitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  version: integer("version").default(1),
+  configuration: jsonb("configuration").$type<WorkflowConfigurationData>().notNull(),
+  isActive: boolean("is_active").default(true),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_workflow_definitions_organization_id").on(table.organizationId),
+]);
+
+// Workflow executions table (one run of a definition)
+export const workflowExecutions = pgTable("workflow_executions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workflowDefinitionId: varchar("workflow_definition_id").notNull().references(() => workflowDefinitions.id),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  aiSystemId: varchar("ai_system_id").references(() => aiSystems.id),
+  startedBy: varchar("started_by").notNull().references(() => users.id),
+  status: workflowExecutionStatusEnum("status").default('running'),
+  currentStepIndex: integer("current_step_index").default(0),
+  inputData: jsonb("input_data").$type<Record<string, any>>(), // Initial data supplied at start
+  variables: jsonb("variables").$type<Record<string, any>>(), // Data available to the next steps
+  outputData: jsonb("output_data").$type<Record<string, any>>(), // Step outputs keyed by step id
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_workflow_executions_organization_id").on(table.organizationId),
+  index("idx_workflow_executions_status").on(table.status),
+]);
+
+// Workflow step executions table (input/output of each step of a run)
+export const workflowStepExecutions = pgTable("workflow_step_executions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workflowExecutionId: varchar("workflow_execution_id").notNull().references(() => workflowExecutions.id),
+  stepId: varchar("step_id").notNull(),
+  stepType: varchar("step_type").notNull(),
+  stepIndex: integer("step_index").notNull(),
+  status: workflowStepStatusEnum("status").default('pending'),
+  inputData: jsonb("input_data").$type<Record<string, any>>(),
+  outputData: jsonb("output_data").$type<Record<string, any>>(),
+  errors: jsonb("errors").$type<string[]>(),
+  warnings: jsonb("warnings").$type<string[]>(),
+  completedBy: varchar("completed_by").references(() => users.id), // User who submitted data or approved
+  startedAt: timestamp("started_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("idx_workflow_step_executions_execution_id").on(table.workflowExecutionId),
+]);
+
 // Security Settings - Global security configuration
 export const securitySettings = pgTable("security_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -510,6 +1009,26 @@ export const passwordResetTokens = pgTable("password_reset_tokens", {
   index("idx_password_reset_tokens_expires_at").on(table.expiresAt),
 ]);
 
+// Permissions a personal access token can carry (assistant MCP server)
+export const PERSONAL_ACCESS_TOKEN_SCOPES = ['assessments:read', 'regulatory:read', 'compliance:read'] as const;
+
+// Personal Access Tokens - authenticate agent and IDE clients of the assistant MCP server
+export const personalAccessTokens = pgTable("personal_access_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  name: varchar("name").notNull(),
+  tokenPrefix: varchar("token_prefix").notNull(), // Displayed to identify the token
+  tokenHash: varchar("token_hash").notNull().unique(), // SHA-256 of the token, never stored in clear
+  scopes: jsonb("scopes").$type<PersonalAccessTokenScope[]>().notNull(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_personal_access_tokens_user_id").on(table.userId),
+]);
+
 // User Sessions - Enhanced session management
 export const userSessions = pgTable("user_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -591,6 +1110,25 @@ export const usersRelations = relations(users, ({ many, one }) => ({
   passwordResetTokens: many(passwordResetTokens),
   sessions: many(userSessions),
   failedLoginAttempts: many(failedLoginAttempts),
+  organizationMemberships: many(organizationMemberships),
+}));
+
+export const organizationsRelations = relations(organizations, ({ many }) => ({
+  memberships: many(organizationMemberships),
+  aiSystems: many(aiSystems),
+  riskAssessments: many(riskAssessments),
+  complianceCertificates: many(complianceCertificates),
+}));
+
+export const organizationMembershipsRelations = relations(organizationMemberships, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationMemberships.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [organizationMemberships.userId],
+    references: [users.id],
+  }),
 }));
 
 export const aiSystemsRelations = relations(aiSystems, ({ one, many }) => ({
@@ -598,10 +1136,15 @@ export const aiSystemsRelations = relations(aiSystems, ({ one, many }) => ({
     fields: [aiSystems.userId],
     references: [users.id],
   }),
+  organization: one(organizations, {
+    fields: [aiSystems.organizationId],
+    references: [organizations.id],
+  }),
   riskAssessments: many(riskAssessments),
   complianceRecords: many(complianceRecords),
   generatedDocuments: many(generatedDocuments),
   complianceCertificates: many(complianceCertificates),
+  evidenceAttachments: many(evidenceAttachments),
 }));
 
 export const riskAssessmentsRelations = relations(riskAssessments, ({ one }) => ({
@@ -613,9 +1156,13 @@ export const riskAssessmentsRelations = relations(riskAssessments, ({ one }) =>
     fields: [riskAssessments.userId],
     references: [users.id],
   }),
+  organization: one(organizations, {
+    fields: [riskAssessments.organizationId],
+    references: [organizations.id],
+  }),
 }));
 
-export const complianceRecordsRelations = relations(complianceRecords, ({ one }) => ({
+export const complianceRecordsRelations = relations(complianceRecords, ({ one, many }) => ({
   aiSystem: one(aiSystems, {
     fields: [complianceRecords.aiSystemId],
     references: [aiSystems.id],
@@ -628,6 +1175,26 @@ export const complianceRecordsRelations = relations(complianceRecords, ({ one })
     fields: [complianceRecords.articleId],
     references: [aiActArticles.id],
   }),
+  evidenceAttachments: many(evidenceAttachments),
+}));
+
+export const evidenceAttachmentsRelations = relations(evidenceAttachments, ({ one }) => ({
+  aiSystem: one(aiSystems, {
+    fields: [evidenceAttachments.aiSystemId],
+    references: [aiSystems.id],
+  }),
+  complianceRecord: one(complianceRecords, {
+    fields: [evidenceAttachments.complianceRecordId],
+    references: [complianceRecords.id],
+  }),
+  article: one(aiActArticles, {
+    fields: [evidenceAttachments.articleId],
+    references: [aiActArticles.id],
+  }),
+  uploader: one(users, {
+    fields: [evidenceAttachments.uploadedBy],
+    references: [users.id],
+  }),
 }));
 
 export const maturityAssessmentsRelations = relations(maturityAssessments, ({ one, many }) => ({
@@ -642,11 +1209,15 @@ export const frameworkQuestionsRelations = relations(frameworkQuestions, ({ one
 
 export const useCaseRiskMappingRelations = relations(useCaseRiskMapping, ({ one }) => ({}));
 
-export const complianceCertificatesRelations = relations(complianceCertificates, ({ one }) => ({
+export const complianceCertificatesRelations = relations(complianceCertificates, ({ one, many }) => ({
   user: one(users, {
     fields: [complianceCertificates.userId],
     references: [users.id],
   }),
+  organization: one(organizations, {
+    fields: [complianceCertificates.organizationId],
+    references: [organizations.id],
+  }),
   aiSystem: one(aiSystems, {
     fields: [complianceCertificates.aiSystemId],
     references: [aiSystems.id],
@@ -655,6 +1226,52 @@ export const complianceCertificatesRelations = relations(complianceCertificates,
     fields: [complianceCertificates.maturityAssessmentId],
     references: [maturityAssessments.id],
   }),
+  reminders: many(certificateReminders),
+}));
+
+export const certificateRemindersRelations = relations(certificateReminders, ({ one }) => ({
+  certificate: one(complianceCertificates, {
+    fields: [certificateReminders.certificateId],
+    references: [complianceCertificates.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+  organization: one(organizations, {
+    fields: [notifications.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const workflowDefinitionsRelations = relations(workflowDefinitions, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [workflowDefinitions.organizationId],
+    references: [organizations.id],
+  }),
+  executions: many(workflowExecutions),
+}));
+
+export const workflowExecutionsRelations = relations(workflowExecutions, ({ one, many }) => ({
+  workflowDefinition: one(workflowDefinitions, {
+    fields: [workflowExecutions.workflowDefinitionId],
+    references: [workflowDefinitions.id],
+  }),
+  aiSystem: one(aiSystems, {
+    fields: [workflowExecutions.aiSystemId],
+    references: [aiSystems.id],
+  }),
+  stepExecutions: many(workflowStepExecutions),
+}));
+
+export const workflowStepExecutionsRelations = relations(workflowStepExecutions, ({ one }) => ({
+  workflowExecution: one(workflowExecutions, {
+    fields: [workflowStepExecutions.workflowExecutionId],
+    references: [workflowExecutions.id],
+  }),
 }));
 
 // Security table relations
@@ -720,12 +1337,47 @@ export const safeUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
-export const insertAiSystemSchema = createInsertSchema(aiSystems).omit({
+export const insertOrganizationSchema = createInsertSchema(organizations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertOrganizationMembershipSchema = createInsertSchema(organizationMemberships).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Organization management schemas
+export const createOrganizationSchema = z.object({
+  name: z.string().min(1, "Organization name is required").max(200),
+});
+
+export const addOrganizationMemberSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(organizationRoleEnum.enumValues),
+});
+
+export const updateOrganizationMemberSchema = z.object({
+  role: z.enum(organizationRoleEnum.enumValues),
+});
+
+export const updateOrganizationSettingsSchema = z.object({
+  assessmentMode: z.enum(assessmentModeEnum.enumValues),
+});
+
+export const insertAiSystemSchema = createInsertSchema(aiSystems, {
+  operatorRoles: z.array(z.enum(OPERATOR_ROLES)).min(1).optional(),
+  providerTrigger: z.enum(PROVIDER_TRIGGERS).nullable().optional(),
+}).omit({
+  id: true,
+  gpaiModelId: true, // Linked from the GPAI model register
+  prohibitedPractice: true, // Set by the Art. 5 screening
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertRiskAssessmentSchema = createInsertSchema(riskAssessments).omit({
   id: true,
   completedAt: true,
@@ -739,6 +1391,21 @@ export const insertComplianceRecordSchema = createInsertSchema(complianceRecords
   updatedAt: true,
 });
 
+export const insertEvidenceAttachmentSchema = createInsertSchema(evidenceAttachments).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Metadata sent alongside an evidence file upload
+export const uploadEvidenceSchema = z.object({
+  aiSystemId: z.string().min(1).optional(),
+  complianceRecordId: z.string().min(1).optional(),
+  articleId: z.string().min(1).optional(),
+  description: z.string().max(2000).optional(),
+}).refine(data => data.aiSystemId || data.complianceRecordId, {
+  message: "aiSystemId or complianceRecordId is required",
+});
+
 export const insertGeneratedDocumentSchema = createInsertSchema(generatedDocuments).omit({
   id: true,
   generatedAt: true,
@@ -769,12 +1436,338 @@ export const insertFrameworkQuestionSchema = createInsertSchema(frameworkQuestio
   updatedAt: true,
 });
 
+const frameworkQuestionOptionSchema = z.object({
+  value: z.number().int().min(1).max(5),
+  label: z.string().min(1).max(100),
+  description: z.string().max(500).default(''),
+});
+
+// Questions are authored in a draft version; the strategy name is derived from the strategy key
+export const frameworkQuestionInputSchema = z.object({
+  questionId: z.string().regex(/^[a-z0-9_]+$/, 'Lowercase letters, digits and underscores only').max(100),
+  dimension: z.enum(aiFrameworkDimensionEnum.enumValues),
+  strategyKey: z.enum(frameworkStrategyEnum.enumValues),
+  question: z.string().min(1).max(2000),
+  correspondingAction: z.string().max(2000).nullable().optional(),
+  tools: z.array(z.string().max(200)).nullable().optional(),
+  customerRiskLevel: z.enum(frameworkRiskLevelEnum.enumValues).nullable().optional(),
+  employeeRiskLevel: z.enum(frameworkRiskLevelEnum.enumValues).nullable().optional(),
+  projectPhase: z.string().max(100).nullable().optional(),
+  weight: z.number().int().min(1).max(100).default(10),
+  options: z.array(frameworkQuestionOptionSchema).length(5).nullable().optional(),
+  isActive: z.boolean().default(true),
+});
+
+export const updateFrameworkQuestionSchema = frameworkQuestionInputSchema.partial();
+
+export const createFrameworkVersionSchema = z.object({
+  version: z.string().regex(/^\d+(\.\d+)*$/, 'Version must look like 3.1').max(20),
+  description: z.string().max(2000).nullable().optional(),
+});
+
+const frameworkRiskLevelSchema = z.enum(frameworkRiskLevelEnum.enumValues);
+
+export const useCaseRiskLevelsSchema = z.object({
+  justice_fairness: frameworkRiskLevelSchema,
+  transparency_explainability: frameworkRiskLevelSchema,
+  human_ai_interaction: frameworkRiskLevelSchema,
+  social_environmental_impact: frameworkRiskLevelSchema,
+  responsibility: frameworkRiskLevelSchema,
+  data_privacy: frameworkRiskLevelSchema,
+  technical_robustness_security: frameworkRiskLevelSchema,
+});
+
+export const useCaseRiskMappingInputSchema = z.object({
+  useCase: z.enum(aiUseCaseEnum.enumValues),
+  industrySector: z.enum(industrySectorEnum.enumValues).nullable().optional(), // null: applies to every sector
+  customerRiskLevels: useCaseRiskLevelsSchema,
+  employeeRiskLevels: useCaseRiskLevelsSchema,
+  description: z.string().max(2000).nullable().optional(),
+  remarks: z.string().max(2000).nullable().optional(),
+  isActive: z.boolean().default(true),
+});
+
+export const updateUseCaseRiskMappingSchema = useCaseRiskMappingInputSchema.partial();
+
+export const useCaseRiskProfileQuerySchema = z.object({
+  useCase: z.enum(aiUseCaseEnum.enumValues),
+  industrySector: z.enum(industrySectorEnum.enumValues).optional(),
+});
+
 export const insertUseCaseRiskMappingSchema = createInsertSchema(useCaseRiskMapping).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertWorkflowDefinitionSchema = createInsertSchema(workflowDefinitions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertWorkflowExecutionSchema = createInsertSchema(workflowExecutions).omit({
+  id: true,
+  startedAt: true,
+  updatedAt: true,
+});
+
+export const insertWorkflowStepExecutionSchema = createInsertSchema(workflowStepExecutions).omit({
+  id: true,
+  startedAt: true,
+});
+
+// Workflow API schemas
+export const workflowStepDefinitionSchema = z.object({
+  id: z.string().min(1),
+  type: z.string().min(1),
+  name: z.string().optional(),
+  configuration: z.record(z.any()).default({}),
+});
+
+export const createWorkflowDefinitionSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().optional(),
+  configuration: z.object({
+    customSteps: z.array(workflowStepDefinitionSchema).min(1),
+  }),
+});
+
+export const startWorkflowSchema = z.object({
+  workflowDefinitionId: z.string().min(1),
+  aiSystemId: z.string().optional(),
+  inputData: z.record(z.any()).optional(),
+});
+
+export const advanceWorkflowSchema = z.object({
+  inputData: z.record(z.any()).optional(),
+  approved: z.boolean().optional(),
+  comment: z.string().optional(),
+});
+
+const regulatorySourceFieldsSchema = z.object({
+  key: z.string().min(2).max(50).regex(/^[a-z0-9][a-z0-9-]*$/, "Lowercase letters, digits and dashes only"),
+  name: z.string().min(1).max(200),
+  connectorType: z.enum(regulatoryConnectorTypeEnum.enumValues),
+  url: z.string().url(),
+  feedUrl: z.string().url().nullable().optional(),
+  selectors: z.object({
+    item: z.string().min(1),
+    title: z.string().min(1),
+    link: z.string().min(1).optional(),
+    summary: z.string().min(1).optional(),
+    date: z.string().min(1).optional(),
+  }).nullable().optional(),
+  keywords: z.array(z.string().min(1)).max(50).nullable().optional(),
+  sourceType: z.enum(['official_eu', 'national_fr', 'national_other', 'standards']).default('national_other'),
+  language: z.string().min(2).max(5).default('EN'),
+  documentType: z.enum(['regulation', 'directive', 'decision', 'guidance', 'consultation', 'faq', 'case_law']).default('guidance'),
+  pollingIntervalMinutes: z.number().int().min(15).max(10080).default(1440),
+  enabled: z.boolean().default(true),
+});
+
+// Connector-specific requirements, checked on creation and on the merged record after an update
+const validateRegulatorySourceConnector = (
+  data: Pick<z.infer<typeof regulatorySourceFieldsSchema>, 'connectorType' | 'feedUrl' | 'selectors'>,
+  ctx: z.RefinementCtx
+) => {
+  if (data.connectorType === 'rss' && !data.feedUrl) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['feedUrl'], message: "feedUrl is required for RSS/Atom sources" });
+  }
+  if (data.connectorType === 'html' && !data.selectors) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['selectors'], message: "selectors are required for HTML sources" });
+  }
+};
+
+export const insertRegulatorySourceSchema = regulatorySourceFieldsSchema.superRefine(validateRegulatorySourceConnector);
+
+export const regulatorySourceConnectorSchema = regulatorySourceFieldsSchema
+  .pick({ connectorType: true, feedUrl: true, selectors: true })
+  .superRefine(validateRegulatorySourceConnector);
+
+export const updateRegulatorySourceSchema = regulatorySourceFieldsSchema
+  .omit({ key: true, connectorType: true })
+  .partial();
+
+// Answers that drive the EU AI Act classification; changing one is a substantial modification
+export const RISK_DRIVING_ANSWERS = [
+  'applicationDomain',
+  'userCategories',
+  'geographicalScope',
+  'sensitiveData',
+  'discriminationRisk',
+  'userInformed',
+  'explainabilityLevel',
+  'humanOversight',
+  'overrideCapability',
+  'autonomyLevel',
+  'safetyImpact',
+  'decisionConsequences',
+] as const;
+
+export const riskAnswersSchema = z.object({
+  applicationDomain: z.string().max(500),
+  userCategories: z.array(z.string().max(100)).max(50),
+  geographicalScope: z.enum(['eu', 'national', 'local']),
+  sensitiveData: z.enum(['yes', 'limited', 'no']),
+  discriminationRisk: z.enum(['high', 'medium', 'low']),
+  userInformed: z.enum(['full', 'partial', 'none']),
+  explainabilityLevel: z.enum(['high', 'medium', 'low']),
+  humanOversight: z.enum(['full', 'intermittent', 'minimal']),
+  overrideCapability: z.enum(['yes', 'limited', 'no']),
+  autonomyLevel: z.enum(['high', 'medium', 'low']),
+  safetyImpact: z.enum(['critical', 'significant', 'minimal']),
+  decisionConsequences: z.enum(['irreversible', 'reversible', 'advisory']),
+});
+
+export const updateAiSystemSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  description: z.string().max(5000).nullable().optional(),
+  sector: z.string().max(255).nullable().optional(),
+  primaryUseCase: z.string().max(255).nullable().optional(),
+  modelDetails: z.string().max(5000).nullable().optional(),
+  dataDetails: z.string().max(5000).nullable().optional(),
+  riskAnswers: riskAnswersSchema.partial().optional(),
+  changeNote: z.string().max(2000).optional(),
+});
+
+// Each simulated framework answer is rescored on its own to rank it
+export const ASSESSMENT_SIMULATION_MAX_CHANGES = 50;
+
+// Risk answers the combined assessment derives from the framework scores, whatever the form says
+export const FRAMEWORK_DERIVED_RISK_ANSWERS = ['discriminationRisk', 'explainabilityLevel'] as const;
+
+// Hypothetical answer changes applied to an existing assessment (what-if simulation, nothing is saved)
+export const assessmentSimulationSchema = z.object({
+  frameworkResponses: z.record(z.string().max(100), z.number().int().min(1).max(5)).default({})
+    .refine(responses => Object.keys(responses).length <= ASSESSMENT_SIMULATION_MAX_CHANGES, {
+      message: `At most ${ASSESSMENT_SIMULATION_MAX_CHANGES} framework answers can be simulated at once`,
+    }),
+  riskAnswers: riskAnswersSchema.omit({ discriminationRisk: true, explainabilityLevel: true }).partial().strict().default({}),
+});
+
+// One row of the AI inventory spreadsheet; columns absent from the file are left untouched on update
+export const aiSystemInventoryRowSchema = updateAiSystemSchema.pick({
+  description: true,
+  modelDetails: true,
+  dataDetails: true,
+  riskAnswers: true,
+}).extend({
+  externalId: z.string().trim().min(1).max(255),
+  name: z.string().trim().min(1).max(255),
+  sector: z.enum(industrySectorEnum.enumValues).nullable().optional(),
+  primaryUseCase: z.enum(aiUseCaseEnum.enumValues).nullable().optional(),
+  operatorRoles: z.array(z.enum(OPERATOR_ROLES)).min(1).max(OPERATOR_ROLES.length).optional(),
+  providerTrigger: z.enum(PROVIDER_TRIGGERS).nullable().optional(),
+}).refine(data => !data.providerTrigger || !data.operatorRoles?.includes('provider'), {
+  message: "Art. 25 only applies to organizations that are not already the provider",
+  path: ['providerTrigger'],
+});
+
+export const aiSystemInventoryImportOptionsSchema = z.object({
+  dryRun: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
+  preClassify: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+});
+
+export const updateOperatorRolesSchema = z.object({
+  operatorRoles: z.array(z.enum(OPERATOR_ROLES)).min(1).max(OPERATOR_ROLES.length),
+  providerTrigger: z.enum(PROVIDER_TRIGGERS).nullable().optional(),
+}).refine(data => !data.providerTrigger || !data.operatorRoles.includes('provider'), {
+  message: "Art. 25 only applies to organizations that are not already the provider",
+  path: ['providerTrigger'],
+});
+
+const gpaiModelFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  version: z.string().max(100).nullable().optional(),
+  description: z.string().max(5000).nullable().optional(),
+  trainingComputeFlops: z.number().nonnegative().max(1e35).nullable().optional(),
+  modalities: z.array(z.enum(GPAI_MODALITIES)).max(GPAI_MODALITIES.length).default([]),
+  isOpenWeight: z.boolean().default(false),
+  commissionDesignated: z.boolean().default(false),
+  designationReference: z.string().max(255).nullable().optional(),
+  externalDownstreamSystems: z.array(z.string().trim().min(1).max(255)).max(100).default([]),
+  aiSystemIds: z.array(z.string()).max(200).optional(), // Organization AI systems built on the model
+});
+
+export const createGpaiModelSchema = gpaiModelFieldsSchema;
+
+export const updateGpaiModelSchema = gpaiModelFieldsSchema.partial();
+
+export const updateGpaiObligationSchema = z.object({
+  completed: z.boolean(),
+});
+
+export const screenProhibitedPracticesSchema = z.object({
+  answers: z.record(z.string().max(100), z.boolean()).refine(answers => Object.keys(answers).length <= 100, {
+    message: "Too many answers",
+  }),
+});
+
+export const classifyHighRiskSchema = z.object({
+  answers: z.record(z.string().max(100), z.boolean()).refine(answers => Object.keys(answers).length <= 100, {
+    message: "Too many answers",
+  }),
+  derogationJustification: z.string().trim().max(10000).nullable().optional(),
+});
+
+export const updateCertificateStatusSchema = z.object({
+  status: z.enum(['valid', 'expired', 'revoked', 'pending']),
+  reason: z.string().max(1000).optional(),
+});
+
+export const createPersonalAccessTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(PERSONAL_ACCESS_TOKEN_SCOPES)).min(1),
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+const actionItemFieldsSchema = z.object({
+  title: z.string().trim().min(1).max(500),
+  description: z.string().max(5000).nullable().optional(),
+  category: z.enum(ACTION_ITEM_CATEGORIES).default('compliance'),
+  priority: z.enum(ACTION_ITEM_PRIORITIES).default('medium'),
+  status: z.enum(actionItemStatusEnum.enumValues).default('todo'),
+  assigneeId: z.string().nullable().optional(),
+  aiSystemId: z.string().nullable().optional(),
+  dueDate: z.coerce.date().nullable().optional(),
+  estimatedHours: z.number().int().min(0).max(10000).nullable().optional(),
+  dependsOn: z.array(z.string()).max(50).optional(), // Ids of the tasks this one waits for
+});
+
+export const createActionItemSchema = actionItemFieldsSchema;
+
+export const updateActionItemSchema = actionItemFieldsSchema.partial();
+
+// Responses are merged into the draft, so that assignees of different sections can save concurrently; null removes an answer
+const assessmentDraftFormDataSchema = z.object({
+  systemName: z.string().max(255).optional(),
+  industrySector: z.string().max(100).optional(),
+  primaryUseCase: z.string().max(100).optional(),
+  responses: z.record(z.string().max(100), z.number().int().min(0).max(100).nullable()).optional(),
+});
+
+export const createAssessmentDraftSchema = z.object({
+  formData: assessmentDraftFormDataSchema.default({}),
+  currentStep: z.number().int().min(0).max(ASSESSMENT_DRAFT_SECTIONS.length).default(0),
+  aiSystemId: z.string().nullable().optional(),
+  reassessmentId: z.string().nullable().optional(),
+});
+
+export const updateAssessmentDraftSchema = z.object({
+  formData: assessmentDraftFormDataSchema.optional(),
+  currentStep: z.number().int().min(0).max(ASSESSMENT_DRAFT_SECTIONS.length).optional(),
+});
+
+export const assignAssessmentDraftSectionSchema = z.object({
+  section: z.enum(ASSESSMENT_DRAFT_SECTIONS),
+  assigneeId: z.string().nullable(),
+});
+
+export const createActionItemCommentSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+});
+
 // Security schemas
 export const insertSecuritySettingsSchema = createInsertSchema(securitySettings).omit({
   id: true,
@@ -872,6 +1865,14 @@ export type User = typeof users.$inferSelect;
 export type SafeUser = Omit<User, 'passwordHash'>; // Never expose password hash
 export type RegisterUser = z.infer<typeof registerUserSchema>;
 export type LoginUser = z.infer<typeof loginUserSchema>;
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type OrganizationMembership = typeof organizationMemberships.$inferSelect;
+export type InsertOrganizationMembership = z.infer<typeof insertOrganizationMembershipSchema>;
+export type OrganizationRole = typeof organizationRoleEnum.enumValues[number];
+export type AssessmentMode = typeof assessmentModeEnum.enumValues[number];
+export type UpdateOrganizationSettings = z.infer<typeof updateOrganizationSettingsSchema>;
+export type AssessmentSimulationInput = z.infer<typeof assessmentSimulationSchema>;
 export type AiSystem = typeof aiSystems.$inferSelect;
 export type InsertAiSystem = z.infer<typeof insertAiSystemSchema>;
 export type RiskAssessment = typeof riskAssessments.$inferSelect;
@@ -915,6 +1916,7 @@ export interface RiskAssessmentFormData {
   
   // Framework Questions (Per dimension - 7 dimensions x ~3 questions each)
   frameworkResponses: Record<string, number>; // questionId -> response (1-5)
+  frameworkVersion?: string; // Question bank version the questions were taken from
   
   // EU AI Act Specific Questions
   sensitiveData: 'yes' | 'limited' | 'no';
@@ -953,7 +1955,9 @@ export interface RiskAssessmentResult {
   // Combined Assessment
   riskLevel: 'minimal' | 'limited' | 'high' | 'unacceptable';
   riskScore: number; // 0-100 combined score
-  reasoning: string;
+  reasoning: string; // Rule-based, reproducible without any LLM
+  aiNarrative?: string; // Optional LLM enrichment (llm_enriched mode)
+  assessmentMode: AssessmentMode;
   
   // Compliance and Obligations
   applicableObligations: string[];
@@ -993,9 +1997,166 @@ export interface RiskAssessmentResult {
 export type AiActArticle = typeof aiActArticles.$inferSelect;
 export type ComplianceRecord = typeof complianceRecords.$inferSelect;
 export type InsertComplianceRecord = z.infer<typeof insertComplianceRecordSchema>;
+export type EvidenceAttachment = typeof evidenceAttachments.$inferSelect;
+export type InsertEvidenceAttachment = z.infer<typeof insertEvidenceAttachmentSchema>;
 export type GeneratedDocument = typeof generatedDocuments.$inferSelect;
 export type InsertGeneratedDocument = z.infer<typeof insertGeneratedDocumentSchema>;
 export type RegulatoryUpdate = typeof regulatoryUpdates.$inferSelect;
+export type RegulatorySource = typeof regulatorySources.$inferSelect;
+export type InsertRegulatorySource = typeof regulatorySources.$inferInsert;
+export type RegulatoryConnectorType = typeof regulatoryConnectorTypeEnum.enumValues[number];
+export type RegulatorySyncRun = typeof regulatorySyncRuns.$inferSelect;
+export type PersonalAccessTokenScope = typeof PERSONAL_ACCESS_TOKEN_SCOPES[number];
+export type PersonalAccessToken = typeof personalAccessTokens.$inferSelect;
+export type InsertPersonalAccessToken = typeof personalAccessTokens.$inferInsert;
+export type CreatePersonalAccessToken = z.infer<typeof createPersonalAccessTokenSchema>;
+export type InsertRegulatorySyncRun = typeof regulatorySyncRuns.$inferInsert;
+export type RegulatorySyncTrigger = typeof regulatorySyncTriggerEnum.enumValues[number];
+export type RegulatoryInsightRecord = typeof regulatoryInsights.$inferSelect;
+export type InsertRegulatoryInsightRecord = typeof regulatoryInsights.$inferInsert;
+export interface AiSystemVersionSnapshot {
+  name: string;
+  description: string | null;
+  sector: string | null;
+  primaryUseCase: string | null;
+  modelDetails: string | null;
+  dataDetails: string | null;
+  riskAnswers: Record<string, unknown>; // Risk-driving answers (RISK_DRIVING_ANSWERS)
+}
+
+export interface AiSystemVersionChange {
+  field: string; // Snapshot field, or riskAnswers.<answer>
+  from: unknown;
+  to: unknown;
+}
+
+export type ComplianceGap = RiskAssessmentResult['complianceGaps'][number];
+
+export interface RiskAssessmentAnswerChange {
+  source: 'formData' | 'frameworkResponses';
+  field: string; // Form field or framework question ID
+  from: unknown;
+  to: unknown;
+}
+
+export interface RiskAssessmentMetricDelta {
+  from: number | null;
+  to: number | null;
+  delta: number | null; // null when one of the assessments has no value
+}
+
+export interface AssessmentSimulationOutcome {
+  riskLevel: RiskAssessmentResult['riskLevel'];
+  euAiActRiskLevel: RiskAssessmentResult['euAiActRiskLevel'];
+  riskScore: number;
+  complianceScore: number;
+  overallFrameworkScore: number;
+  dimensionScores: Record<string, number>;
+}
+
+export interface AssessmentSimulationChangeImpact extends RiskAssessmentAnswerChange {
+  overallFrameworkScoreGain: number; // Points gained when this change is applied alone
+  riskScoreReduction: number;
+  riskLevel: RiskAssessmentResult['riskLevel'];
+}
+
+export interface AssessmentSimulationResult {
+  baseline: AssessmentSimulationOutcome; // Stored answers, rescored with the current engine
+  simulated: AssessmentSimulationOutcome;
+  riskLevelTrend: 'improved' | 'worsened' | 'unchanged';
+  dimensionDeltas: Array<RiskAssessmentMetricDelta & { dimension: string }>;
+  closedGaps: ComplianceGap[];
+  addedGaps: ComplianceGap[];
+  rankedChanges: AssessmentSimulationChangeImpact[]; // Best single change first
+}
+
+export interface RiskAssessmentComparison {
+  from: RiskAssessment;
+  to: RiskAssessment;
+  riskLevel: { from: string | null; to: string | null; trend: 'improved' | 'worsened' | 'unchanged' };
+  euAiActRiskLevel: { from: string | null; to: string | null };
+  riskScore: RiskAssessmentMetricDelta;
+  complianceScore: RiskAssessmentMetricDelta;
+  overallFrameworkScore: RiskAssessmentMetricDelta;
+  answerChanges: RiskAssessmentAnswerChange[];
+  dimensionDeltas: Array<RiskAssessmentMetricDelta & { dimension: string }>;
+  complianceGaps: { added: ComplianceGap[]; closed: ComplianceGap[] };
+  priorityActions: { added: string[]; closed: string[] };
+}
+
+export type OperatorRole = typeof OPERATOR_ROLES[number];
+export type ProviderTrigger = typeof PROVIDER_TRIGGERS[number];
+export type UpdateOperatorRoles = z.infer<typeof updateOperatorRolesSchema>;
+export type AiSystemVersion = typeof aiSystemVersions.$inferSelect;
+export type InsertAiSystemVersion = typeof aiSystemVersions.$inferInsert;
+export type GpaiModality = typeof GPAI_MODALITIES[number];
+export type GpaiSystemicRiskBasis = 'compute_threshold' | 'commission_designation';
+export type GpaiModel = typeof gpaiModels.$inferSelect;
+export type InsertGpaiModel = typeof gpaiModels.$inferInsert;
+export type CreateGpaiModel = z.infer<typeof createGpaiModelSchema>;
+export type UpdateGpaiModel = z.infer<typeof updateGpaiModelSchema>;
+export type UpdateAiSystem = z.infer<typeof updateAiSystemSchema>;
+export type ProhibitedPracticeOutcome = typeof PROHIBITED_PRACTICE_OUTCOMES[number];
+
+export interface ProhibitedPracticeTraceStep {
+  questionId: string;
+  paragraph: string; // Provision the question checks, e.g. "Art. 5(1)(f)"
+  answer: boolean | null; // null: exception question left unanswered, treated as "no"
+}
+
+export interface ProhibitedPracticeTraceEntry {
+  practiceId: string;
+  paragraph: string;
+  result: 'not_applicable' | 'exception_applies' | 'prohibited';
+  steps: ProhibitedPracticeTraceStep[];
+  exceptionId: string | null;
+  conclusion: string;
+}
+
+export type HighRiskClassificationOutcome = typeof HIGH_RISK_CLASSIFICATION_OUTCOMES[number];
+
+export interface HighRiskClassificationTraceStep {
+  questionId: string;
+  reference: string; // Provision the question checks, e.g. "Annexe III, point 4(a)"
+  answer: boolean | null; // null: derogation question left unanswered, treated as "no"
+}
+
+export interface HighRiskClassificationTraceEntry {
+  ruleId: string; // annex_i, an Annex III area id, or art6_3
+  reference: string;
+  applies: boolean;
+  steps: HighRiskClassificationTraceStep[];
+  conclusion: string;
+}
+
+export type HighRiskClassification = typeof highRiskClassifications.$inferSelect;
+export type InsertHighRiskClassification = typeof highRiskClassifications.$inferInsert;
+export type ClassifyHighRisk = z.infer<typeof classifyHighRiskSchema>;
+export type ProhibitedPracticeScreening = typeof prohibitedPracticeScreenings.$inferSelect;
+export type InsertProhibitedPracticeScreening = typeof prohibitedPracticeScreenings.$inferInsert;
+export type ScreenProhibitedPractices = z.infer<typeof screenProhibitedPracticesSchema>;
+export type AiSystemInventoryRow = z.infer<typeof aiSystemInventoryRowSchema>;
+export type SystemReassessment = typeof systemReassessments.$inferSelect;
+export type AssessmentDraftSection = typeof ASSESSMENT_DRAFT_SECTIONS[number];
+export interface AssessmentDraftFormData {
+  systemName?: string;
+  industrySector?: string;
+  primaryUseCase?: string;
+  responses: Record<string, number>;
+}
+export type AssessmentDraft = typeof assessmentDrafts.$inferSelect;
+export type InsertAssessmentDraft = typeof assessmentDrafts.$inferInsert;
+export type CreateAssessmentDraft = z.infer<typeof createAssessmentDraftSchema>;
+export type UpdateAssessmentDraft = z.infer<typeof updateAssessmentDraftSchema>;
+export type InsertSystemReassessment = typeof systemReassessments.$inferInsert;
+export type ActionItem = typeof actionItems.$inferSelect;
+export type InsertActionItem = typeof actionItems.$inferInsert;
+export type ActionItemStatus = typeof actionItemStatusEnum.enumValues[number];
+export type ActionItemDependency = typeof actionItemDependencies.$inferSelect;
+export type ActionItemComment = typeof actionItemComments.$inferSelect;
+export type InsertActionItemComment = typeof actionItemComments.$inferInsert;
+export type CreateActionItem = z.infer<typeof createActionItemSchema>;
+export type UpdateActionItem = z.infer<typeof updateActionItemSchema>;
 export type LlmSettings = typeof llmSettings.$inferSelect;
 export type InsertLlmSettings = z.infer<typeof insertLlmSettingsSchema>;
 export type MaturityAssessment = typeof maturityAssessments.$inferSelect;
@@ -1003,9 +2164,30 @@ export type InsertMaturityAssessment = z.infer<typeof insertMaturityAssessmentSc
 export type ComplianceCertificate = typeof complianceCertificates.$inferSelect;
 export type InsertComplianceCertificate = z.infer<typeof insertComplianceCertificateSchema>;
 export type FrameworkQuestion = typeof frameworkQuestions.$inferSelect;
-export type InsertFrameworkQuestion = z.infer<typeof insertFrameworkQuestionSchema>;
+export interface FrameworkQuestionOption {
+  value: number;
+  label: string;
+  description: string;
+}
+export type FrameworkQuestionInput = z.infer<typeof frameworkQuestionInputSchema>;
+export type FrameworkDimensionId = typeof aiFrameworkDimensionEnum.enumValues[number];
+export type FrameworkStrategyKey = typeof frameworkStrategyEnum.enumValues[number];
+export type FrameworkVersion = typeof frameworkVersions.$inferSelect;
+export type InsertFrameworkVersion = typeof frameworkVersions.$inferInsert;
+export type InsertFrameworkQuestion = typeof frameworkQuestions.$inferInsert;
+export type FrameworkRiskLevel = typeof frameworkRiskLevelEnum.enumValues[number];
+export type UseCaseRiskLevels = Record<FrameworkDimensionId, FrameworkRiskLevel>;
 export type UseCaseRiskMapping = typeof useCaseRiskMapping.$inferSelect;
-export type InsertUseCaseRiskMapping = z.infer<typeof insertUseCaseRiskMappingSchema>;
+export type InsertUseCaseRiskMapping = typeof useCaseRiskMapping.$inferInsert;
+export type WorkflowDefinition = typeof workflowDefinitions.$inferSelect;
+export type InsertWorkflowDefinition = typeof workflowDefinitions.$inferInsert;
+export type WorkflowExecution = typeof workflowExecutions.$inferSelect;
+export type InsertWorkflowExecution = typeof workflowExecutions.$inferInsert;
+export type WorkflowStepExecution = typeof workflowStepExecutions.$inferSelect;
+export type InsertWorkflowStepExecution = typeof workflowStepExecutions.$inferInsert;
+export type CertificateReminder = typeof certificateReminders.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
 
 // Enhanced Framework v3.0 types
 export interface FrameworkDimension {
@@ -1043,6 +2225,7 @@ export interface FrameworkAssessmentData {
   systemDescription?: string;
   // Responses per dimension and strategy
   responses: Record<string, Record<string, number>>; // dimension -> questionId -> response (1-5)
+  frameworkVersion?: string; // Question bank version, defaults to the published one
 }
 
 export interface FrameworkAssessmentResult {